@@ -0,0 +1,45 @@
+-- Migration: Database guard against double-booked clinician time
+-- The booking and reschedule routes check that a slot is free before writing, but two requests
+-- for the same slot can both pass that check. This exclusion constraint makes the database
+-- reject any pending/confirmed appointment that overlaps another one of the same clinician
+-- (SQLSTATE 23P01, returned to clients as 409 - see isAppointmentOverlapError in
+-- backend/src/utils/clinicianAvailability.ts).
+-- Times are the clinician's wall-clock time, so ranges of one clinician always compare correctly
+-- (appointments running past midnight included).
+-- If adding the constraint fails, existing appointments already overlap: list them with the
+-- query at the end of this file, cancel or move them, then run the migration again.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- Lets the GiST index compare clinician_id (UUID) with =
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE appointments
+DROP CONSTRAINT IF EXISTS appointments_no_clinician_overlap;
+
+ALTER TABLE appointments
+ADD CONSTRAINT appointments_no_clinician_overlap
+EXCLUDE USING gist (
+  clinician_id WITH =,
+  tsrange(
+    appointment_date + appointment_time,
+    appointment_date + appointment_time + duration_minutes * INTERVAL '1 minute'
+  ) WITH &&
+)
+WHERE (status IN ('pending', 'confirmed'));
+
+COMMENT ON CONSTRAINT appointments_no_clinician_overlap ON appointments IS 'A clinician can''t have two active (pending/confirmed) appointments at the same time';
+
+COMMIT;
+
+-- Verify (also lists the overlaps that block the constraint - should return no rows)
+SELECT a.id, b.id AS overlaps_with, a.clinician_id, a.appointment_date, a.appointment_time
+FROM appointments a
+JOIN appointments b
+  ON a.clinician_id = b.clinician_id
+ AND a.id < b.id
+ AND a.status IN ('pending', 'confirmed')
+ AND b.status IN ('pending', 'confirmed')
+ AND tsrange(a.appointment_date + a.appointment_time, a.appointment_date + a.appointment_time + a.duration_minutes * INTERVAL '1 minute')
+  && tsrange(b.appointment_date + b.appointment_time, b.appointment_date + b.appointment_time + b.duration_minutes * INTERVAL '1 minute');
@@ -0,0 +1,83 @@
+-- Migration: Appointment reminders and no-show tracking
+-- A background job reminds workers ahead of their appointments (offsets from APPOINTMENT_REMINDER_OFFSETS)
+-- and flags pending appointments the worker still hasn't confirmed close to the start time.
+-- appointment_reminders records every reminder sent, so repeated runs (or several backend
+-- instances) never send the same reminder twice; a rescheduled appointment gets fresh reminders.
+-- Clinicians can record a 'no_show' outcome for appointments the worker didn't attend.
+-- See backend/src/utils/appointmentReminders.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- Add 'no_show' status
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled', 'declined', 'no_show'));
+
+COMMENT ON COLUMN appointments.status IS 'Status: pending, confirmed, completed, cancelled, declined, or no_show';
+
+-- No-shows are always recorded after the fact
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointment_date_not_past;
+ALTER TABLE appointments ADD CONSTRAINT appointment_date_not_past
+  CHECK (
+    appointment_date >= CURRENT_DATE::date
+    OR status IN ('completed', 'cancelled', 'declined', 'no_show')
+  );
+
+COMMENT ON CONSTRAINT appointment_date_not_past ON appointments IS
+  'Prevents past dates for pending/confirmed appointments, but allows past dates for completed/cancelled/declined/no_show appointments';
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS unconfirmed_flagged_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN appointments.unconfirmed_flagged_at IS 'When the clinician was alerted that the worker had not confirmed close to the start time (reset when the appointment moves)';
+
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT appointment_reminders_unique UNIQUE (appointment_id, offset_minutes, scheduled_for)
+);
+
+COMMENT ON TABLE appointment_reminders IS 'Reminders sent to workers ahead of their appointments';
+COMMENT ON COLUMN appointment_reminders.offset_minutes IS 'Reminder offset (minutes before the start time)';
+COMMENT ON COLUMN appointment_reminders.scheduled_for IS 'Appointment start the reminder was sent for - a rescheduled appointment is reminded again';
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_appointment ON appointment_reminders(appointment_id);
+
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on appointment reminders" ON appointment_reminders;
+
+CREATE POLICY "Service role can do everything on appointment reminders"
+  ON appointment_reminders FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Add reminder notification types
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'incident_assigned',
+  'case_updated',
+  'case_closed',
+  'system',
+  'worker_not_fit_to_work',
+  'case_assigned_to_clinician',
+  'worker_transferred',
+  'worker_not_fit_escalated',
+  'check_in_missed',
+  'rehab_pain_increase',
+  'appointment_reminder',
+  'appointment_unconfirmed'
+));
+
+COMMIT;
+
+-- Verify
+SELECT status, COUNT(*) FROM appointments GROUP BY status;
+SELECT COUNT(*) AS reminders_sent FROM appointment_reminders;
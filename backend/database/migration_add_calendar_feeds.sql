@@ -0,0 +1,39 @@
+-- Migration: Calendar feed tokens
+-- Workers and clinicians subscribe to an iCalendar (.ics) feed of their shifts and appointments
+-- at /api/calendar/feeds/<token>.ics. Calendar apps can't log in, so the URL carries a random
+-- token; only its SHA-256 hash is stored. Setting revoked_at stops the feed.
+-- See backend/src/utils/calendarFeeds.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL,
+  token_hint VARCHAR(8) NOT NULL,
+  label VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT calendar_feed_tokens_token_hash_unique UNIQUE (token_hash)
+);
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Revocable tokens for per-user iCalendar feeds (shifts and appointments)';
+COMMENT ON COLUMN calendar_feed_tokens.token_hash IS 'SHA-256 (hex) of the token in the feed URL - the token itself is never stored';
+COMMENT ON COLUMN calendar_feed_tokens.token_hint IS 'Last characters of the token so users can tell their feeds apart';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user ON calendar_feed_tokens(user_id);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on calendar feed tokens" ON calendar_feed_tokens;
+
+CREATE POLICY "Service role can do everything on calendar feed tokens"
+  ON calendar_feed_tokens FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT COUNT(*) AS calendar_feed_tokens FROM calendar_feed_tokens;
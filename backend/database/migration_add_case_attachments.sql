@@ -0,0 +1,47 @@
+-- Migration: Case attachments
+-- Incident photos used to be converted to base64 data URLs and written (truncated) into
+-- worker_exceptions.notes. Files now go to the storage backend (local filesystem or
+-- S3-compatible, see backend/src/utils/storage.ts) and case_attachments holds the metadata.
+-- A case can have any number of attachments (incident photos, medical certificates, ...).
+-- Clears the old "Photo attached: data:..." notes - they only held the first 100 characters
+-- of the data URL, so the photos can't be recovered from them.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS case_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES worker_exceptions(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES incidents(id) ON DELETE SET NULL,
+  storage_backend VARCHAR(20) NOT NULL CHECK (storage_backend IN ('local', 's3')),
+  storage_key TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  category VARCHAR(30) NOT NULL DEFAULT 'other' CHECK (category IN ('incident_photo', 'medical_certificate', 'other')),
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  uploaded_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE case_attachments IS 'Files attached to a case; contents live in the storage backend, downloaded via signed URLs';
+COMMENT ON COLUMN case_attachments.storage_backend IS 'Backend the file was stored with (local or s3), so files stay readable after switching backends';
+COMMENT ON COLUMN case_attachments.storage_key IS 'Object key within the storage backend, e.g. cases/<case_id>/<uuid>.jpg';
+
+CREATE INDEX IF NOT EXISTS idx_case_attachments_case ON case_attachments(case_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_case_attachments_incident ON case_attachments(incident_id) WHERE incident_id IS NOT NULL;
+
+ALTER TABLE case_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on case attachments" ON case_attachments;
+
+CREATE POLICY "Service role can do everything on case attachments"
+  ON case_attachments FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Remove truncated inline photo data from notes
+UPDATE worker_exceptions
+SET notes = NULL
+WHERE notes LIKE 'Photo attached: data:%';
+
+COMMIT;
@@ -0,0 +1,184 @@
+-- Migration: First-class case fields on worker_exceptions
+-- Case status, approvals and clinical notes used to be stored as a JSON string in
+-- worker_exceptions.notes. They now live in typed columns so they can be queried
+-- (e.g. in_rehab cases older than 30 days) and updated without overwriting each other.
+-- Every status change is recorded in case_status_history.
+-- Backfills the new columns from the existing notes JSON (original notes are kept
+-- in worker_exceptions_notes_backup) and restores notes to the plain original text.
+-- Note: cases are NOT split into their own table - a case is still the worker_exceptions row
+-- (case_status IS NOT NULL), and exceptions without a case keep the new columns NULL.
+-- rehabilitation_plans, appointments, case_status_history, case attachments and SLA events all
+-- reference worker_exceptions.id as the case ID, so a separate cases table would mean moving
+-- every one of those references in the same release. That split is left as a follow-up.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- ============================================
+-- Typed case columns
+-- ============================================
+ALTER TABLE worker_exceptions
+ADD COLUMN IF NOT EXISTS case_status VARCHAR(20),
+ADD COLUMN IF NOT EXISTS case_status_updated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS case_status_updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS approved_by TEXT,
+ADD COLUMN IF NOT EXISTS approved_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS whs_approved_by TEXT,
+ADD COLUMN IF NOT EXISTS whs_approved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS clinical_notes TEXT,
+ADD COLUMN IF NOT EXISTS clinical_notes_updated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS clinical_notes_updated_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE worker_exceptions
+DROP CONSTRAINT IF EXISTS worker_exceptions_case_status_check;
+
+ALTER TABLE worker_exceptions
+ADD CONSTRAINT worker_exceptions_case_status_check
+CHECK (case_status IS NULL OR case_status IN ('new', 'triaged', 'assessed', 'in_rehab', 'return_to_work', 'closed'));
+
+COMMENT ON COLUMN worker_exceptions.case_status IS 'Case status set by the clinician: new, triaged, assessed, in_rehab, return_to_work, closed (NULL = never set)';
+COMMENT ON COLUMN worker_exceptions.approved_by IS 'Name of the clinician who approved return to work / closure';
+COMMENT ON COLUMN worker_exceptions.whs_approved_by IS 'Name of the WHS user who approved the case';
+COMMENT ON COLUMN worker_exceptions.clinical_notes IS 'Clinician notes for the case';
+
+CREATE INDEX IF NOT EXISTS idx_worker_exceptions_case_status_created
+ON worker_exceptions(case_status, created_at)
+WHERE case_status IS NOT NULL;
+
+-- ============================================
+-- Status history
+-- ============================================
+CREATE TABLE IF NOT EXISTS case_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES worker_exceptions(id) ON DELETE CASCADE,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name TEXT,
+  source VARCHAR(20) NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'backfill')),
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE case_status_history IS 'One row per case status change (backfill rows seed the status found in the old notes JSON)';
+
+CREATE INDEX IF NOT EXISTS idx_case_status_history_case ON case_status_history(case_id, changed_at DESC);
+
+ALTER TABLE case_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on case status history" ON case_status_history;
+
+CREATE POLICY "Service role can do everything on case status history"
+  ON case_status_history FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Backfill from notes JSON
+-- ============================================
+CREATE TABLE IF NOT EXISTS worker_exceptions_notes_backup (
+  exception_id UUID PRIMARY KEY REFERENCES worker_exceptions(id) ON DELETE CASCADE,
+  notes TEXT,
+  backed_up_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE worker_exceptions_notes_backup IS 'Original worker_exceptions.notes JSON before the case fields migration';
+
+ALTER TABLE worker_exceptions_notes_backup ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on notes backup" ON worker_exceptions_notes_backup;
+
+CREATE POLICY "Service role can do everything on notes backup"
+  ON worker_exceptions_notes_backup FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Plain-text notes (and malformed JSON) are left untouched
+CREATE OR REPLACE FUNCTION pg_temp.try_parse_jsonb(value TEXT) RETURNS JSONB AS $$
+BEGIN
+  IF value IS NULL OR value !~ '^\s*\{' THEN
+    RETURN NULL;
+  END IF;
+  RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_parse_timestamptz(value TEXT) RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_parse_uuid(value TEXT) RETURNS UUID AS $$
+BEGIN
+  RETURN value::uuid;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE TEMP TABLE case_notes_backfill ON COMMIT DROP AS
+SELECT id, notes, data
+FROM (
+  SELECT id, notes, pg_temp.try_parse_jsonb(notes) AS data
+  FROM worker_exceptions
+  WHERE notes IS NOT NULL
+) parsed
+WHERE data IS NOT NULL AND jsonb_typeof(data) = 'object';
+
+INSERT INTO worker_exceptions_notes_backup (exception_id, notes)
+SELECT id, notes FROM case_notes_backfill
+ON CONFLICT (exception_id) DO NOTHING;
+
+UPDATE worker_exceptions we
+SET
+  case_status = COALESCE(
+    we.case_status,
+    CASE WHEN b.data->>'case_status' IN ('new', 'triaged', 'assessed', 'in_rehab', 'return_to_work', 'closed')
+      THEN b.data->>'case_status' END
+  ),
+  case_status_updated_at = COALESCE(we.case_status_updated_at, pg_temp.try_parse_timestamptz(b.data->>'case_status_updated_at')),
+  approved_by = COALESCE(we.approved_by, NULLIF(b.data->>'approved_by', '')),
+  approved_by_id = COALESCE(we.approved_by_id, pg_temp.try_parse_uuid(b.data->>'approved_by_id')),
+  approved_at = COALESCE(we.approved_at, pg_temp.try_parse_timestamptz(b.data->>'approved_at')),
+  whs_approved_by = COALESCE(we.whs_approved_by, NULLIF(b.data->>'whs_approved_by', '')),
+  whs_approved_at = COALESCE(we.whs_approved_at, pg_temp.try_parse_timestamptz(b.data->>'whs_approved_at')),
+  clinical_notes = COALESCE(we.clinical_notes, NULLIF(b.data->>'clinical_notes', '')),
+  clinical_notes_updated_at = COALESCE(we.clinical_notes_updated_at, pg_temp.try_parse_timestamptz(b.data->>'clinical_notes_updated_at')),
+  clinical_notes_updated_by = COALESCE(we.clinical_notes_updated_by, pg_temp.try_parse_uuid(b.data->>'clinical_notes_updated_by')),
+  return_to_work_duty_type = COALESCE(
+    we.return_to_work_duty_type,
+    CASE WHEN lower(b.data->>'return_to_work_duty_type') IN ('modified', 'full')
+      THEN lower(b.data->>'return_to_work_duty_type') END
+  ),
+  return_to_work_date = COALESCE(
+    we.return_to_work_date,
+    CASE WHEN b.data->>'return_to_work_date' ~ '^\d{4}-\d{2}-\d{2}'
+      THEN pg_temp.try_parse_timestamptz(b.data->>'return_to_work_date')::date END
+  ),
+  -- Keep only the free-text notes that were wrapped into the JSON
+  notes = NULLIF(b.data->>'original_notes', '')
+FROM case_notes_backfill b
+WHERE we.id = b.id;
+
+-- Seed history with the status each case had before the migration
+INSERT INTO case_status_history (case_id, from_status, to_status, changed_by, changed_by_name, source, changed_at)
+SELECT
+  we.id,
+  NULL,
+  we.case_status,
+  we.approved_by_id,
+  we.approved_by,
+  'backfill',
+  COALESCE(we.case_status_updated_at, we.updated_at, we.created_at)
+FROM case_notes_backfill b
+JOIN worker_exceptions we ON we.id = b.id
+WHERE we.case_status IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM case_status_history h
+    WHERE h.case_id = we.id AND h.source = 'backfill'
+  );
+
+COMMIT;
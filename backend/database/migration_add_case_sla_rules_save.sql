@@ -0,0 +1,47 @@
+-- Migration: Save case SLA rules in one transaction
+-- PUT /api/whs/sla-rules used to delete the organization's rules and insert the new set as two
+-- calls - a failed insert left the organization on the built-in defaults. save_case_sla_rules
+-- replaces them in one transaction, locking the organization row so two saves run one after the other.
+-- See saveSlaRules in backend/src/utils/caseSla.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- p_rules: [{ metric, severity, target_hours }] - target_hours NULL means no SLA
+CREATE OR REPLACE FUNCTION save_case_sla_rules(p_organization_id UUID, p_rules JSONB, p_updated_by UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_count INTEGER;
+BEGIN
+  -- Serialize saves per organization
+  PERFORM 1 FROM organizations WHERE id = p_organization_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Organization % not found', p_organization_id;
+  END IF;
+
+  DELETE FROM case_sla_rules WHERE organization_id = p_organization_id;
+
+  INSERT INTO case_sla_rules (organization_id, metric, severity, target_hours, updated_at, updated_by)
+  SELECT p_organization_id, r.metric, r.severity, r.target_hours, NOW(), p_updated_by
+  FROM jsonb_to_recordset(COALESCE(p_rules, '[]'::jsonb)) AS r(
+    metric VARCHAR(30),
+    severity VARCHAR(10),
+    target_hours NUMERIC(6, 1)
+  );
+
+  GET DIAGNOSTICS saved_count = ROW_COUNT;
+  RETURN saved_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_case_sla_rules(UUID, JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_case_sla_rules(UUID, JSONB, UUID) TO service_role;
+
+COMMIT;
+
+-- Verify
+SELECT proname FROM pg_proc WHERE proname = 'save_case_sla_rules';
@@ -0,0 +1,112 @@
+-- Migration: Case SLA timers and overdue escalations
+-- Each organization sets target hours for how long a WHS case may sit in a status (new = triage,
+-- triaged = assessment, assessed = rehab start), wait for a clinician, and wait for its first
+-- appointment once a clinician is assigned. Targets can differ by severity (HIGH / MEDIUM / LOW,
+-- derived from the incident type); severity 'ANY' is the fallback. Organizations with no rules use
+-- the defaults in backend/src/utils/caseSla.ts.
+-- case_sla_breaches records each breached clock once so the background job never escalates twice.
+-- worker_exceptions.assigned_to_whs_at is backfilled from incident_assigned notifications
+-- (falling back to created_at), which were the only record of when a case reached WHS.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE worker_exceptions
+ADD COLUMN IF NOT EXISTS assigned_to_whs_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN worker_exceptions.assigned_to_whs_at IS 'When the supervisor sent the case to WHS (starts the triage and clinician assignment SLA clocks)';
+
+UPDATE worker_exceptions we
+SET assigned_to_whs_at = COALESCE(
+  (
+    SELECT MIN(n.created_at)
+    FROM notifications n
+    WHERE n.type = 'incident_assigned'
+      AND n.data->>'incident_id' = we.id::TEXT
+  ),
+  we.created_at
+)
+WHERE we.assigned_to_whs = true
+  AND we.assigned_to_whs_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS case_sla_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  metric VARCHAR(30) NOT NULL
+    CHECK (metric IN ('new', 'triaged', 'assessed', 'clinician_assignment', 'first_appointment')),
+  severity VARCHAR(10) NOT NULL DEFAULT 'ANY' CHECK (severity IN ('ANY', 'HIGH', 'MEDIUM', 'LOW')),
+  target_hours NUMERIC(6, 1) CHECK (target_hours IS NULL OR (target_hours > 0 AND target_hours <= 2160)),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE (organization_id, metric, severity)
+);
+
+COMMENT ON TABLE case_sla_rules IS 'Per-organization SLA targets for WHS cases (no rows = built-in defaults)';
+COMMENT ON COLUMN case_sla_rules.metric IS 'new / triaged / assessed = time in that case status, clinician_assignment = time from reaching WHS to a clinician, first_appointment = time from clinician assignment to the first appointment being booked';
+COMMENT ON COLUMN case_sla_rules.severity IS 'Case severity the target applies to - ANY is used when there is no severity-specific row';
+COMMENT ON COLUMN case_sla_rules.target_hours IS 'Hours before the SLA is breached (NULL = no SLA)';
+
+CREATE TABLE IF NOT EXISTS case_sla_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES worker_exceptions(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  metric VARCHAR(30) NOT NULL,
+  clock_started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  breached_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (case_id, metric, clock_started_at)
+);
+
+COMMENT ON TABLE case_sla_breaches IS 'One row per breached SLA clock - a case re-entering a status starts a new clock';
+COMMENT ON COLUMN case_sla_breaches.notified_at IS 'When the escalation notifications were sent';
+
+CREATE INDEX IF NOT EXISTS idx_case_sla_breaches_org ON case_sla_breaches(organization_id, breached_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_worker_exceptions_whs_active
+ON worker_exceptions(organization_id, is_active)
+WHERE assigned_to_whs = true;
+
+ALTER TABLE case_sla_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_sla_breaches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on case sla rules" ON case_sla_rules;
+DROP POLICY IF EXISTS "Service role can do everything on case sla breaches" ON case_sla_breaches;
+
+CREATE POLICY "Service role can do everything on case sla rules"
+  ON case_sla_rules FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on case sla breaches"
+  ON case_sla_breaches FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Add SLA escalation notification type
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'incident_assigned',
+  'case_updated',
+  'case_closed',
+  'system',
+  'worker_not_fit_to_work',
+  'case_assigned_to_clinician',
+  'worker_transferred',
+  'worker_not_fit_escalated',
+  'check_in_missed',
+  'rehab_pain_increase',
+  'appointment_reminder',
+  'appointment_unconfirmed',
+  'case_sla_breached'
+));
+
+COMMIT;
+
+-- Verify
+SELECT
+  (SELECT COUNT(*) FROM worker_exceptions WHERE assigned_to_whs = true AND assigned_to_whs_at IS NOT NULL) AS whs_cases_with_assignment_time,
+  (SELECT COUNT(*) FROM case_sla_rules) AS sla_rules,
+  (SELECT COUNT(*) FROM case_sla_breaches) AS sla_breaches;
@@ -0,0 +1,15 @@
+-- Migration: Case status transition audit fields
+-- Status changes are validated against the transition table in utils/caseStatus.ts.
+-- Each case_status_history row now records the actor's role and the reason given.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE case_status_history
+ADD COLUMN IF NOT EXISTS changed_by_role VARCHAR(50),
+ADD COLUMN IF NOT EXISTS reason TEXT;
+
+COMMENT ON COLUMN case_status_history.changed_by_role IS 'Role of the user who changed the status (clinician, whs_control_center)';
+COMMENT ON COLUMN case_status_history.reason IS 'Reason given for the change (required for closing without return to work and for moving backwards)';
+
+COMMIT;
@@ -0,0 +1,97 @@
+-- Migration: Per-team custom check-in questionnaire
+-- Team leaders / supervisors define extra typed questions per team
+-- (e.g. "Alcohol in last 12h", "Medication that affects driving", body-map pain location).
+-- Answers are stored as a snapshot on daily_checkins.custom_answers.
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- CHECK-IN QUESTIONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS checkin_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  question_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  help_text TEXT,
+  question_type TEXT NOT NULL CHECK (question_type IN ('boolean', 'scale', 'number', 'single_choice', 'multi_choice', 'text', 'body_map')),
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  min_value NUMERIC,
+  max_value NUMERIC,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  scoring_weight NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (scoring_weight >= 0),
+  red_flag_threshold NUMERIC,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(team_id, question_key)
+);
+
+COMMENT ON TABLE checkin_questions IS 'Custom daily check-in questions per team';
+COMMENT ON COLUMN checkin_questions.question_key IS 'Stable identifier used in answers and analytics (cannot change once created)';
+COMMENT ON COLUMN checkin_questions.options IS 'Choice options: [{ "value": "...", "label": "...", "score": 0 }]';
+COMMENT ON COLUMN checkin_questions.scoring_weight IS 'Multiplier applied to the answer value before adding to the readiness score (0 = not scored)';
+COMMENT ON COLUMN checkin_questions.red_flag_threshold IS 'Answer value at or above this forces Red (yes = 1, body map = regions selected). NULL = disabled';
+COMMENT ON COLUMN checkin_questions.is_active IS 'Inactive questions are hidden from the form but kept for historical analytics';
+
+CREATE INDEX IF NOT EXISTS idx_checkin_questions_team_active ON checkin_questions(team_id, is_active, sort_order);
+
+-- Enable Row Level Security
+ALTER TABLE checkin_questions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS "Team members can view their team check-in questions" ON checkin_questions;
+DROP POLICY IF EXISTS "Team leaders and supervisors can manage check-in questions" ON checkin_questions;
+DROP POLICY IF EXISTS "Service role can do everything on check-in questions" ON checkin_questions;
+
+-- Workers can view their team's questions
+CREATE POLICY "Team members can view their team check-in questions"
+  ON checkin_questions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = checkin_questions.team_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+-- Team leaders and supervisors can manage their team's questions
+CREATE POLICY "Team leaders and supervisors can manage check-in questions"
+  ON checkin_questions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = checkin_questions.team_id
+      AND (teams.team_leader_id = auth.uid() OR teams.supervisor_id = auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = checkin_questions.team_id
+      AND (teams.team_leader_id = auth.uid() OR teams.supervisor_id = auth.uid())
+    )
+  );
+
+-- Service role can do everything
+CREATE POLICY "Service role can do everything on check-in questions"
+  ON checkin_questions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_checkin_questions_updated_at ON checkin_questions;
+CREATE TRIGGER update_checkin_questions_updated_at
+  BEFORE UPDATE ON checkin_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- DAILY CHECK-INS: custom answers
+-- ============================================
+ALTER TABLE daily_checkins
+  ADD COLUMN IF NOT EXISTS custom_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS custom_score NUMERIC(6,2);
+
+COMMENT ON COLUMN daily_checkins.custom_answers IS 'Snapshot of custom question answers: [{ questionId, key, label, type, value, score }]';
+COMMENT ON COLUMN daily_checkins.custom_score IS 'Weighted score contributed by custom answers (included in readiness_score)';
@@ -0,0 +1,86 @@
+-- Migration: Clinician assignment recommendations and auto-assignment
+-- WHS staff get a ranked list of clinicians when assigning a case (open case load, upcoming
+-- appointments, specialty vs the case's incident type, past time to return to work), and each
+-- organization can choose a policy for cases reaching WHS: manual (default), round_robin or
+-- best_match (auto-assign the top recommendation).
+-- worker_exceptions.clinician_assigned_at is backfilled from case_assigned_to_clinician
+-- notifications, which were the only record of assignment time until now.
+-- See backend/src/utils/clinicianAssignment.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS clinician_assignment_profiles (
+  clinician_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  specialties TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (specialties <@ ARRAY['accident', 'injury', 'medical_leave', 'other']::TEXT[]),
+  max_open_cases INTEGER CHECK (max_open_cases IS NULL OR max_open_cases BETWEEN 1 AND 500),
+  accepting_new_cases BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE clinician_assignment_profiles IS 'What WHS considers when recommending a clinician for a case (no row = generalist, no cap, accepting)';
+COMMENT ON COLUMN clinician_assignment_profiles.specialties IS 'Incident types the clinician specialises in (worker_exceptions.exception_type) - empty = generalist';
+COMMENT ON COLUMN clinician_assignment_profiles.max_open_cases IS 'Open cases at which the clinician stops being recommended (NULL = no cap)';
+COMMENT ON COLUMN clinician_assignment_profiles.accepting_new_cases IS 'false = never auto-assigned and listed as unavailable';
+
+CREATE TABLE IF NOT EXISTS organization_assignment_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  policy VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (policy IN ('manual', 'round_robin', 'best_match')),
+  last_assigned_clinician_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE organization_assignment_settings IS 'How cases reaching WHS get a clinician (no row = manual)';
+COMMENT ON COLUMN organization_assignment_settings.policy IS 'manual (WHS picks), round_robin (next available clinician in turn), best_match (top recommendation)';
+COMMENT ON COLUMN organization_assignment_settings.last_assigned_clinician_id IS 'Round-robin position - the clinician who got the last auto-assigned case';
+
+ALTER TABLE worker_exceptions
+ADD COLUMN IF NOT EXISTS clinician_assigned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS clinician_assignment_method VARCHAR(20)
+  CHECK (clinician_assignment_method IS NULL OR clinician_assignment_method IN ('manual', 'round_robin', 'best_match'));
+
+COMMENT ON COLUMN worker_exceptions.clinician_assigned_at IS 'When the current clinician was assigned';
+COMMENT ON COLUMN worker_exceptions.clinician_assignment_method IS 'manual (WHS picked), round_robin or best_match (auto-assigned by policy)';
+
+-- Backfill from the latest assignment notification of the current clinician
+UPDATE worker_exceptions we
+SET clinician_assigned_at = latest.assigned_at,
+    clinician_assignment_method = 'manual'
+FROM (
+  SELECT n.user_id, n.data->>'case_id' AS case_id, MAX(n.created_at) AS assigned_at
+  FROM notifications n
+  WHERE n.type = 'case_assigned_to_clinician'
+  GROUP BY n.user_id, n.data->>'case_id'
+) latest
+WHERE we.clinician_id = latest.user_id
+  AND we.id::TEXT = latest.case_id
+  AND we.clinician_assigned_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_worker_exceptions_clinician_active
+ON worker_exceptions(clinician_id, is_active)
+WHERE clinician_id IS NOT NULL;
+
+ALTER TABLE clinician_assignment_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on clinician assignment profiles" ON clinician_assignment_profiles;
+DROP POLICY IF EXISTS "Service role can do everything on organization assignment settings" ON organization_assignment_settings;
+
+CREATE POLICY "Service role can do everything on clinician assignment profiles"
+  ON clinician_assignment_profiles FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on organization assignment settings"
+  ON organization_assignment_settings FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT
+  (SELECT COUNT(*) FROM clinician_assignment_profiles) AS profiles,
+  (SELECT COUNT(*) FROM organization_assignment_settings) AS organization_settings,
+  (SELECT COUNT(*) FROM worker_exceptions WHERE clinician_assigned_at IS NOT NULL) AS cases_with_assignment_time;
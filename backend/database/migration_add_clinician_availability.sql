@@ -0,0 +1,132 @@
+-- Migration: Clinician availability and worker self-booking
+-- Clinicians publish weekly working hours (with a location per block), recurring breaks and leave.
+-- Workers with an assigned clinician are offered the free slots left over and can book or
+-- reschedule within the clinician's booking rules (clinician_booking_settings).
+-- Times are the clinician's wall-clock time in clinician_booking_settings.timezone
+-- (DEFAULT_TIMEZONE when not set), like appointments.appointment_date / appointment_time.
+-- See backend/src/utils/clinicianAvailability.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS clinician_booking_settings (
+  clinician_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  timezone VARCHAR(64),
+  allow_worker_booking BOOLEAN NOT NULL DEFAULT false,
+  allow_worker_reschedule BOOLEAN NOT NULL DEFAULT false,
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 15 AND 240),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 120),
+  min_notice_hours INTEGER NOT NULL DEFAULT 24 CHECK (min_notice_hours BETWEEN 0 AND 336),
+  booking_window_days INTEGER NOT NULL DEFAULT 28 CHECK (booking_window_days BETWEEN 1 AND 180),
+  reschedule_cutoff_hours INTEGER NOT NULL DEFAULT 24 CHECK (reschedule_cutoff_hours BETWEEN 0 AND 336),
+  max_worker_reschedules INTEGER NOT NULL DEFAULT 2 CHECK (max_worker_reschedules BETWEEN 0 AND 10),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE clinician_booking_settings IS 'Rules for workers booking and rescheduling their own appointments';
+COMMENT ON COLUMN clinician_booking_settings.timezone IS 'IANA timezone of the working hours (NULL = DEFAULT_TIMEZONE)';
+COMMENT ON COLUMN clinician_booking_settings.slot_minutes IS 'Length of a self-booked appointment and step between offered start times';
+COMMENT ON COLUMN clinician_booking_settings.buffer_minutes IS 'Gap kept free around existing appointments when offering slots';
+COMMENT ON COLUMN clinician_booking_settings.min_notice_hours IS 'Earliest a worker can book ahead of the appointment';
+COMMENT ON COLUMN clinician_booking_settings.booking_window_days IS 'How many days ahead workers can book';
+COMMENT ON COLUMN clinician_booking_settings.reschedule_cutoff_hours IS 'Workers cannot reschedule an appointment starting sooner than this';
+COMMENT ON COLUMN clinician_booking_settings.max_worker_reschedules IS 'Times a worker can reschedule the same appointment';
+
+CREATE TABLE IF NOT EXISTS clinician_working_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinician_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  location TEXT,
+  CONSTRAINT clinician_working_hours_range CHECK (end_time > start_time)
+);
+
+COMMENT ON TABLE clinician_working_hours IS 'Weekly working hours of a clinician - several blocks per day allowed (e.g. two clinics)';
+COMMENT ON COLUMN clinician_working_hours.day_of_week IS 'Day of week (0 = Sunday)';
+COMMENT ON COLUMN clinician_working_hours.location IS 'Where appointments booked in this block take place';
+
+CREATE INDEX IF NOT EXISTS idx_clinician_working_hours_clinician ON clinician_working_hours(clinician_id, day_of_week);
+
+CREATE TABLE IF NOT EXISTS clinician_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinician_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  label VARCHAR(100),
+  CONSTRAINT clinician_breaks_range CHECK (end_time > start_time)
+);
+
+COMMENT ON TABLE clinician_breaks IS 'Recurring breaks of a clinician (e.g. lunch)';
+COMMENT ON COLUMN clinician_breaks.day_of_week IS 'Day of week (0 = Sunday), NULL = every day';
+
+CREATE INDEX IF NOT EXISTS idx_clinician_breaks_clinician ON clinician_breaks(clinician_id);
+
+CREATE TABLE IF NOT EXISTS clinician_leave (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinician_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT clinician_leave_date_range CHECK (end_date >= start_date),
+  CONSTRAINT clinician_leave_partial_day CHECK (
+    (start_time IS NULL AND end_time IS NULL)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_date = end_date AND end_time > start_time)
+  )
+);
+
+COMMENT ON TABLE clinician_leave IS 'Days (or part of a day) a clinician is unavailable';
+COMMENT ON COLUMN clinician_leave.start_time IS 'Set with end_time for part-day leave on a single date; NULL = whole days';
+
+CREATE INDEX IF NOT EXISTS idx_clinician_leave_clinician_dates ON clinician_leave(clinician_id, end_date);
+
+-- Who booked the appointment and how often the worker moved it
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS booked_by VARCHAR(20) NOT NULL DEFAULT 'clinician' CHECK (booked_by IN ('clinician', 'worker')),
+ADD COLUMN IF NOT EXISTS worker_reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN appointments.booked_by IS 'clinician (created by the clinician) or worker (self-booked into a free slot)';
+COMMENT ON COLUMN appointments.worker_reschedule_count IS 'Times the worker rescheduled this appointment';
+
+-- Conflict checks look at a clinician's active appointments around a date
+CREATE INDEX IF NOT EXISTS idx_appointments_clinician_date ON appointments(clinician_id, appointment_date)
+  WHERE status IN ('pending', 'confirmed');
+
+ALTER TABLE clinician_booking_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinician_working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinician_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clinician_leave ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on clinician booking settings" ON clinician_booking_settings;
+DROP POLICY IF EXISTS "Service role can do everything on clinician working hours" ON clinician_working_hours;
+DROP POLICY IF EXISTS "Service role can do everything on clinician breaks" ON clinician_breaks;
+DROP POLICY IF EXISTS "Service role can do everything on clinician leave" ON clinician_leave;
+
+CREATE POLICY "Service role can do everything on clinician booking settings"
+  ON clinician_booking_settings FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on clinician working hours"
+  ON clinician_working_hours FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on clinician breaks"
+  ON clinician_breaks FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on clinician leave"
+  ON clinician_leave FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT
+  (SELECT COUNT(*) FROM clinician_booking_settings) AS booking_settings,
+  (SELECT COUNT(*) FROM clinician_working_hours) AS working_hours,
+  (SELECT COUNT(*) FROM clinician_breaks) AS breaks,
+  (SELECT COUNT(*) FROM clinician_leave) AS leave;
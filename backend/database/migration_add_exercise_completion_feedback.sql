@@ -0,0 +1,44 @@
+-- Migration: Exercise completion feedback (pain before/after, difficulty, note)
+-- pain_level (added with plan phases) is the pain after the exercise; pain_before is asked first.
+-- A rise from pain_before to pain_level at or above the alert threshold notifies the plan's
+-- clinician (rehab_pain_increase). See backend/src/utils/rehabilitationSchedule.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE rehabilitation_plan_completions
+ADD COLUMN IF NOT EXISTS pain_before SMALLINT CHECK (pain_before BETWEEN 0 AND 10),
+ADD COLUMN IF NOT EXISTS note TEXT CHECK (note IS NULL OR length(note) <= 1000);
+
+COMMENT ON COLUMN rehabilitation_plan_completions.pain_before IS 'Pain before the exercise reported by the worker (0-10)';
+COMMENT ON COLUMN rehabilitation_plan_completions.pain_level IS 'Pain after the exercise reported by the worker (0-10)';
+COMMENT ON COLUMN rehabilitation_plan_completions.note IS 'Optional note from the worker about the exercise';
+
+-- Clinician alert when an exercise makes the pain worse
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'incident_assigned',
+  'case_updated',
+  'case_closed',
+  'system',
+  'worker_not_fit_to_work',
+  'case_assigned_to_clinician',
+  'worker_transferred',
+  'worker_not_fit_escalated',
+  'check_in_missed',
+  'rehab_pain_increase'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Type of notification: incident_assigned, case_updated, case_closed, system, worker_not_fit_to_work, case_assigned_to_clinician, worker_transferred, worker_not_fit_escalated, check_in_missed, rehab_pain_increase';
+
+COMMIT;
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'rehabilitation_plan_completions'
+  AND column_name IN ('pain_before', 'pain_level', 'difficulty', 'note');
@@ -0,0 +1,37 @@
+-- Migration: Idempotency keys
+-- Clients send an Idempotency-Key header on POST /api/worker/report-incident so that
+-- retries (e.g. the worker's offline outbox replaying a report) never create duplicate
+-- incidents. The first request claims the key; later requests with the same key get the
+-- stored response back. See backend/src/utils/idempotency.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  scope VARCHAR(50) NOT NULL,
+  idempotency_key VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT idempotency_keys_user_scope_key_unique UNIQUE (user_id, scope, idempotency_key)
+);
+
+COMMENT ON TABLE idempotency_keys IS 'Client idempotency keys per user and endpoint, with the stored response for replays';
+COMMENT ON COLUMN idempotency_keys.scope IS 'Endpoint the key belongs to, e.g. report-incident';
+COMMENT ON COLUMN idempotency_keys.status IS 'processing = request running (or crashed), completed = response_body is replayed to retries';
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on idempotency keys" ON idempotency_keys;
+
+CREATE POLICY "Service role can do everything on idempotency keys"
+  ON idempotency_keys FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
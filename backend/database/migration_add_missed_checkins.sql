@@ -0,0 +1,63 @@
+-- Migration: Missed check-ins
+-- Recorded by the background detection job when a scheduled, non-exempt worker
+-- has no check-in once their check-in window has closed.
+-- Feeds /worker/streak and the team leader check-in analytics.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS missed_checkins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  schedule_id UUID REFERENCES worker_schedules(id) ON DELETE SET NULL,
+  missed_date DATE NOT NULL,
+  check_in_window_start TIME,
+  check_in_window_end TIME NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  late_check_in_id UUID REFERENCES daily_checkins(id) ON DELETE SET NULL, -- set if the worker checked in after the window closed
+  late_checked_in_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, missed_date)
+);
+
+COMMENT ON TABLE missed_checkins IS 'Scheduled check-ins not submitted before the check-in window closed (one per worker per day)';
+COMMENT ON COLUMN missed_checkins.late_check_in_id IS 'Check-in submitted after the window closed, if any. Late check-ins still count as missed';
+
+CREATE INDEX IF NOT EXISTS idx_missed_checkins_team_date ON missed_checkins(team_id, missed_date);
+CREATE INDEX IF NOT EXISTS idx_missed_checkins_user_date ON missed_checkins(user_id, missed_date DESC);
+
+ALTER TABLE missed_checkins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own missed check-ins" ON missed_checkins;
+DROP POLICY IF EXISTS "Service role can do everything on missed check-ins" ON missed_checkins;
+
+CREATE POLICY "Users can view their own missed check-ins"
+  ON missed_checkins FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can do everything on missed check-ins"
+  ON missed_checkins FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Add 'check_in_missed' notification type
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'incident_assigned',
+  'case_updated',
+  'case_closed',
+  'system',
+  'worker_not_fit_to_work',
+  'case_assigned_to_clinician',
+  'worker_transferred',
+  'worker_not_fit_escalated',
+  'check_in_missed'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Type of notification: incident_assigned, case_updated, case_closed, system, worker_not_fit_to_work, case_assigned_to_clinician, worker_transferred, worker_not_fit_escalated, check_in_missed';
+
+COMMIT;
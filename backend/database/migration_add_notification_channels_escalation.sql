@@ -0,0 +1,132 @@
+-- Migration: Outbound notification channels (email/SMS) and escalation
+-- - Per-user channel preferences
+-- - Delivery log for every outbound attempt
+-- - Escalation chains: an unread Red check-in notification goes to the supervisor, then WHS
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- ============================================
+-- CHANNEL PREFERENCES
+-- ============================================
+CREATE TABLE IF NOT EXISTS notification_channel_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  phone_number TEXT, -- E.164 format (+61412345678)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE notification_channel_preferences IS 'Outbound channel preferences per user. Users without a row get email on, SMS off';
+
+-- ============================================
+-- DELIVERY LOG
+-- ============================================
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  destination TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE notification_deliveries IS 'Audit log of outbound email/SMS delivery attempts';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification_id ON notification_deliveries(notification_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at DESC);
+
+-- ============================================
+-- ESCALATIONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS notification_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_type TEXT NOT NULL, -- e.g. 'worker_not_fit_to_work'
+  team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  worker_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  check_in_id UUID REFERENCES daily_checkins(id) ON DELETE SET NULL,
+  level INTEGER NOT NULL DEFAULT 0 CHECK (level >= 0 AND level <= 2), -- 0 = team leader, 1 = supervisor, 2 = WHS
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'acknowledged', 'exhausted')),
+  notification_ids UUID[] NOT NULL DEFAULT '{}', -- every notification sent in this chain (any read = acknowledged)
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  next_escalation_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE notification_escalations IS 'Escalation chains for urgent notifications not acknowledged (read) in time';
+COMMENT ON COLUMN notification_escalations.level IS '0 = team leader notified, 1 = supervisor notified, 2 = WHS notified';
+
+CREATE INDEX IF NOT EXISTS idx_notification_escalations_due
+  ON notification_escalations(next_escalation_at) WHERE status = 'pending';
+
+-- ============================================
+-- RLS
+-- ============================================
+ALTER TABLE notification_channel_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_escalations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own channel preferences" ON notification_channel_preferences;
+DROP POLICY IF EXISTS "Service role can do everything on channel preferences" ON notification_channel_preferences;
+DROP POLICY IF EXISTS "Service role can do everything on notification deliveries" ON notification_deliveries;
+DROP POLICY IF EXISTS "Service role can do everything on notification escalations" ON notification_escalations;
+
+CREATE POLICY "Users can view their own channel preferences"
+  ON notification_channel_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can do everything on channel preferences"
+  ON notification_channel_preferences FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on notification deliveries"
+  ON notification_deliveries FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on notification escalations"
+  ON notification_escalations FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP TRIGGER IF EXISTS update_notification_channel_preferences_updated_at ON notification_channel_preferences;
+CREATE TRIGGER update_notification_channel_preferences_updated_at
+  BEFORE UPDATE ON notification_channel_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_notification_escalations_updated_at ON notification_escalations;
+CREATE TRIGGER update_notification_escalations_updated_at
+  BEFORE UPDATE ON notification_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- NOTIFICATION TYPE
+-- ============================================
+-- Adds 'worker_not_fit_escalated' (also adds 'worker_transferred', already used by team transfers)
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'incident_assigned',
+  'case_updated',
+  'case_closed',
+  'system',
+  'worker_not_fit_to_work',
+  'case_assigned_to_clinician',
+  'worker_transferred',
+  'worker_not_fit_escalated'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Type of notification: incident_assigned, case_updated, case_closed, system, worker_not_fit_to_work, case_assigned_to_clinician, worker_transferred, worker_not_fit_escalated';
+
+COMMIT;
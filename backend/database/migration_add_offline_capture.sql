@@ -0,0 +1,27 @@
+-- Migration: Offline capture timestamps
+-- The worker app can now record check-ins, warm-ups and exercise completions offline and
+-- sync them later. The API accepts the client's capture time (validated against
+-- CHECKIN_MAX_OFFLINE_HOURS) and records it, so window compliance and the day a record
+-- counts for follow the time the worker actually filled it in - not when it synced.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE daily_checkins
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS captured_offline BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN daily_checkins.captured_at IS 'When the worker completed the check-in (client time for offline check-ins, otherwise server time)';
+COMMENT ON COLUMN daily_checkins.captured_offline IS 'True if the check-in was captured offline and synced later';
+
+ALTER TABLE warm_ups
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN warm_ups.captured_at IS 'When the worker completed the warm-up (client time for offline completions)';
+
+ALTER TABLE rehabilitation_plan_completions
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN rehabilitation_plan_completions.captured_at IS 'When the worker completed the exercise (client time for offline completions)';
+
+COMMIT;
@@ -0,0 +1,149 @@
+-- Migration: Organizations
+-- Replaces matching users on business_name + business_registration_number strings with an
+-- organizations table. Every user, team and case (worker_exceptions) gets an organization_id;
+-- executive/WHS scoping compares those IDs (see backend/src/utils/organizations.ts).
+-- users.business_name / business_registration_number stay as a display copy of the organization.
+--
+-- Existing data is grouped by registration number (ignoring spaces and case), so spelling
+-- differences in the business name no longer split a company. Users with a business name but
+-- no registration number join the organization with that name. Team leaders and workers without
+-- business fields join the organization of their team.
+-- Safe to re-run.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  registration_number TEXT,
+  registration_number_normalized TEXT GENERATED ALWAYS AS (
+    NULLIF(upper(regexp_replace(registration_number, '\s', '', 'g')), '')
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE organizations IS 'Tenant companies - users, teams and cases belong to one organization';
+COMMENT ON COLUMN organizations.registration_number_normalized IS 'Registration number without spaces, upper-cased - unique per organization';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_registration_number
+  ON organizations(registration_number_normalized)
+  WHERE registration_number_normalized IS NOT NULL;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE worker_exceptions ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_organization_role ON users(organization_id, role);
+CREATE INDEX IF NOT EXISTS idx_teams_organization ON teams(organization_id);
+CREATE INDEX IF NOT EXISTS idx_worker_exceptions_organization ON worker_exceptions(organization_id, created_at DESC);
+
+-- 1. One organization per registration number, named after its executive (or earliest user)
+INSERT INTO organizations (name, registration_number)
+SELECT DISTINCT ON (upper(regexp_replace(business_registration_number, '\s', '', 'g')))
+  trim(business_name),
+  trim(business_registration_number)
+FROM users
+WHERE NULLIF(trim(business_registration_number), '') IS NOT NULL
+  AND NULLIF(trim(business_name), '') IS NOT NULL
+ORDER BY upper(regexp_replace(business_registration_number, '\s', '', 'g')), (role = 'executive') DESC, created_at ASC
+ON CONFLICT DO NOTHING;
+
+UPDATE users u
+SET organization_id = o.id
+FROM organizations o
+WHERE u.organization_id IS NULL
+  AND o.registration_number_normalized = upper(regexp_replace(u.business_registration_number, '\s', '', 'g'));
+
+-- 2. Business name only: join the organization with the same name, or create one
+UPDATE users u
+SET organization_id = o.id
+FROM organizations o
+WHERE u.organization_id IS NULL
+  AND NULLIF(trim(u.business_registration_number), '') IS NULL
+  AND lower(trim(u.business_name)) = lower(o.name);
+
+INSERT INTO organizations (name)
+SELECT DISTINCT ON (lower(trim(business_name))) trim(business_name)
+FROM users
+WHERE organization_id IS NULL
+  AND NULLIF(trim(business_name), '') IS NOT NULL
+ORDER BY lower(trim(business_name)), created_at ASC;
+
+UPDATE users u
+SET organization_id = o.id
+FROM organizations o
+WHERE u.organization_id IS NULL
+  AND lower(trim(u.business_name)) = lower(o.name);
+
+-- 3. Teams belong to their supervisor's organization (or their team leader's)
+UPDATE teams t
+SET organization_id = u.organization_id
+FROM users u
+WHERE t.organization_id IS NULL
+  AND u.id = t.supervisor_id
+  AND u.organization_id IS NOT NULL;
+
+UPDATE teams t
+SET organization_id = u.organization_id
+FROM users u
+WHERE t.organization_id IS NULL
+  AND u.id = t.team_leader_id
+  AND u.organization_id IS NOT NULL;
+
+-- 4. Team leaders and workers without business fields join their team's organization
+UPDATE users u
+SET organization_id = t.organization_id
+FROM teams t
+WHERE u.organization_id IS NULL
+  AND t.team_leader_id = u.id
+  AND t.organization_id IS NOT NULL;
+
+UPDATE users u
+SET organization_id = t.organization_id
+FROM team_members tm
+JOIN teams t ON t.id = tm.team_id
+WHERE u.organization_id IS NULL
+  AND tm.user_id = u.id
+  AND t.organization_id IS NOT NULL;
+
+-- 5. Cases belong to the organization of their team (or their worker)
+UPDATE worker_exceptions e
+SET organization_id = t.organization_id
+FROM teams t
+WHERE e.organization_id IS NULL
+  AND e.team_id = t.id
+  AND t.organization_id IS NOT NULL;
+
+UPDATE worker_exceptions e
+SET organization_id = u.organization_id
+FROM users u
+WHERE e.organization_id IS NULL
+  AND e.user_id = u.id
+  AND u.organization_id IS NOT NULL;
+
+-- 6. Refresh the display copy so every member shows the organization's details
+UPDATE users u
+SET business_name = o.name,
+    business_registration_number = o.registration_number
+FROM organizations o
+WHERE u.organization_id = o.id
+  AND (u.business_name IS DISTINCT FROM o.name
+    OR u.business_registration_number IS DISTINCT FROM o.registration_number);
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on organizations" ON organizations;
+
+CREATE POLICY "Service role can do everything on organizations"
+  ON organizations FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify: users with business fields that weren't linked (should be empty)
+SELECT id, email, role, business_name, business_registration_number
+FROM users
+WHERE organization_id IS NULL
+  AND (NULLIF(trim(business_name), '') IS NOT NULL OR NULLIF(trim(business_registration_number), '') IS NOT NULL);
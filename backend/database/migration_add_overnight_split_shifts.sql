@@ -0,0 +1,68 @@
+-- Migration: Overnight and split shifts in worker_schedules
+-- A shift whose end_time is at or before its start_time runs past midnight (22:00-06:00).
+-- A split shift is several rows for the same worker and shift date (scheduled_date or day_of_week),
+-- one per segment. starts_next_day marks a segment that starts after midnight of the shift date,
+-- e.g. the 01:00-05:00 half of a 20:00-00:00 / 01:00-05:00 night shift. The shift's check-in
+-- window comes from its first segment (see backend/src/utils/checkInWindow.ts).
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- Drop CHECK (end_time > start_time) from migration_add_worker_schedules.sql (auto-generated name)
+DO $$
+DECLARE
+  constraint_record RECORD;
+BEGIN
+  FOR constraint_record IN
+    SELECT con.conname
+    FROM pg_constraint con
+    JOIN pg_class rel ON rel.oid = con.conrelid
+    WHERE rel.relname = 'worker_schedules'
+      AND con.contype = 'c'
+      AND pg_get_constraintdef(con.oid) ILIKE '%end_time > start_time%'
+  LOOP
+    EXECUTE 'ALTER TABLE worker_schedules DROP CONSTRAINT ' || quote_ident(constraint_record.conname);
+  END LOOP;
+END $$;
+
+ALTER TABLE worker_schedules DROP CONSTRAINT IF EXISTS check_shift_times;
+ALTER TABLE worker_schedules
+ADD CONSTRAINT check_shift_times CHECK (end_time <> start_time);
+
+-- Daily check-in windows can span midnight too
+ALTER TABLE worker_schedules
+DROP CONSTRAINT IF EXISTS check_daily_checkin_times;
+
+ALTER TABLE worker_schedules
+ADD CONSTRAINT check_daily_checkin_times
+CHECK (
+  (requires_daily_checkin = false) OR
+  (requires_daily_checkin = true AND daily_checkin_start_time IS NOT NULL AND daily_checkin_end_time IS NOT NULL AND daily_checkin_end_time <> daily_checkin_start_time)
+);
+
+ALTER TABLE worker_schedules
+ADD COLUMN IF NOT EXISTS starts_next_day BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN worker_schedules.starts_next_day IS 'Segment starts after midnight of the shift date (later part of a split night shift)';
+COMMENT ON COLUMN worker_schedules.end_time IS 'Shift end - at or before start_time means the shift runs past midnight';
+
+-- Segments of a split shift share a day, so uniqueness includes starts_next_day
+DROP INDEX IF EXISTS worker_schedules_unique_single_date;
+DROP INDEX IF EXISTS worker_schedules_unique_recurring;
+
+CREATE UNIQUE INDEX IF NOT EXISTS worker_schedules_unique_single_date
+ON worker_schedules(worker_id, scheduled_date, start_time, starts_next_day)
+WHERE scheduled_date IS NOT NULL AND day_of_week IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS worker_schedules_unique_recurring
+ON worker_schedules(worker_id, day_of_week, start_time, starts_next_day)
+WHERE day_of_week IS NOT NULL AND scheduled_date IS NULL;
+
+COMMIT;
+
+-- Verify: check constraints on worker_schedules (no end_time > start_time left)
+SELECT con.conname, pg_get_constraintdef(con.oid)
+FROM pg_constraint con
+JOIN pg_class rel ON rel.oid = con.conrelid
+WHERE rel.relname = 'worker_schedules'
+  AND con.contype = 'c';
@@ -0,0 +1,107 @@
+-- Migration: Server-authoritative readiness scoring
+-- Adds versioned per-team readiness rule sets and stores the computed level,
+-- the worker's self-assessment and any mismatch on each daily check-in.
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- READINESS RULE SETS (versioned per team)
+-- ============================================
+CREATE TABLE IF NOT EXISTS readiness_rule_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  pain_weight NUMERIC(4,2) NOT NULL DEFAULT 1,
+  fatigue_weight NUMERIC(4,2) NOT NULL DEFAULT 1,
+  stress_weight NUMERIC(4,2) NOT NULL DEFAULT 1,
+  sleep_weight NUMERIC(4,2) NOT NULL DEFAULT 1,
+  sleep_target_hours NUMERIC(4,1) NOT NULL DEFAULT 8,
+  green_max_score NUMERIC(6,2) NOT NULL DEFAULT 10,
+  yellow_max_score NUMERIC(6,2) NOT NULL DEFAULT 20,
+  pain_red_flag INTEGER CHECK (pain_red_flag >= 0 AND pain_red_flag <= 10),
+  fatigue_red_flag INTEGER CHECK (fatigue_red_flag >= 0 AND fatigue_red_flag <= 10),
+  stress_red_flag INTEGER CHECK (stress_red_flag >= 0 AND stress_red_flag <= 10),
+  min_sleep_hours INTEGER CHECK (min_sleep_hours >= 0 AND min_sleep_hours <= 12),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(team_id, version),
+  CHECK (green_max_score < yellow_max_score),
+  CHECK (sleep_target_hours > 0)
+);
+
+COMMENT ON TABLE readiness_rule_sets IS 'Versioned readiness scoring rules per team. Rows are never edited; a new version is inserted and the previous one deactivated';
+COMMENT ON COLUMN readiness_rule_sets.version IS 'Monotonic version number per team (1, 2, 3...)';
+COMMENT ON COLUMN readiness_rule_sets.green_max_score IS 'Weighted score at or below this is Green';
+COMMENT ON COLUMN readiness_rule_sets.yellow_max_score IS 'Weighted score at or below this is Yellow, above is Red';
+COMMENT ON COLUMN readiness_rule_sets.pain_red_flag IS 'Pain level at or above this forces Red (NULL = disabled)';
+COMMENT ON COLUMN readiness_rule_sets.min_sleep_hours IS 'Sleep hours below this forces Red (NULL = disabled)';
+
+-- Only one active rule set per team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_readiness_rule_sets_team_active
+  ON readiness_rule_sets(team_id) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_readiness_rule_sets_team_id ON readiness_rule_sets(team_id);
+
+-- Enable Row Level Security
+ALTER TABLE readiness_rule_sets ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for idempotency)
+DROP POLICY IF EXISTS "Team members can view their team readiness rules" ON readiness_rule_sets;
+DROP POLICY IF EXISTS "Supervisors can view readiness rules in their teams" ON readiness_rule_sets;
+DROP POLICY IF EXISTS "Service role can do everything on readiness rule sets" ON readiness_rule_sets;
+
+-- Team members and team leaders can view their team's rules
+CREATE POLICY "Team members can view their team readiness rules"
+  ON readiness_rule_sets FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = readiness_rule_sets.team_id
+      AND team_members.user_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = readiness_rule_sets.team_id
+      AND teams.team_leader_id = auth.uid()
+    )
+  );
+
+-- Supervisors can view rules in their teams (changes go through the backend)
+CREATE POLICY "Supervisors can view readiness rules in their teams"
+  ON readiness_rule_sets FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = readiness_rule_sets.team_id
+      AND teams.supervisor_id = auth.uid()
+    )
+  );
+
+-- Service role can do everything
+CREATE POLICY "Service role can do everything on readiness rule sets"
+  ON readiness_rule_sets FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- DAILY CHECK-INS: computed vs self-assessed readiness
+-- ============================================
+-- predicted_readiness now holds the SERVER-COMPUTED level so existing analytics
+-- stay authoritative. The worker's own pick is kept in self_assessed_readiness.
+ALTER TABLE daily_checkins
+  ADD COLUMN IF NOT EXISTS self_assessed_readiness TEXT CHECK (self_assessed_readiness IN ('Green', 'Yellow', 'Red')),
+  ADD COLUMN IF NOT EXISTS readiness_score NUMERIC(6,2),
+  ADD COLUMN IF NOT EXISTS readiness_mismatch BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS readiness_red_flags TEXT[],
+  ADD COLUMN IF NOT EXISTS readiness_rule_set_id UUID REFERENCES readiness_rule_sets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS readiness_rule_version INTEGER;
+
+COMMENT ON COLUMN daily_checkins.predicted_readiness IS 'Server-computed readiness level (authoritative)';
+COMMENT ON COLUMN daily_checkins.self_assessed_readiness IS 'Readiness level the worker selected/saw on the form';
+COMMENT ON COLUMN daily_checkins.readiness_score IS 'Weighted readiness score used to derive predicted_readiness';
+COMMENT ON COLUMN daily_checkins.readiness_mismatch IS 'True when self_assessed_readiness differs from predicted_readiness';
+COMMENT ON COLUMN daily_checkins.readiness_red_flags IS 'Single-factor red flags triggered (pain, fatigue, stress, sleep)';
+COMMENT ON COLUMN daily_checkins.readiness_rule_version IS 'Rule set version used (0 = built-in defaults)';
+
+CREATE INDEX IF NOT EXISTS idx_daily_checkins_readiness_mismatch
+  ON daily_checkins(check_in_date) WHERE readiness_mismatch = true;
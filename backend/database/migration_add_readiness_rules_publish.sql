@@ -0,0 +1,82 @@
+-- Migration: Publish readiness rule versions in one transaction
+-- POST /api/supervisor/teams/:teamId/readiness-rules used to deactivate the active version and
+-- insert the new one as two calls - a failed insert left the team with no active rules.
+-- publish_readiness_rule_set does both in one transaction, locking the team row so two
+-- publishes for the same team run one after the other. The partial unique index from
+-- migration_add_readiness_rules.sql keeps at most one active version per team.
+-- See createReadinessRuleVersion in backend/src/utils/readinessScoring.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- Only one active rule set per team (also created by migration_add_readiness_rules.sql)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_readiness_rule_sets_team_active
+  ON readiness_rule_sets(team_id) WHERE is_active = true;
+
+-- p_rules: { pain_weight, fatigue_weight, stress_weight, sleep_weight, sleep_target_hours,
+--            green_max_score, yellow_max_score, pain_red_flag, fatigue_red_flag,
+--            stress_red_flag, min_sleep_hours }
+CREATE OR REPLACE FUNCTION publish_readiness_rule_set(
+  p_team_id UUID,
+  p_rules JSONB,
+  p_created_by UUID,
+  p_notes TEXT
+)
+RETURNS SETOF readiness_rule_sets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_version INTEGER;
+BEGIN
+  -- Serialize publishes per team
+  PERFORM 1 FROM teams WHERE id = p_team_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team % not found', p_team_id;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM readiness_rule_sets
+  WHERE team_id = p_team_id;
+
+  UPDATE readiness_rule_sets
+  SET is_active = false
+  WHERE team_id = p_team_id AND is_active = true;
+
+  RETURN QUERY
+  INSERT INTO readiness_rule_sets (
+    team_id, version, pain_weight, fatigue_weight, stress_weight, sleep_weight,
+    sleep_target_hours, green_max_score, yellow_max_score,
+    pain_red_flag, fatigue_red_flag, stress_red_flag, min_sleep_hours,
+    is_active, notes, created_by
+  )
+  VALUES (
+    p_team_id,
+    next_version,
+    (p_rules->>'pain_weight')::NUMERIC,
+    (p_rules->>'fatigue_weight')::NUMERIC,
+    (p_rules->>'stress_weight')::NUMERIC,
+    (p_rules->>'sleep_weight')::NUMERIC,
+    (p_rules->>'sleep_target_hours')::NUMERIC,
+    (p_rules->>'green_max_score')::NUMERIC,
+    (p_rules->>'yellow_max_score')::NUMERIC,
+    (p_rules->>'pain_red_flag')::INTEGER,
+    (p_rules->>'fatigue_red_flag')::INTEGER,
+    (p_rules->>'stress_red_flag')::INTEGER,
+    (p_rules->>'min_sleep_hours')::INTEGER,
+    true,
+    p_notes,
+    p_created_by
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION publish_readiness_rule_set(UUID, JSONB, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION publish_readiness_rule_set(UUID, JSONB, UUID, TEXT) TO service_role;
+
+COMMIT;
+
+-- Verify
+SELECT proname FROM pg_proc WHERE proname = 'publish_readiness_rule_set';
@@ -0,0 +1,79 @@
+-- Migration: Phased rehabilitation plans with per-day prescriptions
+-- A plan is split into phases (plan day ranges, Day 1 = start_date). Each phase prescribes a subset of
+-- the plan's exercises with sets / reps / hold time and an optional weekly progression, and can mark
+-- rest days. Plans without phases keep the old behaviour (every exercise, every day).
+-- Workers can report pain and difficulty when completing an exercise; the clinician progress view
+-- uses it to suggest stepping a prescription up or backing off.
+-- See backend/src/utils/rehabilitationSchedule.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS rehabilitation_plan_phases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES rehabilitation_plans(id) ON DELETE CASCADE,
+  phase_order INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  start_day INTEGER NOT NULL CHECK (start_day >= 1),
+  end_day INTEGER NOT NULL,
+  rest_days INTEGER[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT rehabilitation_plan_phases_day_range CHECK (end_day >= start_day),
+  CONSTRAINT rehabilitation_plan_phases_name_not_empty CHECK (length(trim(name)) > 0),
+  CONSTRAINT rehabilitation_plan_phases_unique_order UNIQUE (plan_id, phase_order)
+);
+
+COMMENT ON TABLE rehabilitation_plan_phases IS 'Phases of a rehabilitation plan - consecutive plan day ranges';
+COMMENT ON COLUMN rehabilitation_plan_phases.start_day IS 'First plan day of the phase (Day 1 = plan start_date)';
+COMMENT ON COLUMN rehabilitation_plan_phases.end_day IS 'Last plan day of the phase - days after the last phase continue it';
+COMMENT ON COLUMN rehabilitation_plan_phases.rest_days IS 'Plan days within the phase with no exercises';
+
+CREATE INDEX IF NOT EXISTS idx_rehabilitation_plan_phases_plan ON rehabilitation_plan_phases(plan_id, phase_order);
+
+CREATE TABLE IF NOT EXISTS rehabilitation_exercise_prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phase_id UUID NOT NULL REFERENCES rehabilitation_plan_phases(id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES rehabilitation_exercises(id) ON DELETE CASCADE,
+  sets INTEGER CHECK (sets BETWEEN 1 AND 20),
+  repetitions INTEGER CHECK (repetitions BETWEEN 1 AND 200),
+  hold_seconds INTEGER CHECK (hold_seconds BETWEEN 1 AND 600),
+  weekly_rep_increase INTEGER NOT NULL DEFAULT 0 CHECK (weekly_rep_increase BETWEEN -50 AND 50),
+  weekly_hold_increase INTEGER NOT NULL DEFAULT 0 CHECK (weekly_hold_increase BETWEEN -120 AND 120),
+  CONSTRAINT rehabilitation_exercise_prescriptions_unique UNIQUE (phase_id, exercise_id)
+);
+
+COMMENT ON TABLE rehabilitation_exercise_prescriptions IS 'Exercises done in a phase and how much of each';
+COMMENT ON COLUMN rehabilitation_exercise_prescriptions.weekly_rep_increase IS 'Repetitions added for each full week into the phase';
+COMMENT ON COLUMN rehabilitation_exercise_prescriptions.weekly_hold_increase IS 'Hold seconds added for each full week into the phase';
+
+CREATE INDEX IF NOT EXISTS idx_rehabilitation_exercise_prescriptions_phase ON rehabilitation_exercise_prescriptions(phase_id);
+
+-- Worker-reported feedback per completed exercise
+ALTER TABLE rehabilitation_plan_completions
+ADD COLUMN IF NOT EXISTS pain_level SMALLINT CHECK (pain_level BETWEEN 0 AND 10),
+ADD COLUMN IF NOT EXISTS difficulty SMALLINT CHECK (difficulty BETWEEN 1 AND 5);
+
+COMMENT ON COLUMN rehabilitation_plan_completions.pain_level IS 'Pain during the exercise reported by the worker (0-10)';
+COMMENT ON COLUMN rehabilitation_plan_completions.difficulty IS 'Perceived difficulty reported by the worker (1 = very easy, 5 = very hard)';
+
+ALTER TABLE rehabilitation_plan_phases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rehabilitation_exercise_prescriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on rehabilitation plan phases" ON rehabilitation_plan_phases;
+DROP POLICY IF EXISTS "Service role can do everything on rehabilitation exercise prescriptions" ON rehabilitation_exercise_prescriptions;
+
+CREATE POLICY "Service role can do everything on rehabilitation plan phases"
+  ON rehabilitation_plan_phases FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on rehabilitation exercise prescriptions"
+  ON rehabilitation_exercise_prescriptions FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT
+  (SELECT COUNT(*) FROM rehabilitation_plan_phases) AS plan_phases,
+  (SELECT COUNT(*) FROM rehabilitation_exercise_prescriptions) AS prescriptions;
@@ -0,0 +1,78 @@
+-- Migration: Save rehabilitation plan phases in one transaction
+-- Saving a plan's phases used to delete the old phases and insert the new ones as separate calls -
+-- a failed insert left the plan with no phases. save_rehabilitation_plan_phases replaces them in
+-- one transaction, locking the plan row so two saves for the same plan run one after the other.
+-- See savePlanPhases in backend/src/utils/rehabilitationSchedule.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- p_phases: [{ name, start_day, end_day, rest_days: [INTEGER], notes,
+--              prescriptions: [{ exercise_id, sets, repetitions, hold_seconds,
+--                                weekly_rep_increase, weekly_hold_increase }] }]
+-- Phases are numbered (phase_order) in array order. An empty array removes every phase.
+CREATE OR REPLACE FUNCTION save_rehabilitation_plan_phases(p_plan_id UUID, p_phases JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  phase JSONB;
+  phase_index BIGINT;
+  new_phase_id UUID;
+  saved_count INTEGER := 0;
+BEGIN
+  -- Serialize saves per plan
+  PERFORM 1 FROM rehabilitation_plans WHERE id = p_plan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rehabilitation plan % not found', p_plan_id;
+  END IF;
+
+  -- Prescriptions are removed with their phase (ON DELETE CASCADE)
+  DELETE FROM rehabilitation_plan_phases WHERE plan_id = p_plan_id;
+
+  FOR phase, phase_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(COALESCE(p_phases, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO rehabilitation_plan_phases (plan_id, phase_order, name, start_day, end_day, rest_days, notes)
+    VALUES (
+      p_plan_id,
+      phase_index,
+      phase->>'name',
+      (phase->>'start_day')::INTEGER,
+      (phase->>'end_day')::INTEGER,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(phase->'rest_days', '[]'::jsonb))::INTEGER),
+      phase->>'notes'
+    )
+    RETURNING id INTO new_phase_id;
+
+    INSERT INTO rehabilitation_exercise_prescriptions (
+      phase_id, exercise_id, sets, repetitions, hold_seconds, weekly_rep_increase, weekly_hold_increase
+    )
+    SELECT
+      new_phase_id, r.exercise_id, r.sets, r.repetitions, r.hold_seconds,
+      COALESCE(r.weekly_rep_increase, 0), COALESCE(r.weekly_hold_increase, 0)
+    FROM jsonb_to_recordset(COALESCE(phase->'prescriptions', '[]'::jsonb)) AS r(
+      exercise_id UUID,
+      sets INTEGER,
+      repetitions INTEGER,
+      hold_seconds INTEGER,
+      weekly_rep_increase INTEGER,
+      weekly_hold_increase INTEGER
+    );
+
+    saved_count := saved_count + 1;
+  END LOOP;
+
+  RETURN saved_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_rehabilitation_plan_phases(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_rehabilitation_plan_phases(UUID, JSONB) TO service_role;
+
+COMMIT;
+
+-- Verify
+SELECT proname FROM pg_proc WHERE proname = 'save_rehabilitation_plan_phases';
@@ -0,0 +1,102 @@
+-- Migration: Exercise library and rehabilitation plan templates
+-- exercise_library is shared by all clinicians (categories, body regions, contraindications, media).
+-- rehabilitation_plan_templates are versioned: editing a template adds a new version with the same
+-- template_key, so plans keep pointing at the exact version they were generated from.
+-- Template and plan exercises copy the library fields, so later library edits don't change them.
+-- See backend/src/utils/rehabilitationLibrary.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS exercise_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(30) NOT NULL DEFAULT 'other'
+    CHECK (category IN ('mobility', 'strength', 'stretching', 'balance', 'cardio', 'breathing', 'posture', 'other')),
+  body_regions TEXT[] NOT NULL DEFAULT '{}',
+  contraindications TEXT,
+  default_repetitions VARCHAR(100),
+  instructions TEXT,
+  video_url TEXT,
+  image_url TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT exercise_library_name_not_empty CHECK (length(trim(name)) > 0)
+);
+
+COMMENT ON TABLE exercise_library IS 'Shared rehabilitation exercises clinicians pick from when building plans and templates';
+COMMENT ON COLUMN exercise_library.body_regions IS 'Body regions the exercise targets (e.g. lower_back, knee)';
+COMMENT ON COLUMN exercise_library.contraindications IS 'When the exercise should not be prescribed';
+
+CREATE INDEX IF NOT EXISTS idx_exercise_library_category ON exercise_library(category) WHERE is_archived = false;
+CREATE INDEX IF NOT EXISTS idx_exercise_library_body_regions ON exercise_library USING GIN (body_regions);
+
+CREATE TABLE IF NOT EXISTS rehabilitation_plan_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_key UUID NOT NULL DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL DEFAULT 1,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  duration_days INTEGER NOT NULL CHECK (duration_days BETWEEN 1 AND 365),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT rehabilitation_plan_templates_name_not_empty CHECK (length(trim(name)) > 0),
+  CONSTRAINT rehabilitation_plan_templates_unique_version UNIQUE (template_key, version)
+);
+
+COMMENT ON TABLE rehabilitation_plan_templates IS 'Reusable rehabilitation plans - one row per version';
+COMMENT ON COLUMN rehabilitation_plan_templates.template_key IS 'Shared by every version of the same template';
+
+CREATE TABLE IF NOT EXISTS rehabilitation_template_exercises (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES rehabilitation_plan_templates(id) ON DELETE CASCADE,
+  library_exercise_id UUID REFERENCES exercise_library(id) ON DELETE SET NULL,
+  exercise_name VARCHAR(255) NOT NULL,
+  repetitions VARCHAR(100),
+  instructions TEXT,
+  video_url TEXT,
+  exercise_order INTEGER NOT NULL DEFAULT 0,
+  CONSTRAINT template_exercise_name_not_empty CHECK (length(trim(exercise_name)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rehabilitation_template_exercises_template ON rehabilitation_template_exercises(template_id, exercise_order);
+
+-- Where a plan and its exercises came from
+ALTER TABLE rehabilitation_plans
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES rehabilitation_plan_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE rehabilitation_exercises
+ADD COLUMN IF NOT EXISTS library_exercise_id UUID REFERENCES exercise_library(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN rehabilitation_plans.template_id IS 'Template version the plan was generated from (NULL = built by hand)';
+COMMENT ON COLUMN rehabilitation_exercises.library_exercise_id IS 'Library exercise this was copied from (NULL = typed by hand)';
+
+ALTER TABLE exercise_library ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rehabilitation_plan_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rehabilitation_template_exercises ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on exercise library" ON exercise_library;
+DROP POLICY IF EXISTS "Service role can do everything on rehabilitation plan templates" ON rehabilitation_plan_templates;
+DROP POLICY IF EXISTS "Service role can do everything on rehabilitation template exercises" ON rehabilitation_template_exercises;
+
+CREATE POLICY "Service role can do everything on exercise library"
+  ON exercise_library FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on rehabilitation plan templates"
+  ON rehabilitation_plan_templates FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on rehabilitation template exercises"
+  ON rehabilitation_template_exercises FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT
+  (SELECT COUNT(*) FROM exercise_library) AS library_exercises,
+  (SELECT COUNT(*) FROM rehabilitation_plan_templates) AS template_versions;
@@ -0,0 +1,93 @@
+-- Migration: Roster bulk import
+-- Team leaders import a roster spreadsheet (POST /api/schedules/import). Workers are matched
+-- by email or employee ID, and the reviewed dry-run diff is written by import_worker_schedules
+-- in one transaction - if any row fails, nothing is imported.
+-- See backend/src/utils/rosterImport.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+-- Employee ID from the employer's payroll/rostering system
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS employee_id VARCHAR(50);
+
+COMMENT ON COLUMN users.employee_id IS 'Employee ID from payroll/rostering - matches roster import rows';
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_unique_employee_id
+ON users(organization_id, employee_id)
+WHERE employee_id IS NOT NULL;
+
+-- p_creates: [{ worker_id, team_id, scheduled_date, start_time, end_time, starts_next_day,
+--               requires_daily_checkin, daily_checkin_start_time, daily_checkin_end_time,
+--               check_in_window_start, check_in_window_end, notes, created_by }]
+-- p_updates: [{ id, <changed fields only> }] - fields not present keep their value
+CREATE OR REPLACE FUNCTION import_worker_schedules(p_creates JSONB, p_updates JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  update_row JSONB;
+BEGIN
+  INSERT INTO worker_schedules (
+    worker_id, team_id, scheduled_date, day_of_week, effective_date, expiry_date,
+    start_time, end_time, starts_next_day,
+    requires_daily_checkin, daily_checkin_start_time, daily_checkin_end_time,
+    check_in_window_start, check_in_window_end, notes, created_by, is_active
+  )
+  SELECT
+    r.worker_id, r.team_id, r.scheduled_date, NULL, NULL, NULL,
+    r.start_time, r.end_time, COALESCE(r.starts_next_day, false),
+    COALESCE(r.requires_daily_checkin, false), r.daily_checkin_start_time, r.daily_checkin_end_time,
+    r.check_in_window_start, r.check_in_window_end, r.notes, r.created_by, true
+  FROM jsonb_to_recordset(COALESCE(p_creates, '[]'::jsonb)) AS r(
+    worker_id UUID,
+    team_id UUID,
+    scheduled_date DATE,
+    start_time TIME,
+    end_time TIME,
+    starts_next_day BOOLEAN,
+    requires_daily_checkin BOOLEAN,
+    daily_checkin_start_time TIME,
+    daily_checkin_end_time TIME,
+    check_in_window_start TIME,
+    check_in_window_end TIME,
+    notes TEXT,
+    created_by UUID
+  );
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+
+  FOR update_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb))
+  LOOP
+    UPDATE worker_schedules SET
+      end_time = CASE WHEN update_row ? 'end_time' THEN (update_row->>'end_time')::TIME ELSE end_time END,
+      requires_daily_checkin = CASE WHEN update_row ? 'requires_daily_checkin' THEN (update_row->>'requires_daily_checkin')::BOOLEAN ELSE requires_daily_checkin END,
+      daily_checkin_start_time = CASE WHEN update_row ? 'daily_checkin_start_time' THEN (update_row->>'daily_checkin_start_time')::TIME ELSE daily_checkin_start_time END,
+      daily_checkin_end_time = CASE WHEN update_row ? 'daily_checkin_end_time' THEN (update_row->>'daily_checkin_end_time')::TIME ELSE daily_checkin_end_time END,
+      check_in_window_start = CASE WHEN update_row ? 'check_in_window_start' THEN (update_row->>'check_in_window_start')::TIME ELSE check_in_window_start END,
+      check_in_window_end = CASE WHEN update_row ? 'check_in_window_end' THEN (update_row->>'check_in_window_end')::TIME ELSE check_in_window_end END,
+      notes = CASE WHEN update_row ? 'notes' THEN update_row->>'notes' ELSE notes END,
+      is_active = CASE WHEN update_row ? 'is_active' THEN (update_row->>'is_active')::BOOLEAN ELSE is_active END,
+      updated_at = NOW()
+    WHERE id = (update_row->>'id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Schedule % no longer exists', update_row->>'id';
+    END IF;
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', created_count, 'updated', updated_count);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_worker_schedules(JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_worker_schedules(JSONB, JSONB) TO service_role;
+
+COMMIT;
+
+-- Verify
+SELECT proname FROM pg_proc WHERE proname = 'import_worker_schedules';
@@ -0,0 +1,68 @@
+-- Migration: Recurrence rules, exclusion dates and site holidays for worker_schedules
+-- A schedule is now one of: a single scheduled_date, a weekly day_of_week, or an iCalendar
+-- RRULE in recurrence_rule (fortnightly rosters, 4-on-4-off, "every 2nd Monday"). A rule's
+-- first occurrence is effective_date (DTSTART); expiry_date ends it. exclusion_dates (EXDATE)
+-- are skipped by weekly and rule schedules. See backend/src/utils/recurrenceRule.ts.
+-- site_holidays holds each team's public holidays - workers stay rostered, but no check-in
+-- is required (see backend/src/utils/siteHolidays.ts).
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE worker_schedules
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+ALTER TABLE worker_schedules
+ADD COLUMN IF NOT EXISTS exclusion_dates DATE[];
+
+COMMENT ON COLUMN worker_schedules.recurrence_rule IS 'iCalendar RRULE (e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO) - DTSTART is effective_date';
+COMMENT ON COLUMN worker_schedules.exclusion_dates IS 'Dates skipped by a recurring schedule (EXDATE)';
+
+-- Exactly one of scheduled_date, day_of_week or recurrence_rule; rules need a start date
+ALTER TABLE worker_schedules
+DROP CONSTRAINT IF EXISTS check_schedule_date_or_day;
+
+ALTER TABLE worker_schedules
+ADD CONSTRAINT check_schedule_date_or_day
+CHECK (
+  (scheduled_date IS NOT NULL AND day_of_week IS NULL AND recurrence_rule IS NULL) OR
+  (scheduled_date IS NULL AND day_of_week IS NOT NULL AND recurrence_rule IS NULL) OR
+  (scheduled_date IS NULL AND day_of_week IS NULL AND recurrence_rule IS NOT NULL AND effective_date IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS worker_schedules_unique_rule
+ON worker_schedules(worker_id, recurrence_rule, effective_date, start_time, starts_next_day)
+WHERE recurrence_rule IS NOT NULL;
+
+-- Public holidays per team (site)
+CREATE TABLE IF NOT EXISTS site_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(200) NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT site_holidays_team_date_unique UNIQUE (team_id, holiday_date)
+);
+
+COMMENT ON TABLE site_holidays IS 'Public holidays per team - rostered workers are not required to check in';
+
+CREATE INDEX IF NOT EXISTS idx_site_holidays_date ON site_holidays(holiday_date);
+
+ALTER TABLE site_holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on site holidays" ON site_holidays;
+
+CREATE POLICY "Service role can do everything on site holidays"
+  ON site_holidays FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify: new columns and table
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'worker_schedules'
+  AND column_name IN ('recurrence_rule', 'exclusion_dates');
+
+SELECT COUNT(*) AS site_holidays FROM site_holidays;
@@ -0,0 +1,38 @@
+-- Migration: Team (site) timezones
+-- Crews work across several Australian states, so "today", check-in windows and streaks are
+-- calculated in each team's local time instead of the server clock / UTC.
+-- worker_schedules keep their bare TIME values - they are wall-clock times in the team's timezone.
+-- daily_checkins.check_in_date is the shift date the check-in belongs to (a check-in in the evening
+-- window before an early shift, or after midnight on an overnight shift, counts for that shift's date).
+-- Teams without a timezone use the DEFAULT_TIMEZONE environment variable (default Australia/Sydney).
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE teams
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN teams.timezone IS 'IANA timezone of the team''s site (e.g. Australia/Perth) - schedule times and check-in dates are local to it';
+
+-- Only accept timezone names PostgreSQL knows (same IANA database as the backend)
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_timezone_valid;
+ALTER TABLE teams
+ADD CONSTRAINT teams_timezone_valid CHECK (timezone IS NULL OR is_valid_timezone(timezone));
+
+COMMIT;
+
+-- Set each site's timezone, e.g.:
+-- UPDATE teams SET timezone = 'Australia/Perth' WHERE site_location ILIKE '%Pilbara%';
+
+-- Verify: teams still using the default timezone
+SELECT id, name, site_location, timezone
+FROM teams
+WHERE timezone IS NULL
+ORDER BY name;
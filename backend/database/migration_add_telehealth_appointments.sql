@@ -0,0 +1,29 @@
+-- Migration: Telehealth appointments
+-- Appointments can be held over video (visit_mode = 'telehealth'). The room is created on first
+-- join through the configured video provider (VIDEO_PROVIDER) and each participant gets a
+-- personal, expiring join link inside the join window. The session start/end is recorded here.
+-- See backend/src/utils/telehealth.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS visit_mode VARCHAR(20) NOT NULL DEFAULT 'in_person' CHECK (visit_mode IN ('in_person', 'telehealth')),
+ADD COLUMN IF NOT EXISTS video_provider VARCHAR(50),
+ADD COLUMN IF NOT EXISTS video_room_id VARCHAR(255),
+ADD COLUMN IF NOT EXISTS session_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS session_ended_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN appointments.visit_mode IS 'in_person (at location) or telehealth (video call)';
+COMMENT ON COLUMN appointments.video_provider IS 'Video provider the room was created with (local, jitsi)';
+COMMENT ON COLUMN appointments.video_room_id IS 'Provider room ID - created on first join';
+COMMENT ON COLUMN appointments.session_started_at IS 'When the first participant joined the video room';
+COMMENT ON COLUMN appointments.session_ended_at IS 'When the clinician ended the video session (or completed the appointment)';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_video_room ON appointments(video_provider, video_room_id)
+  WHERE video_room_id IS NOT NULL;
+
+COMMIT;
+
+-- Verify
+SELECT visit_mode, COUNT(*) FROM appointments GROUP BY visit_mode;
@@ -0,0 +1,27 @@
+-- Migration: Track delivery of bulk import credentials
+-- Imports are processed in chunks (POST /api/user-imports, then /:id/resume until nothing is
+-- left), and each chunk returns the temporary passwords of the workers it created. The browser
+-- confirms it received them (POST /api/user-imports/:id/credentials-delivered). A resumed import
+-- issues a new temporary password to created workers whose credentials were never confirmed -
+-- e.g. the response was lost - instead of leaving them without a way to sign in.
+-- See backend/src/utils/userImport.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+ALTER TABLE user_import_rows
+  ADD COLUMN IF NOT EXISTS credentials_delivered_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN user_import_rows.credentials_delivered_at IS 'When the importer''s browser confirmed receiving the temporary password - null on a created row means it is reissued on resume';
+
+-- Rows imported before this migration were returned in a single response
+UPDATE user_import_rows
+SET credentials_delivered_at = processed_at
+WHERE status = 'created' AND credentials_delivered_at IS NULL;
+
+COMMIT;
+
+-- Verify
+SELECT COUNT(*) AS undelivered_credentials
+FROM user_import_rows
+WHERE status = 'created' AND credentials_delivered_at IS NULL;
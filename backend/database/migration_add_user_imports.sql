@@ -0,0 +1,73 @@
+-- Migration: Bulk user onboarding
+-- Supervisors and admins onboard workers from a CSV/XLSX sheet (POST /api/user-imports).
+-- Each upload is a batch with one row per worker; row status is saved as users are created,
+-- so a partially failed import is resumed by processing the batch again.
+-- Temporary passwords are never stored - only the run that creates a user returns them.
+-- See backend/src/utils/userImport.ts.
+-- Run this in Supabase SQL Editor
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  file_name VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'partial')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  processing_started_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE user_import_batches IS 'Bulk onboarding uploads - one per sheet';
+COMMENT ON COLUMN user_import_batches.processing_started_at IS 'Set while a run is creating users - a run older than 15 minutes is treated as crashed';
+
+CREATE TABLE IF NOT EXISTS user_import_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES user_import_batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  email VARCHAR(255) NOT NULL DEFAULT '',
+  first_name VARCHAR(100) NOT NULL DEFAULT '',
+  last_name VARCHAR(100) NOT NULL DEFAULT '',
+  date_of_birth VARCHAR(20) NOT NULL DEFAULT '',
+  gender VARCHAR(20) NOT NULL DEFAULT '',
+  team VARCHAR(200) NOT NULL DEFAULT '',
+  phone VARCHAR(50) NOT NULL DEFAULT '',
+  employee_id VARCHAR(50) NOT NULL DEFAULT '',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'created', 'skipped', 'failed')),
+  error TEXT,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT user_import_rows_unique_row UNIQUE (batch_id, row_number)
+);
+
+COMMENT ON TABLE user_import_rows IS 'Rows of a bulk onboarding upload, as entered in the sheet, with the per-row result';
+COMMENT ON COLUMN user_import_rows.team IS 'Team name or ID as entered - team_id is the team it resolved to';
+
+CREATE INDEX IF NOT EXISTS idx_user_import_batches_created_by ON user_import_batches(created_by, created_at DESC);
+
+ALTER TABLE user_import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_import_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can do everything on user import batches" ON user_import_batches;
+DROP POLICY IF EXISTS "Service role can do everything on user import rows" ON user_import_rows;
+
+CREATE POLICY "Service role can do everything on user import batches"
+  ON user_import_batches FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can do everything on user import rows"
+  ON user_import_rows FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMIT;
+
+-- Verify
+SELECT COUNT(*) AS user_import_batches FROM user_import_batches;
@@ -13,6 +13,22 @@ import clinician from './routes/clinician.js'
 import worker from './routes/worker.js'
 import admin from './routes/admin.js'
 import executive from './routes/executive.js'
+import questionnaires from './routes/questionnaires.js'
+import notifications from './routes/notifications.js'
+import attachments from './routes/attachments.js'
+import calendar from './routes/calendar.js'
+import userImports from './routes/userImports.js'
+import telehealth from './routes/telehealth.js'
+import { startEscalationWorker } from './utils/notificationEscalation.js'
+import { startMissedCheckInWorker } from './utils/missedCheckIns.js'
+import { startAppointmentReminderWorker } from './utils/appointmentReminders.js'
+import { startCaseSlaWorker } from './utils/caseSla.js'
+import { validateStorageConfig } from './utils/storage.js'
+import { validateTelehealthConfig } from './utils/telehealth.js'
+
+// Required secrets - fail at startup rather than on the first request that needs them
+validateStorageConfig()
+validateTelehealthConfig()
 
 const app = new Hono()
 
@@ -54,8 +70,8 @@ app.use('/*', cors({
   },
   credentials: true,
   allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Pragma', 'Expires', 'Accept', 'X-Requested-With'],
-  exposeHeaders: ['Content-Length', 'X-Request-Id'],
+  allowHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Pragma', 'Expires', 'Accept', 'X-Requested-With', 'Last-Event-ID', 'Idempotency-Key', 'Outbox-Queued-At'],
+  exposeHeaders: ['Content-Length', 'X-Request-Id', 'Idempotent-Replayed'],
   maxAge: 86400, // 24 hours
 }))
 
@@ -94,6 +110,24 @@ app.route('/api/admin', admin)
 // Executive routes
 app.route('/api/executive', executive)
 
+// Check-in questionnaire routes
+app.route('/api/questionnaires', questionnaires)
+
+// Notifications routes (all roles, incl. SSE stream)
+app.route('/api/notifications', notifications)
+
+// Case attachments routes (incident photos, medical certificates)
+app.route('/api/attachments', attachments)
+
+// Calendar feed routes (.ics subscriptions for shifts and appointments)
+app.route('/api/calendar', calendar)
+
+// Bulk user onboarding routes (CSV/XLSX worker imports for supervisors and admins)
+app.route('/api/user-imports', userImports)
+
+// Telehealth routes (video appointment join links, local stub video room)
+app.route('/api/telehealth', telehealth)
+
 // Example API route
 app.get('/api', (c) => {
   return c.json({ message: 'Hello from Hono backend!' })
@@ -107,3 +141,8 @@ serve({
   port,
 })
 
+// Background jobs
+startEscalationWorker()
+startMissedCheckInWorker()
+startAppointmentReminderWorker()
+startCaseSlaWorker()
@@ -7,6 +7,7 @@ export interface User {
   id: string
   email: string
   role: string
+  organization_id: string | null // Tenant the user belongs to (see middleware/organization.ts)
 }
 
 export type AuthVariables = {
@@ -95,7 +96,7 @@ export async function authMiddleware(c: Context<{ Variables: AuthVariables }>, n
     try {
       const result = await supabase
         .from('users')
-        .select('role')
+        .select('role, organization_id')
         .eq('id', user.id)
         .single()
       
@@ -128,7 +129,7 @@ export async function authMiddleware(c: Context<{ Variables: AuthVariables }>, n
         const adminClient = getAdminClient()
         const { data: adminUserData, error: adminError } = await adminClient
           .from('users')
-          .select('role')
+          .select('role, organization_id')
           .eq('id', user.id)
           .single()
 
@@ -172,6 +173,7 @@ export async function authMiddleware(c: Context<{ Variables: AuthVariables }>, n
       id: user.id,
       email: user.email || '',
       role: userData.role, // Use actual role, no default
+      organization_id: userData.organization_id || null,
     })
 
     await next()
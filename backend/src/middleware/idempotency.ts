@@ -0,0 +1,64 @@
+import { Context, Next } from 'hono'
+import type { AuthVariables } from './auth.js'
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  validateIdempotencyKey,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+} from '../utils/idempotency.js'
+
+/**
+ * Middleware to make a POST endpoint safe to retry with an Idempotency-Key header
+ * Must run after authMiddleware (keys are scoped to the user). Requests without the header
+ * run as usual. Successful (2xx) JSON responses are stored and replayed for the same key;
+ * failed requests free the key so the client can retry.
+ * @param scope - Name of the endpoint the keys belong to
+ */
+export function idempotent(scope: string) {
+  return async (c: Context<{ Variables: AuthVariables }>, next: Next) => {
+    const key = c.req.header(IDEMPOTENCY_KEY_HEADER)
+    const user = c.get('user')
+
+    if (!key || !user) {
+      await next()
+      return
+    }
+
+    const validation = validateIdempotencyKey(key)
+    if (!validation.valid) {
+      return c.json({ error: validation.error }, 400)
+    }
+
+    const { state, response, error } = await beginIdempotentRequest(user.id, scope, key)
+
+    if (error) {
+      console.error(`[idempotent:${scope}] Error claiming idempotency key:`, error)
+      return c.json({ error: 'Failed to process request. Please try again.' }, 500)
+    }
+
+    if (state === 'replay' && response) {
+      c.header('Idempotent-Replayed', 'true')
+      return c.json(response.body, response.status as any)
+    }
+
+    if (state === 'in_progress') {
+      return c.json({ error: 'A request with this Idempotency-Key is already being processed. Please retry shortly.' }, 409)
+    }
+
+    try {
+      await next()
+    } catch (handlerError) {
+      await releaseIdempotentRequest(user.id, scope, key)
+      throw handlerError
+    }
+
+    const status = c.res.status
+    if (status >= 200 && status < 300) {
+      const body = await c.res.clone().json().catch(() => null)
+      await completeIdempotentRequest(user.id, scope, key, { status, body })
+    } else {
+      await releaseIdempotentRequest(user.id, scope, key)
+    }
+  }
+}
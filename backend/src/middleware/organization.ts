@@ -0,0 +1,53 @@
+import { Context, Next } from 'hono'
+import type { AuthVariables } from './auth.js'
+import { isUserInOrganization } from '../utils/organizations.js'
+
+/**
+ * Middleware to require that the user belongs to an organization
+ * Must run after authMiddleware. Routes behind it can scope queries with user.organization_id.
+ */
+export async function requireOrganization(c: Context<{ Variables: AuthVariables }>, next: Next) {
+  const user = c.get('user')
+
+  if (!user) {
+    return c.json({ error: 'Unauthorized: User not found in context' }, 401)
+  }
+
+  if (!user.organization_id) {
+    console.error(
+      `[requireOrganization] User ${user.email} (${user.id}) with role '${user.role}' ` +
+      `is not linked to an organization: ${c.req.method} ${c.req.path}`
+    )
+    return c.json({
+      error: 'Your account is not linked to an organization. Please set your business details or contact your administrator.',
+    }, 403)
+  }
+
+  await next()
+}
+
+/**
+ * Middleware to require that the user in a route parameter belongs to the caller's organization
+ * Must run after requireOrganization. Responds 404 so IDs from other organizations aren't revealed.
+ * @param param - Route parameter holding the target user ID (e.g. 'id', 'workerId')
+ */
+export function requireSameOrganization(param: string) {
+  return async (c: Context<{ Variables: AuthVariables }>, next: Next) => {
+    const user = c.get('user')
+    const targetUserId = c.req.param(param)
+
+    if (!user?.organization_id || !targetUserId) {
+      return c.json({ error: 'User not found or access denied' }, 404)
+    }
+
+    if (!(await isUserInOrganization(targetUserId, user.organization_id))) {
+      console.error(
+        `[requireSameOrganization] SECURITY: User ${user.email} (${user.id}) attempted to access ` +
+        `user ${targetUserId} outside organization ${user.organization_id}: ${c.req.method} ${c.req.path}`
+      )
+      return c.json({ error: 'User not found or access denied' }, 404)
+    }
+
+    await next()
+  }
+}
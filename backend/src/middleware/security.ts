@@ -39,9 +39,14 @@ export async function requestSizeLimit(c: Context, next: Next) {
   // Audio transcription endpoint needs up to 25MB (Whisper API limit)
   // Add 5MB buffer for safety
   const isTranscriptionEndpoint = path.includes('/transcribe')
+  // File uploads (incident photos, case attachments, roster and user imports) allow 10MB files plus form overhead
+  const isUploadEndpoint = path.includes('/report-incident') || path.startsWith('/api/attachments') ||
+    path === '/api/schedules/import' || path === '/api/user-imports'
   const maxSize = isTranscriptionEndpoint 
     ? 30 * 1024 * 1024 // 30MB for transcription
-    : 1024 * 1024 // 1MB for other endpoints
+    : isUploadEndpoint
+      ? 11 * 1024 * 1024 // 11MB for file uploads
+      : 1024 * 1024 // 1MB for other endpoints
   
   if (contentLength && parseInt(contentLength) > maxSize) {
     const maxSizeMB = Math.round(maxSize / (1024 * 1024))
@@ -2,6 +2,7 @@ import { Hono } from 'hono'
 import bcrypt from 'bcrypt'
 import { authMiddleware, requireRole } from '../middleware/auth.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { findOrCreateOrganization } from '../utils/organizations.js'
 import { supabase } from '../lib/supabase.js'
 import { getTodayDateString, getFirstDayOfMonthString, dateToDateString } from '../utils/dateUtils.js'
 
@@ -391,10 +392,16 @@ admin.post('/users', authMiddleware, requireRole(['admin']), async (c) => {
       userInsertData.date_of_birth = date_of_birth
     }
 
-    // Add business fields for supervisors
+    // Add business fields for supervisors - joins (or creates) the organization with this registration number
     if (role === 'supervisor') {
-      userInsertData.business_name = business_name.trim()
-      userInsertData.business_registration_number = business_registration_number.trim()
+      const { data: organization, error: organizationError } = await findOrCreateOrganization(business_name, business_registration_number)
+      if (organizationError || !organization) {
+        await supabase.auth.admin.deleteUser(authData.user.id)
+        return c.json({ error: 'Failed to set up organization', details: organizationError }, 500)
+      }
+      userInsertData.organization_id = organization.id
+      userInsertData.business_name = organization.name
+      userInsertData.business_registration_number = organization.registration_number
     }
 
     // Create user record in database
@@ -563,8 +570,28 @@ admin.patch('/users/:id', authMiddleware, requireRole(['admin']), async (c) => {
     if (first_name !== undefined) updateData.first_name = first_name.trim()
     if (last_name !== undefined) updateData.last_name = last_name.trim()
     // Note: phone is stored in team_members table, not users table
-    if (business_name !== undefined) updateData.business_name = business_name?.trim() || null
-    if (business_registration_number !== undefined) updateData.business_registration_number = business_registration_number?.trim() || null
+
+    // Business info moves the user to the organization with that registration number
+    if (business_name !== undefined || business_registration_number !== undefined) {
+      const trimmedBusinessName = business_name?.trim() || null
+      const trimmedRegNumber = business_registration_number?.trim() || null
+
+      if (trimmedBusinessName && trimmedRegNumber) {
+        const { data: organization, error: organizationError } = await findOrCreateOrganization(trimmedBusinessName, trimmedRegNumber)
+        if (organizationError || !organization) {
+          return c.json({ error: 'Failed to set up organization', details: organizationError }, 500)
+        }
+        updateData.organization_id = organization.id
+        updateData.business_name = organization.name
+        updateData.business_registration_number = organization.registration_number
+      } else if (!trimmedBusinessName && !trimmedRegNumber) {
+        updateData.organization_id = null
+        updateData.business_name = null
+        updateData.business_registration_number = null
+      } else {
+        return c.json({ error: 'Business Name and Business Registration Number must be set together' }, 400)
+      }
+    }
 
     // Update full_name if first_name or last_name changed
     if (first_name !== undefined || last_name !== undefined) {
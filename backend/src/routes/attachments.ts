@@ -0,0 +1,216 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
+import { getAdminClient } from '../utils/adminClient.js'
+import { isValidId } from '../utils/validationUtils.js'
+import { getStorage, verifyDownloadSignature } from '../utils/storage.js'
+import {
+  ATTACHMENT_CATEGORIES,
+  checkCaseAccess,
+  deleteAttachment,
+  formatAttachment,
+  getAttachment,
+  listCaseAttachments,
+  saveAttachment,
+  validateAttachmentFile,
+  type AttachmentCategory,
+} from '../utils/attachments.js'
+
+const attachments = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Case Attachments Endpoints
+// Access follows the case (see checkCaseAccess); downloads use signed, expiring URLs
+// ============================================
+
+const VIEWER_ROLES = ['worker', 'clinician', 'team_leader', 'supervisor', 'whs_control_center', 'admin']
+const UPLOADER_ROLES = ['worker', 'clinician']
+
+// Format user full name
+const formatUserName = (user: any): string => {
+  if (!user) return 'Unknown'
+  if (user.full_name) return user.full_name
+  if (user.first_name && user.last_name) return `${user.first_name} ${user.last_name}`
+  return user.email || 'Unknown'
+}
+
+// List a case's attachments (with signed download URLs)
+attachments.get('/cases/:caseId', authMiddleware, requireRole(VIEWER_ROLES), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const caseId = c.req.param('caseId')
+    if (!isValidId(caseId)) {
+      return c.json({ error: 'Invalid case ID' }, 400)
+    }
+
+    const { allowed, caseRow, error: accessError } = await checkCaseAccess(user, caseId)
+    if (accessError) {
+      console.error('[GET /attachments/cases/:caseId] Error fetching case:', accessError)
+      return c.json({ error: 'Failed to fetch case', details: accessError.message }, 500)
+    }
+
+    if (!caseRow || !allowed) {
+      return c.json({ error: 'Case not found or not authorized' }, 404)
+    }
+
+    const { data, error } = await listCaseAttachments(caseId, user.id)
+    if (error) {
+      console.error('[GET /attachments/cases/:caseId] Error fetching attachments:', error)
+      return c.json({ error: 'Failed to fetch attachments', details: error.message }, 500)
+    }
+
+    return c.json({ attachments: data })
+  } catch (error: any) {
+    console.error('[GET /attachments/cases/:caseId] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Upload an attachment to a case (multipart: file, category)
+attachments.post('/cases/:caseId', authMiddleware, requireRole(UPLOADER_ROLES), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const caseId = c.req.param('caseId')
+    if (!isValidId(caseId)) {
+      return c.json({ error: 'Invalid case ID' }, 400)
+    }
+
+    const formData = await c.req.formData()
+    const file = formData.get('file') as File | null
+    const category = (formData.get('category') as string) || (user.role === 'clinician' ? 'medical_certificate' : 'other')
+
+    if (!ATTACHMENT_CATEGORIES.includes(category as AttachmentCategory)) {
+      return c.json({ error: `Invalid category. Must be one of: ${ATTACHMENT_CATEGORIES.join(', ')}` }, 400)
+    }
+
+    const fileValidation = validateAttachmentFile(file)
+    if (!fileValidation.valid) {
+      return c.json({ error: fileValidation.error }, 400)
+    }
+
+    const { allowed, caseRow, error: accessError } = await checkCaseAccess(user, caseId)
+    if (accessError) {
+      console.error('[POST /attachments/cases/:caseId] Error fetching case:', accessError)
+      return c.json({ error: 'Failed to fetch case', details: accessError.message }, 500)
+    }
+
+    if (!caseRow || !allowed) {
+      return c.json({ error: 'Case not found or not authorized' }, 404)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: uploader } = await adminClient
+      .from('users')
+      .select('email, first_name, last_name, full_name')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const { data, error } = await saveAttachment({
+      caseId,
+      file: file as File,
+      category: category as AttachmentCategory,
+      uploadedBy: { id: user.id, name: formatUserName(uploader || user) },
+    })
+
+    if (error) {
+      console.error('[POST /attachments/cases/:caseId] Error saving attachment:', error)
+      return c.json({ error: 'Failed to save attachment', details: error.message }, 500)
+    }
+
+    return c.json({ attachment: formatAttachment(data, user.id) }, 201)
+  } catch (error: any) {
+    console.error('[POST /attachments/cases/:caseId] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Delete an attachment (uploader only)
+attachments.delete('/:id', authMiddleware, requireRole(UPLOADER_ROLES), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const attachmentId = c.req.param('id')
+    if (!isValidId(attachmentId)) {
+      return c.json({ error: 'Invalid attachment ID' }, 400)
+    }
+
+    const { data: attachment, error: fetchError } = await getAttachment(attachmentId)
+    if (fetchError) {
+      console.error('[DELETE /attachments/:id] Error fetching attachment:', fetchError)
+      return c.json({ error: 'Failed to fetch attachment', details: fetchError.message }, 500)
+    }
+
+    if (!attachment || attachment.uploaded_by !== user.id) {
+      return c.json({ error: 'Attachment not found or not authorized' }, 404)
+    }
+
+    const { error } = await deleteAttachment(attachment)
+    if (error) {
+      console.error('[DELETE /attachments/:id] Error deleting attachment:', error)
+      return c.json({ error: 'Failed to delete attachment', details: error.message }, 500)
+    }
+
+    return c.json({ success: true })
+  } catch (error: any) {
+    console.error('[DELETE /attachments/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Download an attachment
+// No auth middleware: the signed URL was issued after checking the viewer's access,
+// so it works in <img src> and new tabs. Links expire after STORAGE_URL_EXPIRY_SECONDS.
+attachments.get('/:id/download', async (c) => {
+  try {
+    const attachmentId = c.req.param('id')
+    if (!isValidId(attachmentId)) {
+      return c.json({ error: 'Invalid attachment ID' }, 400)
+    }
+
+    const verification = verifyDownloadSignature(
+      attachmentId,
+      c.req.query('viewer'),
+      c.req.query('expires'),
+      c.req.query('signature')
+    )
+    if (!verification.valid) {
+      return c.json({ error: verification.error }, 403)
+    }
+
+    const { data: attachment, error } = await getAttachment(attachmentId)
+    if (error) {
+      console.error('[GET /attachments/:id/download] Error fetching attachment:', error)
+      return c.json({ error: 'Failed to fetch attachment', details: error.message }, 500)
+    }
+
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404)
+    }
+
+    const body = await getStorage(attachment.storage_backend).get(attachment.storage_key)
+    const fileName = String(attachment.file_name).replace(/["\r\n]/g, '')
+
+    return c.body(new Uint8Array(body), 200, {
+      'Content-Type': attachment.content_type,
+      'Content-Length': String(body.length),
+      'Content-Disposition': `inline; filename="${fileName}"`,
+      'Cache-Control': 'private, max-age=300',
+      'X-Content-Type-Options': 'nosniff',
+    })
+  } catch (error: any) {
+    console.error('[GET /attachments/:id/download] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default attachments
@@ -8,7 +8,7 @@ import { sanitizeInput, isValidEmail, isValidName, isValidPassword } from '../mi
 import { getAdminClient } from '../utils/adminClient.js'
 import { ensureUserRecordExists } from '../utils/userUtils.js'
 import { generateUniqueQuickLoginCode, isValidQuickLoginCode, generateUniquePinCode } from '../utils/quickLoginCode.js'
-import { cascadeBusinessInfoUpdate } from '../utils/executiveHelpers.js'
+import { createOrganization, updateOrganization } from '../utils/organizations.js'
 
 /**
  * Helper function to set secure cookies
@@ -276,10 +276,21 @@ auth.post('/register', async (c) => {
       userInsertData.quick_login_code = await generateUniqueQuickLoginCode()
     }
 
-    // Add business fields for supervisors
+    // Add business fields for supervisors - creates their organization. An existing one is only
+    // joined through an administrator, never by entering its registration number here.
     if (role === 'supervisor') {
-      userInsertData.business_name = business_name.trim()
-      userInsertData.business_registration_number = business_registration_number.trim()
+      const { data: organization, conflict, error: organizationError } = await createOrganization(business_name, business_registration_number)
+      if (conflict) {
+        await supabase.auth.admin.deleteUser(authData.user.id)
+        return c.json({ error: organizationError }, 409)
+      }
+      if (organizationError || !organization) {
+        await supabase.auth.admin.deleteUser(authData.user.id)
+        return c.json({ error: 'Failed to set up organization', details: organizationError }, 500)
+      }
+      userInsertData.organization_id = organization.id
+      userInsertData.business_name = organization.name
+      userInsertData.business_registration_number = organization.registration_number
     }
     
     const { data: userData, error: dbError } = await adminClient
@@ -1161,7 +1172,7 @@ auth.patch('/profile', authMiddleware, async (c) => {
     const adminClient = getAdminClient()
     const { data: currentUserData, error: currentUserError } = await adminClient
       .from('users')
-      .select('role, first_name, last_name, email, password_hash, business_name, business_registration_number, gender, date_of_birth')
+      .select('role, first_name, last_name, email, password_hash, organization_id, business_name, business_registration_number, gender, date_of_birth')
       .eq('id', user.id)
       .single()
 
@@ -1171,6 +1182,7 @@ auth.patch('/profile', authMiddleware, async (c) => {
     }
 
     const updates: any = {}
+    let businessInfoUpdate: { name: string; registration_number: string } | null = null
 
     // Handle first_name, last_name, email updates (requires password)
     if (first_name !== undefined || last_name !== undefined || email !== undefined) {
@@ -1247,8 +1259,7 @@ auth.patch('/profile', authMiddleware, async (c) => {
         return c.json({ error: 'Business Name and Business Registration Number are required for executives' }, 400)
       }
 
-      updates.business_name = newBusinessName
-      updates.business_registration_number = newBusinessRegNumber
+      businessInfoUpdate = { name: newBusinessName, registration_number: newBusinessRegNumber }
     }
 
     // Handle gender and date_of_birth updates (no password required)
@@ -1295,10 +1306,41 @@ auth.patch('/profile', authMiddleware, async (c) => {
       updates.date_of_birth = date_of_birth
     }
 
-    if (Object.keys(updates).length === 0) {
+    if (Object.keys(updates).length === 0 && !businessInfoUpdate) {
       return c.json({ error: 'No fields to update' }, 400)
     }
 
+    // Apply business info through the organization (after validation, so a rejected request changes nothing)
+    if (businessInfoUpdate) {
+      if (currentUserData.organization_id) {
+        // Rename the executive's organization - every member keeps their organization_id
+        const { data: organization, conflict, error: organizationError } = await updateOrganization(
+          currentUserData.organization_id,
+          businessInfoUpdate
+        )
+        if (conflict) {
+          return c.json({ error: organizationError }, 409)
+        }
+        if (organizationError || !organization) {
+          return c.json({ error: 'Failed to update business information', details: organizationError }, 500)
+        }
+        updates.business_name = organization.name
+        updates.business_registration_number = organization.registration_number
+      } else {
+        // First time setting business info - creates the organization (joining one takes an administrator)
+        const { data: organization, conflict, error: organizationError } = await createOrganization(businessInfoUpdate.name, businessInfoUpdate.registration_number)
+        if (conflict) {
+          return c.json({ error: organizationError }, 409)
+        }
+        if (organizationError || !organization) {
+          return c.json({ error: 'Failed to update business information', details: organizationError }, 500)
+        }
+        updates.organization_id = organization.id
+        updates.business_name = organization.name
+        updates.business_registration_number = organization.registration_number
+      }
+    }
+
     updates.updated_at = new Date().toISOString()
 
     const { data: updatedUser, error: updateError } = await adminClient
@@ -1313,31 +1355,6 @@ auth.patch('/profile', authMiddleware, async (c) => {
       return c.json({ error: 'Failed to update profile', details: updateError.message }, 500)
     }
 
-    // If executive updated business info, cascade update to all users under them
-    if (currentUserData.role === 'executive' && 
-        (business_name !== undefined || business_registration_number !== undefined)) {
-      
-      const oldBusinessName = currentUserData.business_name || ''
-      const oldBusinessRegNumber = currentUserData.business_registration_number || ''
-      const newBusinessName = updatedUser.business_name || ''
-      const newBusinessRegNumber = updatedUser.business_registration_number || ''
-
-      // Use helper function to cascade update (optimized and centralized)
-      const cascadeResult = await cascadeBusinessInfoUpdate(
-        oldBusinessName,
-        oldBusinessRegNumber,
-        newBusinessName,
-        newBusinessRegNumber
-      )
-
-      if (!cascadeResult.success) {
-        console.error('Failed to cascade business info update:', cascadeResult.error)
-        // Don't fail the request, but log the error
-      } else {
-        console.log(`Cascaded business info update to all users under executive ${user.id}`)
-      }
-    }
-
     return c.json({
       message: 'Profile updated successfully',
       user: updatedUser,
@@ -0,0 +1,116 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
+import {
+  buildCalendarFeed,
+  createCalendarFeedToken,
+  getCalendarFeedPath,
+  listCalendarFeedTokens,
+  resolveCalendarFeedToken,
+  revokeCalendarFeedToken,
+} from '../utils/calendarFeeds.js'
+
+const calendar = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Calendar Feed Endpoints
+// Workers (shifts + appointments) and clinicians (appointments) subscribe to an .ics feed
+// from their phone calendar. Feed URLs carry a revocable token (see utils/calendarFeeds.ts).
+// ============================================
+
+// List the current user's feed tokens
+calendar.get('/feeds', authMiddleware, requireRole(['worker', 'clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: feeds, error } = await listCalendarFeedTokens(user.id)
+    if (error) {
+      console.error('[GET /calendar/feeds] Error:', error)
+      return c.json({ error: 'Failed to fetch calendar feeds', details: error.message }, 500)
+    }
+
+    return c.json({ feeds })
+  } catch (error: any) {
+    console.error('[GET /calendar/feeds] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Create a feed token - the subscription URL is only returned once
+calendar.post('/feeds', authMiddleware, requireRole(['worker', 'clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await c.req.json().catch(() => ({}))
+    const { data, error } = await createCalendarFeedToken(user.id, body?.label)
+    if (error || !data) {
+      console.error('[POST /calendar/feeds] Error:', error)
+      return c.json({ error: 'Failed to create calendar feed', details: error?.message }, 500)
+    }
+
+    return c.json({
+      message: 'Calendar feed created. Copy the link now - it will not be shown again.',
+      feed: data.feed,
+      url: getCalendarFeedPath(data.token),
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /calendar/feeds] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Revoke a feed token - calendars subscribed with it stop updating
+calendar.delete('/feeds/:id', authMiddleware, requireRole(['worker', 'clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: revoked, error } = await revokeCalendarFeedToken(user.id, c.req.param('id'))
+    if (error) {
+      console.error('[DELETE /calendar/feeds/:id] Error:', error)
+      return c.json({ error: 'Failed to revoke calendar feed', details: error.message }, 500)
+    }
+
+    if (!revoked) {
+      return c.json({ error: 'Calendar feed not found or already revoked' }, 404)
+    }
+
+    return c.json({ message: 'Calendar feed revoked' })
+  } catch (error: any) {
+    console.error('[DELETE /calendar/feeds/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Calendar feed (.ics)
+// No auth middleware: calendar apps can't log in, the token in the URL identifies the user
+calendar.get('/feeds/:token', async (c) => {
+  try {
+    const token = c.req.param('token').replace(/\.ics$/i, '')
+    const user = await resolveCalendarFeedToken(token)
+    if (!user) {
+      return c.json({ error: 'Calendar feed not found' }, 404)
+    }
+
+    const body = await buildCalendarFeed(user)
+
+    return c.body(body, 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="calendar.ics"',
+      'Cache-Control': 'private, max-age=900',
+      'X-Content-Type-Options': 'nosniff',
+    })
+  } catch (error: any) {
+    console.error('[GET /calendar/feeds/:token] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default calendar
@@ -1,301 +1,101 @@
 import { Hono } from 'hono'
 import { supabase } from '../lib/supabase.js'
 import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
-import { getCaseStatusFromNotes } from '../utils/caseStatus.js'
+import { idempotent } from '../middleware/idempotency.js'
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/idempotency.js'
+import { getCaseStatus } from '../utils/caseStatus.js'
 import { getAdminClient } from '../utils/adminClient.js'
-import { parseTime, compareTime, formatDateString, parseDateString } from '../utils/dateTime.js'
-import { getTodayDateString, dateToDateString } from '../utils/dateUtils.js'
+import { createNotifications } from '../utils/notificationHub.js'
+import { startEscalation } from '../utils/notificationEscalation.js'
+import { markMissedCheckInLate, clearMissedCheckIn } from '../utils/missedCheckIns.js'
+import { formatDateString, parseDateString } from '../utils/dateTime.js'
+import { addDaysToDateString, getDayOfWeekFromDateString, getTodayInTimeZone, getWorkerTimeZone, zonedTimeToDate } from '../utils/timezone.js'
+import { getShiftSegmentsForDate, resolveShiftDay, formatDateForDisplay, type ShiftDay } from '../utils/scheduleUtils.js'
+import { getWorkerHolidays } from '../utils/siteHolidays.js'
+import { computeReadiness, getActiveReadinessRules, isValidReadinessLevel } from '../utils/readinessScoring.js'
+import { getTeamQuestions, evaluateCustomAnswers, type CheckInAnswer } from '../utils/checkinQuestionnaire.js'
+import { getPlanPhases, getDayPrescription, getPainIncrease, validateCompletionFeedback, PAIN_INCREASE_ALERT_THRESHOLD } from '../utils/rehabilitationSchedule.js'
+import { getAvailableSlots, getBookingSettings, getClinicianAvailability, getClinicianTimeZones, getWorkerRescheduleBlocker, isAppointmentOverlapError } from '../utils/clinicianAvailability.js'
+import { formatJoinWindow } from '../utils/telehealth.js'
+import { getShiftType, getCheckInWindow, getScheduleCheckInWindow, getScheduleCheckInWindowRange, getCheckInWindowRange, getCheckInWindowStatus, resolveCapturedAt, OUTBOX_QUEUED_AT_HEADER } from '../utils/checkInWindow.js'
 
 // Date/time utilities are now imported from '../utils/dateTime'
+// Shift type / check-in window helpers are imported from '../utils/checkInWindow'
 
-// Helper: Determine shift type from start and end time
-function getShiftType(startTime: string, endTime?: string): 'morning' | 'afternoon' | 'night' | 'flexible' {
-  const startHour = parseTime(startTime).hours
-  const endHour = endTime ? parseTime(endTime).hours : null
-  
-  // If we have end time, use both to determine shift type more accurately
-  if (endTime && endHour !== null) {
-    // Check if shift spans across midnight
-    const spansMidnight = startHour > endHour
-    
-    // Day shift: typically ends before 6 PM (18:00) and doesn't span midnight
-    // OR starts early (4-6 AM) and ends in the afternoon/evening
-    if (!spansMidnight) {
-      // Day shift: ends before 6 PM or starts early and ends late afternoon
-      if (endHour < 18 || (startHour >= 4 && startHour < 12 && endHour >= 12 && endHour <= 18)) {
-        if (startHour < 12) return 'morning'
-        return 'afternoon'
-      }
-      // Afternoon shift: starts after 12 PM, ends before 10 PM
-      if (startHour >= 12 && endHour < 22) {
-        return 'afternoon'
-      }
-    }
-    
-    // Night shift: starts at 6 PM or later, OR spans midnight, OR starts very early and ends very early
-    if (startHour >= 18 || spansMidnight || (startHour < 6 && endHour < 6)) {
-      return 'night'
-    }
-  }
-  
-  // Fallback to start time only (backward compatibility)
-  if (startHour >= 6 && startHour < 12) return 'morning'
-  if (startHour >= 12 && startHour < 18) return 'afternoon'
-  if (startHour >= 18 || startHour < 6) return 'night'
-  
-  return 'flexible'
-}
-
-// Helper: Calculate time before shift start (in hours, can be negative for previous day)
-function subtractHours(timeStr: string, hours: number): string {
-  const { hours: h, minutes: m } = parseTime(timeStr)
-  
-  // Convert to total minutes
-  let totalMinutes = (h * 60) + m - (hours * 60)
-  
-  // Handle negative (previous day)
-  while (totalMinutes < 0) {
-    totalMinutes += 24 * 60 // Add a day
-  }
-  
-  // Handle overflow (next day)
-  totalMinutes = totalMinutes % (24 * 60)
-  
-  const newHours = Math.floor(totalMinutes / 60)
-  const newMinutes = totalMinutes % 60
-  
-  return `${newHours.toString().padStart(2, '0')}:${newMinutes.toString().padStart(2, '0')}`
-}
-
-// Helper: Get check-in window based on shift start time
-// Check-in window should be BEFORE the shift starts (typically 2-4 hours before)
-function getCheckInWindow(shiftType: 'morning' | 'afternoon' | 'night' | 'flexible', startTime?: string, endTime?: string): {
-  windowStart: string
-  windowEnd: string
-  recommendedStart: string
-  recommendedEnd: string
-} {
-  // Default flexible window (no shift)
-  if (shiftType === 'flexible' || !startTime) {
-    return {
-      windowStart: '05:00',
-      windowEnd: '23:00',
-      recommendedStart: '05:00',
-      recommendedEnd: '23:00',
-    }
-  }
-
-  const startHour = parseTime(startTime).hours
-  
-  // Calculate check-in window: 4 hours before shift start to 1 hour before shift start
-  // This ensures workers check in BEFORE their shift begins
-  let windowStart: string
-  let windowEnd: string
-  let recommendedStart: string
-  let recommendedEnd: string
-  
-  if (startHour >= 4) {
-    // Normal case: shift starts later in the day (4 AM or later)
-    // Check-in window: 4 hours before to 1 hour before
-    windowStart = subtractHours(startTime, 4)
-    windowEnd = subtractHours(startTime, 1)
-    recommendedStart = subtractHours(startTime, 3)
-    recommendedEnd = subtractHours(startTime, 1)
-  } else {
-    // Early morning shift (before 4 AM): check-in window might be previous day
-    // For shifts starting 1-3 AM, check-in window is previous day 9 PM - 12 AM
-    if (startHour >= 1 && startHour < 4) {
-      windowStart = subtractHours(startTime, 4) // This will be previous day
-      windowEnd = subtractHours(startTime, 1)
-      recommendedStart = subtractHours(startTime, 3)
-      recommendedEnd = subtractHours(startTime, 1)
-    } else {
-      // Very early shift (midnight), use previous day window
-      windowStart = '21:00' // 9 PM previous day
-      windowEnd = '23:59'   // 11:59 PM previous day
-      recommendedStart = '22:00'
-      recommendedEnd = '23:59'
-    }
-  }
-  
-  // Special handling for very early shifts (before 6 AM)
-  if (startHour < 6) {
-    const windowStartHour = parseTime(windowStart).hours
-    // If check-in window would be on previous day (starts after 8 PM), adjust
-    if (windowStartHour > 20 || windowStartHour < startHour) {
-      // Check-in window spans previous day - adjust to reasonable hours
-      // For 4 AM shift: window should be 12 AM (midnight) - 3 AM same day
-      if (startHour >= 4) {
-        windowStart = '00:00' // Start from midnight same day
-        windowEnd = subtractHours(startTime, 1)
-        recommendedStart = '01:00'
-        recommendedEnd = subtractHours(startTime, 1)
-      } else {
-        // For very early shifts (1-3 AM), use previous day 9 PM - 12 AM
-        windowStart = '21:00'
-        windowEnd = '23:59'
-        recommendedStart = '22:00'
-        recommendedEnd = '23:59'
-      }
-    }
-  }
-  
-  // Ensure window doesn't end after shift starts
-  if (compareTime(windowEnd, startTime) >= 0) {
-    windowEnd = subtractHours(startTime, 1) // 1 hour before shift (minimum)
-    recommendedEnd = subtractHours(startTime, 1)
-  }
-  
-  // For very late shifts (after 10 PM), adjust window start to reasonable hours
-  if (startHour >= 22) {
-    windowStart = subtractHours(startTime, 3) // 3 hours before instead of 4
-    recommendedStart = subtractHours(startTime, 2) // 2 hours before
-  }
-
-  return {
-    windowStart,
-    windowEnd,
-    recommendedStart,
-    recommendedEnd,
-  }
-}
-
-// Helper: Check if current time is within check-in window
-function isWithinCheckInWindow(currentTime: string, windowStart: string, windowEnd: string): boolean {
-  // Handle night shift that spans midnight
-  if (compareTime(windowStart, windowEnd) > 0) {
-    // Window spans midnight
-    return compareTime(currentTime, windowStart) >= 0 || compareTime(currentTime, windowEnd) <= 0
-  } else {
-    // Normal window within same day
-    return compareTime(currentTime, windowStart) >= 0 && compareTime(currentTime, windowEnd) <= 0
-  }
-}
-
-// Helper: Get worker's shift info for a specific date (default: today)
-// ONLY uses individual worker schedules from worker_schedules table (created by Team Leader)
-// NO FALLBACK - Team Leader MUST assign individual schedules
-async function getWorkerShiftInfo(userId: string, targetDate?: Date): Promise<{
+type ShiftInfo = {
   hasShift: boolean
   shiftType: 'morning' | 'afternoon' | 'night' | 'flexible'
   shiftStart?: string
   shiftEnd?: string
+  segments?: Array<{ startTime: string; endTime: string; startsNextDay: boolean }>
   checkInWindow: { windowStart: string; windowEnd: string; recommendedStart: string; recommendedEnd: string }
   scheduleSource?: 'team_leader' | 'none' | 'flexible'
-}> {
+  requiresDailyCheckIn?: boolean
+  holiday?: string | null // Site public holiday name - no check-in required
+}
+
+// Helper: Get worker's active schedules (individual worker schedules created by Team Leader)
+async function getWorkerSchedules(userId: string): Promise<any[]> {
   const adminClient = getAdminClient()
-  
-  // Get target date (use local date, not UTC, to match scheduled_date in database)
-  const target = targetDate || new Date()
-  // Get local date string (YYYY-MM-DD) to match database date format
-  const year = target.getFullYear()
-  const month = String(target.getMonth() + 1).padStart(2, '0')
-  const day = String(target.getDate()).padStart(2, '0')
-  const targetStr = `${year}-${month}-${day}`
-
-  // PRIORITY 1: Check worker_schedules table first (individual worker schedules)
-  // Check both single-date schedules and recurring schedules
-  // NOTE: Supports ALL days of week (0=Sunday, 1=Monday, ..., 6=Saturday) - INCLUDING WEEKENDS
-  const targetDayOfWeek = target.getDay() // 0-6: Sunday=0, Monday=1, ..., Saturday=6
-  
-  // First, check for single-date schedule (works for ANY date including weekends)
-  const { data: singleDateSchedule, error: singleDateError } = await adminClient
+  const { data, error } = await adminClient
     .from('worker_schedules')
     .select('*')
     .eq('worker_id', userId)
-    .eq('scheduled_date', targetStr)
     .eq('is_active', true)
-    .is('day_of_week', null) // Only single-date schedules
     .order('start_time', { ascending: true })
-    .limit(1)
-    .maybeSingle()
-
-  let workerSchedule = null
-  if (singleDateError) {
-    // Only log actual errors, not "not found" cases
-    console.error(`[getWorkerShiftInfo] Error fetching single-date schedule for user ${userId}:`, singleDateError)
-  } else {
-    workerSchedule = singleDateSchedule
+
+  if (error) {
+    console.error(`[getWorkerSchedules] Error fetching schedules for user ${userId}:`, error)
+    return []
   }
 
-  // If no single-date schedule found, check for recurring schedule
-  if (!workerSchedule) {
-    // Check for recurring schedule - need to handle expiry_date being NULL or >= target
-    // Since Supabase OR syntax is limited, we'll fetch and filter in memory if needed
-    let { data: recurringSchedule, error: recurringError } = await adminClient
-      .from('worker_schedules')
-      .select('*')
-      .eq('worker_id', userId)
-      .eq('day_of_week', targetDayOfWeek) // Matches any day 0-6 (including weekends: Saturday=6, Sunday=0)
-      .eq('is_active', true)
-      .is('scheduled_date', null) // Only recurring schedules
-      // Removed .lte('effective_date', targetStr) - filter in memory to handle future effective dates
-      .order('start_time', { ascending: true })
-
-    // Filter in memory to handle both effective_date and expiry_date (can be NULL or future dates)
-    // This ensures schedules with future effective_date are still considered
-    if (!recurringError && recurringSchedule && recurringSchedule.length > 0) {
-      recurringSchedule = recurringSchedule.filter((schedule: any) => {
-        // Effective date should be NULL (always active) OR <= target date
-        // Expiry date should be NULL (ongoing) OR >= target date
-        const effectiveOk = !schedule.effective_date || schedule.effective_date <= targetStr
-        const expiryOk = !schedule.expiry_date || schedule.expiry_date >= targetStr
-        return effectiveOk && expiryOk
-      })
-      
-      // Use the first matching schedule
-      recurringSchedule = recurringSchedule.length > 0 ? recurringSchedule[0] : null
-    } else {
-      recurringSchedule = null
-    }
+  return data || []
+}
 
-    if (!recurringError && recurringSchedule && typeof recurringSchedule === 'object' && !Array.isArray(recurringSchedule)) {
-      workerSchedule = recurringSchedule
-    } else if (recurringError) {
-      // Only log errors, not normal "no schedule found" cases
-      console.error(`[getWorkerShiftInfo] Error fetching recurring schedule for user ${userId}:`, recurringError)
-    }
-  }
-  
-  if (workerSchedule) {
-    const shiftType = getShiftType(workerSchedule.start_time, workerSchedule.end_time)
-    
-    // PRIORITY: Use daily check-in window if schedule requires daily check-in
-    // Otherwise, use custom check-in window, or calculate from shift time
-    let checkInWindow
-    if (workerSchedule.requires_daily_checkin && workerSchedule.daily_checkin_start_time && workerSchedule.daily_checkin_end_time) {
-      checkInWindow = {
-        windowStart: workerSchedule.daily_checkin_start_time,
-        windowEnd: workerSchedule.daily_checkin_end_time,
-        recommendedStart: workerSchedule.daily_checkin_start_time,
-        recommendedEnd: workerSchedule.daily_checkin_end_time,
-      }
-    } else if (workerSchedule.check_in_window_start && workerSchedule.check_in_window_end) {
-      checkInWindow = {
-        windowStart: workerSchedule.check_in_window_start,
-        windowEnd: workerSchedule.check_in_window_end,
-        recommendedStart: workerSchedule.check_in_window_start,
-        recommendedEnd: workerSchedule.check_in_window_end,
-      }
-    } else {
-      checkInWindow = getCheckInWindow(shiftType, workerSchedule.start_time, workerSchedule.end_time)
-    }
+// Helper: Case number shown to workers (same format as the clinician views)
+function generateCaseNumber(exceptionId: string, createdAt: string): string {
+  const date = new Date(createdAt)
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  const hours = String(date.getHours()).padStart(2, '0')
+  const minutes = String(date.getMinutes()).padStart(2, '0')
+  const seconds = String(date.getSeconds()).padStart(2, '0')
+  const uuidPrefix = exceptionId?.substring(0, 4)?.toUpperCase() || 'CASE'
+  return `CASE-${year}${month}${day}-${hours}${minutes}${seconds}-${uuidPrefix}`
+}
 
-    const result = {
+// Helper: Display name of a user row
+function formatUserName(user: any): string {
+  if (!user) return 'Unknown'
+  if (user.full_name) return user.full_name
+  if (user.first_name && user.last_name) return `${user.first_name} ${user.last_name}`
+  return user.email || 'Unknown'
+}
+
+// Helper: Build shift info from the segments of a shift date (one unless it's a split shift)
+// The shift runs from the first segment's start to the last segment's end; the first segment's check-in window applies
+// NO FALLBACK - Team Leader MUST assign individual schedules
+function buildShiftInfo(segments: any[]): ShiftInfo {
+  const schedule = segments[0]
+  if (schedule) {
+    const shiftEnd = segments[segments.length - 1].end_time
+    return {
       hasShift: true,
-      shiftType,
-      shiftStart: workerSchedule.start_time,
-      shiftEnd: workerSchedule.end_time,
-      checkInWindow,
+      shiftType: getShiftType(schedule.start_time, shiftEnd),
+      shiftStart: schedule.start_time,
+      shiftEnd,
+      segments: segments.map((segment: any) => ({
+        startTime: segment.start_time,
+        endTime: segment.end_time,
+        startsNextDay: !!segment.starts_next_day,
+      })),
+      checkInWindow: getScheduleCheckInWindow(schedule),
       scheduleSource: 'team_leader' as const, // Individual schedule assigned by team leader
-      requiresDailyCheckIn: workerSchedule.requires_daily_checkin || false,
+      requiresDailyCheckIn: schedule.requires_daily_checkin || false,
     }
-    
-    return result
   }
 
-  // NO FALLBACK: If no individual worker schedule exists, return no schedule
-  // Team Leader MUST assign individual schedules via worker_schedules table
   return {
     hasShift: false,
     shiftType: 'flexible',
@@ -304,167 +104,70 @@ async function getWorkerShiftInfo(userId: string, targetDate?: Date): Promise<{
   }
 }
 
+// Helper: Get worker's shift info for the shift day a moment belongs to (default: now)
+// Uses the site's local time (teams.timezone) - a check-in in the evening window before an early
+// shift, or after midnight during an overnight shift, belongs to that shift's date
+async function getWorkerShiftInfo(userId: string, instant: Date = new Date()): Promise<{
+  shiftInfo: ShiftInfo & { shiftDate: string; timeZone: string }
+  shiftDay: ShiftDay
+  isWithinWindow: boolean
+  isWithinRecommended: boolean
+}> {
+  const [schedules, timeZone] = await Promise.all([
+    getWorkerSchedules(userId),
+    getWorkerTimeZone(userId),
+  ])
+
+  const shiftDay = resolveShiftDay(schedules, instant, timeZone)
+  const shiftInfo = buildShiftInfo(shiftDay.segments)
+
+  // Site public holiday: still rostered, but no check-in required
+  const holidays = await getWorkerHolidays(userId, shiftDay.date, shiftDay.date)
+  if (holidays.has(shiftDay.date)) {
+    shiftInfo.holiday = holidays.get(shiftDay.date)
+    shiftInfo.requiresDailyCheckIn = false
+  }
+  const windowRange = shiftDay.schedule
+    ? getScheduleCheckInWindowRange(shiftDay.schedule)
+    : getCheckInWindowRange(shiftInfo.checkInWindow)
+
+  return {
+    shiftInfo: { ...shiftInfo, shiftDate: shiftDay.date, timeZone },
+    shiftDay,
+    ...getCheckInWindowStatus(windowRange, shiftDay.minutes),
+  }
+}
+
 // OPTIMIZED: Get next shift info by fetching all schedules once and calculating in memory
 // This reduces from 730+ database queries to just 1 query
-async function getNextShiftInfoOptimized(userId: string, startFromDate: Date = new Date()): Promise<{
-  hasShift: boolean
-  shiftType: 'morning' | 'afternoon' | 'night' | 'flexible'
-  shiftStart?: string
-  shiftEnd?: string
-  checkInWindow: { windowStart: string; windowEnd: string; recommendedStart: string; recommendedEnd: string }
-  scheduleSource?: 'team_leader' | 'none' | 'flexible'
+async function getNextShiftInfoOptimized(userId: string, startDateStr: string): Promise<(ShiftInfo & {
   date?: string
   dayName?: string
   formattedDate?: string
-  requiresDailyCheckIn?: boolean
-} | null> {
-  const adminClient = getAdminClient()
-  const startDateStr = formatDateString(startFromDate)
-  
-  // Fetch ALL active schedules for this worker ONCE (instead of querying per day)
-  const { data: allSchedules, error } = await adminClient
-    .from('worker_schedules')
-    .select('*')
-    .eq('worker_id', userId)
-    .eq('is_active', true)
-    .order('start_time', { ascending: true })
-
-  if (error) {
-    console.error(`[getNextShiftInfoOptimized] Error fetching schedules:`, error)
-    return null
-  }
-
-  if (!allSchedules || allSchedules.length === 0) {
+}) | null> {
+  const allSchedules = await getWorkerSchedules(userId)
+  if (allSchedules.length === 0) {
     return null
   }
 
-  // OPTIMIZED: Single pass to separate schedules (more efficient than multiple filters)
-  const singleDateSchedules: any[] = []
-  const recurringSchedulesByDay = new Map<number, any[]>() // Group by day_of_week for O(1) lookup
-  
-  for (const schedule of allSchedules) {
-    if (schedule.scheduled_date && !schedule.day_of_week) {
-      // Single-date schedule
-      if (schedule.scheduled_date >= startDateStr) {
-        singleDateSchedules.push(schedule)
-      }
-    } else if (!schedule.scheduled_date && schedule.day_of_week !== null) {
-      // Recurring schedule - group by day_of_week for faster lookup
-      const dayOfWeek = schedule.day_of_week
-      if (!recurringSchedulesByDay.has(dayOfWeek)) {
-        recurringSchedulesByDay.set(dayOfWeek, [])
-      }
-      recurringSchedulesByDay.get(dayOfWeek)!.push(schedule)
-    }
-  }
-
-  // Check single-date schedules first (usually fewer, sort by date for efficiency)
-  if (singleDateSchedules.length > 0) {
-    singleDateSchedules.sort((a, b) => a.scheduled_date.localeCompare(b.scheduled_date))
-    const schedule = singleDateSchedules[0]
-    const shiftType = getShiftType(schedule.start_time, schedule.end_time)
-    let checkInWindow
-    if (schedule.requires_daily_checkin && schedule.daily_checkin_start_time && schedule.daily_checkin_end_time) {
-      checkInWindow = {
-        windowStart: schedule.daily_checkin_start_time,
-        windowEnd: schedule.daily_checkin_end_time,
-        recommendedStart: schedule.daily_checkin_start_time,
-        recommendedEnd: schedule.daily_checkin_end_time,
-      }
-    } else if (schedule.check_in_window_start && schedule.check_in_window_end) {
-      checkInWindow = {
-        windowStart: schedule.check_in_window_start,
-        windowEnd: schedule.check_in_window_end,
-        recommendedStart: schedule.check_in_window_start,
-        recommendedEnd: schedule.check_in_window_end,
-      }
-    } else {
-      checkInWindow = getCheckInWindow(shiftType, schedule.start_time, schedule.end_time)
-    }
-
-    const targetDate = parseDateString(schedule.scheduled_date)
-    return {
-      hasShift: true,
-      shiftType,
-      shiftStart: schedule.start_time,
-      shiftEnd: schedule.end_time,
-      checkInWindow,
-      scheduleSource: 'team_leader' as const,
-      requiresDailyCheckIn: schedule.requires_daily_checkin || false,
-      date: schedule.scheduled_date,
-      dayName: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][targetDate.getDay()],
-      formattedDate: targetDate.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        month: 'long', 
-        day: 'numeric',
-        year: 'numeric'
-      }),
-    }
-  }
-
-  // OPTIMIZED: Check recurring schedules - use Map for O(1) day lookup instead of nested loop
-  // NOTE: Supports ALL days including weekends (Saturday=6, Sunday=0)
-  // Start from dayOffset=0 to include today, then check future days
-  const maxDaysToCheck = 730 // 2 years max
+  // Recurring schedules (weekly or RRULE) can run up to 2 years ahead; single-date schedules are found on their date
+  const lastSingleDate = allSchedules
+    .filter((schedule: any) => schedule.scheduled_date)
+    .reduce((latest: string, schedule: any) => (schedule.scheduled_date > latest ? schedule.scheduled_date : latest), startDateStr)
+  const maxDate = allSchedules.some((schedule: any) => !schedule.scheduled_date)
+    ? addDaysToDateString(startDateStr, 730)
+    : lastSingleDate
   const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-  
-  for (let dayOffset = 0; dayOffset <= maxDaysToCheck; dayOffset++) {
-    const checkDate = new Date(startFromDate)
-    checkDate.setDate(checkDate.getDate() + dayOffset)
-    const checkDateStr = formatDateString(checkDate)
-    const dayOfWeek = checkDate.getDay() // 0-6: Sunday=0, Monday=1, ..., Saturday=6
-
-    // OPTIMIZED: Use Map for O(1) lookup instead of iterating through all schedules
-    const schedulesForDay = recurringSchedulesByDay.get(dayOfWeek)
-    if (!schedulesForDay || schedulesForDay.length === 0) {
-      continue // Skip if no schedules for this day
-    }
-
-    // Find first matching schedule for this day (check effective_date and expiry_date)
-    for (const schedule of schedulesForDay) {
-      // Check effective_date and expiry_date
-      const effectiveOk = !schedule.effective_date || schedule.effective_date <= checkDateStr
-      const expiryOk = !schedule.expiry_date || schedule.expiry_date >= checkDateStr
-      
-      if (effectiveOk && expiryOk) {
-        // Found next recurring schedule
-        const shiftType = getShiftType(schedule.start_time, schedule.end_time)
-        let checkInWindow
-        if (schedule.requires_daily_checkin && schedule.daily_checkin_start_time && schedule.daily_checkin_end_time) {
-          checkInWindow = {
-            windowStart: schedule.daily_checkin_start_time,
-            windowEnd: schedule.daily_checkin_end_time,
-            recommendedStart: schedule.daily_checkin_start_time,
-            recommendedEnd: schedule.daily_checkin_end_time,
-          }
-        } else if (schedule.check_in_window_start && schedule.check_in_window_end) {
-          checkInWindow = {
-            windowStart: schedule.check_in_window_start,
-            windowEnd: schedule.check_in_window_end,
-            recommendedStart: schedule.check_in_window_start,
-            recommendedEnd: schedule.check_in_window_end,
-          }
-        } else {
-          checkInWindow = getCheckInWindow(shiftType, schedule.start_time, schedule.end_time)
-        }
 
-        return {
-          hasShift: true,
-          shiftType,
-          shiftStart: schedule.start_time,
-          shiftEnd: schedule.end_time,
-          checkInWindow,
-          scheduleSource: 'team_leader' as const,
-          requiresDailyCheckIn: schedule.requires_daily_checkin || false,
-          date: checkDateStr,
-          dayName: dayNames[dayOfWeek],
-          formattedDate: checkDate.toLocaleDateString('en-US', { 
-            weekday: 'long', 
-            month: 'long', 
-            day: 'numeric',
-            year: 'numeric'
-          }),
-        }
+  // NOTE: Supports ALL days including weekends (Saturday=6, Sunday=0)
+  for (let checkDateStr = startDateStr; checkDateStr <= maxDate; checkDateStr = addDaysToDateString(checkDateStr, 1)) {
+    const segments = getShiftSegmentsForDate(allSchedules, checkDateStr)
+    if (segments.length > 0) {
+      return {
+        ...buildShiftInfo(segments),
+        date: checkDateStr,
+        dayName: dayNames[getDayOfWeekFromDateString(checkDateStr)],
+        formattedDate: formatDateForDisplay(checkDateStr),
       }
     }
   }
@@ -488,13 +191,15 @@ checkins.get('/status', authMiddleware, requireRole(['worker']), async (c) => {
       return c.json({ error: 'Forbidden: This endpoint is only accessible to workers' }, 403)
     }
 
-    const today = getTodayDateString()
+    // Shift day at the worker's site (an overnight shift's check-in stays "today" after midnight)
+    const { shiftDay } = await getWorkerShiftInfo(user.id)
+    const today = shiftDay.date
     const adminClient = getAdminClient()
 
-    // Check for active exception first (include notes to get case_status)
+    // Check for active exception first (include case_status)
     const { data: exception, error: exceptionError } = await adminClient
       .from('worker_exceptions')
-      .select('id, exception_type, reason, start_date, end_date, notes')
+      .select('id, exception_type, reason, start_date, end_date, notes, case_status')
       .eq('user_id', user.id)
       .eq('is_active', true)
       .single()
@@ -509,15 +214,14 @@ checkins.get('/status', authMiddleware, requireRole(['worker']), async (c) => {
 
       if (todayDate >= startDate && (!endDate || todayDate <= endDate)) {
         hasActiveException = true
-        // Extract case_status from notes field
-        caseStatus = getCaseStatusFromNotes(exception.notes)
+        caseStatus = getCaseStatus(exception)
       }
     }
 
     // Check if worker has already checked in today
     const { data: checkIn, error } = await adminClient
       .from('daily_checkins')
-      .select('id, check_in_date, check_in_time, predicted_readiness, shift_type, created_at')
+      .select('id, check_in_date, check_in_time, predicted_readiness, self_assessed_readiness, readiness_mismatch, shift_type, created_at')
       .eq('user_id', user.id)
       .eq('check_in_date', today)
       .single()
@@ -541,7 +245,7 @@ checkins.get('/status', authMiddleware, requireRole(['worker']), async (c) => {
       hasActiveException,
       exception: hasActiveException ? {
         ...exception,
-        case_status: caseStatus, // Include case_status from notes
+        case_status: caseStatus,
       } : null,
       checkIn: checkIn ? {
         check_in_time: checkIn.check_in_time,
@@ -586,7 +290,7 @@ checkins.get('/history', authMiddleware, requireRole(['worker']), async (c) => {
     // Get paginated check-ins, ordered by date (newest first)
     const { data: checkIns, error } = await adminClient
       .from('daily_checkins')
-      .select('id, check_in_date, check_in_time, predicted_readiness, shift_type, shift_start_time, shift_end_time, pain_level, fatigue_level, stress_level, sleep_quality, additional_notes, created_at')
+      .select('id, check_in_date, check_in_time, predicted_readiness, self_assessed_readiness, readiness_mismatch, shift_type, shift_start_time, shift_end_time, pain_level, fatigue_level, stress_level, sleep_quality, additional_notes, created_at')
       .eq('user_id', user.id)
       .order('check_in_date', { ascending: false })
       .order('created_at', { ascending: false })
@@ -629,7 +333,8 @@ checkins.get('/warm-up/status', authMiddleware, requireRole(['worker']), async (
       return c.json({ error: 'Forbidden: This endpoint is only accessible to workers' }, 403)
     }
 
-    const today = getTodayDateString()
+    const { shiftDay } = await getWorkerShiftInfo(user.id)
+    const today = shiftDay.date
     const adminClient = getAdminClient()
 
     const { data: warmUp } = await adminClient
@@ -666,28 +371,12 @@ checkins.get('/shift-info', authMiddleware, requireRole(['worker']), async (c) =
 
     console.log(`[GET /checkins/shift-info] Request from user: ${user.id} (${user.email}), role: ${user.role}`)
 
-    const shiftInfo = await getWorkerShiftInfo(user.id)
-    
-    // Get current time
-    const now = new Date()
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-    
-    // Check if within window
-    const isWithinWindow = isWithinCheckInWindow(
-      currentTime,
-      shiftInfo.checkInWindow.windowStart,
-      shiftInfo.checkInWindow.windowEnd
-    )
-    
-    const isWithinRecommended = isWithinCheckInWindow(
-      currentTime,
-      shiftInfo.checkInWindow.recommendedStart,
-      shiftInfo.checkInWindow.recommendedEnd
-    )
+    // Current time and window status are the site's local time (teams.timezone)
+    const { shiftInfo, shiftDay, isWithinWindow, isWithinRecommended } = await getWorkerShiftInfo(user.id)
 
     return c.json({
       ...shiftInfo,
-      currentTime,
+      currentTime: shiftDay.localTime,
       isWithinWindow,
       isWithinRecommended,
     })
@@ -697,6 +386,30 @@ checkins.get('/shift-info', authMiddleware, requireRole(['worker']), async (c) =
   }
 })
 
+// Get active readiness rules for worker's team (used by the check-in form preview)
+checkins.get('/readiness-rules', authMiddleware, requireRole(['worker']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: teamMember } = await adminClient
+      .from('team_members')
+      .select('team_id')
+      .eq('user_id', user.id)
+      .single()
+
+    const rules = await getActiveReadinessRules(teamMember?.team_id || null)
+
+    return c.json({ rules })
+  } catch (error: any) {
+    console.error('[GET /checkins/readiness-rules] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 // Get worker dashboard data (optimized - combines team, check-in status, shift info, and next shift)
 checkins.get('/dashboard', authMiddleware, requireRole(['worker']), async (c) => {
   try {
@@ -710,7 +423,10 @@ checkins.get('/dashboard', authMiddleware, requireRole(['worker']), async (c) =>
     }
 
     const adminClient = getAdminClient()
-    const today = getTodayDateString()
+
+    // Today's shift info - "today" is the shift day at the worker's site
+    const { shiftInfo: todayShiftInfo, shiftDay } = await getWorkerShiftInfo(user.id)
+    const today = shiftDay.date
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
 
     // Parallel queries for better performance
@@ -729,7 +445,7 @@ checkins.get('/dashboard', authMiddleware, requireRole(['worker']), async (c) =>
       // Get active exception
       adminClient
         .from('worker_exceptions')
-        .select('id, exception_type, reason, start_date, end_date, notes')
+        .select('id, exception_type, reason, start_date, end_date, case_status')
         .eq('user_id', user.id)
         .eq('is_active', true)
         .single(),
@@ -778,7 +494,7 @@ checkins.get('/dashboard', authMiddleware, requireRole(['worker']), async (c) =>
 
       if (todayDate >= startDate && (!endDate || todayDate <= endDate)) {
         hasActiveException = true
-        const caseStatus = getCaseStatusFromNotes(exc.notes)
+        const caseStatus = getCaseStatus(exc)
         exception = {
           exception_type: exc.exception_type,
           reason: exc.reason,
@@ -800,13 +516,10 @@ checkins.get('/dashboard', authMiddleware, requireRole(['worker']), async (c) =>
     // Process warm-up
     const hasWarmUp = !!(warmUpResult.data && !warmUpResult.error)
 
-    // Get today's shift info
-    const todayShiftInfo = await getWorkerShiftInfo(user.id)
-
     // OPTIMIZED: Get next shift info using optimized function (1 query instead of 14-730 queries)
     // If today has a schedule, find the NEXT one after today. Otherwise, find the next one including today.
     // This ensures Saturday/Sunday schedules are found correctly
-    const searchStartDate = todayShiftInfo.hasShift ? new Date(Date.now() + 24 * 60 * 60 * 1000) : new Date() // Tomorrow if today has schedule, else today
+    const searchStartDate = todayShiftInfo.hasShift ? addDaysToDateString(today, 1) : today // Tomorrow if today has schedule, else today
     const nextShiftData = await getNextShiftInfoOptimized(user.id, searchStartDate)
 
     const nextShift = nextShiftData || {
@@ -853,9 +566,9 @@ checkins.get('/next-shift-info', authMiddleware, requireRole(['worker']), async
       return c.json({ error: 'Forbidden: This endpoint is only accessible to workers' }, 403)
     }
 
-    // Get tomorrow's date
-    const tomorrow = new Date()
-    tomorrow.setDate(tomorrow.getDate() + 1)
+    // Get tomorrow's date at the worker's site
+    const { shiftDay } = await getWorkerShiftInfo(user.id)
+    const tomorrow = addDaysToDateString(shiftDay.date, 1)
 
     // OPTIMIZED: Use optimized function (1 query instead of 14 queries)
     const nextShiftData = await getNextShiftInfoOptimized(user.id, tomorrow)
@@ -880,7 +593,8 @@ checkins.get('/next-shift-info', authMiddleware, requireRole(['worker']), async
 })
 
 // Submit daily check-in (worker only)
-checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
+// Outbox replays send capturedAt (when the worker filled it in) with the Idempotency-Key and Outbox-Queued-At headers
+checkins.post('/submit', authMiddleware, requireRole(['worker']), idempotent('checkin-submit'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -893,7 +607,12 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
       return c.json({ error: 'Forbidden: This endpoint is only accessible to workers' }, 403)
     }
 
-    const { painLevel, fatigueLevel, sleepQuality, stressLevel, additionalNotes, predictedReadiness } = await c.req.json()
+    const { painLevel, fatigueLevel, sleepQuality, stressLevel, additionalNotes, predictedReadiness, customAnswers, capturedAt: clientCapturedAt } = await c.req.json()
+
+    const capture = resolveCapturedAt(clientCapturedAt, { idempotencyKey: c.req.header(IDEMPOTENCY_KEY_HEADER), queuedAt: c.req.header(OUTBOX_QUEUED_AT_HEADER) })
+    if (!capture.valid) {
+      return c.json({ error: capture.error }, 400)
+    }
 
     // Validate inputs
     if (
@@ -905,37 +624,12 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
       return c.json({ error: 'Invalid input values' }, 400)
     }
 
-    if (!['Green', 'Yellow', 'Red'].includes(predictedReadiness)) {
+    // predictedReadiness from the client is the worker's self-assessment only.
+    // The authoritative level is recomputed below from the team's readiness rules.
+    if (!isValidReadinessLevel(predictedReadiness)) {
       return c.json({ error: 'Invalid predicted readiness value' }, 400)
     }
 
-    // Validate: Additional notes are required when "Not fit to work" (Red)
-    if (predictedReadiness === 'Red' && (!additionalNotes || additionalNotes.trim() === '')) {
-      return c.json({ 
-        error: 'Additional notes are required when you are not fit to work. Please explain your condition so your team leader can understand your situation.' 
-      }, 400)
-    }
-
-    // Get shift info for this worker
-    const shiftInfo = await getWorkerShiftInfo(user.id)
-    
-    // Get current time
-    const now = new Date()
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-    
-    // Check if within check-in window (soft validation - allow but warn)
-    const isWithinWindow = isWithinCheckInWindow(
-      currentTime,
-      shiftInfo.checkInWindow.windowStart,
-      shiftInfo.checkInWindow.windowEnd
-    )
-    
-    const isWithinRecommended = isWithinCheckInWindow(
-      currentTime,
-      shiftInfo.checkInWindow.recommendedStart,
-      shiftInfo.checkInWindow.recommendedEnd
-    )
-
     // Get user's team_id if they're part of a team
     const adminClient = getAdminClient()
     const { data: teamMember } = await adminClient
@@ -944,7 +638,45 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
       .eq('user_id', user.id)
       .single()
 
-    const today = getTodayDateString()
+    // Validate and score the team's custom questions (if any)
+    let customEvaluation: { answers: CheckInAnswer[]; score: number; redFlags: string[] } = { answers: [], score: 0, redFlags: [] }
+    if (teamMember?.team_id) {
+      const { data: questions, error: questionsError } = await getTeamQuestions(teamMember.team_id)
+      if (questionsError) {
+        console.error('[POST /checkins] Error fetching custom questions:', questionsError)
+        return c.json({ error: 'Failed to load check-in questions', details: questionsError }, 500)
+      }
+
+      const evaluation = evaluateCustomAnswers(questions, customAnswers)
+      if (!evaluation.valid) {
+        return c.json({ error: evaluation.error }, 400)
+      }
+      customEvaluation = evaluation
+    }
+
+    const readinessRules = await getActiveReadinessRules(teamMember?.team_id || null)
+    const readiness = computeReadiness({ painLevel, fatigueLevel, stressLevel, sleepQuality }, readinessRules, customEvaluation)
+    const computedReadiness = readiness.level
+    const readinessMismatch = computedReadiness !== predictedReadiness
+
+    if (readinessMismatch) {
+      console.warn(`[POST /checkins] Readiness mismatch for worker ${user.id}: self-assessed ${predictedReadiness}, computed ${computedReadiness} (score ${readiness.score}, rules v${readinessRules.version})`)
+    }
+
+    // Validate: Additional notes are required when "Not fit to work" (Red)
+    if (computedReadiness === 'Red' && (!additionalNotes || additionalNotes.trim() === '')) {
+      return c.json({ 
+        error: 'Additional notes are required when you are not fit to work. Please explain your condition so your team leader can understand your situation.',
+        computedReadiness,
+      }, 400)
+    }
+
+    // Get shift info for the shift day the check-in was captured in (site's local time)
+    // Check-in time is the capture time (server time unless captured offline)
+    // Window check is soft validation - allow but warn
+    const { shiftInfo, shiftDay, isWithinWindow, isWithinRecommended } = await getWorkerShiftInfo(user.id, capture.capturedAt)
+    const currentTime = shiftDay.localTime
+    const today = shiftDay.date
 
     // Insert or update check-in (one per day per user)
     const { data: checkIn, error: checkInError } = await adminClient
@@ -958,9 +690,19 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
           sleep_quality: sleepQuality,
           stress_level: stressLevel,
           additional_notes: additionalNotes || null,
-          predicted_readiness: predictedReadiness,
+          predicted_readiness: computedReadiness,
+          self_assessed_readiness: predictedReadiness,
+          readiness_score: readiness.score,
+          readiness_mismatch: readinessMismatch,
+          readiness_red_flags: readiness.redFlags,
+          readiness_rule_set_id: readinessRules.id,
+          readiness_rule_version: readinessRules.version,
+          custom_answers: customEvaluation.answers,
+          custom_score: customEvaluation.score,
           check_in_date: today,
           check_in_time: currentTime,
+          captured_at: capture.capturedAt.toISOString(),
+          captured_offline: capture.offline,
           shift_start_time: shiftInfo.shiftStart || null,
           shift_end_time: shiftInfo.shiftEnd || null,
           shift_type: shiftInfo.shiftType,
@@ -976,8 +718,16 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
       return c.json({ error: 'Failed to save check-in', details: checkInError.message }, 500)
     }
 
+    // Late check-in - link it to the missed entry if the detection job already recorded one
+    if (!isWithinWindow) {
+      await markMissedCheckInLate(user.id, today, checkIn.id)
+    } else if (capture.offline) {
+      // Captured in the window but synced after it closed - it wasn't missed
+      await clearMissedCheckIn(user.id, today)
+    }
+
     // Notify Team Leader if worker is "Not fit to work" (Red status)
-    if (predictedReadiness === 'Red' && teamMember?.team_id) {
+    if (computedReadiness === 'Red' && teamMember?.team_id) {
       try {
         // Get team leader's ID from team
         const { data: team, error: teamError } = await adminClient
@@ -1044,6 +794,11 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
               sleep_quality: sleepQuality,
               stress_level: stressLevel,
               additional_notes: additionalNotes || null,
+              self_assessed_readiness: predictedReadiness,
+              readiness_mismatch: readinessMismatch,
+              readiness_score: readiness.score,
+              readiness_red_flags: readiness.redFlags,
+              custom_answers: customEvaluation.answers,
               shift_start_time: shiftInfo.shiftStart || null,
               shift_end_time: shiftInfo.shiftEnd || null,
               shift_type: shiftInfo.shiftType,
@@ -1052,15 +807,23 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
             is_read: false,
           }
 
-          const { error: notifyError } = await adminClient
-            .from('notifications')
-            .insert([notification])
+          const { data: createdNotifications, error: notifyError } = await createNotifications([notification])
 
           if (notifyError) {
             console.error('[POST /checkins] Error creating notification for team leader:', notifyError)
             // Don't fail the check-in request if notification fails
           } else {
             console.log(`[POST /checkins] Notification sent to team leader ${team.team_leader_id} for worker ${workerName} (Not fit to work)`)
+
+            // Escalate to supervisor, then WHS, if the team leader doesn't read it in time
+            await startEscalation({
+              sourceType: 'worker_not_fit_to_work',
+              teamId: teamMember.team_id,
+              workerId: user.id,
+              checkInId: checkIn.id,
+              notificationIds: (createdNotifications || []).map((n: any) => n.id),
+              payload: notification.data,
+            })
           }
         }
       } catch (notificationError: any) {
@@ -1074,11 +837,20 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
     return c.json({
       message: 'Check-in submitted successfully',
       checkIn,
+      readiness: {
+        computed: computedReadiness,
+        selfAssessed: predictedReadiness,
+        mismatch: readinessMismatch,
+        score: readiness.score,
+        redFlags: readiness.redFlags,
+        ruleVersion: readinessRules.version,
+      },
       shiftInfo: {
         ...shiftInfo,
         isWithinWindow,
         isWithinRecommended,
         currentTime,
+        capturedOffline: capture.offline,
       },
     }, 201)
   } catch (error: any) {
@@ -1088,7 +860,7 @@ checkins.post('/submit', authMiddleware, requireRole(['worker']), async (c) => {
 })
 
 // Mark warm-up as complete (worker only)
-checkins.post('/warm-up', authMiddleware, requireRole(['worker']), async (c) => {
+checkins.post('/warm-up', authMiddleware, requireRole(['worker']), idempotent('checkin-warm-up'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -1101,6 +873,13 @@ checkins.post('/warm-up', authMiddleware, requireRole(['worker']), async (c) =>
       return c.json({ error: 'Forbidden: This endpoint is only accessible to workers' }, 403)
     }
 
+    // Body is optional - outbox replays send { capturedAt }
+    const body = await c.req.json().catch(() => ({}))
+    const capture = resolveCapturedAt(body?.capturedAt, { idempotencyKey: c.req.header(IDEMPOTENCY_KEY_HEADER), queuedAt: c.req.header(OUTBOX_QUEUED_AT_HEADER) })
+    if (!capture.valid) {
+      return c.json({ error: capture.error }, 400)
+    }
+
     // Get user's team_id if they're part of a team
     const { data: teamMember } = await supabase
       .from('team_members')
@@ -1108,7 +887,9 @@ checkins.post('/warm-up', authMiddleware, requireRole(['worker']), async (c) =>
       .eq('user_id', user.id)
       .single()
 
-    const today = getTodayDateString()
+    // Recorded against the shift day it was captured in (same day as the check-in)
+    const { shiftDay } = await getWorkerShiftInfo(user.id, capture.capturedAt)
+    const today = shiftDay.date
 
     // Insert or update warm-up (one per day per user)
     const { data: warmUp, error: warmUpError } = await supabase
@@ -1119,6 +900,7 @@ checkins.post('/warm-up', authMiddleware, requireRole(['worker']), async (c) =>
           team_id: teamMember?.team_id || null,
           completed: true,
           warm_up_date: today,
+          captured_at: capture.capturedAt.toISOString(),
         },
       ], {
         onConflict: 'user_id,warm_up_date',
@@ -1216,7 +998,13 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
         exercise_order: ex.exercise_order,
       }))
 
-    const totalExercises = exercises.length
+    const exerciseIds = exercises.map((ex: any) => ex.id)
+
+    // Phased plans prescribe a subset of the exercises per day (and rest days)
+    const { data: phases, error: phasesError } = await getPlanPhases(workerPlan.id)
+    if (phasesError) {
+      return c.json({ error: 'Failed to fetch rehabilitation plan', details: phasesError }, 500)
+    }
 
     // Get all completion records for this plan and user
     const { data: completions } = await adminClient
@@ -1252,8 +1040,8 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
     // Use parseDateString to avoid timezone issues (consistent with clinician endpoint)
     const startDate = parseDateString(workerPlan.start_date)
     const endDate = parseDateString(workerPlan.end_date)
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
+    const timeZone = await getWorkerTimeZone(user.id)
+    const today = parseDateString(getTodayInTimeZone(timeZone))
     
     // Calculate total days (inclusive: start and end dates both count)
     const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
@@ -1286,8 +1074,9 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
         break
       }
       
-      const allExercisesCompleted = exercises.length > 0 && 
-        exercises.every((ex: any) => dayCompletions.has(ex.id))
+      // Only the exercises prescribed for the day count - a rest day is complete as it is
+      const allExercisesCompleted = getDayPrescription(phases, exerciseIds, dayOffset + 1).exercises
+        .every(ex => dayCompletions.has(ex.exercise_id))
 
       if (allExercisesCompleted) {
         // This day is fully completed
@@ -1295,9 +1084,7 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
         
         // Check if we can advance to next day (must be past 6:00 AM of next day)
         if (dayOffset < totalDays - 1) {
-          const nextDayDate = new Date(dayDate)
-          nextDayDate.setDate(dayDate.getDate() + 1)
-          nextDayDate.setHours(6, 0, 0, 0) // 6:00 AM of next day
+          const nextDayDate = zonedTimeToDate(addDaysToDateString(dayDateStr, 1), '06:00', timeZone) // 6:00 AM of next day at the site
           
           // Only advance to next day if current time is past 6:00 AM of next day
           if (now >= nextDayDate) {
@@ -1326,6 +1113,15 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
     // Calculate progress based on completed days
     const progress = totalDays > 0 ? Math.round((daysCompleted / totalDays) * 100) : 0
 
+    // Today's exercises with their prescription (null for plans without phases)
+    const todayPrescription = getDayPrescription(phases, exerciseIds, currentDay)
+    const todaysExercises = todayPrescription.exercises.map(prescribed => ({
+      ...exercises.find((ex: any) => ex.id === prescribed.exercise_id),
+      prescription: todayPrescription.phase
+        ? { sets: prescribed.sets, repetitions: prescribed.repetitions, hold_seconds: prescribed.hold_seconds }
+        : null,
+    }))
+
     return c.json({
       plan: {
         id: workerPlan.id,
@@ -1338,7 +1134,10 @@ checkins.get('/rehabilitation-plan', authMiddleware, requireRole(['worker']), as
         currentDay,
         daysCompleted,
         totalDays,
-        exercises,
+        exercises: todaysExercises,
+        isRestDay: todayPrescription.isRestDay,
+        currentPhase: todayPrescription.phase,
+        phases: phases.map(phase => ({ id: phase.id, name: phase.name, start_day: phase.start_day, end_day: phase.end_day })),
         status: workerPlan.status,
       }
     })
@@ -1357,7 +1156,7 @@ checkins.get('/rehabilitation-plan/completions', authMiddleware, requireRole(['w
     }
 
     const planId = c.req.query('plan_id')
-    const date = c.req.query('date') || getTodayDateString()
+    const date = c.req.query('date') || getTodayInTimeZone(await getWorkerTimeZone(user.id))
 
     if (!planId) {
       return c.json({ error: 'plan_id is required' }, 400)
@@ -1382,25 +1181,38 @@ checkins.get('/rehabilitation-plan/completions', authMiddleware, requireRole(['w
 })
 
 // Mark exercise as completed for the current day of the plan
-checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireRole(['worker']), async (c) => {
+checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireRole(['worker']), idempotent('complete-exercise'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const { exercise_id, plan_id } = await c.req.json()
+    const body = await c.req.json()
+    const { exercise_id, plan_id, capturedAt } = body
 
     if (!exercise_id || !plan_id) {
       return c.json({ error: 'exercise_id and plan_id are required' }, 400)
     }
 
+    // Optional pain before/after, difficulty and note reported with the completion
+    const feedback = validateCompletionFeedback(body)
+    if (feedback.error) {
+      return c.json({ error: feedback.error }, 400)
+    }
+
+    // Offline completions count for the day they were done, not the day they synced
+    const capture = resolveCapturedAt(capturedAt, { idempotencyKey: c.req.header(IDEMPOTENCY_KEY_HEADER), queuedAt: c.req.header(OUTBOX_QUEUED_AT_HEADER) })
+    if (!capture.valid) {
+      return c.json({ error: capture.error }, 400)
+    }
+
     const adminClient = getAdminClient()
     
     // Get the plan to determine current day
     const { data: plan, error: planError } = await adminClient
       .from('rehabilitation_plans')
-      .select('start_date, end_date, rehabilitation_exercises(id, exercise_order)')
+      .select('start_date, end_date, clinician_id, plan_name, exception_id, rehabilitation_exercises(id, exercise_order, exercise_name)')
       .eq('id', plan_id)
       .single()
 
@@ -1408,6 +1220,26 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
       return c.json({ error: 'Plan not found' }, 404)
     }
 
+    // Workers can only complete exercises of plans on their own case
+    const { data: planCase, error: caseError } = await adminClient
+      .from('worker_exceptions')
+      .select('user_id')
+      .eq('id', plan.exception_id)
+      .maybeSingle()
+
+    if (caseError) {
+      console.error('[POST /checkins/rehabilitation-plan/complete-exercise] Error fetching case:', caseError)
+      return c.json({ error: 'Failed to fetch rehabilitation plan', details: caseError.message }, 500)
+    }
+    if (!planCase || planCase.user_id !== user.id) {
+      return c.json({ error: 'Plan not found' }, 404)
+    }
+
+    const { data: phases, error: phasesError } = await getPlanPhases(plan_id)
+    if (phasesError) {
+      return c.json({ error: 'Failed to fetch rehabilitation plan', details: phasesError }, 500)
+    }
+
     // Get all completion records for this plan and user to calculate current day
     const { data: completions } = await adminClient
       .from('rehabilitation_plan_completions')
@@ -1420,11 +1252,11 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
     // Use parseDateString to avoid timezone issues (consistent with other endpoints)
     const startDate = parseDateString(plan.start_date)
     const endDate = parseDateString(plan.end_date)
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
+    const today = parseDateString(getTodayInTimeZone(await getWorkerTimeZone(user.id), capture.capturedAt))
     
     const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
     const exercises = (plan.rehabilitation_exercises || []).sort((a: any, b: any) => a.exercise_order - b.exercise_order)
+    const exerciseIds = exercises.map((ex: any) => ex.id)
     
     // Group completions by date (normalize dates to YYYY-MM-DD format)
     const completionsByDate = new Map<string, Set<string>>()
@@ -1456,7 +1288,8 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
       }
       
       const dayCompletions = completionsByDate.get(dayDateStr) || new Set()
-      const allExercisesCompleted = exercises.length > 0 && exercises.every((ex: any) => dayCompletions.has(ex.id))
+      const allExercisesCompleted = exercises.length > 0 &&
+        getDayPrescription(phases, exerciseIds, dayOffset + 1).exercises.every(ex => dayCompletions.has(ex.exercise_id))
       
       if (!allExercisesCompleted) {
         currentDay = dayOffset + 1
@@ -1474,6 +1307,14 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
     
     console.log(`[DEBUG] Completion: plan_id=${plan_id}, currentDay=${currentDay}, saving for date=${currentDayDateStr}`)
 
+    const dayPrescription = getDayPrescription(phases, exerciseIds, currentDay)
+    if (dayPrescription.isRestDay) {
+      return c.json({ error: `Day ${currentDay} is a rest day` }, 400)
+    }
+    if (!dayPrescription.exercises.some(ex => ex.exercise_id === exercise_id)) {
+      return c.json({ error: `This exercise is not part of Day ${currentDay}` }, 400)
+    }
+
     // Check if already completed for this day
     const { data: existing } = await adminClient
       .from('rehabilitation_plan_completions')
@@ -1498,6 +1339,11 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
         exercise_id,
         user_id: user.id,
         completion_date: currentDayDateStr,
+        captured_at: capture.capturedAt.toISOString(),
+        pain_before: feedback.value.pain_before,
+        pain_level: feedback.value.pain_level,
+        difficulty: feedback.value.difficulty,
+        note: feedback.value.note,
       })
       .select()
 
@@ -1521,6 +1367,48 @@ checkins.post('/rehabilitation-plan/complete-exercise', authMiddleware, requireR
 
     console.log(`[DEBUG] Verified completion exists:`, verifyData)
 
+    // The exercise made the pain noticeably worse - let the clinician know
+    const painIncrease = getPainIncrease(feedback.value)
+    if (painIncrease !== null && painIncrease >= PAIN_INCREASE_ALERT_THRESHOLD && plan.clinician_id) {
+      const { data: workerDetails } = await adminClient
+        .from('users')
+        .select('id, email, first_name, last_name, full_name')
+        .eq('id', user.id)
+        .single()
+
+      const workerName = workerDetails?.full_name ||
+                        (workerDetails?.first_name && workerDetails?.last_name
+                          ? `${workerDetails.first_name} ${workerDetails.last_name}`
+                          : workerDetails?.email || 'Unknown Worker')
+      const exerciseName = exercises.find((ex: any) => ex.id === exercise_id)?.exercise_name || 'an exercise'
+
+      const { error: notifyError } = await createNotifications([{
+        user_id: plan.clinician_id,
+        type: 'rehab_pain_increase',
+        title: '⚠️ Pain Increase Reported',
+        message: `${workerName} reported pain going from ${feedback.value.pain_before}/10 to ${feedback.value.pain_level}/10 after "${exerciseName}" (Day ${currentDay} of ${plan.plan_name || 'their recovery plan'}).`,
+        data: {
+          plan_id,
+          exception_id: plan.exception_id,
+          exercise_id,
+          exercise_name: exerciseName,
+          worker_id: user.id,
+          worker_name: workerName,
+          completion_date: currentDayDateStr,
+          pain_before: feedback.value.pain_before,
+          pain_after: feedback.value.pain_level,
+          difficulty: feedback.value.difficulty,
+          note: feedback.value.note,
+        },
+        is_read: false,
+      }])
+
+      if (notifyError) {
+        // Don't fail the completion if the notification fails
+        console.error('[POST /checkins/rehabilitation-plan/complete-exercise] Error notifying clinician:', notifyError)
+      }
+    }
+
     return c.json({ message: `Exercise marked as completed for Day ${currentDay}`, currentDay, completionDate: currentDayDateStr })
   } catch (error: any) {
     console.error('[POST /checkins/rehabilitation-plan/complete-exercise] Error:', error)
@@ -1602,6 +1490,9 @@ checkins.get('/appointments', authMiddleware, requireRole(['worker']), async (c)
       return c.json({ error: 'Failed to fetch appointments', details: error.message }, 500)
     }
 
+    // Join windows are in each clinician's booking timezone
+    const timeZones = await getClinicianTimeZones((appointments || []).map((apt: any) => apt.clinician_id))
+
     // Format appointments (optimized - use helper functions from clinician routes)
     const formattedAppointments = (appointments || []).map((apt: any) => {
       const exception = apt.worker_exceptions
@@ -1609,25 +1500,8 @@ checkins.get('/appointments', authMiddleware, requireRole(['worker']), async (c)
       const clinician = Array.isArray(apt.users) ? apt.users[0] : apt.users
 
       // Generate case number using consistent format
-      const caseId = exception?.id || apt.case_id
-      const createdAt = exception?.created_at || apt.created_at
-      
-      // Import generateCaseNumber from clinician routes or use inline
-      const date = new Date(createdAt)
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
-      const hours = String(date.getHours()).padStart(2, '0')
-      const minutes = String(date.getMinutes()).padStart(2, '0')
-      const seconds = String(date.getSeconds()).padStart(2, '0')
-      const uuidPrefix = caseId?.substring(0, 4)?.toUpperCase() || 'CASE'
-      const caseNumber = `CASE-${year}${month}${day}-${hours}${minutes}${seconds}-${uuidPrefix}`
-
-      // Format clinician name
-      const clinicianName = clinician?.full_name || 
-        (clinician?.first_name && clinician?.last_name 
-          ? `${clinician.first_name} ${clinician.last_name}`
-          : clinician?.email || 'Unknown')
+      const caseNumber = generateCaseNumber(exception?.id || apt.case_id, exception?.created_at || apt.created_at)
+      const clinicianName = formatUserName(clinician)
 
       return {
         id: apt.id,
@@ -1645,6 +1519,12 @@ checkins.get('/appointments', authMiddleware, requireRole(['worker']), async (c)
         location: apt.location || '',
         notes: apt.notes || '',
         cancellationReason: apt.cancellation_reason || '',
+        bookedBy: apt.booked_by || 'clinician',
+        workerRescheduleCount: apt.worker_reschedule_count || 0,
+        visitMode: apt.visit_mode || 'in_person',
+        joinWindow: formatJoinWindow(apt, timeZones.get(apt.clinician_id)!),
+        sessionStartedAt: apt.session_started_at || null,
+        sessionEndedAt: apt.session_ended_at || null,
         createdAt: apt.created_at,
         updatedAt: apt.updated_at,
       }
@@ -1735,132 +1615,404 @@ checkins.patch('/appointments/:id/status', authMiddleware, requireRole(['worker'
   }
 })
 
-// Get notifications for worker
-checkins.get('/notifications', authMiddleware, requireRole(['worker']), async (c) => {
+// Helper: Tell the clinician a worker booked or moved an appointment (failures are only logged)
+async function notifyClinicianOfSelfBooking(
+  appointment: any,
+  workerId: string,
+  previous?: { appointment_date: string; appointment_time: string }
+): Promise<void> {
+  try {
+    const adminClient = getAdminClient()
+    const { data: worker } = await adminClient
+      .from('users')
+      .select('id, email, first_name, last_name, full_name')
+      .eq('id', workerId)
+      .single()
+
+    const workerName = formatUserName(worker)
+    const when = `${formatDateForDisplay(appointment.appointment_date)} at ${appointment.appointment_time.substring(0, 5)}`
+    const { error } = await createNotifications([{
+      user_id: appointment.clinician_id,
+      type: 'system',
+      title: previous ? '📅 Appointment Rescheduled' : '📅 Appointment Booked',
+      message: previous
+        ? `${workerName} moved their appointment from ${formatDateForDisplay(previous.appointment_date)} at ${previous.appointment_time.substring(0, 5)} to ${when}.`
+        : `${workerName} booked an appointment on ${when}.`,
+      data: {
+        appointment_id: appointment.id,
+        case_id: appointment.case_id,
+        worker_id: workerId,
+        worker_name: workerName,
+        appointment_date: appointment.appointment_date,
+        appointment_time: appointment.appointment_time,
+        duration_minutes: appointment.duration_minutes,
+        location: appointment.location,
+        previous_date: previous?.appointment_date || null,
+        previous_time: previous?.appointment_time || null,
+      },
+      is_read: false,
+    }])
+
+    if (error) {
+      console.error('[notifyClinicianOfSelfBooking] Error creating notification:', error)
+    }
+  } catch (error) {
+    console.error('[notifyClinicianOfSelfBooking] Error:', error)
+  }
+}
+
+// Cases the worker can book appointments for (open cases with an assigned clinician) and the clinician's rules
+checkins.get('/appointments/booking-options', authMiddleware, requireRole(['worker']), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200)
-    const unreadOnly = c.req.query('unread_only') === 'true'
-
     const adminClient = getAdminClient()
-
-    let query = adminClient
-      .from('notifications')
-      .select('*')
+    const { data: cases, error: casesError } = await adminClient
+      .from('worker_exceptions')
+      .select('id, exception_type, created_at, clinician_id')
       .eq('user_id', user.id)
+      .eq('is_active', true)
+      .not('clinician_id', 'is', null)
       .order('created_at', { ascending: false })
-      .limit(limit)
 
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
+    if (casesError) {
+      console.error('[GET /checkins/appointments/booking-options] Error:', casesError)
+      return c.json({ error: 'Failed to fetch booking options', details: casesError.message }, 500)
     }
 
-    const { data: notifications, error } = await query
+    const clinicianIds = [...new Set((cases || []).map((caseItem: any) => caseItem.clinician_id as string))]
+    const [clinicianUsers, settingsList] = await Promise.all([
+      clinicianIds.length > 0
+        ? adminClient.from('users').select('id, email, first_name, last_name, full_name').in('id', clinicianIds)
+        : Promise.resolve({ data: [] as any[] }),
+      Promise.all(clinicianIds.map(clinicianId => getBookingSettings(clinicianId))),
+    ])
 
-    if (error) {
-      console.error('[GET /checkins/notifications] Error:', error)
-      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
+    const clinicianById = new Map<string, any>((clinicianUsers.data || []).map((clinician: any) => [clinician.id, clinician]))
+    const settingsById = new Map(clinicianIds.map((clinicianId, index) => [clinicianId, settingsList[index]]))
+
+    return c.json({
+      options: (cases || []).map((caseItem: any) => {
+        const settings = settingsById.get(caseItem.clinician_id)!
+        return {
+          caseId: caseItem.id,
+          caseNumber: generateCaseNumber(caseItem.id, caseItem.created_at),
+          exceptionType: caseItem.exception_type,
+          clinicianId: caseItem.clinician_id,
+          clinicianName: formatUserName(clinicianById.get(caseItem.clinician_id)),
+          allowBooking: settings.allow_worker_booking,
+          allowReschedule: settings.allow_worker_reschedule,
+          slotMinutes: settings.slot_minutes,
+          minNoticeHours: settings.min_notice_hours,
+          bookingWindowDays: settings.booking_window_days,
+          rescheduleCutoffHours: settings.reschedule_cutoff_hours,
+          maxReschedules: settings.max_worker_reschedules,
+          timezone: settings.timezone,
+        }
+      }),
+    })
+  } catch (error: any) {
+    console.error('[GET /checkins/appointments/booking-options] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Free slots with the clinician of a case (case_id) or for moving an appointment (appointment_id)
+checkins.get('/appointments/slots', authMiddleware, requireRole(['worker']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const { count: unreadCount, error: countError } = await adminClient
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false)
+    const caseId = c.req.query('case_id')
+    const appointmentId = c.req.query('appointment_id')
+    if (!caseId && !appointmentId) {
+      return c.json({ error: 'case_id or appointment_id is required' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    let clinicianId: string
+    let durationMinutes: number | undefined
+    let appointment: any = null
+
+    if (appointmentId) {
+      const { data, error } = await adminClient
+        .from('appointments')
+        .select('id, clinician_id, status, appointment_date, appointment_time, duration_minutes, worker_reschedule_count')
+        .eq('id', appointmentId)
+        .eq('worker_id', user.id)
+        .maybeSingle()
+
+      if (error || !data) {
+        return c.json({ error: 'Appointment not found or not authorized' }, 404)
+      }
+      appointment = data
+      clinicianId = data.clinician_id
+      durationMinutes = data.duration_minutes
+    } else {
+      const { data: caseItem, error } = await adminClient
+        .from('worker_exceptions')
+        .select('id, clinician_id')
+        .eq('id', caseId)
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (error || !caseItem || !caseItem.clinician_id) {
+        return c.json({ error: 'Case not found or no clinician assigned yet' }, 404)
+      }
+      clinicianId = caseItem.clinician_id
+    }
+
+    const today = getTodayInTimeZone((await getBookingSettings(clinicianId)).timezone)
+    const from = c.req.query('from') || today
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return c.json({ error: 'from must be a date (YYYY-MM-DD)' }, 400)
+    }
 
-    if (countError) {
-      console.error('[GET /checkins/notifications] Error counting unread:', countError)
+    const { data: availability, error: availabilityError } = await getClinicianAvailability(clinicianId, addDaysToDateString(from, -1))
+    if (availabilityError || !availability) {
+      return c.json({ error: availabilityError || 'Failed to fetch availability' }, 500)
+    }
+
+    const { settings } = availability
+    if (appointment) {
+      const blocker = getWorkerRescheduleBlocker(settings, appointment)
+      if (blocker) {
+        return c.json({ error: blocker }, 403)
+      }
+    } else if (!settings.allow_worker_booking) {
+      return c.json({ error: 'Your clinician does not take online bookings - please contact them' }, 403)
+    }
+
+    const to = c.req.query('to') || addDaysToDateString(today, settings.booking_window_days)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      return c.json({ error: 'to must be a date (YYYY-MM-DD)' }, 400)
+    }
+
+    const { data: slots, error: slotsError } = await getAvailableSlots(clinicianId, from, to, {
+      availability,
+      durationMinutes,
+      excludeAppointmentId: appointment?.id,
+    })
+    if (slotsError) {
+      return c.json({ error: slotsError }, 500)
     }
 
     return c.json({
-      notifications: notifications || [],
-      unreadCount: unreadCount || 0,
+      slots,
+      durationMinutes: durationMinutes || settings.slot_minutes,
+      timezone: settings.timezone,
     })
   } catch (error: any) {
-    console.error('[GET /checkins/notifications] Error:', error)
+    console.error('[GET /checkins/appointments/slots] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Mark notification as read (worker)
-checkins.patch('/notifications/:notificationId/read', authMiddleware, requireRole(['worker']), async (c) => {
+// Book a free slot with the clinician of a case
+checkins.post('/appointments/book', authMiddleware, requireRole(['worker']), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const notificationId = c.req.param('notificationId')
-    const adminClient = getAdminClient()
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch {
+      return c.json({ error: 'Invalid JSON in request body' }, 400)
+    }
 
-    // Verify notification belongs to user before updating
-    const { data: notification, error: fetchError } = await adminClient
-      .from('notifications')
-      .select('id, user_id, is_read')
-      .eq('id', notificationId)
+    const { case_id, appointment_date, appointment_time, appointment_type = 'consultation', notes } = body
+    if (!case_id || typeof case_id !== 'string') {
+      return c.json({ error: 'case_id is required' }, 400)
+    }
+    if (typeof appointment_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(appointment_date)) {
+      return c.json({ error: 'appointment_date is required (YYYY-MM-DD)' }, 400)
+    }
+    if (typeof appointment_time !== 'string' || !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(appointment_time)) {
+      return c.json({ error: 'appointment_time is required (HH:MM)' }, 400)
+    }
+    const validTypes = ['consultation', 'follow_up', 'assessment', 'review', 'other']
+    if (!validTypes.includes(appointment_type)) {
+      return c.json({ error: `appointment_type must be one of: ${validTypes.join(', ')}` }, 400)
+    }
+    const normalizedTime = appointment_time.padStart(5, '0')
+
+    const adminClient = getAdminClient()
+    const { data: caseItem, error: caseError } = await adminClient
+      .from('worker_exceptions')
+      .select('id, clinician_id')
+      .eq('id', case_id)
       .eq('user_id', user.id)
-      .single()
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (caseError || !caseItem || !caseItem.clinician_id) {
+      return c.json({ error: 'Case not found or no clinician assigned yet' }, 404)
+    }
 
-    if (fetchError || !notification) {
-      return c.json({ error: 'Notification not found or not authorized' }, 404)
+    const { data: availability, error: availabilityError } = await getClinicianAvailability(
+      caseItem.clinician_id,
+      addDaysToDateString(appointment_date, -1)
+    )
+    if (availabilityError || !availability) {
+      return c.json({ error: availabilityError || 'Failed to fetch availability' }, 500)
+    }
+    if (!availability.settings.allow_worker_booking) {
+      return c.json({ error: 'Your clinician does not take online bookings - please contact them' }, 403)
     }
 
-    if (notification.is_read) {
-      return c.json({ message: 'Notification already marked as read' })
+    // The slot must still be free under the clinician's rules
+    const { data: slots, error: slotsError } = await getAvailableSlots(caseItem.clinician_id, appointment_date, appointment_date, { availability })
+    if (slotsError) {
+      return c.json({ error: slotsError }, 500)
+    }
+    const slot = slots.find(candidate => candidate.time === normalizedTime)
+    if (!slot) {
+      return c.json({ error: 'This time is no longer available - please pick another slot' }, 409)
     }
 
-    const { error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
+    const { data: appointment, error: insertError } = await adminClient
+      .from('appointments')
+      .insert({
+        case_id,
+        clinician_id: caseItem.clinician_id,
+        worker_id: user.id,
+        appointment_date,
+        appointment_time: normalizedTime,
+        duration_minutes: availability.settings.slot_minutes,
+        appointment_type,
+        location: slot.location,
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim().substring(0, 2000) : null,
+        status: 'confirmed', // picked by the worker from the clinician's free slots
+        booked_by: 'worker',
       })
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Double-check ownership
+      .select()
+      .single()
 
-    if (updateError) {
-      console.error('[PATCH /checkins/notifications/:id/read] Error:', updateError)
-      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
+    if (isAppointmentOverlapError(insertError)) {
+      return c.json({ error: 'This time is no longer available - please pick another slot' }, 409)
     }
+    if (insertError || !appointment) {
+      console.error('[POST /checkins/appointments/book] Error:', insertError)
+      return c.json({ error: 'Failed to book appointment', details: insertError?.message }, 500)
+    }
+
+    await notifyClinicianOfSelfBooking(appointment, user.id)
 
-    return c.json({ message: 'Notification marked as read' })
+    return c.json({ appointment, message: 'Appointment booked successfully' }, 201)
   } catch (error: any) {
-    console.error('[PATCH /checkins/notifications/:id/read] Error:', error)
+    console.error('[POST /checkins/appointments/book] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Mark all notifications as read (worker)
-checkins.patch('/notifications/read-all', authMiddleware, requireRole(['worker']), async (c) => {
+// Move an appointment to another free slot (within the clinician's reschedule rules)
+checkins.patch('/appointments/:id/reschedule', authMiddleware, requireRole(['worker']), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
+    const appointmentId = c.req.param('id')
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(appointmentId)) {
+      return c.json({ error: 'Invalid appointment ID format' }, 400)
+    }
+
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch {
+      return c.json({ error: 'Invalid JSON in request body' }, 400)
+    }
+
+    const { appointment_date, appointment_time } = body
+    if (typeof appointment_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(appointment_date)) {
+      return c.json({ error: 'appointment_date is required (YYYY-MM-DD)' }, 400)
+    }
+    if (typeof appointment_time !== 'string' || !/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(appointment_time)) {
+      return c.json({ error: 'appointment_time is required (HH:MM)' }, 400)
+    }
+    const normalizedTime = appointment_time.padStart(5, '0')
+
     const adminClient = getAdminClient()
+    const { data: appointment, error: appointmentError } = await adminClient
+      .from('appointments')
+      .select('id, case_id, clinician_id, status, appointment_date, appointment_time, duration_minutes, location, worker_reschedule_count')
+      .eq('id', appointmentId)
+      .eq('worker_id', user.id)
+      .maybeSingle()
+
+    if (appointmentError || !appointment) {
+      return c.json({ error: 'Appointment not found or not authorized' }, 404)
+    }
+
+    const { data: availability, error: availabilityError } = await getClinicianAvailability(
+      appointment.clinician_id,
+      addDaysToDateString(appointment_date, -1)
+    )
+    if (availabilityError || !availability) {
+      return c.json({ error: availabilityError || 'Failed to fetch availability' }, 500)
+    }
+
+    const blocker = getWorkerRescheduleBlocker(availability.settings, appointment)
+    if (blocker) {
+      return c.json({ error: blocker }, 403)
+    }
+
+    const { data: slots, error: slotsError } = await getAvailableSlots(appointment.clinician_id, appointment_date, appointment_date, {
+      availability,
+      durationMinutes: appointment.duration_minutes,
+      excludeAppointmentId: appointment.id,
+    })
+    if (slotsError) {
+      return c.json({ error: slotsError }, 500)
+    }
+    const slot = slots.find(candidate => candidate.time === normalizedTime)
+    if (!slot) {
+      return c.json({ error: 'This time is no longer available - please pick another slot' }, 409)
+    }
 
-    const { error: updateError } = await adminClient
-      .from('notifications')
+    const { data: updatedAppointment, error: updateError } = await adminClient
+      .from('appointments')
       .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
+        appointment_date,
+        appointment_time: normalizedTime,
+        location: slot.location || appointment.location,
+        status: 'confirmed', // the worker picked the new time
+        worker_reschedule_count: (appointment.worker_reschedule_count || 0) + 1,
+        unconfirmed_flagged_at: null,
+        updated_at: new Date().toISOString(),
       })
-      .eq('user_id', user.id)
-      .eq('is_read', false) // Only update unread notifications
+      .eq('id', appointment.id)
+      .select()
+      .single()
 
-    if (updateError) {
-      console.error('[PATCH /checkins/notifications/read-all] Error:', updateError)
-      return c.json({ error: 'Failed to mark all notifications as read', details: updateError.message }, 500)
+    if (isAppointmentOverlapError(updateError)) {
+      return c.json({ error: 'This time is no longer available - please pick another slot' }, 409)
+    }
+    if (updateError || !updatedAppointment) {
+      console.error('[PATCH /checkins/appointments/:id/reschedule] Error:', updateError)
+      return c.json({ error: 'Failed to reschedule appointment', details: updateError?.message }, 500)
     }
 
-    return c.json({ message: 'All notifications marked as read' })
+    await notifyClinicianOfSelfBooking(updatedAppointment, user.id, {
+      appointment_date: appointment.appointment_date,
+      appointment_time: appointment.appointment_time,
+    })
+
+    return c.json({ appointment: updatedAppointment, message: 'Appointment rescheduled successfully' })
   } catch (error: any) {
-    console.error('[PATCH /checkins/notifications/read-all] Error:', error)
+    console.error('[PATCH /checkins/appointments/:id/reschedule] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
@@ -1,11 +1,55 @@
 import { Hono } from 'hono'
 import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
-import { getCaseStatusFromNotes, mapCaseStatusToDisplay, isValidCaseStatus } from '../utils/caseStatus.js'
-import { parseIncidentNotes } from '../utils/notesParser.js'
+import {
+  getCaseStatus,
+  getCurrentCaseStatus,
+  getAllowedTransitions,
+  mapCaseStatusToDisplay,
+  isValidCaseStatus,
+  validateCaseStatusTransition,
+} from '../utils/caseStatus.js'
+import { getCaseFields, getCaseStatusHistory, updateCaseStatus } from '../utils/cases.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { createNotifications } from '../utils/notificationHub.js'
 import { formatDateString, parseDateString } from '../utils/dateTime.js'
 import { getTodayDateString, dateToDateString } from '../utils/dateUtils.js'
 import { calculateAge } from '../utils/ageUtils.js'
+import {
+  BODY_REGIONS,
+  EXERCISE_CATEGORIES,
+  archivePlanTemplate,
+  createLibraryExercise,
+  getPlanTemplate,
+  listLibraryExercises,
+  listPlanTemplates,
+  resolveTemplateExercises,
+  savePlanTemplate,
+  updateLibraryExercise,
+  validateLibraryExerciseInput,
+  type TemplateExercise,
+} from '../utils/rehabilitationLibrary.js'
+import {
+  getDayPrescription,
+  getPhasesForPlans,
+  getPlanPhases,
+  savePlanPhases,
+  summarizeExerciseFeedback,
+  validatePhasesInput,
+  type PlanPhaseInput,
+} from '../utils/rehabilitationSchedule.js'
+import {
+  addClinicianLeave,
+  findCalendarConflicts,
+  getClinicianAvailability,
+  getClinicianTimeZones,
+  isAppointmentOverlapError,
+  removeClinicianLeave,
+  saveClinicianAvailability,
+  validateAvailabilityInput,
+  validateLeaveInput,
+} from '../utils/clinicianAvailability.js'
+import { getAppointmentStart, summarizeAttendance } from '../utils/appointmentReminders.js'
+import { formatJoinWindow, VISIT_MODES } from '../utils/telehealth.js'
 
 const clinician = new Hono<{ Variables: AuthVariables }>()
 
@@ -450,11 +494,10 @@ clinician.get('/cases', authMiddleware, requireRole(['clinician']), async (c) =>
       // Generate case number using utility function
       const caseNumber = generateCaseNumber(incident.id, incident.created_at)
 
-      // Get case_status from notes field using secure helper
-      const caseStatusFromNotes = getCaseStatusFromNotes(incident.notes)
+      const recordedStatus = getCaseStatus(incident)
 
       // Determine case status using optimized utility function
-      const caseStatus = mapCaseStatusToDisplay(caseStatusFromNotes, isInRehab, isCurrentlyActive)
+      const caseStatus = mapCaseStatusToDisplay(recordedStatus, isInRehab, isCurrentlyActive)
 
       // Determine priority
       let priority = 'MEDIUM'
@@ -490,8 +533,10 @@ clinician.get('/cases', authMiddleware, requireRole(['clinician']), async (c) =>
         priority,
         isActive: isCurrentlyActive,
         isInRehab,
-        caseStatus: caseStatusFromNotes || null, // Internal case status
+        caseStatus: recordedStatus, // Internal case status
+        allowedTransitions: getAllowedTransitions(getCurrentCaseStatus(incident), 'clinician'),
         notes: incident.notes || null,
+        ...getCaseFields(incident),
         createdAt: incident.created_at,
         updatedAt: incident.updated_at,
         return_to_work_duty_type: incident.return_to_work_duty_type || null,
@@ -518,7 +563,7 @@ clinician.get('/cases', authMiddleware, requireRole(['clinician']), async (c) =>
     // This prevents loading thousands of cases into memory
     const { data: allCases } = await adminClient
       .from('worker_exceptions')
-      .select('id, exception_type, is_active, start_date, end_date, notes')
+      .select('id, exception_type, is_active, start_date, end_date, case_status')
       .in('exception_type', ['injury', 'medical_leave', 'accident', 'other'])
       .eq('clinician_id', user.id) // Filter by clinician FIRST (uses index)
       .eq('assigned_to_whs', true)
@@ -550,16 +595,16 @@ clinician.get('/cases', authMiddleware, requireRole(['clinician']), async (c) =>
     // Process cases in single optimized loop
     for (let i = 0; i < total; i++) {
       const caseItem = casesList[i]
-      const caseStatusFromNotes = getCaseStatusFromNotes(caseItem.notes)
+      const recordedStatus = getCaseStatus(caseItem)
       
       // Fast path: Check closed status first (most common filter)
-      if (caseStatusFromNotes === 'closed' || caseStatusFromNotes === 'return_to_work') {
+      if (recordedStatus === 'closed' || recordedStatus === 'return_to_work') {
         completedCount++
         continue
       }
       
       // Check if in rehab (Set lookup is O(1))
-      const isInRehab = rehabCasesSet.has(caseItem.id) || caseStatusFromNotes === 'in_rehab'
+      const isInRehab = rehabCasesSet.has(caseItem.id) || recordedStatus === 'in_rehab'
       
       if (isInRehab) {
         inRehabCount++
@@ -691,7 +736,7 @@ clinician.get('/cases/:id', authMiddleware, requireRole(['clinician']), async (c
     const teamLeader = userMap.get(team?.team_leader_id)
     
     // Determine case status
-    const caseStatusFromNotes = getCaseStatusFromNotes(caseData.notes)
+    const recordedStatus = getCaseStatus(caseData)
     const isInRehab = !!rehabPlanResult.data
     const todayDate = new Date()
     todayDate.setHours(0, 0, 0, 0)
@@ -729,12 +774,14 @@ clinician.get('/cases/:id', authMiddleware, requireRole(['clinician']), async (c
       reason: caseData.reason || '',
       startDate: caseData.start_date,
       endDate: caseData.end_date,
-      status: mapCaseStatusToDisplay(caseStatusFromNotes, isInRehab, isCurrentlyActive),
+      status: mapCaseStatusToDisplay(recordedStatus, isInRehab, isCurrentlyActive),
       priority,
       isActive: isCurrentlyActive,
       isInRehab,
-      caseStatus: caseStatusFromNotes || null,
+      caseStatus: recordedStatus,
+      allowedTransitions: getAllowedTransitions(getCurrentCaseStatus(caseData), 'clinician'),
       notes: caseData.notes || null,
+      ...getCaseFields(caseData),
       createdAt: caseData.created_at,
       updatedAt: caseData.updated_at,
       return_to_work_duty_type: caseData.return_to_work_duty_type || null,
@@ -809,10 +856,10 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
     const workerUser = Array.isArray(exception?.users) ? exception?.users[0] : exception?.users
     const workerUserId = exception?.user_id
 
-    // Get all completions for this plan
+    // Get all completions for this plan (with the feedback the worker reported)
     const { data: completions } = await adminClient
       .from('rehabilitation_plan_completions')
-      .select('completion_date, exercise_id')
+      .select('completion_date, exercise_id, pain_before, pain_level, difficulty, note')
       .eq('plan_id', planId)
       .eq('user_id', workerUserId)
       .order('completion_date', { ascending: true })
@@ -842,6 +889,12 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
       }))
 
     const totalExercises = exercises.length
+    const exerciseIds = exercises.map((ex: any) => ex.id)
+
+    const { data: phases, error: phasesError } = await getPlanPhases(planId)
+    if (phasesError) {
+      return c.json({ error: 'Failed to fetch plan phases', details: phasesError }, 500)
+    }
 
     // Parse dates
     const startDate = parseDateString(plan.start_date)
@@ -860,6 +913,8 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
       exercisesCompleted: number
       totalExercises: number
       isFullyCompleted: boolean
+      isRestDay: boolean
+      phaseName: string | null
     }> = []
 
     let currentDay = 1
@@ -871,9 +926,11 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
       const dayDateStr = formatDateString(dayDate)
       const dayNumber = dayOffset + 1
 
+      // Only the exercises prescribed for the day count - a rest day is complete as it is
       const dayCompletions = completionsByDate.get(dayDateStr) || new Set()
-      const exercisesCompleted = dayCompletions.size
-      const allExercisesCompleted = totalExercises > 0 && exercises.every((ex: any) => dayCompletions.has(ex.id))
+      const dayPrescription = getDayPrescription(phases, exerciseIds, dayNumber)
+      const exercisesCompleted = dayPrescription.exercises.filter(ex => dayCompletions.has(ex.exercise_id)).length
+      const allExercisesCompleted = totalExercises > 0 && exercisesCompleted === dayPrescription.exercises.length
 
       let status: 'completed' | 'current' | 'pending'
       if (dayDate > today) {
@@ -892,8 +949,10 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
         date: dayDateStr,
         status,
         exercisesCompleted,
-        totalExercises,
+        totalExercises: dayPrescription.exercises.length,
         isFullyCompleted: allExercisesCompleted,
+        isRestDay: dayPrescription.isRestDay,
+        phaseName: dayPrescription.phase?.name || null,
       })
 
       // Update currentDay logic (same as in main endpoint)
@@ -953,6 +1012,20 @@ clinician.get('/rehabilitation-plans/:id/progress', authMiddleware, requireRole(
         status: plan.status,
       },
       dailyProgress,
+      exercises,
+      phases,
+      // Per-exercise feedback history (for charting) with a step up / hold / back off suggestion
+      exerciseFeedback: summarizeExerciseFeedback(
+        (completions || []).map((completion: any) => ({
+          exercise_id: completion.exercise_id,
+          completion_date: String(completion.completion_date).split('T')[0],
+          pain_before: completion.pain_before,
+          pain_level: completion.pain_level,
+          difficulty: completion.difficulty,
+          note: completion.note,
+        })),
+        exerciseIds
+      ),
     })
   } catch (error: any) {
     console.error('[GET /clinician/rehabilitation-plans/:id/progress] Error:', error)
@@ -1005,6 +1078,12 @@ clinician.get('/rehabilitation-plans', authMiddleware, requireRole(['clinician']
       `)
       .eq('clinician_id', user.id) // SECURITY: Only show plans assigned to this clinician
 
+    // Plans of one case (e.g. the case detail view)
+    const exceptionId = c.req.query('exception_id')
+    if (exceptionId) {
+      query = query.eq('exception_id', exceptionId)
+    }
+
     if (status === 'active') {
       query = query.eq('status', 'active')
     } else if (status === 'completed') {
@@ -1075,6 +1154,12 @@ clinician.get('/rehabilitation-plans', authMiddleware, requireRole(['clinician']
       }
     }
 
+    // Phased plans only count the exercises prescribed for each day
+    const { data: phasesByPlanId, error: phasesError } = await getPhasesForPlans(planIds)
+    if (phasesError) {
+      return c.json({ error: 'Failed to fetch rehabilitation plans', details: phasesError }, 500)
+    }
+
     // Format plans (no await needed inside map)
     const plansArray = Array.isArray(plans) ? plans : []
     const formattedPlans = plansArray.map((plan: any) => {
@@ -1100,6 +1185,8 @@ clinician.get('/rehabilitation-plans', authMiddleware, requireRole(['clinician']
       // Get completions for this plan from the pre-fetched map
       // Since each plan is for one exception (one worker), we can use all completions for the plan
       const completionsByDate = completionsByPlanId.get(plan.id) || new Map()
+      const phases = phasesByPlanId.get(plan.id) || []
+      const exerciseIds = exercises.map((ex: any) => ex.id)
 
       // Calculate progress based on actual completions
       // Parse dates using utility function to avoid timezone issues
@@ -1152,7 +1239,7 @@ clinician.get('/rehabilitation-plans', authMiddleware, requireRole(['clinician']
         }
         
         const allExercisesCompleted = exercises.length > 0 && 
-          exercises.every((ex: any) => dayCompletions.has(ex.id))
+          getDayPrescription(phases, exerciseIds, dayNumber).exercises.every(ex => dayCompletions.has(ex.exercise_id))
         
         if (allExercisesCompleted) {
           daysCompleted++
@@ -1218,7 +1305,143 @@ clinician.get('/rehabilitation-plans', authMiddleware, requireRole(['clinician']
   }
 })
 
+// Plan dates from an optional start_date (defaults to today) and duration_days
+// End date = start_date + (duration_days - 1) because start_date is Day 1
+const resolvePlanDates = (
+  start_date: any,
+  duration_days: any
+): { error?: string; startDateStr?: string; endDateStr?: string } => {
+  let startDate: Date
+
+  if (start_date && typeof start_date === 'string') {
+    const validation = validateDateInput(start_date)
+    if (!validation.valid || !validation.date) {
+      return { error: validation.error || 'Invalid start_date' }
+    }
+    startDate = validation.date
+    debugLog(`Using provided start_date: ${start_date} -> ${formatDateString(startDate)}`)
+  } else {
+    // Default to today if not provided
+    const now = new Date()
+    startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    startDate.setHours(0, 0, 0, 0)
+    debugLog(`No start_date provided, defaulting to today: ${formatDateString(startDate)}`)
+  }
+
+  const duration = parseInt(String(duration_days))
+  if (isNaN(duration) || duration < 1 || duration > 365) {
+    return { error: 'duration_days must be between 1 and 365' }
+  }
+
+  const endDate = new Date(startDate)
+  endDate.setDate(endDate.getDate() + duration - 1)
+  return { startDateStr: formatDateString(startDate), endDateStr: formatDateString(endDate) }
+}
+
+// Create a plan, its exercises and optional phases for a case assigned to the clinician
+// Exercises and phases are inserted after the plan; the plan is deleted again if that fails
+const createRehabilitationPlan = async (
+  clinicianId: string,
+  input: {
+    exception_id: string
+    plan_name: string
+    plan_description: string
+    start_date: string
+    end_date: string
+    exercises: TemplateExercise[]
+    template_id?: string | null
+    phases?: PlanPhaseInput[]
+  }
+): Promise<{ plan?: any; error?: string; details?: string; status: 201 | 400 | 403 | 404 | 500 }> => {
+  const adminClient = getAdminClient()
+
+  // SECURITY: Check if exception exists AND belongs to this clinician
+  const { data: exception, error: exceptionError } = await adminClient
+    .from('worker_exceptions')
+    .select('id, clinician_id')
+    .eq('id', input.exception_id)
+    .single()
+
+  if (exceptionError || !exception) {
+    return { error: 'Exception not found', status: 404 }
+  }
+
+  // SECURITY: Ensure clinician can only create plans for their assigned cases
+  if (exception.clinician_id !== clinicianId) {
+    console.error(`[createRehabilitationPlan] SECURITY: User ${clinicianId} attempted to create plan for exception ${input.exception_id} assigned to clinician ${exception.clinician_id}`)
+    return { error: 'Forbidden: You can only create plans for cases assigned to you', status: 403 }
+  }
+
+  // Check if plan already exists for this exception
+  const { data: existingPlan } = await adminClient
+    .from('rehabilitation_plans')
+    .select('id')
+    .eq('exception_id', input.exception_id)
+    .eq('status', 'active')
+    .single()
+
+  if (existingPlan) {
+    return { error: 'Active rehabilitation plan already exists for this case', status: 400 }
+  }
+
+  const { data: plan, error: planError } = await adminClient
+    .from('rehabilitation_plans')
+    .insert({
+      exception_id: input.exception_id,
+      clinician_id: clinicianId,
+      plan_name: input.plan_name,
+      plan_description: input.plan_description || 'Daily recovery exercises and activities',
+      start_date: input.start_date,
+      end_date: input.end_date,
+      status: 'active',
+      notes: null,
+      template_id: input.template_id || null,
+    })
+    .select()
+    .single()
+
+  if (planError) {
+    console.error('[createRehabilitationPlan] Error:', planError)
+    return { error: 'Failed to create rehabilitation plan', details: planError.message, status: 500 }
+  }
+
+  const { data: insertedExercises, error: exercisesError } = await adminClient
+    .from('rehabilitation_exercises')
+    .insert(input.exercises.map(exercise => ({ ...exercise, plan_id: plan.id })))
+    .select()
+
+  if (exercisesError) {
+    console.error('[createRehabilitationPlan] Error inserting exercises:', exercisesError)
+    // Rollback: delete the plan if exercises fail
+    await adminClient
+      .from('rehabilitation_plans')
+      .delete()
+      .eq('id', plan.id)
+    return { error: 'Failed to create exercises', details: exercisesError.message, status: 500 }
+  }
+
+  let phases: any[] = []
+  if (input.phases && input.phases.length > 0) {
+    const exerciseIds = [...(insertedExercises || [])]
+      .sort((a: any, b: any) => a.exercise_order - b.exercise_order)
+      .map((exercise: any) => exercise.id)
+    const { data: savedPhases, error: phasesError } = await savePlanPhases(plan.id, input.phases, exerciseIds)
+    if (phasesError) {
+      await adminClient
+        .from('rehabilitation_plans')
+        .delete()
+        .eq('id', plan.id)
+      return { error: phasesError, status: 500 }
+    }
+    phases = savedPhases
+  }
+
+  return { plan: { ...plan, exercises: insertedExercises, phases }, status: 201 }
+}
+
 // Create rehabilitation plan
+// Exercises may reference the exercise library (library_exercise_id) - empty fields are filled from it
+// Optional phases prescribe exercises by position (exercise_index) - see utils/rehabilitationSchedule.ts
 clinician.post('/rehabilitation-plans', authMiddleware, requireRole(['clinician']), async (c) => {
   try {
     const user = c.get('user')
@@ -1232,7 +1455,8 @@ clinician.post('/rehabilitation-plans', authMiddleware, requireRole(['clinician'
       plan_description, 
       duration_days,
       start_date, // Optional: if not provided, defaults to today
-      exercises 
+      exercises,
+      phases,
     } = await c.req.json()
 
     // Validate required fields
@@ -1245,142 +1469,101 @@ clinician.post('/rehabilitation-plans', authMiddleware, requireRole(['clinician'
       return c.json({ error: 'plan_name is required' }, 400)
     }
 
-    if (!exercises || !Array.isArray(exercises) || exercises.length === 0) {
-      return c.json({ error: 'At least one exercise is required' }, 400)
-    }
-
-    // Validate exercises with sanitization
-    const maxExercises = 50 // Prevent excessive exercises
-    if (exercises.length > maxExercises) {
-      return c.json({ error: `Maximum ${maxExercises} exercises allowed` }, 400)
-    }
-    
-    for (let i = 0; i < exercises.length; i++) {
-      const exercise = exercises[i]
-      const exerciseName = sanitizeString(exercise?.exercise_name, 255)
-      if (!exerciseName) {
-        return c.json({ error: `Exercise ${i + 1}: exercise_name is required` }, 400)
-      }
+    const { data: planExercises, error: exercisesError } = await resolveTemplateExercises(exercises)
+    if (exercisesError) {
+      return c.json({ error: exercisesError }, 400)
     }
 
-    // Validate and parse start_date
-    let startDate: Date
-    let startDateStr: string
-    
-    if (start_date && typeof start_date === 'string') {
-      const validation = validateDateInput(start_date)
-      if (!validation.valid || !validation.date) {
-        return c.json({ error: validation.error || 'Invalid start_date' }, 400)
-      }
-      startDate = validation.date
-      startDateStr = formatDateString(startDate)
-      debugLog(`Using provided start_date: ${start_date} -> ${startDateStr}`)
-    } else {
-      // Default to today if not provided
-      const now = new Date()
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-      startDate.setHours(0, 0, 0, 0)
-      startDateStr = formatDateString(startDate)
-      debugLog(`No start_date provided, defaulting to today: ${startDateStr}`)
+    const dates = resolvePlanDates(start_date, duration_days)
+    if (dates.error) {
+      return c.json({ error: dates.error }, 400)
     }
     
-    // Validate duration_days
-    const duration = parseInt(String(duration_days))
-    if (isNaN(duration) || duration < 1 || duration > 365) {
-      return c.json({ error: 'duration_days must be between 1 and 365' }, 400)
+    const { data: planPhases, error: phasesError } = validatePhasesInput(phases, parseInt(String(duration_days)), planExercises.length)
+    if (phasesError) {
+      return c.json({ error: phasesError }, 400)
     }
     
-    // End date = start_date + (duration_days - 1) because start_date is Day 1
-    const endDate = new Date(startDate)
-    endDate.setDate(endDate.getDate() + duration - 1)
-    const endDateStr = formatDateString(endDate)
-    
-    debugLog(`Creating plan: startDate=${startDateStr}, endDate=${endDateStr}, duration=${duration}`)
-
-    const adminClient = getAdminClient()
-
-    // SECURITY: Check if exception exists AND belongs to this clinician
-    const { data: exception, error: exceptionError } = await adminClient
-      .from('worker_exceptions')
-      .select('id, clinician_id')
-      .eq('id', exception_id)
-      .single()
+    debugLog(`Creating plan: startDate=${dates.startDateStr}, endDate=${dates.endDateStr}, phases=${planPhases.length}`)
+
+    const result = await createRehabilitationPlan(user.id, {
+      exception_id,
+      plan_name: sanitizedPlanName,
+      plan_description: sanitizeString(plan_description, 2000),
+      start_date: dates.startDateStr!,
+      end_date: dates.endDateStr!,
+      exercises: planExercises,
+      phases: planPhases,
+    })
 
-    if (exceptionError || !exception) {
-      return c.json({ error: 'Exception not found' }, 404)
+    if (result.error) {
+      return c.json({ error: result.error, ...(result.details ? { details: result.details } : {}) }, result.status)
     }
 
-    // SECURITY: Ensure clinician can only create plans for their assigned cases
-    if (exception.clinician_id !== user.id) {
-      console.error(`[POST /clinician/rehabilitation-plans] SECURITY: User ${user.id} attempted to create plan for exception ${exception_id} assigned to clinician ${exception.clinician_id}`)
-      return c.json({ error: 'Forbidden: You can only create plans for cases assigned to you' }, 403)
+    return c.json({ 
+      plan: result.plan, 
+      message: 'Rehabilitation plan created successfully' 
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /clinician/rehabilitation-plans] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Create a rehabilitation plan from a template version in one call
+// Body: { template_id, exception_id, start_date?, duration_days? (defaults to the template's) }
+clinician.post('/rehabilitation-plans/from-template', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    // Check if plan already exists for this exception
-    const { data: existingPlan } = await adminClient
-      .from('rehabilitation_plans')
-      .select('id')
-      .eq('exception_id', exception_id)
-      .eq('status', 'active')
-      .single()
+    const { template_id, exception_id, start_date, duration_days } = await c.req.json()
 
-    if (existingPlan) {
-      return c.json({ error: 'Active rehabilitation plan already exists for this case' }, 400)
+    if (!exception_id || typeof exception_id !== 'string') {
+      return c.json({ error: 'exception_id is required and must be a string' }, 400)
+    }
+    if (!template_id || typeof template_id !== 'string') {
+      return c.json({ error: 'template_id is required and must be a string' }, 400)
     }
 
-    // Create plan with sanitized inputs
-    const sanitizedDescription = sanitizeString(plan_description, 2000)
-    const { data: plan, error: planError } = await adminClient
-      .from('rehabilitation_plans')
-      .insert({
-        exception_id,
-        clinician_id: user.id,
-        plan_name: sanitizedPlanName,
-        plan_description: sanitizedDescription || 'Daily recovery exercises and activities',
-        start_date: startDateStr,
-        end_date: endDateStr,
-        status: 'active',
-        notes: null,
-      })
-      .select()
-      .single()
-
-    if (planError) {
-      console.error('[POST /clinician/rehabilitation-plans] Error:', planError)
-      return c.json({ error: 'Failed to create rehabilitation plan', details: planError.message }, 500)
+    const { data: template, error: templateError } = await getPlanTemplate(template_id)
+    if (templateError) {
+      return c.json({ error: 'Failed to fetch template', details: templateError }, 500)
+    }
+    if (!template || template.is_archived) {
+      return c.json({ error: 'Template not found' }, 404)
+    }
+    if (!template.exercises || template.exercises.length === 0) {
+      return c.json({ error: 'Template has no exercises' }, 400)
     }
 
-    // Create exercises with sanitized inputs
-    const exercisesToInsert = exercises.map((exercise: any, index: number) => ({
-      plan_id: plan.id,
-      exercise_name: sanitizeString(exercise.exercise_name, 255),
-      repetitions: sanitizeString(exercise.repetitions, 100) || null,
-      instructions: sanitizeString(exercise.instructions, 5000) || null,
-      video_url: sanitizeString(exercise.video_url, 500) || null,
-      exercise_order: index,
-    }))
+    const dates = resolvePlanDates(start_date, duration_days ?? template.duration_days)
+    if (dates.error) {
+      return c.json({ error: dates.error }, 400)
+    }
 
-    const { data: insertedExercises, error: exercisesError } = await adminClient
-      .from('rehabilitation_exercises')
-      .insert(exercisesToInsert)
-      .select()
+    const result = await createRehabilitationPlan(user.id, {
+      exception_id,
+      plan_name: template.name,
+      plan_description: template.description || '',
+      start_date: dates.startDateStr!,
+      end_date: dates.endDateStr!,
+      exercises: template.exercises,
+      template_id: template.id,
+    })
 
-    if (exercisesError) {
-      console.error('[POST /clinician/rehabilitation-plans] Error inserting exercises:', exercisesError)
-      // Rollback: delete the plan if exercises fail
-      await adminClient
-        .from('rehabilitation_plans')
-        .delete()
-        .eq('id', plan.id)
-      return c.json({ error: 'Failed to create exercises', details: exercisesError.message }, 500)
+    if (result.error) {
+      return c.json({ error: result.error, ...(result.details ? { details: result.details } : {}) }, result.status)
     }
 
     return c.json({ 
-      plan: { ...plan, exercises: insertedExercises }, 
-      message: 'Rehabilitation plan created successfully' 
+      plan: result.plan, 
+      message: `Rehabilitation plan created from "${template.name}" (v${template.version})` 
     }, 201)
   } catch (error: any) {
-    console.error('[POST /clinician/rehabilitation-plans] Error:', error)
+    console.error('[POST /clinician/rehabilitation-plans/from-template] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
@@ -1479,6 +1662,134 @@ clinician.patch('/rehabilitation-plans/:id', authMiddleware, requireRole(['clini
   }
 })
 
+// Replace the phases of an active plan (e.g. step a prescription up or back off after feedback)
+// Completions are kept; an empty phases array turns the plan back into "every exercise, every day"
+clinician.put('/rehabilitation-plans/:id/phases', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const planId = c.req.param('id')
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(planId)) {
+      return c.json({ error: 'Invalid plan ID format' }, 400)
+    }
+
+    const { phases } = await c.req.json()
+    if (!Array.isArray(phases)) {
+      return c.json({ error: 'phases must be an array' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    // SECURITY: Verify plan exists AND belongs to this clinician
+    const { data: plan, error: planError } = await adminClient
+      .from('rehabilitation_plans')
+      .select('id, clinician_id, status, start_date, end_date, rehabilitation_exercises(id, exercise_order)')
+      .eq('id', planId)
+      .single()
+
+    if (planError || !plan) {
+      return c.json({ error: 'Rehabilitation plan not found' }, 404)
+    }
+
+    if (plan.clinician_id !== user.id) {
+      console.error(`[PUT /clinician/rehabilitation-plans/:id/phases] SECURITY: User ${user.id} attempted to update plan ${planId} owned by ${plan.clinician_id}`)
+      return c.json({ error: 'Forbidden: You can only update your own rehabilitation plans' }, 403)
+    }
+
+    if (plan.status !== 'active') {
+      return c.json({ error: 'Only active plans can be changed' }, 400)
+    }
+
+    const exerciseIds = (plan.rehabilitation_exercises || [])
+      .sort((a: any, b: any) => a.exercise_order - b.exercise_order)
+      .map((exercise: any) => exercise.id)
+    const totalDays = Math.ceil((parseDateString(plan.end_date).getTime() - parseDateString(plan.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1
+
+    const { data: planPhases, error: validationError } = validatePhasesInput(phases, totalDays, exerciseIds.length)
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+
+    const { data: savedPhases, error } = await savePlanPhases(planId, planPhases, exerciseIds)
+    if (error) {
+      return c.json({ error }, 500)
+    }
+
+    return c.json({ phases: savedPhases, message: 'Plan schedule updated' })
+  } catch (error: any) {
+    console.error('[PUT /clinician/rehabilitation-plans/:id/phases] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Get case status history (audit trail)
+clinician.get('/cases/:id/history', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const caseId = c.req.param('id')
+    if (!caseId || typeof caseId !== 'string' || caseId.length > 36) {
+      return c.json({ error: 'Invalid case ID format' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    // SECURITY: Only the assigned clinician can read the history
+    const { data: caseItem } = await adminClient
+      .from('worker_exceptions')
+      .select('id')
+      .eq('id', caseId)
+      .eq('clinician_id', user.id)
+      .maybeSingle()
+
+    if (!caseItem) {
+      return c.json({ error: 'Case not found or not assigned to you' }, 404)
+    }
+
+    const [{ data: history, error }, { data: appointments, error: appointmentsError }] = await Promise.all([
+      getCaseStatusHistory(caseId),
+      adminClient
+        .from('appointments')
+        .select('id, appointment_date, appointment_time, appointment_type, status, updated_at')
+        .eq('case_id', caseId)
+        .order('appointment_date', { ascending: false })
+        .order('appointment_time', { ascending: false }),
+    ])
+    if (error) {
+      console.error('[GET /clinician/cases/:id/history] Error:', error)
+      return c.json({ error: 'Failed to fetch case history', details: error.message }, 500)
+    }
+    if (appointmentsError) {
+      console.error('[GET /clinician/cases/:id/history] Error fetching appointments:', appointmentsError)
+    }
+
+    // Appointment outcomes for the timeline (attended / no-show)
+    return c.json({
+      history,
+      appointments: (appointments || []).map((apt: any) => ({
+        id: apt.id,
+        appointmentDate: apt.appointment_date,
+        appointmentTime: apt.appointment_time,
+        appointmentType: apt.appointment_type,
+        status: apt.status,
+        updatedAt: apt.updated_at,
+      })),
+      attendance: summarizeAttendance(appointments || []),
+    })
+  } catch (error: any) {
+    console.error('[GET /clinician/cases/:id/history] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 // Update case status
 clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']), async (c) => {
   try {
@@ -1488,7 +1799,7 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
     }
 
     const caseId = c.req.param('id')
-    const { status, return_to_work_duty_type, return_to_work_date } = await c.req.json()
+    const { status, return_to_work_duty_type, return_to_work_date, reason } = await c.req.json()
 
     // SECURITY: Validate case ID format (UUID)
     if (!caseId || typeof caseId !== 'string' || caseId.length > 36) {
@@ -1500,6 +1811,10 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
       return c.json({ error: 'Return to work fields can only be set when status is return_to_work' }, 400)
     }
 
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return c.json({ error: 'Reason must be a string' }, 400)
+    }
+
     // Security: Validate status using centralized utility
     if (!status || !isValidCaseStatus(status)) {
       return c.json({ 
@@ -1509,10 +1824,10 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
 
     const adminClient = getAdminClient()
 
-    // OPTIMIZATION: Single query to get case with notes (reduces database round trips)
+    // OPTIMIZATION: Single query to get case with its current status (reduces database round trips)
     const { data: caseItem, error: caseError } = await adminClient
       .from('worker_exceptions')
-      .select('id, clinician_id, is_active, start_date, end_date, notes, return_to_work_duty_type, return_to_work_date')
+      .select('id, clinician_id, is_active, start_date, end_date, case_status, return_to_work_duty_type, return_to_work_date')
       .eq('id', caseId)
       .eq('clinician_id', user.id)
       .single()
@@ -1521,6 +1836,19 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
       return c.json({ error: 'Case not found or not assigned to you' }, 404)
     }
 
+    const recordedStatus = getCaseStatus(caseItem)
+    const sanitizedReason = reason ? sanitizeString(reason, 1000) : null
+
+    // BUSINESS RULE: Only moves in the transition table, by the roles and with the fields it lists
+    const transitionCheck = validateCaseStatusTransition(getCurrentCaseStatus(caseItem), status, user.role, {
+      return_to_work_duty_type,
+      return_to_work_date,
+      reason: sanitizedReason,
+    })
+    if (!transitionCheck.valid) {
+      return c.json({ error: transitionCheck.error }, transitionCheck.httpStatus || 400)
+    }
+
     // BUSINESS RULE: Check for active rehabilitation plans before allowing return_to_work or closed
     if (status === 'return_to_work' || status === 'closed') {
       const { data: activePlans, error: plansError } = await adminClient
@@ -1547,49 +1875,9 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
     // Only fetch from DB if we need additional user fields not in auth context
     const clinicianName = formatUserName(user)
 
-    // OPTIMIZATION: Use centralized notes parser
-    const parsedNotes = parseIncidentNotes(caseItem.notes)
-    let notesData: any = parsedNotes || {}
-    
-    // Preserve original notes if not JSON
-    if (caseItem.notes && !parsedNotes) {
-      notesData = { original_notes: caseItem.notes }
-    }
-    
-    // BUSINESS RULE: If case is already "return_to_work", prevent changing back to earlier statuses
-    const currentCaseStatus = notesData?.case_status?.toLowerCase() || 
-                             (caseItem.return_to_work_duty_type ? 'return_to_work' : null)
-    
-    if (currentCaseStatus === 'return_to_work') {
-      // Only allow changing to "closed" or keeping as "return_to_work"
-      const restrictedStatuses = ['new', 'triaged', 'assessed', 'in_rehab']
-      if (restrictedStatuses.includes(status.toLowerCase())) {
-        return c.json({ 
-          error: 'Cannot change status back to earlier stages once case is set to "Return to Work"',
-          details: 'Once a case has been marked as "Return to Work", it can only be changed to "Closed" or remain as "Return to Work".'
-        }, 400)
-      }
-    }
-
-    // Prepare updates based on status
+    // Prepare updates based on status (case_status and approval columns are set by updateCaseStatus)
     const now = new Date()
-    const updates: any = {
-      updated_at: now.toISOString(),
-    }
-    
-    // Update case_status in notes
-    const timestamp = now.toISOString()
-    notesData.case_status = status
-    notesData.case_status_updated_at = timestamp
-    
-    // If case is being closed, store approval information
-    if (status === 'closed' || status === 'return_to_work') {
-      notesData.approved_by = clinicianName
-      notesData.approved_by_id = user.id
-      notesData.approved_at = timestamp
-    }
-    
-    updates.notes = JSON.stringify(notesData)
+    const updates: any = {}
 
     // OPTIMIZATION: Pre-calculate date string once
     const todayDateStr = dateToDateString(now)
@@ -1606,12 +1894,12 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
       updates.is_active = false
       updates.end_date = todayDateStr
       
-      // SECURITY: Validate and set return to work fields
-      if (!return_to_work_duty_type || typeof return_to_work_duty_type !== 'string') {
+      // SECURITY: Validate and set return to work fields (presence checked by the transition table)
+      if (typeof return_to_work_duty_type !== 'string') {
         return c.json({ error: 'Return to work requires duty type' }, 400)
       }
       
-      if (!return_to_work_date || typeof return_to_work_date !== 'string') {
+      if (typeof return_to_work_date !== 'string') {
         return c.json({ error: 'Return to work requires return date' }, 400)
       }
       
@@ -1648,18 +1936,24 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
       updates.is_active = true
     }
 
-    const { data: updatedCase, error: updateError } = await adminClient
-      .from('worker_exceptions')
-      .update(updates)
-      .eq('id', caseId)
-      .select()
-      .single()
+    const { data: updatedCase, conflict, error: updateError } = await updateCaseStatus({
+      caseId,
+      fromStatus: recordedStatus,
+      toStatus: status,
+      changedBy: { id: user.id, name: clinicianName, role: user.role },
+      reason: sanitizedReason,
+      updates,
+    })
 
     if (updateError) {
       console.error('[PATCH /clinician/cases/:id/status] Error:', updateError)
       return c.json({ error: 'Failed to update case status', details: updateError.message }, 500)
     }
 
+    if (conflict) {
+      return c.json({ error: 'Case status was changed by someone else. Please refresh and try again.' }, 409)
+    }
+
     // OPTIMIZATION: Create notifications when case is closed/returned to work
     if (status === 'closed' || status === 'return_to_work') {
       try {
@@ -1670,6 +1964,7 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
               id,
               created_at,
               user_id,
+              organization_id,
               users!worker_exceptions_user_id_fkey(
                 id,
                 email,
@@ -1720,7 +2015,7 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
                 status_label: statusLabel,
                 approved_by: clinicianName,
                 approved_by_id: user.id,
-                approved_at: timestamp,
+                approved_at: updatedCase.approved_at,
                 clinician_id: user.id,
                 clinician_name: clinicianName,
                 ...(status === 'return_to_work' && {
@@ -1735,10 +2030,14 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
 
         // OPTIMIZATION: Batch fetch all users in parallel
         const [whsUsersResult, supervisorResult, teamLeaderResult] = await Promise.all([
-          adminClient
-              .from('users')
-            .select('id')
-            .eq('role', 'whs_control_center'),
+          // Only the case's own organization's WHS staff
+          caseDetails.organization_id
+            ? adminClient
+                .from('users')
+                .select('id')
+                .eq('role', 'whs_control_center')
+                .eq('organization_id', caseDetails.organization_id)
+            : Promise.resolve({ data: [] as any[] }),
           team?.supervisor_id
             ? adminClient
                 .from('users')
@@ -1816,9 +2115,7 @@ clinician.patch('/cases/:id/status', authMiddleware, requireRole(['clinician']),
 
         // OPTIMIZATION: Insert all notifications in a single batch
         if (allNotifications.length > 0) {
-          const { error: notifyError } = await adminClient
-                .from('notifications')
-            .insert(allNotifications)
+          const { error: notifyError } = await createNotifications(allNotifications)
 
           if (notifyError) {
             console.error('[PATCH /clinician/cases/:id/status] Error creating notifications:', notifyError)
@@ -1869,48 +2166,30 @@ clinician.post('/cases/:id/notes', authMiddleware, requireRole(['clinician']), a
 
     const adminClient = getAdminClient()
 
-    // Verify case exists and belongs to this clinician
-    const { data: caseItem, error: caseError } = await adminClient
-      .from('worker_exceptions')
-      .select('id, clinician_id, notes')
-      .eq('id', caseId)
-      .eq('clinician_id', user.id)
-      .single()
-
-    if (caseError || !caseItem) {
-      return c.json({ error: 'Case not found or not assigned to you' }, 404)
-    }
-
-    // OPTIMIZATION: Use centralized notes parser
-    const parsedNotes = parseIncidentNotes(caseItem.notes)
-    let notesData: any = parsedNotes || {}
-    
-    // Preserve original notes if not JSON
-    if (caseItem.notes && !parsedNotes) {
-      notesData = { original_notes: caseItem.notes, clinical_notes: sanitizedNotes }
-    }
-
-    // Update clinical notes
-    notesData.clinical_notes = sanitizedNotes
-    notesData.clinical_notes_updated_at = new Date().toISOString()
-    notesData.clinical_notes_updated_by = user.id
-
-    // Update case with new notes
+    // Update clinical notes (only if the case belongs to this clinician)
+    const now = new Date().toISOString()
     const { data: updatedCase, error: updateError } = await adminClient
       .from('worker_exceptions')
       .update({
-        notes: JSON.stringify(notesData),
-        updated_at: new Date().toISOString(),
+        clinical_notes: sanitizedNotes,
+        clinical_notes_updated_at: now,
+        clinical_notes_updated_by: user.id,
+        updated_at: now,
       })
       .eq('id', caseId)
+      .eq('clinician_id', user.id)
       .select()
-      .single()
+      .maybeSingle()
 
     if (updateError) {
       console.error('[POST /clinician/cases/:id/notes] Error:', updateError)
       return c.json({ error: 'Failed to update notes', details: updateError.message }, 500)
     }
 
+    if (!updatedCase) {
+      return c.json({ error: 'Case not found or not assigned to you' }, 404)
+    }
+
     return c.json({
       case: updatedCase,
       message: 'Notes updated successfully'
@@ -1921,141 +2200,6 @@ clinician.post('/cases/:id/notes', authMiddleware, requireRole(['clinician']), a
   }
 })
 
-// Get notifications for clinician
-clinician.get('/notifications', authMiddleware, requireRole(['clinician']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200)
-    const unreadOnly = c.req.query('unread_only') === 'true'
-
-    const adminClient = getAdminClient()
-
-    let query = adminClient
-      .from('notifications')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(limit)
-
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
-    }
-
-    const { data: notifications, error } = await query
-
-    if (error) {
-      console.error('[GET /clinician/notifications] Error:', error)
-      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
-    }
-
-    const { count: unreadCount, error: countError } = await adminClient
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false)
-
-    if (countError) {
-      console.error('[GET /clinician/notifications] Error counting unread:', countError)
-    }
-
-    return c.json({
-      notifications: notifications || [],
-      unreadCount: unreadCount || 0,
-    })
-  } catch (error: any) {
-    console.error('[GET /clinician/notifications] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark notification as read
-clinician.patch('/notifications/:notificationId/read', authMiddleware, requireRole(['clinician']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const notificationId = c.req.param('notificationId')
-    const adminClient = getAdminClient()
-
-    const { data: notification, error: fetchError } = await adminClient
-      .from('notifications')
-      .select('id, user_id, is_read')
-      .eq('id', notificationId)
-      .eq('user_id', user.id)
-      .single()
-
-    if (fetchError || !notification) {
-      return c.json({ error: 'Notification not found' }, 404)
-    }
-
-    if (notification.is_read) {
-      return c.json({ message: 'Notification already read' })
-    }
-
-    const { data: updated, error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('id', notificationId)
-      .eq('user_id', user.id)
-      .select()
-      .single()
-
-    if (updateError) {
-      console.error('[PATCH /clinician/notifications/:id/read] Error:', updateError)
-      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
-    }
-
-    return c.json({ notification: updated })
-  } catch (error: any) {
-    console.error('[PATCH /clinician/notifications/:id/read] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark all notifications as read
-clinician.patch('/notifications/read-all', authMiddleware, requireRole(['clinician']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const adminClient = getAdminClient()
-
-    const { data: updated, error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('user_id', user.id)
-      .eq('is_read', false)
-      .select()
-
-    if (updateError) {
-      console.error('[PATCH /clinician/notifications/read-all] Error:', updateError)
-      return c.json({ error: 'Failed to mark notifications as read', details: updateError.message }, 500)
-    }
-
-    return c.json({ 
-      message: 'All notifications marked as read',
-      count: updated?.length || 0,
-    })
-  } catch (error: any) {
-    console.error('[PATCH /clinician/notifications/read-all] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
 // Get appointments for clinician
 clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async (c) => {
   try {
@@ -2165,6 +2309,10 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
     // Log appointment count (no sensitive data)
     debugLog(`[GET /clinician/appointments] Found ${appointments?.length || 0} appointments`)
 
+    // Join windows are in the clinician's booking timezone
+    const timeZones = await getClinicianTimeZones([user.id])
+    const timeZone = timeZones.get(user.id)!
+
     // Format appointments
     let formattedAppointments = (appointments || []).map((apt: any) => {
       const exception = apt.worker_exceptions
@@ -2189,6 +2337,13 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
         location: apt.location || '',
         notes: apt.notes || '',
         cancellationReason: apt.cancellation_reason || '',
+        bookedBy: apt.booked_by || 'clinician',
+        workerRescheduleCount: apt.worker_reschedule_count || 0,
+        unconfirmedFlaggedAt: apt.unconfirmed_flagged_at || null,
+        visitMode: apt.visit_mode || 'in_person',
+        joinWindow: formatJoinWindow(apt, timeZone),
+        sessionStartedAt: apt.session_started_at || null,
+        sessionEndedAt: apt.session_ended_at || null,
         createdAt: apt.created_at,
         updatedAt: apt.updated_at,
       }
@@ -2215,6 +2370,7 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
     let weekAppointments = 0
     let completedThisMonth = 0
     let cancelledThisMonth = 0
+    let noShowsThisMonth = 0
     let confirmedCount = 0
     let pendingCount = 0
     let declinedCount = 0
@@ -2231,6 +2387,7 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
       if (apt.appointmentDate?.substring(0, 7) === currentMonth) {
         if (apt.status === 'completed') completedThisMonth++
         if (apt.status === 'cancelled') cancelledThisMonth++
+        if (apt.status === 'no_show') noShowsThisMonth++
       }
       
       // Status-based counts
@@ -2246,6 +2403,7 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
         thisWeek: weekAppointments,
         completedThisMonth,
         cancelledThisMonth,
+        noShowsThisMonth,
         confirmed: confirmedCount,
         pending: pendingCount,
         declined: declinedCount,
@@ -2260,7 +2418,62 @@ clinician.get('/appointments', authMiddleware, requireRole(['clinician']), async
       },
     })
   } catch (error: any) {
-    console.error('[GET /clinician/appointments] Error:', error)
+    console.error('[GET /clinician/appointments] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Get attended / no-show appointment outcomes (analytics)
+clinician.get('/appointments/outcomes', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: appointments, error } = await adminClient
+      .from('appointments')
+      .select(`
+        id,
+        case_id,
+        worker_id,
+        appointment_date,
+        status,
+        users!appointments_worker_id_fkey(
+          id,
+          email,
+          first_name,
+          last_name,
+          full_name
+        )
+      `)
+      .eq('clinician_id', user.id)
+      .in('status', ['completed', 'no_show'])
+      .order('appointment_date', { ascending: false })
+      .limit(2000)
+
+    if (error) {
+      console.error('[GET /clinician/appointments/outcomes] Error:', error)
+      return c.json({ error: 'Failed to fetch appointment outcomes', details: error.message }, 500)
+    }
+
+    return c.json({
+      outcomes: (appointments || []).map((apt: any) => {
+        const worker = Array.isArray(apt.users) ? apt.users[0] : apt.users
+        return {
+          id: apt.id,
+          caseId: apt.case_id,
+          workerId: apt.worker_id,
+          workerName: formatUserName(worker),
+          appointmentDate: apt.appointment_date,
+          status: apt.status,
+        }
+      }),
+      summary: summarizeAttendance(appointments || []),
+    })
+  } catch (error: any) {
+    console.error('[GET /clinician/appointments/outcomes] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
@@ -2279,6 +2492,7 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
       appointment_time,
       duration_minutes = 30,
       appointment_type = 'consultation',
+      visit_mode = 'in_person',
       location,
       notes,
     } = await c.req.json()
@@ -2321,6 +2535,10 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
       return c.json({ error: `appointment_type must be one of: ${validTypes.join(', ')}` }, 400)
     }
 
+    if (!VISIT_MODES.includes(visit_mode)) {
+      return c.json({ error: `visit_mode must be one of: ${VISIT_MODES.join(', ')}` }, 400)
+    }
+
     const adminClient = getAdminClient()
 
     // Verify case exists and is assigned to this clinician
@@ -2335,37 +2553,18 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
       return c.json({ error: 'Case not found or not assigned to you' }, 404)
     }
 
-    // Check for conflicting appointments (same date/time)
+    // Check the whole calendar - appointments (incl. ones running past midnight), breaks and leave
     const appointmentDateStr = formatDateString(dateValidation.date!)
-    const [hour, minute] = normalizedTime.split(':').map(Number)
-    const appointmentStart = hour * 60 + minute
-    const appointmentEnd = appointmentStart + duration
-
-    // Check for conflicts with same date and overlapping time
-    const { data: conflictingAppointments, error: conflictError } = await adminClient
-      .from('appointments')
-      .select('id, appointment_time, duration_minutes')
-      .eq('clinician_id', user.id)
-      .eq('appointment_date', appointmentDateStr)
-      .in('status', ['pending', 'confirmed'])
+    const { data: conflicts, error: conflictError } = await findCalendarConflicts(user.id, appointmentDateStr, normalizedTime, duration)
 
     if (conflictError) {
       console.error('[POST /clinician/appointments] Error checking conflicts:', conflictError)
-    } else if (conflictingAppointments && conflictingAppointments.length > 0) {
-      // Check time overlap
-      for (const conflict of conflictingAppointments) {
-        const [conflictHour, conflictMin] = conflict.appointment_time.split(':').map(Number)
-        const conflictStart = conflictHour * 60 + conflictMin
-        const conflictEnd = conflictStart + (conflict.duration_minutes || 30)
-
-        // Check if appointments overlap
-        if ((appointmentStart < conflictEnd && appointmentEnd > conflictStart)) {
-          return c.json({ 
-            error: 'Appointment time conflicts with an existing appointment on the same date',
-            details: `Conflicts with appointment at ${conflict.appointment_time}`
-          }, 409)
-        }
-      }
+    } else if (conflicts.length > 0) {
+      return c.json({
+        error: 'Appointment time conflicts with your calendar',
+        details: conflicts.map(conflict => conflict.message).join('; '),
+        conflicts,
+      }, 409)
     }
 
     // Create appointment
@@ -2379,6 +2578,7 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
         appointment_time: normalizedTime,
         duration_minutes: duration,
         appointment_type,
+        visit_mode,
         location: sanitizeString(location, 500) || null,
         notes: sanitizeString(notes, 2000) || null,
         status: 'pending',
@@ -2386,6 +2586,9 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
       .select()
       .single()
 
+    if (isAppointmentOverlapError(appointmentError)) {
+      return c.json({ error: 'Appointment time conflicts with your calendar', details: 'Another appointment was just booked at this time' }, 409)
+    }
     if (appointmentError) {
       console.error('[POST /clinician/appointments] Error:', appointmentError)
       console.error('[POST /clinician/appointments] Error details:', JSON.stringify(appointmentError, null, 2))
@@ -2431,7 +2634,7 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
         user_id: caseItem.user_id,
         type: 'system', // Use 'system' type as it's allowed in notifications schema
         title: '📅 New Appointment Scheduled',
-        message: `You have a new appointment scheduled on ${appointmentDateFormatted} at ${timeFormatted}. Case: ${caseNumber}`,
+        message: `You have a new ${visit_mode === 'telehealth' ? 'video ' : ''}appointment scheduled on ${appointmentDateFormatted} at ${timeFormatted}. Case: ${caseNumber}`,
         data: {
           appointment_id: appointment.id,
           case_id,
@@ -2442,15 +2645,14 @@ clinician.post('/appointments', authMiddleware, requireRole(['clinician']), asyn
           appointment_time,
           duration_minutes: duration,
           appointment_type,
+          visit_mode,
           location: sanitizeString(location, 500) || null,
           status: 'pending',
         },
         is_read: false,
       }
 
-      const { error: notifyError } = await adminClient
-        .from('notifications')
-        .insert([notification])
+      const { error: notifyError } = await createNotifications([notification])
 
       if (notifyError) {
         console.error('[POST /clinician/appointments] Error creating notification:', notifyError.message)
@@ -2509,7 +2711,7 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
     // Verify appointment exists and belongs to this clinician
     const { data: appointment, error: appointmentError } = await adminClient
       .from('appointments')
-      .select('id, clinician_id, status, appointment_date')
+      .select('id, clinician_id, status, appointment_date, appointment_time, duration_minutes, visit_mode, session_started_at, session_ended_at')
       .eq('id', appointmentId)
       .eq('clinician_id', user.id)
       .single()
@@ -2540,7 +2742,7 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
       
       // Get current or new status to determine if past dates are allowed
       const newStatus = updates.status || appointment.status
-      const allowsPastDate = ['completed', 'cancelled', 'declined'].includes(newStatus)
+      const allowsPastDate = ['completed', 'cancelled', 'declined', 'no_show'].includes(newStatus)
       
       // If date is in the past and status doesn't allow it, return error
       if (isPastDate && !allowsPastDate) {
@@ -2570,7 +2772,7 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
     }
 
     if (updates.status) {
-      const validStatuses = ['pending', 'confirmed', 'completed', 'cancelled', 'declined']
+      const validStatuses = ['pending', 'confirmed', 'completed', 'cancelled', 'declined', 'no_show']
       if (!validStatuses.includes(updates.status)) {
         return c.json({ error: `status must be one of: ${validStatuses.join(', ')}` }, 400)
       }
@@ -2585,6 +2787,16 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
       updateData.appointment_type = updates.appointment_type
     }
 
+    if (updates.visit_mode !== undefined && updates.visit_mode !== appointment.visit_mode) {
+      if (!VISIT_MODES.includes(updates.visit_mode)) {
+        return c.json({ error: `visit_mode must be one of: ${VISIT_MODES.join(', ')}` }, 400)
+      }
+      if (appointment.session_started_at) {
+        return c.json({ error: 'Cannot change the visit mode after the video session has started' }, 400)
+      }
+      updateData.visit_mode = updates.visit_mode
+    }
+
     if (updates.location !== undefined) {
       updateData.location = sanitizeString(updates.location, 500) || null
     }
@@ -2597,6 +2809,55 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
       updateData.cancellation_reason = sanitizeString(updates.cancellation_reason, 500) || null
     }
 
+    // A no-show can only be recorded once the appointment has started (clinician's timezone)
+    if (updateData.status === 'no_show' && appointment.status !== 'no_show') {
+      const timeZones = await getClinicianTimeZones([user.id])
+      const startsAt = getAppointmentStart({
+        appointment_date: updateData.appointment_date || appointment.appointment_date,
+        appointment_time: updateData.appointment_time || appointment.appointment_time,
+      }, timeZones.get(user.id)!)
+      if (startsAt.getTime() > Date.now()) {
+        return c.json({ error: 'A no-show can only be recorded once the appointment has started' }, 400)
+      }
+    }
+
+    // Completing a telehealth appointment closes a session the clinician didn't end explicitly
+    if (updateData.status === 'completed' && appointment.session_started_at && !appointment.session_ended_at) {
+      updateData.session_ended_at = new Date().toISOString()
+    }
+
+    // A moved appointment needs confirming again before it's flagged as unconfirmed
+    if (updateData.appointment_date !== undefined || updateData.appointment_time !== undefined) {
+      updateData.unconfirmed_flagged_at = null
+    }
+
+    // Moving an active appointment (or reactivating one) must not clash with the rest of the calendar
+    const finalStatus = updateData.status || appointment.status
+    const movesInCalendar =
+      updateData.appointment_date !== undefined ||
+      updateData.appointment_time !== undefined ||
+      updateData.duration_minutes !== undefined ||
+      (updateData.status !== undefined && !['pending', 'confirmed'].includes(appointment.status))
+    if (movesInCalendar && ['pending', 'confirmed'].includes(finalStatus)) {
+      const { data: conflicts, error: conflictError } = await findCalendarConflicts(
+        user.id,
+        updateData.appointment_date || appointment.appointment_date,
+        updateData.appointment_time || appointment.appointment_time,
+        updateData.duration_minutes || appointment.duration_minutes || 30,
+        { excludeAppointmentId: appointmentId }
+      )
+
+      if (conflictError) {
+        console.error('[PATCH /clinician/appointments/:id] Error checking conflicts:', conflictError)
+      } else if (conflicts.length > 0) {
+        return c.json({
+          error: 'Appointment time conflicts with your calendar',
+          details: conflicts.map(conflict => conflict.message).join('; '),
+          conflicts,
+        }, 409)
+      }
+    }
+
     const { data: updatedAppointment, error: updateError } = await adminClient
       .from('appointments')
       .update(updateData)
@@ -2604,6 +2865,9 @@ clinician.patch('/appointments/:id', authMiddleware, requireRole(['clinician']),
       .select()
       .single()
 
+    if (isAppointmentOverlapError(updateError)) {
+      return c.json({ error: 'Appointment time conflicts with your calendar', details: 'Another appointment was just booked at this time' }, 409)
+    }
     if (updateError) {
       console.error('[PATCH /clinician/appointments/:id] Error:', updateError)
       return c.json({ error: 'Failed to update appointment', details: updateError.message }, 500)
@@ -2666,6 +2930,148 @@ clinician.delete('/appointments/:id', authMiddleware, requireRole(['clinician'])
   }
 })
 
+// Get availability (booking settings, weekly hours, breaks, upcoming leave)
+clinician.get('/availability', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data, error } = await getClinicianAvailability(user.id, getTodayDateString())
+    if (error || !data) {
+      return c.json({ error: error || 'Failed to fetch availability' }, 500)
+    }
+
+    return c.json(data)
+  } catch (error: any) {
+    console.error('[GET /clinician/availability] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Save booking settings and replace weekly hours and breaks
+clinician.put('/availability', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch {
+      return c.json({ error: 'Invalid JSON in request body' }, 400)
+    }
+
+    const { data: input, error: validationError } = validateAvailabilityInput(body)
+    if (validationError || !input) {
+      return c.json({ error: validationError || 'Invalid availability' }, 400)
+    }
+
+    const { error: saveError } = await saveClinicianAvailability(user.id, input)
+    if (saveError) {
+      return c.json({ error: saveError }, 500)
+    }
+
+    const { data } = await getClinicianAvailability(user.id, getTodayDateString())
+    return c.json({ ...data, message: 'Availability saved successfully' })
+  } catch (error: any) {
+    console.error('[PUT /clinician/availability] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Add leave - returns the active appointments it overlaps so they can be moved
+clinician.post('/availability/leave', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    let body: any
+    try {
+      body = await c.req.json()
+    } catch {
+      return c.json({ error: 'Invalid JSON in request body' }, 400)
+    }
+
+    const { data: leaveInput, error: validationError } = validateLeaveInput(body)
+    if (validationError || !leaveInput) {
+      return c.json({ error: validationError || 'Invalid leave' }, 400)
+    }
+
+    const { data: leave, error: leaveError } = await addClinicianLeave(user.id, leaveInput)
+    if (leaveError || !leave) {
+      return c.json({ error: leaveError || 'Failed to add leave' }, 500)
+    }
+
+    const adminClient = getAdminClient()
+    let affectedQuery = adminClient
+      .from('appointments')
+      .select('id, appointment_date, appointment_time, duration_minutes, status')
+      .eq('clinician_id', user.id)
+      .in('status', ['pending', 'confirmed'])
+      .gte('appointment_date', leave.start_date)
+      .lte('appointment_date', leave.end_date)
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true })
+
+    if (leave.start_time && leave.end_time) {
+      affectedQuery = affectedQuery.lt('appointment_time', leave.end_time)
+    }
+
+    const { data: affected, error: affectedError } = await affectedQuery
+    if (affectedError) {
+      console.error('[POST /clinician/availability/leave] Error fetching affected appointments:', affectedError)
+    }
+
+    // Part-day leave: keep appointments still running into it
+    const affectedAppointments = (affected || []).filter((appointment: any) => {
+      if (!leave.start_time) return true
+      const [hours, minutes] = appointment.appointment_time.split(':').map(Number)
+      const [leaveHours, leaveMinutes] = leave.start_time.split(':').map(Number)
+      return hours * 60 + minutes + (appointment.duration_minutes || 30) > leaveHours * 60 + leaveMinutes
+    })
+
+    return c.json({ leave, affectedAppointments, message: 'Leave added successfully' }, 201)
+  } catch (error: any) {
+    console.error('[POST /clinician/availability/leave] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Remove leave
+clinician.delete('/availability/leave/:id', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const leaveId = c.req.param('id')
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(leaveId)) {
+      return c.json({ error: 'Invalid leave ID format' }, 400)
+    }
+
+    const { error } = await removeClinicianLeave(user.id, leaveId)
+    if (error === 'not_found') {
+      return c.json({ error: 'Leave not found' }, 404)
+    }
+    if (error) {
+      return c.json({ error }, 500)
+    }
+
+    return c.json({ message: 'Leave removed successfully' })
+  } catch (error: any) {
+    console.error('[DELETE /clinician/availability/leave/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 // Transcribe audio using Whisper API
 clinician.post('/transcribe', authMiddleware, requireRole(['clinician']), async (c) => {
   try {
@@ -3185,5 +3591,255 @@ clinician.put('/transcriptions/:id', authMiddleware, requireRole(['clinician']),
   }
 })
 
+// ============================================
+// Exercise Library & Plan Templates
+// Shared by all clinicians (see utils/rehabilitationLibrary.ts)
+// ============================================
+
+// List library exercises
+// Query: category, body_region, search
+clinician.get('/exercise-library', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const category = c.req.query('category') || undefined
+    const bodyRegion = c.req.query('body_region') || undefined
+    const search = sanitizeString(c.req.query('search'), 100) || undefined
+
+    if (category && !EXERCISE_CATEGORIES.includes(category as any)) {
+      return c.json({ error: 'Invalid category' }, 400)
+    }
+    if (bodyRegion && !BODY_REGIONS.includes(bodyRegion as any)) {
+      return c.json({ error: 'Invalid body region' }, 400)
+    }
+
+    const { data: exercises, error } = await listLibraryExercises({ category, bodyRegion, search })
+    if (error) {
+      return c.json({ error: 'Failed to fetch exercise library', details: error }, 500)
+    }
+
+    return c.json({ exercises, categories: EXERCISE_CATEGORIES, bodyRegions: BODY_REGIONS })
+  } catch (error: any) {
+    console.error('[GET /clinician/exercise-library] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Add an exercise to the library
+clinician.post('/exercise-library', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { value, error: validationError } = validateLibraryExerciseInput(await c.req.json())
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+
+    const { data: exercise, error } = await createLibraryExercise(value, user.id)
+    if (error || !exercise) {
+      return c.json({ error: 'Failed to add exercise', details: error }, 500)
+    }
+
+    return c.json({ exercise, message: 'Exercise added to the library' }, 201)
+  } catch (error: any) {
+    console.error('[POST /clinician/exercise-library] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Update a library exercise (plans and templates keep their own copy)
+clinician.patch('/exercise-library/:id', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { value, error: validationError } = validateLibraryExerciseInput(await c.req.json(), true)
+    if (validationError) {
+      return c.json({ error: validationError }, 400)
+    }
+    if (Object.keys(value).length === 0) {
+      return c.json({ error: 'No changes provided' }, 400)
+    }
+
+    const { data: exercise, error, forbidden } = await updateLibraryExercise(c.req.param('id'), value, user.id)
+    if (forbidden) {
+      return c.json({ error }, 403)
+    }
+    if (error) {
+      return c.json({ error: 'Failed to update exercise', details: error }, 500)
+    }
+    if (!exercise) {
+      return c.json({ error: 'Exercise not found' }, 404)
+    }
+
+    return c.json({ exercise, message: 'Exercise updated' })
+  } catch (error: any) {
+    console.error('[PATCH /clinician/exercise-library/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Archive a library exercise (hidden from the library, existing plans and templates unaffected)
+clinician.delete('/exercise-library/:id', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: exercise, error, forbidden } = await updateLibraryExercise(c.req.param('id'), { is_archived: true }, user.id)
+    if (forbidden) {
+      return c.json({ error }, 403)
+    }
+    if (error) {
+      return c.json({ error: 'Failed to archive exercise', details: error }, 500)
+    }
+    if (!exercise) {
+      return c.json({ error: 'Exercise not found' }, 404)
+    }
+
+    return c.json({ message: 'Exercise archived' })
+  } catch (error: any) {
+    console.error('[DELETE /clinician/exercise-library/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// List plan templates (latest version of each, with exercises)
+clinician.get('/rehabilitation-templates', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: templates, error } = await listPlanTemplates()
+    if (error) {
+      return c.json({ error: 'Failed to fetch templates', details: error }, 500)
+    }
+
+    return c.json({ templates })
+  } catch (error: any) {
+    console.error('[GET /clinician/rehabilitation-templates] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Save a plan template
+// Body: { name, description?, duration_days, exercises, previous_version_id? }
+// previous_version_id saves the template as the next version of that template
+clinician.post('/rehabilitation-templates', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { name, description, duration_days, exercises, previous_version_id } = await c.req.json()
+
+    const sanitizedName = sanitizeString(name, 255)
+    if (!sanitizedName) {
+      return c.json({ error: 'name is required' }, 400)
+    }
+
+    const duration = parseInt(String(duration_days))
+    if (isNaN(duration) || duration < 1 || duration > 365) {
+      return c.json({ error: 'duration_days must be between 1 and 365' }, 400)
+    }
+
+    if (previous_version_id !== undefined && previous_version_id !== null && typeof previous_version_id !== 'string') {
+      return c.json({ error: 'previous_version_id must be a string' }, 400)
+    }
+
+    const { data: templateExercises, error: exercisesError } = await resolveTemplateExercises(exercises)
+    if (exercisesError) {
+      return c.json({ error: exercisesError }, 400)
+    }
+
+    const { data: template, error } = await savePlanTemplate(
+      {
+        name: sanitizedName,
+        description: sanitizeString(description, 2000) || null,
+        duration_days: duration,
+        exercises: templateExercises,
+      },
+      user.id,
+      previous_version_id || undefined
+    )
+
+    if (error === 'Template not found') {
+      return c.json({ error }, 404)
+    }
+    if (error || !template) {
+      return c.json({ error: error || 'Failed to save template' }, 500)
+    }
+
+    return c.json({
+      template,
+      message: template.version > 1 ? `Saved as version ${template.version}` : 'Template saved',
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /clinician/rehabilitation-templates] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Get a template version with its exercises
+clinician.get('/rehabilitation-templates/:id', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: template, error } = await getPlanTemplate(c.req.param('id'))
+    if (error) {
+      return c.json({ error: 'Failed to fetch template', details: error }, 500)
+    }
+    if (!template) {
+      return c.json({ error: 'Template not found' }, 404)
+    }
+
+    return c.json({ template })
+  } catch (error: any) {
+    console.error('[GET /clinician/rehabilitation-templates/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Archive a template (all versions)
+clinician.delete('/rehabilitation-templates/:id', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: archived, error, forbidden } = await archivePlanTemplate(c.req.param('id'), user.id)
+    if (forbidden) {
+      return c.json({ error }, 403)
+    }
+    if (error) {
+      return c.json({ error: 'Failed to archive template', details: error }, 500)
+    }
+    if (!archived) {
+      return c.json({ error: 'Template not found' }, 404)
+    }
+
+    return c.json({ message: 'Template archived' })
+  } catch (error: any) {
+    console.error('[DELETE /clinician/rehabilitation-templates/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 export default clinician
 
@@ -7,10 +7,11 @@
 import { Hono } from 'hono'
 import bcrypt from 'bcrypt'
 import { authMiddleware, requireRole } from '../middleware/auth.js'
+import { requireOrganization, requireSameOrganization } from '../middleware/organization.js'
 import { createUserAccount, CreateUserInput } from '../utils/userCreation.js'
 import { getAdminClient } from '../utils/adminClient.js'
 import { supabase } from '../lib/supabase.js'
-import { getExecutiveBusinessInfo } from '../utils/executiveHelpers.js'
+import { getOrganization } from '../utils/organizations.js'
 import { getTodayDateString, getStartOfWeekDateString } from '../utils/dateUtils.js'
 import { isExceptionActive, getExceptionDatesForScheduledDates } from '../utils/exceptionUtils.js'
 import { formatUserFullName } from '../utils/userUtils.js'
@@ -19,6 +20,7 @@ import {
   getScheduledDatesInRange, 
   findNextScheduledDate 
 } from '../utils/scheduleUtils.js'
+import { getHolidaysByTeam } from '../utils/siteHolidays.js'
 
 const executive = new Hono()
 
@@ -30,9 +32,9 @@ const EXECUTIVE_ASSIGNABLE_ROLES = [...EXECUTIVE_MANAGED_ROLES, 'team_leader', '
 /**
  * Create user account (executive only)
  * Executives can create: supervisor, clinician, whs_control_center
- * Users automatically inherit executive's business_name and business_registration_number
+ * Users are created in the executive's organization
  */
-executive.post('/users', authMiddleware, requireRole(['executive']), async (c) => {
+executive.post('/users', authMiddleware, requireRole(['executive']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -67,32 +69,31 @@ executive.post('/users', authMiddleware, requireRole(['executive']), async (c) =
       }, 400)
     }
 
-    // Get executive's business information to inherit (using helper function)
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
+    // Get executive's organization - new users join it
+    const { data: organization, error: organizationError } = await getOrganization(user.organization_id!)
 
-    if (executiveError || !executiveData) {
-      console.error('Error fetching executive data:', executiveError)
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
+    if (organizationError || !organization) {
+      console.error('Error fetching executive organization:', organizationError)
+      return c.json({ error: 'Failed to fetch executive data', details: organizationError || 'Organization not found' }, 500)
     }
 
-    // Validate executive has business info (required for all users, especially supervisors)
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
+    // Supervisors need a registration number on their business details
+    if (!organization.registration_number) {
       return c.json({ 
         error: 'Executive must have business name and business registration number set before creating users' 
       }, 400)
     }
 
-    // Prepare user input - automatically inherit business info from executive
-    // This ensures all users (supervisors, clinicians, whs_control_center) have the same business info as the executive
-    // For supervisors, business_name and business_registration_number are REQUIRED and will be automatically inherited
+    // Prepare user input - business details are a display copy of the organization
     const userInput: CreateUserInput = {
       email,
       password,
       role,
       first_name,
       last_name,
-      business_name: executiveData.business_name, // Automatically inherited from executive
-      business_registration_number: executiveData.business_registration_number, // Automatically inherited from executive
+      organization_id: organization.id,
+      business_name: organization.name,
+      business_registration_number: organization.registration_number,
       gender: gender || undefined,
       date_of_birth: date_of_birth || undefined,
     }
@@ -120,7 +121,7 @@ executive.post('/users', authMiddleware, requireRole(['executive']), async (c) =
 
 /**
  * Get all users created by this executive (supervisors, clinicians, whs_control_center)
- * Only returns users with the same business_name and business_registration_number as the executive
+ * Only returns users in the executive's organization
  */
 executive.get('/users', authMiddleware, requireRole(['executive']), async (c) => {
   try {
@@ -131,16 +132,8 @@ executive.get('/users', authMiddleware, requireRole(['executive']), async (c) =>
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information to filter by (using helper function)
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      console.error('Error fetching executive data:', executiveError)
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // If executive doesn't have business info, return empty list
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
+    // If executive isn't linked to an organization yet, return empty list
+    if (!user.organization_id) {
       return c.json({
         success: true,
         users: [],
@@ -160,13 +153,12 @@ executive.get('/users', authMiddleware, requireRole(['executive']), async (c) =>
     const limit = parseInt(c.req.query('limit') || '50')
     const offset = (page - 1) * limit
 
-    // Build query - only get users with matching business info
+    // Build query - only get users in the executive's organization
     let query = adminClient
       .from('users')
       .select('id, email, role, first_name, last_name, full_name, business_name, business_registration_number, created_at', { count: 'exact' })
       .in('role', EXECUTIVE_MANAGED_ROLES)
-      .eq('business_name', executiveData.business_name) // Filter by matching business name
-      .eq('business_registration_number', executiveData.business_registration_number) // Filter by matching business registration number
+      .eq('organization_id', user.organization_id)
 
     // Apply role filter if provided
     if (role && EXECUTIVE_MANAGED_ROLES.includes(role as any)) {
@@ -208,7 +200,7 @@ executive.get('/users', authMiddleware, requireRole(['executive']), async (c) =>
 
 /**
  * Get user statistics
- * Only counts users with the same business_name and business_registration_number as the executive
+ * Only counts users in the executive's organization
  */
 executive.get('/stats', authMiddleware, requireRole(['executive']), async (c) => {
   try {
@@ -217,17 +209,8 @@ executive.get('/stats', authMiddleware, requireRole(['executive']), async (c) =>
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    // Get executive's business information to filter by (using helper function)
-    const { getExecutiveBusinessInfo } = await import('../utils/executiveHelpers.js')
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      console.error('Error fetching executive data:', executiveError)
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // If executive doesn't have business info, return zero stats
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
+    // If executive isn't linked to an organization yet, return zero stats
+    if (!user.organization_id) {
       return c.json({
         success: true,
         stats: {
@@ -239,14 +222,13 @@ executive.get('/stats', authMiddleware, requireRole(['executive']), async (c) =>
       })
     }
 
-    // Get counts by role - only users with matching business info
+    // Get counts by role - only users in the executive's organization
     const adminClient = getAdminClient()
     const { data: allUsers } = await adminClient
       .from('users')
       .select('role')
       .in('role', EXECUTIVE_MANAGED_ROLES)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
+      .eq('organization_id', user.organization_id)
 
     const stats = {
       supervisor: 0,
@@ -274,9 +256,9 @@ executive.get('/stats', authMiddleware, requireRole(['executive']), async (c) =>
 
 /**
  * Get single user by ID (executive only)
- * Only returns user if they have the same business_name and business_registration_number as the executive
+ * Only returns user if they are in the executive's organization
  */
-executive.get('/users/:id', authMiddleware, requireRole(['executive']), async (c) => {
+executive.get('/users/:id', authMiddleware, requireRole(['executive']), requireSameOrganization('id'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -286,25 +268,12 @@ executive.get('/users/:id', authMiddleware, requireRole(['executive']), async (c
     const userId = c.req.param('id')
     const adminClient = getAdminClient()
 
-    // Get executive's business information (using helper function)
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // If executive doesn't have business info, deny access
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
-      return c.json({ error: 'User not found or access denied' }, 404)
-    }
-
+    // Organization membership is checked by requireSameOrganization
     const { data: targetUser, error } = await adminClient
       .from('users')
       .select('id, email, role, first_name, last_name, full_name, created_at, business_name, business_registration_number')
       .eq('id', userId)
       .in('role', EXECUTIVE_MANAGED_ROLES)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
       .single()
 
     if (error) {
@@ -329,9 +298,9 @@ executive.get('/users/:id', authMiddleware, requireRole(['executive']), async (c
 /**
  * Update user (executive only)
  * Can update: email, role, first_name, last_name, password
- * Business info cannot be changed (inherited from executive)
+ * Organization cannot be changed (inherited from executive)
  */
-executive.patch('/users/:id', authMiddleware, requireRole(['executive']), async (c) => {
+executive.patch('/users/:id', authMiddleware, requireRole(['executive']), requireSameOrganization('id'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -343,22 +312,12 @@ executive.patch('/users/:id', authMiddleware, requireRole(['executive']), async
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information (using helper function)
-    const { getExecutiveBusinessInfo } = await import('../utils/executiveHelpers.js')
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // Verify user exists, is in allowed roles, and has matching business info
+    // Verify user exists and is in allowed roles (organization checked by requireSameOrganization)
     const { data: currentUser, error: fetchError } = await adminClient
       .from('users')
       .select('id, role, first_name, last_name')
       .eq('id', userId)
       .in('role', EXECUTIVE_MANAGED_ROLES)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
       .single()
 
     if (fetchError || !currentUser) {
@@ -386,11 +345,6 @@ executive.patch('/users/:id', authMiddleware, requireRole(['executive']), async
 
     if (first_name !== undefined) updateData.first_name = first_name.trim()
     if (last_name !== undefined) updateData.last_name = last_name.trim()
-    
-    // Business info cannot be changed - it's inherited from executive
-    // Always keep the executive's business info
-    updateData.business_name = executiveData.business_name
-    updateData.business_registration_number = executiveData.business_registration_number
 
     // Update password if provided
     if (password !== undefined && password.trim()) {
@@ -448,9 +402,9 @@ executive.patch('/users/:id', authMiddleware, requireRole(['executive']), async
 
 /**
  * Delete user (executive only)
- * Only allows deletion of users with matching business info
+ * Only allows deletion of users in the executive's organization
  */
-executive.delete('/users/:id', authMiddleware, requireRole(['executive']), async (c) => {
+executive.delete('/users/:id', authMiddleware, requireRole(['executive']), requireSameOrganization('id'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -460,21 +414,12 @@ executive.delete('/users/:id', authMiddleware, requireRole(['executive']), async
     const userId = c.req.param('id')
     const adminClient = getAdminClient()
 
-    // Get executive's business information (using helper function)
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // Check if user exists, is in allowed roles, and has matching business info
+    // Check if user exists and is in allowed roles (organization checked by requireSameOrganization)
     const { data: targetUser, error: fetchError } = await adminClient
       .from('users')
       .select('id, email, role')
       .eq('id', userId)
       .in('role', EXECUTIVE_MANAGED_ROLES)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
       .single()
 
     if (fetchError || !targetUser) {
@@ -531,7 +476,7 @@ const getEmptySafetyEngagementResponse = (startDate?: string, endDate?: string)
 /**
  * Get Overall Safety Engagement (Work Readiness)
  * Calculates work readiness percentage based on check-ins for all workers under executive's business
- * SECURITY: Only returns data for workers under the executive's business (filtered by business_name and business_registration_number)
+ * SECURITY: Only returns data for workers in teams of the executive's organization
  */
 executive.get('/safety-engagement', authMiddleware, requireRole(['executive']), async (c) => {
   try {
@@ -542,38 +487,16 @@ executive.get('/safety-engagement', authMiddleware, requireRole(['executive']),
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      console.error('[GET /executive/safety-engagement] Error fetching executive data:', executiveError)
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // If executive doesn't have business info, return empty data
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
-      return c.json(getEmptySafetyEngagementResponse())
-    }
-
-    // Get all teams under supervisors with matching business info
-    const { data: supervisors } = await adminClient
-      .from('users')
-      .select('id')
-      .eq('role', 'supervisor')
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
-
-    if (!supervisors || supervisors.length === 0) {
+    // If executive isn't linked to an organization yet, return empty data
+    if (!user.organization_id) {
       return c.json(getEmptySafetyEngagementResponse())
     }
 
-    const supervisorIds = supervisors.map(s => s.id)
-
-    // Get all teams assigned to these supervisors
+    // Get all teams in the executive's organization
     const { data: teams } = await adminClient
       .from('teams')
       .select('id')
-      .in('supervisor_id', supervisorIds)
+      .eq('organization_id', user.organization_id)
 
     if (!teams || teams.length === 0) {
       return c.json(getEmptySafetyEngagementResponse())
@@ -873,20 +796,16 @@ executive.get('/hierarchy', authMiddleware, requireRole(['executive']), async (c
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
+    if (!user.organization_id) {
+      return c.json({ supervisors: [] })
     }
 
-    // Get all supervisors with matching business info
+    // Get all supervisors in the executive's organization
     const { data: supervisors, error: supervisorsError } = await adminClient
       .from('users')
       .select('id, email, first_name, last_name, full_name, role')
       .eq('role', 'supervisor')
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
+      .eq('organization_id', user.organization_id)
 
     if (supervisorsError) {
       console.error('[GET /executive/hierarchy] Error fetching supervisors:', supervisorsError)
@@ -903,6 +822,7 @@ executive.get('/hierarchy', authMiddleware, requireRole(['executive']), async (c
     const { data: teams, error: teamsError } = await adminClient
       .from('teams')
       .select('id, name, site_location, supervisor_id, team_leader_id')
+      .eq('organization_id', user.organization_id)
       .in('supervisor_id', supervisorIds)
 
     if (teamsError) {
@@ -1048,36 +968,15 @@ executive.get('/workers/streaks', authMiddleware, requireRole(['executive']), as
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
-      return c.json({ workers: [] })
-    }
-
-    // Get all supervisors with matching business info
-    const { data: supervisors } = await adminClient
-      .from('users')
-      .select('id')
-      .eq('role', 'supervisor')
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
-
-    if (!supervisors || supervisors.length === 0) {
+    if (!user.organization_id) {
       return c.json({ workers: [] })
     }
 
-    const supervisorIds = supervisors.map(s => s.id)
-
-    // Get all teams assigned to these supervisors
+    // Get all teams in the executive's organization
     const { data: teams } = await adminClient
       .from('teams')
       .select('id')
-      .in('supervisor_id', supervisorIds)
+      .eq('organization_id', user.organization_id)
 
     if (!teams || teams.length === 0) {
       return c.json({ workers: [] })
@@ -1137,6 +1036,13 @@ executive.get('/workers/streaks', authMiddleware, requireRole(['executive']), as
       .select('user_id, exception_type, start_date, end_date, is_active, deactivated_at, reason')
       .in('user_id', workerIds)
 
+    // Site holidays need no check-in - left out of scheduled dates
+    const holidaysByTeam = await getHolidaysByTeam(
+      (allSchedules || []).map((schedule: any) => schedule.team_id),
+      thirtyDaysAgoStr,
+      formatDateString(futureEndDate)
+    )
+
     // Group schedules, check-ins, and exceptions by worker
     const schedulesByWorker = new Map<string, any[]>()
     const checkInsByWorker = new Map<string, Set<string>>()
@@ -1178,12 +1084,13 @@ executive.get('/workers/streaks', authMiddleware, requireRole(['executive']), as
       const workerSchedules = schedulesByWorker.get(worker.id) || []
       const workerCheckIns = checkInsByWorker.get(worker.id) || new Set<string>()
       const workerExceptions = exceptionsByWorker.get(worker.id) || []
+      const workerHolidays = workerSchedules.length > 0 ? holidaysByTeam.get(workerSchedules[0].team_id) : undefined
 
       // Get scheduled dates for past 30 days (for streak and completed days calculation)
-      const pastScheduledDates = getScheduledDatesInRange(workerSchedules, thirtyDaysAgo, today)
+      const pastScheduledDates = getScheduledDatesInRange(workerSchedules, thirtyDaysAgo, today, workerHolidays)
       
       // Get future scheduled dates (for total count display only)
-      const futureScheduledDates = getScheduledDatesInRange(workerSchedules, today, futureEndDate)
+      const futureScheduledDates = getScheduledDatesInRange(workerSchedules, today, futureEndDate, workerHolidays)
       
       // Total scheduled days includes both past and future
       const totalScheduledDays = pastScheduledDates.size + futureScheduledDates.size
@@ -1307,7 +1214,7 @@ executive.get('/workers/streaks', authMiddleware, requireRole(['executive']), as
 })
 
 // Get worker check-in history (executive only)
-executive.get('/workers/:workerId/check-ins', authMiddleware, requireRole(['executive']), async (c) => {
+executive.get('/workers/:workerId/check-ins', authMiddleware, requireRole(['executive']), requireSameOrganization('workerId'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -1326,19 +1233,7 @@ executive.get('/workers/:workerId/check-ins', authMiddleware, requireRole(['exec
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      console.error('[GET /executive/workers/:workerId/check-ins] Failed to get executive business info:', executiveError)
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    if (!executiveData.business_name || !executiveData.business_registration_number) {
-      return c.json({ error: 'Executive business info not configured' }, 400)
-    }
-
-    // Verify worker exists and is a worker
+    // Verify worker exists and is a worker (organization checked by requireSameOrganization)
     const { data: worker, error: workerError } = await adminClient
       .from('users')
       .select('id, role')
@@ -1351,46 +1246,6 @@ executive.get('/workers/:workerId/check-ins', authMiddleware, requireRole(['exec
       return c.json({ error: 'Worker not found' }, 404)
     }
 
-    // Verify worker belongs to executive's business by checking if worker is in a team
-    // that belongs to a supervisor with matching business info
-    const { data: teamMember } = await adminClient
-      .from('team_members')
-      .select('team_id')
-      .eq('user_id', workerId)
-      .limit(1)
-      .single()
-
-    if (!teamMember) {
-      console.error('[GET /executive/workers/:workerId/check-ins] Worker not in any team')
-      return c.json({ error: 'Worker not assigned to any team' }, 404)
-    }
-
-    // Get the team's supervisor
-    const { data: team } = await adminClient
-      .from('teams')
-      .select('supervisor_id')
-      .eq('id', teamMember.team_id)
-      .single()
-
-    if (!team || !team.supervisor_id) {
-      console.error('[GET /executive/workers/:workerId/check-ins] Team has no supervisor')
-      return c.json({ error: 'Worker team has no supervisor' }, 404)
-    }
-
-    // Verify supervisor has matching business info
-    const { data: supervisor } = await adminClient
-      .from('users')
-      .select('id, business_name, business_registration_number')
-      .eq('id', team.supervisor_id)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
-      .single()
-
-    if (!supervisor) {
-      console.error('[GET /executive/workers/:workerId/check-ins] Supervisor business mismatch')
-      return c.json({ error: 'Unauthorized: Worker not under executive business' }, 403)
-    }
-
     // Get check-ins for this worker (no limit to get all check-ins)
     const { data: checkIns, error } = await adminClient
       .from('daily_checkins')
@@ -1415,8 +1270,8 @@ executive.get('/workers/:workerId/check-ins', authMiddleware, requireRole(['exec
 })
 
 // Update user role (executive only)
-// Allows executive to change roles of users under their business
-executive.patch('/users/:id/role', authMiddleware, requireRole(['executive']), async (c) => {
+// Allows executive to change roles of users in their organization
+executive.patch('/users/:id/role', authMiddleware, requireRole(['executive']), requireSameOrganization('id'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -1437,20 +1292,11 @@ executive.patch('/users/:id/role', authMiddleware, requireRole(['executive']), a
 
     const adminClient = getAdminClient()
 
-    // Get executive's business information
-    const { data: executiveData, error: executiveError } = await getExecutiveBusinessInfo(user.id)
-
-    if (executiveError || !executiveData) {
-      return c.json({ error: 'Failed to fetch executive data', details: executiveError || 'Executive business info not found' }, 500)
-    }
-
-    // Verify user exists and has matching business info
+    // Verify user exists (organization checked by requireSameOrganization)
     const { data: targetUser, error: fetchError } = await adminClient
       .from('users')
       .select('id, email, role, first_name, last_name, full_name, business_name, business_registration_number')
       .eq('id', userId)
-      .eq('business_name', executiveData.business_name)
-      .eq('business_registration_number', executiveData.business_registration_number)
       .single()
 
     if (fetchError || !targetUser) {
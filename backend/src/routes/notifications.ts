@@ -0,0 +1,324 @@
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { authMiddleware, AuthVariables } from '../middleware/auth.js'
+import { getAdminClient } from '../utils/adminClient.js'
+import { isValidId } from '../utils/validationUtils.js'
+import {
+  subscribeToNotifications,
+  publishToUser,
+  getNotificationsSince,
+  getNotificationEventId,
+  getOpenStreamCount,
+  type NotificationEvent,
+} from '../utils/notificationHub.js'
+import { getChannelPreferences, validateChannelPreferencesInput } from '../utils/notificationChannels.js'
+
+const notifications = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Notifications Endpoints (all roles)
+// Every query is scoped to the authenticated user's own notifications
+// ============================================
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+// Streams are closed after this long so the client reconnects with a fresh auth check
+// (and Last-Event-ID replay picks up anything published on another instance)
+const MAX_STREAM_DURATION_MS = 10 * 60 * 1000
+const CLIENT_RETRY_MS = 3000
+
+// Get notifications for the authenticated user
+notifications.get('/', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200) // Max 200 notifications
+    const unreadOnly = c.req.query('unread_only') === 'true'
+
+    const adminClient = getAdminClient()
+
+    // SECURITY: Only fetch notifications belonging to the authenticated user
+    let query = adminClient
+      .from('notifications')
+      .select('*')
+      .eq('user_id', user.id) // Critical: Only get user's own notifications
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (unreadOnly) {
+      query = query.eq('is_read', false)
+    }
+
+    const [
+      { data: notificationRows, error },
+      { count: unreadCount, error: countError },
+    ] = await Promise.all([
+      query,
+      adminClient
+        .from('notifications')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('is_read', false),
+    ])
+
+    if (error) {
+      console.error('[GET /notifications] Error:', error)
+      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
+    }
+
+    if (countError) {
+      console.error('[GET /notifications] Error counting unread:', countError)
+    }
+
+    const rows = notificationRows || []
+
+    return c.json({
+      notifications: rows,
+      unreadCount: unreadCount || 0,
+      // Newest notification's event id - lets the client open the stream without missing anything
+      lastEventId: rows.length > 0 ? getNotificationEventId(rows[0]) : null,
+    })
+  } catch (error: any) {
+    console.error('[GET /notifications] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Live notification stream (Server-Sent Events)
+// Replays notifications newer than Last-Event-ID (header, or ?lastEventId= for the first connect)
+notifications.get('/stream', authMiddleware, async (c) => {
+  const user = c.get('user')
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId') || null
+
+  // Disable proxy buffering (nginx) so events are delivered immediately
+  c.header('X-Accel-Buffering', 'no')
+  c.header('Cache-Control', 'no-cache')
+
+  return streamSSE(c, async (stream) => {
+    // Queue live events until replay is done so ordering is preserved
+    const pending: NotificationEvent[] = []
+    let replaying = true
+    let closed = false
+
+    const send = async (event: NotificationEvent) => {
+      await stream.writeSSE({
+        event: event.type,
+        id: event.id,
+        data: JSON.stringify(event.data),
+      })
+    }
+
+    const unsubscribe = subscribeToNotifications(user.id, (event) => {
+      if (replaying) {
+        pending.push(event)
+        return
+      }
+      send(event).catch(error => {
+        console.error('[GET /notifications/stream] Error writing event:', error)
+      })
+    })
+
+    stream.onAbort(() => {
+      closed = true
+      unsubscribe()
+    })
+
+    try {
+      await stream.writeSSE({ event: 'ready', data: JSON.stringify({ connected: true }), retry: CLIENT_RETRY_MS })
+
+      const replayed = await getNotificationsSince(user.id, lastEventId)
+      const replayedIds = new Set(replayed.map((notification: any) => notification.id))
+      for (const notification of replayed) {
+        await send({ type: 'notification', id: getNotificationEventId(notification), data: notification })
+      }
+
+      replaying = false
+      for (const event of pending) {
+        // Skip live events already covered by the replay
+        if (event.type === 'notification' && replayedIds.has(event.data?.id)) continue
+        await send(event)
+      }
+      pending.length = 0
+
+      console.log(`[GET /notifications/stream] User ${user.id} connected (${getOpenStreamCount()} open stream(s), replayed ${replayed.length})`)
+
+      const startedAt = Date.now()
+      while (!closed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+        await stream.sleep(HEARTBEAT_INTERVAL_MS)
+        if (closed) break
+        // SSE comment line keeps intermediaries from closing an idle connection
+        await stream.write(': heartbeat\n\n')
+      }
+    } catch (error: any) {
+      console.error('[GET /notifications/stream] Error:', error)
+    } finally {
+      unsubscribe()
+    }
+  })
+})
+
+// Get outbound channel preferences (email/SMS) for the authenticated user
+notifications.get('/preferences', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const preferences = (await getChannelPreferences([user.id])).get(user.id)!
+
+    return c.json({
+      preferences: {
+        emailEnabled: preferences.email_enabled,
+        smsEnabled: preferences.sms_enabled,
+        phoneNumber: preferences.phone_number,
+      },
+    })
+  } catch (error: any) {
+    console.error('[GET /notifications/preferences] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Update outbound channel preferences for the authenticated user
+notifications.put('/preferences', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await c.req.json()
+    const validation = validateChannelPreferencesInput(body)
+    if (!validation.valid) {
+      return c.json({ error: validation.error }, 400)
+    }
+
+    const current = (await getChannelPreferences([user.id])).get(user.id)!
+    const next = { ...current, ...validation.value, user_id: user.id }
+
+    if (next.sms_enabled && !next.phone_number) {
+      return c.json({ error: 'A phone number is required to enable SMS notifications' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: saved, error } = await adminClient
+      .from('notification_channel_preferences')
+      .upsert([next], { onConflict: 'user_id' })
+      .select('email_enabled, sms_enabled, phone_number')
+      .single()
+
+    if (error) {
+      console.error('[PUT /notifications/preferences] Error:', error)
+      return c.json({ error: 'Failed to update notification preferences', details: error.message }, 500)
+    }
+
+    return c.json({
+      preferences: {
+        emailEnabled: saved.email_enabled,
+        smsEnabled: saved.sms_enabled,
+        phoneNumber: saved.phone_number,
+      },
+    })
+  } catch (error: any) {
+    console.error('[PUT /notifications/preferences] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Mark notification as read
+notifications.patch('/:notificationId/read', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const notificationId = c.req.param('notificationId')
+    if (!isValidId(notificationId)) {
+      return c.json({ error: 'Invalid notification ID' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    // Verify notification belongs to user
+    const { data: notification, error: fetchError } = await adminClient
+      .from('notifications')
+      .select('id, is_read')
+      .eq('id', notificationId)
+      .eq('user_id', user.id) // Critical: Only allow reading own notifications
+      .single()
+
+    if (fetchError || !notification) {
+      return c.json({ error: 'Notification not found' }, 404)
+    }
+
+    if (notification.is_read) {
+      return c.json({ message: 'Notification already read' })
+    }
+
+    // Mark as read
+    const { data: updated, error: updateError } = await adminClient
+      .from('notifications')
+      .update({ is_read: true, read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .eq('user_id', user.id) // Extra security check
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('[PATCH /notifications/:id/read] Error:', updateError)
+      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
+    }
+
+    // Keep the user's other open tabs in sync
+    publishToUser(user.id, { type: 'read', data: { id: updated.id, read_at: updated.read_at } })
+
+    return c.json({ notification: updated })
+  } catch (error: any) {
+    console.error('[PATCH /notifications/:id/read] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Mark all notifications as read
+notifications.patch('/read-all', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const readAt = new Date().toISOString()
+
+    // SECURITY: Only update notifications belonging to the authenticated user
+    const { error: updateError } = await adminClient
+      .from('notifications')
+      .update({ is_read: true, read_at: readAt })
+      .eq('user_id', user.id) // Critical: Only mark user's own notifications as read
+      .eq('is_read', false)
+
+    if (updateError) {
+      console.error('[PATCH /notifications/read-all] Error:', updateError)
+      return c.json({ error: 'Failed to mark notifications as read', details: updateError.message }, 500)
+    }
+
+    publishToUser(user.id, { type: 'read_all', data: { read_at: readAt } })
+
+    return c.json({
+      message: 'All notifications marked as read',
+    })
+  } catch (error: any) {
+    console.error('[PATCH /notifications/read-all] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default notifications
@@ -0,0 +1,296 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
+import { getAdminClient } from '../utils/adminClient.js'
+import { validateTeamId, isValidId } from '../utils/validationUtils.js'
+import {
+  getTeamQuestions,
+  validateQuestionInput,
+  normalizeQuestionRow,
+  BODY_MAP_REGIONS,
+  QUESTION_TYPES,
+} from '../utils/checkinQuestionnaire.js'
+
+const questionnaires = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Check-in Questionnaire Endpoints
+// Team Leaders (own team) and Supervisors (teams they supervise) manage custom questions
+// Workers fetch their team's active questions for the daily check-in form
+// ============================================
+
+/**
+ * Resolve the team a team leader / supervisor is managing questions for
+ * Team leaders always manage their own team; supervisors must pass a teamId they supervise
+ */
+async function resolveManagedTeam(
+  user: { id: string; role: string },
+  requestedTeamId?: string | null
+): Promise<{ teamId: string | null; error: string | null; status: 400 | 404 }> {
+  const adminClient = getAdminClient()
+
+  if (user.role === 'team_leader') {
+    const { data: team } = await adminClient
+      .from('teams')
+      .select('id')
+      .eq('team_leader_id', user.id)
+      .single()
+
+    if (!team) {
+      return { teamId: null, error: 'Team not found', status: 404 }
+    }
+    if (requestedTeamId && requestedTeamId !== team.id) {
+      return { teamId: null, error: 'Team not found or unauthorized', status: 404 }
+    }
+    return { teamId: team.id, error: null, status: 404 }
+  }
+
+  const teamIdValidation = validateTeamId(requestedTeamId)
+  if (!teamIdValidation.valid) {
+    return { teamId: null, error: 'teamId is required', status: 400 }
+  }
+
+  const { data: team } = await adminClient
+    .from('teams')
+    .select('id')
+    .eq('id', requestedTeamId)
+    .eq('supervisor_id', user.id)
+    .single()
+
+  if (!team) {
+    return { teamId: null, error: 'Team not found or unauthorized', status: 404 }
+  }
+  return { teamId: team.id, error: null, status: 404 }
+}
+
+// Get active questions for the worker's team (worker check-in form)
+questionnaires.get('/my-questions', authMiddleware, requireRole(['worker']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: teamMember } = await adminClient
+      .from('team_members')
+      .select('team_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!teamMember?.team_id) {
+      return c.json({ questions: [], bodyMapRegions: BODY_MAP_REGIONS })
+    }
+
+    const { data: questions, error } = await getTeamQuestions(teamMember.team_id)
+
+    if (error) {
+      console.error('[GET /questionnaires/my-questions] Error:', error)
+      return c.json({ error: 'Failed to fetch check-in questions', details: error }, 500)
+    }
+
+    return c.json({ questions, bodyMapRegions: BODY_MAP_REGIONS })
+  } catch (error: any) {
+    console.error('[GET /questionnaires/my-questions] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Get all questions for a team (including inactive)
+questionnaires.get('/questions', authMiddleware, requireRole(['team_leader', 'supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { teamId, error: teamError, status } = await resolveManagedTeam(user, c.req.query('teamId'))
+    if (teamError || !teamId) {
+      return c.json({ error: teamError }, status)
+    }
+
+    const { data: questions, error } = await getTeamQuestions(teamId, true)
+
+    if (error) {
+      console.error('[GET /questionnaires/questions] Error:', error)
+      return c.json({ error: 'Failed to fetch check-in questions', details: error }, 500)
+    }
+
+    return c.json({
+      teamId,
+      questions,
+      questionTypes: QUESTION_TYPES,
+      bodyMapRegions: BODY_MAP_REGIONS,
+    })
+  } catch (error: any) {
+    console.error('[GET /questionnaires/questions] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Create a question
+questionnaires.post('/questions', authMiddleware, requireRole(['team_leader', 'supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await c.req.json()
+
+    const { teamId, error: teamError, status } = await resolveManagedTeam(user, body.teamId)
+    if (teamError || !teamId) {
+      return c.json({ error: teamError }, status)
+    }
+
+    const validation = validateQuestionInput(body)
+    if (!validation.valid) {
+      return c.json({ error: validation.error }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    // Check key uniqueness for a clearer error than the DB constraint
+    const { data: existing } = await adminClient
+      .from('checkin_questions')
+      .select('id')
+      .eq('team_id', teamId)
+      .eq('question_key', validation.value.question_key)
+      .maybeSingle()
+
+    if (existing) {
+      return c.json({ error: `A question with key "${validation.value.question_key}" already exists for this team` }, 409)
+    }
+
+    const { data: question, error } = await adminClient
+      .from('checkin_questions')
+      .insert([{
+        ...validation.value,
+        team_id: teamId,
+        created_by: user.id,
+      }])
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[POST /questionnaires/questions] Error:', error)
+      return c.json({ error: 'Failed to create question', details: error.message }, 500)
+    }
+
+    return c.json({
+      message: 'Question created successfully',
+      question: normalizeQuestionRow(question),
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /questionnaires/questions] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Update a question (type and key are immutable)
+questionnaires.put('/questions/:id', authMiddleware, requireRole(['team_leader', 'supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const questionId = c.req.param('id')
+    if (!isValidId(questionId)) {
+      return c.json({ error: 'Invalid question ID' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: existingRow } = await adminClient
+      .from('checkin_questions')
+      .select('*')
+      .eq('id', questionId)
+      .single()
+
+    if (!existingRow) {
+      return c.json({ error: 'Question not found' }, 404)
+    }
+
+    const { teamId, error: teamError, status } = await resolveManagedTeam(user, existingRow.team_id)
+    if (teamError || !teamId) {
+      return c.json({ error: teamError }, status)
+    }
+
+    const body = await c.req.json()
+    const validation = validateQuestionInput(body, normalizeQuestionRow(existingRow))
+    if (!validation.valid) {
+      return c.json({ error: validation.error }, 400)
+    }
+
+    if (Object.keys(validation.value).length === 0) {
+      return c.json({ error: 'No changes provided' }, 400)
+    }
+
+    const { data: question, error } = await adminClient
+      .from('checkin_questions')
+      .update(validation.value)
+      .eq('id', questionId)
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[PUT /questionnaires/questions/:id] Error:', error)
+      return c.json({ error: 'Failed to update question', details: error.message }, 500)
+    }
+
+    return c.json({
+      message: 'Question updated successfully',
+      question: normalizeQuestionRow(question),
+    })
+  } catch (error: any) {
+    console.error('[PUT /questionnaires/questions/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Deactivate a question (soft delete - answers in past check-ins are kept for analytics)
+questionnaires.delete('/questions/:id', authMiddleware, requireRole(['team_leader', 'supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const questionId = c.req.param('id')
+    if (!isValidId(questionId)) {
+      return c.json({ error: 'Invalid question ID' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: existingRow } = await adminClient
+      .from('checkin_questions')
+      .select('id, team_id')
+      .eq('id', questionId)
+      .single()
+
+    if (!existingRow) {
+      return c.json({ error: 'Question not found' }, 404)
+    }
+
+    const { teamId, error: teamError, status } = await resolveManagedTeam(user, existingRow.team_id)
+    if (teamError || !teamId) {
+      return c.json({ error: teamError }, status)
+    }
+
+    const { error } = await adminClient
+      .from('checkin_questions')
+      .update({ is_active: false })
+      .eq('id', questionId)
+
+    if (error) {
+      console.error('[DELETE /questionnaires/questions/:id] Error:', error)
+      return c.json({ error: 'Failed to deactivate question', details: error.message }, 500)
+    }
+
+    return c.json({ message: 'Question deactivated successfully' })
+  } catch (error: any) {
+    console.error('[DELETE /questionnaires/questions/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default questionnaires
@@ -8,9 +8,44 @@ import {
   getExceptionTypeLabel,
   type WorkerException 
 } from '../utils/exceptionUtils.js'
+import { parseDateString } from '../utils/dateTime.js'
+import {
+  addDaysToDateString,
+  getDayOfWeekFromDateString,
+  getDefaultTimeZone,
+  getTeamTimeZone,
+  getTodayInTimeZone,
+  getWorkerTimeZone,
+  isCalendarDateString,
+  isValidTimeZone
+} from '../utils/timezone.js'
+import { shiftSegmentsOverlap } from '../utils/checkInWindow.js'
+import { parseICalendarRecurrence, formatICalendarRecurrence } from '../utils/recurrenceRule.js'
+import { getScheduledDatesInRange } from '../utils/scheduleUtils.js'
+import { getWorkerHolidays, parseHolidayCalendar } from '../utils/siteHolidays.js'
+import { applyRosterImportPlan, buildRosterImportPlan, parseRosterCsv } from '../utils/rosterImport.js'
 
 const schedules = new Hono<{ Variables: AuthVariables }>()
 
+// Helper: Validate and normalize exclusion dates (YYYY-MM-DD, sorted, no duplicates)
+function normalizeExclusionDates(value: unknown): { data: string[]; error: string | null } {
+  if (value === undefined || value === null) {
+    return { data: [], error: null }
+  }
+  if (!Array.isArray(value) || value.some(date => typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    return { data: [], error: 'exclusion_dates must be an array of dates in YYYY-MM-DD format' }
+  }
+  return { data: [...new Set(value as string[])].sort(), error: null }
+}
+
+// Helper: Format a schedule's hours for messages (e.g. "22:00-06:00 (overnight)")
+function formatTimeRange(schedule: any): string {
+  const start = (schedule.start_time || '').slice(0, 5)
+  const end = (schedule.end_time || '').slice(0, 5)
+  const suffix = schedule.starts_next_day ? ' (next day)' : end <= start ? ' (overnight)' : ''
+  return `${start}-${end}${suffix}`
+}
+
 // ============================================
 // Worker Schedules Endpoints
 // Team Leaders can create/manage schedules for workers in their team
@@ -29,7 +64,7 @@ schedules.get('/workers', authMiddleware, requireRole(['team_leader']), async (c
     // Get team leader's team
     const { data: team, error: teamError } = await adminClient
       .from('teams')
-      .select('id')
+      .select('id, timezone')
       .eq('team_leader_id', user.id)
       .single()
 
@@ -58,19 +93,14 @@ schedules.get('/workers', authMiddleware, requireRole(['team_leader']), async (c
     }
     
     // For date filters, handle both single-date and recurring schedules
-    // Single-date: filter by scheduled_date
-    // Recurring: filter by effective_date/expiry_date overlap with filter range
-    // Since Supabase doesn't support complex OR easily, we'll fetch all and filter in memory if date filters are provided
-    // But for now, only apply date filters to single-date schedules
-    // TODO: Could improve this with PostgREST filters or client-side filtering
+    // Single-date: filtered by scheduled_date in the query
+    // Recurring (day_of_week or recurrence rule): kept only if it has an occurrence in the range (filtered below)
     if (startDate || endDate) {
-      // Only filter single-date schedules - recurring schedules are shown if they overlap
-      // This means recurring schedules might show up even outside the filter range, but that's acceptable
       if (startDate) {
-        query = query.or(`scheduled_date.gte.${startDate},day_of_week.not.is.null`)
+        query = query.or(`scheduled_date.gte.${startDate},scheduled_date.is.null`)
       }
       if (endDate) {
-        query = query.or(`scheduled_date.lte.${endDate},day_of_week.not.is.null`)
+        query = query.or(`scheduled_date.lte.${endDate},scheduled_date.is.null`)
       }
     }
 
@@ -87,7 +117,20 @@ schedules.get('/workers', authMiddleware, requireRole(['team_leader']), async (c
       return c.json({ error: 'Failed to fetch worker schedules', details: error.message }, 500)
     }
 
-    return c.json({ schedules: data || [] }, 200, {
+    // Expand recurring schedules exactly - a one-sided filter looks a year either way
+    let filteredSchedules = data || []
+    if (startDate || endDate) {
+      const rangeStart = startDate || addDaysToDateString(endDate!, -366)
+      const rangeEnd = endDate || addDaysToDateString(startDate!, 366)
+      filteredSchedules = filteredSchedules.filter((schedule: any) =>
+        schedule.scheduled_date || getScheduledDatesInRange([schedule], rangeStart, rangeEnd).size > 0
+      )
+    }
+
+    // Schedule times are the team's local time
+    const timezone = isValidTimeZone(team.timezone) ? team.timezone : getDefaultTimeZone()
+
+    return c.json({ schedules: filteredSchedules, timezone }, 200, {
       'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
       'Pragma': 'no-cache',
       'Expires': '0',
@@ -114,13 +157,13 @@ schedules.get('/my-schedule', authMiddleware, requireRole(['worker']), async (c)
     const adminClient = getAdminClient()
 
     // Get query params for date range
-    const startDateStr = c.req.query('startDate') || new Date().toISOString().split('T')[0]
-    const endDateStr = c.req.query('endDate') || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] // Default: next 7 days
-
-    const startDate = new Date(startDateStr + 'T00:00:00.000Z')
-    const endDate = new Date(endDateStr + 'T23:59:59.999Z')
+    // Dates are calendar dates at the worker's site (teams.timezone)
+    const timeZone = await getWorkerTimeZone(user.id)
+    const todayStr = getTodayInTimeZone(timeZone)
+    const startDateStr = (c.req.query('startDate') || todayStr).split('T')[0]
+    const endDateStr = (c.req.query('endDate') || addDaysToDateString(todayStr, 7)).split('T')[0] // Default: next 7 days
     
-    console.log(`[GET /schedules/my-schedule] Requested date range: ${startDateStr} to ${endDateStr} (${startDate.toISOString()} to ${endDate.toISOString()})`)
+    console.log(`[GET /schedules/my-schedule] Requested date range: ${startDateStr} to ${endDateStr} (${timeZone})`)
 
     // Get all ACTIVE schedules (both single-date and recurring)
     const { data: allSchedules, error: schedulesError } = await adminClient
@@ -144,17 +187,16 @@ schedules.get('/my-schedule', authMiddleware, requireRole(['worker']), async (c)
       console.log(`[GET /schedules/my-schedule] No active schedules found for worker ${user.id} (${user.email})`)
     }
 
-    // Process schedules to generate dates in the range (supports both single-date and recurring)
+    // Process schedules to generate dates in the range (supports single-date, weekly and RRULE schedules)
     const scheduleList: any[] = []
+    const holidays = await getWorkerHolidays(user.id, startDateStr, endDateStr)
 
     console.log(`[GET /schedules/my-schedule] Processing ${allSchedules?.length || 0} schedules for date range: ${startDateStr} to ${endDateStr}`)
 
     ;(allSchedules || []).forEach((schedule: any) => {
       // Single-date schedule: check if date is within range
       if (schedule.scheduled_date && schedule.day_of_week === null) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        scheduleDate.setHours(0, 0, 0, 0)
-        if (scheduleDate >= startDate && scheduleDate <= endDate) {
+        if (schedule.scheduled_date >= startDateStr && schedule.scheduled_date <= endDateStr) {
           scheduleList.push({
             ...schedule,
             display_date: schedule.scheduled_date,
@@ -162,61 +204,42 @@ schedules.get('/my-schedule', authMiddleware, requireRole(['worker']), async (c)
           console.log(`[GET /schedules/my-schedule] Added single-date schedule: ${schedule.scheduled_date}`)
         }
       }
-      // Recurring schedule: calculate all matching dates in the range
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date + 'T00:00:00.000Z') : startDate
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date + 'T23:59:59.999Z') : endDate
-        
-        // Determine the actual start date for iteration
-        const scheduleStart = effectiveDate > startDate ? effectiveDate : startDate
-        const scheduleEnd = expiryDate < endDate ? expiryDate : endDate
-        
-        // Only process if there's an overlap
-        if (scheduleStart <= scheduleEnd) {
-          console.log(`[GET /schedules/my-schedule] Processing recurring schedule: day_of_week=${schedule.day_of_week}, effective=${schedule.effective_date}, expiry=${schedule.expiry_date}, range=${scheduleStart.toISOString().split('T')[0]} to ${scheduleEnd.toISOString().split('T')[0]}`)
-        
-        // Generate dates for this recurring schedule
-          let matchCount = 0
-          const currentDate = new Date(scheduleStart)
-          
-          while (currentDate <= scheduleEnd) {
-            const dayOfWeek = currentDate.getDay() // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-          
-          // Check if this date matches the schedule's day_of_week
-          if (dayOfWeek === schedule.day_of_week) {
-              const dateStr = currentDate.toISOString().split('T')[0]
-            scheduleList.push({
-              ...schedule,
-              display_date: dateStr, // The actual date for this occurrence
-              scheduled_date: null, // Clear scheduled_date to indicate this is from recurring
-            })
-              matchCount++
-            }
-            
-            // Move to next day
-            currentDate.setDate(currentDate.getDate() + 1)
-          }
-          
-          console.log(`[GET /schedules/my-schedule] Generated ${matchCount} dates for recurring schedule (day_of_week=${schedule.day_of_week})`)
-        } else {
-          console.log(`[GET /schedules/my-schedule] Skipping recurring schedule: no overlap with requested range (effective=${schedule.effective_date}, expiry=${schedule.expiry_date})`)
-        }
+      // Recurring schedule (day_of_week or recurrence rule): expand every matching date in the range
+      else {
+        const scheduleStart = schedule.effective_date && schedule.effective_date > startDateStr ? schedule.effective_date : startDateStr
+        const scheduleEnd = schedule.expiry_date && schedule.expiry_date < endDateStr ? schedule.expiry_date : endDateStr
+        const occurrences = scheduleStart <= scheduleEnd
+          ? getScheduledDatesInRange([schedule], scheduleStart, scheduleEnd)
+          : new Set<string>()
+
+        occurrences.forEach(dateStr => {
+          scheduleList.push({
+            ...schedule,
+            display_date: dateStr, // The actual date for this occurrence
+            scheduled_date: null, // Clear scheduled_date to indicate this is from recurring
+          })
+        })
+
+        console.log(`[GET /schedules/my-schedule] Generated ${occurrences.size} dates for recurring schedule (day_of_week=${schedule.day_of_week}, rule=${schedule.recurrence_rule || 'none'})`)
       }
     })
 
+    // Site public holidays - still rostered, but no check-in required
+    scheduleList.forEach(entry => {
+      entry.holiday = holidays.get(entry.display_date) || null
+    })
+
     // Sort by date, then by start time
     scheduleList.sort((a, b) => {
-      const dateA = new Date(a.display_date)
-      const dateB = new Date(b.display_date)
-      if (dateA.getTime() !== dateB.getTime()) {
-        return dateA.getTime() - dateB.getTime()
+      if (a.display_date !== b.display_date) {
+        return a.display_date.localeCompare(b.display_date)
       }
       return (a.start_time || '').localeCompare(b.start_time || '')
     })
 
     console.log(`[GET /schedules/my-schedule] Returning ${scheduleList.length} schedule entries for date range ${startDateStr} to ${endDateStr}`)
 
-    return c.json({ schedules: scheduleList }, 200, {
+    return c.json({ schedules: scheduleList, timezone: timeZone }, 200, {
       'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
       'Pragma': 'no-cache',
       'Expires': '0',
@@ -242,8 +265,12 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
       start_date,     // Start date for range (YYYY-MM-DD)
       end_date,       // End date for range (YYYY-MM-DD)
       days_of_week,   // Array of day numbers (0=Sunday, 1=Monday, ..., 6=Saturday) for recurring
+      recurrence_rule, // RRULE (or DTSTART/RRULE/EXDATE lines from a calendar) - instead of days_of_week
+      exclusion_dates, // Optional: dates (YYYY-MM-DD) a recurring schedule skips
       start_time, 
       end_time,
+      starts_next_day, // Optional: segment starts after midnight of the shift date
+      segments,        // Optional: split shift - array of { start_time, end_time, starts_next_day } instead of start_time/end_time
       check_in_window_start, // Optional: custom check-in window
       check_in_window_end,   // Optional: custom check-in window
       requires_daily_checkin, // Optional: whether schedule requires daily check-in
@@ -254,12 +281,13 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     } = await c.req.json()
 
     // Validation: Either single date OR (start_date + end_date + days_of_week)
-    if (!worker_id || !start_time || !end_time) {
-      return c.json({ error: 'worker_id, start_time, and end_time are required' }, 400)
+    const hasSegments = Array.isArray(segments) && segments.length > 0
+    if (!worker_id || (!hasSegments && (!start_time || !end_time))) {
+      return c.json({ error: 'worker_id, start_time, and end_time (or segments) are required' }, 400)
     }
 
-    if (!scheduled_date && (!start_date || !end_date || !days_of_week)) {
-      return c.json({ error: 'Either scheduled_date OR (start_date, end_date, and days_of_week) are required' }, 400)
+    if (!scheduled_date && !recurrence_rule && (!start_date || !end_date || !days_of_week)) {
+      return c.json({ error: 'Either scheduled_date, (start_date, end_date, and days_of_week) OR recurrence_rule are required' }, 400)
     }
 
     if (requires_daily_checkin && (!daily_checkin_start_time || !daily_checkin_end_time)) {
@@ -270,11 +298,39 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/
     
     let isRecurringMode = false
+    let isRuleMode = false
     let recurringDays: number[] = []
+    let recurrenceRule: string | null = null
     let effectiveDate: string | null = null
     let expiryDate: string | null = null
+
+    const { data: exclusionDates, error: exclusionError } = normalizeExclusionDates(exclusion_dates)
+    if (exclusionError) {
+      return c.json({ error: exclusionError }, 400)
+    }
     
-    if (scheduled_date && (!start_date || !end_date || !days_of_week)) {
+    if (recurrence_rule) {
+      // Recurrence rule mode - one record per segment, recurring from start_date (DTSTART)
+      const { data: recurrence, error: recurrenceError } = parseICalendarRecurrence(recurrence_rule)
+      if (recurrenceError || !recurrence) {
+        return c.json({ error: `Invalid recurrence rule: ${recurrenceError}` }, 400)
+      }
+
+      const dtstart = start_date || recurrence.dtstart
+      if (!dtstart || !dateRegex.test(dtstart)) {
+        return c.json({ error: 'start_date (or a DTSTART line) is required for a recurrence rule. Use YYYY-MM-DD format' }, 400)
+      }
+      if (end_date && (!dateRegex.test(end_date) || end_date < dtstart)) {
+        return c.json({ error: 'end_date must be a YYYY-MM-DD date on or after start_date' }, 400)
+      }
+
+      isRuleMode = true
+      recurrenceRule = recurrence.rule
+      effectiveDate = dtstart
+      expiryDate = end_date || null
+      exclusionDates.push(...recurrence.exclusionDates.filter(date => !exclusionDates.includes(date)))
+      exclusionDates.sort()
+    } else if (scheduled_date && (!start_date || !end_date || !days_of_week)) {
       // Single date mode - create one record with specific date
       if (!dateRegex.test(scheduled_date)) {
         return c.json({ error: 'Invalid scheduled_date format. Use YYYY-MM-DD format' }, 400)
@@ -317,16 +373,37 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     const normalizeTime = (time: string): string => {
       return time.split(':').slice(0, 2).join(':')
     }
-    const normalizedStartTime = normalizeTime(start_time)
-    const normalizedEndTime = normalizeTime(end_time)
-    
-    if (!timeRegex.test(normalizedStartTime) || !timeRegex.test(normalizedEndTime)) {
-      return c.json({ error: 'Invalid time format. Use HH:MM format' }, 400)
+
+    // Each segment becomes one row per day - a shift ending at or before its start time runs past midnight
+    const requestedSegments: any[] = hasSegments ? segments : [{ start_time, end_time, starts_next_day }]
+    const shiftSegments: Array<{ start_time: string; end_time: string; starts_next_day: boolean }> = []
+    for (const segment of requestedSegments) {
+      if (!segment?.start_time || !segment?.end_time) {
+        return c.json({ error: 'Each segment requires start_time and end_time' }, 400)
+      }
+      const normalizedStartTime = normalizeTime(segment.start_time)
+      const normalizedEndTime = normalizeTime(segment.end_time)
+
+      if (!timeRegex.test(normalizedStartTime) || !timeRegex.test(normalizedEndTime)) {
+        return c.json({ error: 'Invalid time format. Use HH:MM format' }, 400)
+      }
+
+      if (normalizedEndTime === normalizedStartTime) {
+        return c.json({ error: 'start_time and end_time cannot be the same' }, 400)
+      }
+
+      shiftSegments.push({
+        start_time: normalizedStartTime,
+        end_time: normalizedEndTime,
+        starts_next_day: segment.starts_next_day === true,
+      })
     }
 
-    // Ensure end time is after start time (use normalized times)
-    if (normalizedEndTime <= normalizedStartTime) {
-      return c.json({ error: 'end_time must be after start_time' }, 400)
+    const overlapsWithinShift = shiftSegments.some((segment, index) =>
+      shiftSegments.slice(index + 1).some(other => shiftSegmentsOverlap(segment, other))
+    )
+    if (overlapsWithinShift) {
+      return c.json({ error: 'Shift segments cannot overlap' }, 400)
     }
 
     // Normalize daily check-in times if provided
@@ -342,8 +419,9 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
       if (!timeRegex.test(normalizedDailyStart) || !timeRegex.test(normalizedDailyEnd)) {
         return c.json({ error: 'Invalid daily check-in time format. Use HH:MM format' }, 400)
       }
-      if (normalizedDailyEnd <= normalizedDailyStart) {
-        return c.json({ error: 'daily_checkin_end_time must be after daily_checkin_start_time' }, 400)
+      // A window ending at or before its start runs past midnight
+      if (normalizedDailyEnd === normalizedDailyStart) {
+        return c.json({ error: 'daily_checkin_start_time and daily_checkin_end_time cannot be the same' }, 400)
       }
     }
 
@@ -404,6 +482,14 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
           new Date(start_date!),
           new Date(end_date!)
         )
+      } else if (isRuleMode) {
+        // For recurrence rules, check the first 90 days (or up to end_date)
+        const ruleEnd = expiryDate || addDaysToDateString(effectiveDate!, 90)
+        conflictingException = findConflictingException(
+          workerExceptions,
+          new Date(effectiveDate!),
+          new Date(ruleEnd)
+        )
       } else {
         // For single date schedules, check if the scheduled_date falls within an active exception
         const scheduleDate = new Date(scheduled_date!)
@@ -427,42 +513,67 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     }
 
     // Check for existing schedules to prevent duplicates
-    // Check both active and inactive schedules to prevent duplicates
+    // Check both active and inactive schedules - a day can hold several segments (split shift), but they can't overlap
     if (isRecurringMode) {
-      // Check for existing recurring schedules for the same days (any status, any time)
-      // A worker cannot have duplicate day_of_week schedules (e.g., two Monday schedules)
+      // Check for existing recurring schedules on the same days (any status) overlapping the new hours
       const { data: existingSchedules } = await adminClient
         .from('worker_schedules')
-        .select('id, day_of_week, is_active')
+        .select('id, day_of_week, start_time, end_time, starts_next_day, is_active')
         .eq('worker_id', worker_id)
         .in('day_of_week', recurringDays)
         .is('scheduled_date', null)
 
-      if (existingSchedules && existingSchedules.length > 0) {
-        const conflictingDays = existingSchedules.map(s => {
+      const overlapping = (existingSchedules || []).filter(existing =>
+        shiftSegments.some(segment => shiftSegmentsOverlap(existing, segment))
+      )
+
+      if (overlapping.length > 0) {
+        const conflictingDays = overlapping.map(s => {
           const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
           const status = s.is_active ? 'active' : 'inactive'
-          return `${dayNames[s.day_of_week]} (${status})`
+          return `${dayNames[s.day_of_week]} ${formatTimeRange(s)} (${status})`
         }).join(', ')
         return c.json({ 
           error: `Schedule already exists for this worker on: ${conflictingDays}. Please edit or activate the existing schedule instead.` 
         }, 409)
       }
+    } else if (isRuleMode) {
+      // Check for the same rule from the same start date (any status) overlapping the new hours
+      // Different rules may share hours - e.g. a 4-on-4-off block is four rules with staggered start dates
+      const { data: existingSchedules } = await adminClient
+        .from('worker_schedules')
+        .select('id, start_time, end_time, starts_next_day, is_active')
+        .eq('worker_id', worker_id)
+        .eq('recurrence_rule', recurrenceRule)
+        .eq('effective_date', effectiveDate)
+
+      const existingSchedule = (existingSchedules || []).find(existing =>
+        shiftSegments.some(segment => shiftSegmentsOverlap(existing, segment))
+      )
+
+      if (existingSchedule) {
+        const status = existingSchedule.is_active ? 'active' : 'inactive'
+        return c.json({ 
+          error: `Schedule already exists for this worker with recurrence ${recurrenceRule} from ${effectiveDate} ${formatTimeRange(existingSchedule)} (${status}). Please edit or activate the existing schedule instead.` 
+        }, 409)
+      }
     } else {
-      // Check for existing single-date schedule (any status, any time)
-      // A worker cannot have duplicate scheduled_date schedules
-      const { data: existingSchedule } = await adminClient
+      // Check for existing single-date schedules (any status) overlapping the new hours
+      const { data: existingSchedules } = await adminClient
         .from('worker_schedules')
-        .select('id, scheduled_date, is_active')
+        .select('id, scheduled_date, start_time, end_time, starts_next_day, is_active')
         .eq('worker_id', worker_id)
         .eq('scheduled_date', scheduled_date)
         .is('day_of_week', null)
-        .maybeSingle()
+
+      const existingSchedule = (existingSchedules || []).find(existing =>
+        shiftSegments.some(segment => shiftSegmentsOverlap(existing, segment))
+      )
 
       if (existingSchedule) {
         const status = existingSchedule.is_active ? 'active' : 'inactive'
         return c.json({ 
-          error: `Schedule already exists for this worker on ${scheduled_date} (${status}). Please edit or activate the existing schedule instead.` 
+          error: `Schedule already exists for this worker on ${scheduled_date} ${formatTimeRange(existingSchedule)} (${status}). Please edit or activate the existing schedule instead.` 
         }, 409)
       }
     }
@@ -471,8 +582,8 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     let schedulesToInsert: any[] = []
 
     if (isRecurringMode) {
-      // Create one record per day_of_week (not per date!)
-      schedulesToInsert = recurringDays.map(day => {
+      // Create one record per day_of_week and segment (not per date!)
+      schedulesToInsert = recurringDays.flatMap(day => shiftSegments.map(segment => {
         const scheduleData: any = {
           worker_id,
           team_id: team.id,
@@ -480,8 +591,9 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
           scheduled_date: null, // NULL for recurring schedules
           effective_date: effectiveDate,
           expiry_date: expiryDate,
-          start_time: normalizedStartTime,
-          end_time: normalizedEndTime,
+          start_time: segment.start_time,
+          end_time: segment.end_time,
+          starts_next_day: segment.starts_next_day,
           created_by: user.id,
           is_active: true,
         }
@@ -493,33 +605,66 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
         if (daily_checkin_end_time) scheduleData.daily_checkin_end_time = normalizedDailyEnd
         if (project_id) scheduleData.project_id = project_id
         if (notes) scheduleData.notes = notes
+        if (exclusionDates.length > 0) scheduleData.exclusion_dates = exclusionDates
+
+        return scheduleData
+      }))
+    } else if (isRuleMode) {
+      // One record per segment - the rule is expanded when schedules are matched
+      schedulesToInsert = shiftSegments.map(segment => {
+        const scheduleData: any = {
+          worker_id,
+          team_id: team.id,
+          day_of_week: null,
+          scheduled_date: null,
+          recurrence_rule: recurrenceRule,
+          effective_date: effectiveDate,
+          expiry_date: expiryDate,
+          start_time: segment.start_time,
+          end_time: segment.end_time,
+          starts_next_day: segment.starts_next_day,
+          created_by: user.id,
+          is_active: true,
+        }
+
+        if (check_in_window_start) scheduleData.check_in_window_start = normalizeTime(check_in_window_start)
+        if (check_in_window_end) scheduleData.check_in_window_end = normalizeTime(check_in_window_end)
+        if (requires_daily_checkin !== undefined) scheduleData.requires_daily_checkin = requires_daily_checkin
+        if (daily_checkin_start_time) scheduleData.daily_checkin_start_time = normalizedDailyStart
+        if (daily_checkin_end_time) scheduleData.daily_checkin_end_time = normalizedDailyEnd
+        if (project_id) scheduleData.project_id = project_id
+        if (notes) scheduleData.notes = notes
+        if (exclusionDates.length > 0) scheduleData.exclusion_dates = exclusionDates
 
         return scheduleData
       })
     } else {
-      // Single date schedule - create one record
-      const scheduleData: any = {
-        worker_id,
-        team_id: team.id,
-        scheduled_date: scheduled_date,
-        day_of_week: null, // NULL for single-date schedules
-        effective_date: null,
-        expiry_date: null,
-        start_time: normalizedStartTime,
-        end_time: normalizedEndTime,
-        created_by: user.id,
-        is_active: true,
-      }
+      // Single date schedule - create one record per segment
+      schedulesToInsert = shiftSegments.map(segment => {
+        const scheduleData: any = {
+          worker_id,
+          team_id: team.id,
+          scheduled_date: scheduled_date,
+          day_of_week: null, // NULL for single-date schedules
+          effective_date: null,
+          expiry_date: null,
+          start_time: segment.start_time,
+          end_time: segment.end_time,
+          starts_next_day: segment.starts_next_day,
+          created_by: user.id,
+          is_active: true,
+        }
 
-      if (check_in_window_start) scheduleData.check_in_window_start = normalizeTime(check_in_window_start)
-      if (check_in_window_end) scheduleData.check_in_window_end = normalizeTime(check_in_window_end)
-      if (requires_daily_checkin !== undefined) scheduleData.requires_daily_checkin = requires_daily_checkin
-      if (daily_checkin_start_time) scheduleData.daily_checkin_start_time = normalizedDailyStart
-      if (daily_checkin_end_time) scheduleData.daily_checkin_end_time = normalizedDailyEnd
-      if (project_id) scheduleData.project_id = project_id
-      if (notes) scheduleData.notes = notes
+        if (check_in_window_start) scheduleData.check_in_window_start = normalizeTime(check_in_window_start)
+        if (check_in_window_end) scheduleData.check_in_window_end = normalizeTime(check_in_window_end)
+        if (requires_daily_checkin !== undefined) scheduleData.requires_daily_checkin = requires_daily_checkin
+        if (daily_checkin_start_time) scheduleData.daily_checkin_start_time = normalizedDailyStart
+        if (daily_checkin_end_time) scheduleData.daily_checkin_end_time = normalizedDailyEnd
+        if (project_id) scheduleData.project_id = project_id
+        if (notes) scheduleData.notes = notes
 
-      schedulesToInsert = [scheduleData]
+        return scheduleData
+      })
     }
 
     const { data: createdSchedules, error: createError } = await adminClient
@@ -556,13 +701,13 @@ schedules.post('/workers', authMiddleware, requireRole(['team_leader']), async (
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
     const createdDays = isRecurringMode 
       ? recurringDays.map(d => dayNames[d]).join(', ')
-      : 'single date'
+      : isRuleMode ? `rule ${recurrenceRule}` : 'single date'
 
     return c.json({ 
       message: `Worker schedule${schedulesToInsert.length !== 1 ? 's' : ''} created successfully (${createdSchedules?.length || 0} recurring pattern${createdSchedules?.length !== 1 ? 's' : ''} for ${createdDays})`,
       schedules: createdSchedules || [],
       count: createdSchedules?.length || 0,
-      isRecurring: isRecurringMode
+      isRecurring: isRecurringMode || isRuleMode
     }, 201)
   } catch (error: any) {
     console.error('[POST /schedules/workers] Error:', error)
@@ -582,10 +727,13 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
     const { 
       scheduled_date,
       day_of_week,
+      recurrence_rule,
+      exclusion_dates,
       effective_date,
       expiry_date,
       start_time, 
       end_time,
+      starts_next_day,
       check_in_window_start,
       check_in_window_end,
       requires_daily_checkin,
@@ -601,7 +749,7 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
     // Get the schedule and verify ownership through team relationship
     const { data: schedule, error: scheduleError } = await adminClient
       .from('worker_schedules')
-      .select('worker_id, team_id, start_time, end_time, scheduled_date, day_of_week')
+      .select('worker_id, team_id, start_time, end_time, starts_next_day, scheduled_date, day_of_week, recurrence_rule, effective_date')
       .eq('id', scheduleId)
       .single()
 
@@ -647,9 +795,9 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
             conflictingException = workerExceptions.find(exc => 
               isExceptionActive(exc, checkDate)
             ) || null
-          } else if (schedule.day_of_week !== null) {
-            // Recurring schedule - check next 7 days for conflicts
-            const today = new Date()
+          } else if (schedule.day_of_week !== null || schedule.recurrence_rule) {
+            // Recurring schedule - check next 7 days (at the team's site) for conflicts
+            const today = parseDateString(getTodayInTimeZone(await getTeamTimeZone(schedule.team_id)))
             const nextWeek = new Date(today)
             nextWeek.setDate(nextWeek.getDate() + 7)
             conflictingException = findConflictingException(workerExceptions, today, nextWeek)
@@ -662,13 +810,14 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
           ) || null
         } else if (effective_date !== undefined || expiry_date !== undefined) {
           // Updating date range for recurring schedule
-          const startDate = effective_date ? new Date(effective_date) : new Date()
+          const startDate = effective_date ? new Date(effective_date) : parseDateString(getTodayInTimeZone(await getTeamTimeZone(schedule.team_id)))
           const endDate = expiry_date ? new Date(expiry_date) : new Date(startDate.getTime() + 90 * 24 * 60 * 60 * 1000) // 90 days ahead
           conflictingException = findConflictingException(workerExceptions, startDate, endDate)
         } else {
-          // General update - check today
+          // General update - check today (at the team's site)
+          const today = parseDateString(getTodayInTimeZone(await getTeamTimeZone(schedule.team_id)))
           conflictingException = workerExceptions.find(exc => 
-            isExceptionActive(exc, new Date())
+            isExceptionActive(exc, today)
           ) || null
         }
         
@@ -726,59 +875,53 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
       }
     }
     
-    // Validate schedule type constraint: must have either scheduled_date OR day_of_week, not both
+    if (exclusion_dates !== undefined) {
+      const { data: exclusionDates, error: exclusionError } = normalizeExclusionDates(exclusion_dates)
+      if (exclusionError) {
+        return c.json({ error: exclusionError }, 400)
+      }
+      updateData.exclusion_dates = exclusionDates.length > 0 ? exclusionDates : null
+    }
+
+    // Recurrence rule replaces scheduled_date / day_of_week (DTSTART and EXDATE lines fill in the dates not sent)
+    if (recurrence_rule !== undefined) {
+      if (!recurrence_rule) {
+        updateData.recurrence_rule = null
+      } else {
+        const { data: recurrence, error: recurrenceError } = parseICalendarRecurrence(recurrence_rule)
+        if (recurrenceError || !recurrence) {
+          return c.json({ error: `Invalid recurrence rule: ${recurrenceError}` }, 400)
+        }
+        updateData.recurrence_rule = recurrence.rule
+        updateData.scheduled_date = null
+        updateData.day_of_week = null
+        if (effective_date === undefined && recurrence.dtstart) {
+          updateData.effective_date = recurrence.dtstart
+        }
+        if (exclusion_dates === undefined && recurrence.exclusionDates.length > 0) {
+          updateData.exclusion_dates = recurrence.exclusionDates
+        }
+      }
+    }
+
+    // Validate schedule type constraint: exactly one of scheduled_date, day_of_week or recurrence_rule
     const finalScheduledDate = updateData.scheduled_date !== undefined ? updateData.scheduled_date : schedule.scheduled_date
     const finalDayOfWeek = updateData.day_of_week !== undefined ? updateData.day_of_week : schedule.day_of_week
+    const finalRecurrenceRule = updateData.recurrence_rule !== undefined ? updateData.recurrence_rule : schedule.recurrence_rule
+    const finalEffectiveDate = updateData.effective_date !== undefined ? updateData.effective_date : schedule.effective_date
     
-    if (finalScheduledDate !== null && finalDayOfWeek !== null) {
-      return c.json({ error: 'Schedule must be either single-date (scheduled_date) OR recurring (day_of_week), not both' }, 400)
+    if ([finalScheduledDate, finalDayOfWeek, finalRecurrenceRule].filter(value => value !== null && value !== undefined).length > 1) {
+      return c.json({ error: 'Schedule must be either single-date (scheduled_date), recurring (day_of_week) OR a recurrence rule, not several' }, 400)
     }
     
-    if (finalScheduledDate === null && finalDayOfWeek === null) {
-      return c.json({ error: 'Schedule must have either scheduled_date or day_of_week' }, 400)
+    if (finalScheduledDate === null && finalDayOfWeek === null && !finalRecurrenceRule) {
+      return c.json({ error: 'Schedule must have either scheduled_date, day_of_week or recurrence_rule' }, 400)
     }
 
-    // Check for duplicate schedules when changing day/date
-    // Prevent updating to a day/date that already exists for this worker
-    if (finalDayOfWeek !== null && finalDayOfWeek !== schedule.day_of_week) {
-      // Changing to a recurring schedule - check if worker already has this day_of_week
-      const { data: existingSchedule } = await adminClient
-        .from('worker_schedules')
-        .select('id, day_of_week, is_active')
-        .eq('worker_id', schedule.worker_id)
-        .eq('day_of_week', finalDayOfWeek)
-        .is('scheduled_date', null)
-        .neq('id', scheduleId)
-        .maybeSingle()
-
-      if (existingSchedule) {
-        const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-        const status = existingSchedule.is_active ? 'active' : 'inactive'
-        return c.json({ 
-          error: `Schedule already exists for this worker on ${dayNames[finalDayOfWeek]} (${status}). Please edit or activate the existing schedule instead.` 
-        }, 409)
-      }
+    if (finalRecurrenceRule && !finalEffectiveDate) {
+      return c.json({ error: 'effective_date is required for a recurrence rule' }, 400)
     }
-    
-    if (finalScheduledDate !== null && finalScheduledDate !== schedule.scheduled_date) {
-      // Changing to a single-date schedule - check if worker already has this scheduled_date
-      const { data: existingSchedule } = await adminClient
-        .from('worker_schedules')
-        .select('id, scheduled_date, is_active')
-        .eq('worker_id', schedule.worker_id)
-        .eq('scheduled_date', finalScheduledDate)
-        .is('day_of_week', null)
-        .neq('id', scheduleId)
-        .maybeSingle()
 
-      if (existingSchedule) {
-        const status = existingSchedule.is_active ? 'active' : 'inactive'
-        return c.json({ 
-          error: `Schedule already exists for this worker on ${finalScheduledDate} (${status}). Please edit or activate the existing schedule instead.` 
-        }, 409)
-      }
-    }
-    
     // Helper to normalize time format (HH:MM or HH:MM:SS -> HH:MM)
     const normalizeTime = (time: string | null | undefined): string | null => {
       if (!time) return null
@@ -844,6 +987,7 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
       const normalized = normalizeTime(daily_checkin_end_time)
       updateData.daily_checkin_end_time = normalized
     }
+    if (starts_next_day !== undefined) updateData.starts_next_day = starts_next_day === true
     if (project_id !== undefined) updateData.project_id = project_id || null
     if (is_active !== undefined) updateData.is_active = is_active
     if (notes !== undefined) updateData.notes = notes || null
@@ -867,8 +1011,9 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
           if (!timeRegex.test(normalizedStart) || !timeRegex.test(normalizedEnd)) {
             return c.json({ error: 'Invalid daily check-in time format. Use HH:MM format' }, 400)
           }
-          if (normalizedEnd <= normalizedStart) {
-            return c.json({ error: 'daily_checkin_end_time must be after daily_checkin_start_time' }, 400)
+          // A window ending at or before its start runs past midnight
+          if (normalizedEnd === normalizedStart) {
+            return c.json({ error: 'daily_checkin_start_time and daily_checkin_end_time cannot be the same' }, 400)
           }
           // Update normalized values
           updateData.daily_checkin_start_time = normalizedStart
@@ -877,11 +1022,43 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
       }
     }
 
-    // Validate that end_time is after start_time
-    const finalStartTime = updateData.start_time || schedule.start_time
-    const finalEndTime = updateData.end_time || schedule.end_time
-    if (finalEndTime <= finalStartTime) {
-      return c.json({ error: 'end_time must be after start_time' }, 400)
+    // Validate shift hours - a shift ending at or before its start time runs past midnight
+    const finalSegment = {
+      start_time: updateData.start_time || schedule.start_time,
+      end_time: updateData.end_time || schedule.end_time,
+      starts_next_day: updateData.starts_next_day !== undefined ? updateData.starts_next_day : schedule.starts_next_day,
+    }
+    if (finalSegment.start_time.slice(0, 5) === finalSegment.end_time.slice(0, 5)) {
+      return c.json({ error: 'start_time and end_time cannot be the same' }, 400)
+    }
+
+    // Check for overlapping schedules on the final day/date (any status)
+    // A day can hold several segments (split shift), but they can't overlap
+    // For recurrence rules only the same rule from the same start date conflicts
+    let existingQuery = adminClient
+      .from('worker_schedules')
+      .select('id, scheduled_date, day_of_week, start_time, end_time, starts_next_day, is_active')
+      .eq('worker_id', schedule.worker_id)
+      .neq('id', scheduleId)
+    if (finalRecurrenceRule) {
+      existingQuery = existingQuery.eq('recurrence_rule', finalRecurrenceRule).eq('effective_date', finalEffectiveDate)
+    } else if (finalDayOfWeek !== null) {
+      existingQuery = existingQuery.eq('day_of_week', finalDayOfWeek).is('scheduled_date', null)
+    } else {
+      existingQuery = existingQuery.eq('scheduled_date', finalScheduledDate).is('day_of_week', null)
+    }
+    const { data: existingSchedules } = await existingQuery
+
+    const existingSchedule = (existingSchedules || []).find(existing => shiftSegmentsOverlap(existing, finalSegment))
+    if (existingSchedule) {
+      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+      const dayLabel = finalRecurrenceRule
+        ? `recurrence ${finalRecurrenceRule} from ${finalEffectiveDate}`
+        : finalDayOfWeek !== null ? dayNames[finalDayOfWeek] : finalScheduledDate
+      const status = existingSchedule.is_active ? 'active' : 'inactive'
+      return c.json({ 
+        error: `Schedule already exists for this worker on ${dayLabel} ${formatTimeRange(existingSchedule)} (${status}). Please edit or activate the existing schedule instead.` 
+      }, 409)
     }
 
     const { data, error } = await adminClient
@@ -908,6 +1085,301 @@ schedules.put('/workers/:id', authMiddleware, requireRole(['team_leader']), asyn
   }
 })
 
+// Import a roster (Team Leader only)
+// Body: { rows } (spreadsheet rows keyed by header, e.g. parsed from XLSX) or { csv } (CSV text)
+// dryRun (default true) returns the diff - creates, updates, unchanged and conflicts - without writing.
+// With dryRun false the diff is rebuilt and written in one transaction; any conflict rejects the import.
+schedules.post('/import', authMiddleware, requireRole(['team_leader']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { rows, csv, dryRun = true } = await c.req.json()
+
+    let rosterRows: Record<string, unknown>[]
+    if (typeof csv === 'string') {
+      const { data, error: csvError } = parseRosterCsv(csv)
+      if (csvError) {
+        return c.json({ error: csvError }, 400)
+      }
+      rosterRows = data
+    } else if (Array.isArray(rows)) {
+      rosterRows = rows
+    } else {
+      return c.json({ error: 'Provide the roster as rows or csv' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: team, error: teamError } = await adminClient
+      .from('teams')
+      .select('id')
+      .eq('team_leader_id', user.id)
+      .single()
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found' }, 404)
+    }
+
+    const { data: plan, error: planError } = await buildRosterImportPlan(team.id, rosterRows)
+    if (planError || !plan) {
+      return c.json({ error: planError || 'Failed to read roster' }, 400)
+    }
+
+    if (dryRun !== false) {
+      return c.json({ dryRun: true, ...plan })
+    }
+
+    if (plan.conflicts.length > 0) {
+      return c.json({
+        error: `Roster has ${plan.conflicts.length} conflict(s). Fix them and import again - nothing was imported.`,
+        dryRun: false,
+        ...plan,
+      }, 409)
+    }
+
+    if (plan.creates.length === 0 && plan.updates.length === 0) {
+      return c.json({ message: 'Roster is already up to date', created: 0, updated: 0, summary: plan.summary })
+    }
+
+    const { data: result, error: importError } = await applyRosterImportPlan(plan, team.id, user.id)
+    if (importError || !result) {
+      console.error('[POST /schedules/import] Error:', importError)
+      return c.json({ error: 'Failed to import roster - nothing was imported', details: importError?.message }, 500)
+    }
+
+    return c.json({
+      message: `Roster imported: ${result.created} created, ${result.updated} updated`,
+      created: result.created,
+      updated: result.updated,
+      summary: plan.summary,
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /schedules/import] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Export a schedule's recurrence as iCalendar (DTSTART, RRULE, EXDATE) - Team Leader only
+schedules.get('/workers/:id/recurrence', authMiddleware, requireRole(['team_leader']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const scheduleId = c.req.param('id')
+    const adminClient = getAdminClient()
+
+    const { data: schedule, error: scheduleError } = await adminClient
+      .from('worker_schedules')
+      .select('id, team_id, scheduled_date, day_of_week, recurrence_rule, exclusion_dates, effective_date, expiry_date')
+      .eq('id', scheduleId)
+      .single()
+
+    if (scheduleError || !schedule) {
+      return c.json({ error: 'Schedule not found' }, 404)
+    }
+
+    const { data: team } = await adminClient
+      .from('teams')
+      .select('id')
+      .eq('id', schedule.team_id)
+      .eq('team_leader_id', user.id)
+      .maybeSingle()
+
+    if (!team) {
+      return c.json({ error: 'Unauthorized - you can only view schedules for workers in your team' }, 403)
+    }
+
+    const recurrence = formatICalendarRecurrence(schedule)
+    if (!recurrence) {
+      return c.json({ error: 'Single-date schedules have no recurrence to export' }, 400)
+    }
+
+    return c.json({ recurrence })
+  } catch (error: any) {
+    console.error('[GET /schedules/workers/:id/recurrence] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// ============================================
+// Site Holiday Endpoints
+// Public holidays per team - workers stay rostered, but no check-in is required
+// ============================================
+
+// Get team holidays (Team Leader)
+schedules.get('/holidays', authMiddleware, requireRole(['team_leader']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: team, error: teamError } = await adminClient
+      .from('teams')
+      .select('id, timezone')
+      .eq('team_leader_id', user.id)
+      .single()
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found' }, 404)
+    }
+
+    // Default: from today (at the site) for a year
+    const todayStr = getTodayInTimeZone(isValidTimeZone(team.timezone) ? team.timezone : getDefaultTimeZone())
+    const startDate = (c.req.query('startDate') || todayStr).split('T')[0]
+    if (!isCalendarDateString(startDate)) {
+      return c.json({ error: 'startDate must be a valid date (YYYY-MM-DD)' }, 400)
+    }
+    const endDate = (c.req.query('endDate') || addDaysToDateString(startDate, 365)).split('T')[0]
+    if (!isCalendarDateString(endDate)) {
+      return c.json({ error: 'endDate must be a valid date (YYYY-MM-DD)' }, 400)
+    }
+
+    const { data: holidays, error } = await adminClient
+      .from('site_holidays')
+      .select('id, holiday_date, name, created_at')
+      .eq('team_id', team.id)
+      .gte('holiday_date', startDate)
+      .lte('holiday_date', endDate)
+      .order('holiday_date', { ascending: true })
+
+    if (error) {
+      console.error('[GET /schedules/holidays] Error:', error)
+      return c.json({ error: 'Failed to fetch holidays', details: error.message }, 500)
+    }
+
+    return c.json({ holidays: holidays || [] })
+  } catch (error: any) {
+    console.error('[GET /schedules/holidays] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Add team holidays (Team Leader)
+// Accepts a single { date, name }, a list in `holidays`, or an iCalendar file's text in `ics`
+// Dates that already have a holiday are renamed rather than duplicated
+schedules.post('/holidays', authMiddleware, requireRole(['team_leader']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { date, name, holidays, ics } = await c.req.json()
+
+    let entries: Array<{ date: string; name: string }> = []
+    if (ics) {
+      const { data: parsed, error: parseError } = parseHolidayCalendar(ics)
+      if (parseError) {
+        return c.json({ error: parseError }, 400)
+      }
+      entries = parsed
+    } else if (Array.isArray(holidays)) {
+      entries = holidays
+    } else if (date) {
+      entries = [{ date, name }]
+    } else {
+      return c.json({ error: 'Provide date and name, holidays, or ics' }, 400)
+    }
+
+    const invalid = entries.find(entry =>
+      !entry || !isCalendarDateString(entry.date) ||
+      typeof entry.name !== 'string' || !entry.name.trim()
+    )
+    if (invalid) {
+      return c.json({ error: 'Each holiday needs a date (YYYY-MM-DD) and a name' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: team, error: teamError } = await adminClient
+      .from('teams')
+      .select('id')
+      .eq('team_leader_id', user.id)
+      .single()
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found' }, 404)
+    }
+
+    // One row per date (last name wins)
+    const byDate = new Map<string, string>()
+    entries.forEach(entry => byDate.set(entry.date, entry.name.trim().slice(0, 200)))
+    const rows = Array.from(byDate.entries()).map(([holidayDate, holidayName]) => ({
+      team_id: team.id,
+      holiday_date: holidayDate,
+      name: holidayName,
+      created_by: user.id,
+    }))
+
+    const { data, error } = await adminClient
+      .from('site_holidays')
+      .upsert(rows, { onConflict: 'team_id,holiday_date' })
+      .select('id, holiday_date, name, created_at')
+
+    if (error) {
+      console.error('[POST /schedules/holidays] Error:', error)
+      return c.json({ error: 'Failed to save holidays', details: error.message }, 500)
+    }
+
+    return c.json({
+      message: `${rows.length} holiday(s) saved`,
+      holidays: data || [],
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /schedules/holidays] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Remove a team holiday (Team Leader)
+schedules.delete('/holidays/:id', authMiddleware, requireRole(['team_leader']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const holidayId = c.req.param('id')
+    const adminClient = getAdminClient()
+
+    const { data: team, error: teamError } = await adminClient
+      .from('teams')
+      .select('id')
+      .eq('team_leader_id', user.id)
+      .single()
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found' }, 404)
+    }
+
+    const { data, error } = await adminClient
+      .from('site_holidays')
+      .delete()
+      .eq('id', holidayId)
+      .eq('team_id', team.id)
+      .select('id')
+
+    if (error) {
+      console.error('[DELETE /schedules/holidays/:id] Error:', error)
+      return c.json({ error: 'Failed to delete holiday', details: error.message }, 500)
+    }
+
+    if (!data || data.length === 0) {
+      return c.json({ error: 'Holiday not found' }, 404)
+    }
+
+    return c.json({ message: 'Holiday removed' })
+  } catch (error: any) {
+    console.error('[DELETE /schedules/holidays/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 // NOTE: DELETE endpoint removed - Use PUT with is_active toggle instead
 // Schedules can be activated/deactivated via PUT /workers/:id with is_active field
 
@@ -2,9 +2,10 @@ import { Hono } from 'hono'
 import bcrypt from 'bcrypt'
 import { supabase } from '../lib/supabase.js'
 import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
-import { getCaseStatusFromNotes } from '../utils/caseStatus.js'
-import { parseIncidentNotes, extractReturnToWorkData } from '../utils/notesParser.js'
+import { getCaseStatus } from '../utils/caseStatus.js'
+import { CASE_FIELDS, getCaseFields } from '../utils/cases.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { createNotifications } from '../utils/notificationHub.js'
 import { isValidEmail } from '../middleware/security.js'
 // Import optimized utility functions
 import { getTodayDateString, getTodayDate, getStartOfWeekDateString, getFirstDayOfMonthString, dateToDateString } from '../utils/dateUtils.js'
@@ -13,6 +14,12 @@ import { isExceptionActive, getWorkersWithActiveExceptions } from '../utils/exce
 import { formatTeamLeader, formatUserFullName, getUserInitials } from '../utils/userUtils.js'
 import { encodeCursor, decodeCursor, extractCursorDate } from '../utils/cursorPagination.js'
 import { calculateAge, MINIMUM_AGE } from '../utils/ageUtils.js'
+import { DEFAULT_READINESS_RULES, getActiveReadinessRules, validateReadinessRulesInput, createReadinessRuleVersion } from '../utils/readinessScoring.js'
+import { getDefaultTimeZone, isValidTimeZone } from '../utils/timezone.js'
+import { getScheduledDatesInRange } from '../utils/scheduleUtils.js'
+import { getHolidaysByTeam } from '../utils/siteHolidays.js'
+import { autoAssignCase } from '../utils/clinicianAssignment.js'
+import { getCaseSlaTimers } from '../utils/caseSla.js'
 
 const supervisor = new Hono<{ Variables: AuthVariables }>()
 
@@ -353,7 +360,7 @@ supervisor.post('/team-leaders', authMiddleware, requireRole(['supervisor']), as
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const { email, password, first_name, last_name, team_name, site_location, gender, date_of_birth } = await c.req.json()
+    const { email, password, first_name, last_name, team_name, site_location, timezone, gender, date_of_birth } = await c.req.json()
 
     // SECURITY: Comprehensive input validation
     if (!isValidEmail(email)) {
@@ -385,6 +392,10 @@ supervisor.post('/team-leaders', authMiddleware, requireRole(['supervisor']), as
       ? site_location.trim().slice(0, 200) 
       : null
 
+    if (timezone && !isValidTimeZone(timezone)) {
+      return c.json({ error: 'Invalid timezone. Use an IANA timezone such as Australia/Perth' }, 400)
+    }
+
     // Validate gender
     if (gender && gender !== 'male' && gender !== 'female') {
       return c.json({ error: 'Gender must be either "male" or "female"' }, 400)
@@ -492,6 +503,7 @@ supervisor.post('/team-leaders', authMiddleware, requireRole(['supervisor']), as
       first_name: trimmedFirstName,
       last_name: trimmedLastName,
       full_name: fullName,
+      organization_id: user.organization_id, // Same organization as the supervisor
       business_name: inheritedBusinessName || null, // Inherit from supervisor
       business_registration_number: inheritedBusinessRegNumber || null, // Inherit from supervisor
       created_at: new Date().toISOString(),
@@ -547,8 +559,10 @@ supervisor.post('/team-leaders', authMiddleware, requireRole(['supervisor']), as
         {
           team_leader_id: userData.id,
           supervisor_id: user.id, // Assign to this supervisor
+          organization_id: user.organization_id,
           name: teamNameValidation.value!,
           site_location: trimmedSiteLocation,
+          timezone: timezone || getDefaultTimeZone(),
         },
       ])
       .select()
@@ -580,6 +594,7 @@ supervisor.post('/team-leaders', authMiddleware, requireRole(['supervisor']), as
         id: team.id,
         name: team.name,
         site_location: team.site_location,
+        timezone: team.timezone,
       },
     }, 201)
   } catch (error: any) {
@@ -601,7 +616,7 @@ supervisor.get('/teams', authMiddleware, requireRole(['supervisor']), async (c)
     // Get all teams assigned to this supervisor
     const { data: teams, error: teamsError } = await adminClient
       .from('teams')
-      .select('id, name, site_location, team_leader_id, created_at')
+      .select('id, name, site_location, timezone, team_leader_id, created_at')
       .eq('supervisor_id', user.id)
       .order('created_at', { ascending: false })
 
@@ -709,6 +724,7 @@ supervisor.get('/teams', authMiddleware, requireRole(['supervisor']), async (c)
           id: team.id,
           name: team.name,
           siteLocation: team.site_location,
+          timezone: team.timezone || getDefaultTimeZone(),
           teamLeader: teamLeader ? formatTeamLeader(teamLeader) : null,
           memberCount, // Total members including those with exceptions
           activeMemberCount, // Members without active exceptions (should be used for compliance calculation)
@@ -1036,6 +1052,137 @@ supervisor.get('/teams/:teamId/members', authMiddleware, requireRole(['superviso
   }
 })
 
+// Get readiness rules for a team (active rules + version history)
+supervisor.get('/teams/:teamId/readiness-rules', authMiddleware, requireRole(['supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const teamId = c.req.param('teamId')
+
+    // SECURITY: Validate teamId format (UUID)
+    const teamIdValidation = validateTeamId(teamId)
+    if (!teamIdValidation.valid) {
+      return c.json({ error: teamIdValidation.error }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    const [
+      { data: team, error: teamError },
+      { data: versions, error: versionsError },
+    ] = await Promise.all([
+      adminClient
+        .from('teams')
+        .select('id, name, supervisor_id')
+        .eq('id', teamId)
+        .eq('supervisor_id', user.id)
+        .single(),
+      adminClient
+        .from('readiness_rule_sets')
+        .select('id, version, is_active, notes, created_by, created_at')
+        .eq('team_id', teamId)
+        .order('version', { ascending: false }),
+    ])
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found or unauthorized' }, 404)
+    }
+
+    if (versionsError) {
+      console.error('[GET /supervisor/teams/:teamId/readiness-rules] Error fetching versions:', versionsError)
+      return c.json({ error: 'Failed to fetch readiness rules', details: versionsError.message }, 500)
+    }
+
+    const rules = await getActiveReadinessRules(teamId)
+
+    return c.json({
+      teamId,
+      rules,
+      isDefault: rules.id === null,
+      defaults: DEFAULT_READINESS_RULES,
+      versions: versions || [],
+    })
+  } catch (error: any) {
+    console.error('[GET /supervisor/teams/:teamId/readiness-rules] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Publish a new readiness rules version for a team
+// Previous versions are kept so historical check-ins remain auditable
+supervisor.post('/teams/:teamId/readiness-rules', authMiddleware, requireRole(['supervisor']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const teamId = c.req.param('teamId')
+
+    // SECURITY: Validate teamId format (UUID)
+    const teamIdValidation = validateTeamId(teamId)
+    if (!teamIdValidation.valid) {
+      return c.json({ error: teamIdValidation.error }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    const { data: team, error: teamError } = await adminClient
+      .from('teams')
+      .select('id, name, supervisor_id')
+      .eq('id', teamId)
+      .eq('supervisor_id', user.id)
+      .single()
+
+    if (teamError || !team) {
+      return c.json({ error: 'Team not found or unauthorized' }, 404)
+    }
+
+    const body = await c.req.json()
+
+    let notes: string | null = null
+    if (body.notes) {
+      const notesValidation = validateStringInput(body.notes, 500, 'Notes')
+      if (!notesValidation.valid) {
+        return c.json({ error: notesValidation.error }, 400)
+      }
+      notes = notesValidation.value
+    }
+
+    // Unspecified fields carry over from the currently active version
+    const currentRules = await getActiveReadinessRules(teamId)
+    const validation = validateReadinessRulesInput(body, currentRules)
+    if (!validation.valid) {
+      return c.json({ error: validation.error }, 400)
+    }
+
+    const { data: rules, error: createError } = await createReadinessRuleVersion(
+      teamId,
+      validation.rules,
+      user.id,
+      notes
+    )
+
+    if (createError || !rules) {
+      console.error('[POST /supervisor/teams/:teamId/readiness-rules] Error creating version:', createError)
+      return c.json({ error: 'Failed to save readiness rules', details: createError }, 500)
+    }
+
+    console.log(`[POST /supervisor/teams/:teamId/readiness-rules] Supervisor ${user.id} published readiness rules v${rules.version} for team ${team.name}`)
+
+    return c.json({
+      message: 'Readiness rules updated successfully',
+      rules,
+    }, 201)
+  } catch (error: any) {
+    console.error('[POST /supervisor/teams/:teamId/readiness-rules] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
 // Get supervisor analytics (aggregated across all teams)
 // IMPORTANT: This endpoint calculates analytics ONLY for teams assigned to the supervisor
 // - Supervisor monitors compliance of team leaders and their workers
@@ -1231,7 +1378,7 @@ supervisor.get('/analytics', authMiddleware, requireRole(['supervisor']), async
         .lte('incident_date', endDate),
       adminClient
         .from('worker_schedules')
-        .select('worker_id, scheduled_date, day_of_week, effective_date, expiry_date, is_active')
+        .select('worker_id, team_id, scheduled_date, day_of_week, recurrence_rule, exclusion_dates, effective_date, expiry_date, is_active')
         .in('worker_id', allWorkerIds),
       adminClient
         .from('daily_checkins')
@@ -1259,43 +1406,17 @@ supervisor.get('/analytics', authMiddleware, requireRole(['supervisor']), async
     // Filter to only ACTIVE schedules (same logic as team leader analytics)
     const activeSchedules = (allWorkerSchedules || []).filter((s: any) => s.is_active === true)
     
-    // Process schedules to build the date map (supports both single-date and recurring)
+    // Process schedules to build the date map (single-date, weekly and RRULE schedules, expanded exactly)
+    // Site holidays need no check-in, so they aren't expected
+    const holidaysByTeam = await getHolidaysByTeam(activeSchedules.map((schedule: any) => schedule.team_id), startDate, endDate)
     activeSchedules.forEach((schedule: any) => {
-      // Single-date schedule
-      if (schedule.scheduled_date && (schedule.day_of_week === null || schedule.day_of_week === undefined)) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        if (scheduleDate >= start && scheduleDate <= end) {
-      const dateStr = schedule.scheduled_date
-      if (!schedulesByDate.has(dateStr)) {
-        schedulesByDate.set(dateStr, new Set())
-        }
-      schedulesByDate.get(dateStr)!.add(schedule.worker_id)
-        }
-      }
-      // Recurring schedule: calculate all matching dates
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date) : start
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date) : end
-        expiryDate.setHours(23, 59, 59, 999)
-        
-        const scheduleStart = effectiveDate > start ? effectiveDate : start
-        const scheduleEnd = expiryDate < end ? expiryDate : end
-        
-        // Calculate all dates that match the day_of_week within the effective range
-        for (let d = new Date(scheduleStart); d <= scheduleEnd; d.setDate(d.getDate() + 1)) {
-          const dayOfWeek = d.getDay() // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-          
-          // Check if this date matches the schedule's day_of_week
-          if (dayOfWeek === schedule.day_of_week) {
-            const dateStr = dateToDateString(d)
-            if (!schedulesByDate.has(dateStr)) {
-              schedulesByDate.set(dateStr, new Set())
-            }
-            schedulesByDate.get(dateStr)!.add(schedule.worker_id)
-          }
+      getScheduledDatesInRange([schedule], startDate, endDate, holidaysByTeam.get(schedule.team_id)).forEach(dateStr => {
+        if (!schedulesByDate.has(dateStr)) {
+          schedulesByDate.set(dateStr, new Set())
         }
-      }
+        schedulesByDate.get(dateStr)!.add(schedule.worker_id)
       })
+    })
     
     // Add check-ins (preserve workers with check-ins even if schedule was deleted)
     checkInsForSchedules.forEach((checkIn: any) => {
@@ -1941,6 +2062,12 @@ supervisor.get('/incidents', authMiddleware, requireRole(['supervisor']), async
       }
     })
 
+    // SLA timers for incidents on the WHS clock (not fatal)
+    const { data: slaTimersByCase, error: slaError } = await getCaseSlaTimers(incidents || [])
+    if (slaError) {
+      console.error('[GET /supervisor/incidents] Error computing SLA timers:', slaError)
+    }
+
     // Format incidents
     let formattedIncidents = (incidents || []).map((incident: any) => {
       const user = Array.isArray(incident.users) ? incident.users[0] : incident.users
@@ -1951,21 +2078,8 @@ supervisor.get('/incidents', authMiddleware, requireRole(['supervisor']), async
       const endDate = incident.end_date ? new Date(incident.end_date) : null
       const isCurrentlyActive = todayDate >= startDate && (!endDate || todayDate <= endDate) && incident.is_active
 
-      // OPTIMIZATION: Use centralized notes parser
-      const caseStatus = getCaseStatusFromNotes(incident.notes)
-      const parsedNotes = parseIncidentNotes(incident.notes)
-      const returnToWorkData = extractReturnToWorkData(
-        incident.notes,
-        incident.return_to_work_duty_type,
-        incident.return_to_work_date
-      )
-      
-      const approvedBy = parsedNotes?.approved_by || null
-      const approvedAt = parsedNotes?.approved_at || null
-      const returnToWorkDutyType = returnToWorkData.dutyType
-      const returnToWorkDate = returnToWorkData.returnDate
-      const clinicalNotes = parsedNotes?.clinical_notes || null
-      const clinicalNotesUpdatedAt = parsedNotes?.clinical_notes_updated_at || null
+      const caseStatus = getCaseStatus(incident)
+      const caseFields = getCaseFields(incident)
 
       return {
         id: incident.id,
@@ -1985,6 +2099,7 @@ supervisor.get('/incidents', authMiddleware, requireRole(['supervisor']), async
         endDate: incident.end_date,
         isActive: isCurrentlyActive,
         assignedToWhs: incident.assigned_to_whs || false,
+        sla: slaTimersByCase.get(incident.id)?.[0] || null,
         clinicianId: incident.clinician_id || null,
         clinicianName: clinician ? (clinician.full_name || 
                    (clinician.first_name && clinician.last_name 
@@ -1993,12 +2108,12 @@ supervisor.get('/incidents', authMiddleware, requireRole(['supervisor']), async
         clinicianEmail: clinician?.email || null,
         caseStatus: caseStatus,
         notes: incident.notes || null,
-        approvedBy: approvedBy,
-        approvedAt: approvedAt,
-        returnToWorkDutyType: returnToWorkDutyType || incident.return_to_work_duty_type || null,
-        returnToWorkDate: returnToWorkDate || incident.return_to_work_date || null,
-        clinicalNotes: clinicalNotes,
-        clinicalNotesUpdatedAt: clinicalNotesUpdatedAt,
+        approvedBy: caseFields.approvedBy,
+        approvedAt: caseFields.approvedAt,
+        returnToWorkDutyType: incident.return_to_work_duty_type || null,
+        returnToWorkDate: incident.return_to_work_date || null,
+        clinicalNotes: caseFields.clinicalNotes,
+        clinicalNotesUpdatedAt: caseFields.clinicalNotesUpdatedAt,
         createdAt: incident.created_at,
         updatedAt: incident.updated_at,
       }
@@ -2134,15 +2249,14 @@ supervisor.post('/incidents', authMiddleware, requireRole(['supervisor']), async
     // Check if worker already has active exception (excluding closed cases)
     const { data: existingException, error: existingError } = await adminClient
       .from('worker_exceptions')
-      .select('id, notes, is_active, deactivated_at')
+      .select('id, case_status, is_active, deactivated_at')
       .eq('user_id', workerId)
       .eq('is_active', true)
       .maybeSingle()
 
     if (existingException) {
-      // Check if case is closed (case_status in notes)
-      // OPTIMIZATION: Use centralized notes parser
-      const caseStatus = getCaseStatusFromNotes(existingException.notes)
+      // Check if case is closed
+      const caseStatus = getCaseStatus(existingException)
       let isClosed = caseStatus === 'closed' || caseStatus === 'return_to_work'
       
       // Also check deactivated_at timestamp (if case was closed by supervisor)
@@ -2196,6 +2310,7 @@ supervisor.post('/incidents', authMiddleware, requireRole(['supervisor']), async
       .insert([{
         user_id: workerId,
         team_id: teamId,
+        organization_id: user.organization_id,
         exception_type: type,
         reason: reason || '',
         start_date: startDate,
@@ -2300,9 +2415,7 @@ supervisor.post('/incidents', authMiddleware, requireRole(['supervisor']), async
 
       // Insert notifications in batch
       if (notifications.length > 0) {
-        const { error: notifyError } = await adminClient
-          .from('notifications')
-          .insert(notifications)
+        const { error: notifyError } = await createNotifications(notifications)
 
         if (notifyError) {
           console.error('[POST /supervisor/incidents] Error creating notifications:', notifyError)
@@ -2393,6 +2506,7 @@ supervisor.patch('/incidents/:incidentId/assign-to-whs', authMiddleware, require
       .from('worker_exceptions')
       .update({
         assigned_to_whs: true,
+        assigned_to_whs_at: new Date().toISOString(),
       })
       .eq('id', incidentId)
       .select()
@@ -2403,6 +2517,17 @@ supervisor.patch('/incidents/:incidentId/assign-to-whs', authMiddleware, require
       return c.json({ error: 'Failed to assign incident to WHS', details: updateError.message }, 500)
     }
 
+    // Organization policy may pick a clinician straight away (round robin / best match)
+    let autoAssignedClinicianId: string | null = null
+    if (updated.organization_id) {
+      const { data: assignedClinicianId, error: autoAssignError } = await autoAssignCase(incidentId, updated.organization_id)
+      if (autoAssignError) {
+        console.error('[PATCH /supervisor/incidents/:id/assign-to-whs] Auto-assignment failed:', autoAssignError)
+        // Don't fail the request - WHS can still assign manually
+      }
+      autoAssignedClinicianId = assignedClinicianId
+    }
+
     // Generate case number for notification
     const createdAt = new Date(incidentDetails.created_at || new Date())
     const year = createdAt.getFullYear()
@@ -2414,11 +2539,14 @@ supervisor.patch('/incidents/:incidentId/assign-to-whs', authMiddleware, require
     const uuidPrefix = incidentId.substring(0, 4).toUpperCase()
     const caseNumber = `CASE-${year}${month}${day}-${hours}${minutes}${seconds}-${uuidPrefix}`
 
-    // Get all WHS users to send notifications
-    const { data: whsUsers, error: whsUsersError } = await adminClient
-      .from('users')
-      .select('id, email, first_name, last_name')
-      .eq('role', 'whs_control_center')
+    // Get the organization's WHS users to send notifications
+    const { data: whsUsers, error: whsUsersError } = updated.organization_id
+      ? await adminClient
+        .from('users')
+        .select('id, email, first_name, last_name')
+        .eq('role', 'whs_control_center')
+        .eq('organization_id', updated.organization_id)
+      : { data: [] as any[], error: null }
 
     if (!whsUsersError && whsUsers && whsUsers.length > 0) {
       const worker = Array.isArray(incidentDetails.users) ? incidentDetails.users[0] : incidentDetails.users
@@ -2457,9 +2585,7 @@ supervisor.patch('/incidents/:incidentId/assign-to-whs', authMiddleware, require
       }))
 
       // Insert notifications in batch
-      const { error: notifyError } = await adminClient
-        .from('notifications')
-        .insert(notifications)
+      const { error: notifyError } = await createNotifications(notifications)
 
       if (notifyError) {
         console.error('[PATCH /supervisor/incidents/:id/assign-to-whs] Error creating notifications:', notifyError)
@@ -2467,7 +2593,10 @@ supervisor.patch('/incidents/:incidentId/assign-to-whs', authMiddleware, require
       }
     }
 
-    return c.json({ incident: updated })
+    return c.json({
+      incident: autoAssignedClinicianId ? { ...updated, clinician_id: autoAssignedClinicianId } : updated,
+      autoAssignedClinicianId,
+    })
   } catch (error: any) {
     console.error('[PATCH /supervisor/incidents/:id/assign-to-whs] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
@@ -2710,13 +2839,13 @@ supervisor.get('/my-incidents', authMiddleware, requireRole(['supervisor']), asy
         start_date,
         end_date,
         is_active,
-        notes,
         created_at,
         updated_at,
         assigned_to_whs,
         clinician_id,
         return_to_work_duty_type,
         return_to_work_date,
+        ${CASE_FIELDS},
         users!worker_exceptions_user_id_fkey(
           id,
           email,
@@ -2746,25 +2875,8 @@ supervisor.get('/my-incidents', authMiddleware, requireRole(['supervisor']), asy
       const worker = incident.users || {}
       const team = incident.teams || {}
       
-      // Extract case status from notes
-      const caseStatus = getCaseStatusFromNotes(incident.notes)
-      
-      // OPTIMIZATION: Use centralized notes parser
-      const parsedNotes = parseIncidentNotes(incident.notes)
-      const returnToWorkData = extractReturnToWorkData(
-        incident.notes,
-        incident.return_to_work_duty_type,
-        incident.return_to_work_date
-      )
-      
-      const approvedByClinician = parsedNotes?.approved_by || null
-      const approvedAt = parsedNotes?.approved_at || null
-      const whsApprovedBy = parsedNotes?.whs_approved_by || null
-      const whsApprovedAt = parsedNotes?.whs_approved_at || null
-      const returnToWorkDutyType = returnToWorkData.dutyType
-      const returnToWorkDate = returnToWorkData.returnDate
-      const clinicalNotes = parsedNotes?.clinical_notes || null
-      const clinicalNotesUpdatedAt = parsedNotes?.clinical_notes_updated_at || null
+      const caseStatus = getCaseStatus(incident)
+      const caseFields = getCaseFields(incident)
       
       // Determine status category for Kanban board
       let statusCategory: 'in_progress' | 'rehabilitation' | 'completed' = 'in_progress'
@@ -2796,16 +2908,16 @@ supervisor.get('/my-incidents', authMiddleware, requireRole(['supervisor']), asy
         isActive: incident.is_active,
         assignedToWhs: incident.assigned_to_whs || false,
         clinicianId: incident.clinician_id,
-        caseStatus: caseStatus, // Raw case status from notes
+        caseStatus: caseStatus, // Raw case status
         statusCategory: statusCategory, // For Kanban board grouping
-        approvedByClinician,
-        approvedAt,
-        whsApprovedBy,
-        whsApprovedAt,
-        returnToWorkDutyType,
-        returnToWorkDate,
-        clinicalNotes,
-        clinicalNotesUpdatedAt,
+        approvedByClinician: caseFields.approvedBy,
+        approvedAt: caseFields.approvedAt,
+        whsApprovedBy: caseFields.whsApprovedBy,
+        whsApprovedAt: caseFields.whsApprovedAt,
+        returnToWorkDutyType: incident.return_to_work_duty_type || null,
+        returnToWorkDate: incident.return_to_work_date || null,
+        clinicalNotes: caseFields.clinicalNotes,
+        clinicalNotesUpdatedAt: caseFields.clinicalNotesUpdatedAt,
         createdAt: incident.created_at,
         updatedAt: incident.updated_at,
       }
@@ -2839,139 +2951,5 @@ supervisor.get('/my-incidents', authMiddleware, requireRole(['supervisor']), asy
   }
 })
 
-
-// ============================================
-// Notifications Endpoints for Supervisor
-// ============================================
-
-// Get notifications for Supervisor
-supervisor.get('/notifications', authMiddleware, requireRole(['supervisor']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200) // Max 200 notifications
-    const unreadOnly = c.req.query('unread_only') === 'true'
-
-    const adminClient = getAdminClient()
-
-    // SECURITY: Only fetch notifications belonging to the authenticated supervisor
-    let query = adminClient
-      .from('notifications')
-      .select('*')
-      .eq('user_id', user.id) // Critical: Only get user's own notifications
-      .order('created_at', { ascending: false })
-      .limit(limit)
-
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
-    }
-
-    const { data: notifications, error } = await query
-
-    if (error) {
-      console.error('[GET /supervisor/notifications] Error:', error)
-      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
-    }
-
-    // Count unread notifications
-    const { count: unreadCount, error: countError } = await adminClient
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false)
-
-    if (countError) {
-      console.error('[GET /supervisor/notifications] Error counting unread:', countError)
-    }
-
-    return c.json({
-      notifications: notifications || [],
-      unreadCount: unreadCount || 0,
-    })
-  } catch (error: any) {
-    console.error('[GET /supervisor/notifications] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark notification as read (Supervisor)
-supervisor.patch('/notifications/:notificationId/read', authMiddleware, requireRole(['supervisor']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const notificationId = c.req.param('notificationId')
-    const adminClient = getAdminClient()
-
-    // SECURITY: Only allow marking own notifications as read
-    const { data: notification, error: fetchError } = await adminClient
-      .from('notifications')
-      .select('id, user_id')
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Critical: Only allow updating own notifications
-      .single()
-
-    if (fetchError || !notification) {
-      return c.json({ error: 'Notification not found or unauthorized' }, 404)
-    }
-
-    const { error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Double-check security
-
-    if (updateError) {
-      console.error('[PATCH /supervisor/notifications/:id/read] Error:', updateError)
-      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
-    }
-
-    return c.json({ success: true })
-  } catch (error: any) {
-    console.error('[PATCH /supervisor/notifications/:id/read] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark all notifications as read (Supervisor)
-supervisor.patch('/notifications/read-all', authMiddleware, requireRole(['supervisor']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    const adminClient = getAdminClient()
-
-    // SECURITY: Only mark own notifications as read
-    const { error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('user_id', user.id) // Critical: Only update own notifications
-      .eq('is_read', false) // Only update unread ones
-
-    if (updateError) {
-      console.error('[PATCH /supervisor/notifications/read-all] Error:', updateError)
-      return c.json({ error: 'Failed to mark all notifications as read', details: updateError.message }, 500)
-    }
-
-    return c.json({ success: true })
-  } catch (error: any) {
-    console.error('[PATCH /supervisor/notifications/read-all] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
 export default supervisor
 
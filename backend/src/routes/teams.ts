@@ -3,6 +3,7 @@ import bcrypt from 'bcrypt'
 import { supabase } from '../lib/supabase.js'
 import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { createNotifications } from '../utils/notificationHub.js'
 import { generateUniquePinCode } from '../utils/quickLoginCode.js'
 import { formatDateString } from '../utils/dateTime.js'
 // Import optimized utility functions
@@ -10,6 +11,10 @@ import { getTodayDateString, getTodayDate } from '../utils/dateUtils.js'
 import { isExceptionActive } from '../utils/exceptionUtils.js'
 import { formatTeamLeader, formatUserFullName } from '../utils/userUtils.js'
 import { encodeCursor, decodeCursor, extractCursorDate } from '../utils/cursorPagination.js'
+import { getTeamQuestions, aggregateCustomAnswers } from '../utils/checkinQuestionnaire.js'
+import { getDefaultTimeZone, isValidTimeZone } from '../utils/timezone.js'
+import { getScheduledDatesInRange } from '../utils/scheduleUtils.js'
+import { getTeamHolidays } from '../utils/siteHolidays.js'
 
 const teams = new Hono<{ Variables: AuthVariables }>()
 
@@ -618,6 +623,7 @@ teams.post('/members', authMiddleware, requireRole(['team_leader']), async (c) =
       first_name: trimmedFirstName || email.split('@')[0],
       last_name: trimmedLastName || '',
       full_name: fullName, // Store for backward compatibility
+      organization_id: user.organization_id, // Same organization as the team leader
       business_name: inheritedBusinessName || null, // Inherit from team leader
       business_registration_number: inheritedBusinessRegNumber || null, // Inherit from team leader
       created_at: new Date().toISOString(),
@@ -1008,19 +1014,25 @@ teams.post('/', authMiddleware, requireRole(['team_leader']), async (c) => {
       return c.json({ error: 'Team already exists for this user' }, 400)
     }
 
-    const { name, site_location } = await c.req.json()
+    const { name, site_location, timezone } = await c.req.json()
 
     if (!name || name.trim() === '') {
       return c.json({ error: 'Team name is required' }, 400)
     }
 
+    if (timezone && !isValidTimeZone(timezone)) {
+      return c.json({ error: 'Invalid timezone. Use an IANA timezone such as Australia/Perth' }, 400)
+    }
+
     const { data: team, error: createError } = await supabase
       .from('teams')
       .insert([
         {
           team_leader_id: user.id,
+          organization_id: user.organization_id,
           name: name.trim(),
           site_location: site_location?.trim() || '',
+          timezone: timezone || getDefaultTimeZone(),
         },
       ])
       .select()
@@ -1459,9 +1471,7 @@ teams.post('/members/:memberId/exception', authMiddleware, requireRole(['team_le
               is_read: false,
             }
 
-            const { error: notifyError } = await adminClient
-              .from('notifications')
-              .insert([notification])
+            const { error: notifyError } = await createNotifications([notification])
 
             if (notifyError) {
               console.error('[POST /teams/members/:memberId/exception] Error creating notification for destination team leader:', notifyError)
@@ -1497,6 +1507,7 @@ teams.post('/members/:memberId/exception', authMiddleware, requireRole(['team_le
         {
           user_id: member.user_id,
           team_id: finalTeamId,
+          organization_id: user.organization_id,
           exception_type,
           reason: reason || null,
           start_date,
@@ -1677,15 +1688,20 @@ teams.patch('/', authMiddleware, requireRole(['team_leader']), async (c) => {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const { name, site_location } = await c.req.json()
+    const { name, site_location, timezone } = await c.req.json()
 
     if (!name || name.trim() === '') {
       return c.json({ error: 'Team name is required' }, 400)
     }
 
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return c.json({ error: 'Invalid timezone. Use an IANA timezone such as Australia/Perth' }, 400)
+    }
+
     const updates: any = {}
     if (name) updates.name = name.trim()
     if (site_location !== undefined) updates.site_location = site_location.trim()
+    if (timezone !== undefined) updates.timezone = timezone
 
     const { data: team, error: updateError } = await supabase
       .from('teams')
@@ -2037,7 +2053,7 @@ teams.get('/check-ins', authMiddleware, requireRole(['team_leader']), async (c)
     // Supports the new worker schedule logic
     const { data: allSchedules } = await adminClient
       .from('worker_schedules')
-      .select('worker_id, scheduled_date, day_of_week, effective_date, expiry_date, is_active')
+      .select('worker_id, scheduled_date, day_of_week, recurrence_rule, exclusion_dates, effective_date, expiry_date, is_active')
       .eq('team_id', team.id)
     
     // Get check-ins in the date range
@@ -2055,26 +2071,9 @@ teams.get('/check-ins', authMiddleware, requireRole(['team_leader']), async (c)
       // Only count ACTIVE schedules
       if (!schedule.is_active) return
       
-      // Single-date schedule: check if date is within range
-      if (schedule.scheduled_date && !schedule.day_of_week) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        if (scheduleDate >= rangeStart && scheduleDate <= rangeEnd) {
-          workersWithSchedules.add(schedule.worker_id)
-        }
-      }
-      // Recurring schedule: check if date range overlaps with effective_date to expiry_date
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date) : null
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date) : null
-        expiryDate?.setHours(23, 59, 59, 999)
-        
-        // Check if schedule range overlaps with query range
-        const scheduleEnds = expiryDate || new Date('2099-12-31')
-        const scheduleStarts = effectiveDate || rangeStart
-        
-        if (scheduleStarts <= rangeEnd && scheduleEnds >= rangeStart) {
-          workersWithSchedules.add(schedule.worker_id)
-        }
+      // Count only schedules with an actual occurrence in the range (recurring rules expanded exactly)
+      if (getScheduledDatesInRange([schedule], startDateStr, endDateStr).size > 0) {
+        workersWithSchedules.add(schedule.worker_id)
       }
     })
     
@@ -2117,7 +2116,7 @@ teams.get('/check-ins', authMiddleware, requireRole(['team_leader']), async (c)
     // OPTIMIZATION: Build date range queries - if single date, use eq for better performance
     let checkInsQuery = adminClient
       .from('daily_checkins')
-      .select('user_id, check_in_date, check_in_time, pain_level, fatigue_level, stress_level, sleep_quality, predicted_readiness, additional_notes, shift_type, shift_start_time, shift_end_time')
+      .select('user_id, check_in_date, check_in_time, pain_level, fatigue_level, stress_level, sleep_quality, predicted_readiness, self_assessed_readiness, readiness_mismatch, custom_answers, additional_notes, shift_type, shift_start_time, shift_end_time')
       .in('user_id', activeWorkerIds)
     
     let warmUpsQuery = adminClient
@@ -2253,6 +2252,9 @@ teams.get('/check-ins', authMiddleware, requireRole(['team_leader']), async (c)
           stressLevel: checkIn.stress_level,
           sleepQuality: checkIn.sleep_quality,
           predictedReadiness: checkIn.predicted_readiness,
+          selfAssessedReadiness: checkIn.self_assessed_readiness || null,
+          readinessMismatch: !!checkIn.readiness_mismatch,
+          customAnswers: checkIn.custom_answers || [],
           additionalNotes: checkIn.additional_notes,
           shiftType: checkIn.shift_type,
           shiftStartTime: checkIn.shift_start_time,
@@ -2410,7 +2412,7 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
     // Inactive schedules are soft-deleted but needed for completion rate calculation
     const { data: allSchedules } = await adminClient
       .from('worker_schedules')
-      .select('worker_id, scheduled_date, day_of_week, effective_date, expiry_date, is_active')
+      .select('worker_id, scheduled_date, day_of_week, recurrence_rule, exclusion_dates, effective_date, expiry_date, is_active')
       .eq('team_id', team.id)
     
     const { data: checkInsInRange } = await adminClient
@@ -2424,26 +2426,9 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
     const workersWithSchedules = new Set<string>()
     
     ;(allSchedules || []).forEach((schedule: any) => {
-      // Single-date schedule: check if date is within range
-      if (schedule.scheduled_date && !schedule.day_of_week) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        if (scheduleDate >= rangeStart && scheduleDate <= rangeEnd) {
-          workersWithSchedules.add(schedule.worker_id)
-        }
-      }
-      // Recurring schedule: check if date range overlaps with effective_date to expiry_date
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date) : null
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date) : null
-        expiryDate?.setHours(23, 59, 59, 999)
-        
-        // Check if schedule range overlaps with query range
-        const scheduleEnds = expiryDate || new Date('2099-12-31')
-        const scheduleStarts = effectiveDate || rangeStart
-        
-        if (scheduleStarts <= rangeEnd && scheduleEnds >= rangeStart) {
-          workersWithSchedules.add(schedule.worker_id)
-        }
+      // Count only schedules with an actual occurrence in the range (recurring rules expanded exactly)
+      if (getScheduledDatesInRange([schedule], startDate, endDate).size > 0) {
+        workersWithSchedules.add(schedule.worker_id)
       }
     })
     
@@ -2468,6 +2453,8 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
           avgReadiness: { green: 0, amber: 0, red: 0 },
           onTimeRate: 0,
           totalActiveWorkers: 0,
+          totalMissed: 0,
+          totalLateAfterMissed: 0,
           trend: { completion: '0%', readiness: '0%' },
         },
         dailyTrends: [],
@@ -2549,74 +2536,15 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
     const schedulesByDate = new Map<string, Set<string>>()
     
     // Process schedules to build the date map (only ACTIVE schedules count toward expected check-ins)
+    // Site holidays need no check-in, so they aren't expected
+    const teamHolidays = await getTeamHolidays(team.id, startDate, endDate)
     filteredSchedules.forEach((schedule: any) => {
-      // Single-date schedule
-      if (schedule.scheduled_date && (schedule.day_of_week === null || schedule.day_of_week === undefined)) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        scheduleDate.setHours(0, 0, 0, 0) // Normalize to start of day for comparison
-        const startNormalized = new Date(start)
-        startNormalized.setHours(0, 0, 0, 0)
-        const endNormalized = new Date(end)
-        endNormalized.setHours(23, 59, 59, 999)
-        
-        if (scheduleDate >= startNormalized && scheduleDate <= endNormalized) {
-          const dateStr = schedule.scheduled_date
-          if (!schedulesByDate.has(dateStr)) {
-            schedulesByDate.set(dateStr, new Set())
-          }
-          schedulesByDate.get(dateStr)!.add(schedule.worker_id)
+      getScheduledDatesInRange([schedule], startDate, endDate, teamHolidays).forEach(dateStr => {
+        if (!schedulesByDate.has(dateStr)) {
+          schedulesByDate.set(dateStr, new Set())
         }
-      }
-      // Recurring schedule: calculate all matching dates
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        // Handle effective_date: if null, schedule is active from the start of query range
-        // If set, schedule is active from that date onwards
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date) : null
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date) : null
-        
-        // Determine the actual start and end dates for this schedule
-        // Start: max of effective_date (if set) and query start, or just query start if no effective_date
-        const scheduleStart = effectiveDate && effectiveDate > start ? effectiveDate : start
-        
-        // End: min of expiry_date (if set) and query end, or just query end if no expiry_date
-        const scheduleEnd = expiryDate && expiryDate < end ? expiryDate : end
-        
-        // Only process if schedule is active within the query range
-        if (scheduleStart <= scheduleEnd) {
-        // Calculate all dates that match the day_of_week within the effective range
-        for (let d = new Date(scheduleStart); d <= scheduleEnd; d.setDate(d.getDate() + 1)) {
-          const dayOfWeek = d.getDay() // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-          
-          // Check if this date matches the schedule's day_of_week
-          if (dayOfWeek === schedule.day_of_week) {
-              // Use local date string to avoid timezone issues (YYYY-MM-DD format)
-              const dateStr = formatDateString(d)
-              
-              // Also check if date is within effective_date and expiry_date (if set)
-              // Compare date strings directly (both in YYYY-MM-DD format)
-              let isAfterEffective = true
-              let isBeforeExpiry = true
-              
-              if (effectiveDate) {
-                const effDateStr = formatDateString(effectiveDate)
-                isAfterEffective = dateStr >= effDateStr
-              }
-              
-              if (expiryDate) {
-                const expDateStr = formatDateString(expiryDate)
-                isBeforeExpiry = dateStr <= expDateStr
-              }
-              
-              if (isAfterEffective && isBeforeExpiry) {
-            if (!schedulesByDate.has(dateStr)) {
-              schedulesByDate.set(dateStr, new Set())
-            }
-            schedulesByDate.get(dateStr)!.add(schedule.worker_id)
-              }
-            }
-          }
-        }
-      }
+        schedulesByDate.get(dateStr)!.add(schedule.worker_id)
+      })
     })
     
     // Count expected check-ins per day: only workers with schedules AND no exceptions
@@ -2647,6 +2575,41 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
       return !workerExceptions.some(exception => isExceptionActive(exception, checkInDate))
     })
 
+    // Aggregate custom questionnaire answers (inactive questions included so historical answers still show)
+    let customQuestions: ReturnType<typeof aggregateCustomAnswers> = []
+    const { data: teamQuestions, error: questionsError } = await getTeamQuestions(team.id, true)
+    if (questionsError) {
+      console.error('Error fetching check-in questions:', questionsError)
+      // Continue anyway, analytics just won't include custom answers
+    } else {
+      customQuestions = aggregateCustomAnswers(teamQuestions, validCheckIns)
+    }
+
+    // Missed check-ins recorded by the detection job (window closed without a check-in)
+    const { data: missedCheckIns, error: missedError } = await adminClient
+      .from('missed_checkins')
+      .select('user_id, missed_date, late_check_in_id')
+      .in('user_id', allWorkerIds)
+      .gte('missed_date', startDate)
+      .lte('missed_date', endDate)
+
+    if (missedError) {
+      console.error('Error fetching missed check-ins:', missedError)
+      // Continue anyway, analytics just won't include missed check-ins
+    }
+
+    // date -> workers still without a check-in after their window closed (late check-ins excluded)
+    const missedByDate = new Map<string, Set<string>>()
+    ;(missedCheckIns || []).forEach((missed: any) => {
+      if (missed.late_check_in_id) return
+      if (!missedByDate.has(missed.missed_date)) {
+        missedByDate.set(missed.missed_date, new Set())
+      }
+      missedByDate.get(missed.missed_date)!.add(missed.user_id)
+    })
+    const totalMissed = (missedCheckIns || []).length
+    const totalLateAfterMissed = (missedCheckIns || []).filter((m: any) => m.late_check_in_id).length
+
     // Calculate summary statistics (only using valid check-ins)
     const totalCheckIns = validCheckIns.length
     const completionRate = totalExpectedCheckIns > 0 ? Math.round((totalCheckIns / totalExpectedCheckIns) * 100 * 10) / 10 : 0
@@ -2678,6 +2641,7 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
       date: string
       completed: number
       pending: number
+      missed: number
       green: number
       amber: number
       red: number
@@ -2705,13 +2669,17 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
         return !workerExceptions.some(exception => isExceptionActive(exception, checkDate))
       })
       
-      // Pending = active workers - workers who checked in
-      const pendingCount = activeWorkersOnDate.length - workersWhoCheckedIn.length
+      // Missed = window closed without a check-in (recorded by the detection job)
+      const missedCount = activeWorkersOnDate.filter(workerId => missedByDate.get(dateStr)?.has(workerId)).length
+
+      // Pending = active workers - workers who checked in - workers who missed
+      const pendingCount = activeWorkersOnDate.length - workersWhoCheckedIn.length - missedCount
       
       dailyTrendsMap.set(dateStr, {
         date: dateStr,
         completed: workersWhoCheckedIn.length, // Only count check-ins from workers without exceptions
         pending: Math.max(0, pendingCount), // Ensure pending is never negative
+        missed: missedCount,
         green: 0,
         amber: 0,
         red: 0,
@@ -2739,6 +2707,8 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
       email: string
       totalCheckIns: number
       completionRate: number
+      missedCount: number
+      lateCheckIns: number
       greenCount: number
       amberCount: number
       redCount: number
@@ -2754,6 +2724,8 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
         email: user?.email || '',
         totalCheckIns: 0,
         completionRate: 0,
+        missedCount: 0,
+        lateCheckIns: 0,
         greenCount: 0,
         amberCount: 0,
         redCount: 0,
@@ -2772,6 +2744,15 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
       }
     })
 
+    // Missed check-ins per worker (late check-ins are still counted as missed, and tracked separately)
+    ;(missedCheckIns || []).forEach((missed: any) => {
+      const stats = workerStatsMap.get(missed.user_id)
+      if (stats) {
+        stats.missedCount++
+        if (missed.late_check_in_id) stats.lateCheckIns++
+      }
+    })
+
     // Calculate completion rates and average readiness for each worker
     // For completion rate, count only days with assigned schedules (single-date OR recurring) AND without exceptions
     workerStatsMap.forEach((stats) => {
@@ -2863,49 +2844,24 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
     // Get schedules for previous period (both single-date and recurring)
     const { data: prevSchedulesInRange } = await adminClient
       .from('worker_schedules')
-      .select('worker_id, scheduled_date, day_of_week, effective_date, expiry_date')
+      .select('worker_id, scheduled_date, day_of_week, recurrence_rule, exclusion_dates, effective_date, expiry_date')
       .eq('team_id', team.id)
       .in('worker_id', allWorkerIds)
       .eq('is_active', true)
     
     const prevSchedulesByDate = new Map<string, Set<string>>()
     
-    // Process schedules for previous period
+    // Process schedules for previous period (site holidays aren't expected)
+    const prevStartStr = prevStart.toISOString().split('T')[0]
+    const prevEndStr = prevEnd.toISOString().split('T')[0]
+    const prevHolidays = await getTeamHolidays(team.id, prevStartStr, prevEndStr)
     ;(prevSchedulesInRange || []).forEach((schedule: any) => {
-      // Single-date schedule
-      if (schedule.scheduled_date && (schedule.day_of_week === null || schedule.day_of_week === undefined)) {
-        const scheduleDate = new Date(schedule.scheduled_date)
-        if (scheduleDate >= prevStart && scheduleDate <= prevEnd) {
-          const dateStr = schedule.scheduled_date
-          if (!prevSchedulesByDate.has(dateStr)) {
-            prevSchedulesByDate.set(dateStr, new Set())
-          }
-          prevSchedulesByDate.get(dateStr)!.add(schedule.worker_id)
-        }
-      }
-      // Recurring schedule: calculate all matching dates
-      else if (schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
-        const effectiveDate = schedule.effective_date ? new Date(schedule.effective_date) : prevStart
-        const expiryDate = schedule.expiry_date ? new Date(schedule.expiry_date) : prevEnd
-        expiryDate.setHours(23, 59, 59, 999)
-        
-        const scheduleStart = effectiveDate > prevStart ? effectiveDate : prevStart
-        const scheduleEnd = expiryDate < prevEnd ? expiryDate : prevEnd
-        
-        // Calculate all dates that match the day_of_week within the effective range
-        for (let d = new Date(scheduleStart); d <= scheduleEnd; d.setDate(d.getDate() + 1)) {
-          const dayOfWeek = d.getDay()
-          
-          if (dayOfWeek === schedule.day_of_week) {
-            // Use local date string to avoid timezone issues (YYYY-MM-DD format)
-            const dateStr = formatDateString(d)
-            if (!prevSchedulesByDate.has(dateStr)) {
-              prevSchedulesByDate.set(dateStr, new Set())
-            }
-            prevSchedulesByDate.get(dateStr)!.add(schedule.worker_id)
-          }
+      getScheduledDatesInRange([schedule], prevStartStr, prevEndStr, prevHolidays).forEach(dateStr => {
+        if (!prevSchedulesByDate.has(dateStr)) {
+          prevSchedulesByDate.set(dateStr, new Set())
         }
-      }
+        prevSchedulesByDate.get(dateStr)!.add(schedule.worker_id)
+      })
     })
     
     // Calculate expected check-ins for previous period (only workers with schedules, excluding exceptions)
@@ -2983,6 +2939,8 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
         onTimeRate: 85, // Placeholder - can be calculated based on check-in window
         totalActiveWorkers,
         currentActiveExceptions,
+        totalMissed,
+        totalLateAfterMissed,
         trend: {
           completion: `${completionTrend >= 0 ? '+' : ''}${Math.round(completionTrend * 10) / 10}%`,
           readiness: `${readinessTrend >= 0 ? '+' : ''}${Math.round(readinessTrend * 10) / 10}%`,
@@ -2991,6 +2949,7 @@ teams.get('/check-ins/analytics', authMiddleware, requireRole(['team_leader']),
       dailyTrends,
       workerStats,
       weeklyPattern,
+      customQuestions,
     }
 
     // Store in cache - use shorter TTL (1 minute) if today is in range for fresher data
@@ -3304,153 +3263,5 @@ teams.get('/logs', authMiddleware, requireRole(['team_leader']), async (c) => {
   }
 })
 
-// ============================================
-// Notifications Endpoints for Team Leaders
-// ============================================
-
-// Get notifications for Team Leader
-teams.get('/notifications', authMiddleware, requireRole(['team_leader']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    if (user.role !== 'team_leader') {
-      return c.json({ error: 'Forbidden: This endpoint is only accessible to team leaders' }, 403)
-    }
-
-    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200) // Max 200 notifications
-    const unreadOnly = c.req.query('unread_only') === 'true'
-
-    const adminClient = getAdminClient()
-
-    // SECURITY: Only fetch notifications belonging to the authenticated team leader
-    let query = adminClient
-      .from('notifications')
-      .select('*')
-      .eq('user_id', user.id) // Critical: Only get user's own notifications
-      .order('created_at', { ascending: false })
-      .limit(limit)
-
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
-    }
-
-    const { data: notifications, error } = await query
-
-    if (error) {
-      console.error('[GET /teams/notifications] Error:', error)
-      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
-    }
-
-    // Count unread notifications
-    const { count: unreadCount, error: countError } = await adminClient
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq('is_read', false)
-
-    if (countError) {
-      console.error('[GET /teams/notifications] Error counting unread:', countError)
-    }
-
-    return c.json({
-      notifications: notifications || [],
-      unreadCount: unreadCount || 0,
-    })
-  } catch (error: any) {
-    console.error('[GET /teams/notifications] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark notification as read (Team Leader)
-teams.patch('/notifications/:notificationId/read', authMiddleware, requireRole(['team_leader']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    if (user.role !== 'team_leader') {
-      return c.json({ error: 'Forbidden: This endpoint is only accessible to team leaders' }, 403)
-    }
-
-    const notificationId = c.req.param('notificationId')
-    const adminClient = getAdminClient()
-
-    // Verify notification belongs to user
-    const { data: notification, error: fetchError } = await adminClient
-      .from('notifications')
-      .select('id, is_read')
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Critical: Only allow reading own notifications
-      .single()
-
-    if (fetchError || !notification) {
-      return c.json({ error: 'Notification not found' }, 404)
-    }
-
-    if (notification.is_read) {
-      return c.json({ message: 'Notification already read' })
-    }
-
-    // Mark as read
-    const { data: updated, error: updateError } = await adminClient
-      .from('notifications')
-      .update({ is_read: true, read_at: new Date().toISOString() })
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Extra security check
-      .select()
-      .single()
-
-    if (updateError) {
-      console.error('[PATCH /teams/notifications/:id/read] Error:', updateError)
-      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
-    }
-
-    return c.json({ notification: updated })
-  } catch (error: any) {
-    console.error('[PATCH /teams/notifications/:id/read] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
-// Mark all notifications as read (Team Leader)
-teams.patch('/notifications/read-all', authMiddleware, requireRole(['team_leader']), async (c) => {
-  try {
-    const user = c.get('user')
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401)
-    }
-
-    if (user.role !== 'team_leader') {
-      return c.json({ error: 'Forbidden: This endpoint is only accessible to team leaders' }, 403)
-    }
-
-    const adminClient = getAdminClient()
-
-    // SECURITY: Only update notifications belonging to the authenticated user
-    const { error: updateError } = await adminClient
-      .from('notifications')
-      .update({ is_read: true, read_at: new Date().toISOString() })
-      .eq('user_id', user.id) // Critical: Only mark user's own notifications as read
-      .eq('is_read', false)
-
-    if (updateError) {
-      console.error('[PATCH /teams/notifications/read-all] Error:', updateError)
-      return c.json({ error: 'Failed to mark notifications as read', details: updateError.message }, 500)
-    }
-
-    return c.json({
-      message: 'All notifications marked as read',
-    })
-  } catch (error: any) {
-    console.error('[PATCH /teams/notifications/read-all] Error:', error)
-    return c.json({ error: 'Internal server error', details: error.message }, 500)
-  }
-})
-
 export default teams
 
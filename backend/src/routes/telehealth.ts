@@ -0,0 +1,174 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
+import { getAdminClient } from '../utils/adminClient.js'
+import { getClinicianTimeZones } from '../utils/clinicianAvailability.js'
+import { formatUserFullName } from '../utils/userUtils.js'
+import { endTelehealthSession, getJoinWindow, issueJoinLink, verifyLocalJoinLink } from '../utils/telehealth.js'
+
+const telehealth = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Telehealth Endpoints
+// Video appointments - join links are personal, expire, and are only issued inside the
+// appointment's join window (see utils/telehealth.ts).
+// ============================================
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// Get a join link for a telehealth appointment (clinician or worker on the appointment)
+telehealth.post('/appointments/:id/join', authMiddleware, requireRole(['clinician', 'worker']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: appointment, error: fetchError } = await adminClient
+      .from('appointments')
+      .select('id, clinician_id, worker_id, appointment_date, appointment_time, duration_minutes, status, visit_mode, video_provider, video_room_id')
+      .eq('id', c.req.param('id'))
+      .single()
+
+    const isParticipant = appointment && (
+      (user.role === 'clinician' && appointment.clinician_id === user.id) ||
+      (user.role === 'worker' && appointment.worker_id === user.id)
+    )
+    if (fetchError || !appointment || !isParticipant) {
+      return c.json({ error: 'Appointment not found' }, 404)
+    }
+
+    if (appointment.visit_mode !== 'telehealth') {
+      return c.json({ error: 'This appointment is not a telehealth appointment' }, 400)
+    }
+
+    if (!['pending', 'confirmed'].includes(appointment.status)) {
+      return c.json({ error: `Cannot join a ${appointment.status} appointment` }, 400)
+    }
+
+    const timeZones = await getClinicianTimeZones([appointment.clinician_id])
+    const window = getJoinWindow(appointment, timeZones.get(appointment.clinician_id)!)
+    const now = new Date()
+    if (now < window.opensAt) {
+      return c.json({
+        error: 'The video room is not open yet',
+        opensAt: window.opensAt.toISOString(),
+      }, 403)
+    }
+    if (now > window.closesAt) {
+      return c.json({ error: 'The join window for this appointment has closed' }, 403)
+    }
+
+    const { data: profile } = await adminClient
+      .from('users')
+      .select('first_name, last_name, full_name, email')
+      .eq('id', user.id)
+      .single()
+
+    const { data: link, error: linkError } = await issueJoinLink(
+      appointment,
+      {
+        userId: user.id,
+        name: formatUserFullName(profile || { email: user.email }),
+        role: user.role === 'clinician' ? 'clinician' : 'worker',
+      },
+      window.closesAt
+    )
+
+    if (linkError || !link) {
+      console.error('[POST /telehealth/appointments/:id/join] Error:', linkError)
+      return c.json({ error: 'Failed to create join link', details: linkError }, 500)
+    }
+
+    return c.json({ joinUrl: link.url, expiresAt: link.expiresAt })
+  } catch (error: any) {
+    console.error('[POST /telehealth/appointments/:id/join] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// End the video session (clinician only)
+telehealth.post('/appointments/:id/end', authMiddleware, requireRole(['clinician']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: appointment, error: fetchError } = await adminClient
+      .from('appointments')
+      .select('id, visit_mode, session_started_at, session_ended_at')
+      .eq('id', c.req.param('id'))
+      .eq('clinician_id', user.id)
+      .single()
+
+    if (fetchError || !appointment) {
+      return c.json({ error: 'Appointment not found' }, 404)
+    }
+
+    if (appointment.visit_mode !== 'telehealth') {
+      return c.json({ error: 'This appointment is not a telehealth appointment' }, 400)
+    }
+
+    if (!appointment.session_started_at) {
+      return c.json({ error: 'The video session has not started' }, 400)
+    }
+
+    if (appointment.session_ended_at) {
+      return c.json({ message: 'Session already ended', sessionEndedAt: appointment.session_ended_at })
+    }
+
+    const { data: endedAt, error } = await endTelehealthSession(appointment.id)
+    if (error) {
+      console.error('[POST /telehealth/appointments/:id/end] Error:', error)
+      return c.json({ error: 'Failed to end session', details: error }, 500)
+    }
+
+    return c.json({ message: 'Session ended', sessionEndedAt: endedAt })
+  } catch (error: any) {
+    console.error('[POST /telehealth/appointments/:id/end] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Local stub video room (VIDEO_PROVIDER=local)
+// No auth middleware: like a real provider, the signed link is the credential
+telehealth.get('/local/:roomId', async (c) => {
+  try {
+    const roomId = c.req.param('roomId')
+    const { valid, error } = verifyLocalJoinLink(
+      roomId,
+      c.req.query('participant'),
+      c.req.query('expires'),
+      c.req.query('signature')
+    )
+    if (!valid) {
+      return c.json({ error: error || 'Invalid join link' }, 403)
+    }
+
+    const name = escapeHtml(c.req.query('name') || 'Participant')
+    const role = escapeHtml(c.req.query('role') || '')
+    const body = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Video room</title></head>
+<body>
+<h1>Local video room</h1>
+<p>Room: <code>${escapeHtml(roomId)}</code></p>
+<p>Joined as ${name}${role ? ` (${role})` : ''}</p>
+<p>This is the local stub provider - set VIDEO_PROVIDER to use a real video service.</p>
+</body>
+</html>`
+
+    return c.html(body, 200, {
+      'Cache-Control': 'no-store',
+      'Referrer-Policy': 'no-referrer',
+    })
+  } catch (error: any) {
+    console.error('[GET /telehealth/local/:roomId] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default telehealth
@@ -0,0 +1,181 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
+import { parseRosterCsv } from '../utils/rosterImport.js'
+import {
+  createUserImportBatch,
+  getUserImportBatch,
+  listUserImportBatches,
+  markUserImportCredentialsDelivered,
+  processUserImportBatch,
+  USER_IMPORT_MAX_ROWS,
+} from '../utils/userImport.js'
+import { isValidId } from '../utils/validationUtils.js'
+
+const userImports = new Hono<{ Variables: AuthVariables }>()
+
+// ============================================
+// Bulk User Onboarding Endpoints
+// Supervisors (into their teams) and admins (into any team) create workers from a CSV/XLSX
+// sheet. Each upload is a resumable batch, created a chunk of rows per request (see utils/userImport.ts).
+// ============================================
+
+// List recent imports
+userImports.get('/', authMiddleware, requireRole(['supervisor', 'admin']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: batches, error } = await listUserImportBatches(user)
+    if (error) {
+      return c.json({ error }, 500)
+    }
+
+    return c.json({ imports: batches })
+  } catch (error: any) {
+    console.error('[GET /user-imports] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Upload a sheet and create the users of its first chunk
+// Body: { rows: [{ email, first_name, ... }] } (XLSX converted in the browser) or { csv: string }
+// Returns the per-row report, the credentials of the users created and the rows remaining -
+// continue with POST /:id/resume while remaining is above 0
+userImports.post('/', authMiddleware, requireRole(['supervisor', 'admin']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await c.req.json()
+    let rows: Record<string, unknown>[] = body.rows
+
+    if (typeof body.csv === 'string') {
+      const { data, error } = parseRosterCsv(body.csv)
+      if (error) {
+        return c.json({ error }, 400)
+      }
+      rows = data
+    }
+
+    if (!Array.isArray(rows)) {
+      return c.json({ error: 'Provide rows or csv' }, 400)
+    }
+
+    const { data: batch, error: createError } = await createUserImportBatch(user, rows, body.fileName)
+    if (createError || !batch) {
+      return c.json({ error: createError || 'Failed to create import' }, 400)
+    }
+
+    const { data: result, error } = await processUserImportBatch(user, batch.id)
+    if (error || !result) {
+      console.error('[POST /user-imports] Error:', error)
+      return c.json({ error: error || 'Failed to import users' }, 500)
+    }
+
+    return c.json(result, 201)
+  } catch (error: any) {
+    console.error('[POST /user-imports] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Get an import with its per-row report
+userImports.get('/:id', authMiddleware, requireRole(['supervisor', 'admin']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const batchId = c.req.param('id')
+    if (!isValidId(batchId)) {
+      return c.json({ error: 'Invalid import ID' }, 400)
+    }
+
+    const { data, error } = await getUserImportBatch(user, batchId)
+    if (error) {
+      return c.json({ error }, 500)
+    }
+    if (!data) {
+      return c.json({ error: 'Import not found' }, 404)
+    }
+
+    return c.json(data)
+  } catch (error: any) {
+    console.error('[GET /user-imports/:id] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Process the next chunk of an import - created rows are kept, and get new credentials if theirs
+// were never confirmed. Body (optional): { retryFailed: true } to retry failed rows as well
+userImports.post('/:id/resume', authMiddleware, requireRole(['supervisor', 'admin']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const batchId = c.req.param('id')
+    if (!isValidId(batchId)) {
+      return c.json({ error: 'Invalid import ID' }, 400)
+    }
+
+    const body = await c.req.json().catch(() => ({}))
+    const { data: result, error, conflict } = await processUserImportBatch(user, batchId, { retryFailed: body?.retryFailed === true })
+    if (conflict) {
+      return c.json({ error }, 409)
+    }
+    if (error === 'Import not found') {
+      return c.json({ error }, 404)
+    }
+    if (error || !result) {
+      return c.json({ error: error || 'Failed to resume import' }, 500)
+    }
+
+    return c.json(result)
+  } catch (error: any) {
+    console.error('[POST /user-imports/:id/resume] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Confirm the browser received the credentials of created rows
+// Body: { rowIds: string[] }
+userImports.post('/:id/credentials-delivered', authMiddleware, requireRole(['supervisor', 'admin']), async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const batchId = c.req.param('id')
+    if (!isValidId(batchId)) {
+      return c.json({ error: 'Invalid import ID' }, 400)
+    }
+
+    const { rowIds } = await c.req.json()
+    if (!Array.isArray(rowIds) || rowIds.length > USER_IMPORT_MAX_ROWS || !rowIds.every(rowId => isValidId(rowId))) {
+      return c.json({ error: 'rowIds must be a list of row IDs' }, 400)
+    }
+
+    const { data: confirmed, error } = await markUserImportCredentialsDelivered(user, batchId, rowIds)
+    if (error === 'Import not found') {
+      return c.json({ error }, 404)
+    }
+    if (error) {
+      return c.json({ error }, 500)
+    }
+
+    return c.json({ confirmed })
+  } catch (error: any) {
+    console.error('[POST /user-imports/:id/credentials-delivered] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+export default userImports
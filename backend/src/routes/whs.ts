@@ -1,12 +1,33 @@
 import { Hono } from 'hono'
 import { authMiddleware, requireRole, AuthVariables } from '../middleware/auth.js'
-import { getCaseStatusFromNotes, mapCaseStatusToDisplay, CaseStatus } from '../utils/caseStatus.js'
-import { parseIncidentNotes } from '../utils/notesParser.js'
+import { requireOrganization } from '../middleware/organization.js'
+import {
+  getCaseStatus,
+  getCurrentCaseStatus,
+  getAllowedTransitions,
+  mapCaseStatusToDisplay,
+  isValidCaseStatus,
+  validateCaseStatusTransition,
+  CaseStatus,
+} from '../utils/caseStatus.js'
+import { getCaseFields, getCaseStatusHistory, updateCaseStatus } from '../utils/cases.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { createNotifications } from '../utils/notificationHub.js'
 import { normalizeDate, isDateInRange } from '../utils/dateTime.js'
 import { formatUserFullName } from '../utils/userUtils.js'
 import { calculateAge } from '../utils/ageUtils.js'
 import { encodeCursor, decodeCursor, extractCursorDate } from '../utils/cursorPagination.js'
+import {
+  ASSIGNMENT_POLICIES,
+  assignCaseToClinician,
+  getAssignmentPolicy,
+  getClinicianRecommendations,
+  saveAssignmentPolicy,
+  saveAssignmentProfile,
+  validateAssignmentProfileInput,
+  type AssignmentPolicy,
+} from '../utils/clinicianAssignment.js'
+import { getCaseSeverity, getCaseSlaTimers, getSlaRules, saveSlaRules, validateSlaRulesInput } from '../utils/caseSla.js'
 
 // OPTIMIZATION: Constants for active case statuses (avoid recreating array)
 const ACTIVE_CASE_STATUSES = ['new', 'triaged', 'assessed', 'in_rehab'] as const
@@ -14,8 +35,8 @@ const COMPLETED_CASE_STATUSES = ['closed', 'return_to_work'] as const
 
 const whs = new Hono<{ Variables: AuthVariables }>()
 
-// Get all incidents/cases for WHS (from all supervisors)
-whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Get all incidents/cases for WHS (from all supervisors in the organization)
+whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -50,6 +71,7 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       .select('*', { count: 'exact', head: true })
       .in('exception_type', incidentTypes)
       .eq('assigned_to_whs', true) // Only show incidents assigned by supervisor
+      .eq('organization_id', user.organization_id)
 
     let query = adminClient
       .from('worker_exceptions')
@@ -79,13 +101,14 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       `)
       .in('exception_type', incidentTypes)
       .eq('assigned_to_whs', true) // Only show incidents assigned by supervisor
+      .eq('organization_id', user.organization_id)
 
     // Filter by status - default to active if not specified
     const todayStr = new Date().toISOString().split('T')[0]
     const filterStatus = status || 'active' // Default to active
     
     if (filterStatus === 'active') {
-      // OPTIMIZATION: Use broader filter for active - will refine by case status from notes
+      // OPTIMIZATION: Use broader filter for active - will refine by recorded case status
       // Include all cases that might be active (is_active = true OR cases with in_rehab status)
       query = query.eq('is_active', true)
       countQuery = countQuery.eq('is_active', true)
@@ -201,6 +224,12 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       }
     }
 
+    // SLA timers for cases still on the clock (not fatal - the list is still useful without them)
+    const { data: slaTimersByCase, error: slaError } = await getCaseSlaTimers(cases || [])
+    if (slaError) {
+      console.error('[GET /whs/cases] Error computing SLA timers:', slaError)
+    }
+
     // Format cases
     const todayDate = new Date()
     let formattedCases = (cases || []).map((incident: any) => {
@@ -210,11 +239,7 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       const teamLeader = team?.team_leader_id ? userMap.get(team.team_leader_id) : null
       const clinician = Array.isArray(incident.clinician) ? incident.clinician[0] : incident.clinician
 
-      // OPTIMIZATION: Use centralized notes parser
-      const parsedNotes = parseIncidentNotes(incident.notes)
-      const caseStatusFromNotes = getCaseStatusFromNotes(incident.notes)
-      const approvedBy = parsedNotes?.approved_by || null
-      const approvedAt = parsedNotes?.approved_at || null
+      const recordedStatus = getCaseStatus(incident)
 
       const startDate = new Date(incident.start_date)
       const endDate = incident.end_date ? new Date(incident.end_date) : null
@@ -222,7 +247,7 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       // For other cases, check date range as well
       let isCurrentlyActive = false
       if (incident.is_active) {
-        if (caseStatusFromNotes === 'in_rehab') {
+        if (recordedStatus === 'in_rehab') {
           // For in_rehab, is_active = true means it's active (date range is less important)
           isCurrentlyActive = true
         } else {
@@ -234,11 +259,11 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       // OPTIMIZATION: Calculate createdAt once and reuse for both status check and case number
       const createdAt = new Date(incident.created_at)
 
-      // Determine case status - use notes if available, otherwise calculate
+      // Determine case status - use recorded status if available, otherwise calculate
       let caseStatus: string
-      if (caseStatusFromNotes) {
+      if (recordedStatus) {
         // Use centralized mapping for consistency and security
-        caseStatus = mapCaseStatusToDisplay(caseStatusFromNotes, false, isCurrentlyActive)
+        caseStatus = mapCaseStatusToDisplay(recordedStatus, false, isCurrentlyActive)
       } else if (isCurrentlyActive) {
         // Check if it's new (created within last 7 days)
         const daysSinceCreation = Math.floor((todayDate.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24))
@@ -284,25 +309,32 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
                       (clinician?.first_name && clinician?.last_name
                         ? `${clinician.first_name} ${clinician.last_name}`
                         : clinician?.email || null),
+        clinicianAssignmentMethod: incident.clinician_assignment_method || null,
         type: incident.exception_type,
         reason: incident.reason || '',
         startDate: incident.start_date,
         endDate: incident.end_date,
         status: caseStatus,
-        severity: getSeverity(incident.exception_type),
+        severity: getCaseSeverity(incident.exception_type),
+        sla: slaTimersByCase.get(incident.id)?.[0] || null,
+        slaTimers: slaTimersByCase.get(incident.id) || [],
         isActive: isCurrentlyActive,
         createdAt: incident.created_at,
         updatedAt: incident.updated_at,
-        approvedBy,
-        approvedAt,
+        caseStatus: recordedStatus,
+        allowedTransitions: getAllowedTransitions(getCurrentCaseStatus(incident), 'whs_control_center'),
+        approvedBy: incident.approved_by || null,
+        approvedAt: incident.approved_at || null,
+        whsApprovedBy: incident.whs_approved_by || null,
+        whsApprovedAt: incident.whs_approved_at || null,
         returnToWorkDutyType: incident.return_to_work_duty_type || null,
         returnToWorkDate: incident.return_to_work_date || null,
         // OPTIMIZATION: Store internal case status for filtering
-        _caseStatus: caseStatusFromNotes || 'new',
+        _caseStatus: recordedStatus || 'new',
       }
     })
 
-    // OPTIMIZATION: Apply status filter based on case status from notes (more accurate)
+    // OPTIMIZATION: Apply status filter based on recorded case status (more accurate)
     if (filterStatus === 'active') {
       // Filter to show only active statuses: new, triaged, assessed, in_rehab
       formattedCases = formattedCases.filter(caseItem => {
@@ -380,12 +412,13 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
     }
 
     // Get summary statistics (only for assigned incidents)
-    // OPTIMIZATION: Include notes field to get accurate case status
+    // OPTIMIZATION: Include case_status to get accurate case status
     const { data: allCases, error: summaryError } = await adminClient
       .from('worker_exceptions')
-      .select('id, exception_type, is_active, start_date, end_date, created_at, notes')
+      .select('id, exception_type, is_active, start_date, end_date, created_at, case_status')
       .in('exception_type', incidentTypes)
       .eq('assigned_to_whs', true) // Only count incidents assigned by supervisor
+      .eq('organization_id', user.organization_id)
 
     if (summaryError) {
       console.error('[GET /whs/cases] Error fetching summary:', summaryError)
@@ -411,8 +444,8 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
       const typeKey = caseItem.exception_type || 'other'
       summary.byType[typeKey] = (summary.byType[typeKey] || 0) + 1
 
-      // Get case status from notes (more accurate than just is_active)
-      const caseStatus = getCaseStatusFromNotes(caseItem.notes) || 'new'
+      // Get recorded case status (more accurate than just is_active)
+      const caseStatus = getCaseStatus(caseItem) || 'new'
       
       // Check if case is new (created within last 7 days)
       const createdAt = new Date(caseItem.created_at)
@@ -444,7 +477,7 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
         // Count completed cases: status is closed or return_to_work
         summary.completed++
       } else if (!caseItem.is_active) {
-        // is_active = false means completed (legacy cases without status in notes)
+        // is_active = false means completed (legacy cases without a recorded status)
         summary.completed++
       } else {
         // Default to active if status is unknown but is_active = true
@@ -468,7 +501,7 @@ whs.get('/cases', authMiddleware, requireRole(['whs_control_center']), async (c)
 })
 
 // Get single case detail by ID for WHS
-whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -512,6 +545,7 @@ whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), async
       `)
       .eq('id', caseId)
       .eq('assigned_to_whs', true) // SECURITY: Only cases assigned to WHS
+      .eq('organization_id', user.organization_id)
       .in('exception_type', ['injury', 'medical_leave', 'accident', 'other'])
       .single()
 
@@ -567,7 +601,7 @@ whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), async
     }
     
     // Determine case status
-    const caseStatusFromNotes = getCaseStatusFromNotes(caseData.notes)
+    const recordedStatus = getCaseStatus(caseData)
     const todayDate = new Date()
     todayDate.setHours(0, 0, 0, 0)
     const startDate = new Date(caseData.start_date)
@@ -606,11 +640,12 @@ whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), async
       reason: caseData.reason || '',
       startDate: caseData.start_date,
       endDate: caseData.end_date,
-      status: mapCaseStatusToDisplay(caseStatusFromNotes, false, isCurrentlyActive),
+      status: mapCaseStatusToDisplay(recordedStatus, false, isCurrentlyActive),
       priority,
       isActive: isCurrentlyActive,
-      caseStatus: caseStatusFromNotes || null,
+      caseStatus: recordedStatus,
       notes: caseData.notes || null,
+      ...getCaseFields(caseData),
       createdAt: caseData.created_at,
       updatedAt: caseData.updated_at,
       return_to_work_duty_type: caseData.return_to_work_duty_type || null,
@@ -629,196 +664,383 @@ whs.get('/cases/:id', authMiddleware, requireRole(['whs_control_center']), async
   }
 })
 
-// Helper function to determine severity
-function getSeverity(type: string): string {
-  const severityMap: Record<string, string> = {
-    injury: 'HIGH',
-    accident: 'HIGH',
-    medical_leave: 'MEDIUM',
-    other: 'LOW',
+// Get all clinicians (for assignment dropdown)
+whs.get('/clinicians', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+
+    const { data: clinicians, error } = await adminClient
+      .from('users')
+      .select('id, email, first_name, last_name, full_name')
+      .eq('role', 'clinician')
+      .eq('organization_id', user.organization_id)
+      .order('full_name', { ascending: true, nullsFirst: false })
+
+    if (error) {
+      console.error('[GET /whs/clinicians] Error:', error)
+      return c.json({ error: 'Failed to fetch clinicians', details: error.message }, 500)
+    }
+
+    const formattedClinicians = (clinicians || []).map((clinician: any) => ({
+      id: clinician.id,
+      email: clinician.email,
+      name: clinician.full_name || 
+            (clinician.first_name && clinician.last_name 
+              ? `${clinician.first_name} ${clinician.last_name}`
+              : clinician.email),
+    }))
+
+    return c.json({ clinicians: formattedClinicians })
+  } catch (error: any) {
+    console.error('[GET /whs/clinicians] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
-  return severityMap[type] || 'LOW'
-}
+})
 
-// Get notifications for WHS user
-whs.get('/notifications', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Assign case to clinician
+whs.post('/cases/:caseId/assign-clinician', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200) // Max 200 notifications
-    const unreadOnly = c.req.query('unread_only') === 'true'
+    const caseId = c.req.param('caseId')
+    const { clinician_id } = await c.req.json()
+
+    if (!clinician_id) {
+      return c.json({ error: 'clinician_id is required' }, 400)
+    }
 
     const adminClient = getAdminClient()
 
-    // SECURITY: Only fetch notifications belonging to the authenticated user
-    let query = adminClient
-      .from('notifications')
-      .select('*')
-      .eq('user_id', user.id) // Critical: RLS + explicit user_id check for defense in depth
-      .order('created_at', { ascending: false })
-      .limit(limit)
+    // Verify case exists and is assigned to WHS
+    const { data: caseItem, error: caseError } = await adminClient
+      .from('worker_exceptions')
+      .select('id')
+      .eq('id', caseId)
+      .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
+      .single()
+
+    if (caseError || !caseItem) {
+      return c.json({ error: 'Case not found or not assigned to WHS' }, 404)
+    }
 
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
+    // Verify clinician exists and is actually a clinician
+    const { data: clinician, error: clinicianError } = await adminClient
+      .from('users')
+      .select('id, email, first_name, last_name, full_name, role')
+      .eq('id', clinician_id)
+      .eq('role', 'clinician')
+      .eq('organization_id', user.organization_id)
+      .single()
+
+    if (clinicianError || !clinician) {
+      return c.json({ error: 'Clinician not found' }, 404)
     }
 
-    const { data: notifications, error } = await query
+    const { data: updatedCase, error: updateError } = await assignCaseToClinician(
+      caseId,
+      clinician_id,
+      'manual',
+      { id: user.id, name: user.email || 'WHS Control Center' }
+    )
 
-    if (error) {
-      console.error('[GET /whs/notifications] Error:', error)
-      return c.json({ error: 'Failed to fetch notifications', details: error.message }, 500)
+    if (updateError || !updatedCase) {
+      console.error('[POST /whs/cases/:caseId/assign-clinician] Error:', updateError)
+      return c.json({ error: 'Failed to assign case to clinician', details: updateError }, 500)
     }
 
-    // SECURITY: Only count unread notifications belonging to the authenticated user
-    const { count: unreadCount, error: countError } = await adminClient
-      .from('notifications')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id) // Critical: Only count user's own notifications
-      .eq('is_read', false)
+    return c.json({ 
+      message: 'Case assigned to clinician successfully',
+      case: updatedCase,
+      clinician: {
+        id: clinician.id,
+        name: clinician.full_name || 
+              (clinician.first_name && clinician.last_name 
+                ? `${clinician.first_name} ${clinician.last_name}`
+                : clinician.email),
+      },
+    })
+  } catch (error: any) {
+    console.error('[POST /whs/cases/:caseId/assign-clinician] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
 
-    if (countError) {
-      console.error('[GET /whs/notifications] Error counting unread:', countError)
+// Ranked clinician suggestions for a case, with the reasoning behind each
+whs.get('/cases/:caseId/clinician-recommendations', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const adminClient = getAdminClient()
+    const { data: caseItem, error: caseError } = await adminClient
+      .from('worker_exceptions')
+      .select('id, exception_type, clinician_id')
+      .eq('id', c.req.param('caseId'))
+      .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
+      .single()
+
+    if (caseError || !caseItem) {
+      return c.json({ error: 'Case not found or not assigned to WHS' }, 404)
+    }
+
+    const [recommendationsResult, policyResult] = await Promise.all([
+      getClinicianRecommendations(user.organization_id!, caseItem.exception_type),
+      getAssignmentPolicy(user.organization_id!),
+    ])
+
+    if (recommendationsResult.error) {
+      console.error('[GET /whs/cases/:caseId/clinician-recommendations] Error:', recommendationsResult.error)
+      return c.json({ error: 'Failed to rank clinicians', details: recommendationsResult.error }, 500)
     }
 
     return c.json({
-      notifications: notifications || [],
-      unreadCount: unreadCount || 0,
+      caseType: caseItem.exception_type,
+      currentClinicianId: caseItem.clinician_id,
+      policy: policyResult.data.policy,
+      recommendations: recommendationsResult.data,
     })
   } catch (error: any) {
-    console.error('[GET /whs/notifications] Error:', error)
+    console.error('[GET /whs/cases/:caseId/clinician-recommendations] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Mark notification as read
-whs.patch('/notifications/:notificationId/read', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Organization assignment policy and clinician assignment profiles
+whs.get('/assignment-settings', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const notificationId = c.req.param('notificationId')
     const adminClient = getAdminClient()
+    const { data: clinicians, error: cliniciansError } = await adminClient
+      .from('users')
+      .select('id, email, first_name, last_name, full_name')
+      .eq('role', 'clinician')
+      .eq('organization_id', user.organization_id)
+      .order('full_name', { ascending: true, nullsFirst: false })
 
-    // Verify notification belongs to user
-    const { data: notification, error: fetchError } = await adminClient
-      .from('notifications')
-      .select('id, user_id, is_read')
-      .eq('id', notificationId)
-      .eq('user_id', user.id)
-      .single()
+    if (cliniciansError) {
+      console.error('[GET /whs/assignment-settings] Error:', cliniciansError)
+      return c.json({ error: 'Failed to fetch clinicians', details: cliniciansError.message }, 500)
+    }
 
-    if (fetchError || !notification) {
-      return c.json({ error: 'Notification not found' }, 404)
+    const clinicianIds = (clinicians || []).map((clinician: any) => clinician.id)
+    const [policyResult, profilesResult] = await Promise.all([
+      getAssignmentPolicy(user.organization_id!),
+      clinicianIds.length > 0
+        ? adminClient
+          .from('clinician_assignment_profiles')
+          .select('clinician_id, specialties, max_open_cases, accepting_new_cases')
+          .in('clinician_id', clinicianIds)
+        : Promise.resolve({ data: [] as any[], error: null }),
+    ])
+
+    if (policyResult.error || profilesResult.error) {
+      console.error('[GET /whs/assignment-settings] Error:', policyResult.error || profilesResult.error)
+      return c.json({ error: 'Failed to fetch assignment settings' }, 500)
     }
 
-    if (notification.is_read) {
-      return c.json({ message: 'Notification already read' })
+    const profiles = new Map((profilesResult.data || []).map((profile: any) => [profile.clinician_id, profile]))
+
+    return c.json({
+      policy: policyResult.data.policy,
+      clinicians: (clinicians || []).map((clinician: any) => {
+        const profile: any = profiles.get(clinician.id)
+        return {
+          id: clinician.id,
+          name: formatUserFullName(clinician),
+          email: clinician.email,
+          specialties: profile?.specialties || [],
+          maxOpenCases: profile?.max_open_cases ?? null,
+          acceptingNewCases: profile?.accepting_new_cases ?? true,
+        }
+      }),
+    })
+  } catch (error: any) {
+    console.error('[GET /whs/assignment-settings] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Set the organization's assignment policy (manual, round_robin, best_match)
+whs.put('/assignment-settings', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    // SECURITY: Mark as read - verify user_id again in update (defense in depth)
-    const { data: updated, error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('id', notificationId)
-      .eq('user_id', user.id) // Critical: Double-check user ownership in update
-      .select()
-      .single()
+    const body = await c.req.json().catch(() => null)
+    const policy = body?.policy as AssignmentPolicy
+    if (!ASSIGNMENT_POLICIES.includes(policy)) {
+      return c.json({ error: `policy must be one of: ${ASSIGNMENT_POLICIES.join(', ')}` }, 400)
+    }
 
-    if (updateError) {
-      console.error('[PATCH /whs/notifications/:id/read] Error:', updateError)
-      return c.json({ error: 'Failed to mark notification as read', details: updateError.message }, 500)
+    const { error } = await saveAssignmentPolicy(user.organization_id!, policy, user.id)
+    if (error) {
+      console.error('[PUT /whs/assignment-settings] Error:', error)
+      return c.json({ error: 'Failed to save assignment policy', details: error }, 500)
     }
 
-    return c.json({ notification: updated })
+    return c.json({ message: 'Assignment policy saved', policy })
   } catch (error: any) {
-    console.error('[PATCH /whs/notifications/:id/read] Error:', error)
+    console.error('[PUT /whs/assignment-settings] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Mark all notifications as read
-whs.patch('/notifications/read-all', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Set a clinician's specialties, case load limit and whether they take new cases
+whs.put('/clinicians/:clinicianId/assignment-profile', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
+    const clinicianId = c.req.param('clinicianId')
     const adminClient = getAdminClient()
+    const { data: clinician, error: clinicianError } = await adminClient
+      .from('users')
+      .select('id')
+      .eq('id', clinicianId)
+      .eq('role', 'clinician')
+      .eq('organization_id', user.organization_id)
+      .single()
 
-    // SECURITY: Only update notifications belonging to the authenticated user
-    const { data: updated, error: updateError } = await adminClient
-      .from('notifications')
-      .update({
-        is_read: true,
-        read_at: new Date().toISOString(),
-      })
-      .eq('user_id', user.id) // Critical: Only mark user's own notifications as read
-      .eq('is_read', false)
-      .select()
+    if (clinicianError || !clinician) {
+      return c.json({ error: 'Clinician not found' }, 404)
+    }
 
-    if (updateError) {
-      console.error('[PATCH /whs/notifications/read-all] Error:', updateError)
-      return c.json({ error: 'Failed to mark notifications as read', details: updateError.message }, 500)
+    const body = await c.req.json().catch(() => null)
+    const { data: profile, error: validationError } = validateAssignmentProfileInput(body)
+    if (validationError || !profile) {
+      return c.json({ error: validationError }, 400)
     }
 
-    return c.json({ 
-      message: 'All notifications marked as read',
-      count: updated?.length || 0,
+    const { error } = await saveAssignmentProfile(clinicianId, profile, user.id)
+    if (error) {
+      console.error('[PUT /whs/clinicians/:clinicianId/assignment-profile] Error:', error)
+      return c.json({ error: 'Failed to save assignment profile', details: error }, 500)
+    }
+
+    return c.json({
+      message: 'Assignment profile saved',
+      profile: {
+        specialties: profile.specialties,
+        maxOpenCases: profile.max_open_cases,
+        acceptingNewCases: profile.accepting_new_cases,
+      },
     })
   } catch (error: any) {
-    console.error('[PATCH /whs/notifications/read-all] Error:', error)
+    console.error('[PUT /whs/clinicians/:clinicianId/assignment-profile] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Get all clinicians (for assignment dropdown)
-whs.get('/clinicians', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Get the organization's case SLA targets (built-in defaults until saved)
+whs.get('/sla-rules', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
       return c.json({ error: 'Unauthorized' }, 401)
     }
 
-    const adminClient = getAdminClient()
+    const { data, error } = await getSlaRules(user.organization_id!)
+    if (error) {
+      console.error('[GET /whs/sla-rules] Error:', error)
+      return c.json({ error: 'Failed to fetch SLA rules', details: error }, 500)
+    }
 
-    const { data: clinicians, error } = await adminClient
-      .from('users')
-      .select('id, email, first_name, last_name, full_name')
-      .eq('role', 'clinician')
-      .order('full_name', { ascending: true, nullsFirst: false })
+    return c.json(data)
+  } catch (error: any) {
+    console.error('[GET /whs/sla-rules] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
+
+// Replace the organization's case SLA targets
+whs.put('/sla-rules', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await c.req.json().catch(() => null)
+    const { data: rules, error: validationError } = validateSlaRulesInput(body)
+    if (validationError || !rules) {
+      return c.json({ error: validationError }, 400)
+    }
 
+    const { error } = await saveSlaRules(user.organization_id!, rules, user.id)
     if (error) {
-      console.error('[GET /whs/clinicians] Error:', error)
-      return c.json({ error: 'Failed to fetch clinicians', details: error.message }, 500)
+      console.error('[PUT /whs/sla-rules] Error:', error)
+      return c.json({ error: 'Failed to save SLA rules', details: error }, 500)
     }
 
-    const formattedClinicians = (clinicians || []).map((clinician: any) => ({
-      id: clinician.id,
-      email: clinician.email,
-      name: clinician.full_name || 
-            (clinician.first_name && clinician.last_name 
-              ? `${clinician.first_name} ${clinician.last_name}`
-              : clinician.email),
-    }))
+    return c.json({ message: 'SLA rules saved', rules, isDefault: false })
+  } catch (error: any) {
+    console.error('[PUT /whs/sla-rules] Error:', error)
+    return c.json({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
 
-    return c.json({ clinicians: formattedClinicians })
+// Get case status history (audit trail)
+whs.get('/cases/:caseId/history', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const caseId = c.req.param('caseId')
+    if (!caseId || caseId.length > 36) {
+      return c.json({ error: 'Invalid case ID format' }, 400)
+    }
+
+    const adminClient = getAdminClient()
+
+    const { data: caseItem } = await adminClient
+      .from('worker_exceptions')
+      .select('id')
+      .eq('id', caseId)
+      .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
+      .maybeSingle()
+
+    if (!caseItem) {
+      return c.json({ error: 'Case not found or not assigned to WHS' }, 404)
+    }
+
+    const { data: history, error } = await getCaseStatusHistory(caseId)
+    if (error) {
+      console.error('[GET /whs/cases/:caseId/history] Error:', error)
+      return c.json({ error: 'Failed to fetch case history', details: error.message }, 500)
+    }
+
+    return c.json({ history })
   } catch (error: any) {
-    console.error('[GET /whs/clinicians] Error:', error)
+    console.error('[GET /whs/cases/:caseId/history] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
-// Assign case to clinician
-whs.post('/cases/:caseId/assign-clinician', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+// Update case status (WHS sign-off - only the moves the transition table allows for WHS)
+whs.patch('/cases/:caseId/status', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -826,134 +1048,106 @@ whs.post('/cases/:caseId/assign-clinician', authMiddleware, requireRole(['whs_co
     }
 
     const caseId = c.req.param('caseId')
-    const { clinician_id } = await c.req.json()
+    const { status, reason } = await c.req.json()
 
-    if (!clinician_id) {
-      return c.json({ error: 'clinician_id is required' }, 400)
+    if (!caseId || caseId.length > 36) {
+      return c.json({ error: 'Invalid case ID format' }, 400)
+    }
+
+    if (!status || typeof status !== 'string' || !isValidCaseStatus(status)) {
+      return c.json({ error: 'Invalid status' }, 400)
+    }
+
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return c.json({ error: 'Reason must be a string' }, 400)
     }
 
     const adminClient = getAdminClient()
 
-    // Verify case exists and is assigned to WHS
     const { data: caseItem, error: caseError } = await adminClient
       .from('worker_exceptions')
-      .select(`
-        *,
-        users!worker_exceptions_user_id_fkey(
-          id,
-          email,
-          first_name,
-          last_name,
-          full_name
-        ),
-        teams!worker_exceptions_team_id_fkey(
-          id,
-          name,
-          site_location
-        )
-      `)
+      .select('id, user_id, clinician_id, created_at, end_date, case_status, return_to_work_duty_type')
       .eq('id', caseId)
       .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
       .single()
 
     if (caseError || !caseItem) {
       return c.json({ error: 'Case not found or not assigned to WHS' }, 404)
     }
 
-    // Verify clinician exists and is actually a clinician
-    const { data: clinician, error: clinicianError } = await adminClient
-      .from('users')
-      .select('id, email, first_name, last_name, full_name, role')
-      .eq('id', clinician_id)
-      .eq('role', 'clinician')
-      .single()
+    const sanitizedReason = reason ? reason.trim().substring(0, 1000) : null
 
-    if (clinicianError || !clinician) {
-      return c.json({ error: 'Clinician not found' }, 404)
+    const transitionCheck = validateCaseStatusTransition(getCurrentCaseStatus(caseItem), status, user.role, {
+      reason: sanitizedReason,
+    })
+    if (!transitionCheck.valid) {
+      return c.json({ error: transitionCheck.error }, transitionCheck.httpStatus || 400)
     }
 
-    // Update case with clinician assignment
-    const { data: updatedCase, error: updateError } = await adminClient
-      .from('worker_exceptions')
-      .update({ clinician_id })
-      .eq('id', caseId)
-      .select()
-      .single()
+    const updates: Record<string, any> = {}
+    if (status === 'closed') {
+      updates.is_active = false
+      if (!caseItem.end_date) {
+        updates.end_date = new Date().toISOString().split('T')[0]
+      }
+    }
+
+    const whsName = formatUserFullName(user)
+    const { data: updatedCase, conflict, error: updateError } = await updateCaseStatus({
+      caseId,
+      fromStatus: getCaseStatus(caseItem),
+      toStatus: status,
+      changedBy: { id: user.id, name: whsName, role: user.role },
+      reason: sanitizedReason,
+      updates,
+    })
 
     if (updateError) {
-      console.error('[POST /whs/cases/:caseId/assign-clinician] Error:', updateError)
-      return c.json({ error: 'Failed to assign case to clinician', details: updateError.message }, 500)
-    }
-
-    // Generate case number for notification
-    const createdAt = new Date(caseItem.created_at)
-    const year = createdAt.getFullYear()
-    const month = String(createdAt.getMonth() + 1).padStart(2, '0')
-    const day = String(createdAt.getDate()).padStart(2, '0')
-    const hours = String(createdAt.getHours()).padStart(2, '0')
-    const minutes = String(createdAt.getMinutes()).padStart(2, '0')
-    const seconds = String(createdAt.getSeconds()).padStart(2, '0')
-    const uuidPrefix = caseItem.id.substring(0, 4).toUpperCase()
-    const caseNumber = `CASE-${year}${month}${day}-${hours}${minutes}${seconds}-${uuidPrefix}`
-
-    const worker = Array.isArray(caseItem.users) ? caseItem.users[0] : caseItem.users
-    const workerName = worker?.full_name || 
-                     (worker?.first_name && worker?.last_name 
-                       ? `${worker.first_name} ${worker.last_name}`
-                       : worker?.email || 'Unknown')
-
-    // Create notification for clinician
-    const notification = {
-      user_id: clinician_id,
-      type: 'case_assigned_to_clinician',
-      title: '📋 New Case Assigned',
-      message: `A case (${caseNumber}) has been assigned to you. Worker: ${workerName}.`,
-      data: {
-        case_id: caseId,
-        case_number: caseNumber,
-        worker_id: caseItem.user_id,
-        worker_name: workerName,
-        worker_email: worker?.email || '',
-        exception_type: caseItem.exception_type,
-        reason: caseItem.reason || '',
-        start_date: caseItem.start_date,
-        end_date: caseItem.end_date,
-        assigned_by: user.id,
-        assigned_by_name: user.email || 'WHS Control Center',
-      },
-      is_read: false,
+      console.error('[PATCH /whs/cases/:caseId/status] Error:', updateError)
+      return c.json({ error: 'Failed to update case status', details: updateError.message }, 500)
     }
 
-    const { error: notifyError } = await adminClient
-      .from('notifications')
-      .insert([notification])
+    if (conflict) {
+      return c.json({ error: 'Case status was changed by someone else. Please refresh and try again.' }, 409)
+    }
 
-    if (notifyError) {
-      console.error('[POST /whs/cases/:caseId/assign-clinician] Error creating notification:', notifyError)
-      // Don't fail the assignment if notification fails
-    } else {
-      console.log(`[POST /whs/cases/:caseId/assign-clinician] Notification sent to clinician ${clinician_id} for case ${caseId}`)
+    // Let the assigned clinician know the case was signed off
+    if (caseItem.clinician_id) {
+      const { error: notifyError } = await createNotifications([{
+        user_id: caseItem.clinician_id,
+        type: 'case_closed',
+        title: '✅ Case CLOSED',
+        message: `A case you manage has been closed by ${whsName} (WHS).`,
+        data: {
+          case_id: caseId,
+          worker_id: caseItem.user_id,
+          status,
+          whs_approved_by: whsName,
+          whs_approved_at: updatedCase.whs_approved_at,
+        },
+        is_read: false,
+      }])
+
+      if (notifyError) {
+        console.error('[PATCH /whs/cases/:caseId/status] Error creating notification:', notifyError)
+        // Don't fail the request if notification fails - case is still updated
+      }
     }
 
-    return c.json({ 
-      message: 'Case assigned to clinician successfully',
+    return c.json({
       case: updatedCase,
-      clinician: {
-        id: clinician.id,
-        name: clinician.full_name || 
-              (clinician.first_name && clinician.last_name 
-                ? `${clinician.first_name} ${clinician.last_name}`
-                : clinician.email),
-      },
+      status,
+      message: 'Case status updated successfully',
     })
   } catch (error: any) {
-    console.error('[POST /whs/cases/:caseId/assign-clinician] Error:', error)
+    console.error('[PATCH /whs/cases/:caseId/status] Error:', error)
     return c.json({ error: 'Internal server error', details: error.message }, 500)
   }
 })
 
 // Get WHS Analytics data
-whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -977,7 +1171,7 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
         end_date, 
         created_at, 
         clinician_id, 
-        notes, 
+        case_status, 
         assigned_to_whs,
         team_id,
         teams!worker_exceptions_team_id_fkey(
@@ -989,6 +1183,7 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
       `)
       .in('exception_type', incidentTypes)
       .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
 
     if (casesError) {
       console.error('[GET /whs/analytics] Error fetching cases:', casesError)
@@ -1018,10 +1213,10 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
       return createdAt >= startDate
     })
 
-    // OPTIMIZATION: Calculate active cases using case status from notes (more accurate)
+    // OPTIMIZATION: Calculate active cases using recorded case status (more accurate)
     const totalCases = cases.length
     const activeCases = cases.filter((c: any) => {
-      const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+      const caseStatus = getCaseStatus(c) || 'new'
       const isActiveStatus = ACTIVE_CASE_STATUSES.includes(caseStatus as typeof ACTIVE_CASE_STATUSES[number])
       
       if (!isActiveStatus || !c.is_active) return false
@@ -1039,9 +1234,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
 
     const newCases = rangeCases.length
 
-    // OPTIMIZATION: Calculate closed cases using case status from notes (more accurate)
+    // OPTIMIZATION: Calculate closed cases using recorded case status (more accurate)
     const closedCases = cases.filter((c: any) => {
-      const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+      const caseStatus = getCaseStatus(c) || 'new'
       // Count as closed if status is closed or return_to_work
       if (COMPLETED_CASE_STATUSES.includes(caseStatus as typeof COMPLETED_CASE_STATUSES[number])) {
         return true
@@ -1069,9 +1264,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
     const casesWithClinician = cases.filter((c: any) => c.clinician_id).length
     const clinicianAssignment = totalCases > 0 ? Math.round((casesWithClinician / totalCases) * 100) : 0
 
-    // OPTIMIZATION: Closed this period using case status from notes
+    // OPTIMIZATION: Closed this period using recorded case status
     const closedThisPeriod = rangeCases.filter((c: any) => {
-      const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+      const caseStatus = getCaseStatus(c) || 'new'
       if (COMPLETED_CASE_STATUSES.includes(caseStatus as typeof COMPLETED_CASE_STATUSES[number])) {
         const end = c.end_date ? new Date(c.end_date) : null
         if (!end) return true // Closed status without end_date counts
@@ -1094,7 +1289,7 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
     // Overdue tasks (cases past end date but still active)
     const overdueTasks = cases.filter((c: any) => {
       if (!c.end_date || !c.is_active) return false
-      const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+      const caseStatus = getCaseStatus(c) || 'new'
       // Only count as overdue if not in_rehab (in_rehab cases can extend past end_date)
       if (caseStatus === 'in_rehab') return false
       const end = normalizeDate(new Date(c.end_date))
@@ -1111,9 +1306,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
       returnToWork: 0,
     }
 
-    // OPTIMIZATION: Use centralized getCaseStatusFromNotes utility
+    // OPTIMIZATION: Use centralized getCaseStatus utility
     cases.forEach((c: any) => {
-      const status = getCaseStatusFromNotes(c.notes) || 'new'
+      const status = getCaseStatus(c) || 'new'
       if (status === 'new') {
         casesByStatus.open++
       } else if (status === 'triaged') {
@@ -1151,9 +1346,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return created.getTime() === date.getTime()
         }).length
         
-        // OPTIMIZATION: Closed cases on this day using case status from notes
+        // OPTIMIZATION: Closed cases on this day using recorded case status
         const dayClosed = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           // Check if case was closed on this day
           if (COMPLETED_CASE_STATUSES.includes(caseStatus as typeof COMPLETED_CASE_STATUSES[number])) {
             const end = c.end_date ? normalizeDate(new Date(c.end_date)) : null
@@ -1165,9 +1360,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return end.getTime() === date.getTime()
         }).length
         
-        // OPTIMIZATION: Active cases on this day using case status from notes
+        // OPTIMIZATION: Active cases on this day using recorded case status
         const dayActive = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           const isActiveStatus = ACTIVE_CASE_STATUSES.includes(caseStatus as typeof ACTIVE_CASE_STATUSES[number])
           if (!isActiveStatus || !c.is_active) return false
           
@@ -1215,9 +1410,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return created >= weekStart && created <= weekEnd
         }).length
         
-        // OPTIMIZATION: Closed cases in this week using case status from notes
+        // OPTIMIZATION: Closed cases in this week using recorded case status
         const weekClosed = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           // Check if case was closed in this week
           if (COMPLETED_CASE_STATUSES.includes(caseStatus as typeof COMPLETED_CASE_STATUSES[number])) {
             const end = c.end_date ? new Date(c.end_date) : null
@@ -1229,9 +1424,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return end >= weekStart && end <= weekEnd
         }).length
         
-        // OPTIMIZATION: Active cases at the end of this week using case status from notes
+        // OPTIMIZATION: Active cases at the end of this week using recorded case status
         const weekActive = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           const isActiveStatus = ACTIVE_CASE_STATUSES.includes(caseStatus as typeof ACTIVE_CASE_STATUSES[number])
           if (!isActiveStatus || !c.is_active) return false
           
@@ -1268,9 +1463,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return created >= monthStart && created <= monthEnd
         }).length
         
-        // OPTIMIZATION: Closed cases in this month using case status from notes
+        // OPTIMIZATION: Closed cases in this month using recorded case status
         const monthClosed = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           // Check if case was closed in this month
           if (COMPLETED_CASE_STATUSES.includes(caseStatus as typeof COMPLETED_CASE_STATUSES[number])) {
             const end = c.end_date ? new Date(c.end_date) : null
@@ -1282,9 +1477,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
           return end >= monthStart && end <= monthEnd
         }).length
         
-        // OPTIMIZATION: Active cases at the end of this month using case status from notes
+        // OPTIMIZATION: Active cases at the end of this month using recorded case status
         const monthActive = cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           const isActiveStatus = ACTIVE_CASE_STATUSES.includes(caseStatus as typeof ACTIVE_CASE_STATUSES[number])
           if (!isActiveStatus || !c.is_active) return false
           
@@ -1376,9 +1571,9 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
     const supervisorStats = Array.from(supervisorStatsMap.entries())
       .map(([supervisorId, stats]) => {
         const supervisor = supervisorDetailsMap.get(supervisorId)
-        // OPTIMIZATION: Active cases count using case status from notes
+        // OPTIMIZATION: Active cases count using recorded case status
         const activeCasesCount = stats.cases.filter((c: any) => {
-          const caseStatus = getCaseStatusFromNotes(c.notes) || 'new'
+          const caseStatus = getCaseStatus(c) || 'new'
           const isActiveStatus = ACTIVE_CASE_STATUSES.includes(caseStatus as typeof ACTIVE_CASE_STATUSES[number])
           if (!isActiveStatus || !c.is_active) return false
           
@@ -1433,7 +1628,7 @@ whs.get('/analytics', authMiddleware, requireRole(['whs_control_center']), async
 })
 
 // Get Clinician Performance data
-whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_center']), async (c) => {
+whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_center']), requireOrganization, async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -1447,6 +1642,7 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
       .from('users')
       .select('id, email, first_name, last_name, full_name')
       .eq('role', 'clinician')
+      .eq('organization_id', user.organization_id)
       .order('full_name', { ascending: true, nullsFirst: false })
 
     if (cliniciansError) {
@@ -1464,9 +1660,10 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
     // Get all cases assigned to these clinicians
     const { data: allCases, error: casesError } = await adminClient
       .from('worker_exceptions')
-      .select('id, clinician_id, is_active, start_date, end_date, created_at, notes, assigned_to_whs')
+      .select('id, clinician_id, is_active, start_date, end_date, created_at, case_status, approved_at, assigned_to_whs')
       .in('exception_type', incidentTypes)
       .eq('assigned_to_whs', true)
+      .eq('organization_id', user.organization_id)
       .in('clinician_id', clinicianIds)
 
     if (casesError) {
@@ -1518,6 +1715,19 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
       .select('id, clinician_id, status, created_at')
       .in('clinician_id', clinicianIds)
 
+    // Specialties and availability for new cases (see utils/clinicianAssignment.ts)
+    const { data: assignmentProfiles } = await adminClient
+      .from('clinician_assignment_profiles')
+      .select('clinician_id, specialties, accepting_new_cases')
+      .in('clinician_id', clinicianIds)
+    const profilesByClinician = new Map((assignmentProfiles || []).map((profile: any) => [profile.clinician_id, profile]))
+    const specialtyLabels: Record<string, string> = {
+      accident: 'Accident',
+      injury: 'Injury',
+      medical_leave: 'Medical Leave',
+      other: 'Other',
+    }
+
     // OPTIMIZATION: Pre-group cases by clinician_id to avoid filtering in loop
     const casesByClinician = new Map<string, any[]>()
     if (allCases) {
@@ -1531,16 +1741,6 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
       })
     }
 
-    // OPTIMIZATION: Use centralized notes parser
-    const parseNotes = (notes: string | null): { status: string; approved_at: string | null } => {
-      if (!notes) return { status: 'open', approved_at: null }
-      const parsedNotes = parseIncidentNotes(notes)
-      return {
-        status: parsedNotes?.case_status || 'open',
-        approved_at: parsedNotes?.approved_at || null
-      }
-    }
-
     // Calculate performance for each clinician
     const performanceData = clinicians.map((clinician: any) => {
       const clinicianCases = casesByClinician.get(clinician.id) || []
@@ -1551,14 +1751,13 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
         start.setHours(0, 0, 0, 0)
         const end = c.end_date ? new Date(c.end_date) : null
         if (end) end.setHours(0, 0, 0, 0)
-        const notesParsed = parseNotes(c.notes)
         
         return {
           ...c,
           _startDate: start,
           _endDate: end,
-          _status: notesParsed.status,
-          _approvedAt: notesParsed.approved_at
+          _status: c.case_status || 'open',
+          _approvedAt: c.approved_at || null
         }
       })
       
@@ -1596,7 +1795,7 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
           // Get completion date (when clinician closed/approved the case)
           let completionDate: Date | null = null
           
-          // First, try to get approved_at from notes (most accurate)
+          // First, try approved_at (most accurate)
           if (c._approvedAt) {
             completionDate = new Date(c._approvedAt)
           } else if (c._endDate) {
@@ -1638,11 +1837,14 @@ whs.get('/clinicians/performance', authMiddleware, requireRole(['whs_control_cen
                              ? `${clinician.first_name} ${clinician.last_name}`
                              : clinician.email)
 
-      // Specialty (default to General for now, can be extended later)
-      const specialty = 'General'
+      // Specialty from the assignment profile (General when none set)
+      const profile: any = profilesByClinician.get(clinician.id)
+      const specialty = profile?.specialties?.length
+        ? profile.specialties.map((type: string) => specialtyLabels[type] || type).join(', ')
+        : 'General'
 
-      // Status (Available - can be extended to check if clinician is busy/on leave)
-      const status = 'Available'
+      // Status (can be extended to check if clinician is on leave)
+      const status = profile && !profile.accepting_new_cases ? 'Not accepting cases' : 'Available'
 
       return {
         id: clinician.id,
@@ -1,17 +1,23 @@
 import { Hono } from 'hono'
 import { authMiddleware, requireRole } from '../middleware/auth.js'
-import { getCaseStatusFromNotes } from '../utils/caseStatus.js'
+import { idempotent } from '../middleware/idempotency.js'
+import { getCaseStatus } from '../utils/caseStatus.js'
 import { getAdminClient } from '../utils/adminClient.js'
+import { createNotifications } from '../utils/notificationHub.js'
 import { analyzeIncident } from '../utils/openai.js'
 import { getTodayDateString } from '../utils/dateUtils.js'
-import { formatDateString } from '../utils/dateTime.js'
+import { formatDateString, parseDateString } from '../utils/dateTime.js'
+import { addDaysToDateString, getWorkerTimeZone } from '../utils/timezone.js'
+import { getWorkerHolidays } from '../utils/siteHolidays.js'
 import { getExceptionDatesForScheduledDates } from '../utils/exceptionUtils.js'
 import { 
   getScheduledDatesInRange, 
   findNextScheduledDate, 
-  formatDateForDisplay 
+  formatDateForDisplay,
+  resolveShiftDay
 } from '../utils/scheduleUtils.js'
 import { calculateAge } from '../utils/ageUtils.js'
+import { saveAttachment, validateAttachmentFile } from '../utils/attachments.js'
 
 const worker = new Hono()
 
@@ -28,21 +34,20 @@ worker.get('/can-report-incident', authMiddleware, requireRole(['worker']), asyn
     // Check if worker has active exception (excluding closed cases)
     const { data: existingException, error: existingError } = await adminClient
       .from('worker_exceptions')
-      .select('id, exception_type, reason, start_date, end_date, notes, deactivated_at')
+      .select('id, exception_type, reason, start_date, end_date, case_status, deactivated_at')
       .eq('user_id', user.id)
       .eq('is_active', true)
       .maybeSingle()
 
     if (existingException) {
-      // Check if case is closed by checking case_status in notes or deactivated_at timestamp
+      // Check if case is closed by checking case_status or deactivated_at timestamp
       let isClosed = false
       
       // Check deactivated_at timestamp first (if case was closed by supervisor)
       if (existingException.deactivated_at) {
         isClosed = true
-      } else if (existingException.notes) {
-        // OPTIMIZATION: Use centralized case status helper
-        const caseStatus = getCaseStatusFromNotes(existingException.notes)
+      } else {
+        const caseStatus = getCaseStatus(existingException)
         isClosed = caseStatus === 'closed' || caseStatus === 'return_to_work'
       }
 
@@ -122,7 +127,8 @@ worker.post('/analyze-incident', authMiddleware, requireRole(['worker']), async
 })
 
 // Report Incident or Near-Miss
-worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (c) => {
+// Send an Idempotency-Key header so retries (offline outbox) never create duplicate incidents
+worker.post('/report-incident', authMiddleware, requireRole(['worker']), idempotent('report-incident'), async (c) => {
   try {
     const user = c.get('user')
     if (!user) {
@@ -202,21 +208,20 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
     // Check if worker already has active exception or incident report (excluding closed cases)
     const { data: existingException, error: existingError } = await adminClient
       .from('worker_exceptions')
-      .select('id, exception_type, reason, start_date, end_date, notes, deactivated_at')
+      .select('id, exception_type, reason, start_date, end_date, case_status, deactivated_at')
       .eq('user_id', user.id)
       .eq('is_active', true)
       .maybeSingle()
 
     if (existingException) {
-      // Check if case is closed by checking case_status in notes or deactivated_at timestamp
+      // Check if case is closed by checking case_status or deactivated_at timestamp
       let isClosed = false
       
       // Check deactivated_at timestamp first (if case was closed by supervisor)
       if (existingException.deactivated_at) {
         isClosed = true
-      } else if (existingException.notes) {
-        // OPTIMIZATION: Use centralized case status helper
-        const caseStatus = getCaseStatusFromNotes(existingException.notes)
+      } else {
+        const caseStatus = getCaseStatus(existingException)
         isClosed = caseStatus === 'closed' || caseStatus === 'return_to_work'
       }
       
@@ -255,23 +260,12 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
       }
     }
 
-    // Handle photo upload if provided
-    let photoUrl: string | null = null
-    if (photo && photo.size > 0) {
-      try {
-        // Convert file to base64 for storage
-        const arrayBuffer = await photo.arrayBuffer()
-        const buffer = Buffer.from(arrayBuffer)
-        const base64 = buffer.toString('base64')
-        const dataUrl = `data:${photo.type};base64,${base64}`
-
-        // Store in Supabase Storage (if configured) or store as base64 in notes
-        // For now, we'll store it in the notes field as a reference
-        // In production, you'd want to upload to Supabase Storage
-        photoUrl = dataUrl // Store reference - in production, upload to storage and get URL
-      } catch (photoError: any) {
-        console.error('[POST /worker/report-incident] Error processing photo:', photoError)
-        // Don't fail the incident creation if photo processing fails
+    // Validate photo up front - it's stored once the case exists
+    const hasPhoto = !!photo && photo.size > 0
+    if (hasPhoto) {
+      const photoValidation = validateAttachmentFile(photo)
+      if (!photoValidation.valid) {
+        return c.json({ error: photoValidation.error }, 400)
       }
     }
 
@@ -285,7 +279,7 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
       team_id: teamId,
       incident_type: type,
       incident_date: incidentDate,
-      description: `${description}${location ? `\n\nLocation: ${location}` : ''}${photoUrl ? '\n\n[Photo attached]' : ''}`,
+      description: `${description}${location ? `\n\nLocation: ${location}` : ''}${hasPhoto ? '\n\n[Photo attached]' : ''}`,
       severity: severity,
     }
 
@@ -313,13 +307,13 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
     const exceptionData = {
       user_id: user.id,
       team_id: teamId,
+      organization_id: user.organization_id,
       exception_type: exceptionType,
       reason: `${type === 'incident' ? 'Incident' : 'Near-Miss'} reported: ${description}. Location: ${location}. Severity: ${severity}`,
       start_date: incidentDate,
       end_date: null,
       is_active: true,
       created_by: user.id,
-      notes: photoUrl ? `Photo attached: ${photoUrl.substring(0, 100)}...` : null,
     }
 
     const { data: newException, error: createError } = await adminClient
@@ -333,6 +327,30 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
       return c.json({ error: 'Failed to create incident report', details: createError.message }, 500)
     }
 
+    const workerName = (user as any).full_name || 
+                      ((user as any).first_name && (user as any).last_name 
+                        ? `${(user as any).first_name} ${(user as any).last_name}`
+                        : user.email || 'Unknown Worker')
+
+    // Store photo as a case attachment
+    if (hasPhoto) {
+      try {
+        const { error: photoError } = await saveAttachment({
+          caseId: newException.id,
+          incidentId,
+          file: photo as File,
+          category: 'incident_photo',
+          uploadedBy: { id: user.id, name: workerName },
+        })
+        if (photoError) {
+          console.error('[POST /worker/report-incident] Error saving photo attachment:', photoError)
+        }
+      } catch (photoError: any) {
+        console.error('[POST /worker/report-incident] Error storing photo:', photoError)
+        // Don't fail the incident creation if photo storage fails
+      }
+    }
+
     // OPTIMIZATION: Automatically deactivate all active schedules when incident is reported
     let deactivatedScheduleCount = 0
     try {
@@ -359,11 +377,6 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
 
     // Create notifications (team is required, so notifications will always be sent)
     try {
-      const workerName = (user as any).full_name || 
-                        ((user as any).first_name && (user as any).last_name 
-                          ? `${(user as any).first_name} ${(user as any).last_name}`
-                          : user.email || 'Unknown Worker')
-
       const notifications: any[] = []
 
       // Notification for supervisor (team is required)
@@ -429,9 +442,7 @@ worker.post('/report-incident', authMiddleware, requireRole(['worker']), async (
       })
 
       if (notifications.length > 0) {
-        await adminClient
-          .from('notifications')
-          .insert(notifications)
+        await createNotifications(notifications)
       }
     } catch (notifError: any) {
       console.error('[POST /worker/report-incident] Error creating notifications:', notifError)
@@ -576,7 +587,7 @@ worker.get('/cases', authMiddleware, requireRole(['worker']), async (c) => {
     }
 
     // Format cases
-    const { getCaseStatusFromNotes, mapCaseStatusToDisplay } = await import('../utils/caseStatus.js')
+    const { mapCaseStatusToDisplay } = await import('../utils/caseStatus.js')
     
     // Generate case number from exception
     const generateCaseNumber = (exceptionId: string, createdAt: string): string => {
@@ -622,8 +633,8 @@ worker.get('/cases', authMiddleware, requireRole(['worker']), async (c) => {
       const isInRehab = rehabMap.has(incident.id)
 
       const caseNumber = generateCaseNumber(incident.id, incident.created_at)
-      const caseStatusFromNotes = getCaseStatusFromNotes(incident.notes)
-      const caseStatus = mapCaseStatusToDisplay(caseStatusFromNotes, isInRehab, isCurrentlyActive)
+      const recordedStatus = getCaseStatus(incident)
+      const caseStatus = mapCaseStatusToDisplay(recordedStatus, isInRehab, isCurrentlyActive)
 
       let priority = 'MEDIUM'
       if (incident.exception_type === 'injury' || incident.exception_type === 'accident') {
@@ -654,8 +665,10 @@ worker.get('/cases', authMiddleware, requireRole(['worker']), async (c) => {
         priority,
         isActive: isCurrentlyActive,
         isInRehab,
-        caseStatus: caseStatusFromNotes || null,
+        caseStatus: recordedStatus,
         notes: incident.notes || null,
+        approvedBy: incident.approved_by || null,
+        approvedAt: incident.approved_at || null,
         createdAt: incident.created_at,
         updatedAt: incident.updated_at,
         return_to_work_duty_type: incident.return_to_work_duty_type || null,
@@ -752,7 +765,7 @@ worker.get('/cases/:id', authMiddleware, requireRole(['worker']), async (c) => {
     const supervisor = userMap.get(team?.supervisor_id)
     const teamLeader = userMap.get(team?.team_leader_id)
     
-    const { getCaseStatusFromNotes, mapCaseStatusToDisplay } = await import('../utils/caseStatus.js')
+    const { mapCaseStatusToDisplay } = await import('../utils/caseStatus.js')
     
     // Generate case number from exception
     const generateCaseNumber = (exceptionId: string, createdAt: string): string => {
@@ -774,7 +787,7 @@ worker.get('/cases/:id', authMiddleware, requireRole(['worker']), async (c) => {
       return user.email || 'Unknown'
     }
 
-    const caseStatusFromNotes = getCaseStatusFromNotes(caseData.notes)
+    const recordedStatus = getCaseStatus(caseData)
     const isInRehab = !!rehabPlan
     const todayDate = new Date()
     todayDate.setHours(0, 0, 0, 0)
@@ -818,12 +831,14 @@ worker.get('/cases/:id', authMiddleware, requireRole(['worker']), async (c) => {
       reason: caseData.reason || '',
       startDate: caseData.start_date,
       endDate: caseData.end_date,
-      status: mapCaseStatusToDisplay(caseStatusFromNotes, isInRehab, isCurrentlyActive),
+      status: mapCaseStatusToDisplay(recordedStatus, isInRehab, isCurrentlyActive),
       priority,
       isActive: isCurrentlyActive,
       isInRehab,
-      caseStatus: caseStatusFromNotes || null,
+      caseStatus: recordedStatus,
       notes: caseData.notes || null,
+      approvedBy: caseData.approved_by || null,
+      approvedAt: caseData.approved_at || null,
       createdAt: caseData.created_at,
       updatedAt: caseData.updated_at,
       return_to_work_duty_type: caseData.return_to_work_duty_type || null,
@@ -846,9 +861,7 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
     }
 
     const adminClient = getAdminClient()
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayStr = getTodayDateString()
+    const timeZone = await getWorkerTimeZone(user.id)
 
     // Get all active schedules for this worker
     const { data: schedules, error: scheduleError } = await adminClient
@@ -864,6 +877,13 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
       return c.json({ error: 'Failed to fetch schedules', details: scheduleError.message }, 500)
     }
 
+    // "Today" is the shift day at the worker's site (stays on an overnight shift's date after midnight)
+    const todayStr = resolveShiftDay(schedules || [], new Date(), timeZone).date
+    const today = parseDateString(todayStr)
+
+    // Site holidays need no check-in - they don't count as scheduled days
+    const holidays = await getWorkerHolidays(user.id, addDaysToDateString(todayStr, -30), addDaysToDateString(todayStr, 90))
+
     // Get all check-ins for this worker (last 30 days for performance)
     const thirtyDaysAgo = new Date(today)
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
@@ -887,6 +907,21 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
       // Continue without exceptions - not critical
     }
 
+    // Missed check-ins recorded by the detection job (window closed without a check-in)
+    const { data: missedCheckIns, error: missedError } = await adminClient
+      .from('missed_checkins')
+      .select('missed_date, check_in_window_end, detected_at, late_check_in_id')
+      .eq('user_id', user.id)
+      .gte('missed_date', thirtyDaysAgoStr)
+      .order('missed_date', { ascending: false })
+
+    if (missedError) {
+      console.error('[GET /worker/streak] Error fetching missed check-ins:', missedError)
+      // Continue without recorded misses - not critical
+    }
+
+    const recordedMissedDates = new Set<string>((missedCheckIns || []).map((m: any) => m.missed_date))
+
     if (checkInError) {
       console.error('[GET /worker/streak] Error fetching check-ins:', checkInError)
       return c.json({ error: 'Failed to fetch check-ins', details: checkInError.message }, 500)
@@ -904,7 +939,7 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
     }
 
     // Get scheduled dates for past 30 days (for streak calculation)
-    const pastScheduledDates = getScheduledDatesInRange(schedules || [], thirtyDaysAgo, today)
+    const pastScheduledDates = getScheduledDatesInRange(schedules || [], thirtyDaysAgo, today, holidays)
     
     // Check which scheduled dates have exceptions (using centralized function)
     const { exceptionDates, scheduledDatesWithExceptions } = getExceptionDatesForScheduledDates(
@@ -919,12 +954,15 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
     // - Days with schedule but NO check-in: break streak
     // - Days with NO schedule: skip (don't break streak, don't count)
     // Current streak is the most recent consecutive days with schedule + check-in
+    // - A recorded missed check-in after the most recent check-in means there is no current streak
+    //   (a scheduled day without check-in whose window is still open doesn't break it)
     
     let currentStreak = 0
     let longestStreak = 0
     let tempStreak = 0
     let foundFirstScheduledDay = false
     let foundMostRecentCheckIn = false // Track if we've found the most recent check-in
+    let currentStreakEnded = false // Set once a missed day ends the current streak
 
     // Go backwards from today to find consecutive days with schedule + check-in
     for (let dayOffset = 0; dayOffset <= 30; dayOffset++) {
@@ -952,11 +990,13 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
             // This is the most recent check-in, start building current streak from here
             foundMostRecentCheckIn = true
             tempStreak = 1
-            currentStreak = 1
+            currentStreak = currentStreakEnded ? 0 : 1
           } else {
-            // Continue building the current streak
+            // Continue building the current streak (older streaks only count towards longest)
             tempStreak++
-            currentStreak = tempStreak
+            if (!currentStreakEnded) {
+              currentStreak = tempStreak
+            }
           }
           
           // Always update longest streak
@@ -966,9 +1006,14 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
           if (foundMostRecentCheckIn) {
             // We've already found the most recent check-in, so this breaks the current streak
             // Don't update currentStreak anymore
+            currentStreakEnded = true
             tempStreak = 0
           } else {
-            // Haven't found most recent check-in yet, continue searching
+            // Haven't found most recent check-in yet - a recorded miss means the streak is already over,
+            // otherwise (e.g. today's window is still open) continue searching
+            if (recordedMissedDates.has(checkDateStr)) {
+              currentStreakEnded = true
+            }
             tempStreak = 0
           }
         }
@@ -998,8 +1043,10 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
     
     // Find missed schedule dates (past scheduled dates without check-in AND without exception)
     // Exception dates should NOT be counted as missed schedules
+    // Today only counts once the detection job has recorded it (i.e. the check-in window has closed)
     const missedScheduleDates = Array.from(pastScheduledDates)
       .filter(date => !checkInDates.has(date) && !scheduledDatesWithExceptions.has(date))
+      .filter(date => date !== todayStr || recordedMissedDates.has(date))
       .sort()
       .reverse() // Most recent first
     
@@ -1009,7 +1056,7 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
     // Get future scheduled dates (next 90 days)
     const futureEndDate = new Date(today)
     futureEndDate.setDate(futureEndDate.getDate() + 90)
-    const futureScheduledDates = getScheduledDatesInRange(schedules || [], today, futureEndDate)
+    const futureScheduledDates = getScheduledDatesInRange(schedules || [], today, futureEndDate, holidays)
     
     // Calculate total scheduled days (past + future)
     const totalScheduledDaysIncludingFuture = pastScheduledDates.size + futureScheduledDates.size
@@ -1025,7 +1072,7 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
       nextCheckInDateFormatted = 'Today'
     } else {
       // Find next future scheduled date
-      nextCheckInDate = findNextScheduledDate(schedules || [], today, 90)
+      nextCheckInDate = findNextScheduledDate(schedules || [], today, 90, holidays)
       if (nextCheckInDate) {
         nextCheckInDateFormatted = formatDateForDisplay(nextCheckInDate)
       }
@@ -1051,6 +1098,12 @@ worker.get('/streak', authMiddleware, requireRole(['worker']), async (c) => {
       completedDays,
       missedScheduleDates,
       missedScheduleCount: missedScheduleDates.length,
+      missedCheckIns: (missedCheckIns || []).map((m: any) => ({
+        date: m.missed_date,
+        windowEnd: m.check_in_window_end,
+        detectedAt: m.detected_at,
+        lateCheckIn: !!m.late_check_in_id,
+      })),
       exceptionDates,
       nextCheckInDate,
       nextCheckInDateFormatted,
@@ -0,0 +1,323 @@
+/**
+ * Appointment Reminders & No-shows
+ * Background job: reminds workers ahead of their pending/confirmed appointments and alerts the
+ * clinician when an appointment is close and the worker still hasn't confirmed it.
+ *
+ * Every reminder sent is recorded in appointment_reminders (unique per appointment, offset and
+ * start time), so repeated runs - or several backend instances - never remind twice, and a
+ * rescheduled appointment is reminded again. If several offsets are already due (e.g. an
+ * appointment booked for this afternoon) the worker gets a single reminder. Appointment times
+ * are the clinician's wall-clock time in their booking timezone.
+ *
+ * Clinicians record a 'no_show' outcome once an appointment has started; summarizeAttendance()
+ * turns completed / no_show outcomes into a no-show rate.
+ *
+ * Environment:
+ *   APPOINTMENT_REMINDERS_ENABLED        set to 'false' to disable the background job
+ *   APPOINTMENT_REMINDER_OFFSETS         minutes before the start time, comma separated (default: 1440,120)
+ *   APPOINTMENT_REMINDER_EMAIL           set to 'true' to also send reminders over the worker's outbound
+ *                                        channels (email/SMS preferences - see notificationChannels.ts)
+ *   APPOINTMENT_UNCONFIRMED_FLAG_HOURS   hours before the start time a still-pending appointment is flagged (default: 24)
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { createNotifications } from './notificationHub.js'
+import { formatDateForDisplay } from './scheduleUtils.js'
+import { getClinicianTimeZones } from './clinicianAvailability.js'
+import { addDaysToDateString, zonedTimeToDate } from './timezone.js'
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+const DEFAULT_REMINDER_OFFSETS = [1440, 120]
+const DEFAULT_UNCONFIRMED_FLAG_HOURS = 24
+
+const TYPE_LABELS: Record<string, string> = {
+  consultation: 'consultation',
+  follow_up: 'follow-up',
+  assessment: 'assessment',
+  review: 'review',
+  other: 'appointment',
+}
+
+export interface AttendanceSummary {
+  attended: number
+  noShows: number
+  noShowRate: number | null // % of appointments with an outcome that were missed, null when none
+}
+
+interface UpcomingAppointment {
+  id: string
+  case_id: string
+  clinician_id: string
+  worker_id: string
+  appointment_date: string
+  appointment_time: string
+  appointment_type: string
+  status: 'pending' | 'confirmed'
+  location: string | null
+  visit_mode: string
+  unconfirmed_flagged_at: string | null
+  startsAt: Date
+}
+
+/**
+ * Reminder offsets (minutes before the start time), largest first
+ */
+export function getReminderOffsets(): number[] {
+  const configured = (process.env.APPOINTMENT_REMINDER_OFFSETS || '')
+    .split(',')
+    .map(value => parseInt(value.trim()))
+    .filter(value => Number.isInteger(value) && value > 0)
+
+  const offsets = configured.length > 0 ? configured : DEFAULT_REMINDER_OFFSETS
+  return [...new Set(offsets)].sort((a, b) => b - a)
+}
+
+function getUnconfirmedFlagHours(): number {
+  const hours = Number(process.env.APPOINTMENT_UNCONFIRMED_FLAG_HOURS)
+  return hours > 0 ? hours : DEFAULT_UNCONFIRMED_FLAG_HOURS
+}
+
+/**
+ * The instant an appointment starts
+ * @param timeZone - Clinician's booking timezone
+ */
+export function getAppointmentStart(appointment: { appointment_date: string; appointment_time: string }, timeZone: string): Date {
+  return zonedTimeToDate(appointment.appointment_date, appointment.appointment_time, timeZone)
+}
+
+/**
+ * No-show rate from appointment outcomes (completed = attended, no_show = missed)
+ */
+export function summarizeAttendance(appointments: Array<{ status: string }>): AttendanceSummary {
+  const attended = appointments.filter(appointment => appointment.status === 'completed').length
+  const noShows = appointments.filter(appointment => appointment.status === 'no_show').length
+  const total = attended + noShows
+
+  return {
+    attended,
+    noShows,
+    noShowRate: total > 0 ? Math.round((noShows / total) * 100) : null,
+  }
+}
+
+function formatTimeUntil(minutes: number): string {
+  if (minutes < 60) return `in ${Math.max(1, Math.round(minutes))} minutes`
+  if (minutes < 48 * 60) {
+    const hours = Math.round(minutes / 60)
+    return hours === 1 ? 'in 1 hour' : `in ${hours} hours`
+  }
+  return `in ${Math.round(minutes / (24 * 60))} days`
+}
+
+/**
+ * Get pending/confirmed appointments starting between now and the largest reminder offset
+ * (or the unconfirmed flag window, whichever is longer)
+ */
+async function findUpcomingAppointments(now: Date): Promise<UpcomingAppointment[]> {
+  const horizonMinutes = Math.max(getReminderOffsets()[0], getUnconfirmedFlagHours() * 60)
+  const horizon = now.getTime() + horizonMinutes * 60 * 1000
+
+  // Wall-clock dates differ from UTC by up to a day either side
+  const todayUtc = now.toISOString().split('T')[0]
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('appointments')
+    .select('id, case_id, clinician_id, worker_id, appointment_date, appointment_time, appointment_type, status, location, visit_mode, unconfirmed_flagged_at')
+    .in('status', ['pending', 'confirmed'])
+    .gte('appointment_date', addDaysToDateString(todayUtc, -1))
+    .lte('appointment_date', addDaysToDateString(todayUtc, Math.ceil(horizonMinutes / (24 * 60)) + 1))
+
+  if (error) {
+    throw new Error(`Failed to fetch appointments: ${error.message}`)
+  }
+
+  const timeZones = await getClinicianTimeZones((data || []).map((appointment: any) => appointment.clinician_id))
+
+  return (data || [])
+    .map((appointment: any) => ({
+      ...appointment,
+      startsAt: getAppointmentStart(appointment, timeZones.get(appointment.clinician_id)!),
+    }))
+    .filter(appointment => appointment.startsAt.getTime() > now.getTime() && appointment.startsAt.getTime() <= horizon)
+}
+
+/**
+ * Record due reminders and notify the workers
+ * @returns Number of workers reminded
+ */
+async function sendReminders(appointments: UpcomingAppointment[], now: Date, names: Map<string, string>): Promise<number> {
+  const offsets = getReminderOffsets()
+  const due: Array<{ appointment_id: string; offset_minutes: number; scheduled_for: string }> = []
+
+  for (const appointment of appointments) {
+    const minutesUntil = (appointment.startsAt.getTime() - now.getTime()) / 60000
+    for (const offset of offsets) {
+      if (minutesUntil <= offset) {
+        due.push({ appointment_id: appointment.id, offset_minutes: offset, scheduled_for: appointment.startsAt.toISOString() })
+      }
+    }
+  }
+
+  if (due.length === 0) return 0
+
+  // ignoreDuplicates: only reminders this run actually inserted are returned
+  const adminClient = getAdminClient()
+  const { data: inserted, error } = await adminClient
+    .from('appointment_reminders')
+    .upsert(due, { onConflict: 'appointment_id,offset_minutes,scheduled_for', ignoreDuplicates: true })
+    .select('appointment_id')
+
+  if (error) {
+    throw new Error(`Failed to record appointment reminders: ${error.message}`)
+  }
+
+  const remindedIds = new Set((inserted || []).map((row: any) => row.appointment_id))
+  if (remindedIds.size === 0) return 0
+
+  const notifications = appointments
+    .filter(appointment => remindedIds.has(appointment.id))
+    .map(appointment => {
+      const time = appointment.appointment_time.slice(0, 5)
+      const typeLabel = TYPE_LABELS[appointment.appointment_type] || 'appointment'
+      const clinicianName = names.get(appointment.clinician_id)
+      const minutesUntil = (appointment.startsAt.getTime() - now.getTime()) / 60000
+      const where = appointment.visit_mode === 'telehealth' ? 'video call' : appointment.location
+
+      return {
+        user_id: appointment.worker_id,
+        type: 'appointment_reminder',
+        title: '⏰ Appointment Reminder',
+        message: `Your ${typeLabel} with ${clinicianName ? `Dr. ${clinicianName}` : 'your clinician'} is ${formatTimeUntil(minutesUntil)} - ${formatDateForDisplay(appointment.appointment_date)} at ${time}${where ? ` (${where})` : ''}.` +
+          (appointment.status === 'pending' ? ' Please confirm or decline it in My Appointments.' : ''),
+        data: {
+          appointment_id: appointment.id,
+          case_id: appointment.case_id,
+          appointment_date: appointment.appointment_date,
+          appointment_time: time,
+          status: appointment.status,
+        },
+        is_read: false,
+      }
+    })
+
+  const { error: notifyError } = await createNotifications(notifications)
+  if (notifyError) {
+    // Reminders are recorded - don't retry the whole run just because notifications failed
+    console.error('[appointmentReminders] Error creating reminder notifications:', notifyError)
+  }
+  return notifications.length
+}
+
+/**
+ * Flag pending appointments close to their start time and alert the clinician
+ * @returns Number of appointments flagged
+ */
+async function flagUnconfirmedAppointments(appointments: UpcomingAppointment[], now: Date, names: Map<string, string>): Promise<number> {
+  const flagBefore = now.getTime() + getUnconfirmedFlagHours() * 60 * 60 * 1000
+  const candidates = appointments.filter(appointment =>
+    appointment.status === 'pending' &&
+    !appointment.unconfirmed_flagged_at &&
+    appointment.startsAt.getTime() <= flagBefore
+  )
+
+  if (candidates.length === 0) return 0
+
+  // Conditional update - another instance flagging the same appointments gets no rows back
+  const adminClient = getAdminClient()
+  const { data: flagged, error } = await adminClient
+    .from('appointments')
+    .update({ unconfirmed_flagged_at: now.toISOString() })
+    .in('id', candidates.map(appointment => appointment.id))
+    .eq('status', 'pending')
+    .is('unconfirmed_flagged_at', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to flag unconfirmed appointments: ${error.message}`)
+  }
+
+  const flaggedIds = new Set((flagged || []).map((row: any) => row.id))
+  if (flaggedIds.size === 0) return 0
+
+  const notifications = candidates
+    .filter(appointment => flaggedIds.has(appointment.id))
+    .map(appointment => {
+      const time = appointment.appointment_time.slice(0, 5)
+      const workerName = names.get(appointment.worker_id) || 'The worker'
+
+      return {
+        user_id: appointment.clinician_id,
+        type: 'appointment_unconfirmed',
+        title: '⚠️ Unconfirmed Appointment',
+        message: `${workerName} has not confirmed their ${TYPE_LABELS[appointment.appointment_type] || 'appointment'} on ${formatDateForDisplay(appointment.appointment_date)} at ${time}. Consider contacting them before the appointment.`,
+        data: {
+          appointment_id: appointment.id,
+          case_id: appointment.case_id,
+          worker_id: appointment.worker_id,
+          worker_name: workerName,
+          appointment_date: appointment.appointment_date,
+          appointment_time: time,
+        },
+        is_read: false,
+      }
+    })
+
+  const { error: notifyError } = await createNotifications(notifications)
+  if (notifyError) {
+    console.error('[appointmentReminders] Error creating unconfirmed notifications:', notifyError)
+  }
+  return notifications.length
+}
+
+/**
+ * Send due appointment reminders and flag unconfirmed appointments
+ * @param now - Current time (default: now)
+ */
+export async function processAppointmentReminders(now: Date = new Date()): Promise<{ reminded: number; flagged: number }> {
+  const appointments = await findUpcomingAppointments(now)
+  if (appointments.length === 0) return { reminded: 0, flagged: 0 }
+
+  const userIds = [...new Set(appointments.flatMap(appointment => [appointment.clinician_id, appointment.worker_id]))]
+  const adminClient = getAdminClient()
+  const { data: users } = await adminClient
+    .from('users')
+    .select('id, email, first_name, last_name, full_name')
+    .in('id', userIds)
+
+  const names = new Map<string, string>((users || []).map((u: any) => [
+    u.id,
+    u.full_name || (u.first_name && u.last_name ? `${u.first_name} ${u.last_name}` : u.email),
+  ]))
+
+  const reminded = await sendReminders(appointments, now, names)
+  const flagged = await flagUnconfirmedAppointments(appointments, now, names)
+
+  if (reminded > 0 || flagged > 0) {
+    console.log(`[appointmentReminders] Sent ${reminded} reminder(s), flagged ${flagged} unconfirmed appointment(s)`)
+  }
+  return { reminded, flagged }
+}
+
+let reminderTimer: NodeJS.Timeout | null = null
+let isProcessing = false
+
+/**
+ * Start the background reminder job (called once from index.ts)
+ */
+export function startAppointmentReminderWorker(): void {
+  if (reminderTimer || process.env.APPOINTMENT_REMINDERS_ENABLED === 'false') return
+
+  reminderTimer = setInterval(async () => {
+    // Skip tick if the previous run is still going
+    if (isProcessing) return
+    isProcessing = true
+    try {
+      await processAppointmentReminders()
+    } catch (error) {
+      console.error('[appointmentReminders] Worker error:', error)
+    } finally {
+      isProcessing = false
+    }
+  }, CHECK_INTERVAL_MS)
+  console.log(`[appointmentReminders] Appointment reminders started (offsets: ${getReminderOffsets().join(', ')} minutes)`)
+}
@@ -0,0 +1,250 @@
+/**
+ * Case Attachments
+ * Files attached to a case (worker_exceptions) or its incident: incident photos, medical certificates.
+ * File contents live in storage (see storage.ts); case_attachments holds the metadata.
+ * Access follows the case: the worker, the assigned clinician, the team's leader/supervisor,
+ * and WHS once the case is assigned to WHS.
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { buildStorageKey, createSignedDownloadUrl, getStorage } from './storage.js'
+
+export type AttachmentCategory = 'incident_photo' | 'medical_certificate' | 'other'
+
+export const ATTACHMENT_CATEGORIES: AttachmentCategory[] = ['incident_photo', 'medical_certificate', 'other']
+
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024 // 10MB
+
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+]
+
+const ATTACHMENT_FIELDS = 'id, case_id, incident_id, storage_backend, storage_key, file_name, content_type, size_bytes, category, uploaded_by, uploaded_by_name, created_at'
+
+export interface CaseAccessUser {
+  id: string
+  role: string
+  organization_id?: string | null
+}
+
+/**
+ * Check whether a user can see a case (and its attachments)
+ * @param user - Authenticated user
+ * @param caseId - Case (worker_exceptions) ID
+ * @returns { allowed, caseRow } - caseRow is null if the case doesn't exist
+ */
+export async function checkCaseAccess(
+  user: CaseAccessUser,
+  caseId: string
+): Promise<{ allowed: boolean; caseRow: any; error: any }> {
+  const adminClient = getAdminClient()
+  const { data: caseRow, error } = await adminClient
+    .from('worker_exceptions')
+    .select('id, user_id, team_id, organization_id, clinician_id, assigned_to_whs, teams(supervisor_id, team_leader_id)')
+    .eq('id', caseId)
+    .maybeSingle()
+
+  if (error || !caseRow) {
+    return { allowed: false, caseRow: null, error }
+  }
+
+  const team: any = Array.isArray(caseRow.teams) ? caseRow.teams[0] : caseRow.teams
+
+  let allowed = false
+  switch (user.role) {
+    case 'worker':
+      allowed = caseRow.user_id === user.id
+      break
+    case 'clinician':
+      allowed = caseRow.clinician_id === user.id
+      break
+    case 'team_leader':
+      allowed = team?.team_leader_id === user.id
+      break
+    case 'supervisor':
+      allowed = team?.supervisor_id === user.id
+      break
+    case 'whs_control_center':
+      allowed = caseRow.assigned_to_whs === true && !!user.organization_id && caseRow.organization_id === user.organization_id
+      break
+    case 'admin':
+      allowed = true
+      break
+  }
+
+  return { allowed, caseRow, error: null }
+}
+
+/**
+ * Validate an uploaded file against the attachment type and size limits
+ * @returns { valid, error? }
+ */
+export function validateAttachmentFile(file: File | null): { valid: boolean; error?: string } {
+  if (!file || file.size === 0) {
+    return { valid: false, error: 'File is required' }
+  }
+
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return { valid: false, error: `File exceeds maximum size of ${ATTACHMENT_MAX_BYTES / (1024 * 1024)}MB` }
+  }
+
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return { valid: false, error: 'Unsupported file type. Upload a JPEG, PNG, WebP, HEIC image or a PDF.' }
+  }
+
+  return { valid: true }
+}
+
+export interface SaveAttachmentInput {
+  caseId: string
+  incidentId?: string | null
+  file: File
+  category: AttachmentCategory
+  uploadedBy: { id: string; name: string }
+}
+
+/**
+ * Store a file and record it in case_attachments
+ * The stored file is removed again if the metadata row can't be written.
+ * @returns { data, error } - data is the case_attachments row
+ */
+export async function saveAttachment(input: SaveAttachmentInput): Promise<{ data: any; error: any }> {
+  const storage = getStorage()
+  const storageKey = buildStorageKey(`cases/${input.caseId}`, input.file.name)
+  const body = Buffer.from(await input.file.arrayBuffer())
+
+  await storage.put(storageKey, body, input.file.type)
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('case_attachments')
+    .insert({
+      case_id: input.caseId,
+      incident_id: input.incidentId || null,
+      storage_backend: storage.name,
+      storage_key: storageKey,
+      file_name: input.file.name.slice(0, 255) || 'attachment',
+      content_type: input.file.type,
+      size_bytes: input.file.size,
+      category: input.category,
+      uploaded_by: input.uploadedBy.id,
+      uploaded_by_name: input.uploadedBy.name,
+    })
+    .select(ATTACHMENT_FIELDS)
+    .single()
+
+  if (error) {
+    await storage.delete(storageKey).catch((deleteError) => {
+      console.error('[saveAttachment] Error removing orphaned file:', deleteError)
+    })
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Get an attachment row by ID
+ * @returns { data, error } - data is null if not found
+ */
+export async function getAttachment(attachmentId: string): Promise<{ data: any; error: any }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('case_attachments')
+    .select(ATTACHMENT_FIELDS)
+    .eq('id', attachmentId)
+    .maybeSingle()
+
+  return { data, error }
+}
+
+export interface AttachmentResponse {
+  id: string
+  caseId: string
+  incidentId: string | null
+  fileName: string
+  contentType: string
+  sizeBytes: number
+  category: AttachmentCategory
+  uploadedBy: string | null
+  uploadedById: string | null
+  createdAt: string
+  url: string
+  urlExpiresAt: string
+}
+
+/**
+ * Map an attachment row for API responses, with a download URL signed for the viewer
+ * @param row - case_attachments row
+ * @param viewerId - User the download URL is issued to (access must already be checked)
+ */
+export function formatAttachment(row: any, viewerId: string): AttachmentResponse {
+  const { url, expiresAt } = createSignedDownloadUrl(row.id, viewerId)
+  return {
+    id: row.id,
+    caseId: row.case_id,
+    incidentId: row.incident_id || null,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    category: row.category,
+    uploadedBy: row.uploaded_by_name || null,
+    uploadedById: row.uploaded_by || null,
+    createdAt: row.created_at,
+    url,
+    urlExpiresAt: expiresAt,
+  }
+}
+
+/**
+ * List a case's attachments, newest first, with download URLs signed for the viewer
+ * @param caseId - Case (worker_exceptions) ID
+ * @param viewerId - User the download URLs are issued to (access must already be checked)
+ * @returns { data, error }
+ */
+export async function listCaseAttachments(
+  caseId: string,
+  viewerId: string
+): Promise<{ data: AttachmentResponse[]; error: any }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('case_attachments')
+    .select(ATTACHMENT_FIELDS)
+    .eq('case_id', caseId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    return { data: [], error }
+  }
+
+  return { data: (data || []).map((row: any) => formatAttachment(row, viewerId)), error: null }
+}
+
+/**
+ * Delete an attachment's file and metadata row
+ * @returns { error }
+ */
+export async function deleteAttachment(attachment: any): Promise<{ error: any }> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient
+    .from('case_attachments')
+    .delete()
+    .eq('id', attachment.id)
+
+  if (error) {
+    return { error }
+  }
+
+  try {
+    await getStorage(attachment.storage_backend).delete(attachment.storage_key)
+  } catch (storageError) {
+    // Don't fail the delete if the file is already gone or storage is unreachable
+    console.error('[deleteAttachment] Error deleting stored file:', storageError)
+  }
+
+  return { error: null }
+}
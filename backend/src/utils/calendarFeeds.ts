@@ -0,0 +1,426 @@
+/**
+ * Calendar Feeds
+ * Per-user iCalendar (.ics) feeds for phone and desktop calendars: workers get their shifts
+ * (worker_schedules, recurrence expanded with scheduleUtils) and appointments, clinicians get
+ * their appointments. Cancelled and declined appointments stay in the feed as STATUS:CANCELLED
+ * so subscribed calendars remove them.
+ *
+ * Calendar apps can't log in, so a feed URL carries a random token. Only the token's SHA-256
+ * hash is stored (calendar_feed_tokens, see migration_add_calendar_feeds.sql); revoking a
+ * token stops its feed immediately.
+ *
+ * Event times are written in UTC, converted from the site's wall-clock time (teams.timezone).
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { getAdminClient } from './adminClient.js'
+import { getScheduledDatesInRange, getShiftSegmentsForDate } from './scheduleUtils.js'
+import { getScheduleShiftRange, minutesToTimeOfDay } from './checkInWindow.js'
+import { getWorkerHolidays } from './siteHolidays.js'
+import { formatUserFullName } from './userUtils.js'
+import {
+  addDaysToDateString,
+  getTeamTimeZones,
+  getTodayInTimeZone,
+  getWorkerTimeZone,
+  getDefaultTimeZone,
+  zonedTimeToDate,
+} from './timezone.js'
+
+// Feeds cover a month back (recent history) and six months ahead
+const FEED_DAYS_BACK = 30
+const FEED_DAYS_AHEAD = 180
+
+const PRODUCT_ID = '-//WorkReadines//Calendar Feed//EN'
+const UID_DOMAIN = 'workreadines'
+
+export type CalendarFeedRole = 'worker' | 'clinician'
+
+export interface CalendarFeedToken {
+  id: string
+  user_id: string
+  label: string | null
+  token_hint: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+export interface CalendarEvent {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  /** Bumped whenever the event changes so calendars replace their copy */
+  sequence?: number
+  lastModified?: Date
+}
+
+function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Check if a role has a calendar feed
+ */
+export function isCalendarFeedRole(role: string): role is CalendarFeedRole {
+  return role === 'worker' || role === 'clinician'
+}
+
+/**
+ * Path of a feed on the API origin (calendar apps subscribe to it)
+ */
+export function getCalendarFeedPath(token: string): string {
+  return `/api/calendar/feeds/${token}.ics`
+}
+
+/**
+ * Create a feed token for a user
+ * The plain token is only returned here - store or show it once.
+ * @returns { data: { token, feed }, error }
+ */
+export async function createCalendarFeedToken(
+  userId: string,
+  label?: string | null
+): Promise<{ data: { token: string; feed: CalendarFeedToken } | null; error: any }> {
+  const token = randomBytes(32).toString('base64url')
+  const adminClient = getAdminClient()
+
+  const { data, error } = await adminClient
+    .from('calendar_feed_tokens')
+    .insert({
+      user_id: userId,
+      token_hash: hashFeedToken(token),
+      token_hint: token.slice(-4),
+      label: label ? String(label).slice(0, 100) : null,
+    })
+    .select('id, user_id, label, token_hint, created_at, last_used_at, revoked_at')
+    .single()
+
+  if (error || !data) {
+    return { data: null, error }
+  }
+  return { data: { token, feed: data }, error: null }
+}
+
+/**
+ * List a user's feed tokens (newest first, revoked ones included)
+ */
+export async function listCalendarFeedTokens(userId: string): Promise<{ data: CalendarFeedToken[]; error: any }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('calendar_feed_tokens')
+    .select('id, user_id, label, token_hint, created_at, last_used_at, revoked_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  return { data: data || [], error }
+}
+
+/**
+ * Revoke one of a user's feed tokens
+ * @returns { data: true if a token was revoked, error }
+ */
+export async function revokeCalendarFeedToken(userId: string, tokenId: string): Promise<{ data: boolean; error: any }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id')
+
+  return { data: !error && (data || []).length > 0, error }
+}
+
+/**
+ * Find the user a feed token belongs to (and record that the feed was fetched)
+ * @returns User or null if the token is unknown or revoked
+ */
+export async function resolveCalendarFeedToken(token: string): Promise<{
+  id: string
+  email: string
+  role: string
+  first_name?: string | null
+  last_name?: string | null
+  full_name?: string | null
+} | null> {
+  if (!token || !/^[A-Za-z0-9_-]{32,100}$/.test(token)) {
+    return null
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('calendar_feed_tokens')
+    .select('id, revoked_at, users!calendar_feed_tokens_user_id_fkey(id, email, role, first_name, last_name, full_name)')
+    .eq('token_hash', hashFeedToken(token))
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error resolving calendar feed token:', error)
+    return null
+  }
+  if (!data || data.revoked_at) {
+    return null
+  }
+
+  // Best effort - a failed update shouldn't break the feed
+  const { error: updateError } = await adminClient
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id)
+  if (updateError) {
+    console.error('Error updating calendar feed last_used_at:', updateError)
+  }
+
+  const user: any = Array.isArray(data.users) ? data.users[0] : data.users
+  return user || null
+}
+
+/**
+ * Instant a time on a shift date occurs, given minutes from midnight of the shift date
+ */
+function shiftMinutesToDate(shiftDate: string, minutes: number, timeZone: string): Date {
+  const { time, dayOffset } = minutesToTimeOfDay(minutes)
+  return zonedTimeToDate(addDaysToDateString(shiftDate, dayOffset), time, timeZone)
+}
+
+/**
+ * A worker's shifts as calendar events (one per segment of each shift date in the feed window)
+ * Single-date schedules replace the recurring pattern on their date, as everywhere else.
+ */
+export async function getWorkerShiftEvents(userId: string): Promise<CalendarEvent[]> {
+  const adminClient = getAdminClient()
+  const timeZone = await getWorkerTimeZone(userId)
+  const todayStr = getTodayInTimeZone(timeZone)
+  const startDate = addDaysToDateString(todayStr, -FEED_DAYS_BACK)
+  const endDate = addDaysToDateString(todayStr, FEED_DAYS_AHEAD)
+
+  const { data: schedules, error } = await adminClient
+    .from('worker_schedules')
+    .select('*')
+    .eq('worker_id', userId)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Error fetching schedules for calendar feed:', error)
+    return []
+  }
+
+  const holidays = await getWorkerHolidays(userId, startDate, endDate)
+  const events: CalendarEvent[] = []
+
+  getScheduledDatesInRange(schedules || [], startDate, endDate).forEach(shiftDate => {
+    getShiftSegmentsForDate(schedules || [], shiftDate).forEach(segment => {
+      const range = getScheduleShiftRange(segment)
+      const holiday = holidays.get(shiftDate)
+      const notes: string[] = []
+      if (holiday) {
+        notes.push(`${holiday} - no check-in required`)
+      } else if (segment.requires_daily_checkin && segment.daily_checkin_start_time && segment.daily_checkin_end_time) {
+        notes.push(`Daily check-in: ${segment.daily_checkin_start_time.slice(0, 5)}-${segment.daily_checkin_end_time.slice(0, 5)}`)
+      }
+      if (segment.notes) {
+        notes.push(segment.notes)
+      }
+
+      events.push({
+        uid: `shift-${segment.id}-${shiftDate}@${UID_DOMAIN}`,
+        start: shiftMinutesToDate(shiftDate, range.start, timeZone),
+        end: shiftMinutesToDate(shiftDate, range.end, timeZone),
+        summary: holiday ? `Shift (${holiday})` : 'Shift',
+        description: notes.join('\n') || undefined,
+        status: 'CONFIRMED',
+        lastModified: segment.updated_at ? new Date(segment.updated_at) : undefined,
+      })
+    })
+  })
+
+  return events
+}
+
+/**
+ * A worker's or clinician's appointments as calendar events
+ * Times are the wall-clock time at the worker's site (their case's team).
+ */
+export async function getAppointmentEvents(userId: string, role: CalendarFeedRole): Promise<CalendarEvent[]> {
+  const adminClient = getAdminClient()
+  const fromDate = addDaysToDateString(getTodayInTimeZone(getDefaultTimeZone()), -FEED_DAYS_BACK - 1)
+
+  const { data: appointments, error } = await adminClient
+    .from('appointments')
+    .select(`
+      id,
+      appointment_date,
+      appointment_time,
+      duration_minutes,
+      status,
+      appointment_type,
+      visit_mode,
+      location,
+      notes,
+      cancellation_reason,
+      created_at,
+      updated_at,
+      worker_exceptions!appointments_case_id_fkey(team_id),
+      worker:users!appointments_worker_id_fkey(email, first_name, last_name, full_name),
+      clinician:users!appointments_clinician_id_fkey(email, first_name, last_name, full_name)
+    `)
+    .eq(role === 'clinician' ? 'clinician_id' : 'worker_id', userId)
+    .gte('appointment_date', fromDate)
+    .order('appointment_date', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching appointments for calendar feed:', error)
+    return []
+  }
+
+  const rows: any[] = appointments || []
+  const teamIdOf = (apt: any): string | null => {
+    const exception = Array.isArray(apt.worker_exceptions) ? apt.worker_exceptions[0] : apt.worker_exceptions
+    return exception?.team_id || null
+  }
+  const timeZones = await getTeamTimeZones(rows.map(teamIdOf).filter(Boolean) as string[])
+  const defaultTimeZone = getDefaultTimeZone()
+
+  return rows.map(apt => {
+    const timeZone = timeZones.get(teamIdOf(apt) || '') || defaultTimeZone
+    const start = zonedTimeToDate(apt.appointment_date, apt.appointment_time, timeZone)
+    const end = new Date(start.getTime() + (apt.duration_minutes || 30) * 60000)
+    const worker = Array.isArray(apt.worker) ? apt.worker[0] : apt.worker
+    const clinician = Array.isArray(apt.clinician) ? apt.clinician[0] : apt.clinician
+    const type = String(apt.appointment_type || 'appointment').replace(/_/g, ' ')
+    const withName = role === 'clinician'
+      ? (worker ? formatUserFullName(worker) : 'worker')
+      : (clinician ? formatUserFullName(clinician) : 'clinician')
+
+    const cancelled = apt.status === 'cancelled' || apt.status === 'declined'
+    const notes: string[] = []
+    if (cancelled) {
+      notes.push(`Appointment ${apt.status}${apt.cancellation_reason ? `: ${apt.cancellation_reason}` : ''}`)
+    } else if (apt.status === 'pending') {
+      notes.push('Awaiting confirmation')
+    }
+    if (apt.visit_mode === 'telehealth') {
+      notes.push('Video call - join from the app when the room opens')
+    }
+    if (apt.notes) {
+      notes.push(apt.notes)
+    }
+
+    const createdAt = apt.created_at ? new Date(apt.created_at) : null
+    const updatedAt = apt.updated_at ? new Date(apt.updated_at) : null
+
+    return {
+      uid: `appointment-${apt.id}@${UID_DOMAIN}`,
+      start,
+      end,
+      summary: `${type.charAt(0).toUpperCase()}${type.slice(1)} with ${withName}`,
+      description: notes.join('\n') || undefined,
+      location: apt.visit_mode === 'telehealth' ? 'Video call' : apt.location || undefined,
+      status: cancelled ? 'CANCELLED' : apt.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+      sequence: createdAt && updatedAt ? Math.max(0, Math.floor((updatedAt.getTime() - createdAt.getTime()) / 1000)) : 0,
+      lastModified: updatedAt || undefined,
+    }
+  })
+}
+
+function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded onto continuation lines (RFC 5545 3.1)
+function foldICalLine(line: string): string {
+  const chunks: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char)
+    const limit = chunks.length === 0 ? 75 : 74
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+/**
+ * Build an iCalendar document (VCALENDAR with one VEVENT per event)
+ * @param name - Calendar name shown by calendar apps
+ */
+export function buildICalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = formatICalDateTime(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ]
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDateTime(event.start)}`,
+      `DTEND:${formatICalDateTime(event.end)}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence || 0}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`)
+    if (event.lastModified && !isNaN(event.lastModified.getTime())) {
+      lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`)
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Build the feed for a user: shifts and appointments for workers, appointments for clinicians
+ */
+export async function buildCalendarFeed(user: {
+  id: string
+  role: string
+  email?: string | null
+  first_name?: string | null
+  last_name?: string | null
+  full_name?: string | null
+}): Promise<string> {
+  if (!isCalendarFeedRole(user.role)) {
+    return buildICalendar('WorkReadines', [])
+  }
+
+  const [shifts, appointments] = await Promise.all([
+    user.role === 'worker' ? getWorkerShiftEvents(user.id) : Promise.resolve([]),
+    getAppointmentEvents(user.id, user.role),
+  ])
+
+  const title = user.role === 'worker' ? 'Shifts & Appointments' : 'Appointments'
+  return buildICalendar(`WorkReadines - ${title} (${formatUserFullName(user)})`, [...shifts, ...appointments])
+}
@@ -0,0 +1,548 @@
+/**
+ * Case SLA Timers
+ * Service level targets for WHS cases (see migration_add_case_slas.sql). Each running clock has a
+ * due time from the organization's rules (or DEFAULT_SLA_RULES when it has none):
+ *   new / triaged / assessed   time spent in that case status (new starts when the case reaches WHS)
+ *   clinician_assignment       from reaching WHS until a clinician is assigned
+ *   first_appointment          from clinician assignment until the first appointment is booked
+ * A rule for the case's severity (from its incident type) overrides the 'ANY' rule for the metric;
+ * a NULL target means no SLA. Clocks only run on active cases assigned to WHS.
+ *
+ * Background job: every few minutes, a page of cases at a time, overdue clocks are recorded in
+ * case_sla_breaches (unique per case, metric and clock start, so repeated runs - or several backend
+ * instances - never escalate twice) and WHS, the team's supervisor and the assigned clinician are notified.
+ *
+ * Environment:
+ *   CASE_SLA_MONITOR_ENABLED   set to 'false' to disable the background job
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { createNotifications } from './notificationHub.js'
+import { formatUserFullName } from './userUtils.js'
+import { generateCaseNumber } from './clinicianAssignment.js'
+
+export type CaseSeverity = 'HIGH' | 'MEDIUM' | 'LOW'
+export type SlaSeverity = 'ANY' | CaseSeverity
+export type SlaMetric = 'new' | 'triaged' | 'assessed' | 'clinician_assignment' | 'first_appointment'
+export type SlaState = 'on_track' | 'due_soon' | 'overdue'
+
+export const SLA_METRICS: SlaMetric[] = ['new', 'triaged', 'assessed', 'clinician_assignment', 'first_appointment']
+export const SLA_SEVERITIES: SlaSeverity[] = ['ANY', 'HIGH', 'MEDIUM', 'LOW']
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  new: 'Triage',
+  triaged: 'Assessment',
+  assessed: 'Rehab start',
+  clinician_assignment: 'Clinician assignment',
+  first_appointment: 'First appointment',
+}
+
+// Columns computeSlaTimers needs on each worker_exceptions row
+export const CASE_SLA_FIELDS = 'id, organization_id, exception_type, is_active, assigned_to_whs, assigned_to_whs_at, case_status, case_status_updated_at, clinician_id, clinician_assigned_at, created_at'
+
+const SLA_CASE_STATUSES = ['new', 'triaged', 'assessed', 'in_rehab']
+const MAX_TARGET_HOURS = 2160 // 90 days
+const DUE_SOON_FRACTION = 0.25 // due_soon once less than a quarter of the target is left
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+const CASE_PAGE_SIZE = 500 // cases the monitor loads and processes at a time
+const IN_FILTER_CHUNK_SIZE = 100 // IDs per .in() filter - keeps request URLs short
+const HOUR_MS = 60 * 60 * 1000
+
+export interface SlaRule {
+  metric: SlaMetric
+  severity: SlaSeverity
+  targetHours: number | null
+}
+
+export interface SlaTimer {
+  metric: SlaMetric
+  label: string
+  startedAt: string
+  dueAt: string
+  targetHours: number
+  state: SlaState
+}
+
+export const DEFAULT_SLA_RULES: SlaRule[] = [
+  { metric: 'new', severity: 'ANY', targetHours: 24 },
+  { metric: 'new', severity: 'HIGH', targetHours: 8 },
+  { metric: 'triaged', severity: 'ANY', targetHours: 72 },
+  { metric: 'assessed', severity: 'ANY', targetHours: 120 },
+  { metric: 'clinician_assignment', severity: 'ANY', targetHours: 24 },
+  { metric: 'clinician_assignment', severity: 'HIGH', targetHours: 8 },
+  { metric: 'first_appointment', severity: 'ANY', targetHours: 72 },
+  { metric: 'first_appointment', severity: 'HIGH', targetHours: 48 },
+]
+
+/**
+ * Case severity from its incident type
+ */
+export function getCaseSeverity(type: string): CaseSeverity {
+  const severityMap: Record<string, CaseSeverity> = {
+    injury: 'HIGH',
+    accident: 'HIGH',
+    medical_leave: 'MEDIUM',
+    other: 'LOW',
+  }
+  return severityMap[type] || 'LOW'
+}
+
+/**
+ * Validate a PUT /whs/sla-rules body
+ * Metrics without an 'ANY' row get one with no target, so a saved set never falls back to the defaults.
+ */
+export function validateSlaRulesInput(body: any): { data: SlaRule[] | null; error: string | null } {
+  if (!body || !Array.isArray(body.rules)) {
+    return { data: null, error: 'rules must be a list' }
+  }
+
+  const rules: SlaRule[] = []
+  const seen = new Set<string>()
+  for (const rule of body.rules) {
+    if (!rule || !SLA_METRICS.includes(rule.metric)) {
+      return { data: null, error: `metric must be one of: ${SLA_METRICS.join(', ')}` }
+    }
+    const severity = rule.severity ?? 'ANY'
+    if (!SLA_SEVERITIES.includes(severity)) {
+      return { data: null, error: `severity must be one of: ${SLA_SEVERITIES.join(', ')}` }
+    }
+
+    let targetHours: number | null = null
+    if (rule.target_hours !== undefined && rule.target_hours !== null && rule.target_hours !== '') {
+      targetHours = Number(rule.target_hours)
+      if (!Number.isFinite(targetHours) || targetHours <= 0 || targetHours > MAX_TARGET_HOURS) {
+        return { data: null, error: `target_hours must be between 0 and ${MAX_TARGET_HOURS}` }
+      }
+      targetHours = Math.round(targetHours * 10) / 10
+    } else if (severity !== 'ANY') {
+      // No severity override - the ANY rule applies
+      continue
+    }
+
+    const key = `${rule.metric}|${severity}`
+    if (seen.has(key)) {
+      return { data: null, error: `Duplicate rule for ${rule.metric} / ${severity}` }
+    }
+    seen.add(key)
+    rules.push({ metric: rule.metric, severity, targetHours })
+  }
+
+  for (const metric of SLA_METRICS) {
+    if (!seen.has(`${metric}|ANY`)) {
+      rules.push({ metric, severity: 'ANY', targetHours: null })
+    }
+  }
+
+  return { data: rules, error: null }
+}
+
+/**
+ * Load SLA rules for several organizations (defaults for those without rules)
+ */
+async function getSlaRulesByOrganization(
+  organizationIds: string[]
+): Promise<{ data: Map<string, SlaRule[]>; error: string | null }> {
+  const rulesByOrganization = new Map<string, SlaRule[]>()
+  if (organizationIds.length === 0) {
+    return { data: rulesByOrganization, error: null }
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('case_sla_rules')
+    .select('organization_id, metric, severity, target_hours')
+    .in('organization_id', organizationIds)
+
+  for (const row of data || []) {
+    if (!rulesByOrganization.has(row.organization_id)) {
+      rulesByOrganization.set(row.organization_id, [])
+    }
+    rulesByOrganization.get(row.organization_id)!.push({
+      metric: row.metric,
+      severity: row.severity,
+      targetHours: row.target_hours === null ? null : Number(row.target_hours),
+    })
+  }
+  for (const organizationId of organizationIds) {
+    if (!rulesByOrganization.has(organizationId)) {
+      rulesByOrganization.set(organizationId, DEFAULT_SLA_RULES)
+    }
+  }
+
+  return { data: rulesByOrganization, error: error?.message || null }
+}
+
+/**
+ * Get the organization's SLA rules
+ * @returns Rules, and whether they are the built-in defaults
+ */
+export async function getSlaRules(
+  organizationId: string
+): Promise<{ data: { rules: SlaRule[]; isDefault: boolean }; error: string | null }> {
+  const { data, error } = await getSlaRulesByOrganization([organizationId])
+  const rules = data.get(organizationId) || DEFAULT_SLA_RULES
+  return { data: { rules, isDefault: rules === DEFAULT_SLA_RULES }, error }
+}
+
+/**
+ * Replace the organization's SLA rules
+ * Runs in one transaction (save_case_sla_rules) - a failed save keeps the previous rules.
+ */
+export async function saveSlaRules(
+  organizationId: string,
+  rules: SlaRule[],
+  updatedBy: string
+): Promise<{ error: string | null }> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient.rpc('save_case_sla_rules', {
+    p_organization_id: organizationId,
+    p_rules: rules.map(rule => ({
+      metric: rule.metric,
+      severity: rule.severity,
+      target_hours: rule.targetHours,
+    })),
+    p_updated_by: updatedBy,
+  })
+
+  return { error: error?.message || null }
+}
+
+function getTargetHours(rules: SlaRule[], metric: SlaMetric, severity: CaseSeverity): number | null {
+  const specific = rules.find(rule => rule.metric === metric && rule.severity === severity)
+  if (specific && specific.targetHours !== null) {
+    return specific.targetHours
+  }
+  return rules.find(rule => rule.metric === metric && rule.severity === 'ANY')?.targetHours ?? null
+}
+
+/**
+ * Clocks running on a case and when each started
+ * @param hasAppointment - Whether the case has a booked (not cancelled/declined) appointment
+ */
+function getRunningClocks(caseRow: any, hasAppointment: boolean): Array<{ metric: SlaMetric; startedAt: string }> {
+  const status = caseRow.case_status || 'new'
+  if (!caseRow.assigned_to_whs || !caseRow.is_active || !SLA_CASE_STATUSES.includes(status)) {
+    return []
+  }
+
+  const reachedWhsAt = caseRow.assigned_to_whs_at || caseRow.created_at
+  const clocks: Array<{ metric: SlaMetric; startedAt: string }> = []
+
+  if (status === 'new') {
+    clocks.push({ metric: 'new', startedAt: reachedWhsAt })
+  } else if ((status === 'triaged' || status === 'assessed') && caseRow.case_status_updated_at) {
+    clocks.push({ metric: status, startedAt: caseRow.case_status_updated_at })
+  }
+
+  if (!caseRow.clinician_id) {
+    clocks.push({ metric: 'clinician_assignment', startedAt: reachedWhsAt })
+  } else if (caseRow.clinician_assigned_at && !hasAppointment) {
+    clocks.push({ metric: 'first_appointment', startedAt: caseRow.clinician_assigned_at })
+  }
+
+  return clocks
+}
+
+/**
+ * Compute a case's running SLA timers, most urgent first
+ * @param caseRow - worker_exceptions row selected with CASE_SLA_FIELDS
+ * @param rules - The case organization's rules
+ * @param hasAppointment - Whether the case has a booked appointment
+ * @param now - Current time
+ */
+export function computeSlaTimers(caseRow: any, rules: SlaRule[], hasAppointment: boolean, now: Date): SlaTimer[] {
+  const severity = getCaseSeverity(caseRow.exception_type)
+  const timers: SlaTimer[] = []
+
+  for (const clock of getRunningClocks(caseRow, hasAppointment)) {
+    const targetHours = getTargetHours(rules, clock.metric, severity)
+    if (targetHours === null) continue
+
+    const startedAt = new Date(clock.startedAt)
+    const targetMs = targetHours * HOUR_MS
+    const dueAt = new Date(startedAt.getTime() + targetMs)
+    const remainingMs = dueAt.getTime() - now.getTime()
+
+    timers.push({
+      metric: clock.metric,
+      label: SLA_METRIC_LABELS[clock.metric],
+      startedAt: startedAt.toISOString(),
+      dueAt: dueAt.toISOString(),
+      targetHours,
+      state: remainingMs <= 0 ? 'overdue' : remainingMs < targetMs * DUE_SOON_FRACTION ? 'due_soon' : 'on_track',
+    })
+  }
+
+  return timers.sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+}
+
+/**
+ * IDs of cases that have at least one booked appointment
+ */
+async function getCasesWithAppointments(caseIds: string[]): Promise<Set<string>> {
+  const casesWithAppointments = new Set<string>()
+  const adminClient = getAdminClient()
+
+  for (let start = 0; start < caseIds.length; start += IN_FILTER_CHUNK_SIZE) {
+    const { data, error } = await adminClient
+      .from('appointments')
+      .select('case_id')
+      .in('case_id', caseIds.slice(start, start + IN_FILTER_CHUNK_SIZE))
+      .not('status', 'in', '(cancelled,declined)')
+
+    if (error) {
+      throw new Error(`Failed to fetch appointments: ${error.message}`)
+    }
+    for (const appointment of data || []) {
+      casesWithAppointments.add(appointment.case_id)
+    }
+  }
+
+  return casesWithAppointments
+}
+
+/**
+ * Compute SLA timers for a page of cases
+ * @param cases - worker_exceptions rows (with CASE_SLA_FIELDS)
+ * @param now - Current time (default: now)
+ * @returns Timers by case ID, most urgent first (cases without running clocks are omitted)
+ */
+export async function getCaseSlaTimers(
+  cases: any[],
+  now: Date = new Date()
+): Promise<{ data: Map<string, SlaTimer[]>; error: string | null }> {
+  const timersByCase = new Map<string, SlaTimer[]>()
+  const slaCases = cases.filter(caseRow => caseRow.organization_id && getRunningClocks(caseRow, false).length > 0)
+  if (slaCases.length === 0) {
+    return { data: timersByCase, error: null }
+  }
+
+  try {
+    const organizationIds = [...new Set(slaCases.map(caseRow => caseRow.organization_id as string))]
+    const [{ data: rulesByOrganization, error: rulesError }, casesWithAppointments] = await Promise.all([
+      getSlaRulesByOrganization(organizationIds),
+      getCasesWithAppointments(slaCases.filter(caseRow => caseRow.clinician_id).map(caseRow => caseRow.id)),
+    ])
+    if (rulesError) {
+      return { data: timersByCase, error: rulesError }
+    }
+
+    for (const caseRow of slaCases) {
+      const rules = rulesByOrganization.get(caseRow.organization_id) || DEFAULT_SLA_RULES
+      const timers = computeSlaTimers(caseRow, rules, casesWithAppointments.has(caseRow.id), now)
+      if (timers.length > 0) {
+        timersByCase.set(caseRow.id, timers)
+      }
+    }
+
+    return { data: timersByCase, error: null }
+  } catch (error: any) {
+    return { data: timersByCase, error: error.message }
+  }
+}
+
+/**
+ * Notify WHS, the team's supervisor and the assigned clinician about newly breached SLAs
+ * @param breaches - Inserted case_sla_breaches rows
+ * @param casesById - The breached cases (with worker and team joins)
+ */
+async function notifySlaBreaches(breaches: any[], casesById: Map<string, any>): Promise<void> {
+  const adminClient = getAdminClient()
+  const organizationIds = [...new Set(breaches.map(breach => breach.organization_id).filter(Boolean))]
+
+  const { data: whsUsers, error: whsUsersError } = await adminClient
+    .from('users')
+    .select('id, organization_id')
+    .eq('role', 'whs_control_center')
+    .in('organization_id', organizationIds)
+
+  if (whsUsersError) {
+    console.error('[caseSla] Error fetching WHS users:', whsUsersError)
+  }
+
+  const notifications: Record<string, any>[] = []
+  for (const breach of breaches) {
+    const caseRow = casesById.get(breach.case_id)
+    if (!caseRow) continue
+
+    const worker = Array.isArray(caseRow.users) ? caseRow.users[0] : caseRow.users
+    const team = Array.isArray(caseRow.teams) ? caseRow.teams[0] : caseRow.teams
+    const workerName = worker ? formatUserFullName(worker) : 'Unknown'
+    const caseNumber = generateCaseNumber(caseRow.id, caseRow.created_at)
+    const label = SLA_METRIC_LABELS[breach.metric as SlaMetric] || breach.metric
+    const targetHours = Math.round((new Date(breach.due_at).getTime() - new Date(breach.clock_started_at).getTime()) / HOUR_MS * 10) / 10
+
+    const recipients = new Set<string>(
+      (whsUsers || []).filter((whsUser: any) => whsUser.organization_id === breach.organization_id).map((whsUser: any) => whsUser.id)
+    )
+    if (team?.supervisor_id) {
+      recipients.add(team.supervisor_id)
+    }
+    // Status and appointment clocks are the clinician's to stop
+    if (caseRow.clinician_id && breach.metric !== 'clinician_assignment') {
+      recipients.add(caseRow.clinician_id)
+    }
+
+    recipients.forEach(userId => {
+      notifications.push({
+        user_id: userId,
+        type: 'case_sla_breached',
+        title: `⏱️ ${label} SLA Breached`,
+        message: `${caseNumber} (${workerName}) has passed its ${label.toLowerCase()} target of ${targetHours}h.`,
+        data: {
+          case_id: caseRow.id,
+          incident_id: caseRow.id,
+          case_number: caseNumber,
+          worker_id: caseRow.user_id,
+          worker_name: workerName,
+          team_name: team?.name || '',
+          severity: getCaseSeverity(caseRow.exception_type),
+          metric: breach.metric,
+          metric_label: label,
+          target_hours: targetHours,
+          due_at: breach.due_at,
+        },
+        is_read: false,
+      })
+    })
+  }
+
+  const { error } = await createNotifications(notifications)
+  if (error) {
+    console.error('[caseSla] Error creating notifications:', error)
+    return
+  }
+
+  const notifiedAt = new Date().toISOString()
+  for (let start = 0; start < breaches.length; start += IN_FILTER_CHUNK_SIZE) {
+    const { error: markError } = await adminClient
+      .from('case_sla_breaches')
+      .update({ notified_at: notifiedAt })
+      .in('id', breaches.slice(start, start + IN_FILTER_CHUNK_SIZE).map(breach => breach.id))
+
+    if (markError) {
+      console.error('[caseSla] Error marking breaches notified:', markError)
+    }
+  }
+}
+
+/**
+ * Record the newly breached SLA clocks of a page of cases and send escalation notifications
+ * @param cases - worker_exceptions rows (with CASE_SLA_FIELDS and the worker and team joins)
+ * @returns Number of newly recorded breaches
+ */
+async function recordSlaBreaches(cases: any[], now: Date): Promise<number> {
+  const adminClient = getAdminClient()
+  const { data: timersByCase, error: timersError } = await getCaseSlaTimers(cases, now)
+  if (timersError) {
+    throw new Error(`Failed to compute SLA timers: ${timersError}`)
+  }
+
+  const casesById = new Map(cases.map((caseRow: any) => [caseRow.id, caseRow]))
+  const candidates: Record<string, any>[] = []
+  timersByCase.forEach((timers, caseId) => {
+    for (const timer of timers) {
+      if (timer.state !== 'overdue') continue
+      candidates.push({
+        case_id: caseId,
+        organization_id: casesById.get(caseId)?.organization_id || null,
+        metric: timer.metric,
+        clock_started_at: timer.startedAt,
+        due_at: timer.dueAt,
+      })
+    }
+  })
+  if (candidates.length === 0) return 0
+
+  // ignoreDuplicates: only rows this run actually inserted are returned, so clocks that were
+  // already escalated (by an earlier run or another instance) aren't notified again
+  const { data: inserted, error } = await adminClient
+    .from('case_sla_breaches')
+    .upsert(candidates, { onConflict: 'case_id,metric,clock_started_at', ignoreDuplicates: true })
+    .select('*')
+
+  if (error) {
+    throw new Error(`Failed to record SLA breaches: ${error.message}`)
+  }
+
+  if (!inserted || inserted.length === 0) return 0
+
+  try {
+    await notifySlaBreaches(inserted, casesById)
+  } catch (notifyError) {
+    // Breaches are recorded - don't retry the whole run just because notifications failed
+    console.error('[caseSla] Error notifying SLA breaches:', notifyError)
+  }
+
+  return inserted.length
+}
+
+/**
+ * Record newly breached SLA clocks and send escalation notifications
+ * Active WHS cases are loaded and processed CASE_PAGE_SIZE at a time.
+ * @param now - Current time (default: now)
+ * @returns Number of newly recorded breaches
+ */
+export async function processCaseSlaBreaches(now: Date = new Date()): Promise<number> {
+  const adminClient = getAdminClient()
+  let recorded = 0
+
+  for (let offset = 0; ; offset += CASE_PAGE_SIZE) {
+    const { data: cases, error: casesError } = await adminClient
+      .from('worker_exceptions')
+      .select(`
+        ${CASE_SLA_FIELDS},
+        user_id,
+        users!worker_exceptions_user_id_fkey(
+          email,
+          first_name,
+          last_name,
+          full_name
+        ),
+        teams!worker_exceptions_team_id_fkey(
+          name,
+          supervisor_id
+        )
+      `)
+      .eq('assigned_to_whs', true)
+      .eq('is_active', true)
+      .order('id', { ascending: true })
+      .range(offset, offset + CASE_PAGE_SIZE - 1)
+
+    if (casesError) {
+      throw new Error(`Failed to fetch cases: ${casesError.message}`)
+    }
+
+    recorded += await recordSlaBreaches(cases || [], now)
+    if (!cases || cases.length < CASE_PAGE_SIZE) break
+  }
+
+  if (recorded > 0) {
+    console.log(`[caseSla] Recorded ${recorded} SLA breach(es)`)
+  }
+  return recorded
+}
+
+let monitorTimer: NodeJS.Timeout | null = null
+let isProcessing = false
+
+/**
+ * Start the background SLA monitor (called once from index.ts)
+ */
+export function startCaseSlaWorker(): void {
+  if (monitorTimer || process.env.CASE_SLA_MONITOR_ENABLED === 'false') return
+
+  monitorTimer = setInterval(async () => {
+    // Skip tick if the previous run is still going
+    if (isProcessing) return
+    isProcessing = true
+    try {
+      await processCaseSlaBreaches()
+    } catch (error) {
+      console.error('[caseSla] Worker error:', error)
+    } finally {
+      isProcessing = false
+    }
+  }, CHECK_INTERVAL_MS)
+  console.log('[caseSla] Case SLA monitor started')
+}
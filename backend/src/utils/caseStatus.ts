@@ -26,51 +26,132 @@ export function isValidCaseStatus(status: string): status is CaseStatus {
   return VALID_CASE_STATUSES.includes(status as CaseStatus)
 }
 
+// Fields a transition can require in the request body
+export type CaseTransitionField = 'return_to_work_duty_type' | 'return_to_work_date' | 'reason'
+
+export interface CaseStatusTransition {
+  from: CaseStatus
+  to: CaseStatus
+  roles: string[] // Roles allowed to make this move
+  requiredFields: CaseTransitionField[]
+}
+
+// Allowed status moves. Anything not listed is rejected; closed is final.
+// Moving backwards or closing without return to work needs a reason for the audit trail.
+export const CASE_STATUS_TRANSITIONS: readonly CaseStatusTransition[] = [
+  { from: 'new', to: 'triaged', roles: ['clinician'], requiredFields: [] },
+  { from: 'new', to: 'assessed', roles: ['clinician'], requiredFields: [] },
+  { from: 'new', to: 'closed', roles: ['clinician'], requiredFields: ['reason'] },
+  { from: 'triaged', to: 'assessed', roles: ['clinician'], requiredFields: [] },
+  { from: 'triaged', to: 'closed', roles: ['clinician'], requiredFields: ['reason'] },
+  { from: 'assessed', to: 'in_rehab', roles: ['clinician'], requiredFields: [] },
+  { from: 'assessed', to: 'return_to_work', roles: ['clinician'], requiredFields: ['return_to_work_duty_type', 'return_to_work_date'] },
+  { from: 'assessed', to: 'closed', roles: ['clinician'], requiredFields: ['reason'] },
+  { from: 'in_rehab', to: 'assessed', roles: ['clinician'], requiredFields: ['reason'] },
+  { from: 'in_rehab', to: 'return_to_work', roles: ['clinician'], requiredFields: ['return_to_work_duty_type', 'return_to_work_date'] },
+  { from: 'in_rehab', to: 'closed', roles: ['clinician'], requiredFields: ['reason'] },
+  // Updating duty type / return date of a case that is already back at work
+  { from: 'return_to_work', to: 'return_to_work', roles: ['clinician'], requiredFields: ['return_to_work_duty_type', 'return_to_work_date'] },
+  // Final sign-off - by the clinician or by WHS
+  { from: 'return_to_work', to: 'closed', roles: ['clinician', 'whs_control_center'], requiredFields: [] },
+]
+
 /**
- * Extract case_status from notes field securely
- * @param notes - Notes field value (can be JSON string or plain text)
- * @returns Case status or null if not found/invalid
+ * Get the status moves a role can make from the current status
+ * @param from - Current case status
+ * @param role - Role of the user making the change
+ * @returns Allowed transitions
  */
-export function getCaseStatusFromNotes(notes: any): CaseStatus | null {
-  if (!notes || typeof notes !== 'string') {
-    return null
-  }
+export function getAllowedTransitions(from: CaseStatus, role: string): CaseStatusTransition[] {
+  return CASE_STATUS_TRANSITIONS.filter(t => t.from === from && t.roles.includes(role))
+}
 
-  try {
-    const notesData = JSON.parse(notes)
-    
-    // Security: Validate that case_status exists and is a valid status
-    if (notesData && typeof notesData === 'object' && 'case_status' in notesData) {
-      const status = notesData.case_status
-      
-      // Validate status is a string and is a valid case status
-      if (typeof status === 'string' && isValidCaseStatus(status)) {
-        return status
-      }
+/**
+ * Validate a status change against the transition table
+ * @param from - Current case status
+ * @param to - Requested status
+ * @param role - Role of the user making the change
+ * @param input - Request values for the transition's required fields
+ * @returns { valid, transition?, error?, httpStatus? }
+ */
+export function validateCaseStatusTransition(
+  from: CaseStatus,
+  to: CaseStatus,
+  role: string,
+  input: Partial<Record<CaseTransitionField, any>>
+): { valid: boolean; transition?: CaseStatusTransition; error?: string; httpStatus?: 400 | 403 } {
+  const transition = CASE_STATUS_TRANSITIONS.find(t => t.from === from && t.to === to)
+
+  if (!transition) {
+    const allowed = CASE_STATUS_TRANSITIONS.filter(t => t.from === from).map(t => t.to)
+    return {
+      valid: false,
+      httpStatus: 400,
+      error: allowed.length > 0
+        ? `Cannot change case status from "${from}" to "${to}". Allowed: ${allowed.join(', ')}`
+        : `Cannot change case status once it is "${from}"`,
     }
-    
-    return null
-  } catch (error) {
-    // Notes is not JSON or invalid JSON - ignore safely
-    return null
   }
+
+  if (!transition.roles.includes(role)) {
+    return { valid: false, httpStatus: 403, error: `Your role cannot change case status from "${from}" to "${to}"` }
+  }
+
+  const missing = transition.requiredFields.filter(field => {
+    const value = input[field]
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+  })
+
+  if (missing.length > 0) {
+    return { valid: false, httpStatus: 400, error: `Changing status to "${to}" requires: ${missing.join(', ')}` }
+  }
+
+  return { valid: true, transition }
+}
+
+/**
+ * Current status for transition checks
+ * Cases without a recorded status are "new" (or "return_to_work" for legacy cases that have return to work details)
+ * @param caseRow - Row selected with case_status and return_to_work_duty_type
+ * @returns Current case status
+ */
+export function getCurrentCaseStatus(
+  caseRow: { case_status?: string | null; return_to_work_duty_type?: string | null }
+): CaseStatus {
+  return getCaseStatus(caseRow) || (caseRow.return_to_work_duty_type ? 'return_to_work' : 'new')
+}
+
+/**
+ * Read the case_status column from a worker_exceptions row
+ * @param caseRow - Row selected with case_status
+ * @returns Case status or null if not set/invalid
+ */
+export function getCaseStatus(caseRow: { case_status?: string | null } | null | undefined): CaseStatus | null {
+  const status = caseRow?.case_status
+
+  // Security: Only return known statuses
+  if (typeof status === 'string' && isValidCaseStatus(status)) {
+    return status
+  }
+
+  return null
 }
 
 /**
  * Map case status to display status with fallback logic
- * @param caseStatusFromNotes - Status from notes field
+ * @param caseStatus - Status from the case_status column
  * @param isInRehab - Whether case has active rehab plan
  * @param isCurrentlyActive - Whether case is currently active
  * @returns Display status string
  */
 export function mapCaseStatusToDisplay(
-  caseStatusFromNotes: CaseStatus | null,
+  caseStatus: CaseStatus | null,
   isInRehab: boolean,
   isCurrentlyActive: boolean
 ): string {
-  // Priority 1: Use status from notes if available
-  if (caseStatusFromNotes) {
-    return STATUS_DISPLAY_MAP[caseStatusFromNotes]
+  // Priority 1: Use recorded status if available
+  if (caseStatus) {
+    return STATUS_DISPLAY_MAP[caseStatus]
   }
   
   // Priority 2: Check if in rehab
@@ -0,0 +1,164 @@
+/**
+ * Case Utilities
+ * Case status, approvals and clinical notes are typed worker_exceptions columns
+ * (see migration_add_case_fields.sql). Status changes go through updateCaseStatus so
+ * concurrent writers can't overwrite each other and every change lands in case_status_history.
+ */
+
+import { getAdminClient } from './adminClient.js'
+import type { CaseStatus } from './caseStatus.js'
+
+// Case columns to add to worker_exceptions selects
+export const CASE_FIELDS = 'case_status, case_status_updated_at, approved_by, approved_by_id, approved_at, whs_approved_by, whs_approved_at, clinical_notes, clinical_notes_updated_at'
+
+export interface CaseFields {
+  approvedBy: string | null
+  approvedAt: string | null
+  whsApprovedBy: string | null
+  whsApprovedAt: string | null
+  clinicalNotes: string | null
+  clinicalNotesUpdatedAt: string | null
+}
+
+/**
+ * Map the approval and clinical notes columns of a case row for API responses
+ * @param caseRow - worker_exceptions row selected with CASE_FIELDS
+ * @returns Case fields (null when not set)
+ */
+export function getCaseFields(caseRow: any): CaseFields {
+  return {
+    approvedBy: caseRow?.approved_by || null,
+    approvedAt: caseRow?.approved_at || null,
+    whsApprovedBy: caseRow?.whs_approved_by || null,
+    whsApprovedAt: caseRow?.whs_approved_at || null,
+    clinicalNotes: caseRow?.clinical_notes || null,
+    clinicalNotesUpdatedAt: caseRow?.clinical_notes_updated_at || null,
+  }
+}
+
+export interface CaseStatusUpdate {
+  caseId: string
+  fromStatus: CaseStatus | null // Status the caller read - the update only applies if it's unchanged
+  toStatus: CaseStatus
+  changedBy: { id: string; name: string; role: string }
+  reason?: string | null
+  updates?: Record<string, any> // Extra worker_exceptions columns to set in the same update
+}
+
+/**
+ * Change a case's status and record it in case_status_history
+ * Closing or returning to work also records the approval (WHS sign-off goes to whs_approved_*).
+ * Callers validate the move with validateCaseStatusTransition first.
+ * @param change - Case, expected current status, new status and who made the change
+ * @returns Updated case row, or conflict=true if the status changed since it was read
+ */
+export async function updateCaseStatus(
+  change: CaseStatusUpdate
+): Promise<{ data: any; conflict: boolean; error: any }> {
+  const { caseId, fromStatus, toStatus, changedBy } = change
+  const adminClient = getAdminClient()
+  const timestamp = new Date().toISOString()
+
+  const updates: Record<string, any> = {
+    ...change.updates,
+    case_status: toStatus,
+    case_status_updated_at: timestamp,
+    case_status_updated_by: changedBy.id,
+    updated_at: timestamp,
+  }
+
+  if (changedBy.role === 'whs_control_center') {
+    if (toStatus === 'closed') {
+      updates.whs_approved_by = changedBy.name
+      updates.whs_approved_at = timestamp
+    }
+  } else if (toStatus === 'closed' || toStatus === 'return_to_work') {
+    updates.approved_by = changedBy.name
+    updates.approved_by_id = changedBy.id
+    updates.approved_at = timestamp
+  }
+
+  let query = adminClient
+    .from('worker_exceptions')
+    .update(updates)
+    .eq('id', caseId)
+
+  // Optimistic concurrency: only apply if nobody changed the status in the meantime
+  query = fromStatus ? query.eq('case_status', fromStatus) : query.is('case_status', null)
+
+  const { data, error } = await query.select().maybeSingle()
+
+  if (error) {
+    return { data: null, conflict: false, error }
+  }
+
+  if (!data) {
+    return { data: null, conflict: true, error: null }
+  }
+
+  const { error: historyError } = await adminClient
+    .from('case_status_history')
+    .insert({
+      case_id: caseId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      changed_by: changedBy.id,
+      changed_by_name: changedBy.name,
+      changed_by_role: changedBy.role,
+      reason: change.reason || null,
+      source: 'api',
+      changed_at: timestamp,
+    })
+
+  if (historyError) {
+    // Don't fail the status change if history can't be written
+    console.error('[updateCaseStatus] Error recording status history:', historyError)
+  }
+
+  return { data, conflict: false, error: null }
+}
+
+export interface CaseStatusHistoryEntry {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  changedBy: string | null
+  changedByRole: string | null
+  reason: string | null
+  source: string
+  changedAt: string
+}
+
+/**
+ * Get the status history of a case, oldest first
+ * @param caseId - Case (worker_exceptions) ID
+ * @returns { data, error }
+ */
+export async function getCaseStatusHistory(
+  caseId: string
+): Promise<{ data: CaseStatusHistoryEntry[]; error: any }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('case_status_history')
+    .select('id, from_status, to_status, changed_by_name, changed_by_role, reason, source, changed_at')
+    .eq('case_id', caseId)
+    .order('changed_at', { ascending: true })
+
+  if (error) {
+    return { data: [], error }
+  }
+
+  return {
+    data: (data || []).map((row: any) => ({
+      id: row.id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      changedBy: row.changed_by_name,
+      changedByRole: row.changed_by_role,
+      reason: row.reason,
+      source: row.source,
+      changedAt: row.changed_at,
+    })),
+    error: null,
+  }
+}
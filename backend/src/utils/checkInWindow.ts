@@ -0,0 +1,407 @@
+/**
+ * Check-in Window Utilities
+ * Shift type detection and check-in window calculation for worker schedules.
+ * Shared by the check-in routes and the missed check-in detection job.
+ * A shift can run past midnight (end_time <= start_time) and can be split into several
+ * segments - worker_schedules rows for the same shift date. Its check-in window comes from
+ * the first segment.
+ */
+
+import { parseTime, compareTime } from './dateTime.js'
+
+export type ShiftType = 'morning' | 'afternoon' | 'night' | 'flexible'
+
+export interface CheckInWindow {
+  windowStart: string
+  windowEnd: string
+  recommendedStart: string
+  recommendedEnd: string
+}
+
+/**
+ * Determine shift type from start and end time
+ */
+export function getShiftType(startTime: string, endTime?: string): ShiftType {
+  const startHour = parseTime(startTime).hours
+  const endHour = endTime ? parseTime(endTime).hours : null
+  
+  // If we have end time, use both to determine shift type more accurately
+  if (endTime && endHour !== null) {
+    // Check if shift spans across midnight
+    const spansMidnight = startHour > endHour
+    
+    // Day shift: typically ends before 6 PM (18:00) and doesn't span midnight
+    // OR starts early (4-6 AM) and ends in the afternoon/evening
+    if (!spansMidnight) {
+      // Day shift: ends before 6 PM or starts early and ends late afternoon
+      if (endHour < 18 || (startHour >= 4 && startHour < 12 && endHour >= 12 && endHour <= 18)) {
+        if (startHour < 12) return 'morning'
+        return 'afternoon'
+      }
+      // Afternoon shift: starts after 12 PM, ends before 10 PM
+      if (startHour >= 12 && endHour < 22) {
+        return 'afternoon'
+      }
+    }
+    
+    // Night shift: starts at 6 PM or later, OR spans midnight, OR starts very early and ends very early
+    if (startHour >= 18 || spansMidnight || (startHour < 6 && endHour < 6)) {
+      return 'night'
+    }
+  }
+  
+  // Fallback to start time only (backward compatibility)
+  if (startHour >= 6 && startHour < 12) return 'morning'
+  if (startHour >= 12 && startHour < 18) return 'afternoon'
+  if (startHour >= 18 || startHour < 6) return 'night'
+  
+  return 'flexible'
+}
+
+/**
+ * Calculate time before shift start (in hours, wraps to previous day)
+ */
+function subtractHours(timeStr: string, hours: number): string {
+  const { hours: h, minutes: m } = parseTime(timeStr)
+  
+  // Convert to total minutes
+  let totalMinutes = (h * 60) + m - (hours * 60)
+  
+  // Handle negative (previous day)
+  while (totalMinutes < 0) {
+    totalMinutes += 24 * 60 // Add a day
+  }
+  
+  // Handle overflow (next day)
+  totalMinutes = totalMinutes % (24 * 60)
+  
+  const newHours = Math.floor(totalMinutes / 60)
+  const newMinutes = totalMinutes % 60
+  
+  return `${newHours.toString().padStart(2, '0')}:${newMinutes.toString().padStart(2, '0')}`
+}
+
+/**
+ * Get check-in window based on shift start time
+ * Check-in window should be BEFORE the shift starts (typically 2-4 hours before)
+ */
+export function getCheckInWindow(shiftType: ShiftType, startTime?: string, endTime?: string): CheckInWindow {
+  // Default flexible window (no shift)
+  if (shiftType === 'flexible' || !startTime) {
+    return {
+      windowStart: '05:00',
+      windowEnd: '23:00',
+      recommendedStart: '05:00',
+      recommendedEnd: '23:00',
+    }
+  }
+
+  const startHour = parseTime(startTime).hours
+  
+  // Calculate check-in window: 4 hours before shift start to 1 hour before shift start
+  // This ensures workers check in BEFORE their shift begins
+  let windowStart: string
+  let windowEnd: string
+  let recommendedStart: string
+  let recommendedEnd: string
+  
+  if (startHour >= 4) {
+    // Normal case: shift starts later in the day (4 AM or later)
+    // Check-in window: 4 hours before to 1 hour before
+    windowStart = subtractHours(startTime, 4)
+    windowEnd = subtractHours(startTime, 1)
+    recommendedStart = subtractHours(startTime, 3)
+    recommendedEnd = subtractHours(startTime, 1)
+  } else {
+    // Early morning shift (before 4 AM): check-in window might be previous day
+    // For shifts starting 1-3 AM, check-in window is previous day 9 PM - 12 AM
+    if (startHour >= 1 && startHour < 4) {
+      windowStart = subtractHours(startTime, 4) // This will be previous day
+      windowEnd = subtractHours(startTime, 1)
+      recommendedStart = subtractHours(startTime, 3)
+      recommendedEnd = subtractHours(startTime, 1)
+    } else {
+      // Very early shift (midnight), use previous day window
+      windowStart = '21:00' // 9 PM previous day
+      windowEnd = '23:59'   // 11:59 PM previous day
+      recommendedStart = '22:00'
+      recommendedEnd = '23:59'
+    }
+  }
+  
+  // Special handling for very early shifts (before 6 AM)
+  if (startHour < 6) {
+    const windowStartHour = parseTime(windowStart).hours
+    // If check-in window would be on previous day (starts after 8 PM), adjust
+    if (windowStartHour > 20 || windowStartHour < startHour) {
+      // Check-in window spans previous day - adjust to reasonable hours
+      // For 4 AM shift: window should be 12 AM (midnight) - 3 AM same day
+      if (startHour >= 4) {
+        windowStart = '00:00' // Start from midnight same day
+        windowEnd = subtractHours(startTime, 1)
+        recommendedStart = '01:00'
+        recommendedEnd = subtractHours(startTime, 1)
+      } else {
+        // For very early shifts (1-3 AM), use previous day 9 PM - 12 AM
+        windowStart = '21:00'
+        windowEnd = '23:59'
+        recommendedStart = '22:00'
+        recommendedEnd = '23:59'
+      }
+    }
+  }
+  
+  // Ensure window doesn't end after shift starts
+  if (compareTime(windowEnd, startTime) >= 0) {
+    windowEnd = subtractHours(startTime, 1) // 1 hour before shift (minimum)
+    recommendedEnd = subtractHours(startTime, 1)
+  }
+  
+  // For very late shifts (after 10 PM), adjust window start to reasonable hours
+  if (startHour >= 22) {
+    windowStart = subtractHours(startTime, 3) // 3 hours before instead of 4
+    recommendedStart = subtractHours(startTime, 2) // 2 hours before
+  }
+
+  return {
+    windowStart,
+    windowEnd,
+    recommendedStart,
+    recommendedEnd,
+  }
+}
+
+/**
+ * Check if current time is within check-in window (handles windows spanning midnight)
+ */
+export function isWithinCheckInWindow(currentTime: string, windowStart: string, windowEnd: string): boolean {
+  // Handle night shift that spans midnight
+  if (compareTime(windowStart, windowEnd) > 0) {
+    // Window spans midnight
+    return compareTime(currentTime, windowStart) >= 0 || compareTime(currentTime, windowEnd) <= 0
+  } else {
+    // Normal window within same day
+    return compareTime(currentTime, windowStart) >= 0 && compareTime(currentTime, windowEnd) <= 0
+  }
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+export interface CheckInWindowRange {
+  windowStart: number
+  windowEnd: number
+  recommendedStart: number
+  recommendedEnd: number
+}
+
+function toMinutes(time: string): number {
+  const { hours, minutes } = parseTime(time)
+  return hours * 60 + minutes
+}
+
+/**
+ * Get a check-in window as minutes from midnight of the shift date
+ * Windows that span midnight end after 1440. Windows that open late in the evening before an early
+ * shift (e.g. 21:00-23:59 for a 01:00 start) belong to the previous day and are negative.
+ * @param window - Check-in window (HH:MM strings)
+ * @param shiftStart - Shift start time (omit for flexible / no shift)
+ */
+export function getCheckInWindowRange(window: CheckInWindow, shiftStart?: string): CheckInWindowRange {
+  const shiftStartMinutes = shiftStart ? toMinutes(shiftStart) : null
+
+  const toRange = (start: string, end: string): [number, number] => {
+    let startMinutes = toMinutes(start)
+    let endMinutes = toMinutes(end)
+    if (endMinutes < startMinutes) {
+      endMinutes += MINUTES_PER_DAY
+    }
+    // Opening more than 12 hours "after" the shift start really means the evening before it
+    if (shiftStartMinutes !== null && startMinutes - shiftStartMinutes > MINUTES_PER_DAY / 2) {
+      startMinutes -= MINUTES_PER_DAY
+      endMinutes -= MINUTES_PER_DAY
+    }
+    return [startMinutes, endMinutes]
+  }
+
+  const [windowStart, windowEnd] = toRange(window.windowStart, window.windowEnd)
+  const [recommendedStart, recommendedEnd] = toRange(window.recommendedStart, window.recommendedEnd)
+  return { windowStart, windowEnd, recommendedStart, recommendedEnd }
+}
+
+/**
+ * Check if a moment is within a check-in window
+ * @param minutes - Minutes from midnight of the shift date (see getCheckInWindowRange)
+ * @returns isWithinWindow / isWithinRecommended
+ */
+export function getCheckInWindowStatus(
+  range: CheckInWindowRange,
+  minutes: number
+): { isWithinWindow: boolean; isWithinRecommended: boolean } {
+  return {
+    isWithinWindow: minutes >= range.windowStart && minutes <= range.windowEnd,
+    isWithinRecommended: minutes >= range.recommendedStart && minutes <= range.recommendedEnd,
+  }
+}
+
+/**
+ * Get the time of day (HH:MM) for minutes from midnight of the shift date, and the day it falls on
+ * @returns dayOffset - days from the shift date (-1 the evening before, 1 after midnight)
+ */
+export function minutesToTimeOfDay(minutes: number): { time: string; dayOffset: number } {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY)
+  const minuteOfDay = minutes - dayOffset * MINUTES_PER_DAY
+  const hours = Math.floor(minuteOfDay / 60)
+  const mins = minuteOfDay % 60
+  return {
+    time: `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`,
+    dayOffset,
+  }
+}
+
+/**
+ * Resolve the check-in window for a worker schedule
+ * Priority: daily check-in window (if required) > custom check-in window > calculated from shift time
+ * @param schedule - worker_schedules row
+ * @returns Check-in window (HH:MM or HH:MM:SS strings, as stored)
+ */
+export function getScheduleCheckInWindow(schedule: any): CheckInWindow {
+  if (schedule.requires_daily_checkin && schedule.daily_checkin_start_time && schedule.daily_checkin_end_time) {
+    return {
+      windowStart: schedule.daily_checkin_start_time,
+      windowEnd: schedule.daily_checkin_end_time,
+      recommendedStart: schedule.daily_checkin_start_time,
+      recommendedEnd: schedule.daily_checkin_end_time,
+    }
+  }
+
+  if (schedule.check_in_window_start && schedule.check_in_window_end) {
+    return {
+      windowStart: schedule.check_in_window_start,
+      windowEnd: schedule.check_in_window_end,
+      recommendedStart: schedule.check_in_window_start,
+      recommendedEnd: schedule.check_in_window_end,
+    }
+  }
+
+  const shiftType = getShiftType(schedule.start_time, schedule.end_time)
+  return getCheckInWindow(shiftType, schedule.start_time, schedule.end_time)
+}
+
+/**
+ * Resolve a worker schedule's check-in window as minutes from midnight of its shift date
+ * For a split shift pass the first segment - its window covers the whole shift.
+ */
+export function getScheduleCheckInWindowRange(schedule: any): CheckInWindowRange {
+  const range = getCheckInWindowRange(getScheduleCheckInWindow(schedule), schedule.start_time)
+  if (!schedule.starts_next_day) {
+    return range
+  }
+  return {
+    windowStart: range.windowStart + MINUTES_PER_DAY,
+    windowEnd: range.windowEnd + MINUTES_PER_DAY,
+    recommendedStart: range.recommendedStart + MINUTES_PER_DAY,
+    recommendedEnd: range.recommendedEnd + MINUTES_PER_DAY,
+  }
+}
+
+/**
+ * Get a worker schedule's working hours as minutes from midnight of its shift date
+ * Shifts that end at or before their start time run past midnight (end is after 1440), and
+ * segments marked starts_next_day (e.g. the 01:00-05:00 half of a split night shift) start after it.
+ */
+export function getScheduleShiftRange(schedule: any): { start: number; end: number } {
+  const start = toMinutes(schedule.start_time) + (schedule.starts_next_day ? MINUTES_PER_DAY : 0)
+  let end = toMinutes(schedule.end_time) + (schedule.starts_next_day ? MINUTES_PER_DAY : 0)
+  if (end <= start) {
+    end += MINUTES_PER_DAY
+  }
+  return { start, end }
+}
+
+/**
+ * Get the working hours of a shift made of one or more segments (rows for the same shift date)
+ * @returns start of the first segment and end of the last, as minutes from midnight of the shift date
+ */
+export function getShiftRange(segments: any[]): { start: number; end: number } {
+  const ranges = segments.map(getScheduleShiftRange)
+  return {
+    start: Math.min(...ranges.map(range => range.start)),
+    end: Math.max(...ranges.map(range => range.end)),
+  }
+}
+
+/**
+ * Check if two segments of the same shift date overlap
+ */
+export function shiftSegmentsOverlap(a: any, b: any): boolean {
+  const rangeA = getScheduleShiftRange(a)
+  const rangeB = getScheduleShiftRange(b)
+  return rangeA.start < rangeB.end && rangeB.start < rangeA.end
+}
+
+// Client clocks drift - captures this far ahead of the server still count as "now"
+const CAPTURE_CLOCK_SKEW_MS = 2 * 60 * 1000
+
+// Sent by the service worker with each outbox replay - when the entry was queued on the device
+export const OUTBOX_QUEUED_AT_HEADER = 'Outbox-Queued-At'
+
+/**
+ * Resolve when a check-in (or warm-up) was captured
+ * A client capture time is only honoured on outbox replays (Idempotency-Key and queue time
+ * headers) and never earlier than when the entry was queued; other requests use the server time.
+ * Environment: CHECKIN_MAX_OFFLINE_HOURS - oldest capture accepted (default: 24)
+ * @param capturedAt - ISO timestamp from the client (optional)
+ * @param replay - Idempotency-Key and Outbox-Queued-At headers of the request
+ * @param now - Server time
+ * @returns { valid, capturedAt, offline, error? } - offline is true when the capture is older than the clock skew allowance
+ */
+export function resolveCapturedAt(
+  capturedAt: unknown,
+  replay: { idempotencyKey?: string; queuedAt?: string },
+  now: Date = new Date()
+): { valid: boolean; capturedAt: Date; offline: boolean; error?: string } {
+  if (capturedAt === undefined || capturedAt === null || capturedAt === '') {
+    return { valid: true, capturedAt: now, offline: false }
+  }
+
+  const parsed = typeof capturedAt === 'string' ? new Date(capturedAt) : null
+  if (!parsed || isNaN(parsed.getTime())) {
+    return { valid: false, capturedAt: now, offline: false, error: 'Invalid capturedAt timestamp' }
+  }
+
+  // Not an outbox replay - the worker was online, so the server time is authoritative
+  if (!replay.idempotencyKey || !replay.queuedAt) {
+    return { valid: true, capturedAt: now, offline: false }
+  }
+
+  const queuedAt = new Date(replay.queuedAt)
+  if (isNaN(queuedAt.getTime())) {
+    return { valid: false, capturedAt: now, offline: false, error: `Invalid ${OUTBOX_QUEUED_AT_HEADER} header` }
+  }
+
+  const queuedAgeMs = now.getTime() - queuedAt.getTime()
+  if (queuedAgeMs < -CAPTURE_CLOCK_SKEW_MS || now.getTime() - parsed.getTime() < -CAPTURE_CLOCK_SKEW_MS) {
+    return { valid: false, capturedAt: now, offline: false, error: 'capturedAt cannot be in the future' }
+  }
+
+  const maxOfflineHours = Number(process.env.CHECKIN_MAX_OFFLINE_HOURS) || 24
+  if (queuedAgeMs > maxOfflineHours * 60 * 60 * 1000) {
+    return {
+      valid: false,
+      capturedAt: now,
+      offline: false,
+      error: `This was captured more than ${maxOfflineHours} hours ago and can no longer be submitted`,
+    }
+  }
+
+  // The worker fills it in just before it is queued - never backdate past the queue time
+  const earliest = queuedAt.getTime() - CAPTURE_CLOCK_SKEW_MS
+  const resolved = parsed.getTime() < earliest ? new Date(earliest) : parsed
+
+  // Within the skew allowance the server time is authoritative
+  if (now.getTime() - resolved.getTime() <= CAPTURE_CLOCK_SKEW_MS) {
+    return { valid: true, capturedAt: now, offline: false }
+  }
+
+  return { valid: true, capturedAt: resolved, offline: true }
+}
@@ -0,0 +1,457 @@
+/**
+ * Check-in Questionnaire Utilities
+ * Per-team custom check-in questions (checkin_questions): definition validation,
+ * answer validation, scoring and analytics aggregation.
+ * Answers are stored as a snapshot array on daily_checkins.custom_answers so
+ * historical check-ins stay readable after questions change.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export const QUESTION_TYPES = [
+  'boolean',
+  'scale',
+  'number',
+  'single_choice',
+  'multi_choice',
+  'text',
+  'body_map',
+] as const
+
+export type QuestionType = typeof QUESTION_TYPES[number]
+
+// Body map regions (must match frontend BODY_MAP_REGIONS)
+export const BODY_MAP_REGIONS = [
+  'head', 'neck', 'chest', 'abdomen', 'upper_back', 'lower_back',
+  'left_shoulder', 'right_shoulder', 'left_arm', 'right_arm', 'left_hand', 'right_hand',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_leg', 'right_leg', 'left_foot', 'right_foot',
+] as const
+
+const MAX_TEXT_ANSWER_LENGTH = 500
+const MAX_OPTIONS = 20
+
+export interface QuestionOption {
+  value: string
+  label: string
+  score: number
+}
+
+export interface CheckInQuestion {
+  id: string
+  team_id: string
+  question_key: string
+  label: string
+  help_text: string | null
+  question_type: QuestionType
+  options: QuestionOption[]
+  min_value: number | null
+  max_value: number | null
+  is_required: boolean
+  scoring_weight: number
+  red_flag_threshold: number | null
+  sort_order: number
+  is_active: boolean
+}
+
+export interface CheckInAnswer {
+  questionId: string
+  key: string
+  label: string
+  type: QuestionType
+  value: any
+  score: number
+}
+
+/**
+ * Get check-in questions for a team, ordered for display
+ * @param teamId - Team ID
+ * @param includeInactive - Include deactivated questions (management views)
+ * @returns { data: CheckInQuestion[]; error: string | null }
+ */
+export async function getTeamQuestions(
+  teamId: string,
+  includeInactive: boolean = false
+): Promise<{ data: CheckInQuestion[]; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('checkin_questions')
+    .select('*')
+    .eq('team_id', teamId)
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { data: [], error: error.message }
+  }
+
+  return { data: (data || []).map(normalizeQuestionRow), error: null }
+}
+
+/**
+ * Normalize numeric columns (Supabase returns NUMERIC as string)
+ */
+export function normalizeQuestionRow(row: any): CheckInQuestion {
+  const toNullableNumber = (value: any): number | null =>
+    value === null || value === undefined ? null : Number(value)
+
+  return {
+    ...row,
+    options: Array.isArray(row.options) ? row.options : [],
+    min_value: toNullableNumber(row.min_value),
+    max_value: toNullableNumber(row.max_value),
+    scoring_weight: Number(row.scoring_weight || 0),
+    red_flag_threshold: toNullableNumber(row.red_flag_threshold),
+  }
+}
+
+/**
+ * Build a question key from a label ("Alcohol in last 12h?" -> "alcohol_in_last_12h")
+ */
+export function slugifyQuestionKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50)
+}
+
+/**
+ * Validate a question definition payload (camelCase, as sent by the API)
+ * question_key and question_type are only accepted on create - changing them would
+ * make historical answers unreadable, so a new question should be created instead
+ * @param input - Request body
+ * @param existing - Existing question when updating (undefined when creating)
+ * @returns { valid: boolean; value?: Record<string, any>; error?: string } - value is a DB row (snake_case)
+ */
+export function validateQuestionInput(
+  input: any,
+  existing?: CheckInQuestion
+): { valid: boolean; value?: Record<string, any>; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Invalid question payload' }
+  }
+
+  const isCreate = !existing
+  const value: Record<string, any> = {}
+
+  // Label
+  if (isCreate || input.label !== undefined) {
+    if (!input.label || typeof input.label !== 'string' || input.label.trim().length === 0) {
+      return { valid: false, error: 'Question label is required' }
+    }
+    if (input.label.trim().length > 200) {
+      return { valid: false, error: 'Question label must be less than 200 characters' }
+    }
+    value.label = input.label.trim()
+  }
+
+  // Type + key (create only)
+  const type: QuestionType = isCreate ? input.type : existing.question_type
+  if (isCreate) {
+    if (!QUESTION_TYPES.includes(type)) {
+      return { valid: false, error: `Question type must be one of: ${QUESTION_TYPES.join(', ')}` }
+    }
+    value.question_type = type
+
+    const key = input.key ? String(input.key) : slugifyQuestionKey(value.label)
+    if (!/^[a-z0-9_]{1,50}$/.test(key)) {
+      return { valid: false, error: 'Question key must be 1-50 characters (lowercase letters, numbers, underscores)' }
+    }
+    value.question_key = key
+  } else if ((input.type !== undefined && input.type !== existing.question_type) ||
+             (input.key !== undefined && input.key !== existing.question_key)) {
+    return { valid: false, error: 'Question type and key cannot be changed. Deactivate this question and create a new one instead.' }
+  }
+
+  if (input.helpText !== undefined) {
+    if (input.helpText !== null && (typeof input.helpText !== 'string' || input.helpText.length > 300)) {
+      return { valid: false, error: 'Help text must be less than 300 characters' }
+    }
+    value.help_text = input.helpText ? input.helpText.trim() : null
+  }
+
+  // Options (choice types only)
+  const isChoice = type === 'single_choice' || type === 'multi_choice'
+  if (isChoice && (isCreate || input.options !== undefined)) {
+    if (!Array.isArray(input.options) || input.options.length === 0 || input.options.length > MAX_OPTIONS) {
+      return { valid: false, error: `Choice questions require between 1 and ${MAX_OPTIONS} options` }
+    }
+    const seen = new Set<string>()
+    const options: QuestionOption[] = []
+    for (const option of input.options) {
+      const optionValue = option?.value !== undefined ? String(option.value).trim() : ''
+      const optionLabel = option?.label !== undefined ? String(option.label).trim() : optionValue
+      const optionScore = option?.score === undefined ? 0 : Number(option.score)
+      if (!optionValue || optionValue.length > 50 || seen.has(optionValue)) {
+        return { valid: false, error: 'Each option needs a unique value (max 50 characters)' }
+      }
+      if (isNaN(optionScore)) {
+        return { valid: false, error: `Option "${optionValue}" has an invalid score` }
+      }
+      seen.add(optionValue)
+      options.push({ value: optionValue, label: optionLabel || optionValue, score: optionScore })
+    }
+    value.options = options
+  } else if (isCreate) {
+    value.options = []
+  }
+
+  // Bounds (scale/number only) - on update only the bounds sent are written, checked against the stored ones
+  if ((type === 'scale' || type === 'number') && (isCreate || input.minValue !== undefined || input.maxValue !== undefined)) {
+    const min = input.minValue !== undefined ? input.minValue : (isCreate ? (type === 'scale' ? 0 : null) : existing.min_value)
+    const max = input.maxValue !== undefined ? input.maxValue : (isCreate ? (type === 'scale' ? 10 : null) : existing.max_value)
+    if ((min !== null && isNaN(Number(min))) || (max !== null && isNaN(Number(max)))) {
+      return { valid: false, error: 'Minimum and maximum values must be numbers' }
+    }
+    if (type === 'scale' && (min === null || max === null || !Number.isInteger(Number(min)) || !Number.isInteger(Number(max)))) {
+      return { valid: false, error: 'Scale questions require whole-number minimum and maximum values' }
+    }
+    if (min !== null && max !== null && Number(min) >= Number(max)) {
+      return { valid: false, error: 'Minimum value must be lower than maximum value' }
+    }
+    if (isCreate || input.minValue !== undefined) {
+      value.min_value = min === null ? null : Number(min)
+    }
+    if (isCreate || input.maxValue !== undefined) {
+      value.max_value = max === null ? null : Number(max)
+    }
+  }
+
+  if (input.isRequired !== undefined) {
+    value.is_required = input.isRequired === true
+  }
+
+  if (input.scoringWeight !== undefined) {
+    const weight = Number(input.scoringWeight)
+    if (isNaN(weight) || weight < 0 || weight > 10) {
+      return { valid: false, error: 'Scoring weight must be a number between 0 and 10' }
+    }
+    value.scoring_weight = weight
+  }
+
+  if (input.redFlagThreshold !== undefined) {
+    if (input.redFlagThreshold !== null && isNaN(Number(input.redFlagThreshold))) {
+      return { valid: false, error: 'Red flag threshold must be a number or null' }
+    }
+    if (type === 'text' && input.redFlagThreshold !== null) {
+      return { valid: false, error: 'Text questions cannot trigger red flags' }
+    }
+    value.red_flag_threshold = input.redFlagThreshold === null ? null : Number(input.redFlagThreshold)
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      return { valid: false, error: 'Sort order must be a whole number' }
+    }
+    value.sort_order = input.sortOrder
+  }
+
+  if (input.isActive !== undefined) {
+    value.is_active = input.isActive === true
+  }
+
+  return { valid: true, value }
+}
+
+/**
+ * Numeric contribution of an answer before weighting
+ * boolean: yes = 1, scale/number: the value, choices: option score(s),
+ * body_map: number of regions selected, text: 0
+ */
+function getAnswerContribution(question: CheckInQuestion, value: any): number {
+  if (value === null || value === undefined) return 0
+
+  switch (question.question_type) {
+    case 'boolean':
+      return value === true ? 1 : 0
+    case 'scale':
+    case 'number':
+      return Number(value)
+    case 'single_choice':
+      return question.options.find(o => o.value === value)?.score || 0
+    case 'multi_choice':
+      return (value as string[]).reduce(
+        (sum, selected) => sum + (question.options.find(o => o.value === selected)?.score || 0),
+        0
+      )
+    case 'body_map':
+      return (value as string[]).length
+    default:
+      return 0
+  }
+}
+
+/**
+ * Validate answer value against its question definition
+ * @returns Error message or null if valid
+ */
+function validateAnswerValue(question: CheckInQuestion, value: any): string | null {
+  const label = question.label
+
+  switch (question.question_type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `"${label}" must be yes or no`
+    case 'scale':
+    case 'number': {
+      if (typeof value !== 'number' || isNaN(value)) {
+        return `"${label}" must be a number`
+      }
+      if (question.question_type === 'scale' && !Number.isInteger(value)) {
+        return `"${label}" must be a whole number`
+      }
+      if ((question.min_value !== null && value < question.min_value) ||
+          (question.max_value !== null && value > question.max_value)) {
+        return `"${label}" must be between ${question.min_value ?? '-'} and ${question.max_value ?? '-'}`
+      }
+      return null
+    }
+    case 'single_choice':
+      return question.options.some(o => o.value === value) ? null : `"${label}" has an invalid option`
+    case 'multi_choice':
+    case 'body_map': {
+      const allowed: readonly string[] = question.question_type === 'body_map'
+        ? BODY_MAP_REGIONS
+        : question.options.map(o => o.value)
+      if (!Array.isArray(value) || new Set(value).size !== value.length || value.some(v => !allowed.includes(v))) {
+        return `"${label}" has invalid selections`
+      }
+      return null
+    }
+    case 'text':
+      return typeof value === 'string' && value.length <= MAX_TEXT_ANSWER_LENGTH
+        ? null
+        : `"${label}" must be less than ${MAX_TEXT_ANSWER_LENGTH} characters`
+    default:
+      return `"${label}" has an unsupported question type`
+  }
+}
+
+/**
+ * Check if an answer counts as "not answered" (for required questions)
+ */
+function isEmptyAnswer(question: CheckInQuestion, value: any): boolean {
+  if (value === null || value === undefined) return true
+  if (question.question_type === 'text') return String(value).trim() === ''
+  if (question.question_type === 'multi_choice' || question.question_type === 'body_map') {
+    // An empty body map / multi-select is a valid answer ("none")
+    return !Array.isArray(value)
+  }
+  return false
+}
+
+/**
+ * Validate and score custom answers against the team's active questions
+ * @param questions - Active questions for the team
+ * @param rawAnswers - Answers keyed by question_key
+ * @returns { valid, answers, score, redFlags, error } - redFlags are question keys
+ */
+export function evaluateCustomAnswers(
+  questions: CheckInQuestion[],
+  rawAnswers: any
+): { valid: boolean; answers: CheckInAnswer[]; score: number; redFlags: string[]; error?: string } {
+  const answersByKey = rawAnswers && typeof rawAnswers === 'object' && !Array.isArray(rawAnswers) ? rawAnswers : {}
+  const answers: CheckInAnswer[] = []
+  const redFlags: string[] = []
+  let score = 0
+
+  for (const question of questions) {
+    const value = answersByKey[question.question_key]
+
+    if (isEmptyAnswer(question, value)) {
+      if (question.is_required) {
+        return { valid: false, answers: [], score: 0, redFlags: [], error: `"${question.label}" is required` }
+      }
+      continue
+    }
+
+    const answerError = validateAnswerValue(question, value)
+    if (answerError) {
+      return { valid: false, answers: [], score: 0, redFlags: [], error: answerError }
+    }
+
+    const contribution = getAnswerContribution(question, value)
+    const weighted = Math.round(contribution * question.scoring_weight * 100) / 100
+
+    if (question.red_flag_threshold !== null && contribution >= question.red_flag_threshold) {
+      redFlags.push(question.question_key)
+    }
+
+    score += weighted
+    answers.push({
+      questionId: question.id,
+      key: question.question_key,
+      label: question.label,
+      type: question.question_type,
+      value: question.question_type === 'text' ? String(value).trim() : value,
+      score: weighted,
+    })
+  }
+
+  return { valid: true, answers, score: Math.round(score * 100) / 100, redFlags }
+}
+
+/**
+ * Aggregate custom answers across check-ins for analytics
+ * @param questions - Team questions (including inactive, so historical answers are still reported)
+ * @param checkIns - Check-in rows with custom_answers
+ * @returns Per-question summary
+ */
+export function aggregateCustomAnswers(questions: CheckInQuestion[], checkIns: any[]) {
+  return questions.map(question => {
+    const values = checkIns
+      .map(checkIn => (Array.isArray(checkIn.custom_answers) ? checkIn.custom_answers : [])
+        .find((answer: CheckInAnswer) => answer.questionId === question.id))
+      .filter(Boolean)
+      .map((answer: CheckInAnswer) => answer.value)
+
+    const base = {
+      questionId: question.id,
+      key: question.question_key,
+      label: question.label,
+      type: question.question_type,
+      isActive: question.is_active,
+      responseCount: values.length,
+    }
+
+    switch (question.question_type) {
+      case 'boolean': {
+        const yes = values.filter(v => v === true).length
+        return {
+          ...base,
+          yesCount: yes,
+          noCount: values.length - yes,
+          yesRate: values.length > 0 ? Math.round((yes / values.length) * 100 * 10) / 10 : 0,
+        }
+      }
+      case 'scale':
+      case 'number': {
+        const numbers = values.map(Number).filter(v => !isNaN(v))
+        return {
+          ...base,
+          average: numbers.length > 0 ? Math.round((numbers.reduce((a, b) => a + b, 0) / numbers.length) * 10) / 10 : null,
+          min: numbers.length > 0 ? Math.min(...numbers) : null,
+          max: numbers.length > 0 ? Math.max(...numbers) : null,
+        }
+      }
+      case 'single_choice':
+      case 'multi_choice':
+      case 'body_map': {
+        const counts: Record<string, number> = {}
+        values.forEach(value => {
+          (Array.isArray(value) ? value : [value]).forEach((v: string) => {
+            counts[v] = (counts[v] || 0) + 1
+          })
+        })
+        return { ...base, counts }
+      }
+      default:
+        return base
+    }
+  })
+}
@@ -0,0 +1,604 @@
+/**
+ * Clinician Assignment
+ * Recommends clinicians for a WHS case and applies the organization's auto-assignment policy
+ * (see migration_add_clinician_assignment_recommendations.sql).
+ *
+ * Clinicians are scored 0-100 from four signals, each normalised against the other candidates:
+ *   open case load (fewer is better), appointments in the next APPOINTMENT_DENSITY_DAYS days,
+ *   specialty vs the case's incident type (generalists score in between), and average days from
+ *   assignment to return to work on past cases (no history = neutral).
+ * Clinicians not accepting new cases or at their max_open_cases cap are listed but unavailable.
+ *
+ * Policies: manual (WHS picks - default), round_robin (next available clinician after the last
+ * auto-assigned one, in an alphabetical rotation of every clinician), best_match (top available
+ * recommendation). The round-robin position is claimed with a conditional update, so concurrent
+ * auto-assignments never hand out the same turn.
+ * Every assignment goes through assignCaseToClinician so the clinician is notified and
+ * clinician_assigned_at / clinician_assignment_method are recorded.
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { createNotifications } from './notificationHub.js'
+import { formatUserFullName } from './userUtils.js'
+import { addDaysToDateString, getDefaultTimeZone, getTodayInTimeZone } from './timezone.js'
+
+export type AssignmentPolicy = 'manual' | 'round_robin' | 'best_match'
+export type AssignmentMethod = 'manual' | 'round_robin' | 'best_match'
+
+export const ASSIGNMENT_POLICIES: AssignmentPolicy[] = ['manual', 'round_robin', 'best_match']
+export const CASE_TYPES = ['accident', 'injury', 'medical_leave', 'other'] as const
+
+const OPEN_CASE_STATUSES = ['new', 'triaged', 'assessed', 'in_rehab']
+// Tries at claiming the round-robin position before giving up (another assignment moved it each time)
+const ROUND_ROBIN_ATTEMPTS = 3
+const APPOINTMENT_DENSITY_DAYS = 14
+
+// Score weights (sum to 100)
+const WEIGHTS = {
+  load: 40,
+  specialty: 25,
+  appointments: 20,
+  timeToRtw: 15,
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  accident: 'accident',
+  injury: 'injury',
+  medical_leave: 'medical leave',
+  other: 'other',
+}
+
+export interface ClinicianAssignmentProfile {
+  specialties: string[]
+  max_open_cases: number | null
+  accepting_new_cases: boolean
+}
+
+export interface ClinicianRecommendation {
+  clinicianId: string
+  name: string
+  email: string
+  score: number
+  available: boolean
+  openCases: number
+  maxOpenCases: number | null
+  upcomingAppointments: number
+  specialties: string[]
+  specialtyMatch: 'match' | 'generalist' | 'other'
+  avgDaysToRtw: number | null
+  rtwCases: number
+  reasons: string[]
+}
+
+const DEFAULT_PROFILE: ClinicianAssignmentProfile = {
+  specialties: [],
+  max_open_cases: null,
+  accepting_new_cases: true,
+}
+
+/**
+ * Validate a clinician assignment profile from a request body
+ */
+export function validateAssignmentProfileInput(body: any): { data: ClinicianAssignmentProfile | null; error: string | null } {
+  if (!body || typeof body !== 'object') {
+    return { data: null, error: 'Invalid request body' }
+  }
+
+  const specialties = body.specialties ?? []
+  if (!Array.isArray(specialties) || specialties.some((type: unknown) => !CASE_TYPES.includes(type as any))) {
+    return { data: null, error: `specialties must be a list of: ${CASE_TYPES.join(', ')}` }
+  }
+
+  let maxOpenCases: number | null = null
+  if (body.max_open_cases !== undefined && body.max_open_cases !== null && body.max_open_cases !== '') {
+    maxOpenCases = Number(body.max_open_cases)
+    if (!Number.isInteger(maxOpenCases) || maxOpenCases < 1 || maxOpenCases > 500) {
+      return { data: null, error: 'max_open_cases must be a whole number between 1 and 500' }
+    }
+  }
+
+  if (body.accepting_new_cases !== undefined && typeof body.accepting_new_cases !== 'boolean') {
+    return { data: null, error: 'accepting_new_cases must be true or false' }
+  }
+
+  return {
+    data: {
+      specialties: [...new Set<string>(specialties)],
+      max_open_cases: maxOpenCases,
+      accepting_new_cases: body.accepting_new_cases ?? true,
+    },
+    error: null,
+  }
+}
+
+/**
+ * Save a clinician's assignment profile
+ */
+export async function saveAssignmentProfile(
+  clinicianId: string,
+  profile: ClinicianAssignmentProfile,
+  updatedBy: string
+): Promise<{ error: string | null }> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient
+    .from('clinician_assignment_profiles')
+    .upsert({
+      clinician_id: clinicianId,
+      ...profile,
+      updated_at: new Date().toISOString(),
+      updated_by: updatedBy,
+    }, { onConflict: 'clinician_id' })
+
+  return { error: error?.message || null }
+}
+
+/**
+ * Get the organization's assignment policy (manual when never set)
+ */
+export async function getAssignmentPolicy(
+  organizationId: string
+): Promise<{ data: { policy: AssignmentPolicy; lastAssignedClinicianId: string | null }; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('organization_assignment_settings')
+    .select('policy, last_assigned_clinician_id')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  return {
+    data: {
+      policy: (data?.policy as AssignmentPolicy) || 'manual',
+      lastAssignedClinicianId: data?.last_assigned_clinician_id || null,
+    },
+    error: error?.message || null,
+  }
+}
+
+/**
+ * Set the organization's assignment policy
+ */
+export async function saveAssignmentPolicy(
+  organizationId: string,
+  policy: AssignmentPolicy,
+  updatedBy: string
+): Promise<{ error: string | null }> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient
+    .from('organization_assignment_settings')
+    .upsert({
+      organization_id: organizationId,
+      policy,
+      updated_at: new Date().toISOString(),
+      updated_by: updatedBy,
+    }, { onConflict: 'organization_id' })
+
+  return { error: error?.message || null }
+}
+
+// Higher is better; all equal scores 1
+function normalise(value: number, min: number, max: number, lowerIsBetter: boolean): number {
+  if (max === min) return 1
+  const position = (value - min) / (max - min)
+  return lowerIsBetter ? 1 - position : position
+}
+
+/**
+ * Rank the organization's clinicians for a case
+ * @param caseType - worker_exceptions.exception_type of the case
+ * @returns Recommendations, available clinicians first, best score first
+ */
+export async function getClinicianRecommendations(
+  organizationId: string,
+  caseType: string
+): Promise<{ data: ClinicianRecommendation[]; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  const { data: clinicians, error: cliniciansError } = await adminClient
+    .from('users')
+    .select('id, email, first_name, last_name, full_name')
+    .eq('role', 'clinician')
+    .eq('organization_id', organizationId)
+
+  if (cliniciansError) {
+    return { data: [], error: cliniciansError.message }
+  }
+  if (!clinicians || clinicians.length === 0) {
+    return { data: [], error: null }
+  }
+
+  const clinicianIds = clinicians.map((clinician: any) => clinician.id)
+  const today = getTodayInTimeZone(getDefaultTimeZone())
+
+  const [profilesResult, openCasesResult, appointmentsResult, rtwCasesResult] = await Promise.all([
+    adminClient
+      .from('clinician_assignment_profiles')
+      .select('clinician_id, specialties, max_open_cases, accepting_new_cases')
+      .in('clinician_id', clinicianIds),
+    adminClient
+      .from('worker_exceptions')
+      .select('clinician_id')
+      .in('clinician_id', clinicianIds)
+      .eq('is_active', true)
+      .or(`case_status.is.null,case_status.in.(${OPEN_CASE_STATUSES.join(',')})`),
+    adminClient
+      .from('appointments')
+      .select('clinician_id')
+      .in('clinician_id', clinicianIds)
+      .in('status', ['pending', 'confirmed'])
+      .gte('appointment_date', today)
+      .lte('appointment_date', addDaysToDateString(today, APPOINTMENT_DENSITY_DAYS)),
+    adminClient
+      .from('worker_exceptions')
+      .select('clinician_id, clinician_assigned_at, approved_at')
+      .in('clinician_id', clinicianIds)
+      .in('case_status', ['return_to_work', 'closed'])
+      .not('clinician_assigned_at', 'is', null)
+      .not('approved_at', 'is', null),
+  ])
+
+  const firstError = profilesResult.error || openCasesResult.error || appointmentsResult.error || rtwCasesResult.error
+  if (firstError) {
+    return { data: [], error: firstError.message }
+  }
+
+  const profiles = new Map<string, ClinicianAssignmentProfile>()
+  for (const row of profilesResult.data || []) {
+    profiles.set(row.clinician_id, {
+      specialties: row.specialties || [],
+      max_open_cases: row.max_open_cases,
+      accepting_new_cases: row.accepting_new_cases,
+    })
+  }
+
+  const countBy = (rows: Array<{ clinician_id: string }> | null) => {
+    const counts = new Map<string, number>()
+    for (const row of rows || []) {
+      counts.set(row.clinician_id, (counts.get(row.clinician_id) || 0) + 1)
+    }
+    return counts
+  }
+  const openCases = countBy(openCasesResult.data)
+  const appointments = countBy(appointmentsResult.data)
+
+  const rtwDays = new Map<string, number[]>()
+  for (const row of rtwCasesResult.data || []) {
+    const days = (new Date(row.approved_at).getTime() - new Date(row.clinician_assigned_at).getTime()) / 86400000
+    if (days < 0) continue
+    if (!rtwDays.has(row.clinician_id)) rtwDays.set(row.clinician_id, [])
+    rtwDays.get(row.clinician_id)!.push(days)
+  }
+
+  const candidates = clinicians.map((clinician: any) => {
+    const profile = profiles.get(clinician.id) || DEFAULT_PROFILE
+    const days = rtwDays.get(clinician.id) || []
+    return {
+      clinician,
+      profile,
+      openCases: openCases.get(clinician.id) || 0,
+      upcomingAppointments: appointments.get(clinician.id) || 0,
+      avgDaysToRtw: days.length > 0 ? Math.round(days.reduce((sum, value) => sum + value, 0) / days.length) : null,
+      rtwCases: days.length,
+    }
+  })
+
+  const loads = candidates.map(candidate => candidate.openCases)
+  const densities = candidates.map(candidate => candidate.upcomingAppointments)
+  const rtwAverages = candidates.map(candidate => candidate.avgDaysToRtw).filter((value): value is number => value !== null)
+  const typeLabel = TYPE_LABELS[caseType] || caseType
+
+  const recommendations: ClinicianRecommendation[] = candidates.map(candidate => {
+    const { profile } = candidate
+    const reasons: string[] = []
+
+    const loadScore = normalise(candidate.openCases, Math.min(...loads), Math.max(...loads), true)
+    reasons.push(`${candidate.openCases} open case${candidate.openCases === 1 ? '' : 's'}${profile.max_open_cases ? ` of ${profile.max_open_cases} max` : ''}`)
+
+    const appointmentScore = normalise(candidate.upcomingAppointments, Math.min(...densities), Math.max(...densities), true)
+    reasons.push(`${candidate.upcomingAppointments} appointment${candidate.upcomingAppointments === 1 ? '' : 's'} in the next ${APPOINTMENT_DENSITY_DAYS} days`)
+
+    let specialtyMatch: ClinicianRecommendation['specialtyMatch']
+    let specialtyScore: number
+    if (profile.specialties.includes(caseType)) {
+      specialtyMatch = 'match'
+      specialtyScore = 1
+      reasons.push(`Specialises in ${typeLabel} cases`)
+    } else if (profile.specialties.length === 0) {
+      specialtyMatch = 'generalist'
+      specialtyScore = 0.5
+      reasons.push('Generalist')
+    } else {
+      specialtyMatch = 'other'
+      specialtyScore = 0
+      reasons.push(`Specialises in ${profile.specialties.map(type => TYPE_LABELS[type] || type).join(', ')} - not ${typeLabel}`)
+    }
+
+    let rtwScore = 0.5
+    if (candidate.avgDaysToRtw !== null) {
+      rtwScore = normalise(candidate.avgDaysToRtw, Math.min(...rtwAverages), Math.max(...rtwAverages), true)
+      reasons.push(`Average ${candidate.avgDaysToRtw} days to return to work (${candidate.rtwCases} case${candidate.rtwCases === 1 ? '' : 's'})`)
+    } else {
+      reasons.push('No return-to-work history yet')
+    }
+
+    let available = true
+    if (!profile.accepting_new_cases) {
+      available = false
+      reasons.unshift('Not accepting new cases')
+    } else if (profile.max_open_cases !== null && candidate.openCases >= profile.max_open_cases) {
+      available = false
+      reasons.unshift('At case load limit')
+    }
+
+    const score = Math.round(
+      loadScore * WEIGHTS.load +
+      specialtyScore * WEIGHTS.specialty +
+      appointmentScore * WEIGHTS.appointments +
+      rtwScore * WEIGHTS.timeToRtw
+    )
+
+    return {
+      clinicianId: candidate.clinician.id,
+      name: formatUserFullName(candidate.clinician),
+      email: candidate.clinician.email,
+      score,
+      available,
+      openCases: candidate.openCases,
+      maxOpenCases: profile.max_open_cases,
+      upcomingAppointments: candidate.upcomingAppointments,
+      specialties: profile.specialties,
+      specialtyMatch,
+      avgDaysToRtw: candidate.avgDaysToRtw,
+      rtwCases: candidate.rtwCases,
+      reasons,
+    }
+  })
+
+  recommendations.sort((a, b) =>
+    Number(b.available) - Number(a.available) ||
+    b.score - a.score ||
+    a.name.localeCompare(b.name)
+  )
+
+  return { data: recommendations, error: null }
+}
+
+// Same format as the case numbers in routes/whs.ts and routes/clinician.ts
+export function generateCaseNumber(caseId: string, createdAt: string): string {
+  const date = new Date(createdAt)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `CASE-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}-${caseId.substring(0, 4).toUpperCase()}`
+}
+
+/**
+ * Assign a case to a clinician and notify them
+ * @param options.onlyIfUnassigned - skip (return null) if the case got a clinician meanwhile
+ * @returns The updated case, or null when skipped
+ */
+export async function assignCaseToClinician(
+  caseId: string,
+  clinicianId: string,
+  method: AssignmentMethod,
+  assignedBy: { id: string | null; name: string },
+  options: { onlyIfUnassigned?: boolean } = {}
+): Promise<{ data: any | null; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  let update = adminClient
+    .from('worker_exceptions')
+    .update({
+      clinician_id: clinicianId,
+      clinician_assigned_at: new Date().toISOString(),
+      clinician_assignment_method: method,
+    })
+    .eq('id', caseId)
+  if (options.onlyIfUnassigned) {
+    update = update.is('clinician_id', null)
+  }
+
+  const { data: updated, error: updateError } = await update
+    .select(`
+      *,
+      users!worker_exceptions_user_id_fkey(
+        id,
+        email,
+        first_name,
+        last_name,
+        full_name
+      )
+    `)
+
+  if (updateError) {
+    return { data: null, error: updateError.message }
+  }
+  const caseItem = updated?.[0]
+  if (!caseItem) {
+    return { data: null, error: null }
+  }
+
+  const worker = Array.isArray(caseItem.users) ? caseItem.users[0] : caseItem.users
+  const workerName = worker ? formatUserFullName(worker) : 'Unknown'
+  const caseNumber = generateCaseNumber(caseItem.id, caseItem.created_at)
+  const { users: _worker, ...caseRow } = caseItem
+
+  const { error: notifyError } = await createNotifications([{
+    user_id: clinicianId,
+    type: 'case_assigned_to_clinician',
+    title: '📋 New Case Assigned',
+    message: `A case (${caseNumber}) has been assigned to you. Worker: ${workerName}.`,
+    data: {
+      case_id: caseId,
+      case_number: caseNumber,
+      worker_id: caseItem.user_id,
+      worker_name: workerName,
+      worker_email: worker?.email || '',
+      exception_type: caseItem.exception_type,
+      reason: caseItem.reason || '',
+      start_date: caseItem.start_date,
+      end_date: caseItem.end_date,
+      assigned_by: assignedBy.id,
+      assigned_by_name: assignedBy.name,
+      assignment_method: method,
+    },
+    is_read: false,
+  }])
+
+  if (notifyError) {
+    // Don't fail the assignment if notification fails
+    console.error('[assignCaseToClinician] Error creating notification:', notifyError)
+  }
+
+  return { data: caseRow, error: null }
+}
+
+/**
+ * Next available clinician in the round-robin rotation after the last one assigned
+ * The rotation is every clinician (alphabetical), so unavailable clinicians keep their place.
+ * @returns null if nobody is available
+ */
+export function getNextRoundRobinClinician(
+  recommendations: ClinicianRecommendation[],
+  lastAssignedClinicianId: string | null
+): ClinicianRecommendation | null {
+  const rotation = [...recommendations].sort((a, b) => a.name.localeCompare(b.name) || a.clinicianId.localeCompare(b.clinicianId))
+  const lastIndex = rotation.findIndex(recommendation => recommendation.clinicianId === lastAssignedClinicianId)
+  for (let step = 1; step <= rotation.length; step++) {
+    const candidate = rotation[(lastIndex + step) % rotation.length]
+    if (candidate.available) {
+      return candidate
+    }
+  }
+  return null
+}
+
+/**
+ * Move the organization's round-robin position from `from` to `to`, only if it is still at `from`
+ * @returns true if the position was moved
+ */
+async function moveRoundRobinPosition(
+  organizationId: string,
+  from: string | null,
+  to: string | null
+): Promise<{ data: boolean; error: string | null }> {
+  const adminClient = getAdminClient()
+  let update = adminClient
+    .from('organization_assignment_settings')
+    .update({ last_assigned_clinician_id: to })
+    .eq('organization_id', organizationId)
+  update = from ? update.eq('last_assigned_clinician_id', from) : update.is('last_assigned_clinician_id', null)
+
+  const { data, error } = await update.select('organization_id')
+  return { data: !!data && data.length > 0, error: error?.message || null }
+}
+
+/**
+ * Claim the next round-robin turn
+ * @returns The clinician and the position before the claim (to give the turn back), or null if nobody is available
+ */
+async function claimRoundRobinClinician(
+  organizationId: string,
+  recommendations: ClinicianRecommendation[],
+  lastAssignedClinicianId: string | null
+): Promise<{ data: { clinician: ClinicianRecommendation; previous: string | null } | null; error: string | null }> {
+  let previous = lastAssignedClinicianId
+  for (let attempt = 0; attempt < ROUND_ROBIN_ATTEMPTS; attempt++) {
+    const next = getNextRoundRobinClinician(recommendations, previous)
+    if (!next) {
+      return { data: null, error: null }
+    }
+
+    const { data: moved, error } = await moveRoundRobinPosition(organizationId, previous, next.clinicianId)
+    if (error) {
+      return { data: null, error }
+    }
+    if (moved) {
+      return { data: { clinician: next, previous }, error: null }
+    }
+
+    // Another assignment took this turn - continue from where it left the position
+    const { data: settings, error: settingsError } = await getAssignmentPolicy(organizationId)
+    if (settingsError) {
+      return { data: null, error: settingsError }
+    }
+    previous = settings.lastAssignedClinicianId
+  }
+  return { data: null, error: 'The round-robin position kept changing - try again' }
+}
+
+/**
+ * Apply the organization's policy to a case that just reached WHS
+ * No-op under the manual policy, when the case already has a clinician, or when nobody is available.
+ * @returns The assigned clinician's ID, or null
+ */
+export async function autoAssignCase(
+  caseId: string,
+  organizationId: string
+): Promise<{ data: string | null; error: string | null }> {
+  try {
+    const { data: settings, error: settingsError } = await getAssignmentPolicy(organizationId)
+    if (settingsError) {
+      return { data: null, error: settingsError }
+    }
+    if (settings.policy === 'manual') {
+      return { data: null, error: null }
+    }
+
+    const adminClient = getAdminClient()
+    const { data: caseItem, error: caseError } = await adminClient
+      .from('worker_exceptions')
+      .select('id, exception_type, clinician_id')
+      .eq('id', caseId)
+      .eq('organization_id', organizationId)
+      .eq('assigned_to_whs', true)
+      .maybeSingle()
+
+    if (caseError) {
+      return { data: null, error: caseError.message }
+    }
+    if (!caseItem || caseItem.clinician_id) {
+      return { data: null, error: null }
+    }
+
+    const { data: recommendations, error: recommendationsError } = await getClinicianRecommendations(organizationId, caseItem.exception_type)
+    if (recommendationsError) {
+      return { data: null, error: recommendationsError }
+    }
+
+    const available = recommendations.filter(recommendation => recommendation.available)
+    if (available.length === 0) {
+      return { data: null, error: null }
+    }
+
+    let chosen: ClinicianRecommendation = available[0]
+    let roundRobinPrevious: string | null = null
+    if (settings.policy === 'round_robin') {
+      const { data: claimed, error: claimError } = await claimRoundRobinClinician(organizationId, recommendations, settings.lastAssignedClinicianId)
+      if (claimError || !claimed) {
+        return { data: null, error: claimError }
+      }
+      chosen = claimed.clinician
+      roundRobinPrevious = claimed.previous
+    }
+
+    const { data: assigned, error: assignError } = await assignCaseToClinician(
+      caseId,
+      chosen.clinicianId,
+      settings.policy,
+      { id: null, name: settings.policy === 'round_robin' ? 'Auto-assignment (round robin)' : 'Auto-assignment (best match)' },
+      { onlyIfUnassigned: true }
+    )
+    if (assignError || !assigned) {
+      // Give the turn back unless another assignment has already moved past it
+      if (settings.policy === 'round_robin') {
+        const { error: positionError } = await moveRoundRobinPosition(organizationId, chosen.clinicianId, roundRobinPrevious)
+        if (positionError) {
+          console.error('[autoAssignCase] Error restoring round-robin position:', positionError)
+        }
+      }
+      return { data: null, error: assignError }
+    }
+
+    return { data: chosen.clinicianId, error: null }
+  } catch (error: any) {
+    return { data: null, error: error.message || 'Auto-assignment failed' }
+  }
+}
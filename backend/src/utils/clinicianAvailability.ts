@@ -0,0 +1,786 @@
+/**
+ * Clinician Availability
+ * Clinicians publish weekly working hours (with a location per block), recurring breaks and leave,
+ * plus the rules workers book by (see migration_add_clinician_availability.sql). Workers are offered
+ * the free slots left over.
+ * All times are the clinician's wall-clock time in their booking timezone - the same as
+ * appointments.appointment_date / appointment_time. Conflict checks cover the whole calendar:
+ * active appointments on neighbouring dates (an evening appointment can run past midnight),
+ * breaks and leave.
+ */
+
+import { getAdminClient } from './adminClient.js'
+import {
+  addDaysToDateString,
+  getDayOfWeekFromDateString,
+  getDefaultTimeZone,
+  getZonedDateTime,
+  isValidTimeZone,
+} from './timezone.js'
+
+export interface BookingSettings {
+  timezone: string
+  allow_worker_booking: boolean
+  allow_worker_reschedule: boolean
+  slot_minutes: number
+  buffer_minutes: number
+  min_notice_hours: number
+  booking_window_days: number
+  reschedule_cutoff_hours: number
+  max_worker_reschedules: number
+}
+
+export interface WorkingHoursBlock {
+  day_of_week: number
+  start_time: string
+  end_time: string
+  location: string | null
+}
+
+export interface AvailabilityBreak {
+  day_of_week: number | null // null = every day
+  start_time: string
+  end_time: string
+  label: string | null
+}
+
+export interface ClinicianLeave {
+  id: string
+  start_date: string
+  end_date: string
+  start_time: string | null // set with end_time for part-day leave
+  end_time: string | null
+  reason: string | null
+}
+
+export interface ClinicianAvailability {
+  settings: BookingSettings
+  workingHours: WorkingHoursBlock[]
+  breaks: AvailabilityBreak[]
+  leave: ClinicianLeave[]
+}
+
+export interface AvailabilityInput {
+  settings: Omit<BookingSettings, 'timezone'> & { timezone: string | null }
+  workingHours: WorkingHoursBlock[]
+  breaks: AvailabilityBreak[]
+}
+
+export interface CalendarConflict {
+  type: 'appointment' | 'break' | 'leave'
+  id: string | null
+  message: string
+}
+
+export interface AvailableSlot {
+  date: string
+  time: string
+  end_time: string
+  location: string | null
+}
+
+export const DEFAULT_BOOKING_SETTINGS: Omit<BookingSettings, 'timezone'> = {
+  allow_worker_booking: false,
+  allow_worker_reschedule: false,
+  slot_minutes: 30,
+  buffer_minutes: 0,
+  min_notice_hours: 24,
+  booking_window_days: 28,
+  reschedule_cutoff_hours: 24,
+  max_worker_reschedules: 2,
+}
+
+// Integer settings and their allowed ranges (match the table CHECKs)
+const SETTING_RANGES: Record<string, [number, number]> = {
+  slot_minutes: [15, 240],
+  buffer_minutes: [0, 120],
+  min_notice_hours: [0, 336],
+  booking_window_days: [1, 180],
+  reschedule_cutoff_hours: [0, 336],
+  max_worker_reschedules: [0, 10],
+}
+
+const MAX_BLOCKS = 50
+const MAX_SLOT_RANGE_DAYS = 62
+const ACTIVE_APPOINTMENT_STATUSES = ['pending', 'confirmed']
+const MINUTES_PER_DAY = 24 * 60
+const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$/
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+interface Interval {
+  start: number
+  end: number
+}
+
+// Minutes since midnight of 'HH:MM' or 'HH:MM:SS'
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Minutes since midnight -> 'HH:MM'
+function formatMinutes(minutes: number): string {
+  const withinDay = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return `${String(Math.floor(withinDay / 60)).padStart(2, '0')}:${String(withinDay % 60).padStart(2, '0')}`
+}
+
+// Position on one continuous timeline, so intervals can cross midnight
+function toCalendarMinutes(dateStr: string, time: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number)
+  return (Date.UTC(year, month - 1, day) / 86400000) * MINUTES_PER_DAY + toMinutes(time)
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && a.end > b.start
+}
+
+function normalizeTime(value: unknown): string | null {
+  if (typeof value !== 'string' || !TIME_REGEX.test(value.trim())) {
+    return null
+  }
+  const [hours, minutes] = value.trim().split(':')
+  return `${hours.padStart(2, '0')}:${minutes}`
+}
+
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_REGEX.test(value)) {
+    return false
+  }
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+function optionalText(value: unknown, maxLength: number): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().substring(0, maxLength) : null
+}
+
+function eachDate(fromDate: string, toDate: string): string[] {
+  const dates: string[] = []
+  for (let date = fromDate; date <= toDate; date = addDaysToDateString(date, 1)) {
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Validate working hours, breaks and booking settings from a request body
+ * Settings not given keep their defaults; blocks on the same day must not overlap.
+ */
+export function validateAvailabilityInput(body: any): { data: AvailabilityInput | null; error: string | null } {
+  if (!body || typeof body !== 'object') {
+    return { data: null, error: 'Invalid request body' }
+  }
+
+  const rawSettings = body.settings && typeof body.settings === 'object' ? body.settings : {}
+  const settings: AvailabilityInput['settings'] = { ...DEFAULT_BOOKING_SETTINGS, timezone: null }
+
+  if (rawSettings.timezone !== undefined && rawSettings.timezone !== null && rawSettings.timezone !== '') {
+    if (!isValidTimeZone(rawSettings.timezone)) {
+      return { data: null, error: 'timezone must be an IANA timezone (e.g. Australia/Perth)' }
+    }
+    settings.timezone = rawSettings.timezone
+  }
+  for (const field of ['allow_worker_booking', 'allow_worker_reschedule'] as const) {
+    if (rawSettings[field] !== undefined) {
+      if (typeof rawSettings[field] !== 'boolean') {
+        return { data: null, error: `${field} must be true or false` }
+      }
+      settings[field] = rawSettings[field]
+    }
+  }
+  for (const [field, [min, max]] of Object.entries(SETTING_RANGES)) {
+    if (rawSettings[field] === undefined) continue
+    const value = Number(rawSettings[field])
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { data: null, error: `${field} must be a whole number between ${min} and ${max}` }
+    }
+    Object.assign(settings, { [field]: value })
+  }
+
+  const rawHours = body.working_hours ?? []
+  const rawBreaks = body.breaks ?? []
+  if (!Array.isArray(rawHours) || !Array.isArray(rawBreaks)) {
+    return { data: null, error: 'working_hours and breaks must be arrays' }
+  }
+  if (rawHours.length > MAX_BLOCKS || rawBreaks.length > MAX_BLOCKS) {
+    return { data: null, error: `At most ${MAX_BLOCKS} working hour blocks and ${MAX_BLOCKS} breaks` }
+  }
+
+  const workingHours: WorkingHoursBlock[] = []
+  for (let i = 0; i < rawHours.length; i++) {
+    const block = rawHours[i] || {}
+    const label = `Working hours ${i + 1}`
+    const dayOfWeek = Number(block.day_of_week)
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      return { data: null, error: `${label}: day_of_week must be 0 (Sunday) to 6 (Saturday)` }
+    }
+    const startTime = normalizeTime(block.start_time)
+    const endTime = normalizeTime(block.end_time)
+    if (!startTime || !endTime) {
+      return { data: null, error: `${label}: start_time and end_time must be HH:MM` }
+    }
+    if (toMinutes(endTime) <= toMinutes(startTime)) {
+      return { data: null, error: `${label}: end_time must be after start_time` }
+    }
+    const clash = workingHours.find(other =>
+      other.day_of_week === dayOfWeek &&
+      overlaps(
+        { start: toMinutes(other.start_time), end: toMinutes(other.end_time) },
+        { start: toMinutes(startTime), end: toMinutes(endTime) }
+      )
+    )
+    if (clash) {
+      return { data: null, error: `${label}: overlaps ${clash.start_time}–${clash.end_time} on the same day` }
+    }
+    workingHours.push({ day_of_week: dayOfWeek, start_time: startTime, end_time: endTime, location: optionalText(block.location, 500) })
+  }
+
+  const breaks: AvailabilityBreak[] = []
+  for (let i = 0; i < rawBreaks.length; i++) {
+    const item = rawBreaks[i] || {}
+    const label = `Break ${i + 1}`
+    let dayOfWeek: number | null = null
+    if (item.day_of_week !== undefined && item.day_of_week !== null && item.day_of_week !== '') {
+      dayOfWeek = Number(item.day_of_week)
+      if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+        return { data: null, error: `${label}: day_of_week must be 0 (Sunday) to 6 (Saturday), or empty for every day` }
+      }
+    }
+    const startTime = normalizeTime(item.start_time)
+    const endTime = normalizeTime(item.end_time)
+    if (!startTime || !endTime) {
+      return { data: null, error: `${label}: start_time and end_time must be HH:MM` }
+    }
+    if (toMinutes(endTime) <= toMinutes(startTime)) {
+      return { data: null, error: `${label}: end_time must be after start_time` }
+    }
+    breaks.push({ day_of_week: dayOfWeek, start_time: startTime, end_time: endTime, label: optionalText(item.label, 100) })
+  }
+
+  return { data: { settings, workingHours, breaks }, error: null }
+}
+
+/**
+ * Validate leave from a request body
+ * Whole days (start_date to end_date), or part of a single day when start_time and end_time are given.
+ */
+export function validateLeaveInput(body: any): { data: Omit<ClinicianLeave, 'id'> | null; error: string | null } {
+  if (!body || typeof body !== 'object') {
+    return { data: null, error: 'Invalid request body' }
+  }
+  if (!isValidDate(body.start_date)) {
+    return { data: null, error: 'start_date is required (YYYY-MM-DD)' }
+  }
+  const endDate = body.end_date === undefined || body.end_date === null || body.end_date === '' ? body.start_date : body.end_date
+  if (!isValidDate(endDate) || endDate < body.start_date) {
+    return { data: null, error: 'end_date must be a date (YYYY-MM-DD) on or after start_date' }
+  }
+
+  const hasTimes = Boolean(body.start_time || body.end_time)
+  let startTime: string | null = null
+  let endTime: string | null = null
+  if (hasTimes) {
+    startTime = normalizeTime(body.start_time)
+    endTime = normalizeTime(body.end_time)
+    if (!startTime || !endTime || toMinutes(endTime) <= toMinutes(startTime)) {
+      return { data: null, error: 'Part-day leave needs start_time and end_time (HH:MM), end after start' }
+    }
+    if (endDate !== body.start_date) {
+      return { data: null, error: 'Part-day leave must start and end on the same date' }
+    }
+  }
+
+  return {
+    data: {
+      start_date: body.start_date,
+      end_date: endDate,
+      start_time: startTime,
+      end_time: endTime,
+      reason: optionalText(body.reason, 500),
+    },
+    error: null,
+  }
+}
+
+/**
+ * Get a clinician's booking settings (defaults if never saved)
+ */
+export async function getBookingSettings(clinicianId: string): Promise<BookingSettings> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('clinician_booking_settings')
+    .select('*')
+    .eq('clinician_id', clinicianId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[getBookingSettings] Error:', error)
+  }
+
+  const settings: BookingSettings = { ...DEFAULT_BOOKING_SETTINGS, timezone: getDefaultTimeZone() }
+  if (data) {
+    for (const field of Object.keys(DEFAULT_BOOKING_SETTINGS) as Array<keyof typeof DEFAULT_BOOKING_SETTINGS>) {
+      if (data[field] !== null && data[field] !== undefined) {
+        Object.assign(settings, { [field]: data[field] })
+      }
+    }
+    if (isValidTimeZone(data.timezone)) {
+      settings.timezone = data.timezone
+    }
+  }
+  return settings
+}
+
+/**
+ * Get booking timezones for several clinicians at once
+ * @returns Map of clinician ID to timezone (clinicians without one map to the default timezone)
+ */
+export async function getClinicianTimeZones(clinicianIds: string[]): Promise<Map<string, string>> {
+  const defaultTimeZone = getDefaultTimeZone()
+  const uniqueIds = [...new Set(clinicianIds.filter(Boolean))]
+  const timeZones = new Map<string, string>(uniqueIds.map(id => [id, defaultTimeZone]))
+  if (uniqueIds.length === 0) {
+    return timeZones
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('clinician_booking_settings')
+    .select('clinician_id, timezone')
+    .in('clinician_id', uniqueIds)
+
+  if (error) {
+    console.error('[getClinicianTimeZones] Error:', error)
+  }
+
+  for (const row of data || []) {
+    if (isValidTimeZone(row.timezone)) {
+      timeZones.set(row.clinician_id, row.timezone)
+    }
+  }
+  return timeZones
+}
+
+/**
+ * Get a clinician's settings, weekly hours, breaks and leave
+ * @param leaveFrom - only leave ending on or after this date (YYYY-MM-DD); all leave if omitted
+ */
+export async function getClinicianAvailability(
+  clinicianId: string,
+  leaveFrom?: string
+): Promise<{ data: ClinicianAvailability | null; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  let leaveQuery = adminClient
+    .from('clinician_leave')
+    .select('id, start_date, end_date, start_time, end_time, reason')
+    .eq('clinician_id', clinicianId)
+    .order('start_date', { ascending: true })
+  if (leaveFrom) {
+    leaveQuery = leaveQuery.gte('end_date', leaveFrom)
+  }
+
+  const [settings, hoursResult, breaksResult, leaveResult] = await Promise.all([
+    getBookingSettings(clinicianId),
+    adminClient
+      .from('clinician_working_hours')
+      .select('day_of_week, start_time, end_time, location')
+      .eq('clinician_id', clinicianId)
+      .order('day_of_week', { ascending: true })
+      .order('start_time', { ascending: true }),
+    adminClient
+      .from('clinician_breaks')
+      .select('day_of_week, start_time, end_time, label')
+      .eq('clinician_id', clinicianId)
+      .order('start_time', { ascending: true }),
+    leaveQuery,
+  ])
+
+  const failed = hoursResult.error || breaksResult.error || leaveResult.error
+  if (failed) {
+    console.error('[getClinicianAvailability] Error:', failed)
+    return { data: null, error: 'Failed to fetch availability' }
+  }
+
+  const trimSeconds = (time: string | null) => (time ? time.substring(0, 5) : null)
+  return {
+    data: {
+      settings,
+      workingHours: (hoursResult.data || []).map((block: any) => ({
+        ...block,
+        start_time: trimSeconds(block.start_time)!,
+        end_time: trimSeconds(block.end_time)!,
+      })),
+      breaks: (breaksResult.data || []).map((item: any) => ({
+        ...item,
+        start_time: trimSeconds(item.start_time)!,
+        end_time: trimSeconds(item.end_time)!,
+      })),
+      leave: (leaveResult.data || []).map((item: any) => ({
+        ...item,
+        start_time: trimSeconds(item.start_time),
+        end_time: trimSeconds(item.end_time),
+      })),
+    },
+    error: null,
+  }
+}
+
+/**
+ * Save booking settings and replace the weekly hours and breaks
+ * Previous hours and breaks are restored if the new ones can't be saved.
+ */
+export async function saveClinicianAvailability(
+  clinicianId: string,
+  input: AvailabilityInput
+): Promise<{ error: string | null }> {
+  const adminClient = getAdminClient()
+
+  const { error: settingsError } = await adminClient
+    .from('clinician_booking_settings')
+    .upsert({ clinician_id: clinicianId, ...input.settings, updated_at: new Date().toISOString() }, { onConflict: 'clinician_id' })
+
+  if (settingsError) {
+    console.error('[saveClinicianAvailability] Error saving settings:', settingsError)
+    return { error: 'Failed to save booking settings' }
+  }
+
+  const tables = [
+    { table: 'clinician_working_hours', rows: input.workingHours },
+    { table: 'clinician_breaks', rows: input.breaks },
+  ]
+
+  for (const { table, rows } of tables) {
+    const { data: previous, error: previousError } = await adminClient
+      .from(table)
+      .select('*')
+      .eq('clinician_id', clinicianId)
+
+    if (previousError) {
+      console.error(`[saveClinicianAvailability] Error reading ${table}:`, previousError)
+      return { error: 'Failed to save availability' }
+    }
+
+    const { error: deleteError } = await adminClient.from(table).delete().eq('clinician_id', clinicianId)
+    if (deleteError) {
+      console.error(`[saveClinicianAvailability] Error clearing ${table}:`, deleteError)
+      return { error: 'Failed to save availability' }
+    }
+
+    if (rows.length === 0) continue
+
+    const { error: insertError } = await adminClient
+      .from(table)
+      .insert(rows.map(row => ({ ...row, clinician_id: clinicianId })))
+
+    if (insertError) {
+      console.error(`[saveClinicianAvailability] Error inserting ${table}:`, insertError)
+      if (previous && previous.length > 0) {
+        await adminClient.from(table).insert(previous)
+      }
+      return { error: 'Failed to save availability' }
+    }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Add leave for a clinician
+ */
+export async function addClinicianLeave(
+  clinicianId: string,
+  leave: Omit<ClinicianLeave, 'id'>
+): Promise<{ data: ClinicianLeave | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('clinician_leave')
+    .insert({ ...leave, clinician_id: clinicianId })
+    .select('id, start_date, end_date, start_time, end_time, reason')
+    .single()
+
+  if (error || !data) {
+    console.error('[addClinicianLeave] Error:', error)
+    return { data: null, error: 'Failed to add leave' }
+  }
+  return { data, error: null }
+}
+
+/**
+ * Remove one of a clinician's leave entries
+ * @returns error 'not_found' if the leave doesn't exist or belongs to someone else
+ */
+export async function removeClinicianLeave(clinicianId: string, leaveId: string): Promise<{ error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('clinician_leave')
+    .delete()
+    .eq('id', leaveId)
+    .eq('clinician_id', clinicianId)
+    .select('id')
+
+  if (error) {
+    console.error('[removeClinicianLeave] Error:', error)
+    return { error: 'Failed to remove leave' }
+  }
+  return { error: data && data.length > 0 ? null : 'not_found' }
+}
+
+// Active appointments that could overlap fromDate..toDate (including ones from the day before)
+async function getAppointmentIntervals(
+  clinicianId: string,
+  fromDate: string,
+  toDate: string,
+  excludeAppointmentId?: string
+): Promise<{ data: Array<Interval & { id: string; date: string; time: string }>; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('appointments')
+    .select('id, appointment_date, appointment_time, duration_minutes')
+    .eq('clinician_id', clinicianId)
+    .in('status', ACTIVE_APPOINTMENT_STATUSES)
+    .gte('appointment_date', addDaysToDateString(fromDate, -1))
+    .lte('appointment_date', toDate)
+
+  if (excludeAppointmentId) {
+    query = query.neq('id', excludeAppointmentId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[getAppointmentIntervals] Error:', error)
+    return { data: [], error: 'Failed to check the clinician calendar' }
+  }
+
+  return {
+    data: (data || []).map((appointment: any) => {
+      const start = toCalendarMinutes(appointment.appointment_date, appointment.appointment_time)
+      return {
+        id: appointment.id,
+        date: appointment.appointment_date,
+        time: appointment.appointment_time.substring(0, 5),
+        start,
+        end: start + (appointment.duration_minutes || 30),
+      }
+    }),
+    error: null,
+  }
+}
+
+// Breaks and leave falling on fromDate..toDate
+function getBlockedIntervals(
+  availability: ClinicianAvailability,
+  fromDate: string,
+  toDate: string
+): Array<Interval & { type: 'break' | 'leave'; id: string | null; message: string }> {
+  const blocked: Array<Interval & { type: 'break' | 'leave'; id: string | null; message: string }> = []
+
+  for (const date of eachDate(fromDate, toDate)) {
+    const dayOfWeek = getDayOfWeekFromDateString(date)
+    for (const item of availability.breaks) {
+      if (item.day_of_week !== null && item.day_of_week !== dayOfWeek) continue
+      blocked.push({
+        type: 'break',
+        id: null,
+        start: toCalendarMinutes(date, item.start_time),
+        end: toCalendarMinutes(date, item.end_time),
+        message: `Overlaps ${item.label || 'a break'} (${item.start_time}–${item.end_time})`,
+      })
+    }
+  }
+
+  for (const leave of availability.leave) {
+    if (leave.end_date < fromDate || leave.start_date > toDate) continue
+    const partDay = leave.start_time !== null && leave.end_time !== null
+    blocked.push({
+      type: 'leave',
+      id: leave.id,
+      start: toCalendarMinutes(leave.start_date, partDay ? leave.start_time! : '00:00'),
+      end: partDay
+        ? toCalendarMinutes(leave.end_date, leave.end_time!)
+        : toCalendarMinutes(addDaysToDateString(leave.end_date, 1), '00:00'),
+      message: partDay
+        ? `Falls in leave on ${leave.start_date} (${leave.start_time}–${leave.end_time})`
+        : `Falls in leave ${leave.start_date === leave.end_date ? `on ${leave.start_date}` : `from ${leave.start_date} to ${leave.end_date}`}`,
+    })
+  }
+
+  return blocked
+}
+
+/**
+ * Whether a failed appointment insert/update hit the database overlap guard
+ * (appointments_no_clinician_overlap, see migration_add_appointment_overlap_guard.sql) -
+ * another request took the time between the free-slot check and the write.
+ */
+export function isAppointmentOverlapError(error: { code?: string } | null | undefined): boolean {
+  return error?.code === '23P01'
+}
+
+/**
+ * Find what an appointment would clash with in a clinician's calendar
+ * Checks active (pending/confirmed) appointments - including ones starting the day before -
+ * recurring breaks and leave. Working hours are not enforced here: clinicians can book
+ * outside them; self-booking only offers slots inside them (getAvailableSlots).
+ * @param options.excludeAppointmentId - the appointment being moved
+ * @param options.bufferMinutes - gap to keep around other appointments
+ */
+export async function findCalendarConflicts(
+  clinicianId: string,
+  date: string,
+  time: string,
+  durationMinutes: number,
+  options: { excludeAppointmentId?: string; bufferMinutes?: number; availability?: ClinicianAvailability } = {}
+): Promise<{ data: CalendarConflict[]; error: string | null }> {
+  let availability = options.availability
+  if (!availability) {
+    const result = await getClinicianAvailability(clinicianId, addDaysToDateString(date, -1))
+    if (result.error || !result.data) {
+      return { data: [], error: result.error || 'Failed to check the clinician calendar' }
+    }
+    availability = result.data
+  }
+
+  const nextDate = addDaysToDateString(date, 1)
+  const { data: appointments, error } = await getAppointmentIntervals(clinicianId, date, nextDate, options.excludeAppointmentId)
+  if (error) {
+    return { data: [], error }
+  }
+
+  const start = toCalendarMinutes(date, time)
+  const interval = { start, end: start + durationMinutes }
+  const buffer = options.bufferMinutes || 0
+  const conflicts: CalendarConflict[] = []
+
+  for (const appointment of appointments) {
+    if (overlaps(interval, { start: appointment.start - buffer, end: appointment.end + buffer })) {
+      conflicts.push({
+        type: 'appointment',
+        id: appointment.id,
+        message: `Overlaps an appointment on ${appointment.date} at ${appointment.time}`,
+      })
+    }
+  }
+  for (const blocked of getBlockedIntervals(availability, date, nextDate)) {
+    if (overlaps(interval, blocked)) {
+      conflicts.push({ type: blocked.type, id: blocked.id, message: blocked.message })
+    }
+  }
+
+  return { data: conflicts, error: null }
+}
+
+/**
+ * Free self-booking slots of a clinician
+ * Slots start every slot_minutes from the start of each working-hours block and are slot_minutes
+ * long (or durationMinutes, for moving a longer appointment). A slot is offered when it ends inside the block, starts at least min_notice_hours from
+ * now, falls within booking_window_days and doesn't touch a break, leave or another active
+ * appointment (kept buffer_minutes apart).
+ * @param fromDate - first date (YYYY-MM-DD), clamped to today in the clinician's timezone
+ * @param toDate - last date (YYYY-MM-DD), clamped to the booking window
+ * @param options.excludeAppointmentId - the appointment being rescheduled
+ * @param options.durationMinutes - appointment length (default slot_minutes)
+ */
+export async function getAvailableSlots(
+  clinicianId: string,
+  fromDate: string,
+  toDate: string,
+  options: { excludeAppointmentId?: string; durationMinutes?: number; availability?: ClinicianAvailability; now?: Date } = {}
+): Promise<{ data: AvailableSlot[]; error: string | null }> {
+  let availability = options.availability
+  if (!availability) {
+    const result = await getClinicianAvailability(clinicianId, addDaysToDateString(fromDate, -1))
+    if (result.error || !result.data) {
+      return { data: [], error: result.error || 'Failed to fetch availability' }
+    }
+    availability = result.data
+  }
+
+  const { settings, workingHours } = availability
+  const duration = options.durationMinutes || settings.slot_minutes
+  const now = getZonedDateTime(options.now || new Date(), settings.timezone)
+  const earliestStart = toCalendarMinutes(now.date, now.time) + settings.min_notice_hours * 60
+  const lastBookableDate = addDaysToDateString(now.date, settings.booking_window_days)
+
+  const firstDate = fromDate < now.date ? now.date : fromDate
+  let lastDate = toDate > lastBookableDate ? lastBookableDate : toDate
+  if (lastDate > addDaysToDateString(firstDate, MAX_SLOT_RANGE_DAYS)) {
+    lastDate = addDaysToDateString(firstDate, MAX_SLOT_RANGE_DAYS)
+  }
+  if (firstDate > lastDate || workingHours.length === 0) {
+    return { data: [], error: null }
+  }
+
+  const { data: appointments, error } = await getAppointmentIntervals(
+    clinicianId,
+    firstDate,
+    addDaysToDateString(lastDate, 1),
+    options.excludeAppointmentId
+  )
+  if (error) {
+    return { data: [], error }
+  }
+
+  const busy: Interval[] = [
+    ...appointments.map(appointment => ({
+      start: appointment.start - settings.buffer_minutes,
+      end: appointment.end + settings.buffer_minutes,
+    })),
+    ...getBlockedIntervals(availability, firstDate, addDaysToDateString(lastDate, 1)),
+  ]
+
+  const slots: AvailableSlot[] = []
+  for (const date of eachDate(firstDate, lastDate)) {
+    const dayOfWeek = getDayOfWeekFromDateString(date)
+    for (const block of workingHours) {
+      if (block.day_of_week !== dayOfWeek) continue
+      const blockEnd = toCalendarMinutes(date, block.end_time)
+      for (
+        let start = toCalendarMinutes(date, block.start_time);
+        start + duration <= blockEnd;
+        start += settings.slot_minutes
+      ) {
+        const slot = { start, end: start + duration }
+        if (slot.start < earliestStart || busy.some(interval => overlaps(slot, interval))) continue
+        slots.push({
+          date,
+          time: formatMinutes(slot.start),
+          end_time: formatMinutes(slot.end),
+          location: block.location,
+        })
+      }
+    }
+  }
+
+  slots.sort((a, b) => (a.date === b.date ? a.time.localeCompare(b.time) : a.date.localeCompare(b.date)))
+  return { data: slots, error: null }
+}
+
+/**
+ * Check whether a worker may still reschedule an appointment
+ * @returns reason it can't be rescheduled, or null if it can
+ */
+export function getWorkerRescheduleBlocker(
+  settings: BookingSettings,
+  appointment: { appointment_date: string; appointment_time: string; status: string; worker_reschedule_count: number | null },
+  now: Date = new Date()
+): string | null {
+  if (!settings.allow_worker_reschedule) {
+    return 'Your clinician does not allow rescheduling online - please contact them'
+  }
+  if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+    return 'Only pending or confirmed appointments can be rescheduled'
+  }
+  if ((appointment.worker_reschedule_count || 0) >= settings.max_worker_reschedules) {
+    return `This appointment has already been rescheduled ${settings.max_worker_reschedules} time${settings.max_worker_reschedules === 1 ? '' : 's'}`
+  }
+
+  const zonedNow = getZonedDateTime(now, settings.timezone)
+  const minutesUntilStart =
+    toCalendarMinutes(appointment.appointment_date, appointment.appointment_time) - toCalendarMinutes(zonedNow.date, zonedNow.time)
+  if (minutesUntilStart < settings.reschedule_cutoff_hours * 60) {
+    return `Appointments can't be rescheduled less than ${settings.reschedule_cutoff_hours} hours before they start`
+  }
+  return null
+}
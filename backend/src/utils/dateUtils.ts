@@ -2,12 +2,16 @@
  * Date utility functions to eliminate code duplication
  */
 
+import { getDefaultTimeZone, getTodayInTimeZone } from './timezone.js'
+
 /**
  * Get today's date in YYYY-MM-DD format
+ * @param timeZone - Site timezone (default: DEFAULT_TIMEZONE). Pass the team's timezone for
+ *                   anything compared against check-in dates - see getWorkerTimeZone/getTeamTimeZone.
  * @returns Today's date string
  */
-export function getTodayDateString(): string {
-  return new Date().toISOString().split('T')[0]
+export function getTodayDateString(timeZone: string = getDefaultTimeZone()): string {
+  return getTodayInTimeZone(timeZone)
 }
 
 /**
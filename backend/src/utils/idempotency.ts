@@ -0,0 +1,156 @@
+/**
+ * Idempotency Keys
+ * Lets clients safely retry a POST (e.g. an offline outbox replaying an incident report):
+ * the first request with a key runs, later requests with the same key get the stored response.
+ *
+ * Flow: beginIdempotentRequest() claims the key (unique per user + scope), the handler runs,
+ * then completeIdempotentRequest() stores the response - or releaseIdempotentRequest() frees
+ * the key when the request failed, so a retry can run again.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+// Claims older than this that never completed (crashed request) can be taken over by a retry
+const STALE_CLAIM_MS = 2 * 60 * 1000
+
+const UNIQUE_VIOLATION = '23505'
+
+export type IdempotencyState = 'new' | 'replay' | 'in_progress'
+
+export interface StoredResponse {
+  status: number
+  body: any
+}
+
+/**
+ * Validate an idempotency key (client-generated, e.g. a UUID)
+ * @returns { valid, error? }
+ */
+export function validateIdempotencyKey(key: string): { valid: boolean; error?: string } {
+  if (!/^[A-Za-z0-9_-]{8,100}$/.test(key)) {
+    return { valid: false, error: `Invalid ${IDEMPOTENCY_KEY_HEADER}. Use 8-100 letters, digits, "-" or "_".` }
+  }
+  return { valid: true }
+}
+
+/**
+ * Claim an idempotency key before running a request
+ * @param userId - Authenticated user
+ * @param scope - Endpoint the key belongs to, e.g. 'report-incident'
+ * @param key - Client idempotency key
+ * @returns state 'new' (run the request), 'replay' (return response) or 'in_progress' (a request with this key is still running)
+ */
+export async function beginIdempotentRequest(
+  userId: string,
+  scope: string,
+  key: string
+): Promise<{ state: IdempotencyState; response?: StoredResponse; error: any }> {
+  const adminClient = getAdminClient()
+
+  const { error: insertError } = await adminClient
+    .from('idempotency_keys')
+    .insert({ user_id: userId, scope, idempotency_key: key, status: 'processing' })
+
+  if (!insertError) {
+    return { state: 'new', error: null }
+  }
+
+  if (insertError.code !== UNIQUE_VIOLATION) {
+    return { state: 'new', error: insertError }
+  }
+
+  const { data: existing, error: fetchError } = await adminClient
+    .from('idempotency_keys')
+    .select('id, status, response_status, response_body, created_at')
+    .eq('user_id', userId)
+    .eq('scope', scope)
+    .eq('idempotency_key', key)
+    .maybeSingle()
+
+  if (fetchError) {
+    return { state: 'new', error: fetchError }
+  }
+
+  if (!existing) {
+    // Released between our insert and select - try once more
+    const { error: retryError } = await adminClient
+      .from('idempotency_keys')
+      .insert({ user_id: userId, scope, idempotency_key: key, status: 'processing' })
+    return retryError?.code === UNIQUE_VIOLATION
+      ? { state: 'in_progress', error: null }
+      : { state: 'new', error: retryError || null }
+  }
+
+  if (existing.status === 'completed') {
+    return {
+      state: 'replay',
+      response: { status: existing.response_status || 200, body: existing.response_body },
+      error: null,
+    }
+  }
+
+  // Take over a claim whose request never finished
+  if (Date.now() - new Date(existing.created_at).getTime() > STALE_CLAIM_MS) {
+    const { data: takenOver } = await adminClient
+      .from('idempotency_keys')
+      .update({ created_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .eq('status', 'processing')
+      .eq('created_at', existing.created_at)
+      .select('id')
+      .maybeSingle()
+
+    if (takenOver) {
+      return { state: 'new', error: null }
+    }
+  }
+
+  return { state: 'in_progress', error: null }
+}
+
+/**
+ * Store the response for a claimed key so retries replay it
+ */
+export async function completeIdempotentRequest(
+  userId: string,
+  scope: string,
+  key: string,
+  response: StoredResponse
+): Promise<void> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: response.status,
+      response_body: response.body,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('scope', scope)
+    .eq('idempotency_key', key)
+
+  if (error) {
+    console.error('[completeIdempotentRequest] Error storing response:', error)
+  }
+}
+
+/**
+ * Free a claimed key after a failed request so the client can retry it
+ */
+export async function releaseIdempotentRequest(userId: string, scope: string, key: string): Promise<void> {
+  const adminClient = getAdminClient()
+  const { error } = await adminClient
+    .from('idempotency_keys')
+    .delete()
+    .eq('user_id', userId)
+    .eq('scope', scope)
+    .eq('idempotency_key', key)
+    .eq('status', 'processing')
+
+  if (error) {
+    console.error('[releaseIdempotentRequest] Error releasing key:', error)
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Missed Check-in Detection
+ * Background job: once a worker's check-in window has closed, find scheduled, non-exempt workers
+ * with no daily_checkins row, record a missed_checkins entry and notify the worker + team leader.
+ * Site public holidays (site_holidays) need no check-in and are skipped.
+ *
+ * Runs every few minutes and looks back one day (catches windows that span midnight and any
+ * runs missed while the server was down). missed_checkins is unique per worker per day, so
+ * repeated runs - or several backend instances - never notify twice. Dates and windows are the
+ * team's local time (teams.timezone), so each site is checked against its own clock.
+ *
+ * Environment:
+ *   MISSED_CHECKIN_DETECTION_ENABLED   set to 'false' to disable the background job
+ *   MISSED_CHECKIN_GRACE_MINUTES       minutes after the window closes before a check-in counts as missed (default: 0)
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { createNotifications } from './notificationHub.js'
+import { parseDateString } from './dateTime.js'
+import { getScheduleForDate, formatDateForDisplay } from './scheduleUtils.js'
+import { isExceptionActive } from './exceptionUtils.js'
+import { getHolidaysByTeam } from './siteHolidays.js'
+import { getScheduleCheckInWindow, getScheduleCheckInWindowRange, minutesToTimeOfDay } from './checkInWindow.js'
+import { addDaysToDateString, getTeamTimeZones, getDefaultTimeZone, getTodayInTimeZone, zonedTimeToDate } from './timezone.js'
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+const LOOKBACK_DAYS = 1
+
+interface MissedCandidate {
+  userId: string
+  teamId: string
+  scheduleId: string
+  date: string
+  windowStart: string
+  windowEnd: string
+  // Calendar dates the window opens and closes on (differ from date for windows around midnight)
+  windowDates: string[]
+}
+
+function getGraceMinutes(): number {
+  const minutes = Number(process.env.MISSED_CHECKIN_GRACE_MINUTES)
+  return minutes > 0 ? minutes : 0
+}
+
+/**
+ * Get the moment a check-in window closes (grace period included)
+ * @param dateStr - Shift date
+ * @param windowEnd - Window end as minutes from midnight of the shift date (see getCheckInWindowRange)
+ * @param timeZone - Team's timezone
+ */
+function getWindowDeadline(dateStr: string, windowEnd: number, timeZone: string): Date {
+  const { time, dayOffset } = minutesToTimeOfDay(windowEnd)
+  const deadline = zonedTimeToDate(addDaysToDateString(dateStr, dayOffset), time, timeZone)
+  return new Date(deadline.getTime() + getGraceMinutes() * 60 * 1000)
+}
+
+function formatWindowTime(time: string): string {
+  return time.slice(0, 5)
+}
+
+/**
+ * Find workers whose check-in window has closed without a check-in
+ * @param now - Current time
+ * @returns Candidates not yet recorded as missed
+ */
+async function findMissedCheckIns(now: Date): Promise<MissedCandidate[]> {
+  const adminClient = getAdminClient()
+
+  const { data: schedules, error: schedulesError } = await adminClient
+    .from('worker_schedules')
+    .select('*')
+    .eq('is_active', true)
+
+  if (schedulesError) {
+    throw new Error(`Failed to fetch schedules: ${schedulesError.message}`)
+  }
+
+  const schedulesByWorker = new Map<string, any[]>()
+  for (const schedule of schedules || []) {
+    if (!schedulesByWorker.has(schedule.worker_id)) {
+      schedulesByWorker.set(schedule.worker_id, [])
+    }
+    schedulesByWorker.get(schedule.worker_id)!.push(schedule)
+  }
+
+  const timeZones = await getTeamTimeZones((schedules || []).map((schedule: any) => schedule.team_id))
+
+  // Scheduled workers whose window has closed - yesterday, today and tomorrow at the worker's site
+  // (tomorrow's window can close tonight for an early shift)
+  const candidates: MissedCandidate[] = []
+  schedulesByWorker.forEach((workerSchedules, userId) => {
+    const timeZone = timeZones.get(workerSchedules[0].team_id) || getDefaultTimeZone()
+    const today = getTodayInTimeZone(timeZone, now)
+
+    for (let offset = -LOOKBACK_DAYS; offset <= 1; offset++) {
+      const date = addDaysToDateString(today, offset)
+      const schedule = getScheduleForDate(workerSchedules, date)
+      if (!schedule) continue
+
+      const range = getScheduleCheckInWindowRange(schedule)
+      if (getWindowDeadline(date, range.windowEnd, timeZone) > now) continue
+
+      const window = getScheduleCheckInWindow(schedule)
+      candidates.push({
+        userId,
+        teamId: schedule.team_id,
+        scheduleId: schedule.id,
+        date,
+        windowStart: window.windowStart,
+        windowEnd: window.windowEnd,
+        windowDates: [
+          addDaysToDateString(date, minutesToTimeOfDay(range.windowStart).dayOffset),
+          addDaysToDateString(date, minutesToTimeOfDay(range.windowEnd).dayOffset),
+        ],
+      })
+    }
+  })
+
+  if (candidates.length === 0) return []
+
+  const userIds = [...new Set(candidates.map(candidate => candidate.userId))]
+  const candidateDates = candidates.map(candidate => candidate.date).sort()
+  const firstDate = addDaysToDateString(candidateDates[0], -1)
+  const lastDate = addDaysToDateString(candidateDates[candidateDates.length - 1], 1)
+
+  const [
+    { data: memberships, error: membershipsError },
+    { data: checkIns, error: checkInsError },
+    { data: exceptions, error: exceptionsError },
+    { data: alreadyMissed, error: missedError },
+  ] = await Promise.all([
+    adminClient.from('team_members').select('user_id, team_id').in('user_id', userIds),
+    adminClient
+      .from('daily_checkins')
+      .select('user_id, check_in_date')
+      .in('user_id', userIds)
+      .gte('check_in_date', firstDate)
+      .lte('check_in_date', lastDate),
+    adminClient
+      .from('worker_exceptions')
+      .select('user_id, start_date, end_date, is_active, deactivated_at')
+      .in('user_id', userIds),
+    adminClient
+      .from('missed_checkins')
+      .select('user_id, missed_date')
+      .in('user_id', userIds)
+      .gte('missed_date', candidateDates[0]),
+  ])
+
+  if (membershipsError || checkInsError || exceptionsError || missedError) {
+    throw new Error(`Failed to fetch worker data: ${(membershipsError || checkInsError || exceptionsError || missedError)!.message}`)
+  }
+
+  const teamByUser = new Map((memberships || []).map((m: any) => [m.user_id, m.team_id]))
+  const checkInKeys = new Set((checkIns || []).map((c: any) => `${c.user_id}|${c.check_in_date}`))
+  const missedKeys = new Set((alreadyMissed || []).map((m: any) => `${m.user_id}|${m.missed_date}`))
+  const holidaysByTeam = await getHolidaysByTeam([...teamByUser.values()], candidateDates[0], candidateDates[candidateDates.length - 1])
+
+  return candidates.filter(candidate => {
+    // Worker has left the team - nothing to chase
+    if (!teamByUser.has(candidate.userId)) return false
+    if (missedKeys.has(`${candidate.userId}|${candidate.date}`)) return false
+
+    // No check-in is required on the site's public holidays
+    if (holidaysByTeam.get(teamByUser.get(candidate.userId))?.has(candidate.date)) return false
+
+    // Check-ins used to be recorded on the calendar date they were made, so one made in the
+    // part of the window before or after midnight also counts
+    if (checkInKeys.has(`${candidate.userId}|${candidate.date}`)) return false
+    if (candidate.windowDates.some(date => checkInKeys.has(`${candidate.userId}|${date}`))) return false
+
+    // Exempt workers (leave, transfer, etc.) aren't expected to check in
+    const checkDate = parseDateString(candidate.date)
+    const workerExceptions = (exceptions || []).filter((e: any) => e.user_id === candidate.userId)
+    return !workerExceptions.some((exception: any) => isExceptionActive(exception, checkDate))
+  }).map(candidate => ({
+    ...candidate,
+    // Record against the worker's current team (schedules can outlive a transfer)
+    teamId: teamByUser.get(candidate.userId) || candidate.teamId,
+  }))
+}
+
+/**
+ * Notify workers and their team leaders about newly recorded missed check-ins
+ * Team leaders get one notification per date listing every worker who missed
+ */
+async function notifyMissedCheckIns(missed: any[]): Promise<void> {
+  const adminClient = getAdminClient()
+  const userIds = [...new Set(missed.map(m => m.user_id))]
+  const teamIds = [...new Set(missed.map(m => m.team_id).filter(Boolean))]
+
+  const [{ data: users }, { data: teams }] = await Promise.all([
+    adminClient.from('users').select('id, email, first_name, last_name, full_name').in('id', userIds),
+    teamIds.length > 0
+      ? adminClient.from('teams').select('id, name, team_leader_id').in('id', teamIds)
+      : Promise.resolve({ data: [] as any[] }),
+  ])
+
+  const userMap = new Map((users || []).map((u: any) => [u.id, u]))
+  const teamMap = new Map((teams || []).map((t: any) => [t.id, t]))
+  const getName = (userId: string) => {
+    const u = userMap.get(userId)
+    return u?.full_name || (u?.first_name && u?.last_name ? `${u.first_name} ${u.last_name}` : u?.email || 'Unknown Worker')
+  }
+
+  const notifications: Record<string, any>[] = []
+  const byLeaderAndDate = new Map<string, any[]>()
+
+  for (const entry of missed) {
+    const windowEnd = formatWindowTime(entry.check_in_window_end)
+    const team = teamMap.get(entry.team_id)
+
+    notifications.push({
+      user_id: entry.user_id,
+      type: 'check_in_missed',
+      title: '⏰ Missed Check-In',
+      message: `You did not complete your check-in for ${formatDateForDisplay(entry.missed_date)} before the window closed at ${windowEnd}. Please check in as soon as you can, or contact your team leader if you are unable to work.`,
+      data: {
+        missed_checkin_id: entry.id,
+        missed_date: entry.missed_date,
+        check_in_window_end: windowEnd,
+        team_id: entry.team_id,
+        team_name: team?.name || '',
+      },
+      is_read: false,
+    })
+
+    if (team?.team_leader_id) {
+      const key = `${team.team_leader_id}|${entry.missed_date}`
+      if (!byLeaderAndDate.has(key)) {
+        byLeaderAndDate.set(key, [])
+      }
+      byLeaderAndDate.get(key)!.push(entry)
+    }
+  }
+
+  byLeaderAndDate.forEach((entries, key) => {
+    const [teamLeaderId, missedDate] = key.split('|')
+    const team = teamMap.get(entries[0].team_id)
+    const workers = entries.map(entry => ({
+      worker_id: entry.user_id,
+      worker_name: getName(entry.user_id),
+      check_in_window_end: formatWindowTime(entry.check_in_window_end),
+    }))
+
+    notifications.push({
+      user_id: teamLeaderId,
+      type: 'check_in_missed',
+      title: entries.length === 1 ? '⏰ Missed Check-In' : `⏰ ${entries.length} Missed Check-Ins`,
+      message: entries.length === 1
+        ? `${workers[0].worker_name} did not complete their check-in for ${formatDateForDisplay(missedDate)} (window closed at ${workers[0].check_in_window_end}).`
+        : `${entries.length} workers did not complete their check-in for ${formatDateForDisplay(missedDate)}: ${workers.map(w => w.worker_name).join(', ')}.`,
+      data: {
+        missed_date: missedDate,
+        team_id: entries[0].team_id,
+        team_name: team?.name || '',
+        worker_id: entries.length === 1 ? workers[0].worker_id : undefined,
+        worker_name: entries.length === 1 ? workers[0].worker_name : undefined,
+        workers,
+      },
+      is_read: false,
+    })
+  })
+
+  const { error } = await createNotifications(notifications)
+  if (error) {
+    console.error('[missedCheckIns] Error creating notifications:', error)
+  }
+}
+
+/**
+ * Detect and record missed check-ins, then notify workers and team leaders
+ * @param now - Current time (default: now)
+ * @returns Number of newly recorded missed check-ins
+ */
+export async function detectMissedCheckIns(now: Date = new Date()): Promise<number> {
+  const candidates = await findMissedCheckIns(now)
+  if (candidates.length === 0) return 0
+
+  const adminClient = getAdminClient()
+
+  // ignoreDuplicates: only rows this run actually inserted are returned, so another
+  // instance processing the same candidates won't send the notifications again
+  const { data: inserted, error } = await adminClient
+    .from('missed_checkins')
+    .upsert(candidates.map(candidate => ({
+      user_id: candidate.userId,
+      team_id: candidate.teamId || null,
+      schedule_id: candidate.scheduleId,
+      missed_date: candidate.date,
+      check_in_window_start: candidate.windowStart,
+      check_in_window_end: candidate.windowEnd,
+    })), { onConflict: 'user_id,missed_date', ignoreDuplicates: true })
+    .select('*')
+
+  if (error) {
+    throw new Error(`Failed to record missed check-ins: ${error.message}`)
+  }
+
+  if (!inserted || inserted.length === 0) return 0
+
+  try {
+    await notifyMissedCheckIns(inserted)
+  } catch (notifyError) {
+    // Entries are recorded - don't retry the whole run just because notifications failed
+    console.error('[missedCheckIns] Error notifying missed check-ins:', notifyError)
+  }
+
+  console.log(`[missedCheckIns] Recorded ${inserted.length} missed check-in(s)`)
+  return inserted.length
+}
+
+/**
+ * Link a late check-in to the missed entry for that date (if one was recorded)
+ * Never throws - called from check-in submission
+ * @param userId - Worker ID
+ * @param checkInDate - Check-in date (YYYY-MM-DD)
+ * @param checkInId - daily_checkins row ID
+ */
+export async function markMissedCheckInLate(userId: string, checkInDate: string, checkInId: string): Promise<void> {
+  try {
+    const adminClient = getAdminClient()
+    const { error } = await adminClient
+      .from('missed_checkins')
+      .update({ late_check_in_id: checkInId, late_checked_in_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('missed_date', checkInDate)
+      .is('late_check_in_id', null)
+
+    if (error) {
+      console.error('[missedCheckIns] Error linking late check-in:', error)
+    }
+  } catch (error) {
+    console.error('[missedCheckIns] Error linking late check-in:', error)
+  }
+}
+
+/**
+ * Remove a missed entry for a check-in that was captured inside the window but synced
+ * after it closed (offline check-in) - the worker did check in on time.
+ */
+export async function clearMissedCheckIn(userId: string, checkInDate: string): Promise<void> {
+  try {
+    const adminClient = getAdminClient()
+    const { error } = await adminClient
+      .from('missed_checkins')
+      .delete()
+      .eq('user_id', userId)
+      .eq('missed_date', checkInDate)
+
+    if (error) {
+      console.error('[missedCheckIns] Error clearing missed check-in:', error)
+    }
+  } catch (error) {
+    console.error('[missedCheckIns] Error clearing missed check-in:', error)
+  }
+}
+
+let detectionTimer: NodeJS.Timeout | null = null
+let isProcessing = false
+
+/**
+ * Start the background detection job (called once from index.ts)
+ */
+export function startMissedCheckInWorker(): void {
+  if (detectionTimer || process.env.MISSED_CHECKIN_DETECTION_ENABLED === 'false') return
+
+  detectionTimer = setInterval(async () => {
+    // Skip tick if the previous run is still going
+    if (isProcessing) return
+    isProcessing = true
+    try {
+      await detectMissedCheckIns()
+    } catch (error) {
+      console.error('[missedCheckIns] Worker error:', error)
+    } finally {
+      isProcessing = false
+    }
+  }, CHECK_INTERVAL_MS)
+  console.log('[missedCheckIns] Missed check-in detection started')
+}
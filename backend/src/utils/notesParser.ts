@@ -1,186 +0,0 @@
-/**
- * Centralized utility for parsing incident/case notes
- * SECURITY: Validates and sanitizes parsed data to prevent injection attacks
- * OPTIMIZATION: Eliminates code duplication across routes
- */
-
-export interface ParsedNotes {
-  case_status?: string | null
-  approved_by?: string | null
-  approved_at?: string | null
-  whs_approved_by?: string | null
-  whs_approved_at?: string | null
-  return_to_work_duty_type?: string | null
-  return_to_work_date?: string | null
-  clinical_notes?: string | null
-  clinical_notes_updated_at?: string | null
-  [key: string]: any // Allow other fields but validate known ones
-}
-
-const VALID_DUTY_TYPES = ['modified', 'full'] as const
-
-/**
- * Validates and normalizes duty type
- * SECURITY: Whitelist approach to prevent injection
- */
-function validateDutyType(dutyType: any): string | null {
-  if (!dutyType || typeof dutyType !== 'string') return null
-  
-  const normalized = dutyType.trim().toLowerCase()
-  return VALID_DUTY_TYPES.includes(normalized as typeof VALID_DUTY_TYPES[number]) 
-    ? normalized 
-    : null
-}
-
-/**
- * Validates email format
- * SECURITY: Basic email validation to prevent malicious strings
- */
-function validateEmail(email: any): string | null {
-  if (!email || typeof email !== 'string') return null
-  
-  const trimmed = email.trim()
-  // Basic email validation
-  if (trimmed.length > 255 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
-    return null
-  }
-  
-  return trimmed
-}
-
-/**
- * Validates date string format (YYYY-MM-DD or ISO 8601)
- * SECURITY: Validates date format to prevent injection
- */
-function validateDateString(dateStr: any): string | null {
-  if (!dateStr || typeof dateStr !== 'string') return null
-  
-  const trimmed = dateStr.trim()
-  // Validate YYYY-MM-DD format or ISO 8601
-  if (!/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?)?$/.test(trimmed)) {
-    return null
-  }
-  
-  // Validate it's a real date
-  const date = new Date(trimmed)
-  if (isNaN(date.getTime())) {
-    return null
-  }
-  
-  return trimmed
-}
-
-/**
- * Validates and sanitizes clinical notes text
- * SECURITY: Limits length and sanitizes to prevent XSS
- */
-function validateClinicalNotes(notes: any): string | null {
-  if (!notes || typeof notes !== 'string') return null
-  
-  const trimmed = notes.trim()
-  // SECURITY: Limit length to prevent DoS
-  if (trimmed.length > 10000) {
-    return null
-  }
-  
-  // SECURITY: Basic sanitization (remove script tags, etc.)
-  // Note: Full sanitization should be done on display with escapeHtml
-  return trimmed
-}
-
-/**
- * Safely parses incident notes JSON
- * SECURITY: Validates all parsed values to prevent injection attacks
- * OPTIMIZATION: Centralized parsing logic to eliminate duplication
- * 
- * @param notes - JSON string or null
- * @returns Parsed and validated notes object or null if invalid
- */
-export function parseIncidentNotes(notes: string | null): ParsedNotes | null {
-  if (!notes || typeof notes !== 'string') {
-    return null
-  }
-
-  try {
-    const parsed = JSON.parse(notes)
-    
-    // SECURITY: Ensure parsed value is an object
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      return null
-    }
-
-    // SECURITY: Validate and sanitize known fields
-    const result: ParsedNotes = {}
-    
-    if (parsed.case_status && typeof parsed.case_status === 'string') {
-      result.case_status = parsed.case_status.trim()
-    }
-    
-    if (parsed.approved_by) {
-      result.approved_by = validateEmail(parsed.approved_by)
-    }
-    
-    if (parsed.approved_at) {
-      result.approved_at = validateDateString(parsed.approved_at)
-    }
-    
-    if (parsed.whs_approved_by) {
-      result.whs_approved_by = validateEmail(parsed.whs_approved_by)
-    }
-    
-    if (parsed.whs_approved_at) {
-      result.whs_approved_at = validateDateString(parsed.whs_approved_at)
-    }
-    
-    if (parsed.return_to_work_duty_type) {
-      result.return_to_work_duty_type = validateDutyType(parsed.return_to_work_duty_type)
-    }
-    
-    if (parsed.return_to_work_date) {
-      result.return_to_work_date = validateDateString(parsed.return_to_work_date)
-    }
-    
-    if (parsed.clinical_notes) {
-      result.clinical_notes = validateClinicalNotes(parsed.clinical_notes)
-    }
-    
-    if (parsed.clinical_notes_updated_at) {
-      result.clinical_notes_updated_at = validateDateString(parsed.clinical_notes_updated_at)
-    }
-
-    return result
-  } catch (error) {
-    // SECURITY: Silently fail on parse errors to prevent information leakage
-    return null
-  }
-}
-
-/**
- * Extracts return to work data from notes and database fields
- * OPTIMIZATION: Centralized extraction with fallback logic
- * 
- * @param notes - JSON string from notes field
- * @param dbDutyType - Duty type from database column
- * @param dbReturnDate - Return date from database column
- * @returns Object with validated duty type and return date
- */
-export function extractReturnToWorkData(
-  notes: string | null,
-  dbDutyType: string | null | undefined,
-  dbReturnDate: string | null | undefined
-): {
-  dutyType: string | null
-  returnDate: string | null
-} {
-  const parsedNotes = parseIncidentNotes(notes)
-  
-  // Priority: notes > database fields
-  const dutyType = parsedNotes?.return_to_work_duty_type || 
-                   (dbDutyType ? validateDutyType(dbDutyType) : null)
-  
-  const returnDate = parsedNotes?.return_to_work_date || 
-                     (dbReturnDate ? validateDateString(dbReturnDate) : null)
-
-  return { dutyType, returnDate }
-}
-
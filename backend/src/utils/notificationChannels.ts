@@ -0,0 +1,364 @@
+/**
+ * Outbound Notification Channels
+ * Delivers urgent in-app notifications over email / SMS so they reach people who aren't logged in.
+ *
+ * Transports are pluggable per channel and selected by environment:
+ *   NOTIFICATION_EMAIL_TRANSPORT = smtp | console | file   (default: console)
+ *   NOTIFICATION_SMS_TRANSPORT   = gateway | console | file (default: console)
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+ *   SMS_GATEWAY_URL, SMS_GATEWAY_API_KEY, SMS_SENDER_ID
+ *   NOTIFICATION_SINK_FILE (file transport, default: ./logs/outbound-notifications.log)
+ *
+ * Tests/dev can swap a transport at runtime with registerTransport().
+ */
+
+import { appendFile, mkdir } from 'fs/promises'
+import { dirname } from 'path'
+import nodemailer from 'nodemailer'
+import { getAdminClient } from './adminClient.js'
+
+export type NotificationChannel = 'email' | 'sms'
+
+export interface OutboundMessage {
+  channel: NotificationChannel
+  to: string
+  subject: string
+  body: string
+  userId: string
+  notificationId: string
+}
+
+export interface ChannelTransport {
+  name: string
+  send(message: OutboundMessage): Promise<void>
+}
+
+export interface ChannelPreferences {
+  user_id: string
+  email_enabled: boolean
+  sms_enabled: boolean
+  phone_number: string | null
+}
+
+// Notification types that are pushed to outbound channels (everything else stays in-app only)
+export const OUTBOUND_NOTIFICATION_TYPES = ['worker_not_fit_to_work', 'worker_not_fit_escalated']
+
+/**
+ * Whether a notification type is pushed to outbound channels
+ * Appointment reminders are opt-in per deployment (APPOINTMENT_REMINDER_EMAIL=true)
+ */
+function isOutboundType(type: string): boolean {
+  if (type === 'appointment_reminder') {
+    return process.env.APPOINTMENT_REMINDER_EMAIL === 'true'
+  }
+  return OUTBOUND_NOTIFICATION_TYPES.includes(type)
+}
+
+// Defaults when a user has no preferences row: email on, SMS off (needs a phone number)
+const DEFAULT_PREFERENCES: Omit<ChannelPreferences, 'user_id'> = {
+  email_enabled: true,
+  sms_enabled: false,
+  phone_number: null,
+}
+
+const SMS_MAX_LENGTH = 320
+
+// ============================================
+// Transports
+// ============================================
+
+/**
+ * Console transport - logs messages (default for dev)
+ */
+export function createConsoleTransport(): ChannelTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[notificationChannels] (${message.channel}) to=${message.to} subject="${message.subject}"\n${message.body}`)
+    },
+  }
+}
+
+/**
+ * File transport - appends one JSON line per message (dev/tests)
+ */
+export function createFileTransport(filePath: string = process.env.NOTIFICATION_SINK_FILE || './logs/outbound-notifications.log'): ChannelTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dirname(filePath), { recursive: true })
+      await appendFile(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n', 'utf8')
+    },
+  }
+}
+
+/**
+ * SMTP transport (email)
+ */
+export function createSmtpTransport(): ChannelTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST must be set when NOTIFICATION_EMAIL_TRANSPORT=smtp')
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  })
+  const from = process.env.SMTP_FROM || process.env.SMTP_USER
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.body,
+      })
+    },
+  }
+}
+
+/**
+ * SMS gateway transport - POSTs JSON { to, from, message } to SMS_GATEWAY_URL with a bearer API key
+ */
+export function createSmsGatewayTransport(): ChannelTransport {
+  const url = process.env.SMS_GATEWAY_URL
+  if (!url) {
+    throw new Error('SMS_GATEWAY_URL must be set when NOTIFICATION_SMS_TRANSPORT=gateway')
+  }
+
+  return {
+    name: 'sms_gateway',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.SMS_GATEWAY_API_KEY ? { Authorization: `Bearer ${process.env.SMS_GATEWAY_API_KEY}` } : {}),
+        },
+        body: JSON.stringify({
+          to: message.to,
+          from: process.env.SMS_SENDER_ID || undefined,
+          message: message.body.slice(0, SMS_MAX_LENGTH),
+        }),
+      })
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '')
+        throw new Error(`SMS gateway responded ${response.status}: ${text.slice(0, 200)}`)
+      }
+    },
+  }
+}
+
+const transports = new Map<NotificationChannel, ChannelTransport>()
+
+/**
+ * Override the transport for a channel (tests, custom providers)
+ */
+export function registerTransport(channel: NotificationChannel, transport: ChannelTransport): void {
+  transports.set(channel, transport)
+}
+
+/**
+ * Get transport for a channel, creating it from environment on first use
+ */
+function getTransport(channel: NotificationChannel): ChannelTransport {
+  const existing = transports.get(channel)
+  if (existing) return existing
+
+  const configured = channel === 'email'
+    ? (process.env.NOTIFICATION_EMAIL_TRANSPORT || 'console')
+    : (process.env.NOTIFICATION_SMS_TRANSPORT || 'console')
+
+  let transport: ChannelTransport
+  if (configured === 'file') {
+    transport = createFileTransport()
+  } else if (configured === 'smtp' && channel === 'email') {
+    transport = createSmtpTransport()
+  } else if (configured === 'gateway' && channel === 'sms') {
+    transport = createSmsGatewayTransport()
+  } else {
+    if (configured !== 'console') {
+      console.warn(`[notificationChannels] Unknown ${channel} transport "${configured}" - using console`)
+    }
+    transport = createConsoleTransport()
+  }
+
+  transports.set(channel, transport)
+  return transport
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+/**
+ * Get channel preferences for users (defaults for users without a row)
+ * @param userIds - User IDs
+ * @returns Map of userId -> preferences
+ */
+export async function getChannelPreferences(userIds: string[]): Promise<Map<string, ChannelPreferences>> {
+  const preferences = new Map<string, ChannelPreferences>()
+  userIds.forEach(userId => preferences.set(userId, { user_id: userId, ...DEFAULT_PREFERENCES }))
+
+  if (userIds.length === 0) return preferences
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('notification_channel_preferences')
+    .select('user_id, email_enabled, sms_enabled, phone_number')
+    .in('user_id', userIds)
+
+  if (error) {
+    console.error('[notificationChannels] Error fetching preferences:', error)
+    return preferences
+  }
+
+  for (const row of data || []) {
+    preferences.set(row.user_id, row)
+  }
+  return preferences
+}
+
+/**
+ * Validate a preferences update payload (camelCase, as sent by the API)
+ * @returns { valid: boolean; value?: Record<string, any>; error?: string } - value is a DB row (snake_case)
+ */
+export function validateChannelPreferencesInput(input: any): { valid: boolean; value?: Record<string, any>; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Invalid preferences payload' }
+  }
+
+  const value: Record<string, any> = {}
+
+  if (input.emailEnabled !== undefined) {
+    if (typeof input.emailEnabled !== 'boolean') {
+      return { valid: false, error: 'emailEnabled must be true or false' }
+    }
+    value.email_enabled = input.emailEnabled
+  }
+
+  if (input.smsEnabled !== undefined) {
+    if (typeof input.smsEnabled !== 'boolean') {
+      return { valid: false, error: 'smsEnabled must be true or false' }
+    }
+    value.sms_enabled = input.smsEnabled
+  }
+
+  if (input.phoneNumber !== undefined) {
+    if (input.phoneNumber === null || input.phoneNumber === '') {
+      value.phone_number = null
+    } else {
+      const phone = String(input.phoneNumber).replace(/[\s()-]/g, '')
+      // E.164: + followed by 8-15 digits
+      if (!/^\+[1-9]\d{7,14}$/.test(phone)) {
+        return { valid: false, error: 'Phone number must be in international format, e.g. +61412345678' }
+      }
+      value.phone_number = phone
+    }
+  }
+
+  return { valid: true, value }
+}
+
+// ============================================
+// Dispatch
+// ============================================
+
+/**
+ * Record a delivery attempt (audit trail - failures here are only logged)
+ */
+async function recordDelivery(message: OutboundMessage, transportName: string, status: 'sent' | 'failed', errorMessage?: string) {
+  try {
+    const adminClient = getAdminClient()
+    const { error } = await adminClient
+      .from('notification_deliveries')
+      .insert([{
+        notification_id: message.notificationId,
+        user_id: message.userId,
+        channel: message.channel,
+        destination: message.to,
+        transport: transportName,
+        status,
+        error: errorMessage || null,
+      }])
+
+    if (error) {
+      console.error('[notificationChannels] Error recording delivery:', error)
+    }
+  } catch (error) {
+    console.error('[notificationChannels] Error recording delivery:', error)
+  }
+}
+
+/**
+ * Send one message through its channel transport
+ */
+async function sendMessage(message: OutboundMessage): Promise<void> {
+  let transport: ChannelTransport
+  try {
+    transport = getTransport(message.channel)
+  } catch (error: any) {
+    console.error(`[notificationChannels] ${message.channel} transport misconfigured:`, error.message)
+    await recordDelivery(message, 'unconfigured', 'failed', error.message)
+    return
+  }
+
+  try {
+    await transport.send(message)
+    await recordDelivery(message, transport.name, 'sent')
+  } catch (error: any) {
+    console.error(`[notificationChannels] Failed to send ${message.channel} to ${message.to}:`, error.message)
+    await recordDelivery(message, transport.name, 'failed', error.message)
+  }
+}
+
+/**
+ * Push notifications to their recipients' enabled outbound channels
+ * Only OUTBOUND_NOTIFICATION_TYPES (and opted-in appointment reminders) are sent; everything else is in-app only.
+ * Never throws - delivery problems must not affect the request that created the notification.
+ * @param notifications - Inserted notification rows (with id)
+ */
+export async function dispatchToChannels(notifications: any[]): Promise<void> {
+  try {
+    const outbound = notifications.filter(n => isOutboundType(n.type))
+    if (outbound.length === 0) return
+
+    const userIds = [...new Set(outbound.map(n => n.user_id))]
+    const adminClient = getAdminClient()
+
+    const [preferences, { data: users }] = await Promise.all([
+      getChannelPreferences(userIds),
+      adminClient.from('users').select('id, email').in('id', userIds),
+    ])
+
+    const emailByUser = new Map<string, string>((users || []).map((u: any) => [u.id, u.email]))
+    const messages: OutboundMessage[] = []
+
+    outbound.forEach(notification => {
+      const prefs = preferences.get(notification.user_id)
+      const email = emailByUser.get(notification.user_id)
+      const base = {
+        subject: notification.title,
+        body: notification.message,
+        userId: notification.user_id,
+        notificationId: notification.id,
+      }
+
+      if (prefs?.email_enabled && email) {
+        messages.push({ ...base, channel: 'email', to: email })
+      }
+      if (prefs?.sms_enabled && prefs.phone_number) {
+        messages.push({ ...base, channel: 'sms', to: prefs.phone_number, body: `${notification.title}: ${notification.message}` })
+      }
+    })
+
+    await Promise.all(messages.map(sendMessage))
+  } catch (error) {
+    console.error('[notificationChannels] Error dispatching notifications:', error)
+  }
+}
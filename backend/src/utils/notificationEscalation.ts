@@ -0,0 +1,256 @@
+/**
+ * Notification Escalation
+ * If an urgent notification (e.g. a Red check-in) isn't read within N minutes, it is re-sent
+ * one level up: team leader -> supervisor -> WHS. Reading any notification in the chain
+ * acknowledges it and stops further escalation.
+ *
+ * Environment:
+ *   NOTIFICATION_ESCALATION_MINUTES   minutes to wait at each level (default: 15)
+ *   NOTIFICATION_ESCALATION_ENABLED   set to 'false' to disable the background timer
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { createNotifications } from './notificationHub.js'
+
+export const ESCALATION_LEVELS = ['team_leader', 'supervisor', 'whs'] as const
+const MAX_LEVEL = ESCALATION_LEVELS.length - 1
+const CHECK_INTERVAL_MS = 60 * 1000
+const BATCH_SIZE = 50
+
+/**
+ * Minutes to wait for acknowledgement at each level
+ */
+export function getEscalationDelayMinutes(): number {
+  const minutes = Number(process.env.NOTIFICATION_ESCALATION_MINUTES)
+  return minutes > 0 ? minutes : 15
+}
+
+function getNextEscalationTime(from: Date = new Date()): string {
+  return new Date(from.getTime() + getEscalationDelayMinutes() * 60 * 1000).toISOString()
+}
+
+/**
+ * Start an escalation chain for notifications that were just sent at level 0 (team leader)
+ * Never throws - escalation setup must not fail the request that created the notification
+ * @param params.sourceType - Notification type being escalated
+ * @param params.notificationIds - Notifications sent at level 0
+ * @param params.payload - Notification data to carry into escalated notifications
+ */
+export async function startEscalation(params: {
+  sourceType: string
+  teamId: string | null
+  workerId: string | null
+  checkInId?: string | null
+  notificationIds: string[]
+  payload: Record<string, any>
+}): Promise<void> {
+  try {
+    if (params.notificationIds.length === 0) return
+
+    const adminClient = getAdminClient()
+    const { error } = await adminClient
+      .from('notification_escalations')
+      .insert([{
+        source_type: params.sourceType,
+        team_id: params.teamId,
+        worker_id: params.workerId,
+        check_in_id: params.checkInId || null,
+        level: 0,
+        status: 'pending',
+        notification_ids: params.notificationIds,
+        payload: params.payload,
+        next_escalation_at: getNextEscalationTime(),
+      }])
+
+    if (error) {
+      console.error('[notificationEscalation] Error starting escalation:', error)
+    }
+  } catch (error) {
+    console.error('[notificationEscalation] Error starting escalation:', error)
+  }
+}
+
+/**
+ * Get recipients for an escalation level
+ * Level 1 = team supervisor, level 2 = WHS users of the team's organization
+ */
+async function getLevelRecipients(level: number, teamId: string | null): Promise<string[]> {
+  const adminClient = getAdminClient()
+
+  if (ESCALATION_LEVELS[level] === 'supervisor') {
+    if (!teamId) return []
+    const { data: team } = await adminClient
+      .from('teams')
+      .select('supervisor_id')
+      .eq('id', teamId)
+      .single()
+    return team?.supervisor_id ? [team.supervisor_id] : []
+  }
+
+  if (ESCALATION_LEVELS[level] === 'whs') {
+    // No team = no organization to scope to - never fall back to every tenant's WHS
+    if (!teamId) return []
+    const { data: team } = await adminClient
+      .from('teams')
+      .select('organization_id')
+      .eq('id', teamId)
+      .single()
+    if (!team?.organization_id) return []
+
+    const { data: whsUsers } = await adminClient
+      .from('users')
+      .select('id')
+      .eq('role', 'whs_control_center')
+      .eq('organization_id', team.organization_id)
+    return (whsUsers || []).map((u: any) => u.id)
+  }
+
+  return []
+}
+
+/**
+ * Process one due escalation: acknowledge it, escalate it, or mark it exhausted
+ */
+async function processEscalation(escalation: any): Promise<void> {
+  const adminClient = getAdminClient()
+
+  // Acknowledged = any notification in the chain has been read
+  const { data: readNotifications } = await adminClient
+    .from('notifications')
+    .select('user_id, read_at')
+    .in('id', escalation.notification_ids || [])
+    .eq('is_read', true)
+    .order('read_at', { ascending: true })
+    .limit(1)
+
+  if (readNotifications && readNotifications.length > 0) {
+    await adminClient
+      .from('notification_escalations')
+      .update({
+        status: 'acknowledged',
+        acknowledged_at: readNotifications[0].read_at,
+        acknowledged_by: readNotifications[0].user_id,
+        next_escalation_at: null,
+      })
+      .eq('id', escalation.id)
+      .eq('status', 'pending')
+    return
+  }
+
+  // Find next level with recipients (skip supervisor if team has none)
+  let nextLevel = escalation.level + 1
+  let recipients: string[] = []
+  while (nextLevel <= MAX_LEVEL) {
+    recipients = await getLevelRecipients(nextLevel, escalation.team_id)
+    if (recipients.length > 0) break
+    nextLevel++
+  }
+
+  if (nextLevel > MAX_LEVEL) {
+    await adminClient
+      .from('notification_escalations')
+      .update({ status: 'exhausted', next_escalation_at: null })
+      .eq('id', escalation.id)
+      .eq('status', 'pending')
+    console.warn(`[notificationEscalation] Escalation ${escalation.id} exhausted without acknowledgement`)
+    return
+  }
+
+  // Claim the escalation before sending so a second instance doesn't send it too
+  const { data: claimed } = await adminClient
+    .from('notification_escalations')
+    .update({ level: nextLevel, next_escalation_at: getNextEscalationTime() })
+    .eq('id', escalation.id)
+    .eq('status', 'pending')
+    .eq('level', escalation.level)
+    .select('id')
+
+  if (!claimed || claimed.length === 0) return
+
+  const payload = escalation.payload || {}
+  const workerName = payload.worker_name || 'A worker'
+  const teamName = payload.team_name ? ` (${payload.team_name})` : ''
+  const waitedMinutes = Math.round((Date.now() - new Date(escalation.created_at).getTime()) / 60000)
+
+  const { data: created, error } = await createNotifications(recipients.map(userId => ({
+    user_id: userId,
+    type: 'worker_not_fit_escalated',
+    title: '🚨 Escalation: Worker Not Fit to Work',
+    message: `${workerName}${teamName} submitted a Not Fit to Work check-in ${waitedMinutes} minute(s) ago and it has not been acknowledged by the ${ESCALATION_LEVELS[escalation.level].replace('_', ' ')}.`,
+    data: {
+      ...payload,
+      escalation_id: escalation.id,
+      escalation_level: ESCALATION_LEVELS[nextLevel],
+    },
+    is_read: false,
+  })))
+
+  if (error) {
+    console.error(`[notificationEscalation] Error creating escalation notifications for ${escalation.id}:`, error)
+    return
+  }
+
+  await adminClient
+    .from('notification_escalations')
+    .update({
+      notification_ids: [...(escalation.notification_ids || []), ...(created || []).map((n: any) => n.id)],
+    })
+    .eq('id', escalation.id)
+
+  console.log(`[notificationEscalation] Escalation ${escalation.id} escalated to ${ESCALATION_LEVELS[nextLevel]} (${recipients.length} recipient(s))`)
+}
+
+/**
+ * Process all escalations that are due
+ * @returns Number of escalations processed
+ */
+export async function processDueEscalations(): Promise<number> {
+  const adminClient = getAdminClient()
+  const { data: due, error } = await adminClient
+    .from('notification_escalations')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_escalation_at', new Date().toISOString())
+    .order('next_escalation_at', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (error) {
+    console.error('[notificationEscalation] Error fetching due escalations:', error)
+    return 0
+  }
+
+  for (const escalation of due || []) {
+    try {
+      await processEscalation(escalation)
+    } catch (error) {
+      console.error(`[notificationEscalation] Error processing escalation ${escalation.id}:`, error)
+    }
+  }
+
+  return (due || []).length
+}
+
+let escalationTimer: NodeJS.Timeout | null = null
+let isProcessing = false
+
+/**
+ * Start the background escalation timer (called once from index.ts)
+ */
+export function startEscalationWorker(): void {
+  if (escalationTimer || process.env.NOTIFICATION_ESCALATION_ENABLED === 'false') return
+
+  escalationTimer = setInterval(async () => {
+    // Skip tick if the previous run is still going
+    if (isProcessing) return
+    isProcessing = true
+    try {
+      await processDueEscalations()
+    } catch (error) {
+      console.error('[notificationEscalation] Worker error:', error)
+    } finally {
+      isProcessing = false
+    }
+  }, CHECK_INTERVAL_MS)
+
+  console.log(`[notificationEscalation] Escalation worker started (${getEscalationDelayMinutes()} minute(s) per level)`)
+}
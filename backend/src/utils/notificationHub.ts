@@ -0,0 +1,158 @@
+/**
+ * Notification Hub
+ * Single place to create notifications and fan them out to connected SSE clients
+ * (and, for urgent types, to email/SMS - see notificationChannels.ts).
+ * All routes should use createNotifications() instead of inserting into `notifications`
+ * directly, otherwise connected clients won't receive the notification until they reconnect.
+ *
+ * NOTE: Subscribers are held in memory per process. With multiple backend instances a client
+ * only receives live events from the instance it is connected to; anything missed is picked up
+ * through Last-Event-ID replay on reconnect (streams are closed periodically to force this).
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { dispatchToChannels } from './notificationChannels.js'
+
+export type NotificationEventType = 'notification' | 'read' | 'read_all'
+
+export interface NotificationEvent {
+  type: NotificationEventType
+  id?: string // SSE event id (only for 'notification' events - used for replay)
+  data: any
+}
+
+type NotificationListener = (event: NotificationEvent) => void
+
+const MAX_REPLAY_EVENTS = 100
+
+// userId -> connected listeners (one per open stream/tab)
+const subscribers = new Map<string, Set<NotificationListener>>()
+
+/**
+ * Build SSE event id for a notification row
+ * Format: <created_at ISO>|<notification id> - ordered by time, unique by id
+ */
+export function getNotificationEventId(notification: { id: string; created_at: string }): string {
+  return `${new Date(notification.created_at).toISOString()}|${notification.id}`
+}
+
+/**
+ * Parse Last-Event-ID header back into timestamp + notification id
+ * @returns null if the header is missing or malformed
+ */
+export function parseNotificationEventId(eventId: string | undefined | null): { createdAt: string; id: string } | null {
+  if (!eventId) return null
+  const [createdAt, id] = eventId.split('|')
+  if (!createdAt || !id || isNaN(new Date(createdAt).getTime())) return null
+  return { createdAt, id }
+}
+
+/**
+ * Subscribe to live notification events for a user
+ * @returns Unsubscribe function
+ */
+export function subscribeToNotifications(userId: string, listener: NotificationListener): () => void {
+  if (!subscribers.has(userId)) {
+    subscribers.set(userId, new Set())
+  }
+  subscribers.get(userId)!.add(listener)
+
+  return () => {
+    const listeners = subscribers.get(userId)
+    if (!listeners) return
+    listeners.delete(listener)
+    if (listeners.size === 0) {
+      subscribers.delete(userId)
+    }
+  }
+}
+
+/**
+ * Publish an event to every open stream of a user
+ */
+export function publishToUser(userId: string, event: NotificationEvent): void {
+  const listeners = subscribers.get(userId)
+  if (!listeners) return
+
+  listeners.forEach(listener => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('[notificationHub] Listener error:', error)
+    }
+  })
+}
+
+/**
+ * Get number of open streams (for health/debug logging)
+ */
+export function getOpenStreamCount(): number {
+  let count = 0
+  subscribers.forEach(listeners => { count += listeners.size })
+  return count
+}
+
+/**
+ * Insert notifications and push them to connected clients
+ * Same error shape as a Supabase insert so call sites stay unchanged
+ * @param notifications - Rows for the notifications table
+ * @returns { data: inserted rows; error }
+ */
+export async function createNotifications(
+  notifications: Record<string, any>[]
+): Promise<{ data: any[] | null; error: { message: string } | null }> {
+  if (notifications.length === 0) {
+    return { data: [], error: null }
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('notifications')
+    .insert(notifications)
+    .select('*')
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  for (const notification of data || []) {
+    publishToUser(notification.user_id, {
+      type: 'notification',
+      id: getNotificationEventId(notification),
+      data: notification,
+    })
+  }
+
+  // Email/SMS delivery runs in the background - callers shouldn't wait on SMTP or the SMS gateway
+  dispatchToChannels(data || [])
+
+  return { data: data || [], error: null }
+}
+
+/**
+ * Get notifications created after the given Last-Event-ID (oldest first)
+ * @param userId - Notification owner
+ * @param lastEventId - Raw Last-Event-ID header value
+ * @returns Notifications to replay (empty if no/invalid id)
+ */
+export async function getNotificationsSince(userId: string, lastEventId: string | undefined | null): Promise<any[]> {
+  const parsed = parseNotificationEventId(lastEventId)
+  if (!parsed) return []
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', parsed.createdAt)
+    .order('created_at', { ascending: true })
+    .limit(MAX_REPLAY_EVENTS)
+
+  if (error) {
+    console.error('[notificationHub] Error fetching replay notifications:', error)
+    return []
+  }
+
+  // gte includes the last delivered notification (and any with the same timestamp) - skip only that one
+  return (data || []).filter((notification: any) => notification.id !== parsed.id)
+}
@@ -0,0 +1,222 @@
+/**
+ * Organization Utilities
+ * Organizations are the tenant boundary: every user, team and case (worker_exceptions row)
+ * carries an organization_id (see migration_add_organizations.sql), and scope checks compare
+ * those IDs. users.business_name / business_registration_number are only a display copy of the
+ * organization's name and registration number - never match on them.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+const UNIQUE_VIOLATION = '23505'
+
+export interface Organization {
+  id: string
+  name: string
+  registration_number: string | null
+  created_at: string
+}
+
+const ORGANIZATION_FIELDS = 'id, name, registration_number, created_at'
+
+/**
+ * Normalize a registration number for matching ("12 345-678" and "12345-678" are the same company)
+ * Must match the registration_number_normalized column in migration_add_organizations.sql
+ */
+export function normalizeRegistrationNumber(registrationNumber: string): string {
+  return registrationNumber.replace(/\s/g, '').toUpperCase()
+}
+
+/**
+ * Get an organization by ID
+ */
+export async function getOrganization(
+  organizationId: string
+): Promise<{ data: Organization | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('organizations')
+    .select(ORGANIZATION_FIELDS)
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching organization:', error)
+    return { data: null, error: error.message }
+  }
+
+  return { data: data as Organization | null, error: null }
+}
+
+/**
+ * Get the organization a user belongs to
+ * @returns Organization ID, or null if the user isn't linked to one
+ */
+export async function getUserOrganizationId(userId: string): Promise<string | null> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('users')
+    .select('organization_id')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching user organization:', error)
+    return null
+  }
+
+  return data?.organization_id || null
+}
+
+/**
+ * Create a new organization for a self-registered supervisor
+ * Joining an existing organization is never self-service: if the registration number is taken,
+ * conflict is returned and an administrator has to add the user (see findOrCreateOrganization).
+ * @param name - Business name
+ * @param registrationNumber - Business registration number
+ * @returns conflict=true if an organization already has the registration number
+ */
+export async function createOrganization(
+  name: string,
+  registrationNumber: string
+): Promise<{ data: Organization | null; conflict: boolean; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('organizations')
+    .insert([{ name: name.trim(), registration_number: registrationNumber.trim() }])
+    .select(ORGANIZATION_FIELDS)
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return {
+        data: null,
+        conflict: true,
+        error: 'This business registration number belongs to an existing organization. Ask its administrator to add you.',
+      }
+    }
+    console.error('Error creating organization:', error)
+    return { data: null, conflict: false, error: error.message }
+  }
+
+  return { data: data as Organization, conflict: false, error: null }
+}
+
+/**
+ * Find the organization with this registration number, or create it
+ * Registration numbers are matched normalized, so a differently spelled business name still
+ * lands in the same organization. Admin routes only - self-registration uses createOrganization.
+ * @param name - Business name (used when creating)
+ * @param registrationNumber - Business registration number
+ */
+export async function findOrCreateOrganization(
+  name: string,
+  registrationNumber: string
+): Promise<{ data: Organization | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const normalized = normalizeRegistrationNumber(registrationNumber)
+
+  const findExisting = () => adminClient
+    .from('organizations')
+    .select(ORGANIZATION_FIELDS)
+    .eq('registration_number_normalized', normalized)
+    .maybeSingle()
+
+  const { data: existing, error: findError } = await findExisting()
+  if (findError) {
+    console.error('Error finding organization:', findError)
+    return { data: null, error: findError.message }
+  }
+  if (existing) {
+    return { data: existing as Organization, error: null }
+  }
+
+  const { data: created, error: createError } = await adminClient
+    .from('organizations')
+    .insert([{ name: name.trim(), registration_number: registrationNumber.trim() }])
+    .select(ORGANIZATION_FIELDS)
+    .single()
+
+  if (createError) {
+    // Created by a concurrent request - use that one
+    if (createError.code === UNIQUE_VIOLATION) {
+      const { data: raced } = await findExisting()
+      if (raced) return { data: raced as Organization, error: null }
+    }
+    console.error('Error creating organization:', createError)
+    return { data: null, error: createError.message }
+  }
+
+  return { data: created as Organization, error: null }
+}
+
+/**
+ * Rename an organization or change its registration number
+ * Also refreshes the display copy on its users, so every member sees the new details.
+ * @returns conflict=true if another organization already has the registration number
+ */
+export async function updateOrganization(
+  organizationId: string,
+  updates: { name: string; registration_number: string }
+): Promise<{ data: Organization | null; conflict: boolean; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('organizations')
+    .update({
+      name: updates.name.trim(),
+      registration_number: updates.registration_number.trim(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', organizationId)
+    .select(ORGANIZATION_FIELDS)
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return { data: null, conflict: true, error: 'Another organization already uses this business registration number' }
+    }
+    console.error('Error updating organization:', error)
+    return { data: null, conflict: false, error: error.message }
+  }
+
+  const { error: syncError } = await adminClient
+    .from('users')
+    .update({
+      business_name: data.name,
+      business_registration_number: data.registration_number,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('organization_id', organizationId)
+
+  if (syncError) {
+    // Scoping uses organization_id, so stale display names don't affect access
+    console.error('Error syncing organization details to users:', syncError)
+  }
+
+  return { data: data as Organization, conflict: false, error: null }
+}
+
+/**
+ * Get the IDs of all teams in an organization
+ */
+export async function getOrganizationTeamIds(organizationId: string): Promise<string[]> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('teams')
+    .select('id')
+    .eq('organization_id', organizationId)
+
+  if (error) {
+    console.error('Error fetching organization teams:', error)
+    return []
+  }
+
+  return (data || []).map((team: any) => team.id)
+}
+
+/**
+ * Check whether a user belongs to an organization
+ */
+export async function isUserInOrganization(userId: string, organizationId: string): Promise<boolean> {
+  return (await getUserOrganizationId(userId)) === organizationId
+}
@@ -0,0 +1,288 @@
+/**
+ * Readiness Scoring Utilities
+ * Server-authoritative readiness calculation for daily check-ins.
+ * Rules are versioned per team (readiness_rule_sets) so supervisors can tune
+ * thresholds without a frontend deploy.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export type ReadinessLevel = 'Green' | 'Yellow' | 'Red'
+
+export const READINESS_LEVELS: ReadinessLevel[] = ['Green', 'Yellow', 'Red']
+
+export interface ReadinessRules {
+  id: string | null // null = built-in defaults (no team rule set)
+  version: number
+  painWeight: number
+  fatigueWeight: number
+  stressWeight: number
+  sleepWeight: number
+  sleepTargetHours: number
+  greenMaxScore: number
+  yellowMaxScore: number
+  // Single-factor red flags: any one of these forces Red regardless of total score (null = disabled)
+  painRedFlag: number | null
+  fatigueRedFlag: number | null
+  stressRedFlag: number | null
+  minSleepHours: number | null
+}
+
+export interface ReadinessInputs {
+  painLevel: number
+  fatigueLevel: number
+  stressLevel: number
+  sleepQuality: number
+}
+
+export interface ReadinessResult {
+  level: ReadinessLevel
+  score: number
+  redFlags: string[]
+}
+
+/**
+ * Default rules - same weighted formula the check-in form has always used,
+ * plus red flags so that e.g. pain 10 can never come out Green
+ */
+export const DEFAULT_READINESS_RULES: ReadinessRules = {
+  id: null,
+  version: 0,
+  painWeight: 1,
+  fatigueWeight: 1,
+  stressWeight: 1,
+  sleepWeight: 1,
+  sleepTargetHours: 8,
+  greenMaxScore: 10,
+  yellowMaxScore: 20,
+  painRedFlag: 8,
+  fatigueRedFlag: 9,
+  stressRedFlag: 9,
+  minSleepHours: 3,
+}
+
+/**
+ * Check if a value is a valid readiness level
+ * @param value - Value to check
+ * @returns true if value is Green, Yellow or Red
+ */
+export function isValidReadinessLevel(value: any): value is ReadinessLevel {
+  return READINESS_LEVELS.includes(value)
+}
+
+/**
+ * Compute readiness level from check-in inputs
+ * Score = weighted pain + fatigue + stress + sleep deficit (0-10, relative to sleep target)
+ * @param inputs - Pain, fatigue, stress (0-10) and sleep hours (0-12)
+ * @param rules - Rule set to apply (defaults to DEFAULT_READINESS_RULES)
+ * @param custom - Weighted score and red flags from team custom questions (see checkinQuestionnaire)
+ * @returns Computed level, rounded score and any red flags triggered
+ */
+export function computeReadiness(
+  inputs: ReadinessInputs,
+  rules: ReadinessRules = DEFAULT_READINESS_RULES,
+  custom: { score: number; redFlags: string[] } = { score: 0, redFlags: [] }
+): ReadinessResult {
+  const sleepTarget = rules.sleepTargetHours > 0 ? rules.sleepTargetHours : DEFAULT_READINESS_RULES.sleepTargetHours
+  const sleepDeficit = 10 - Math.min((inputs.sleepQuality / sleepTarget) * 10, 10)
+
+  const score =
+    inputs.painLevel * rules.painWeight +
+    inputs.fatigueLevel * rules.fatigueWeight +
+    inputs.stressLevel * rules.stressWeight +
+    sleepDeficit * rules.sleepWeight +
+    custom.score
+
+  const redFlags: string[] = []
+  if (rules.painRedFlag !== null && inputs.painLevel >= rules.painRedFlag) redFlags.push('pain')
+  if (rules.fatigueRedFlag !== null && inputs.fatigueLevel >= rules.fatigueRedFlag) redFlags.push('fatigue')
+  if (rules.stressRedFlag !== null && inputs.stressLevel >= rules.stressRedFlag) redFlags.push('stress')
+  if (rules.minSleepHours !== null && inputs.sleepQuality < rules.minSleepHours) redFlags.push('sleep')
+  custom.redFlags.forEach(key => redFlags.push(`question:${key}`))
+
+  let level: ReadinessLevel
+  if (redFlags.length > 0 || score > rules.yellowMaxScore) {
+    level = 'Red'
+  } else if (score > rules.greenMaxScore) {
+    level = 'Yellow'
+  } else {
+    level = 'Green'
+  }
+
+  return { level, score: Math.round(score * 100) / 100, redFlags }
+}
+
+/**
+ * Map a readiness_rule_sets row to ReadinessRules
+ */
+function mapRuleSetRow(row: any): ReadinessRules {
+  const toNullableNumber = (value: any): number | null =>
+    value === null || value === undefined ? null : Number(value)
+
+  return {
+    id: row.id,
+    version: row.version,
+    painWeight: Number(row.pain_weight),
+    fatigueWeight: Number(row.fatigue_weight),
+    stressWeight: Number(row.stress_weight),
+    sleepWeight: Number(row.sleep_weight),
+    sleepTargetHours: Number(row.sleep_target_hours),
+    greenMaxScore: Number(row.green_max_score),
+    yellowMaxScore: Number(row.yellow_max_score),
+    painRedFlag: toNullableNumber(row.pain_red_flag),
+    fatigueRedFlag: toNullableNumber(row.fatigue_red_flag),
+    stressRedFlag: toNullableNumber(row.stress_red_flag),
+    minSleepHours: toNullableNumber(row.min_sleep_hours),
+  }
+}
+
+/**
+ * Get the active readiness rules for a team
+ * Falls back to DEFAULT_READINESS_RULES when the team has no rule set (or on error)
+ * so check-in submission is never blocked by rule configuration
+ * @param teamId - Team ID (null for workers without a team)
+ * @returns Active rules for the team
+ */
+export async function getActiveReadinessRules(teamId: string | null): Promise<ReadinessRules> {
+  if (!teamId) {
+    return DEFAULT_READINESS_RULES
+  }
+
+  try {
+    const adminClient = getAdminClient()
+    const { data, error } = await adminClient
+      .from('readiness_rule_sets')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[getActiveReadinessRules] Error fetching rule set:', error)
+      return DEFAULT_READINESS_RULES
+    }
+
+    return data ? mapRuleSetRow(data) : DEFAULT_READINESS_RULES
+  } catch (error: any) {
+    console.error('[getActiveReadinessRules] Error:', error)
+    return DEFAULT_READINESS_RULES
+  }
+}
+
+/**
+ * Validate a readiness rules payload (camelCase, as sent by the API)
+ * Missing fields fall back to the team's current rules
+ * @param input - Request body
+ * @param base - Rules to merge onto (usually the team's active rules)
+ * @returns { valid: boolean; rules?: ReadinessRules; error?: string }
+ */
+export function validateReadinessRulesInput(
+  input: any,
+  base: ReadinessRules = DEFAULT_READINESS_RULES
+): { valid: boolean; rules?: ReadinessRules; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Invalid rules payload' }
+  }
+
+  const rules: ReadinessRules = { ...base }
+
+  const weightFields = ['painWeight', 'fatigueWeight', 'stressWeight', 'sleepWeight'] as const
+  for (const field of weightFields) {
+    if (input[field] === undefined) continue
+    const value = Number(input[field])
+    if (isNaN(value) || value < 0 || value > 5) {
+      return { valid: false, error: `${field} must be a number between 0 and 5` }
+    }
+    rules[field] = value
+  }
+
+  if (input.sleepTargetHours !== undefined) {
+    const value = Number(input.sleepTargetHours)
+    if (isNaN(value) || value <= 0 || value > 12) {
+      return { valid: false, error: 'sleepTargetHours must be greater than 0 and at most 12' }
+    }
+    rules.sleepTargetHours = value
+  }
+
+  const scoreFields = ['greenMaxScore', 'yellowMaxScore'] as const
+  for (const field of scoreFields) {
+    if (input[field] === undefined) continue
+    const value = Number(input[field])
+    if (isNaN(value) || value < 0 || value > 200) {
+      return { valid: false, error: `${field} must be a number between 0 and 200` }
+    }
+    rules[field] = value
+  }
+
+  if (rules.greenMaxScore >= rules.yellowMaxScore) {
+    return { valid: false, error: 'greenMaxScore must be lower than yellowMaxScore' }
+  }
+
+  const flagFields = [
+    { field: 'painRedFlag', max: 10 },
+    { field: 'fatigueRedFlag', max: 10 },
+    { field: 'stressRedFlag', max: 10 },
+    { field: 'minSleepHours', max: 12 },
+  ] as const
+  for (const { field, max } of flagFields) {
+    if (input[field] === undefined) continue
+    if (input[field] === null) {
+      rules[field] = null
+      continue
+    }
+    const value = Number(input[field])
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+      return { valid: false, error: `${field} must be an integer between 0 and ${max}, or null to disable` }
+    }
+    rules[field] = value
+  }
+
+  return { valid: true, rules }
+}
+
+/**
+ * Create a new rule set version for a team and make it the active one
+ * Previous versions are kept (deactivated) so historical check-ins stay auditable.
+ * The swap runs in one transaction (publish_readiness_rule_set, see
+ * migration_add_readiness_rules_publish.sql) so a team never ends up with no active version.
+ * @param teamId - Team ID
+ * @param rules - Validated rules
+ * @param createdBy - User creating the version
+ * @param notes - Optional change notes
+ * @returns { data: ReadinessRules | null; error: string | null }
+ */
+export async function createReadinessRuleVersion(
+  teamId: string,
+  rules: ReadinessRules,
+  createdBy: string,
+  notes?: string | null
+): Promise<{ data: ReadinessRules | null; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  const { data: created, error } = await adminClient
+    .rpc('publish_readiness_rule_set', {
+      p_team_id: teamId,
+      p_rules: {
+        pain_weight: rules.painWeight,
+        fatigue_weight: rules.fatigueWeight,
+        stress_weight: rules.stressWeight,
+        sleep_weight: rules.sleepWeight,
+        sleep_target_hours: rules.sleepTargetHours,
+        green_max_score: rules.greenMaxScore,
+        yellow_max_score: rules.yellowMaxScore,
+        pain_red_flag: rules.painRedFlag,
+        fatigue_red_flag: rules.fatigueRedFlag,
+        stress_red_flag: rules.stressRedFlag,
+        min_sleep_hours: rules.minSleepHours,
+      },
+      p_created_by: createdBy,
+      p_notes: notes || null,
+    })
+    .single()
+
+  if (error || !created) {
+    return { data: null, error: error?.message || 'Failed to create rule set' }
+  }
+
+  return { data: mapRuleSetRow(created), error: null }
+}
@@ -0,0 +1,409 @@
+/**
+ * Recurrence Rule Utilities
+ * iCalendar RRULE support for worker schedules (worker_schedules.recurrence_rule).
+ * A rule recurs from the schedule's effective_date (DTSTART) and is expanded exactly, one
+ * calendar date at a time - e.g. fortnightly rosters (FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE),
+ * "every 2nd Monday" (FREQ=MONTHLY;BYDAY=2MO) or a 4-on-4-off block (FREQ=DAILY;INTERVAL=8 on
+ * four consecutive start dates).
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (with ordinals for MONTHLY),
+ * BYMONTHDAY (MONTHLY only), COUNT, UNTIL and WKST. Times come from the schedule's start_time/end_time.
+ */
+
+import { addDaysToDateString, getDayOfWeekFromDateString } from './timezone.js'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  /** Weekdays (0-6, Sunday=0) - ordinal is the nth weekday of the month for MONTHLY (-1 = last) */
+  byDay: Array<{ weekday: number; ordinal: number | null }>
+  /** Days of the month (negative counts from the end, -1 = last day) */
+  byMonthDay: number[]
+  count: number | null
+  /** Last date (YYYY-MM-DD, inclusive) */
+  until: string | null
+  /** First day of the week for WEEKLY intervals (0-6, default Monday) */
+  weekStart: number
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const MAX_INTERVAL = 99
+const MAX_COUNT = 1000
+// COUNT rules are expanded at most this far from DTSTART (MONTHLY;INTERVAL=99;COUNT=1000 would be ~8000 years)
+const MAX_COUNT_YEARS = 100
+
+function toUtcDay(dateStr: string): number {
+  const [year, month, day] = dateStr.split('T')[0].split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / 86400000
+}
+
+function daysBetween(fromDateStr: string, toDateStr: string): number {
+  return toUtcDay(toDateStr) - toUtcDay(fromDateStr)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Parse an iCalendar date (20261019, 20261019T000000Z or 2026-10-19) to YYYY-MM-DD
+ */
+function parseICalDate(value: string): string | null {
+  const compact = value.trim().replace(/-/g, '')
+  const match = compact.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/)
+  if (!match) return null
+  const dateStr = `${match[1]}-${match[2]}-${match[3]}`
+  return isNaN(toUtcDay(dateStr)) ? null : dateStr
+}
+
+function formatICalDate(dateStr: string): string {
+  return dateStr.split('T')[0].replace(/-/g, '')
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ * @returns { data, error } - error describes the first invalid or unsupported part
+ */
+export function parseRecurrenceRule(value: string): { data: RecurrenceRule | null; error: string | null } {
+  if (!value || typeof value !== 'string') {
+    return { data: null, error: 'Recurrence rule is required' }
+  }
+
+  const rule: RecurrenceRule = {
+    freq: 'WEEKLY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    count: null,
+    until: null,
+    weekStart: 1,
+  }
+  let hasFreq = false
+
+  const body = value.trim().replace(/^RRULE:/i, '')
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=')
+    const key = rawKey.trim().toUpperCase()
+    const partValue = rawValue.trim().toUpperCase()
+
+    switch (key) {
+      case 'FREQ':
+        if (partValue !== 'DAILY' && partValue !== 'WEEKLY' && partValue !== 'MONTHLY') {
+          return { data: null, error: `Unsupported FREQ "${partValue}". Use DAILY, WEEKLY or MONTHLY` }
+        }
+        rule.freq = partValue
+        hasFreq = true
+        break
+      case 'INTERVAL': {
+        const interval = Number(partValue)
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          return { data: null, error: `INTERVAL must be a whole number between 1 and ${MAX_INTERVAL}` }
+        }
+        rule.interval = interval
+        break
+      }
+      case 'BYDAY':
+        for (const day of partValue.split(',')) {
+          const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+          if (!match) {
+            return { data: null, error: `Invalid BYDAY value "${day}"` }
+          }
+          const ordinal = match[1] ? Number(match[1]) : null
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            return { data: null, error: `Invalid BYDAY value "${day}"` }
+          }
+          rule.byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal })
+        }
+        break
+      case 'BYMONTHDAY':
+        for (const day of partValue.split(',')) {
+          const monthDay = Number(day)
+          if (!Number.isInteger(monthDay) || monthDay === 0 || Math.abs(monthDay) > 31) {
+            return { data: null, error: `Invalid BYMONTHDAY value "${day}"` }
+          }
+          rule.byMonthDay.push(monthDay)
+        }
+        break
+      case 'COUNT': {
+        const count = Number(partValue)
+        if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+          return { data: null, error: `COUNT must be a whole number between 1 and ${MAX_COUNT}` }
+        }
+        rule.count = count
+        break
+      }
+      case 'UNTIL': {
+        const until = parseICalDate(partValue)
+        if (!until) {
+          return { data: null, error: `Invalid UNTIL value "${partValue}"` }
+        }
+        rule.until = until
+        break
+      }
+      case 'WKST': {
+        const weekStart = WEEKDAY_CODES.indexOf(partValue)
+        if (weekStart === -1) {
+          return { data: null, error: `Invalid WKST value "${partValue}"` }
+        }
+        rule.weekStart = weekStart
+        break
+      }
+      default:
+        return { data: null, error: `Unsupported RRULE part "${key}"` }
+    }
+  }
+
+  if (!hasFreq) {
+    return { data: null, error: 'Recurrence rule must include FREQ' }
+  }
+  if (rule.count !== null && rule.until !== null) {
+    return { data: null, error: 'Recurrence rule cannot have both COUNT and UNTIL' }
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byDay.some(day => day.ordinal !== null)) {
+    return { data: null, error: 'Numbered BYDAY values (e.g. 2MO) are only supported with FREQ=MONTHLY' }
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byMonthDay.length > 0) {
+    return { data: null, error: 'BYMONTHDAY is only supported with FREQ=MONTHLY' }
+  }
+
+  return { data: rule, error: null }
+}
+
+/**
+ * Format a rule as an RRULE value (without the "RRULE:" prefix)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`)
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`)
+  if (rule.until !== null) parts.push(`UNTIL=${formatICalDate(rule.until)}`)
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`)
+  return parts.join(';')
+}
+
+/**
+ * Check if a date fits the rule's pattern, ignoring COUNT
+ */
+function matchesPattern(rule: RecurrenceRule, dtstart: string, dateStr: string): boolean {
+  const weekday = getDayOfWeekFromDateString(dateStr)
+  const [year, month, day] = dateStr.split('-').map(Number)
+  const [startYear, startMonth, startDay] = dtstart.split('-').map(Number)
+
+  if (rule.freq === 'DAILY') {
+    if (daysBetween(dtstart, dateStr) % rule.interval !== 0) return false
+    return rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === weekday)
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekOf = (date: string) => addDaysToDateString(date, -((getDayOfWeekFromDateString(date) - rule.weekStart + 7) % 7))
+    const weeks = daysBetween(weekOf(dtstart), weekOf(dateStr)) / 7
+    if (weeks % rule.interval !== 0) return false
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map(byDay => byDay.weekday) : [getDayOfWeekFromDateString(dtstart)]
+    return weekdays.includes(weekday)
+  }
+
+  // MONTHLY
+  const months = (year - startYear) * 12 + (month - startMonth)
+  if (months % rule.interval !== 0) return false
+
+  if (rule.byDay.length > 0) {
+    const lastDay = daysInMonth(year, month)
+    const matchesDay = rule.byDay.some(byDay => {
+      if (byDay.weekday !== weekday) return false
+      if (byDay.ordinal === null) return true
+      return byDay.ordinal > 0
+        ? Math.ceil(day / 7) === byDay.ordinal
+        : Math.ceil((lastDay - day + 1) / 7) === -byDay.ordinal
+    })
+    if (!matchesDay) return false
+    return rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay, year, month, day)
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    return matchesMonthDay(rule.byMonthDay, year, month, day)
+  }
+
+  return day === startDay
+}
+
+function matchesMonthDay(byMonthDay: number[], year: number, month: number, day: number): boolean {
+  const lastDay = daysInMonth(year, month)
+  return byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : lastDay + monthDay + 1) === day)
+}
+
+// Last occurrence of COUNT rules by rule and DTSTART - rules are checked day by day, so walk each once
+const MAX_CACHED_COUNT_RULES = 1000
+const lastCountOccurrences = new Map<string, string | null>()
+
+/**
+ * Get the date of a COUNT rule's last occurrence
+ * @returns Date (YYYY-MM-DD), or null if the rule has fewer than COUNT occurrences in MAX_COUNT_YEARS
+ */
+function getLastCountOccurrence(rule: RecurrenceRule & { count: number }, dtstart: string): string | null {
+  const key = `${formatRecurrenceRule(rule)}|${dtstart}`
+  if (lastCountOccurrences.has(key)) {
+    return lastCountOccurrences.get(key)!
+  }
+
+  let lastOccurrence: string | null = null
+  let occurrences = 0
+  const horizon = addDaysToDateString(dtstart, MAX_COUNT_YEARS * 366)
+  for (let current = dtstart; current <= horizon; current = addDaysToDateString(current, 1)) {
+    if (matchesPattern(rule, dtstart, current) && ++occurrences >= rule.count) {
+      lastOccurrence = current
+      break
+    }
+  }
+
+  if (lastCountOccurrences.size >= MAX_CACHED_COUNT_RULES) {
+    lastCountOccurrences.clear()
+  }
+  lastCountOccurrences.set(key, lastOccurrence)
+  return lastOccurrence
+}
+
+/**
+ * Last date a rule can occur on - UNTIL, or the COUNT-th occurrence
+ * @returns Date (YYYY-MM-DD), or null if the rule has no end
+ */
+function getRecurrenceEnd(rule: RecurrenceRule, dtstart: string): string | null {
+  if (rule.count === null) {
+    return rule.until
+  }
+  return getLastCountOccurrence({ ...rule, count: rule.count }, dtstart) ?? addDaysToDateString(dtstart, MAX_COUNT_YEARS * 366)
+}
+
+/**
+ * Check if a rule starting on dtstart has an occurrence on a date
+ * @param dtstart - First date of the recurrence (YYYY-MM-DD) - it only occurs if it fits the pattern
+ * @param dateStr - Date to check (YYYY-MM-DD)
+ */
+export function recurrenceMatchesDate(rule: RecurrenceRule, dtstart: string, dateStr: string): boolean {
+  if (dateStr < dtstart) return false
+  if (!matchesPattern(rule, dtstart, dateStr)) return false
+  const end = getRecurrenceEnd(rule, dtstart)
+  return end === null || dateStr <= end
+}
+
+/**
+ * Expand a rule to its occurrences within a date range
+ * @param dtstart - First date of the recurrence (YYYY-MM-DD)
+ * @param rangeStart - First date to include (YYYY-MM-DD)
+ * @param rangeEnd - Last date to include (YYYY-MM-DD)
+ * @returns Occurrence dates (YYYY-MM-DD), in order
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: string,
+  rangeStart: string,
+  rangeEnd: string
+): string[] {
+  const dates: string[] = []
+  const end = getRecurrenceEnd(rule, dtstart)
+  const lastDate = end !== null && end < rangeEnd ? end : rangeEnd
+
+  for (let current = rangeStart < dtstart ? dtstart : rangeStart; current <= lastDate; current = addDaysToDateString(current, 1)) {
+    if (matchesPattern(rule, dtstart, current)) dates.push(current)
+  }
+
+  return dates
+}
+
+/**
+ * Get the RRULE for a recurring worker schedule
+ * day_of_week schedules become FREQ=WEEKLY;BYDAY=.. with their expiry date as UNTIL.
+ * @returns RRULE value, or null for single-date schedules
+ */
+export function getScheduleRecurrenceRule(schedule: any): string | null {
+  if (schedule.recurrence_rule) {
+    return schedule.recurrence_rule
+  }
+  if (schedule.day_of_week === null || schedule.day_of_week === undefined || schedule.scheduled_date) {
+    return null
+  }
+  const until = schedule.expiry_date ? `;UNTIL=${formatICalDate(schedule.expiry_date)}` : ''
+  return `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[schedule.day_of_week]}${until}`
+}
+
+/**
+ * Parse recurrence lines as exported by calendars (DTSTART, RRULE and EXDATE lines)
+ * A bare RRULE value is accepted too.
+ * @returns { data: { rule, dtstart, exclusionDates }, error } - rule is the normalized RRULE value
+ */
+export function parseICalendarRecurrence(text: string): {
+  data: { rule: string; dtstart: string | null; exclusionDates: string[] } | null
+  error: string | null
+} {
+  if (!text || typeof text !== 'string') {
+    return { data: null, error: 'Recurrence is required' }
+  }
+
+  let ruleValue: string | null = null
+  let dtstart: string | null = null
+  const exclusionDates: string[] = []
+
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  for (const line of lines) {
+    const separator = line.indexOf(':')
+    const name = (separator === -1 ? '' : line.slice(0, separator)).split(';')[0].toUpperCase()
+    const value = separator === -1 ? line : line.slice(separator + 1)
+
+    if (name === 'DTSTART') {
+      dtstart = parseICalDate(value)
+      if (!dtstart) return { data: null, error: `Invalid DTSTART "${value}"` }
+    } else if (name === 'EXDATE') {
+      for (const exdate of value.split(',')) {
+        const parsed = parseICalDate(exdate)
+        if (!parsed) return { data: null, error: `Invalid EXDATE "${exdate}"` }
+        exclusionDates.push(parsed)
+      }
+    } else if (name === 'RRULE' || (name === '' && /FREQ=/i.test(line))) {
+      ruleValue = value
+    } else {
+      return { data: null, error: `Unsupported recurrence line "${line}"` }
+    }
+  }
+
+  if (!ruleValue) {
+    return { data: null, error: 'Recurrence must include an RRULE' }
+  }
+
+  const { data: rule, error } = parseRecurrenceRule(ruleValue)
+  if (error || !rule) {
+    return { data: null, error }
+  }
+
+  return {
+    data: { rule: formatRecurrenceRule(rule), dtstart, exclusionDates: [...new Set(exclusionDates)].sort() },
+    error: null,
+  }
+}
+
+/**
+ * Format a worker schedule's recurrence as iCalendar lines (DTSTART, RRULE, EXDATE)
+ * @returns Lines joined with CRLF, or null for single-date schedules
+ */
+export function formatICalendarRecurrence(schedule: any): string | null {
+  const rule = getScheduleRecurrenceRule(schedule)
+  if (!rule) {
+    return null
+  }
+
+  const lines: string[] = []
+  if (schedule.effective_date) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(schedule.effective_date)}`)
+  }
+  lines.push(`RRULE:${rule}`)
+  const exclusionDates: string[] = schedule.exclusion_dates || []
+  if (exclusionDates.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${exclusionDates.map(formatICalDate).join(',')}`)
+  }
+  return lines.join('\r\n')
+}
@@ -0,0 +1,465 @@
+/**
+ * Rehabilitation Exercise Library & Plan Templates
+ * The exercise library is shared by all clinicians. Plan templates ("Lower back phase 1, 14 days")
+ * are versioned: saving changes to a template adds a new version with the same template_key and
+ * keeps the old one, so plans generated from it (rehabilitation_plans.template_id) still show
+ * what was prescribed. See migration_add_rehabilitation_templates.sql.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export const EXERCISE_CATEGORIES = ['mobility', 'strength', 'stretching', 'balance', 'cardio', 'breathing', 'posture', 'other'] as const
+
+export const BODY_REGIONS = [
+  'neck',
+  'shoulder',
+  'upper_back',
+  'lower_back',
+  'elbow',
+  'wrist_hand',
+  'hip',
+  'knee',
+  'ankle_foot',
+  'core',
+  'full_body',
+] as const
+
+export type ExerciseCategory = typeof EXERCISE_CATEGORIES[number]
+
+export interface LibraryExercise {
+  id: string
+  name: string
+  category: ExerciseCategory
+  body_regions: string[]
+  contraindications: string | null
+  default_repetitions: string | null
+  instructions: string | null
+  video_url: string | null
+  image_url: string | null
+  created_by: string | null
+  is_archived: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface TemplateExercise {
+  library_exercise_id: string | null
+  exercise_name: string
+  repetitions: string | null
+  instructions: string | null
+  video_url: string | null
+  exercise_order: number
+}
+
+export interface PlanTemplate {
+  id: string
+  template_key: string
+  version: number
+  name: string
+  description: string | null
+  duration_days: number
+  created_by: string | null
+  is_archived: boolean
+  created_at: string
+  exercises?: TemplateExercise[]
+}
+
+const LIBRARY_FIELDS = 'id, name, category, body_regions, contraindications, default_repetitions, instructions, video_url, image_url, created_by, is_archived, created_at, updated_at'
+const TEMPLATE_FIELDS = 'id, template_key, version, name, description, duration_days, created_by, is_archived, created_at'
+const TEMPLATE_EXERCISE_FIELDS = 'library_exercise_id, exercise_name, repetitions, instructions, video_url, exercise_order'
+
+const MAX_TEMPLATE_EXERCISES = 50
+
+function cleanText(input: unknown, maxLength: number): string {
+  return typeof input === 'string' ? input.trim().substring(0, maxLength) : ''
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a library exercise from a request body
+ * @param partial - true for updates (only the fields present are validated and returned)
+ * @returns { value: row fields, error }
+ */
+export function validateLibraryExerciseInput(
+  body: any,
+  partial: boolean = false
+): { value: Partial<LibraryExercise>; error: string | null } {
+  const value: Partial<LibraryExercise> = {}
+  const has = (field: string) => !partial || (body && body[field] !== undefined)
+
+  if (has('name')) {
+    const name = cleanText(body?.name, 255)
+    if (!name) {
+      return { value, error: 'Exercise name is required' }
+    }
+    value.name = name
+  }
+
+  if (has('category')) {
+    const category = body?.category || 'other'
+    if (!EXERCISE_CATEGORIES.includes(category)) {
+      return { value, error: `Category must be one of: ${EXERCISE_CATEGORIES.join(', ')}` }
+    }
+    value.category = category
+  }
+
+  if (has('body_regions')) {
+    const regions = body?.body_regions ?? []
+    if (!Array.isArray(regions) || regions.some((region: unknown) => !BODY_REGIONS.includes(region as any))) {
+      return { value, error: `Body regions must be from: ${BODY_REGIONS.join(', ')}` }
+    }
+    value.body_regions = Array.from(new Set(regions as string[]))
+  }
+
+  if (has('contraindications')) value.contraindications = cleanText(body?.contraindications, 2000) || null
+  if (has('default_repetitions')) value.default_repetitions = cleanText(body?.default_repetitions, 100) || null
+  if (has('instructions')) value.instructions = cleanText(body?.instructions, 5000) || null
+
+  for (const field of ['video_url', 'image_url'] as const) {
+    if (!has(field)) continue
+    const url = cleanText(body?.[field], 500)
+    if (url && !isHttpUrl(url)) {
+      return { value, error: `${field === 'video_url' ? 'Video' : 'Image'} URL must start with http:// or https://` }
+    }
+    value[field] = url || null
+  }
+
+  return { value, error: null }
+}
+
+/**
+ * List library exercises (archived ones are hidden)
+ */
+export async function listLibraryExercises(filters: {
+  category?: string
+  bodyRegion?: string
+  search?: string
+}): Promise<{ data: LibraryExercise[]; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('exercise_library')
+    .select(LIBRARY_FIELDS)
+    .eq('is_archived', false)
+    .order('category', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (filters.category) {
+    query = query.eq('category', filters.category)
+  }
+  if (filters.bodyRegion) {
+    query = query.contains('body_regions', [filters.bodyRegion])
+  }
+  if (filters.search) {
+    // Escape LIKE wildcards so the search is literal
+    query = query.ilike('name', `%${filters.search.replace(/[%_\\]/g, '\\$&')}%`)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[listLibraryExercises] Error:', error)
+    return { data: [], error: error.message }
+  }
+  return { data: (data || []) as LibraryExercise[], error: null }
+}
+
+export async function createLibraryExercise(
+  input: Partial<LibraryExercise>,
+  clinicianId: string
+): Promise<{ data: LibraryExercise | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('exercise_library')
+    .insert([{ ...input, created_by: clinicianId }])
+    .select(LIBRARY_FIELDS)
+    .single()
+
+  if (error) {
+    console.error('[createLibraryExercise] Error:', error)
+    return { data: null, error: error.message }
+  }
+  return { data: data as LibraryExercise, error: null }
+}
+
+/**
+ * Update or archive a library exercise - only the clinician who added it can change it
+ * @returns forbidden=true if the exercise belongs to another clinician
+ */
+export async function updateLibraryExercise(
+  exerciseId: string,
+  changes: Partial<LibraryExercise>,
+  clinicianId: string
+): Promise<{ data: LibraryExercise | null; error: string | null; forbidden?: boolean }> {
+  const adminClient = getAdminClient()
+  const { data: existing, error: fetchError } = await adminClient
+    .from('exercise_library')
+    .select('id, created_by')
+    .eq('id', exerciseId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('[updateLibraryExercise] Error fetching exercise:', fetchError)
+    return { data: null, error: fetchError.message }
+  }
+  if (!existing) {
+    return { data: null, error: null }
+  }
+  if (existing.created_by !== clinicianId) {
+    return { data: null, error: 'You can only change exercises you added to the library', forbidden: true }
+  }
+
+  const { data, error } = await adminClient
+    .from('exercise_library')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', exerciseId)
+    .select(LIBRARY_FIELDS)
+    .single()
+
+  if (error) {
+    console.error('[updateLibraryExercise] Error:', error)
+    return { data: null, error: error.message }
+  }
+  return { data: data as LibraryExercise, error: null }
+}
+
+/**
+ * Validate template/plan exercises from a request body
+ * Exercises picked from the library can leave fields empty - the library values are copied in.
+ * @returns { data: exercises in order, error }
+ */
+export async function resolveTemplateExercises(
+  exercises: any
+): Promise<{ data: TemplateExercise[]; error: string | null }> {
+  if (!Array.isArray(exercises) || exercises.length === 0) {
+    return { data: [], error: 'At least one exercise is required' }
+  }
+  if (exercises.length > MAX_TEMPLATE_EXERCISES) {
+    return { data: [], error: `Maximum ${MAX_TEMPLATE_EXERCISES} exercises allowed` }
+  }
+
+  const libraryIds = Array.from(new Set(
+    exercises.map((exercise: any) => exercise?.library_exercise_id).filter((id: unknown) => typeof id === 'string' && id)
+  )) as string[]
+
+  const libraryById = new Map<string, LibraryExercise>()
+  if (libraryIds.length > 0) {
+    const adminClient = getAdminClient()
+    const { data, error } = await adminClient
+      .from('exercise_library')
+      .select(LIBRARY_FIELDS)
+      .in('id', libraryIds)
+
+    if (error) {
+      console.error('[resolveTemplateExercises] Error fetching library exercises:', error)
+      return { data: [], error: 'Failed to fetch library exercises' }
+    }
+    for (const exercise of data || []) {
+      libraryById.set(exercise.id, exercise as LibraryExercise)
+    }
+  }
+
+  const resolved: TemplateExercise[] = []
+  for (let i = 0; i < exercises.length; i++) {
+    const exercise = exercises[i] || {}
+    const libraryExercise = exercise.library_exercise_id ? libraryById.get(exercise.library_exercise_id) : undefined
+    if (exercise.library_exercise_id && !libraryExercise) {
+      return { data: [], error: `Exercise ${i + 1}: library exercise not found` }
+    }
+
+    const exerciseName = cleanText(exercise.exercise_name, 255) || libraryExercise?.name || ''
+    if (!exerciseName) {
+      return { data: [], error: `Exercise ${i + 1}: exercise_name is required` }
+    }
+
+    resolved.push({
+      library_exercise_id: libraryExercise?.id || null,
+      exercise_name: exerciseName,
+      repetitions: cleanText(exercise.repetitions, 100) || libraryExercise?.default_repetitions || null,
+      instructions: cleanText(exercise.instructions, 5000) || libraryExercise?.instructions || null,
+      video_url: cleanText(exercise.video_url, 500) || libraryExercise?.video_url || null,
+      exercise_order: i,
+    })
+  }
+
+  return { data: resolved, error: null }
+}
+
+/**
+ * List the latest version of every template
+ */
+export async function listPlanTemplates(): Promise<{ data: PlanTemplate[]; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .select(`${TEMPLATE_FIELDS}, rehabilitation_template_exercises(${TEMPLATE_EXERCISE_FIELDS})`)
+    .eq('is_archived', false)
+    .order('name', { ascending: true })
+    .order('version', { ascending: false })
+
+  if (error) {
+    console.error('[listPlanTemplates] Error:', error)
+    return { data: [], error: error.message }
+  }
+
+  const latest = new Map<string, PlanTemplate>()
+  for (const row of data || []) {
+    if (latest.has(row.template_key)) continue
+    const { rehabilitation_template_exercises: exercises, ...template } = row as any
+    latest.set(row.template_key, {
+      ...template,
+      exercises: ((exercises || []) as TemplateExercise[]).sort((a, b) => a.exercise_order - b.exercise_order),
+    })
+  }
+  return { data: Array.from(latest.values()), error: null }
+}
+
+/**
+ * Get a template version with its exercises
+ */
+export async function getPlanTemplate(templateId: string): Promise<{ data: PlanTemplate | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .select(`${TEMPLATE_FIELDS}, rehabilitation_template_exercises(${TEMPLATE_EXERCISE_FIELDS})`)
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[getPlanTemplate] Error:', error)
+    return { data: null, error: error.message }
+  }
+  if (!data) {
+    return { data: null, error: null }
+  }
+
+  const { rehabilitation_template_exercises: exercises, ...template } = data as any
+  return {
+    data: {
+      ...template,
+      exercises: ((exercises || []) as TemplateExercise[]).sort((a, b) => a.exercise_order - b.exercise_order),
+    },
+    error: null,
+  }
+}
+
+/**
+ * Save a template - a new template, or the next version of an existing one
+ * @param previousVersionId - Any version of the template being revised (omit for a new template)
+ */
+export async function savePlanTemplate(
+  input: { name: string; description: string | null; duration_days: number; exercises: TemplateExercise[] },
+  clinicianId: string,
+  previousVersionId?: string
+): Promise<{ data: PlanTemplate | null; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  let templateKey: string | undefined
+  let version = 1
+  if (previousVersionId) {
+    const { data: previous, error: previousError } = await adminClient
+      .from('rehabilitation_plan_templates')
+      .select('template_key')
+      .eq('id', previousVersionId)
+      .maybeSingle()
+
+    if (previousError || !previous) {
+      return { data: null, error: 'Template not found' }
+    }
+
+    const { data: latest } = await adminClient
+      .from('rehabilitation_plan_templates')
+      .select('version')
+      .eq('template_key', previous.template_key)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single()
+
+    templateKey = previous.template_key
+    version = (latest?.version || 0) + 1
+  }
+
+  const { data: template, error: templateError } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .insert([{
+      ...(templateKey ? { template_key: templateKey } : {}),
+      version,
+      name: input.name,
+      description: input.description,
+      duration_days: input.duration_days,
+      created_by: clinicianId,
+    }])
+    .select(TEMPLATE_FIELDS)
+    .single()
+
+  if (templateError || !template) {
+    console.error('[savePlanTemplate] Error:', templateError)
+    // Unique (template_key, version): someone saved a version at the same moment
+    return { data: null, error: templateError?.code === '23505' ? 'The template was just changed - reload and try again' : 'Failed to save template' }
+  }
+
+  const { error: exercisesError } = await adminClient
+    .from('rehabilitation_template_exercises')
+    .insert(input.exercises.map(exercise => ({ ...exercise, template_id: template.id })))
+
+  if (exercisesError) {
+    console.error('[savePlanTemplate] Error inserting exercises:', exercisesError)
+    await adminClient.from('rehabilitation_plan_templates').delete().eq('id', template.id)
+    return { data: null, error: 'Failed to save template exercises' }
+  }
+
+  return { data: { ...(template as PlanTemplate), exercises: input.exercises }, error: null }
+}
+
+/**
+ * Archive every version of a template (plans generated from it are unaffected)
+ * @returns forbidden=true if another clinician created the template
+ */
+export async function archivePlanTemplate(
+  templateId: string,
+  clinicianId: string
+): Promise<{ data: boolean; error: string | null; forbidden?: boolean }> {
+  const adminClient = getAdminClient()
+  const { data: template, error: fetchError } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .select('template_key')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('[archivePlanTemplate] Error fetching template:', fetchError)
+    return { data: false, error: fetchError.message }
+  }
+  if (!template) {
+    return { data: false, error: null }
+  }
+
+  // The first version's author owns the template
+  const { data: original } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .select('created_by')
+    .eq('template_key', template.template_key)
+    .eq('version', 1)
+    .maybeSingle()
+
+  if (original && original.created_by !== clinicianId) {
+    return { data: false, error: 'You can only archive templates you created', forbidden: true }
+  }
+
+  const { error } = await adminClient
+    .from('rehabilitation_plan_templates')
+    .update({ is_archived: true })
+    .eq('template_key', template.template_key)
+
+  if (error) {
+    console.error('[archivePlanTemplate] Error:', error)
+    return { data: false, error: error.message }
+  }
+  return { data: true, error: null }
+}
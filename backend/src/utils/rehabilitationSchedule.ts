@@ -0,0 +1,461 @@
+/**
+ * Phased Rehabilitation Schedules
+ * A plan can be split into phases (consecutive plan day ranges, Day 1 = start_date). Each phase
+ * prescribes a subset of the plan's exercises with sets / reps / hold time, optionally increasing
+ * every full week into the phase, and can mark rest days. Plans without phases keep the original
+ * behaviour: every exercise, every day. See migration_add_rehabilitation_plan_phases.sql.
+ * Workers report pain before/after, difficulty and a note with each completion; the summary here
+ * drives the clinician progress view (migration_add_exercise_completion_feedback.sql).
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export interface ExercisePrescription {
+  exercise_id: string
+  sets: number | null
+  repetitions: number | null
+  hold_seconds: number | null
+  weekly_rep_increase: number
+  weekly_hold_increase: number
+}
+
+export interface PlanPhase {
+  id: string
+  phase_order: number
+  name: string
+  start_day: number
+  end_day: number
+  rest_days: number[]
+  notes: string | null
+  prescriptions: ExercisePrescription[]
+}
+
+/**
+ * Phase from a request body - prescriptions point at plan exercises by position
+ * (exercise_index), so the same shape works before the exercises have IDs
+ */
+export interface PlanPhaseInput {
+  name: string
+  start_day: number
+  end_day: number
+  rest_days: number[]
+  notes: string | null
+  prescriptions: Array<Omit<ExercisePrescription, 'exercise_id'> & { exercise_index: number }>
+}
+
+export interface DayPrescription {
+  dayNumber: number
+  phase: { id: string; name: string; phase_order: number } | null
+  isRestDay: boolean
+  exercises: Array<{
+    exercise_id: string
+    sets: number | null
+    repetitions: number | null
+    hold_seconds: number | null
+  }>
+}
+
+export interface CompletionFeedback {
+  exercise_id: string
+  completion_date: string
+  pain_before: number | null
+  pain_level: number | null // pain after the exercise
+  difficulty: number | null
+  note: string | null
+}
+
+export interface ExerciseFeedbackSummary {
+  exercise_id: string
+  completions: number
+  reports: number
+  averagePain: number | null
+  averageDifficulty: number | null
+  averagePainIncrease: number | null
+  recentPain: number | null
+  recentDifficulty: number | null
+  lastReportDate: string | null
+  recommendation: ProgressionRecommendation | null
+  // One point per reported completion, oldest first (for charting)
+  history: Array<{
+    completion_date: string
+    pain_before: number | null
+    pain_after: number | null
+    difficulty: number | null
+    note: string | null
+  }>
+}
+
+export type ProgressionRecommendation = 'step_up' | 'hold' | 'back_off'
+
+const MAX_PHASES = 12
+
+// Recommendation looks at the latest reports for each exercise
+const FEEDBACK_WINDOW = 3
+const BACK_OFF_PAIN_PEAK = 7
+const BACK_OFF_PAIN_AVERAGE = 5
+const BACK_OFF_DIFFICULTY_AVERAGE = 4.5
+const STEP_UP_MAX_AVERAGE = 2
+
+// Pain after minus pain before at which the clinician is notified (and backing off is suggested)
+export const PAIN_INCREASE_ALERT_THRESHOLD = 3
+
+function optionalInteger(value: unknown, min: number, max: number): { value: number | null; valid: boolean } {
+  if (value === undefined || value === null || value === '') {
+    return { value: null, valid: true }
+  }
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    return { value: null, valid: false }
+  }
+  return { value: parsed, valid: true }
+}
+
+/**
+ * Validate phases from a request body
+ * Phases must start on Day 1, follow each other without gaps or overlap and fit in the plan.
+ * Days after the last phase continue it (so extending a plan doesn't leave days empty).
+ * @param totalDays - plan length in days
+ * @param exerciseCount - number of plan exercises (exercise_index is 0-based)
+ */
+export function validatePhasesInput(
+  phases: unknown,
+  totalDays: number,
+  exerciseCount: number
+): { data: PlanPhaseInput[]; error: string | null } {
+  if (phases === undefined || phases === null) {
+    return { data: [], error: null }
+  }
+  if (!Array.isArray(phases)) {
+    return { data: [], error: 'phases must be an array' }
+  }
+  if (phases.length > MAX_PHASES) {
+    return { data: [], error: `A plan can have at most ${MAX_PHASES} phases` }
+  }
+
+  const result: PlanPhaseInput[] = []
+  let expectedStart = 1
+
+  for (let i = 0; i < phases.length; i++) {
+    const phase = phases[i]
+    const label = `Phase ${i + 1}`
+    const name = typeof phase?.name === 'string' ? phase.name.trim().substring(0, 255) : ''
+    if (!name) {
+      return { data: [], error: `${label}: name is required` }
+    }
+
+    const startDay = Number(phase.start_day)
+    const endDay = Number(phase.end_day)
+    if (!Number.isInteger(startDay) || !Number.isInteger(endDay) || endDay < startDay) {
+      return { data: [], error: `${label}: start_day and end_day must be whole days with end_day >= start_day` }
+    }
+    if (startDay !== expectedStart) {
+      return { data: [], error: expectedStart === 1
+        ? `${label}: the first phase must start on Day 1`
+        : `${label}: must start on Day ${expectedStart} (the day after the previous phase)` }
+    }
+    if (endDay > totalDays) {
+      return { data: [], error: `${label}: ends on Day ${endDay} but the plan is ${totalDays} days long` }
+    }
+    expectedStart = endDay + 1
+
+    const restDays = phase.rest_days ?? []
+    if (!Array.isArray(restDays) || restDays.some((day: unknown) => !Number.isInteger(day) || (day as number) < startDay || (day as number) > endDay)) {
+      return { data: [], error: `${label}: rest days must be plan days between ${startDay} and ${endDay}` }
+    }
+    const uniqueRestDays = Array.from(new Set(restDays as number[])).sort((a, b) => a - b)
+    if (uniqueRestDays.length === endDay - startDay + 1) {
+      return { data: [], error: `${label}: every day is a rest day` }
+    }
+
+    const prescriptions = phase.prescriptions
+    if (!Array.isArray(prescriptions) || prescriptions.length === 0) {
+      return { data: [], error: `${label}: at least one exercise is required` }
+    }
+
+    const seen = new Set<number>()
+    const validPrescriptions: PlanPhaseInput['prescriptions'] = []
+    for (const prescription of prescriptions) {
+      const index = Number(prescription?.exercise_index)
+      if (!Number.isInteger(index) || index < 0 || index >= exerciseCount) {
+        return { data: [], error: `${label}: exercise_index must refer to one of the plan's ${exerciseCount} exercises` }
+      }
+      if (seen.has(index)) {
+        return { data: [], error: `${label}: Exercise ${index + 1} is listed twice` }
+      }
+      seen.add(index)
+
+      const sets = optionalInteger(prescription.sets, 1, 20)
+      const repetitions = optionalInteger(prescription.repetitions, 1, 200)
+      const holdSeconds = optionalInteger(prescription.hold_seconds, 1, 600)
+      const weeklyReps = optionalInteger(prescription.weekly_rep_increase, -50, 50)
+      const weeklyHold = optionalInteger(prescription.weekly_hold_increase, -120, 120)
+      if (!sets.valid || !repetitions.valid || !holdSeconds.valid) {
+        return { data: [], error: `${label}, Exercise ${index + 1}: sets must be 1-20, repetitions 1-200 and hold_seconds 1-600` }
+      }
+      if (!weeklyReps.valid || !weeklyHold.valid) {
+        return { data: [], error: `${label}, Exercise ${index + 1}: weekly increases must be between -50 and 50 reps and -120 and 120 seconds` }
+      }
+
+      validPrescriptions.push({
+        exercise_index: index,
+        sets: sets.value,
+        repetitions: repetitions.value,
+        hold_seconds: holdSeconds.value,
+        weekly_rep_increase: weeklyReps.value || 0,
+        weekly_hold_increase: weeklyHold.value || 0,
+      })
+    }
+
+    result.push({
+      name,
+      start_day: startDay,
+      end_day: endDay,
+      rest_days: uniqueRestDays,
+      notes: typeof phase.notes === 'string' ? phase.notes.trim().substring(0, 2000) || null : null,
+      prescriptions: validPrescriptions,
+    })
+  }
+
+  return { data: result, error: null }
+}
+
+/**
+ * Get the phases of several plans at once (plans without phases are missing from the map)
+ */
+export async function getPhasesForPlans(planIds: string[]): Promise<{ data: Map<string, PlanPhase[]>; error: string | null }> {
+  const byPlan = new Map<string, PlanPhase[]>()
+  if (planIds.length === 0) {
+    return { data: byPlan, error: null }
+  }
+
+  const adminClient = getAdminClient()
+
+  const { data: phases, error: phasesError } = await adminClient
+    .from('rehabilitation_plan_phases')
+    .select('id, plan_id, phase_order, name, start_day, end_day, rest_days, notes')
+    .in('plan_id', planIds)
+    .order('phase_order', { ascending: true })
+
+  if (phasesError) {
+    console.error('[getPhasesForPlans] Error:', phasesError)
+    return { data: byPlan, error: 'Failed to fetch plan phases' }
+  }
+  if (!phases || phases.length === 0) {
+    return { data: byPlan, error: null }
+  }
+
+  const { data: prescriptions, error: prescriptionsError } = await adminClient
+    .from('rehabilitation_exercise_prescriptions')
+    .select('phase_id, exercise_id, sets, repetitions, hold_seconds, weekly_rep_increase, weekly_hold_increase')
+    .in('phase_id', phases.map((phase: any) => phase.id))
+
+  if (prescriptionsError) {
+    console.error('[getPhasesForPlans] Error fetching prescriptions:', prescriptionsError)
+    return { data: byPlan, error: 'Failed to fetch plan phases' }
+  }
+
+  for (const { plan_id, ...phase } of phases as any[]) {
+    if (!byPlan.has(plan_id)) {
+      byPlan.set(plan_id, [])
+    }
+    byPlan.get(plan_id)!.push({
+      ...phase,
+      rest_days: phase.rest_days || [],
+      prescriptions: (prescriptions || [])
+        .filter((prescription: any) => prescription.phase_id === phase.id)
+        .map(({ phase_id: _phaseId, ...prescription }: any) => prescription),
+    })
+  }
+
+  return { data: byPlan, error: null }
+}
+
+/**
+ * Get a plan's phases with their prescriptions, ordered by phase_order
+ */
+export async function getPlanPhases(planId: string): Promise<{ data: PlanPhase[]; error: string | null }> {
+  const { data, error } = await getPhasesForPlans([planId])
+  return { data: data.get(planId) || [], error }
+}
+
+/**
+ * Replace a plan's phases (completions are kept - they belong to exercises, not phases)
+ * Runs in one transaction (save_rehabilitation_plan_phases) - a failed save keeps the old phases.
+ * @param exerciseIds - plan exercise IDs in exercise_order, resolving exercise_index
+ */
+export async function savePlanPhases(
+  planId: string,
+  phases: PlanPhaseInput[],
+  exerciseIds: string[]
+): Promise<{ data: PlanPhase[]; error: string | null }> {
+  const adminClient = getAdminClient()
+
+  const { error } = await adminClient.rpc('save_rehabilitation_plan_phases', {
+    p_plan_id: planId,
+    p_phases: phases.map(({ prescriptions, ...phase }) => ({
+      ...phase,
+      prescriptions: prescriptions.map(({ exercise_index, ...prescription }) => ({
+        ...prescription,
+        exercise_id: exerciseIds[exercise_index],
+      })),
+    })),
+  })
+
+  if (error) {
+    console.error('[savePlanPhases] Error:', error)
+    return { data: [], error: 'Failed to save plan phases' }
+  }
+
+  return getPlanPhases(planId)
+}
+
+/**
+ * What a plan day asks for
+ * Days after the last phase continue it; without phases every exercise is done every day.
+ * Reps and hold time grow by the weekly increase for each full week into the phase.
+ * @param exerciseIds - plan exercise IDs in exercise_order
+ */
+export function getDayPrescription(phases: PlanPhase[], exerciseIds: string[], dayNumber: number): DayPrescription {
+  if (phases.length === 0) {
+    return {
+      dayNumber,
+      phase: null,
+      isRestDay: false,
+      exercises: exerciseIds.map(exercise_id => ({ exercise_id, sets: null, repetitions: null, hold_seconds: null })),
+    }
+  }
+
+  const phase = phases.find(p => dayNumber >= p.start_day && dayNumber <= p.end_day)
+    || (dayNumber > phases[phases.length - 1].end_day ? phases[phases.length - 1] : phases[0])
+  const isRestDay = phase.rest_days.includes(dayNumber)
+  const weeksIntoPhase = Math.max(0, Math.floor((dayNumber - phase.start_day) / 7))
+
+  return {
+    dayNumber,
+    phase: { id: phase.id, name: phase.name, phase_order: phase.phase_order },
+    isRestDay,
+    exercises: isRestDay ? [] : phase.prescriptions
+      .filter(prescription => exerciseIds.includes(prescription.exercise_id))
+      .sort((a, b) => exerciseIds.indexOf(a.exercise_id) - exerciseIds.indexOf(b.exercise_id))
+      .map(prescription => ({
+        exercise_id: prescription.exercise_id,
+        sets: prescription.sets,
+        repetitions: prescription.repetitions !== null
+          ? Math.max(1, prescription.repetitions + weeksIntoPhase * prescription.weekly_rep_increase)
+          : null,
+        hold_seconds: prescription.hold_seconds !== null
+          ? Math.max(1, prescription.hold_seconds + weeksIntoPhase * prescription.weekly_hold_increase)
+          : null,
+      })),
+  }
+}
+
+/**
+ * Validate the feedback reported with a completion - every field is optional
+ * pain_before / pain_level (after) 0-10, difficulty 1-5, note up to 1000 characters
+ */
+export function validateCompletionFeedback(
+  body: any
+): { value: Omit<CompletionFeedback, 'exercise_id' | 'completion_date'>; error: string | null } {
+  const empty = { pain_before: null, pain_level: null, difficulty: null, note: null }
+
+  const painBefore = optionalInteger(body?.pain_before, 0, 10)
+  if (!painBefore.valid) {
+    return { value: empty, error: 'pain_before must be a whole number from 0 to 10' }
+  }
+  const pain = optionalInteger(body?.pain_level, 0, 10)
+  if (!pain.valid) {
+    return { value: empty, error: 'pain_level must be a whole number from 0 to 10' }
+  }
+  const difficulty = optionalInteger(body?.difficulty, 1, 5)
+  if (!difficulty.valid) {
+    return { value: empty, error: 'difficulty must be a whole number from 1 to 5' }
+  }
+  if (body?.note !== undefined && body?.note !== null && typeof body.note !== 'string') {
+    return { value: empty, error: 'note must be a string' }
+  }
+  const note = typeof body?.note === 'string' ? body.note.trim() : ''
+  if (note.length > 1000) {
+    return { value: empty, error: 'note must be 1000 characters or less' }
+  }
+
+  return {
+    value: { pain_before: painBefore.value, pain_level: pain.value, difficulty: difficulty.value, note: note || null },
+    error: null,
+  }
+}
+
+/**
+ * How much worse the pain got during the exercise (null unless both were reported)
+ */
+export function getPainIncrease(feedback: { pain_before: number | null; pain_level: number | null }): number | null {
+  return feedback.pain_before !== null && feedback.pain_level !== null ? feedback.pain_level - feedback.pain_before : null
+}
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null
+}
+
+/**
+ * Summarise worker feedback per exercise and suggest a progression
+ * back_off: a recent pain spike or pain increase, high average pain or the exercise feels very hard
+ * step_up: the last few reports are all low pain and easy
+ * hold: anything in between; null when nothing has been reported yet
+ */
+export function summarizeExerciseFeedback(completions: CompletionFeedback[], exerciseIds: string[]): ExerciseFeedbackSummary[] {
+  return exerciseIds.map(exerciseId => {
+    const exerciseCompletions = completions
+      .filter(completion => completion.exercise_id === exerciseId)
+      .sort((a, b) => a.completion_date.localeCompare(b.completion_date))
+    const reports = exerciseCompletions.filter(completion =>
+      completion.pain_before !== null || completion.pain_level !== null || completion.difficulty !== null || completion.note !== null
+    )
+    const recent = reports.slice(-FEEDBACK_WINDOW)
+
+    const pains = (list: CompletionFeedback[]) => list.map(r => r.pain_level).filter((v): v is number => v !== null)
+    const difficulties = (list: CompletionFeedback[]) => list.map(r => r.difficulty).filter((v): v is number => v !== null)
+    const increases = (list: CompletionFeedback[]) => list.map(getPainIncrease).filter((v): v is number => v !== null)
+    const recentPain = average(pains(recent))
+    const recentDifficulty = average(difficulties(recent))
+
+    let recommendation: ProgressionRecommendation | null = null
+    if (pains(recent).length > 0 || difficulties(recent).length > 0) {
+      if (
+        pains(recent).some(pain => pain >= BACK_OFF_PAIN_PEAK) ||
+        increases(recent).some(increase => increase >= PAIN_INCREASE_ALERT_THRESHOLD) ||
+        (recentPain !== null && recentPain >= BACK_OFF_PAIN_AVERAGE) ||
+        (recentDifficulty !== null && recentDifficulty >= BACK_OFF_DIFFICULTY_AVERAGE)
+      ) {
+        recommendation = 'back_off'
+      } else if (
+        recent.length >= FEEDBACK_WINDOW &&
+        (recentPain ?? 0) <= STEP_UP_MAX_AVERAGE &&
+        (recentDifficulty ?? 0) <= STEP_UP_MAX_AVERAGE
+      ) {
+        recommendation = 'step_up'
+      } else {
+        recommendation = 'hold'
+      }
+    }
+
+    return {
+      exercise_id: exerciseId,
+      completions: exerciseCompletions.length,
+      reports: reports.length,
+      averagePain: average(pains(reports)),
+      averageDifficulty: average(difficulties(reports)),
+      averagePainIncrease: average(increases(reports)),
+      recentPain,
+      recentDifficulty,
+      lastReportDate: reports.length > 0 ? reports[reports.length - 1].completion_date : null,
+      recommendation,
+      history: reports.map(report => ({
+        completion_date: report.completion_date,
+        pain_before: report.pain_before,
+        pain_after: report.pain_level,
+        difficulty: report.difficulty,
+        note: report.note,
+      })),
+    }
+  })
+}
@@ -0,0 +1,532 @@
+/**
+ * Roster Import
+ * Bulk-creates single-date worker schedules from a roster spreadsheet - CSV, or XLSX that the
+ * browser converts to rows. One row per shift (or per segment of a split shift):
+ *   email or employee_id, date, start_time, end_time
+ *   optional: starts_next_day, requires_daily_checkin, daily_checkin_start_time,
+ *             daily_checkin_end_time, check_in_window_start, check_in_window_end, notes
+ *
+ * buildRosterImportPlan() matches workers in the team and checks every row against the worker's
+ * exceptions (findConflictingException) and existing schedules. The plan is the dry-run diff:
+ * creates, updates (same worker, date and start time), unchanged rows and conflicts.
+ * applyRosterImportPlan() writes creates and updates in one transaction
+ * (import_worker_schedules, see migration_add_roster_import.sql).
+ */
+
+import { getAdminClient } from './adminClient.js'
+import { findConflictingException, getExceptionTypeLabel, type WorkerException } from './exceptionUtils.js'
+import { shiftSegmentsOverlap } from './checkInWindow.js'
+import { formatUserFullName } from './userUtils.js'
+import { getTeamTimeZone, getTodayInTimeZone } from './timezone.js'
+
+export const ROSTER_IMPORT_MAX_ROWS = 2000
+
+// Header spellings seen in rostering spreadsheets -> column names
+const HEADER_ALIASES: Record<string, string> = {
+  email_address: 'email',
+  worker_email: 'email',
+  employee_number: 'employee_id',
+  employee_no: 'employee_id',
+  emp_id: 'employee_id',
+  staff_id: 'employee_id',
+  shift_date: 'date',
+  scheduled_date: 'date',
+  start: 'start_time',
+  shift_start: 'start_time',
+  end: 'end_time',
+  finish: 'end_time',
+  finish_time: 'end_time',
+  shift_end: 'end_time',
+  next_day: 'starts_next_day',
+  daily_checkin: 'requires_daily_checkin',
+  checkin_start: 'daily_checkin_start_time',
+  checkin_end: 'daily_checkin_end_time',
+  note: 'notes',
+}
+
+// Fields an import can change on an existing schedule (start time and date identify it)
+const UPDATABLE_FIELDS = [
+  'end_time',
+  'requires_daily_checkin',
+  'daily_checkin_start_time',
+  'daily_checkin_end_time',
+  'check_in_window_start',
+  'check_in_window_end',
+  'notes',
+] as const
+
+export interface RosterImportRow {
+  /** Spreadsheet row number (header is row 1) */
+  row: number
+  worker_id: string
+  worker_name: string
+  scheduled_date: string
+  start_time: string
+  end_time: string
+  starts_next_day: boolean
+  requires_daily_checkin?: boolean
+  daily_checkin_start_time?: string | null
+  daily_checkin_end_time?: string | null
+  check_in_window_start?: string | null
+  check_in_window_end?: string | null
+  notes?: string | null
+}
+
+export interface RosterImportUpdate extends RosterImportRow {
+  /** Existing schedule the row updates */
+  id: string
+  changes: Record<string, { from: any; to: any }>
+}
+
+export interface RosterImportConflict {
+  row: number
+  worker: string
+  date: string | null
+  reason: string
+}
+
+export interface RosterImportPlan {
+  creates: RosterImportRow[]
+  updates: RosterImportUpdate[]
+  unchanged: RosterImportRow[]
+  conflicts: RosterImportConflict[]
+  summary: { rows: number; creates: number; updates: number; unchanged: number; conflicts: number }
+}
+
+/**
+ * Parse CSV text into rows keyed by header (RFC 4180 quoting, comma or semicolon separated)
+ * @returns { data, error }
+ */
+export function parseRosterCsv(text: string): { data: Record<string, string>[]; error: string | null } {
+  if (!text || typeof text !== 'string') {
+    return { data: [], error: 'CSV is empty' }
+  }
+
+  const firstLine = text.split(/\r?\n/, 1)[0]
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter(fields => fields.some(value => value.trim() !== ''))
+  if (nonEmpty.length < 2) {
+    return { data: [], error: 'CSV needs a header row and at least one data row' }
+  }
+
+  const [headers, ...rows] = nonEmpty
+  return {
+    data: rows.map(fields => Object.fromEntries(headers.map((header, index) => [header, fields[index] ?? '']))),
+    error: null,
+  }
+}
+
+/**
+ * Normalize a spreadsheet header to snake_case ("Employee ID" -> employee_id)
+ * @param aliases - Alternative spellings -> column names
+ */
+export function normalizeHeader(header: string, aliases: Record<string, string> = HEADER_ALIASES): string {
+  const key = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+  return aliases[key] || key
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim()
+}
+
+// Spreadsheet serial dates count days from 1899-12-30
+function excelSerialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.round(serial) * 86400000).toISOString().split('T')[0]
+}
+
+/**
+ * Parse a roster date: YYYY-MM-DD, DD/MM/YYYY (Australian order) or a spreadsheet serial number
+ */
+export function parseRosterDate(value: unknown): string | null {
+  const text = cellText(value)
+  if (!text) return null
+
+  let year: number, month: number, day: number
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/)
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    if (year < 100) year += 2000
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return excelSerialToDate(Number(text))
+  } else {
+    return null
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Parse a roster time: 08:00, 8:00:00, 8am, 5:30 PM or a spreadsheet day fraction (0.3333)
+ * @returns HH:MM or null
+ */
+function parseRosterTime(value: unknown): string | null {
+  const text = cellText(value).toLowerCase()
+  if (!text) return null
+
+  if (/^0?\.\d+$/.test(text)) {
+    const minutes = Math.round(Number(text) * 1440) % 1440
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+  }
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?$/)
+  if (!match) return null
+  let hours = Number(match[1])
+  const minutes = Number(match[2] || 0)
+  const meridiem = match[3]?.replace(/\./g, '')
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0)
+  } else if (match[2] === undefined) {
+    return null // A bare number isn't a time
+  }
+  if (hours > 23 || minutes > 59) return null
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+function parseRosterBoolean(value: unknown): boolean | undefined {
+  const text = cellText(value).toLowerCase()
+  if (!text) return undefined
+  return ['yes', 'y', 'true', '1', 'x'].includes(text)
+}
+
+function toTime(value: string | null | undefined): string | null {
+  return value ? value.slice(0, 5) : null
+}
+
+/**
+ * Build the dry-run diff for a roster import
+ * @param teamId - Team leader's team (only its workers can be scheduled)
+ * @param rawRows - Rows keyed by header (from a CSV or spreadsheet)
+ * @returns { data: plan, error }
+ */
+export async function buildRosterImportPlan(
+  teamId: string,
+  rawRows: Record<string, unknown>[]
+): Promise<{ data: RosterImportPlan | null; error: string | null }> {
+  if (!Array.isArray(rawRows) || rawRows.length === 0) {
+    return { data: null, error: 'The roster has no rows' }
+  }
+  if (rawRows.length > ROSTER_IMPORT_MAX_ROWS) {
+    return { data: null, error: `The roster has ${rawRows.length} rows - import at most ${ROSTER_IMPORT_MAX_ROWS} at a time` }
+  }
+
+  const rows = rawRows.map(raw => {
+    const normalized: Record<string, unknown> = {}
+    for (const [header, value] of Object.entries(raw || {})) {
+      normalized[normalizeHeader(header)] = value
+    }
+    return normalized
+  })
+
+  if (!rows.some(row => 'email' in row || 'employee_id' in row)) {
+    return { data: null, error: 'The roster needs an email or employee_id column' }
+  }
+  if (!rows.some(row => 'date' in row) || !rows.some(row => 'start_time' in row) || !rows.some(row => 'end_time' in row)) {
+    return { data: null, error: 'The roster needs date, start_time and end_time columns' }
+  }
+
+  const adminClient = getAdminClient()
+
+  // Workers in the team, matched by email or employee ID
+  const { data: members, error: membersError } = await adminClient
+    .from('team_members')
+    .select('user_id')
+    .eq('team_id', teamId)
+
+  if (membersError) {
+    console.error('[buildRosterImportPlan] Error fetching team members:', membersError)
+    return { data: null, error: 'Failed to fetch team members' }
+  }
+
+  const memberIds = (members || []).map((member: any) => member.user_id).filter(Boolean)
+  const { data: workers, error: workersError } = memberIds.length > 0
+    ? await adminClient
+      .from('users')
+      .select('id, email, employee_id, role, first_name, last_name, full_name')
+      .in('id', memberIds)
+      .eq('role', 'worker')
+    : { data: [], error: null }
+
+  if (workersError) {
+    console.error('[buildRosterImportPlan] Error fetching workers:', workersError)
+    return { data: null, error: 'Failed to fetch team members' }
+  }
+
+  const workersByEmail = new Map<string, any>()
+  const workersByEmployeeId = new Map<string, any>()
+  for (const worker of workers || []) {
+    if (worker.email) workersByEmail.set(worker.email.toLowerCase(), worker)
+    if (worker.employee_id) workersByEmployeeId.set(String(worker.employee_id).toLowerCase(), worker)
+  }
+
+  const todayStr = getTodayInTimeZone(await getTeamTimeZone(teamId))
+  const conflicts: RosterImportConflict[] = []
+  const parsed: RosterImportRow[] = []
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2
+    const email = cellText(row.email).toLowerCase()
+    const employeeId = cellText(row.employee_id).toLowerCase()
+    const label = email || employeeId || '(no worker)'
+    const date = parseRosterDate(row.date)
+    const conflict = (reason: string) => conflicts.push({ row: rowNumber, worker: label, date, reason })
+
+    if (Object.values(row).every(value => cellText(value) === '')) {
+      return // Blank line
+    }
+
+    const worker = (email && workersByEmail.get(email)) || (employeeId && workersByEmployeeId.get(employeeId))
+    if (!worker) {
+      conflict(email || employeeId ? 'Worker not found in your team' : 'Missing email or employee_id')
+      return
+    }
+    if (!date) {
+      conflict(`Invalid date "${cellText(row.date)}" - use YYYY-MM-DD or DD/MM/YYYY`)
+      return
+    }
+    if (date < todayStr) {
+      conflict('Date is in the past')
+      return
+    }
+
+    const startTime = parseRosterTime(row.start_time)
+    const endTime = parseRosterTime(row.end_time)
+    if (!startTime || !endTime) {
+      conflict('Invalid start_time or end_time - use HH:MM (24-hour) or 8:00 AM')
+      return
+    }
+    if (startTime === endTime) {
+      conflict('start_time and end_time cannot be the same')
+      return
+    }
+
+    const requiresDailyCheckin = parseRosterBoolean(row.requires_daily_checkin)
+    const dailyStart = parseRosterTime(row.daily_checkin_start_time)
+    const dailyEnd = parseRosterTime(row.daily_checkin_end_time)
+    if (requiresDailyCheckin && (!dailyStart || !dailyEnd || dailyStart === dailyEnd)) {
+      conflict('Daily check-in needs a daily_checkin_start_time and a different daily_checkin_end_time')
+      return
+    }
+
+    const checkInWindowStart = parseRosterTime(row.check_in_window_start)
+    const checkInWindowEnd = parseRosterTime(row.check_in_window_end)
+    const notes = cellText(row.notes)
+
+    parsed.push({
+      row: rowNumber,
+      worker_id: worker.id,
+      worker_name: formatUserFullName(worker),
+      scheduled_date: date,
+      start_time: startTime,
+      end_time: endTime,
+      starts_next_day: parseRosterBoolean(row.starts_next_day) || false,
+      // Columns left out of the sheet (or blank) keep an existing schedule's value
+      ...(requiresDailyCheckin !== undefined && { requires_daily_checkin: requiresDailyCheckin }),
+      ...(dailyStart && { daily_checkin_start_time: dailyStart }),
+      ...(dailyEnd && { daily_checkin_end_time: dailyEnd }),
+      ...(checkInWindowStart && { check_in_window_start: checkInWindowStart }),
+      ...(checkInWindowEnd && { check_in_window_end: checkInWindowEnd }),
+      ...(notes && { notes }),
+    })
+  })
+
+  const workerIds = [...new Set(parsed.map(row => row.worker_id))]
+  const dates = parsed.map(row => row.scheduled_date).sort()
+  let existingSchedules: any[] = []
+  let exceptions: any[] = []
+
+  if (parsed.length > 0) {
+    const [schedulesResult, exceptionsResult] = await Promise.all([
+      adminClient
+        .from('worker_schedules')
+        .select('id, worker_id, scheduled_date, start_time, end_time, starts_next_day, requires_daily_checkin, daily_checkin_start_time, daily_checkin_end_time, check_in_window_start, check_in_window_end, notes, is_active')
+        .in('worker_id', workerIds)
+        .is('day_of_week', null)
+        .gte('scheduled_date', dates[0])
+        .lte('scheduled_date', dates[dates.length - 1]),
+      adminClient
+        .from('worker_exceptions')
+        .select('id, user_id, exception_type, start_date, end_date, is_active, deactivated_at')
+        .in('user_id', workerIds)
+        .eq('is_active', true),
+    ])
+
+    if (schedulesResult.error || exceptionsResult.error) {
+      console.error('[buildRosterImportPlan] Error fetching schedules/exceptions:', schedulesResult.error || exceptionsResult.error)
+      return { data: null, error: 'Failed to fetch existing schedules' }
+    }
+    existingSchedules = schedulesResult.data || []
+    exceptions = exceptionsResult.data || []
+  }
+
+  const creates: RosterImportRow[] = []
+  const updates: RosterImportUpdate[] = []
+  const unchanged: RosterImportRow[] = []
+  const accepted: RosterImportRow[] = [] // Rows already in the plan, to catch overlaps within the file
+
+  for (const row of parsed) {
+    const conflict = (reason: string) => conflicts.push({ row: row.row, worker: row.worker_name, date: row.scheduled_date, reason })
+
+    const workerExceptions: WorkerException[] = exceptions.filter(exception => exception.user_id === row.worker_id)
+    const shiftDate = new Date(`${row.scheduled_date}T00:00:00`)
+    const exception = findConflictingException(workerExceptions, shiftDate, shiftDate)
+    if (exception) {
+      conflict(`Worker has an active ${getExceptionTypeLabel(exception.exception_type || 'other')} exception`)
+      continue
+    }
+
+    const duplicate = accepted.find(other =>
+      other.worker_id === row.worker_id &&
+      other.scheduled_date === row.scheduled_date &&
+      shiftSegmentsOverlap(other, row)
+    )
+    if (duplicate) {
+      conflict(`Overlaps row ${duplicate.row} for the same worker and date`)
+      continue
+    }
+
+    const sameDay = existingSchedules.filter(schedule =>
+      schedule.worker_id === row.worker_id && schedule.scheduled_date === row.scheduled_date
+    )
+    const match = sameDay.find(schedule =>
+      toTime(schedule.start_time) === row.start_time && !!schedule.starts_next_day === row.starts_next_day
+    )
+    const overlapping = sameDay.find(schedule =>
+      schedule !== match && schedule.is_active && shiftSegmentsOverlap(schedule, row)
+    )
+    if (overlapping) {
+      conflict(`Overlaps an existing ${toTime(overlapping.start_time)}-${toTime(overlapping.end_time)} schedule`)
+      continue
+    }
+
+    accepted.push(row)
+
+    if (!match) {
+      creates.push(row)
+      continue
+    }
+
+    const changes: Record<string, { from: any; to: any }> = {}
+    for (const field of UPDATABLE_FIELDS) {
+      const to = (row as any)[field]
+      if (to === undefined) continue
+      const from = field === 'notes' || field === 'requires_daily_checkin' ? match[field] ?? null : toTime(match[field])
+      if ((from ?? null) !== (to ?? null) && !(field === 'requires_daily_checkin' && !!from === to)) {
+        changes[field] = { from, to }
+      }
+    }
+    if (!match.is_active) {
+      changes.is_active = { from: false, to: true }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      unchanged.push(row)
+    } else {
+      updates.push({ ...row, id: match.id, changes })
+    }
+  }
+
+  conflicts.sort((a, b) => a.row - b.row)
+
+  return {
+    data: {
+      creates,
+      updates,
+      unchanged,
+      conflicts,
+      summary: {
+        rows: creates.length + updates.length + unchanged.length + conflicts.length,
+        creates: creates.length,
+        updates: updates.length,
+        unchanged: unchanged.length,
+        conflicts: conflicts.length,
+      },
+    },
+    error: null,
+  }
+}
+
+/**
+ * Write a roster import plan - all creates and updates in one transaction
+ * @returns { data: { created, updated }, error }
+ */
+export async function applyRosterImportPlan(
+  plan: RosterImportPlan,
+  teamId: string,
+  createdBy: string
+): Promise<{ data: { created: number; updated: number } | null; error: any }> {
+  const creates = plan.creates.map(row => ({
+    worker_id: row.worker_id,
+    team_id: teamId,
+    scheduled_date: row.scheduled_date,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    starts_next_day: row.starts_next_day,
+    requires_daily_checkin: row.requires_daily_checkin || false,
+    daily_checkin_start_time: row.daily_checkin_start_time || null,
+    daily_checkin_end_time: row.daily_checkin_end_time || null,
+    check_in_window_start: row.check_in_window_start || null,
+    check_in_window_end: row.check_in_window_end || null,
+    notes: row.notes || null,
+    created_by: createdBy,
+  }))
+
+  // Only changed fields are sent - the function keeps the rest
+  const updates = plan.updates.map(update => ({
+    id: update.id,
+    ...Object.fromEntries(Object.entries(update.changes).map(([field, change]) => [field, change.to])),
+  }))
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient.rpc('import_worker_schedules', {
+    p_creates: creates,
+    p_updates: updates,
+  })
+
+  if (error) {
+    return { data: null, error }
+  }
+  return { data: { created: data?.created ?? creates.length, updated: data?.updated ?? updates.length }, error: null }
+}
@@ -1,13 +1,43 @@
 /**
  * Schedule Utilities
  * Centralized functions for schedule matching and date calculations
+ * Dates are calendar dates (YYYY-MM-DD) at the team's site - get "today" from
+ * getTodayInTimeZone / resolveShiftDay, never from the server clock.
+ * A schedule's date is the shift date - the day the shift starts. Hours after midnight of an
+ * overnight shift, and segments marked starts_next_day, still belong to that date.
  */
 
 import { formatDateString, parseDateString } from './dateTime.js'
+import { addDaysToDateString, getDayOfWeekFromDateString, getZonedDateTime } from './timezone.js'
+import { getScheduleCheckInWindowRange, getScheduleShiftRange, getShiftRange } from './checkInWindow.js'
+import { parseRecurrenceRule, recurrenceMatchesDate, type RecurrenceRule } from './recurrenceRule.js'
+
+// Parsed RRULEs by rule string - schedules are matched day by day, so parse each rule once
+const parsedRules = new Map<string, RecurrenceRule | null>()
+
+function getParsedRule(ruleValue: string): RecurrenceRule | null {
+  if (!parsedRules.has(ruleValue)) {
+    const { data, error } = parseRecurrenceRule(ruleValue)
+    if (error) {
+      console.error(`[scheduleUtils] Ignoring invalid recurrence rule "${ruleValue}": ${error}`)
+    }
+    parsedRules.set(ruleValue, data)
+  }
+  return parsedRules.get(ruleValue) || null
+}
 
 /**
- * Check if a schedule matches a specific date
- * Handles both single-date and recurring schedules with effective/expiry dates
+ * Date string for a calendar date given as a string or a local-midnight Date (see parseDateString)
+ */
+function toDateString(date: Date | string): string {
+  return typeof date === 'string' ? date.split('T')[0] : formatDateString(date)
+}
+
+/**
+ * Check if a schedule matches a specific shift date
+ * Handles single-date, day_of_week and RRULE (recurrence_rule) schedules with effective/expiry dates,
+ * and skips the schedule's exclusion_dates
+ * An overnight shift only matches the date it starts on (see resolveShiftDay for the hours after midnight)
  * @param schedule - Schedule object from database
  * @param checkDateStr - Date string to check (YYYY-MM-DD format)
  * @param dayOfWeek - Day of week (0-6, Sunday=0)
@@ -18,8 +48,20 @@ export function scheduleMatchesDate(
   checkDateStr: string,
   dayOfWeek: number
 ): boolean {
+  if (schedule.exclusion_dates && schedule.exclusion_dates.includes(checkDateStr)) {
+    return false
+  }
+
+  // Check RRULE schedules - effective_date is DTSTART
+  if (schedule.recurrence_rule) {
+    const rule = getParsedRule(schedule.recurrence_rule)
+    if (!rule || !schedule.effective_date) return false
+    const expiryOk = !schedule.expiry_date || schedule.expiry_date >= checkDateStr
+    return expiryOk && recurrenceMatchesDate(rule, schedule.effective_date, checkDateStr)
+  }
+
   // Check single-date schedules
-  if (schedule.scheduled_date && !schedule.day_of_week) {
+  if (schedule.scheduled_date && (schedule.day_of_week === null || schedule.day_of_week === undefined)) {
     if (schedule.scheduled_date === checkDateStr) {
       // Check effective_date and expiry_date
       const effectiveOk = !schedule.effective_date || schedule.effective_date <= checkDateStr
@@ -30,7 +72,7 @@ export function scheduleMatchesDate(
   }
   
   // Check recurring schedules
-  if (!schedule.scheduled_date && schedule.day_of_week !== null) {
+  if (!schedule.scheduled_date && schedule.day_of_week !== null && schedule.day_of_week !== undefined) {
     if (schedule.day_of_week === dayOfWeek) {
       // Check effective_date and expiry_date
       const effectiveOk = !schedule.effective_date || schedule.effective_date <= checkDateStr
@@ -45,15 +87,18 @@ export function scheduleMatchesDate(
 
 /**
  * Get all scheduled dates for a worker within a date range
+ * Every date is matched exactly, so recurring rules only yield their real occurrences
  * @param schedules - Array of schedule objects
- * @param startDate - Start date (Date object)
- * @param endDate - End date (Date object)
+ * @param startDate - Start date (YYYY-MM-DD, or Date from parseDateString)
+ * @param endDate - End date (YYYY-MM-DD, or Date from parseDateString)
+ * @param holidays - Site holidays to leave out (no check-in required, see getTeamHolidays)
  * @returns Set of date strings (YYYY-MM-DD format)
  */
 export function getScheduledDatesInRange(
   schedules: any[],
-  startDate: Date,
-  endDate: Date
+  startDate: Date | string,
+  endDate: Date | string,
+  holidays?: Map<string, string>
 ): Set<string> {
   const scheduledDates = new Set<string>()
   
@@ -61,17 +106,11 @@ export function getScheduledDatesInRange(
     return scheduledDates
   }
   
-  const startDateStr = formatDateString(startDate)
-  const endDateStr = formatDateString(endDate)
+  const endDateStr = toDateString(endDate)
   
-  // Calculate day range
-  const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
-  
-  for (let dayOffset = 0; dayOffset <= daysDiff; dayOffset++) {
-    const checkDate = new Date(startDate)
-    checkDate.setDate(checkDate.getDate() + dayOffset)
-    const checkDateStr = formatDateString(checkDate)
-    const dayOfWeek = checkDate.getDay()
+  for (let checkDateStr = toDateString(startDate); checkDateStr <= endDateStr; checkDateStr = addDaysToDateString(checkDateStr, 1)) {
+    if (holidays?.has(checkDateStr)) continue
+    const dayOfWeek = getDayOfWeekFromDateString(checkDateStr)
     
     // Check if any schedule matches this date
     for (const schedule of schedules) {
@@ -88,27 +127,29 @@ export function getScheduledDatesInRange(
 /**
  * Find the next scheduled date after a given date
  * @param schedules - Array of schedule objects
- * @param fromDate - Date to start searching from (Date object)
+ * @param fromDate - Shift date to start searching from (YYYY-MM-DD, or Date from parseDateString) -
+ *                   pass resolveShiftDay().date so a shift still running past midnight isn't skipped over
  * @param maxDaysToCheck - Maximum days to look ahead (default: 90)
+ * @param holidays - Site holidays to skip (no check-in required, see getTeamHolidays)
  * @returns Date string (YYYY-MM-DD) or null if not found
  */
 export function findNextScheduledDate(
   schedules: any[],
-  fromDate: Date,
-  maxDaysToCheck: number = 90
+  fromDate: Date | string,
+  maxDaysToCheck: number = 90,
+  holidays?: Map<string, string>
 ): string | null {
   if (!schedules || schedules.length === 0) {
     return null
   }
   
-  const fromDateStr = formatDateString(fromDate)
+  const fromDateStr = toDateString(fromDate)
   
   // Check future dates
   for (let dayOffset = 1; dayOffset <= maxDaysToCheck; dayOffset++) {
-    const checkDate = new Date(fromDate)
-    checkDate.setDate(checkDate.getDate() + dayOffset)
-    const checkDateStr = formatDateString(checkDate)
-    const dayOfWeek = checkDate.getDay()
+    const checkDateStr = addDaysToDateString(fromDateStr, dayOffset)
+    if (holidays?.has(checkDateStr)) continue
+    const dayOfWeek = getDayOfWeekFromDateString(checkDateStr)
     
     for (const schedule of schedules) {
       if (scheduleMatchesDate(schedule, checkDateStr, dayOfWeek)) {
@@ -120,6 +161,101 @@ export function findNextScheduledDate(
   return null
 }
 
+/**
+ * Get the segments of a worker's shift on a date
+ * A split shift is several schedules for the same shift date. Single-date schedules replace the
+ * recurring pattern on their date.
+ * @param schedules - Worker's active schedules
+ * @param dateStr - Shift date (YYYY-MM-DD)
+ * @returns Segments in the order they are worked (empty if the worker isn't scheduled)
+ */
+export function getShiftSegmentsForDate(schedules: any[], dateStr: string): any[] {
+  const dayOfWeek = getDayOfWeekFromDateString(dateStr)
+  const matching = (schedules || []).filter(schedule => scheduleMatchesDate(schedule, dateStr, dayOfWeek))
+  if (matching.length === 0) return []
+
+  const singleDate = matching.filter(schedule => schedule.scheduled_date)
+  const segments = singleDate.length > 0 ? singleDate : matching
+  return [...segments].sort((a, b) => getScheduleShiftRange(a).start - getScheduleShiftRange(b).start)
+}
+
+/**
+ * Pick the schedule that starts a worker's shift on a date (its check-in window applies)
+ * @param schedules - Worker's active schedules
+ * @param dateStr - Shift date (YYYY-MM-DD)
+ * @returns First segment or null if the worker isn't scheduled
+ */
+export function getScheduleForDate(schedules: any[], dateStr: string): any | null {
+  return getShiftSegmentsForDate(schedules, dateStr)[0] || null
+}
+
+export interface ShiftDay {
+  /** Shift date the moment belongs to (YYYY-MM-DD) - check-ins and warm-ups are recorded against it */
+  date: string
+  /** Calendar date at the site (YYYY-MM-DD) */
+  localDate: string
+  /** Time at the site (HH:MM) */
+  localTime: string
+  /** Minutes from midnight of the shift date (negative the evening before, over 1440 after midnight) */
+  minutes: number
+  /** Schedule that starts the shift (null if the worker isn't scheduled) */
+  schedule: any | null
+  /** All segments of the shift, in order (one unless it's a split shift) */
+  segments: any[]
+  timeZone: string
+}
+
+/**
+ * Resolve which shift day a moment belongs to at a site
+ * Usually the site's calendar date, except:
+ * - in a check-in window that opens the evening before an early shift -> the next day's shift
+ * - in the part of a check-in window, or of an overnight or split shift, that runs past midnight -> the previous day's shift
+ * @param schedules - Worker's active schedules
+ * @param instant - Moment to resolve (e.g. now, or an offline capture time)
+ * @param timeZone - Site's IANA timezone (teams.timezone)
+ */
+export function resolveShiftDay(schedules: any[], instant: Date, timeZone: string): ShiftDay {
+  const { date: localDate, time: localTime } = getZonedDateTime(instant, timeZone)
+  const [hours, minutes] = localTime.split(':').map(Number)
+  const minuteOfDay = hours * 60 + minutes
+
+  const build = (dayOffset: number): ShiftDay => {
+    const date = addDaysToDateString(localDate, dayOffset)
+    const segments = getShiftSegmentsForDate(schedules, date)
+    return {
+      date,
+      localDate,
+      localTime,
+      minutes: minuteOfDay - dayOffset * 24 * 60,
+      schedule: segments[0] || null,
+      segments,
+      timeZone,
+    }
+  }
+
+  // Today's window first, then a window opening tonight for tomorrow, then last night's window
+  const candidates = [0, 1, -1].map(build)
+
+  for (const candidate of candidates) {
+    if (!candidate.schedule) continue
+    const range = getScheduleCheckInWindowRange(candidate.schedule)
+    if (candidate.minutes >= range.windowStart && candidate.minutes <= range.windowEnd) {
+      return candidate
+    }
+  }
+
+  // Still working an overnight shift that started yesterday (and today's shift hasn't begun)
+  const [today, , yesterday] = candidates
+  if (yesterday.schedule && yesterday.minutes < getShiftRange(yesterday.segments).end) {
+    const todayStarted = today.schedule && today.minutes >= getShiftRange(today.segments).start
+    if (!todayStarted) {
+      return yesterday
+    }
+  }
+
+  return today
+}
+
 /**
  * Format date for display
  * @param dateStr - Date string (YYYY-MM-DD format)
@@ -0,0 +1,143 @@
+/**
+ * Site Holiday Utilities
+ * Public holiday calendar per team (site_holidays, see migration_add_schedule_recurrence_rules.sql).
+ * Workers stay rostered on a holiday, but no check-in is required - holidays are left out of
+ * missed check-in detection, streaks and compliance the same way exemptions are.
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+export interface SiteHoliday {
+  id: string
+  team_id: string
+  holiday_date: string
+  name: string
+}
+
+/**
+ * Get holidays for several teams within a date range
+ * @param teamIds - Team IDs
+ * @param startDate - First date (YYYY-MM-DD)
+ * @param endDate - Last date (YYYY-MM-DD)
+ * @returns Map of team ID to a map of holiday date (YYYY-MM-DD) to holiday name
+ */
+export async function getHolidaysByTeam(
+  teamIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<Map<string, Map<string, string>>> {
+  const holidaysByTeam = new Map<string, Map<string, string>>()
+  const uniqueIds = [...new Set(teamIds.filter(Boolean))]
+  if (uniqueIds.length === 0) {
+    return holidaysByTeam
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('site_holidays')
+    .select('team_id, holiday_date, name')
+    .in('team_id', uniqueIds)
+    .gte('holiday_date', startDate)
+    .lte('holiday_date', endDate)
+
+  if (error) {
+    console.error('Error fetching site holidays:', error)
+    return holidaysByTeam
+  }
+
+  for (const holiday of data || []) {
+    if (!holidaysByTeam.has(holiday.team_id)) {
+      holidaysByTeam.set(holiday.team_id, new Map())
+    }
+    holidaysByTeam.get(holiday.team_id)!.set(holiday.holiday_date, holiday.name)
+  }
+  return holidaysByTeam
+}
+
+/**
+ * Get a team's holidays within a date range
+ * @returns Map of holiday date (YYYY-MM-DD) to holiday name (empty if the team has none)
+ */
+export async function getTeamHolidays(
+  teamId: string | null | undefined,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, string>> {
+  if (!teamId) {
+    return new Map()
+  }
+  const holidaysByTeam = await getHolidaysByTeam([teamId], startDate, endDate)
+  return holidaysByTeam.get(teamId) || new Map()
+}
+
+/**
+ * Get the holidays of a worker's team within a date range
+ * @returns Map of holiday date (YYYY-MM-DD) to holiday name (empty if the worker isn't in a team)
+ */
+export async function getWorkerHolidays(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, string>> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('team_members')
+    .select('team_id')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching worker team for holidays:', error)
+  }
+
+  return getTeamHolidays(data?.team_id, startDate, endDate)
+}
+
+/**
+ * Parse holidays from an iCalendar file (e.g. a state government public holiday calendar)
+ * Each VEVENT's DTSTART date and SUMMARY become one holiday; multi-day events use their first day.
+ * @returns { data, error } - holidays sorted by date
+ */
+export function parseHolidayCalendar(text: string): {
+  data: Array<{ date: string; name: string }>
+  error: string | null
+} {
+  if (!text || typeof text !== 'string' || !/BEGIN:VCALENDAR/i.test(text)) {
+    return { data: [], error: 'Not an iCalendar file (missing BEGIN:VCALENDAR)' }
+  }
+
+  const holidays: Array<{ date: string; name: string }> = []
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  let current: { date: string | null; name: string | null } | null = null
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (/^BEGIN:VEVENT$/i.test(trimmed)) {
+      current = { date: null, name: null }
+    } else if (/^END:VEVENT$/i.test(trimmed)) {
+      if (current?.date) {
+        holidays.push({ date: current.date, name: current.name || 'Public holiday' })
+      }
+      current = null
+    } else if (current) {
+      const separator = trimmed.indexOf(':')
+      if (separator === -1) continue
+      const name = trimmed.slice(0, separator).split(';')[0].toUpperCase()
+      const value = trimmed.slice(separator + 1)
+      if (name === 'DTSTART') {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+        current.date = match ? `${match[1]}-${match[2]}-${match[3]}` : null
+      } else if (name === 'SUMMARY') {
+        current.name = value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ').trim().slice(0, 200)
+      }
+    }
+  }
+
+  if (holidays.length === 0) {
+    return { data: [], error: 'No holidays found in the calendar' }
+  }
+
+  return { data: holidays.sort((a, b) => a.date.localeCompare(b.date)), error: null }
+}
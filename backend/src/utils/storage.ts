@@ -0,0 +1,240 @@
+/**
+ * File Storage
+ * Stores uploaded files (incident photos, medical certificates) outside the database.
+ *
+ * Backends are pluggable and selected by environment:
+ *   STORAGE_BACKEND = local | s3   (default: local)
+ *   STORAGE_LOCAL_DIR (local backend, default: ./uploads)
+ *   S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ *     (falls back to the R2_* variables for Cloudflare R2)
+ *   STORAGE_SIGNING_SECRET - HMAC secret for download URLs (required, checked at startup)
+ *   STORAGE_URL_EXPIRY_SECONDS (default: 300)
+ *
+ * Files are never served directly: callers check the viewer's access to the case and then
+ * hand out a signed, expiring URL for GET /api/attachments/:id/download.
+ * Tests/dev can swap the backend at runtime with registerStorage().
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { dirname, resolve, sep } from 'path'
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
+
+export type StorageBackendName = 'local' | 's3'
+
+export interface StorageBackend {
+  name: StorageBackendName
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer>
+  delete(key: string): Promise<void>
+}
+
+const DEFAULT_URL_EXPIRY_SECONDS = 300
+
+// ============================================
+// Backends
+// ============================================
+
+/**
+ * Local filesystem backend (dev/tests)
+ */
+export function createLocalStorage(baseDir: string = process.env.STORAGE_LOCAL_DIR || './uploads'): StorageBackend {
+  const root = resolve(baseDir)
+
+  // Keys are generated by buildStorageKey, but never let one escape the storage directory
+  const pathFor = (key: string): string => {
+    const fullPath = resolve(root, key)
+    if (!fullPath.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return fullPath
+  }
+
+  return {
+    name: 'local',
+    async put(key, body) {
+      const fullPath = pathFor(key)
+      await mkdir(dirname(fullPath), { recursive: true })
+      await writeFile(fullPath, body)
+    },
+    async get(key) {
+      return readFile(pathFor(key))
+    },
+    async delete(key) {
+      await unlink(pathFor(key)).catch((error: any) => {
+        if (error?.code !== 'ENOENT') throw error
+      })
+    },
+  }
+}
+
+/**
+ * S3-compatible backend (AWS S3, Cloudflare R2, MinIO)
+ */
+export function createS3Storage(): StorageBackend {
+  const bucket = process.env.S3_BUCKET || process.env.R2_BUCKET_NAME
+  if (!bucket) {
+    throw new Error('S3_BUCKET (or R2_BUCKET_NAME) must be set when STORAGE_BACKEND=s3')
+  }
+
+  const endpoint = process.env.S3_ENDPOINT ||
+    (process.env.R2_ACCOUNT_ID ? `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com` : undefined)
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.R2_ACCESS_KEY_ID
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.R2_SECRET_ACCESS_KEY
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'auto',
+    endpoint,
+    forcePathStyle: !!process.env.S3_ENDPOINT,
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  })
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }))
+    },
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+      if (!response.Body) {
+        throw new Error(`Object not found: ${key}`)
+      }
+      return Buffer.from(await response.Body.transformToByteArray())
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+  }
+}
+
+const backends = new Map<StorageBackendName, StorageBackend>()
+
+/**
+ * Override a storage backend (tests, custom providers)
+ */
+export function registerStorage(backend: StorageBackend): void {
+  backends.set(backend.name, backend)
+}
+
+/**
+ * Get a storage backend, creating it from environment on first use
+ * @param name - Backend to use (default: STORAGE_BACKEND). Pass the backend an attachment
+ *               was stored with so files stay readable after switching backends.
+ */
+export function getStorage(name?: string): StorageBackend {
+  const configured = (name || process.env.STORAGE_BACKEND || 'local') as StorageBackendName
+  const existing = backends.get(configured)
+  if (existing) return existing
+
+  let backend: StorageBackend
+  if (configured === 's3') {
+    backend = createS3Storage()
+  } else {
+    if (configured !== 'local') {
+      console.warn(`[storage] Unknown storage backend "${configured}" - using local`)
+    }
+    backend = createLocalStorage()
+  }
+
+  backends.set(backend.name, backend)
+  return backend
+}
+
+/**
+ * Build a unique storage key for an uploaded file
+ * @param prefix - Folder, e.g. cases/<caseId>
+ * @param fileName - Original file name (only the extension is kept)
+ * @returns Key like cases/<caseId>/<uuid>.jpg
+ */
+export function buildStorageKey(prefix: string, fileName: string): string {
+  const extension = (fileName.match(/\.([a-zA-Z0-9]{1,10})$/)?.[1] || 'bin').toLowerCase()
+  return `${prefix}/${randomUUID()}.${extension}`
+}
+
+// ============================================
+// Signed download URLs
+// ============================================
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET must be set to sign download URLs')
+  }
+  if (secret === process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('STORAGE_SIGNING_SECRET must not reuse SUPABASE_SERVICE_ROLE_KEY')
+  }
+  return secret
+}
+
+/**
+ * Check the storage configuration at startup so a missing signing secret stops the server
+ * instead of failing the first download
+ */
+export function validateStorageConfig(): void {
+  getSigningSecret()
+}
+
+function sign(attachmentId: string, viewerId: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${attachmentId}:${viewerId}:${expires}`)
+    .digest('base64url')
+}
+
+/**
+ * Create a signed, expiring download URL for an attachment
+ * Only call this after checking the viewer can access the attachment's case.
+ * @param attachmentId - Attachment ID
+ * @param viewerId - User the URL is issued to
+ * @param expiresInSeconds - Lifetime (default: STORAGE_URL_EXPIRY_SECONDS or 5 minutes)
+ * @returns { url, expiresAt } - url is relative to the API origin
+ */
+export function createSignedDownloadUrl(
+  attachmentId: string,
+  viewerId: string,
+  expiresInSeconds: number = Number(process.env.STORAGE_URL_EXPIRY_SECONDS) || DEFAULT_URL_EXPIRY_SECONDS
+): { url: string; expiresAt: string } {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+  const params = new URLSearchParams({
+    viewer: viewerId,
+    expires: String(expires),
+    signature: sign(attachmentId, viewerId, expires),
+  })
+
+  return {
+    url: `/api/attachments/${attachmentId}/download?${params.toString()}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  }
+}
+
+/**
+ * Verify a signed download URL
+ * @returns { valid, error? }
+ */
+export function verifyDownloadSignature(
+  attachmentId: string,
+  viewerId: string | undefined,
+  expires: string | undefined,
+  signature: string | undefined
+): { valid: boolean; error?: string } {
+  if (!viewerId || !expires || !signature) {
+    return { valid: false, error: 'Missing signature' }
+  }
+
+  const expiresAt = Number(expires)
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'Download link has expired' }
+  }
+
+  const expected = Buffer.from(sign(attachmentId, viewerId, expiresAt))
+  const provided = Buffer.from(signature)
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, error: 'Invalid signature' }
+  }
+
+  return { valid: true }
+}
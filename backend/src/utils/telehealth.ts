@@ -0,0 +1,335 @@
+/**
+ * Telehealth
+ * Video appointments (appointments.visit_mode = 'telehealth'). Each appointment gets its own room
+ * from a video provider, created on first join. Participants get a personal, expiring join link,
+ * and only inside the join window (shortly before the start until a while after the scheduled end).
+ *
+ * Providers are pluggable and selected by environment:
+ *   VIDEO_PROVIDER = local | jitsi   (default: local)
+ *   JITSI_BASE_URL                  self-hosted Jitsi Meet, e.g. https://meet.your-domain.com
+ *   JITSI_APP_ID, JITSI_APP_SECRET  token authentication (JWT) for a secured Jitsi deployment - optional
+ *   TELEHEALTH_LINK_SECRET          HMAC secret for local stub links (required - its own value, not the service role key)
+ *   TELEHEALTH_JOIN_EARLY_MINUTES   minutes before the start the room opens (default: 10)
+ *   TELEHEALTH_JOIN_LATE_MINUTES    minutes after the scheduled end the room stays open (default: 30)
+ *
+ * The local provider is a stub for dev/tests: its links point at GET /api/telehealth/local/:roomId,
+ * which only checks the signature and expiry. Tests can swap providers with registerVideoProvider().
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { getAdminClient } from './adminClient.js'
+import { getAppointmentStart } from './appointmentReminders.js'
+
+export type VisitMode = 'in_person' | 'telehealth'
+
+export const VISIT_MODES: VisitMode[] = ['in_person', 'telehealth']
+
+export interface VideoParticipant {
+  userId: string
+  name: string
+  role: 'clinician' | 'worker'
+}
+
+export interface VideoProvider {
+  name: string
+  // Returns the provider's room ID
+  createRoom(appointmentId: string): Promise<string>
+  // Returns a join URL (absolute, or relative to the API origin)
+  createJoinLink(roomId: string, participant: VideoParticipant, expiresAt: Date): Promise<string>
+}
+
+export interface JoinWindow {
+  opensAt: Date
+  closesAt: Date
+}
+
+const DEFAULT_JOIN_EARLY_MINUTES = 10
+const DEFAULT_JOIN_LATE_MINUTES = 30
+
+// ============================================
+// Providers
+// ============================================
+
+function getLinkSecret(): string {
+  const secret = process.env.TELEHEALTH_LINK_SECRET
+  if (!secret) {
+    throw new Error('TELEHEALTH_LINK_SECRET must be set to sign video room links')
+  }
+  if (secret === process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('TELEHEALTH_LINK_SECRET must not reuse SUPABASE_SERVICE_ROLE_KEY')
+  }
+  return secret
+}
+
+/**
+ * Check the telehealth configuration at startup so a missing link secret stops the server
+ * instead of failing the first join - rooms keep the provider they were created with, so
+ * local links can be issued even after VIDEO_PROVIDER changes
+ */
+export function validateTelehealthConfig(): void {
+  getLinkSecret()
+}
+
+function signLocalLink(roomId: string, participantId: string, expires: number): string {
+  return createHmac('sha256', getLinkSecret())
+    .update(`${roomId}:${participantId}:${expires}`)
+    .digest('base64url')
+}
+
+/**
+ * Local stub provider (dev/tests) - no real video, links are signed and expire
+ */
+export function createLocalVideoProvider(): VideoProvider {
+  return {
+    name: 'local',
+    async createRoom() {
+      return `local-${randomUUID()}`
+    },
+    async createJoinLink(roomId, participant, expiresAt) {
+      const expires = Math.floor(expiresAt.getTime() / 1000)
+      const params = new URLSearchParams({
+        participant: participant.userId,
+        name: participant.name,
+        role: participant.role,
+        expires: String(expires),
+        signature: signLocalLink(roomId, participant.userId, expires),
+      })
+      return `/api/telehealth/local/${encodeURIComponent(roomId)}?${params.toString()}`
+    },
+  }
+}
+
+/**
+ * Self-hosted Jitsi Meet provider
+ * With JITSI_APP_ID/JITSI_APP_SECRET each link carries a JWT scoped to the room that expires with
+ * the join window (clinicians join as moderators); without them the room name is the only secret.
+ */
+export function createJitsiVideoProvider(): VideoProvider {
+  const baseUrl = process.env.JITSI_BASE_URL?.replace(/\/+$/, '')
+  if (!baseUrl) {
+    throw new Error('JITSI_BASE_URL must be set when VIDEO_PROVIDER=jitsi')
+  }
+  const appId = process.env.JITSI_APP_ID
+  const appSecret = process.env.JITSI_APP_SECRET
+
+  return {
+    name: 'jitsi',
+    async createRoom() {
+      // Unguessable - anyone with the room name can join an unsecured deployment
+      return `whs-${randomUUID()}`
+    },
+    async createJoinLink(roomId, participant, expiresAt) {
+      const roomUrl = `${baseUrl}/${encodeURIComponent(roomId)}`
+      const displayName = `#userInfo.displayName=${encodeURIComponent(JSON.stringify(participant.name))}`
+
+      if (!appId || !appSecret) {
+        return `${roomUrl}${displayName}`
+      }
+
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+      const header = encode({ alg: 'HS256', typ: 'JWT' })
+      const payload = encode({
+        aud: 'jitsi',
+        iss: appId,
+        sub: new URL(baseUrl).hostname,
+        room: roomId,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+        context: {
+          user: {
+            id: participant.userId,
+            name: participant.name,
+            moderator: participant.role === 'clinician',
+          },
+        },
+      })
+      const signature = createHmac('sha256', appSecret).update(`${header}.${payload}`).digest('base64url')
+      return `${roomUrl}?jwt=${header}.${payload}.${signature}${displayName}`
+    },
+  }
+}
+
+const providers = new Map<string, VideoProvider>()
+
+/**
+ * Override or add a video provider (tests, custom providers)
+ */
+export function registerVideoProvider(provider: VideoProvider): void {
+  providers.set(provider.name, provider)
+}
+
+/**
+ * Get a provider by name (the one a room was created with), or the configured provider
+ */
+function getVideoProvider(name?: string | null): VideoProvider {
+  const providerName = name || process.env.VIDEO_PROVIDER || 'local'
+  const existing = providers.get(providerName)
+  if (existing) return existing
+
+  let provider: VideoProvider
+  if (providerName === 'jitsi') {
+    provider = createJitsiVideoProvider()
+  } else {
+    if (providerName !== 'local') {
+      console.warn(`[telehealth] Unknown video provider "${providerName}" - using local stub`)
+    }
+    provider = createLocalVideoProvider()
+  }
+
+  providers.set(provider.name, provider)
+  return provider
+}
+
+/**
+ * Verify a local stub join link
+ * @returns { valid, error? }
+ */
+export function verifyLocalJoinLink(
+  roomId: string,
+  participantId: string | undefined,
+  expires: string | undefined,
+  signature: string | undefined
+): { valid: boolean; error?: string } {
+  if (!participantId || !expires || !signature) {
+    return { valid: false, error: 'Missing signature' }
+  }
+
+  const expiresAt = Number(expires)
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'Join link has expired' }
+  }
+
+  const expected = Buffer.from(signLocalLink(roomId, participantId, expiresAt))
+  const provided = Buffer.from(signature)
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, error: 'Invalid join link' }
+  }
+
+  return { valid: true }
+}
+
+// ============================================
+// Join window & sessions
+// ============================================
+
+function getMinutesSetting(value: string | undefined, fallback: number): number {
+  const minutes = Number(value)
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : fallback
+}
+
+/**
+ * When participants can join a telehealth appointment
+ * @param timeZone - Clinician's booking timezone
+ */
+export function getJoinWindow(
+  appointment: { appointment_date: string; appointment_time: string; duration_minutes?: number | null },
+  timeZone: string
+): JoinWindow {
+  const start = getAppointmentStart(appointment, timeZone)
+  const early = getMinutesSetting(process.env.TELEHEALTH_JOIN_EARLY_MINUTES, DEFAULT_JOIN_EARLY_MINUTES)
+  const late = getMinutesSetting(process.env.TELEHEALTH_JOIN_LATE_MINUTES, DEFAULT_JOIN_LATE_MINUTES)
+
+  return {
+    opensAt: new Date(start.getTime() - early * 60000),
+    closesAt: new Date(start.getTime() + ((appointment.duration_minutes || 30) + late) * 60000),
+  }
+}
+
+/**
+ * Join window for API responses - only for active telehealth appointments
+ */
+export function formatJoinWindow(appointment: any, timeZone: string): { opensAt: string; closesAt: string } | null {
+  if (appointment.visit_mode !== 'telehealth' || !['pending', 'confirmed'].includes(appointment.status)) {
+    return null
+  }
+  const window = getJoinWindow(appointment, timeZone)
+  return { opensAt: window.opensAt.toISOString(), closesAt: window.closesAt.toISOString() }
+}
+
+/**
+ * Issue a participant's join link, creating the appointment's room on first use and recording
+ * the session start. Callers check access, visit mode, status and the join window first.
+ * @param appointment - Appointment row (id, video_provider, video_room_id)
+ * @param expiresAt - Link expiry (end of the join window)
+ */
+export async function issueJoinLink(
+  appointment: { id: string; video_provider: string | null; video_room_id: string | null },
+  participant: VideoParticipant,
+  expiresAt: Date
+): Promise<{ data: { url: string; expiresAt: string } | null; error: string | null }> {
+  try {
+    const adminClient = getAdminClient()
+    let providerName = appointment.video_provider
+    let roomId = appointment.video_room_id
+
+    if (!roomId) {
+      const provider = getVideoProvider()
+      const newRoomId = await provider.createRoom(appointment.id)
+
+      // Conditional update - if the other participant created the room first, use theirs
+      const { data: claimed, error: claimError } = await adminClient
+        .from('appointments')
+        .update({ video_provider: provider.name, video_room_id: newRoomId })
+        .eq('id', appointment.id)
+        .is('video_room_id', null)
+        .select('video_provider, video_room_id')
+
+      if (claimError) {
+        return { data: null, error: claimError.message }
+      }
+
+      if (claimed && claimed.length > 0) {
+        providerName = claimed[0].video_provider
+        roomId = claimed[0].video_room_id
+      } else {
+        const { data: current, error: currentError } = await adminClient
+          .from('appointments')
+          .select('video_provider, video_room_id')
+          .eq('id', appointment.id)
+          .single()
+        if (currentError || !current?.video_room_id) {
+          return { data: null, error: currentError?.message || 'Video room could not be created' }
+        }
+        providerName = current.video_provider
+        roomId = current.video_room_id
+      }
+    }
+
+    const url = await getVideoProvider(providerName).createJoinLink(roomId!, participant, expiresAt)
+
+    // First participant in starts the session
+    const { error: startError } = await adminClient
+      .from('appointments')
+      .update({ session_started_at: new Date().toISOString() })
+      .eq('id', appointment.id)
+      .is('session_started_at', null)
+
+    if (startError) {
+      console.error('[telehealth] Error recording session start:', startError)
+    }
+
+    return { data: { url, expiresAt: expiresAt.toISOString() }, error: null }
+  } catch (error: any) {
+    return { data: null, error: error.message || 'Failed to create join link' }
+  }
+}
+
+/**
+ * Record the end of a telehealth session (no-op if it never started or already ended)
+ * @returns The recorded end time, or null
+ */
+export async function endTelehealthSession(appointmentId: string): Promise<{ data: string | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  const endedAt = new Date().toISOString()
+  const { data, error } = await adminClient
+    .from('appointments')
+    .update({ session_ended_at: endedAt })
+    .eq('id', appointmentId)
+    .not('session_started_at', 'is', null)
+    .is('session_ended_at', null)
+    .select('id')
+
+  if (error) {
+    return { data: null, error: error.message }
+  }
+  return { data: data && data.length > 0 ? endedAt : null, error: null }
+}
@@ -0,0 +1,215 @@
+/**
+ * Timezone Utilities
+ * Teams (sites) carry an IANA timezone (teams.timezone, see migration_add_team_timezones.sql).
+ * "Today", check-in windows and schedule times are the site's wall-clock time, never the
+ * server's or UTC - a Perth crew's 06:00 shift is 06:00 in Australia/Perth.
+ *
+ * Environment:
+ *   DEFAULT_TIMEZONE   zone for teams without one set (default: Australia/Sydney)
+ */
+
+import { getAdminClient } from './adminClient.js'
+
+/**
+ * Timezone used for teams without one set (and workers without a team)
+ */
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEFAULT_TIMEZONE
+  return configured && isValidTimeZone(configured) ? configured : 'Australia/Sydney'
+}
+
+/**
+ * Check if a string is an IANA timezone the runtime knows (e.g. 'Australia/Perth')
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (!timeZone || typeof timeZone !== 'string') {
+    return false
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ * @returns date (YYYY-MM-DD), time (HH:MM) and dayOfWeek (0-6, Sunday=0)
+ */
+export function getZonedDateTime(
+  instant: Date,
+  timeZone: string
+): { date: string; time: string; dayOfWeek: number } {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value
+  }
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`
+  return {
+    date,
+    time: `${parts.hour}:${parts.minute}`,
+    dayOfWeek: getDayOfWeekFromDateString(date),
+  }
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone
+ */
+export function getTodayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return getZonedDateTime(now, timeZone).date
+}
+
+/**
+ * Day of week of a calendar date (0-6, Sunday=0) - independent of any timezone
+ */
+export function getDayOfWeekFromDateString(dateStr: string): number {
+  const [year, month, day] = dateStr.split('T')[0].split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+/**
+ * Check if a value is a real calendar date (YYYY-MM-DD) - rejects e.g. 2026-02-30
+ */
+export function isCalendarDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false
+  }
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Add days to a calendar date (YYYY-MM-DD) - independent of any timezone
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('T')[0].split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const { date, time } = getZonedDateTime(instant, timeZone)
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes)
+  return Math.round((wallClockAsUtc - Math.floor(instant.getTime() / 60000) * 60000) / 60000)
+}
+
+/**
+ * The instant a wall-clock date and time occurs in a timezone
+ * Times skipped by a daylight saving change (e.g. 02:30 on the spring-forward night) resolve an hour later.
+ * @param dateStr - Date (YYYY-MM-DD)
+ * @param time - Time (HH:MM or HH:MM:SS)
+ */
+export function zonedTimeToDate(dateStr: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateStr.split('T')[0].split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  // Offset at the guess, then again at the corrected instant (handles DST boundaries)
+  let instant = wallClockAsUtc - getOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000
+  instant = wallClockAsUtc - getOffsetMinutes(new Date(instant), timeZone) * 60000
+
+  // Skipped wall-clock time - the offset from before the change lands after it, an hour later
+  const zoned = getZonedDateTime(new Date(instant), timeZone)
+  if (zoned.date !== dateStr.split('T')[0] || zoned.time !== `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`) {
+    const offsetBefore = Math.min(
+      getOffsetMinutes(new Date(wallClockAsUtc - 86400000), timeZone),
+      getOffsetMinutes(new Date(wallClockAsUtc + 86400000), timeZone)
+    )
+    instant = wallClockAsUtc - offsetBefore * 60000
+  }
+  return new Date(instant)
+}
+
+/**
+ * Get a team's timezone (default timezone if not set)
+ */
+export async function getTeamTimeZone(teamId: string | null | undefined): Promise<string> {
+  if (!teamId) {
+    return getDefaultTimeZone()
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('teams')
+    .select('timezone')
+    .eq('id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching team timezone:', error)
+  }
+
+  return isValidTimeZone(data?.timezone) ? data.timezone : getDefaultTimeZone()
+}
+
+/**
+ * Get the timezone of a worker's team (default timezone if not in a team)
+ */
+export async function getWorkerTimeZone(userId: string): Promise<string> {
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('team_members')
+    .select('teams(timezone)')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching worker timezone:', error)
+  }
+
+  const team: any = Array.isArray(data?.teams) ? data.teams[0] : data?.teams
+  return isValidTimeZone(team?.timezone) ? team.timezone : getDefaultTimeZone()
+}
+
+/**
+ * Get timezones for several teams at once
+ * @returns Map of team ID to timezone (teams without one map to the default timezone)
+ */
+export async function getTeamTimeZones(teamIds: string[]): Promise<Map<string, string>> {
+  const timeZones = new Map<string, string>()
+  const uniqueIds = [...new Set(teamIds.filter(Boolean))]
+  if (uniqueIds.length === 0) {
+    return timeZones
+  }
+
+  const adminClient = getAdminClient()
+  const { data, error } = await adminClient
+    .from('teams')
+    .select('id, timezone')
+    .in('id', uniqueIds)
+
+  if (error) {
+    console.error('Error fetching team timezones:', error)
+  }
+
+  const defaultTimeZone = getDefaultTimeZone()
+  for (const team of data || []) {
+    timeZones.set(team.id, isValidTimeZone(team.timezone) ? team.timezone : defaultTimeZone)
+  }
+  return timeZones
+}
@@ -15,10 +15,13 @@ export interface CreateUserInput {
   role: string
   first_name: string
   last_name: string
+  organization_id?: string
   business_name?: string
   business_registration_number?: string
   gender?: 'male' | 'female'
   date_of_birth?: string
+  quick_login_code?: string
+  employee_id?: string
 }
 
 export interface CreateUserResult {
@@ -124,7 +127,7 @@ export async function createUserAccount(input: CreateUserInput): Promise<CreateU
       return { success: false, error: validation.error }
     }
 
-    const { email, password, role, first_name, last_name, business_name, business_registration_number, gender, date_of_birth } = input
+    const { email, password, role, first_name, last_name, organization_id, business_name, business_registration_number, gender, date_of_birth, quick_login_code, employee_id } = input
 
     // Normalize inputs
     const trimmedFirstName = first_name.trim()
@@ -178,6 +181,7 @@ export async function createUserAccount(input: CreateUserInput): Promise<CreateU
       last_name: trimmedLastName,
       full_name: fullName,
       password_hash: hashedPassword,
+      organization_id: organization_id || null,
       created_at: new Date().toISOString(),
     }
 
@@ -188,6 +192,12 @@ export async function createUserAccount(input: CreateUserInput): Promise<CreateU
     if (date_of_birth) {
       userInsertData.date_of_birth = date_of_birth
     }
+    if (quick_login_code) {
+      userInsertData.quick_login_code = quick_login_code
+    }
+    if (employee_id) {
+      userInsertData.employee_id = employee_id
+    }
 
     // Handle business info based on role
     // For supervisors: business_name and business_registration_number are REQUIRED (automatically inherited from executive)
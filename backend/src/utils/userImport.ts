@@ -0,0 +1,714 @@
+/**
+ * Bulk User Onboarding
+ * Supervisors (their teams) and admins (any team) onboard a site's workers from a CSV/XLSX sheet:
+ *   email, first_name, last_name, date_of_birth, team (name or ID)
+ *   optional: gender, phone, employee_id
+ *
+ * Every upload is stored as a batch with one row per worker (user_import_batches /
+ * user_import_rows, see migration_add_user_imports.sql). processUserImportBatch() validates and
+ * creates up to USER_IMPORT_CHUNK_SIZE pending rows per call via createUserAccount(), adds each
+ * to its team and generates a temporary password and quick-login PIN. The browser calls it again
+ * until no rows remain. Row status is saved as it goes, so a batch that partially failed (or was
+ * interrupted) is resumed by processing it again - created rows are never created twice.
+ * Passwords are only returned by the run that created them (credentials sheet). The browser
+ * confirms each chunk's credentials (markUserImportCredentialsDelivered); created rows left
+ * unconfirmed get a new temporary password and PIN when the batch is resumed.
+ */
+
+import { randomInt } from 'crypto'
+import bcrypt from 'bcrypt'
+import { supabase } from '../lib/supabase.js'
+import { getAdminClient } from './adminClient.js'
+import { validateMinimumAge } from './ageUtils.js'
+import { createUserAccount } from './userCreation.js'
+import { generateUniquePinCode } from './quickLoginCode.js'
+import { getOrganization, type Organization } from './organizations.js'
+import { normalizeHeader, parseRosterDate } from './rosterImport.js'
+import { validateEmail, validateStringInput } from './validationUtils.js'
+
+export const USER_IMPORT_MAX_ROWS = 1000
+
+// Rows created per request - keeps each request (and the credentials it returns) small
+export const USER_IMPORT_CHUNK_SIZE = 50
+
+// A run that hasn't finished after this long is treated as crashed and can be resumed
+const PROCESSING_TIMEOUT_MS = 15 * 60 * 1000
+
+const HEADER_ALIASES: Record<string, string> = {
+  email_address: 'email',
+  first: 'first_name',
+  firstname: 'first_name',
+  given_name: 'first_name',
+  last: 'last_name',
+  lastname: 'last_name',
+  surname: 'last_name',
+  family_name: 'last_name',
+  dob: 'date_of_birth',
+  birth_date: 'date_of_birth',
+  birthdate: 'date_of_birth',
+  sex: 'gender',
+  team_name: 'team',
+  team_id: 'team',
+  crew: 'team',
+  mobile: 'phone',
+  phone_number: 'phone',
+  employee_number: 'employee_id',
+  employee_no: 'employee_id',
+  emp_id: 'employee_id',
+  staff_id: 'employee_id',
+}
+
+export type UserImportRowStatus = 'pending' | 'created' | 'skipped' | 'failed'
+
+export interface UserImportBatch {
+  id: string
+  created_by: string
+  file_name: string | null
+  status: 'pending' | 'processing' | 'completed' | 'partial'
+  total_rows: number
+  created_count: number
+  skipped_count: number
+  failed_count: number
+  created_at: string
+  completed_at: string | null
+}
+
+export interface UserImportRow {
+  id: string
+  row_number: number
+  email: string
+  first_name: string
+  last_name: string
+  date_of_birth: string
+  gender: string
+  team: string
+  phone: string
+  employee_id: string
+  status: UserImportRowStatus
+  error: string | null
+  user_id: string | null
+  team_id: string | null
+  credentials_delivered_at: string | null
+}
+
+/** Sign-in details for a worker created by this run */
+export interface UserImportCredential {
+  row_number: number
+  email: string
+  full_name: string
+  team_name: string
+  password: string
+  quick_login_code: string | null
+}
+
+export interface UserImportImporter {
+  id: string
+  role: string
+}
+
+interface ImportTeam {
+  id: string
+  name: string
+  organization_id: string | null
+}
+
+const BATCH_FIELDS = 'id, created_by, file_name, status, total_rows, created_count, skipped_count, failed_count, created_at, completed_at'
+const ROW_FIELDS = 'id, row_number, email, first_name, last_name, date_of_birth, gender, team, phone, employee_id, status, error, user_id, team_id, credentials_delivered_at'
+
+// Letters and digits that can't be confused when read off a printed sheet
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789'
+
+function generateTemporaryPassword(length: number = 12): string {
+  let password = ''
+  for (let i = 0; i < length; i++) {
+    password += PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)]
+  }
+  return password
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim()
+}
+
+function normalizeGender(value: string): 'male' | 'female' | null | undefined {
+  const text = value.toLowerCase()
+  if (!text) return undefined
+  if (text === 'm' || text === 'male') return 'male'
+  if (text === 'f' || text === 'female') return 'female'
+  return null
+}
+
+/**
+ * Teams the importer can onboard workers into
+ * Supervisors: teams they supervise. Admins: every team.
+ */
+async function getImportableTeams(importer: UserImportImporter): Promise<{ data: ImportTeam[]; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('teams')
+    .select('id, name, organization_id')
+
+  if (importer.role === 'supervisor') {
+    query = query.eq('supervisor_id', importer.id)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[getImportableTeams] Error:', error)
+    return { data: [], error: 'Failed to fetch teams' }
+  }
+  return { data: (data || []) as ImportTeam[], error: null }
+}
+
+/**
+ * Store an uploaded sheet as a new batch (rows start as pending)
+ * @param rawRows - Rows keyed by header (from a CSV or spreadsheet)
+ * @returns { data: batch, error }
+ */
+export async function createUserImportBatch(
+  importer: UserImportImporter,
+  rawRows: Record<string, unknown>[],
+  fileName?: string | null
+): Promise<{ data: UserImportBatch | null; error: string | null }> {
+  if (!Array.isArray(rawRows) || rawRows.length === 0) {
+    return { data: null, error: 'The sheet has no rows' }
+  }
+  if (rawRows.length > USER_IMPORT_MAX_ROWS) {
+    return { data: null, error: `The sheet has ${rawRows.length} rows - import at most ${USER_IMPORT_MAX_ROWS} at a time` }
+  }
+
+  const rows = rawRows.map(raw => {
+    const normalized: Record<string, string> = {}
+    for (const [header, value] of Object.entries(raw || {})) {
+      normalized[normalizeHeader(header, HEADER_ALIASES)] = cellText(value)
+    }
+    return normalized
+  })
+
+  const missingColumns = ['email', 'first_name', 'last_name', 'date_of_birth', 'team'].filter(
+    column => !rows.some(row => column in row)
+  )
+  if (missingColumns.length > 0) {
+    return { data: null, error: `The sheet is missing column(s): ${missingColumns.join(', ')}` }
+  }
+
+  const adminClient = getAdminClient()
+  const { data: batch, error: batchError } = await adminClient
+    .from('user_import_batches')
+    .insert([{
+      created_by: importer.id,
+      file_name: fileName ? String(fileName).slice(0, 255) : null,
+      status: 'pending',
+      total_rows: rows.length,
+    }])
+    .select(BATCH_FIELDS)
+    .single()
+
+  if (batchError || !batch) {
+    console.error('[createUserImportBatch] Error creating batch:', batchError)
+    return { data: null, error: 'Failed to create import' }
+  }
+
+  const { error: rowsError } = await adminClient
+    .from('user_import_rows')
+    .insert(rows.map((row, index) => ({
+      batch_id: batch.id,
+      row_number: index + 2, // Header is row 1
+      email: (row.email || '').toLowerCase().slice(0, 255),
+      first_name: (row.first_name || '').slice(0, 100),
+      last_name: (row.last_name || '').slice(0, 100),
+      date_of_birth: (row.date_of_birth || '').slice(0, 20),
+      gender: (row.gender || '').slice(0, 20),
+      team: (row.team || '').slice(0, 200),
+      phone: (row.phone || '').slice(0, 50),
+      employee_id: (row.employee_id || '').slice(0, 50),
+      status: 'pending',
+    })))
+
+  if (rowsError) {
+    console.error('[createUserImportBatch] Error storing rows:', rowsError)
+    await adminClient.from('user_import_batches').delete().eq('id', batch.id)
+    return { data: null, error: 'Failed to store import rows' }
+  }
+
+  return { data: batch as UserImportBatch, error: null }
+}
+
+/**
+ * Get a batch with its rows (the per-row report)
+ * Supervisors only see their own batches.
+ */
+export async function getUserImportBatch(
+  importer: UserImportImporter,
+  batchId: string
+): Promise<{ data: { batch: UserImportBatch; rows: UserImportRow[] } | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('user_import_batches')
+    .select(BATCH_FIELDS)
+    .eq('id', batchId)
+
+  if (importer.role !== 'admin') {
+    query = query.eq('created_by', importer.id)
+  }
+
+  const { data: batch, error: batchError } = await query.maybeSingle()
+  if (batchError) {
+    console.error('[getUserImportBatch] Error fetching batch:', batchError)
+    return { data: null, error: 'Failed to fetch import' }
+  }
+  if (!batch) {
+    return { data: null, error: null }
+  }
+
+  const { data: rows, error: rowsError } = await adminClient
+    .from('user_import_rows')
+    .select(ROW_FIELDS)
+    .eq('batch_id', batchId)
+    .order('row_number', { ascending: true })
+
+  if (rowsError) {
+    console.error('[getUserImportBatch] Error fetching rows:', rowsError)
+    return { data: null, error: 'Failed to fetch import rows' }
+  }
+
+  return { data: { batch: batch as UserImportBatch, rows: (rows || []) as UserImportRow[] }, error: null }
+}
+
+/**
+ * List the importer's recent batches (admins see every batch)
+ */
+export async function listUserImportBatches(
+  importer: UserImportImporter,
+  limit: number = 20
+): Promise<{ data: UserImportBatch[]; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('user_import_batches')
+    .select(BATCH_FIELDS)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (importer.role !== 'admin') {
+    query = query.eq('created_by', importer.id)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[listUserImportBatches] Error:', error)
+    return { data: [], error: 'Failed to fetch imports' }
+  }
+  return { data: (data || []) as UserImportBatch[], error: null }
+}
+
+/**
+ * Validate a row and resolve its team
+ * @returns The error for the row's report, or the normalized values
+ */
+function validateImportRow(
+  row: UserImportRow,
+  teamsById: Map<string, ImportTeam>,
+  teamsByName: Map<string, ImportTeam[]>
+): { error: string | null; value?: { dateOfBirth: string; gender?: 'male' | 'female'; team: ImportTeam } } {
+  const emailValidation = validateEmail(row.email)
+  if (!emailValidation.valid) {
+    return { error: emailValidation.error! }
+  }
+
+  const firstNameValidation = validateStringInput(row.first_name, 100, 'First name')
+  if (!firstNameValidation.valid) {
+    return { error: firstNameValidation.error! }
+  }
+  const lastNameValidation = validateStringInput(row.last_name, 100, 'Last name')
+  if (!lastNameValidation.valid) {
+    return { error: lastNameValidation.error! }
+  }
+
+  const dateOfBirth = parseRosterDate(row.date_of_birth)
+  if (!dateOfBirth) {
+    return { error: row.date_of_birth ? `Invalid date of birth "${row.date_of_birth}" - use YYYY-MM-DD or DD/MM/YYYY` : 'Date of birth is required' }
+  }
+  const ageValidation = validateMinimumAge(dateOfBirth)
+  if (!ageValidation.valid) {
+    return { error: ageValidation.error! }
+  }
+
+  const gender = normalizeGender(row.gender)
+  if (gender === null) {
+    return { error: 'Gender must be either "male" or "female"' }
+  }
+
+  if (!row.team) {
+    return { error: 'Team is required' }
+  }
+  let team = teamsById.get(row.team)
+  if (!team) {
+    const matches = teamsByName.get(row.team.toLowerCase()) || []
+    if (matches.length > 1) {
+      return { error: `More than one team is named "${row.team}" - use the team ID` }
+    }
+    team = matches[0]
+  }
+  if (!team) {
+    return { error: `Team "${row.team}" not found` }
+  }
+
+  return { error: null, value: { dateOfBirth, gender, team } }
+}
+
+/**
+ * Give a created worker whose credentials were never delivered a new temporary password and PIN
+ * @returns The new password and PIN, or null if the password couldn't be changed
+ */
+async function reissueImportCredentials(
+  row: UserImportRow
+): Promise<{ password: string; quickLoginCode: string | null } | null> {
+  const adminClient = getAdminClient()
+  const password = generateTemporaryPassword()
+
+  const { error: authError } = await supabase.auth.admin.updateUserById(row.user_id!, { password })
+  if (authError) {
+    console.error(`[processUserImportBatch] Error resetting password for row ${row.row_number}:`, authError)
+    return null
+  }
+
+  let quickLoginCode: string | null = null
+  try {
+    quickLoginCode = await generateUniquePinCode(row.last_name)
+  } catch (error: any) {
+    console.error(`[processUserImportBatch] Error generating PIN for row ${row.row_number}:`, error)
+  }
+
+  const saltRounds = 10
+  const { error: updateError } = await adminClient
+    .from('users')
+    .update({
+      password_hash: await bcrypt.hash(password, saltRounds),
+      ...(quickLoginCode ? { quick_login_code: quickLoginCode } : {}),
+    })
+    .eq('id', row.user_id!)
+
+  if (updateError) {
+    // Sign-in uses Supabase Auth, which already has the new password - the PIN wasn't saved
+    console.error(`[processUserImportBatch] Error saving reissued credentials for row ${row.row_number}:`, updateError)
+    quickLoginCode = null
+  }
+
+  return { password, quickLoginCode }
+}
+
+/**
+ * Confirm the importer's browser received the credentials of created rows
+ * Unconfirmed rows get new credentials when the batch is resumed.
+ * @returns { data: number of rows confirmed, error }
+ */
+export async function markUserImportCredentialsDelivered(
+  importer: UserImportImporter,
+  batchId: string,
+  rowIds: string[]
+): Promise<{ data: number | null; error: string | null }> {
+  const adminClient = getAdminClient()
+  let query = adminClient
+    .from('user_import_batches')
+    .select('id')
+    .eq('id', batchId)
+
+  if (importer.role !== 'admin') {
+    query = query.eq('created_by', importer.id)
+  }
+
+  const { data: batch, error: batchError } = await query.maybeSingle()
+  if (batchError) {
+    console.error('[markUserImportCredentialsDelivered] Error fetching batch:', batchError)
+    return { data: null, error: 'Failed to fetch import' }
+  }
+  if (!batch) {
+    return { data: null, error: 'Import not found' }
+  }
+  if (rowIds.length === 0) {
+    return { data: 0, error: null }
+  }
+
+  const { data: rows, error } = await adminClient
+    .from('user_import_rows')
+    .update({ credentials_delivered_at: new Date().toISOString() })
+    .eq('batch_id', batchId)
+    .eq('status', 'created')
+    .is('credentials_delivered_at', null)
+    .in('id', rowIds)
+    .select('id')
+
+  if (error) {
+    console.error('[markUserImportCredentialsDelivered] Error:', error)
+    return { data: null, error: 'Failed to confirm credentials' }
+  }
+  return { data: (rows || []).length, error: null }
+}
+
+/**
+ * Create the users of the next chunk of a batch's pending rows
+ * Call again while `remaining` is above 0. Safe to call again on the same batch - that is how an
+ * interrupted import is resumed. Created rows whose credentials were never confirmed get new ones.
+ * @param options.retryFailed - Put failed rows back to pending first (after the sheet or teams were fixed)
+ * @param options.limit - Rows to process in this call
+ * @returns { data: batch, rows (report), credentials (created or reissued by this run), remaining, error, conflict }
+ *          conflict=true if another run of the batch is in progress
+ */
+export async function processUserImportBatch(
+  importer: UserImportImporter,
+  batchId: string,
+  options: { retryFailed?: boolean; limit?: number } = {}
+): Promise<{
+  data: { batch: UserImportBatch; rows: UserImportRow[]; credentials: UserImportCredential[]; remaining: number } | null
+  error: string | null
+  conflict?: boolean
+}> {
+  const limit = options.limit ?? USER_IMPORT_CHUNK_SIZE
+  const adminClient = getAdminClient()
+
+  const { data: existing, error: existingError } = await getUserImportBatch(importer, batchId)
+  if (existingError || !existing) {
+    return { data: null, error: existingError || 'Import not found' }
+  }
+
+  // Claim the batch so two runs don't create the same users
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS).toISOString()
+  const { data: claimed, error: claimError } = await adminClient
+    .from('user_import_batches')
+    .update({ status: 'processing', processing_started_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .or(`status.neq.processing,processing_started_at.lt.${staleBefore}`)
+    .select('id')
+
+  if (claimError) {
+    console.error('[processUserImportBatch] Error claiming batch:', claimError)
+    return { data: null, error: 'Failed to start import' }
+  }
+  if (!claimed || claimed.length === 0) {
+    return { data: null, error: 'This import is already running', conflict: true }
+  }
+
+  const credentials: UserImportCredential[] = []
+  const rows = existing.rows
+  const handledRowIds = new Set<string>()
+
+  if (options.retryFailed) {
+    const { error: retryError } = await adminClient
+      .from('user_import_rows')
+      .update({ status: 'pending', error: null })
+      .eq('batch_id', batchId)
+      .eq('status', 'failed')
+
+    if (retryError) {
+      console.error('[processUserImportBatch] Error resetting failed rows:', retryError)
+    } else {
+      rows.filter(row => row.status === 'failed').forEach(row => Object.assign(row, { status: 'pending', error: null }))
+    }
+  }
+
+  // Created rows whose credentials never reached the importer first, then rows not yet processed
+  const undelivered = rows.filter(row => row.status === 'created' && row.user_id && !row.credentials_delivered_at)
+  const work = [...undelivered, ...rows.filter(row => row.status === 'pending')]
+  const chunk = work.slice(0, limit)
+
+  try {
+    const { data: teams, error: teamsError } = await getImportableTeams(importer)
+    if (teamsError) {
+      throw new Error(teamsError)
+    }
+    const teamsById = new Map(teams.map(team => [team.id, team]))
+    const teamsByName = new Map<string, ImportTeam[]>()
+    for (const team of teams) {
+      const key = (team.name || '').trim().toLowerCase()
+      teamsByName.set(key, [...(teamsByName.get(key) || []), team])
+    }
+
+    // Workers inherit the organization's business details (display copy on users)
+    const organizations = new Map<string, Organization | null>()
+    const getTeamOrganization = async (organizationId: string | null) => {
+      if (!organizationId) return null
+      if (!organizations.has(organizationId)) {
+        const { data: organization } = await getOrganization(organizationId)
+        organizations.set(organizationId, organization)
+      }
+      return organizations.get(organizationId) || null
+    }
+
+    const firstRowByEmail = new Map<string, number>()
+    for (const row of rows) {
+      if (row.email && !firstRowByEmail.has(row.email)) {
+        firstRowByEmail.set(row.email, row.row_number)
+      }
+    }
+
+    const saveRow = async (row: UserImportRow, changes: Partial<UserImportRow>) => {
+      Object.assign(row, changes)
+      const { error } = await adminClient
+        .from('user_import_rows')
+        .update({ ...changes, processed_at: new Date().toISOString() })
+        .eq('id', row.id)
+      if (error) {
+        console.error(`[processUserImportBatch] Error saving row ${row.row_number}:`, error)
+      }
+    }
+
+    for (const row of chunk) {
+      handledRowIds.add(row.id)
+
+      if (row.status === 'created') {
+        const reissued = await reissueImportCredentials(row)
+        if (reissued) {
+          credentials.push({
+            row_number: row.row_number,
+            email: row.email,
+            full_name: `${row.first_name} ${row.last_name}`.trim(),
+            team_name: (row.team_id && teamsById.get(row.team_id)?.name) || row.team,
+            password: reissued.password,
+            quick_login_code: reissued.quickLoginCode,
+          })
+        }
+        continue
+      }
+
+      const firstRow = firstRowByEmail.get(row.email)
+      if (firstRow !== undefined && firstRow !== row.row_number) {
+        await saveRow(row, { status: 'failed', error: `Duplicate of row ${firstRow}` })
+        continue
+      }
+
+      const validation = validateImportRow(row, teamsById, teamsByName)
+      if (validation.error || !validation.value) {
+        await saveRow(row, { status: 'failed', error: validation.error })
+        continue
+      }
+      const { team, dateOfBirth, gender } = validation.value
+
+      // Already onboarded (e.g. the sheet was uploaded again after fixing other rows)
+      const { data: existingUser } = await adminClient
+        .from('users')
+        .select('id, role')
+        .eq('email', row.email)
+        .maybeSingle()
+
+      if (existingUser) {
+        const { data: existingMember } = await adminClient
+          .from('team_members')
+          .select('id')
+          .eq('team_id', team.id)
+          .eq('user_id', existingUser.id)
+          .maybeSingle()
+
+        if (existingMember) {
+          await saveRow(row, { status: 'skipped', error: 'Already a member of this team', user_id: existingUser.id, team_id: team.id })
+        } else {
+          await saveRow(row, { status: 'failed', error: 'User with this email already exists' })
+        }
+        continue
+      }
+
+      if (row.employee_id && team.organization_id) {
+        const { data: employeeIdOwner } = await adminClient
+          .from('users')
+          .select('id')
+          .eq('organization_id', team.organization_id)
+          .eq('employee_id', row.employee_id)
+          .maybeSingle()
+
+        if (employeeIdOwner) {
+          await saveRow(row, { status: 'failed', error: `Employee ID ${row.employee_id} is already in use` })
+          continue
+        }
+      }
+
+      const organization = await getTeamOrganization(team.organization_id)
+      const password = generateTemporaryPassword()
+      let quickLoginCode: string | null = null
+      try {
+        quickLoginCode = await generateUniquePinCode(row.last_name)
+      } catch (error: any) {
+        // Worker can generate a PIN later from their profile
+        console.error(`[processUserImportBatch] Error generating PIN for row ${row.row_number}:`, error)
+      }
+
+      const result = await createUserAccount({
+        email: row.email,
+        password,
+        role: 'worker',
+        first_name: row.first_name,
+        last_name: row.last_name,
+        organization_id: team.organization_id || undefined,
+        business_name: organization?.name,
+        business_registration_number: organization?.registration_number || undefined,
+        gender,
+        date_of_birth: dateOfBirth,
+        quick_login_code: quickLoginCode || undefined,
+        employee_id: row.employee_id || undefined,
+      })
+
+      if (!result.success || !result.user) {
+        await saveRow(row, { status: 'failed', error: result.details ? `${result.error}: ${result.details}` : result.error || 'Failed to create user' })
+        continue
+      }
+
+      const { error: memberError } = await adminClient
+        .from('team_members')
+        .insert([{
+          team_id: team.id,
+          user_id: result.user.id,
+          compliance_percentage: 100,
+          phone: row.phone || null,
+        }])
+
+      if (memberError) {
+        console.error(`[processUserImportBatch] Error adding row ${row.row_number} to team:`, memberError)
+        // Undo the account so the row can be retried cleanly
+        await adminClient.from('users').delete().eq('id', result.user.id)
+        await supabase.auth.admin.deleteUser(result.user.id)
+        await saveRow(row, { status: 'failed', error: `Failed to add to team: ${memberError.message}` })
+        continue
+      }
+
+      await saveRow(row, { status: 'created', error: null, user_id: result.user.id, team_id: team.id })
+      credentials.push({
+        row_number: row.row_number,
+        email: result.user.email,
+        full_name: result.user.full_name,
+        team_name: team.name,
+        password,
+        quick_login_code: quickLoginCode,
+      })
+    }
+  } catch (error: any) {
+    console.error('[processUserImportBatch] Error:', error)
+  }
+
+  // Rows left pending (later chunks, or the run stopped early) keep the batch resumable
+  const remaining = work.filter(row => !handledRowIds.has(row.id) || row.status === 'pending').length
+  const createdCount = rows.filter(row => row.status === 'created').length
+  const skippedCount = rows.filter(row => row.status === 'skipped').length
+  const failedCount = rows.filter(row => row.status === 'failed').length
+  const finished = createdCount + skippedCount === rows.length
+  const now = new Date().toISOString()
+
+  const { data: batch, error: batchError } = await adminClient
+    .from('user_import_batches')
+    .update({
+      status: finished ? 'completed' : remaining > 0 ? 'pending' : 'partial',
+      created_count: createdCount,
+      skipped_count: skippedCount,
+      failed_count: failedCount,
+      processing_started_at: null,
+      completed_at: finished ? now : null,
+      updated_at: now,
+    })
+    .eq('id', batchId)
+    .select(BATCH_FIELDS)
+    .single()
+
+  if (batchError || !batch) {
+    console.error('[processUserImportBatch] Error updating batch:', batchError)
+    return { data: null, error: 'Failed to save import progress' }
+  }
+
+  return { data: { batch: batch as UserImportBatch, rows, credentials, remaining }, error: null }
+}
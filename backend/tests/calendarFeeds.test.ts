@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildICalendar, type CalendarEvent } from '../src/utils/calendarFeeds.js'
+
+const event: CalendarEvent = {
+  uid: 'shift-1@workreadines',
+  start: new Date('2026-10-19T20:00:00.000Z'),
+  end: new Date('2026-10-20T04:00:00.000Z'),
+  summary: 'Night shift; Crew A, Bay 3',
+  description: 'Bring PPE\nCheck in before 21:00 \\ gate 2',
+  location: 'Site 7',
+  status: 'CONFIRMED',
+}
+
+// Unfold continuation lines (RFC 5545 3.1)
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n')
+}
+
+describe('buildICalendar', () => {
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const lines = unfold(buildICalendar('Shifts', [event]))
+    assert.ok(lines.includes('SUMMARY:Night shift\\; Crew A\\, Bay 3'))
+    assert.ok(lines.includes('DESCRIPTION:Bring PPE\\nCheck in before 21:00 \\\\ gate 2'))
+  })
+
+  it('writes UTC date-times and CRLF line endings', () => {
+    const ics = buildICalendar('Shifts', [event])
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'))
+    assert.ok(!/[^\r]\n/.test(ics))
+    const lines = unfold(ics)
+    assert.ok(lines.includes('DTSTART:20261019T200000Z'))
+    assert.ok(lines.includes('DTEND:20261020T040000Z'))
+  })
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const long = { ...event, summary: 'Überstunden ' + 'é'.repeat(80) }
+    const ics = buildICalendar('Shifts', [long])
+    for (const line of ics.split('\r\n')) {
+      assert.ok(Buffer.byteLength(line) <= 75, line)
+    }
+    assert.ok(unfold(ics).includes(`SUMMARY:${long.summary}`))
+  })
+})
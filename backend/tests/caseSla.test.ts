@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  computeSlaTimers,
+  DEFAULT_SLA_RULES,
+  getCaseSeverity,
+  validateSlaRulesInput,
+  type SlaRule,
+} from '../src/utils/caseSla.js'
+
+const reachedWhsAt = '2026-10-19T00:00:00.000Z'
+
+function whsCase(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'case-1',
+    organization_id: 'org-1',
+    exception_type: 'other',
+    is_active: true,
+    assigned_to_whs: true,
+    assigned_to_whs_at: reachedWhsAt,
+    case_status: 'new',
+    case_status_updated_at: null,
+    clinician_id: null,
+    clinician_assigned_at: null,
+    created_at: '2026-10-18T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function hoursAfter(iso: string, hours: number): Date {
+  return new Date(new Date(iso).getTime() + hours * 60 * 60 * 1000)
+}
+
+describe('computeSlaTimers', () => {
+  it('runs triage and assignment clocks from when the case reached WHS', () => {
+    const timers = computeSlaTimers(whsCase(), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 1))
+    assert.deepEqual(timers.map(timer => timer.metric), ['new', 'clinician_assignment'])
+    assert.equal(timers[0].startedAt, reachedWhsAt)
+    assert.equal(timers[0].dueAt, '2026-10-20T00:00:00.000Z')
+    assert.equal(timers[0].state, 'on_track')
+  })
+
+  it('uses the severity rule over the ANY rule', () => {
+    // Injuries are HIGH - triage within 8 hours
+    const [timer] = computeSlaTimers(whsCase({ exception_type: 'injury' }), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 1))
+    assert.equal(getCaseSeverity('injury'), 'HIGH')
+    assert.equal(timer.targetHours, 8)
+    assert.equal(timer.dueAt, '2026-10-19T08:00:00.000Z')
+  })
+
+  it('is due soon in the last quarter of the target and overdue after it', () => {
+    const dueSoon = computeSlaTimers(whsCase(), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 19))
+    assert.equal(dueSoon.find(timer => timer.metric === 'new')?.state, 'due_soon')
+    const overdue = computeSlaTimers(whsCase(), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 24))
+    assert.equal(overdue.find(timer => timer.metric === 'new')?.state, 'overdue')
+  })
+
+  it('starts status clocks when the status changed', () => {
+    const triagedAt = '2026-10-19T06:00:00.000Z'
+    const timers = computeSlaTimers(
+      whsCase({ case_status: 'triaged', case_status_updated_at: triagedAt, clinician_id: 'clinician-1', clinician_assigned_at: triagedAt }),
+      DEFAULT_SLA_RULES,
+      true,
+      hoursAfter(triagedAt, 1)
+    )
+    // Booked appointment - only the assessment clock runs
+    assert.deepEqual(timers.map(timer => timer.metric), ['triaged'])
+    assert.equal(timers[0].dueAt, '2026-10-22T06:00:00.000Z')
+  })
+
+  it('runs the first appointment clock until one is booked', () => {
+    const assignedAt = '2026-10-19T02:00:00.000Z'
+    const timers = computeSlaTimers(
+      whsCase({ case_status: 'in_rehab', clinician_id: 'clinician-1', clinician_assigned_at: assignedAt }),
+      DEFAULT_SLA_RULES,
+      false,
+      hoursAfter(assignedAt, 1)
+    )
+    assert.deepEqual(timers.map(timer => timer.metric), ['first_appointment'])
+    assert.equal(timers[0].targetHours, 72)
+  })
+
+  it('skips metrics without a target and stopped cases', () => {
+    const rules: SlaRule[] = [
+      { metric: 'new', severity: 'ANY', targetHours: null },
+      { metric: 'clinician_assignment', severity: 'ANY', targetHours: 4 },
+    ]
+    assert.deepEqual(computeSlaTimers(whsCase(), rules, false, hoursAfter(reachedWhsAt, 1)).map(timer => timer.metric), ['clinician_assignment'])
+    assert.deepEqual(computeSlaTimers(whsCase({ case_status: 'closed' }), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 1)), [])
+    assert.deepEqual(computeSlaTimers(whsCase({ is_active: false }), DEFAULT_SLA_RULES, false, hoursAfter(reachedWhsAt, 1)), [])
+  })
+
+  it('orders timers most urgent first', () => {
+    const rules: SlaRule[] = [
+      { metric: 'new', severity: 'ANY', targetHours: 48 },
+      { metric: 'clinician_assignment', severity: 'ANY', targetHours: 4 },
+    ]
+    const timers = computeSlaTimers(whsCase(), rules, false, hoursAfter(reachedWhsAt, 1))
+    assert.deepEqual(timers.map(timer => timer.metric), ['clinician_assignment', 'new'])
+  })
+})
+
+describe('validateSlaRulesInput', () => {
+  it('adds an ANY row with no target for metrics left out', () => {
+    const { data, error } = validateSlaRulesInput({ rules: [{ metric: 'new', target_hours: 12 }] })
+    assert.equal(error, null)
+    assert.equal(data!.length, 5)
+    assert.deepEqual(data!.find(rule => rule.metric === 'triaged'), { metric: 'triaged', severity: 'ANY', targetHours: null })
+  })
+
+  it('rejects duplicates and out of range targets', () => {
+    assert.notEqual(validateSlaRulesInput({ rules: [{ metric: 'new', target_hours: 1 }, { metric: 'new', target_hours: 2 }] }).error, null)
+    assert.notEqual(validateSlaRulesInput({ rules: [{ metric: 'new', target_hours: 5000 }] }).error, null)
+  })
+})
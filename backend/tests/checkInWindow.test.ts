@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  getCheckInWindowRange,
+  getScheduleShiftRange,
+  getShiftRange,
+  minutesToTimeOfDay,
+  resolveCapturedAt,
+  shiftSegmentsOverlap,
+} from '../src/utils/checkInWindow.js'
+
+describe('getCheckInWindowRange', () => {
+  it('moves an evening window before an early shift to the previous day', () => {
+    const range = getCheckInWindowRange(
+      { windowStart: '21:00', windowEnd: '23:59', recommendedStart: '22:00', recommendedEnd: '23:30' },
+      '01:00'
+    )
+    assert.equal(range.windowStart, 21 * 60 - 1440)
+    assert.equal(range.windowEnd, 23 * 60 + 59 - 1440)
+  })
+
+  it('extends windows that span midnight past 1440', () => {
+    const range = getCheckInWindowRange(
+      { windowStart: '22:00', windowEnd: '01:00', recommendedStart: '22:00', recommendedEnd: '23:00' },
+      '23:00'
+    )
+    assert.equal(range.windowStart, 22 * 60)
+    assert.equal(range.windowEnd, 1440 + 60)
+  })
+})
+
+describe('shift ranges', () => {
+  it('runs overnight shifts past midnight', () => {
+    assert.deepEqual(getScheduleShiftRange({ start_time: '22:00', end_time: '06:00' }), { start: 1320, end: 1440 + 360 })
+  })
+
+  it('spans every segment of a split shift', () => {
+    const segments = [
+      { start_time: '18:00', end_time: '22:00' },
+      { start_time: '01:00', end_time: '05:00', starts_next_day: true },
+    ]
+    assert.deepEqual(getShiftRange(segments), { start: 1080, end: 1440 + 300 })
+    assert.equal(shiftSegmentsOverlap(segments[0], segments[1]), false)
+    assert.equal(shiftSegmentsOverlap(segments[0], { start_time: '21:00', end_time: '23:00' }), true)
+  })
+
+  it('formats minutes with their day offset', () => {
+    assert.deepEqual(minutesToTimeOfDay(-60), { time: '23:00', dayOffset: -1 })
+    assert.deepEqual(minutesToTimeOfDay(1440 + 90), { time: '01:30', dayOffset: 1 })
+  })
+})
+
+describe('resolveCapturedAt', () => {
+  const now = new Date('2026-10-19T08:00:00Z')
+
+  it('uses the server time for online requests', () => {
+    const result = resolveCapturedAt('2026-10-19T02:00:00Z', {}, now)
+    assert.equal(result.capturedAt.toISOString(), now.toISOString())
+    assert.equal(result.offline, false)
+  })
+
+  it('honours the capture time of an outbox replay', () => {
+    const result = resolveCapturedAt('2026-10-19T02:00:00Z', { idempotencyKey: 'key', queuedAt: '2026-10-19T02:00:05Z' }, now)
+    assert.equal(result.valid, true)
+    assert.equal(result.capturedAt.toISOString(), '2026-10-19T02:00:00.000Z')
+    assert.equal(result.offline, true)
+  })
+
+  it('rejects an invalid timestamp', () => {
+    assert.equal(resolveCapturedAt('yesterday', {}, now).valid, false)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getNextRoundRobinClinician, type ClinicianRecommendation } from '../src/utils/clinicianAssignment.js'
+
+function clinician(clinicianId: string, name: string, available: boolean = true): ClinicianRecommendation {
+  return {
+    clinicianId,
+    name,
+    email: `${clinicianId}@example.com`,
+    score: 50,
+    available,
+    openCases: 0,
+    maxOpenCases: null,
+    upcomingAppointments: 0,
+    specialties: [],
+    specialtyMatch: 'generalist',
+    avgDaysToRtw: null,
+    rtwCases: 0,
+    reasons: [],
+  }
+}
+
+describe('getNextRoundRobinClinician', () => {
+  // Recommendations arrive best score first - the rotation is alphabetical
+  const clinicians = [clinician('c', 'Cara'), clinician('a', 'Ana'), clinician('b', 'Ben')]
+
+  it('starts at the first clinician alphabetically', () => {
+    assert.equal(getNextRoundRobinClinician(clinicians, null)?.clinicianId, 'a')
+  })
+
+  it('continues after the last clinician assigned and wraps around', () => {
+    assert.equal(getNextRoundRobinClinician(clinicians, 'a')?.clinicianId, 'b')
+    assert.equal(getNextRoundRobinClinician(clinicians, 'c')?.clinicianId, 'a')
+  })
+
+  it('keeps the position of an unavailable last clinician', () => {
+    // Ben got the last case and is now at the cap - Cara is next, not Ana
+    const withBenFull = [clinician('c', 'Cara'), clinician('a', 'Ana'), clinician('b', 'Ben', false)]
+    assert.equal(getNextRoundRobinClinician(withBenFull, 'b')?.clinicianId, 'c')
+  })
+
+  it('skips unavailable clinicians', () => {
+    const withCaraOff = [clinician('c', 'Cara', false), clinician('a', 'Ana'), clinician('b', 'Ben')]
+    assert.equal(getNextRoundRobinClinician(withCaraOff, 'b')?.clinicianId, 'a')
+  })
+
+  it('returns null when nobody is available', () => {
+    assert.equal(getNextRoundRobinClinician([clinician('a', 'Ana', false)], null), null)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  computeReadiness,
+  DEFAULT_READINESS_RULES,
+  validateReadinessRulesInput,
+} from '../src/utils/readinessScoring.js'
+
+describe('computeReadiness', () => {
+  it('scores a rested, pain-free worker Green', () => {
+    const result = computeReadiness({ painLevel: 1, fatigueLevel: 2, stressLevel: 2, sleepQuality: 8 })
+    assert.deepEqual(result, { level: 'Green', score: 5, redFlags: [] })
+  })
+
+  it('adds the sleep shortfall against the target', () => {
+    // 6 of 8 hours - 2.5 points short
+    const result = computeReadiness({ painLevel: 3, fatigueLevel: 3, stressLevel: 3, sleepQuality: 6 })
+    assert.equal(result.score, 11.5)
+    assert.equal(result.level, 'Yellow')
+  })
+
+  it('goes Red above the Yellow limit', () => {
+    const result = computeReadiness({ painLevel: 7, fatigueLevel: 7, stressLevel: 7, sleepQuality: 8 })
+    assert.equal(result.level, 'Red')
+    assert.deepEqual(result.redFlags, [])
+  })
+
+  it('forces Red on a single red flag whatever the score', () => {
+    const result = computeReadiness({ painLevel: 10, fatigueLevel: 0, stressLevel: 0, sleepQuality: 8 })
+    assert.equal(result.score, 10)
+    assert.equal(result.level, 'Red')
+    assert.deepEqual(result.redFlags, ['pain'])
+    assert.deepEqual(computeReadiness({ painLevel: 0, fatigueLevel: 0, stressLevel: 0, sleepQuality: 2 }).redFlags, ['sleep'])
+  })
+
+  it('applies team weights and disabled flags', () => {
+    const rules = { ...DEFAULT_READINESS_RULES, painWeight: 2, painRedFlag: null }
+    const result = computeReadiness({ painLevel: 9, fatigueLevel: 0, stressLevel: 0, sleepQuality: 8 }, rules)
+    assert.equal(result.score, 18)
+    assert.equal(result.level, 'Yellow')
+  })
+
+  it('includes custom question scores and flags', () => {
+    const result = computeReadiness(
+      { painLevel: 0, fatigueLevel: 0, stressLevel: 0, sleepQuality: 8 },
+      DEFAULT_READINESS_RULES,
+      { score: 4, redFlags: ['dizzy'] }
+    )
+    assert.equal(result.score, 4)
+    assert.equal(result.level, 'Red')
+    assert.deepEqual(result.redFlags, ['question:dizzy'])
+  })
+})
+
+describe('validateReadinessRulesInput', () => {
+  it('merges onto the base rules and disables flags set to null', () => {
+    const { valid, rules } = validateReadinessRulesInput({ stressWeight: 1.5, stressRedFlag: null })
+    assert.equal(valid, true)
+    assert.equal(rules!.stressWeight, 1.5)
+    assert.equal(rules!.stressRedFlag, null)
+    assert.equal(rules!.painRedFlag, DEFAULT_READINESS_RULES.painRedFlag)
+  })
+
+  it('rejects out of range values and overlapping thresholds', () => {
+    assert.equal(validateReadinessRulesInput({ painWeight: 6 }).valid, false)
+    assert.equal(validateReadinessRulesInput({ sleepTargetHours: 0 }).valid, false)
+    assert.equal(validateReadinessRulesInput({ greenMaxScore: 30 }).valid, false)
+    assert.equal(validateReadinessRulesInput({ painRedFlag: 7.5 }).valid, false)
+  })
+})
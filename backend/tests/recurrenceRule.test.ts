@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseICalendarRecurrence,
+  parseRecurrenceRule,
+  recurrenceMatchesDate,
+  type RecurrenceRule,
+} from '../src/utils/recurrenceRule.js'
+
+function parse(value: string): RecurrenceRule {
+  const { data, error } = parseRecurrenceRule(value)
+  assert.equal(error, null)
+  return data!
+}
+
+describe('parseRecurrenceRule', () => {
+  it('parses a fortnightly roster', () => {
+    const rule = parse('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE')
+    assert.equal(rule.freq, 'WEEKLY')
+    assert.equal(rule.interval, 2)
+    assert.deepEqual(rule.byDay.map(day => day.weekday), [1, 2, 3])
+    assert.equal(formatRecurrenceRule(rule), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE')
+  })
+
+  it('rejects BYMONTHDAY unless FREQ=MONTHLY', () => {
+    assert.match(parseRecurrenceRule('FREQ=WEEKLY;BYMONTHDAY=1').error!, /BYMONTHDAY/)
+    assert.match(parseRecurrenceRule('FREQ=DAILY;BYMONTHDAY=1').error!, /BYMONTHDAY/)
+    assert.equal(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,-1').error, null)
+  })
+
+  it('rejects numbered BYDAY outside MONTHLY, COUNT with UNTIL and unknown parts', () => {
+    assert.notEqual(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2MO').error, null)
+    assert.notEqual(parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20261231').error, null)
+    assert.notEqual(parseRecurrenceRule('FREQ=YEARLY').error, null)
+    assert.notEqual(parseRecurrenceRule('FREQ=DAILY;BYHOUR=6').error, null)
+    assert.notEqual(parseRecurrenceRule('INTERVAL=2').error, null)
+  })
+})
+
+describe('recurrenceMatchesDate', () => {
+  it('matches fortnightly weeks from DTSTART', () => {
+    const rule = parse('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE')
+    // 2026-10-05 is a Monday
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-05', '2026-10-06'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-05', '2026-10-12'), false)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-05', '2026-10-19'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-05', '2026-10-04'), false)
+  })
+
+  it('matches the nth and last weekday of the month', () => {
+    const second = parse('FREQ=MONTHLY;BYDAY=2MO')
+    assert.equal(recurrenceMatchesDate(second, '2026-10-01', '2026-10-12'), true)
+    assert.equal(recurrenceMatchesDate(second, '2026-10-01', '2026-10-05'), false)
+    const last = parse('FREQ=MONTHLY;BYDAY=-1FR')
+    assert.equal(recurrenceMatchesDate(last, '2026-10-01', '2026-10-30'), true)
+    assert.equal(recurrenceMatchesDate(last, '2026-10-01', '2026-10-23'), false)
+  })
+
+  it('counts BYMONTHDAY=-1 from the end of each month', () => {
+    const rule = parse('FREQ=MONTHLY;BYMONTHDAY=-1')
+    assert.equal(recurrenceMatchesDate(rule, '2026-01-01', '2026-02-28'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-01-01', '2028-02-29'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-01-01', '2028-02-28'), false)
+  })
+
+  it('stops after COUNT occurrences', () => {
+    // 4-on-4-off: every 8 days, 3 times
+    const rule = parse('FREQ=DAILY;INTERVAL=8;COUNT=3')
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-01'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-17'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-25'), false)
+  })
+
+  it('does not count a DTSTART outside the pattern', () => {
+    // 2026-10-01 is a Thursday - first occurrences are 10-05 and 10-12
+    const rule = parse('FREQ=WEEKLY;BYDAY=MO;COUNT=2')
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-01'), false)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-12'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-19'), false)
+  })
+
+  it('includes UNTIL', () => {
+    const rule = parse('FREQ=DAILY;UNTIL=20261010')
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-10'), true)
+    assert.equal(recurrenceMatchesDate(rule, '2026-10-01', '2026-10-11'), false)
+  })
+})
+
+describe('expandRecurrence', () => {
+  it('expands within a range and honours COUNT from DTSTART', () => {
+    const rule = parse('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=4')
+    assert.deepEqual(
+      expandRecurrence(rule, '2026-10-05', '2026-10-09', '2026-12-31'),
+      ['2026-10-09', '2026-10-12', '2026-10-16']
+    )
+  })
+
+  it('skips months without the day', () => {
+    const rule = parse('FREQ=MONTHLY;BYMONTHDAY=31')
+    assert.deepEqual(
+      expandRecurrence(rule, '2026-01-31', '2026-01-01', '2026-05-31'),
+      ['2026-01-31', '2026-03-31', '2026-05-31']
+    )
+  })
+})
+
+describe('parseICalendarRecurrence', () => {
+  it('reads DTSTART, folded RRULE and EXDATE lines', () => {
+    const { data, error } = parseICalendarRecurrence(
+      'DTSTART;VALUE=DATE:20261005\r\nRRULE:FREQ=WEEKLY;INTERVAL=2;\r\n BYDAY=MO\r\nEXDATE;VALUE=DATE:20261019,20261005'
+    )
+    assert.equal(error, null)
+    assert.deepEqual(data, {
+      rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO',
+      dtstart: '2026-10-05',
+      exclusionDates: ['2026-10-05', '2026-10-19'],
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  addDaysToDateString,
+  getDayOfWeekFromDateString,
+  getTodayInTimeZone,
+  getZonedDateTime,
+  isCalendarDateString,
+  zonedTimeToDate,
+} from '../src/utils/timezone.js'
+
+describe('getZonedDateTime', () => {
+  it('uses the site wall clock, not UTC', () => {
+    const instant = new Date('2026-10-18T20:00:00Z')
+    assert.deepEqual(getZonedDateTime(instant, 'Australia/Perth'), { date: '2026-10-19', time: '04:00', dayOfWeek: 1 })
+    assert.equal(getTodayInTimeZone('America/New_York', instant), '2026-10-18')
+  })
+})
+
+describe('zonedTimeToDate', () => {
+  it('applies standard and daylight offsets either side of a change', () => {
+    // Sydney moves from AEST (+10) to AEDT (+11) on 2026-10-04
+    assert.equal(zonedTimeToDate('2026-10-03', '12:00', 'Australia/Sydney').toISOString(), '2026-10-03T02:00:00.000Z')
+    assert.equal(zonedTimeToDate('2026-10-04', '12:00', 'Australia/Sydney').toISOString(), '2026-10-04T01:00:00.000Z')
+  })
+
+  it('resolves skipped times an hour later', () => {
+    // 02:30 does not exist on spring-forward nights - it becomes 03:30
+    assert.equal(zonedTimeToDate('2026-10-04', '02:30', 'Australia/Sydney').toISOString(), '2026-10-03T16:30:00.000Z')
+    assert.equal(zonedTimeToDate('2026-03-08', '02:30', 'America/New_York').toISOString(), '2026-03-08T07:30:00.000Z')
+  })
+
+  it('resolves repeated times to a real occurrence', () => {
+    // 01:30 happens twice in New York on 2026-11-01 (EDT, then EST)
+    const instant = zonedTimeToDate('2026-11-01', '01:30', 'America/New_York')
+    assert.equal(getZonedDateTime(instant, 'America/New_York').time, '01:30')
+  })
+
+  it('round-trips through getZonedDateTime', () => {
+    const instant = zonedTimeToDate('2026-04-05', '06:00', 'Australia/Sydney')
+    assert.deepEqual(getZonedDateTime(instant, 'Australia/Sydney'), { date: '2026-04-05', time: '06:00', dayOfWeek: 0 })
+  })
+})
+
+describe('calendar date strings', () => {
+  it('adds days across month, year and DST boundaries', () => {
+    assert.equal(addDaysToDateString('2026-10-03', 1), '2026-10-04')
+    assert.equal(addDaysToDateString('2026-12-31', 1), '2027-01-01')
+    assert.equal(addDaysToDateString('2028-03-01', -1), '2028-02-29')
+  })
+
+  it('gets the day of week', () => {
+    assert.equal(getDayOfWeekFromDateString('2026-10-19'), 1)
+    assert.equal(getDayOfWeekFromDateString('2026-10-18T23:00:00Z'), 0)
+  })
+
+  it('only accepts real dates', () => {
+    assert.equal(isCalendarDateString('2028-02-29'), true)
+    assert.equal(isCalendarDateString('2026-02-29'), false)
+    assert.equal(isCalendarDateString('2026-02-30'), false)
+    assert.equal(isCalendarDateString('2026-13-01'), false)
+    assert.equal(isCalendarDateString('2026-1-01'), false)
+    assert.equal(isCalendarDateString(20261019), false)
+  })
+})
@@ -0,0 +1,261 @@
+/**
+ * Service worker - offline app shell and outbox replay
+ *
+ * App shell: the app's own pages and built assets are cached so the worker app (PWA)
+ * opens without a connection. API requests (another origin) are never cached here.
+ *
+ * Outbox: requests queued by src/utils/offlineOutbox.ts are sent when the browser fires a
+ * Background Sync ('outbox-sync') or when a page posts { type: 'FLUSH_OUTBOX' }.
+ * Every request carries its entry id as the Idempotency-Key, so replays are safe, and the
+ * time it was queued as Outbox-Queued-At (the backend only backdates a capture to that time).
+ * Entries are only sent while the user who queued them is signed in (checked against
+ * /api/auth/me before each flush) - on a shared device nobody else's session submits them.
+ *
+ * Keep the database name/version and store names in sync with offlineOutbox.ts.
+ */
+
+const OUTBOX_DB_NAME = 'workreadines-offline'
+const OUTBOX_DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+const DRAFTS_STORE = 'drafts'
+const OUTBOX_SYNC_TAG = 'outbox-sync'
+
+// Statuses worth retrying later (rate limited, duplicate still in progress)
+const RETRYABLE_STATUSES = [408, 409, 429]
+
+// Bump the version to drop old caches when the shell changes
+const APP_SHELL_CACHE = 'app-shell-v1'
+const APP_SHELL_URLS = ['/', '/manifest.webmanifest', '/vite.svg']
+
+// Dev server module paths - never cached
+const UNCACHED_PATH_PREFIXES = ['/@', '/src/', '/node_modules/']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(APP_SHELL_CACHE)
+      .then((cache) => cache.addAll(APP_SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== APP_SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+  if (UNCACHED_PATH_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) return
+
+  if (request.mode === 'navigate') {
+    // SPA routes: network first, cached index.html when offline
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone()
+          caches.open(APP_SHELL_CACHE).then((cache) => cache.put('/', copy))
+          return response
+        })
+        .catch(() => caches.match('/'))
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    // Built assets have hashed names - cache first
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(APP_SHELL_CACHE).then((cache) => cache.put(request, copy))
+        }
+        return response
+      }))
+    )
+    return
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(APP_SHELL_CACHE).then((cache) => cache.put(request, copy))
+        }
+        return response
+      })
+      .catch(() => caches.match(request).then((cached) => cached || Response.error()))
+  )
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOutbox())
+  }
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'FLUSH_OUTBOX') {
+    // Pages retry on reconnect/interval, so a partial flush isn't an error here
+    event.waitUntil(flushOutbox().catch(() => undefined))
+  }
+})
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function runTransaction(mode, operation) {
+  const db = await openDb()
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(OUTBOX_STORE, mode)
+      const request = operation(transaction.objectStore(OUTBOX_STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' })
+  clients.forEach((client) => client.postMessage(message))
+}
+
+/**
+ * ID of the user signed in to the API at this origin
+ * @returns { userId } (null when signed out), or { offline: true } when the API can't be reached
+ */
+async function getSignedInUser(origin) {
+  try {
+    const response = await fetch(`${origin}/api/auth/me`, { credentials: 'include', headers: { 'Cache-Control': 'no-cache' } })
+    if (!response.ok) return { userId: null }
+    const data = await response.json().catch(() => ({}))
+    return { userId: (data.user && data.user.id) || null }
+  } catch {
+    return { offline: true }
+  }
+}
+
+function buildRequestInit(entry) {
+  const headers = { 'Idempotency-Key': entry.id, 'Outbox-Queued-At': entry.createdAt }
+  let body
+
+  if (entry.bodyType === 'json') {
+    headers['Content-Type'] = 'application/json'
+    body = JSON.stringify(entry.fields)
+  } else {
+    body = new FormData()
+    Object.entries(entry.fields).forEach(([name, value]) => body.append(name, String(value)))
+    Object.entries(entry.files || {}).forEach(([name, file]) => body.append(name, file, file.name))
+  }
+
+  return { method: entry.method, credentials: 'include', headers, body }
+}
+
+async function sendEntry(entry) {
+  let response
+  try {
+    response = await fetch(entry.url, buildRequestInit(entry))
+  } catch {
+    // Still offline - keep it queued
+    await runTransaction('readwrite', (store) => store.put({ ...entry, attempts: entry.attempts + 1, lastError: 'Network unavailable' }))
+    return false
+  }
+
+  if (response.status === 401) {
+    // Session ended mid-flush - park it until its owner signs back in (not a failed attempt)
+    await runTransaction('readwrite', (store) => store.put({ ...entry, lastError: 'Waiting for you to sign in' }))
+    return true
+  }
+
+  if (response.ok) {
+    await runTransaction('readwrite', (store) => store.delete(entry.id))
+    await notifyClients({ type: 'OUTBOX_SENT', id: entry.id, kind: entry.kind })
+    return true
+  }
+
+  const data = await response.json().catch(() => ({}))
+  const error = data.error || `Request failed (${response.status})`
+
+  if (response.status >= 500 || RETRYABLE_STATUSES.includes(response.status)) {
+    await runTransaction('readwrite', (store) => store.put({ ...entry, attempts: entry.attempts + 1, lastError: error }))
+    return false
+  }
+
+  // Rejected by the server (validation, active case, ...) - retrying won't help, the user has to act
+  await runTransaction('readwrite', (store) => store.put({ ...entry, attempts: entry.attempts + 1, status: 'failed', lastError: error }))
+  await notifyClients({ type: 'OUTBOX_FAILED', id: entry.id, kind: entry.kind, error })
+  return true
+}
+
+let flushing = null
+
+function flushOutbox() {
+  // One flush at a time - sync events and page messages can arrive together
+  if (!flushing) {
+    flushing = (async () => {
+      const entries = await runTransaction('readonly', (store) => store.getAll())
+
+      // Entries queued before owners were recorded can't be attributed to anyone - drop them
+      for (const entry of entries.filter((item) => !item.userId)) {
+        await runTransaction('readwrite', (store) => store.delete(entry.id))
+      }
+
+      const pending = entries
+        .filter((entry) => entry.userId && entry.status === 'pending')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+      let allSent = true
+      const signedInByOrigin = new Map()
+      for (const entry of pending) {
+        const origin = new URL(entry.url).origin
+        if (!signedInByOrigin.has(origin)) {
+          signedInByOrigin.set(origin, await getSignedInUser(origin))
+        }
+        const signedIn = signedInByOrigin.get(origin)
+        if (signedIn.offline) {
+          allSent = false
+          continue
+        }
+        // Someone else (or nobody) is signed in - leave it parked for its owner
+        if (signedIn.userId !== entry.userId) continue
+
+        const done = await sendEntry(entry)
+        if (!done) allSent = false
+      }
+
+      await notifyClients({ type: 'OUTBOX_UPDATED' })
+
+      // Reject so Background Sync retries later
+      if (!allSent) {
+        throw new Error('Outbox not fully sent')
+      }
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react'
+import { API_BASE_URL } from '../config/api'
+import './CalendarFeeds.css'
+
+interface CalendarFeed {
+  id: string
+  label: string | null
+  token_hint: string // Last characters of the token in the feed URL
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+interface CalendarFeedsProps {
+  description?: string
+}
+
+const formatDate = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Subscription links for phone/desktop calendars (.ics feed with a revocable token)
+export function CalendarFeeds({ description = 'Subscribe in your phone calendar to see your schedule there.' }: CalendarFeedsProps) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+  const [newFeedUrl, setNewFeedUrl] = useState('') // Only available right after creating a feed
+
+  const fetchFeeds = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`${API_BASE_URL}/api/calendar/feeds`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to load calendar feeds')
+      }
+
+      const result = await response.json()
+      setFeeds(result.feeds || [])
+      setError('')
+    } catch (err) {
+      console.error('Error fetching calendar feeds:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load calendar feeds')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchFeeds()
+  }, [fetchFeeds])
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      setError('')
+
+      const response = await fetch(`${API_BASE_URL}/api/calendar/feeds`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: navigator.userAgent.includes('Mobile') ? 'Phone' : 'Computer' }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create calendar feed')
+      }
+
+      const result = await response.json()
+      setNewFeedUrl(new URL(result.url, API_BASE_URL).toString())
+      setFeeds(prev => [result.feed, ...prev])
+    } catch (err) {
+      console.error('Error creating calendar feed:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create calendar feed')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!window.confirm(`Revoke the feed ending in ${feed.token_hint}? Calendars subscribed with it stop updating.`)) return
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/calendar/feeds/${feed.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to revoke calendar feed')
+      }
+
+      setFeeds(prev => prev.map(f => f.id === feed.id ? { ...f, revoked_at: new Date().toISOString() } : f))
+    } catch (err) {
+      console.error('Error revoking calendar feed:', err)
+      setError(err instanceof Error ? err.message : 'Failed to revoke calendar feed')
+    }
+  }
+
+  const activeFeeds = feeds.filter(feed => !feed.revoked_at)
+
+  return (
+    <div className="calendar-feeds">
+      <div className="calendar-feeds-header">
+        <p className="calendar-feeds-description">{description}</p>
+        <button
+          type="button"
+          className="calendar-feeds-create-btn"
+          onClick={handleCreate}
+          disabled={creating}
+        >
+          {creating ? 'Creating...' : 'Create Calendar Link'}
+        </button>
+      </div>
+
+      {error && <div className="calendar-feeds-error">{error}</div>}
+
+      {newFeedUrl && (
+        <div className="calendar-feeds-new">
+          <div className="calendar-feeds-new-title">Copy this link now - it won't be shown again</div>
+          <input
+            type="text"
+            readOnly
+            value={newFeedUrl}
+            onFocus={(e) => e.target.select()}
+            className="calendar-feeds-url"
+          />
+          <div className="calendar-feeds-new-actions">
+            <a href={newFeedUrl.replace(/^https?:/, 'webcal:')} className="calendar-feeds-link">
+              Open in calendar app
+            </a>
+            <button
+              type="button"
+              className="calendar-feeds-link"
+              onClick={() => navigator.clipboard.writeText(newFeedUrl)}
+            >
+              Copy link
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="calendar-feeds-empty">Loading calendar links...</p>
+      ) : activeFeeds.length === 0 ? (
+        <p className="calendar-feeds-empty">No calendar links</p>
+      ) : (
+        <ul className="calendar-feeds-list">
+          {activeFeeds.map((feed) => (
+            <li key={feed.id} className="calendar-feeds-item">
+              <div className="calendar-feeds-info">
+                <div className="calendar-feeds-name">{feed.label || 'Calendar link'} ····{feed.token_hint}</div>
+                <div className="calendar-feeds-meta">
+                  Created {formatDate(feed.created_at)}
+                  {' · '}
+                  {feed.last_used_at ? `Last synced ${formatDate(feed.last_used_at)}` : 'Not synced yet'}
+                </div>
+              </div>
+              <button
+                type="button"
+                className="calendar-feeds-revoke"
+                onClick={() => handleRevoke(feed)}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { API_BASE_URL } from '../config/api'
+import './CaseAttachments.css'
+
+type AttachmentCategory = 'incident_photo' | 'medical_certificate' | 'other'
+
+interface CaseAttachment {
+  id: string
+  fileName: string
+  contentType: string
+  sizeBytes: number
+  category: AttachmentCategory
+  uploadedBy: string | null
+  uploadedById: string | null
+  createdAt: string
+  url: string // Signed, expiring download URL (relative to the API)
+}
+
+interface CaseAttachmentsProps {
+  caseId: string
+  canUpload?: boolean
+  defaultCategory?: AttachmentCategory
+}
+
+const CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  incident_photo: 'Incident Photo',
+  medical_certificate: 'Medical Certificate',
+  other: 'Other',
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB (matches the backend limit)
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/heic,application/pdf'
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const formatDate = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export function CaseAttachments({ caseId, canUpload = false, defaultCategory = 'other' }: CaseAttachmentsProps) {
+  const { user } = useAuth()
+  const [attachments, setAttachments] = useState<CaseAttachment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+  const [category, setCategory] = useState<AttachmentCategory>(defaultCategory)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Download URLs expire, so the list is fetched fresh whenever the case is opened
+  const fetchAttachments = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`${API_BASE_URL}/api/attachments/cases/${caseId}`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to load attachments')
+      }
+
+      const result = await response.json()
+      setAttachments(result.attachments || [])
+      setError('')
+    } catch (err) {
+      console.error('Error fetching attachments:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load attachments')
+    } finally {
+      setLoading(false)
+    }
+  }, [caseId])
+
+  useEffect(() => {
+    fetchAttachments()
+  }, [fetchAttachments])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError('File size must be less than 10MB')
+      return
+    }
+
+    try {
+      setUploading(true)
+      setError('')
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('category', category)
+
+      const response = await fetch(`${API_BASE_URL}/api/attachments/cases/${caseId}`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to upload file')
+      }
+
+      const result = await response.json()
+      setAttachments(prev => [result.attachment, ...prev])
+    } catch (err) {
+      console.error('Error uploading attachment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to upload file')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleDelete = async (attachment: CaseAttachment) => {
+    if (!window.confirm(`Delete "${attachment.fileName}"?`)) return
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/attachments/${attachment.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete file')
+      }
+
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id))
+    } catch (err) {
+      console.error('Error deleting attachment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete file')
+    }
+  }
+
+  return (
+    <div className="case-attachments">
+      {canUpload && (
+        <div className="case-attachments-upload">
+          <select
+            className="case-attachments-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value as AttachmentCategory)}
+            disabled={uploading}
+          >
+            {(Object.keys(CATEGORY_LABELS) as AttachmentCategory[]).map((value) => (
+              <option key={value} value={value}>{CATEGORY_LABELS[value]}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="case-attachments-upload-btn"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+          >
+            {uploading ? 'Uploading...' : 'Upload File'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            onChange={handleFileChange}
+            className="case-attachments-input"
+          />
+        </div>
+      )}
+
+      {error && <div className="case-attachments-error">{error}</div>}
+
+      {loading ? (
+        <p className="case-attachments-empty">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="case-attachments-empty">No attachments</p>
+      ) : (
+        <ul className="case-attachments-list">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="case-attachments-item">
+              {attachment.contentType.startsWith('image/') ? (
+                <a href={`${API_BASE_URL}${attachment.url}`} target="_blank" rel="noopener noreferrer">
+                  <img src={`${API_BASE_URL}${attachment.url}`} alt={attachment.fileName} className="case-attachments-thumb" />
+                </a>
+              ) : (
+                <div className="case-attachments-file-icon">PDF</div>
+              )}
+              <div className="case-attachments-info">
+                <a
+                  href={`${API_BASE_URL}${attachment.url}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="case-attachments-name"
+                >
+                  {attachment.fileName}
+                </a>
+                <div className="case-attachments-meta">
+                  {CATEGORY_LABELS[attachment.category] || attachment.category}
+                  {' · '}
+                  {formatFileSize(attachment.sizeBytes)}
+                  {' · '}
+                  {attachment.uploadedBy || 'Unknown'}, {formatDate(attachment.createdAt)}
+                </div>
+              </div>
+              {canUpload && user && attachment.uploadedById === user.id && (
+                <button
+                  type="button"
+                  className="case-attachments-delete"
+                  onClick={() => handleDelete(attachment)}
+                  aria-label={`Delete ${attachment.fileName}`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
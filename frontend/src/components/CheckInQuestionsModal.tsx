@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback } from 'react'
+import { API_BASE_URL } from '../config/api'
+import {
+  QUESTION_TYPE_LABELS,
+  type CheckInQuestion,
+  type QuestionType,
+} from '../utils/checkInQuestions'
+import './CheckInQuestionsModal.css'
+
+interface CheckInQuestionsModalProps {
+  teamId?: string // Supervisors pick the team; team leaders always edit their own
+  teamName?: string
+  onClose: () => void
+}
+
+interface OptionForm {
+  value: string
+  label: string
+  score: string
+}
+
+interface QuestionForm {
+  label: string
+  helpText: string
+  type: QuestionType
+  options: OptionForm[]
+  minValue: string
+  maxValue: string
+  isRequired: boolean
+  scoringWeight: string
+  redFlagThreshold: string
+  sortOrder: string
+}
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]
+
+const EMPTY_FORM: QuestionForm = {
+  label: '',
+  helpText: '',
+  type: 'boolean',
+  options: [{ value: '', label: '', score: '0' }],
+  minValue: '0',
+  maxValue: '10',
+  isRequired: false,
+  scoringWeight: '0',
+  redFlagThreshold: '',
+  sortOrder: '0',
+}
+
+const isChoiceType = (type: QuestionType) => type === 'single_choice' || type === 'multi_choice'
+const hasBounds = (type: QuestionType) => type === 'scale' || type === 'number'
+
+const toForm = (question: CheckInQuestion): QuestionForm => ({
+  label: question.label,
+  helpText: question.help_text || '',
+  type: question.question_type,
+  options: question.options.length > 0
+    ? question.options.map(option => ({ value: option.value, label: option.label, score: String(option.score) }))
+    : EMPTY_FORM.options,
+  minValue: question.min_value === null ? '' : String(question.min_value),
+  maxValue: question.max_value === null ? '' : String(question.max_value),
+  isRequired: question.is_required,
+  scoringWeight: String(question.scoring_weight),
+  redFlagThreshold: question.red_flag_threshold === null ? '' : String(question.red_flag_threshold),
+  sortOrder: String(question.sort_order),
+})
+
+// Option values are stored with answers - derive them from the label when left empty
+const toOptionValue = (option: OptionForm) =>
+  (option.value.trim() || option.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')).slice(0, 50)
+
+// Custom daily check-in questions for one team (typed questions with scoring weights)
+export function CheckInQuestionsModal({ teamId, teamName, onClose }: CheckInQuestionsModalProps) {
+  const [questions, setQuestions] = useState<CheckInQuestion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null) // null = adding a new question
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<QuestionForm>(EMPTY_FORM)
+
+  const teamQuery = teamId ? `?teamId=${encodeURIComponent(teamId)}` : ''
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`${API_BASE_URL}/api/questionnaires/questions${teamQuery}`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load check-in questions')
+      }
+      setQuestions(data.questions || [])
+      setError('')
+    } catch (err) {
+      console.error('Error fetching check-in questions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load check-in questions')
+    } finally {
+      setLoading(false)
+    }
+  }, [teamQuery])
+
+  useEffect(() => {
+    fetchQuestions()
+  }, [fetchQuestions])
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm({ ...EMPTY_FORM, sortOrder: String(questions.length) })
+    setShowForm(true)
+    setError('')
+  }
+
+  const openEdit = (question: CheckInQuestion) => {
+    setEditingId(question.id)
+    setForm(toForm(question))
+    setShowForm(true)
+    setError('')
+  }
+
+  const buildPayload = (): Record<string, unknown> => {
+    const payload: Record<string, unknown> = {
+      label: form.label,
+      helpText: form.helpText.trim() || null,
+      isRequired: form.isRequired,
+      scoringWeight: Number(form.scoringWeight || 0),
+      redFlagThreshold: form.type === 'text' || form.redFlagThreshold.trim() === '' ? null : Number(form.redFlagThreshold),
+      sortOrder: parseInt(form.sortOrder || '0', 10),
+    }
+    if (!editingId) {
+      payload.type = form.type
+      if (teamId) payload.teamId = teamId
+    }
+    if (isChoiceType(form.type)) {
+      payload.options = form.options
+        .filter(option => option.label.trim() || option.value.trim())
+        .map(option => ({ value: toOptionValue(option), label: option.label.trim(), score: Number(option.score || 0) }))
+    }
+    if (hasBounds(form.type)) {
+      payload.minValue = form.minValue.trim() === '' ? null : Number(form.minValue)
+      payload.maxValue = form.maxValue.trim() === '' ? null : Number(form.maxValue)
+    }
+    return payload
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      const response = await fetch(
+        editingId
+          ? `${API_BASE_URL}/api/questionnaires/questions/${editingId}`
+          : `${API_BASE_URL}/api/questionnaires/questions`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildPayload()),
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save question')
+      }
+      setShowForm(false)
+      await fetchQuestions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save question')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (question: CheckInQuestion) => {
+    try {
+      setSaving(true)
+      setError('')
+      // Deactivating keeps past answers for analytics; reactivating is a plain update
+      const response = await fetch(`${API_BASE_URL}/api/questionnaires/questions/${question.id}`, {
+        method: question.is_active ? 'DELETE' : 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: question.is_active ? undefined : JSON.stringify({ isActive: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update question')
+      }
+      await fetchQuestions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update question')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateOption = (index: number, changes: Partial<OptionForm>) => {
+    setForm({ ...form, options: form.options.map((option, i) => (i === index ? { ...option, ...changes } : option)) })
+  }
+
+  return (
+    <div className="checkin-questions-overlay" onClick={() => !saving && onClose()}>
+      <div className="checkin-questions-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="checkin-questions-header">
+          <div>
+            <h2 className="checkin-questions-title">Check-in Questions</h2>
+            <p className="checkin-questions-subtitle">
+              {teamName ? `${teamName} · ` : ''}Extra questions workers answer in their daily check-in
+            </p>
+          </div>
+          <button className="checkin-questions-close" onClick={onClose} disabled={saving} aria-label="Close">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="checkin-questions-body">
+          {error && <div className="checkin-questions-error">{error}</div>}
+
+          {loading ? (
+            <p className="checkin-questions-help">Loading questions...</p>
+          ) : showForm ? (
+            <div className="checkin-questions-form">
+              <label className="checkin-questions-field">
+                <span>Question</span>
+                <input
+                  type="text"
+                  maxLength={200}
+                  value={form.label}
+                  placeholder="e.g. Alcohol in the last 12 hours?"
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                />
+              </label>
+
+              <label className="checkin-questions-field">
+                <span>Help text (optional)</span>
+                <input
+                  type="text"
+                  maxLength={300}
+                  value={form.helpText}
+                  onChange={(e) => setForm({ ...form, helpText: e.target.value })}
+                />
+              </label>
+
+              <div className="checkin-questions-row">
+                <label className="checkin-questions-field">
+                  <span>Type</span>
+                  <select
+                    value={form.type}
+                    disabled={!!editingId}
+                    title={editingId ? 'The type of an existing question cannot change' : undefined}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as QuestionType })}
+                  >
+                    {QUESTION_TYPES.map(type => (
+                      <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="checkin-questions-field">
+                  <span>Scoring weight (0-10)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    value={form.scoringWeight}
+                    onChange={(e) => setForm({ ...form, scoringWeight: e.target.value })}
+                  />
+                </label>
+
+                {form.type !== 'text' && (
+                  <label className="checkin-questions-field">
+                    <span>Red flag at or above</span>
+                    <input
+                      type="number"
+                      value={form.redFlagThreshold}
+                      placeholder="Off"
+                      onChange={(e) => setForm({ ...form, redFlagThreshold: e.target.value })}
+                    />
+                  </label>
+                )}
+
+                <label className="checkin-questions-field">
+                  <span>Order</span>
+                  <input
+                    type="number"
+                    step={1}
+                    value={form.sortOrder}
+                    onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                  />
+                </label>
+              </div>
+
+              {hasBounds(form.type) && (
+                <div className="checkin-questions-row">
+                  <label className="checkin-questions-field">
+                    <span>Minimum</span>
+                    <input type="number" value={form.minValue} onChange={(e) => setForm({ ...form, minValue: e.target.value })} />
+                  </label>
+                  <label className="checkin-questions-field">
+                    <span>Maximum</span>
+                    <input type="number" value={form.maxValue} onChange={(e) => setForm({ ...form, maxValue: e.target.value })} />
+                  </label>
+                </div>
+              )}
+
+              {isChoiceType(form.type) && (
+                <div className="checkin-questions-field">
+                  <span>Options (label and score)</span>
+                  {form.options.map((option, index) => (
+                    <div key={index} className="checkin-questions-option">
+                      <input
+                        type="text"
+                        maxLength={100}
+                        value={option.label}
+                        placeholder={`Option ${index + 1}`}
+                        onChange={(e) => updateOption(index, { label: e.target.value })}
+                      />
+                      <input
+                        type="number"
+                        value={option.score}
+                        onChange={(e) => updateOption(index, { score: e.target.value })}
+                      />
+                      <button
+                        type="button"
+                        className="checkin-questions-link"
+                        onClick={() => setForm({ ...form, options: form.options.filter((_, i) => i !== index) })}
+                        disabled={form.options.length === 1}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="checkin-questions-link"
+                    onClick={() => setForm({ ...form, options: [...form.options, { value: '', label: '', score: '0' }] })}
+                  >
+                    Add option
+                  </button>
+                </div>
+              )}
+
+              <label className="checkin-questions-checkbox">
+                <input
+                  type="checkbox"
+                  checked={form.isRequired}
+                  onChange={(e) => setForm({ ...form, isRequired: e.target.checked })}
+                />
+                Required
+              </label>
+
+              <p className="checkin-questions-help">
+                Score = answer × weight (yes = 1, scale/number = the value, choices = option score, body map = regions selected).
+                It is added to the readiness score; an answer at or above the red flag makes the check-in Red.
+              </p>
+            </div>
+          ) : questions.length === 0 ? (
+            <p className="checkin-questions-help">No custom questions yet. Workers only answer the standard check-in.</p>
+          ) : (
+            <ul className="checkin-questions-list">
+              {questions.map(question => (
+                <li key={question.id} className={question.is_active ? '' : 'inactive'}>
+                  <div>
+                    <div className="checkin-questions-label">{question.label}</div>
+                    <div className="checkin-questions-meta">
+                      {QUESTION_TYPE_LABELS[question.question_type]}
+                      {question.is_required && ' · Required'}
+                      {question.scoring_weight > 0 && ` · Weight ${question.scoring_weight}`}
+                      {question.red_flag_threshold !== null && ` · Red flag at ${question.red_flag_threshold}`}
+                      {!question.is_active && ' · Inactive'}
+                    </div>
+                  </div>
+                  <div className="checkin-questions-actions">
+                    <button type="button" className="checkin-questions-link" onClick={() => openEdit(question)} disabled={saving}>
+                      Edit
+                    </button>
+                    <button type="button" className="checkin-questions-link" onClick={() => handleToggleActive(question)} disabled={saving}>
+                      {question.is_active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="checkin-questions-footer">
+          {showForm ? (
+            <>
+              <button className="checkin-questions-secondary" onClick={() => setShowForm(false)} disabled={saving}>
+                Cancel
+              </button>
+              <button className="checkin-questions-primary" onClick={handleSave} disabled={saving || !form.label.trim()}>
+                {saving ? 'Saving...' : editingId ? 'Save Question' : 'Add Question'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button className="checkin-questions-secondary" onClick={onClose} disabled={saving}>
+                Close
+              </button>
+              <button className="checkin-questions-primary" onClick={openCreate} disabled={loading || saving}>
+                Add Question
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
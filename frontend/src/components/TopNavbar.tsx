@@ -2,7 +2,7 @@ import { useState, useRef, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { PUBLIC_ROUTES } from '../config/routes'
-import { useNotifications } from '../hooks/useNotifications'
+import { useNotifications, isNotFitNotification } from '../hooks/useNotifications'
 import './TopNavbar.css'
 
 interface TopNavbarProps {
@@ -189,10 +189,19 @@ export function TopNavbar({ onToggleSidebar, sidebarOpen }: TopNavbarProps) {
                           if (notification.type === 'incident_assigned') {
                             navigate('/dashboard/whs-control-center')
                             setShowNotifications(false)
-                          } else if (notification.type === 'case_assigned_to_clinician') {
+                          } else if (notification.type === 'case_assigned_to_clinician' || notification.type === 'rehab_pain_increase') {
                             // For clinicians, go to clinician dashboard
                             navigate('/dashboard/clinician')
                             setShowNotifications(false)
+                          } else if (notification.type === 'appointment_unconfirmed') {
+                            navigate('/dashboard/clinician/appointments')
+                            setShowNotifications(false)
+                          } else if (notification.type === 'case_sla_breached') {
+                            // SLA escalations go to whoever's case list shows the overdue case
+                            navigate(role === 'supervisor'
+                              ? '/dashboard/supervisor/incidents'
+                              : role === 'clinician' ? '/dashboard/clinician' : '/dashboard/whs-control-center')
+                            setShowNotifications(false)
                           } else if (notification.type === 'case_closed') {
                             // For supervisors, go to incident management when case is closed
                             if (role === 'supervisor') {
@@ -202,7 +211,7 @@ export function TopNavbar({ onToggleSidebar, sidebarOpen }: TopNavbarProps) {
                               navigate('/dashboard/notifications')
                               setShowNotifications(false)
                             }
-                          } else if (notification.type === 'worker_not_fit_to_work') {
+                          } else if (isNotFitNotification(notification)) {
                             // For team leaders, go to notifications page to see details
                             navigate('/dashboard/notifications')
                             setShowNotifications(false)
@@ -234,7 +243,7 @@ export function TopNavbar({ onToggleSidebar, sidebarOpen }: TopNavbarProps) {
                             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ color: '#10B981' }}>
                               <polyline points="20 6 9 17 4 12"></polyline>
                             </svg>
-                          ) : notification.type === 'worker_not_fit_to_work' ? (
+                          ) : isNotFitNotification(notification) ? (
                             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ color: '#ef4444' }}>
                               <circle cx="12" cy="12" r="10"></circle>
                               <line x1="12" y1="8" x2="12" y2="12"></line>
@@ -263,7 +272,7 @@ export function TopNavbar({ onToggleSidebar, sidebarOpen }: TopNavbarProps) {
                               Case: <strong>{notification.data.case_number}</strong>
                             </div>
                           )}
-                          {notification.data?.worker_name && notification.type === 'worker_not_fit_to_work' && (
+                          {notification.data?.worker_name && isNotFitNotification(notification) && (
                             <div className="navbar-notification-case" style={{ color: '#ef4444' }}>
                               Worker: <strong>{notification.data.worker_name}</strong>
                             </div>
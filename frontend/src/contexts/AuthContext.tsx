@@ -13,6 +13,7 @@ import { PUBLIC_ROUTES, isPublicRoute, getDashboardRoute } from '../config/route
 import { useNavigate, useLocation } from 'react-router-dom'
 import { authService } from '../services/authService'
 import { apiClient, isApiError } from '../lib/apiClient'
+import { cacheProfile, loadCachedProfile } from '../utils/offlineCache'
 
 type Session = Awaited<ReturnType<typeof supabase.auth.getSession>>['data']['session']
 type User = NonNullable<Session>['user']
@@ -36,6 +37,33 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Supabase-shaped user/session objects for the profile returned by /api/auth/me
+function buildUser(id: string, email: string): User {
+  return {
+    id,
+    email,
+    created_at: new Date().toISOString(),
+    app_metadata: {},
+    user_metadata: {},
+    aud: 'authenticated',
+    confirmed_at: new Date().toISOString(),
+    last_sign_in_at: new Date().toISOString(),
+    role: 'authenticated',
+    updated_at: new Date().toISOString(),
+  }
+}
+
+function buildSession(user: User): Session {
+  return {
+    access_token: '',
+    refresh_token: '',
+    expires_in: 3600,
+    expires_at: Math.floor(Date.now() / 1000) + 3600,
+    token_type: 'bearer',
+    user,
+  }
+}
+
 /* @refresh reset */
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState({
@@ -131,6 +159,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       const { data, error } = await safeApiCall()
 
+      // OFFLINE: Server unreachable on start - continue with the last known profile so the
+      // worker app opens offline (check-ins are queued and sent once back online).
+      // The next successful poll replaces it; a 401 then signs the user out as usual.
+      if (error === 'network' && isInitialLoad && !userRef.current) {
+        const cached = loadCachedProfile()
+        if (cached) {
+          console.warn('[Auth] Network unavailable - using cached profile')
+          const cachedUser = buildUser(cached.id, cached.email)
+          userRef.current = cachedUser
+          setState({
+            user: cachedUser,
+            session: buildSession(cachedUser),
+            role: cached.role,
+            first_name: cached.first_name || null,
+            last_name: cached.last_name || null,
+            full_name: cached.full_name || null,
+            phone: cached.phone || null,
+            business_name: cached.business_name || null,
+            business_registration_number: cached.business_registration_number || null,
+          })
+          return
+        }
+      }
+
       // Silently handle 401 errors (user is logged out or session expired)
       if (error === 401 || !data?.user) {
         // Only update state if not already logged out
@@ -186,27 +238,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       // ✅ Construct new user/session objects
-      const userObj: User = {
-        id: data.user.id,
-        email: data.user.email || '',
-        created_at: new Date().toISOString(),
-        app_metadata: {},
-        user_metadata: {},
-        aud: 'authenticated',
-        confirmed_at: new Date().toISOString(),
-        last_sign_in_at: new Date().toISOString(),
-        role: 'authenticated',
-        updated_at: new Date().toISOString(),
-      }
-
-      const newSession: Session = {
-        access_token: '',
-        refresh_token: '',
-        expires_in: 3600,
-        expires_at: Math.floor(Date.now() / 1000) + 3600,
-        token_type: 'bearer',
-        user: userObj,
-      }
+      const userObj = buildUser(data.user.id, data.user.email || '')
+      const newSession = buildSession(userObj)
 
       userRef.current = userObj
       // Reset logout flag when user successfully authenticates
@@ -227,6 +260,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           data.user.business_registration_number || null,
       })
 
+      // Remember the profile for offline starts (cleared with localStorage on sign-out)
+      cacheProfile({
+        id: data.user.id,
+        email: data.user.email || '',
+        role: userRole,
+        first_name: data.user.first_name || null,
+        last_name: data.user.last_name || null,
+        full_name: data.user.full_name || null,
+        phone: data.user.phone || null,
+        business_name: data.user.business_name || null,
+        business_registration_number: data.user.business_registration_number || null,
+      })
+
       // SECURITY: Redirect authenticated users away from public routes (login/register)
       // Only redirect on initial load to prevent redirect loops
       if (isInitialLoad && isPublic && userRole) {
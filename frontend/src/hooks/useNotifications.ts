@@ -29,16 +29,27 @@ export interface Notification {
     shift_start_time?: string | null
     shift_end_time?: string | null
     shift_type?: string
+    // For worker_not_fit_escalated notifications (same fields as above, plus)
+    escalation_id?: string
+    escalation_level?: 'supervisor' | 'whs'
   }
   is_read: boolean
   created_at: string
   read_at: string | null
 }
 
+/**
+ * Not Fit to Work alert - the original (team leader) or an escalation (supervisor/WHS)
+ */
+export function isNotFitNotification(notification: Notification): boolean {
+  return notification.type === 'worker_not_fit_to_work' || notification.type === 'worker_not_fit_escalated'
+}
+
 interface UseNotificationsOptions {
   limit?: number
   autoFetch?: boolean
-  pollInterval?: number
+  pollInterval?: number // Only used when the live stream is unavailable
+  stream?: boolean
 }
 
 interface UseNotificationsReturn {
@@ -46,28 +57,49 @@ interface UseNotificationsReturn {
   unreadCount: number
   loading: boolean
   error: string
+  isLive: boolean
   fetchNotifications: () => Promise<void>
   markAsRead: (notificationId: string) => Promise<void>
   markAllAsRead: () => Promise<void>
 }
 
+const NOTIFICATIONS_URL = `${API_BASE_URL}/api/notifications`
+// Consecutive stream errors (without a successful connect) before falling back to polling
+const MAX_STREAM_FAILURES = 3
+// How long to poll before trying the live stream again
+const STREAM_RETRY_DELAY = 5 * 60 * 1000
+
 /**
  * Centralized notification hook for fetching and managing notifications
- * Supports WHS and Team Leader roles
+ * Works for every role - uses the live SSE stream (/api/notifications/stream)
+ * and only falls back to polling when the stream can't be used
  */
 export function useNotifications(
   role: string | null | undefined,
   enabled: boolean = true,
   options: UseNotificationsOptions = {}
 ): UseNotificationsReturn {
-  const { limit = 50, autoFetch = true, pollInterval = 30000 } = options
+  const { limit = 50, autoFetch = true, pollInterval = 30000, stream = true } = options
 
   const [notifications, setNotifications] = useState<Notification[]>([])
   const [unreadCount, setUnreadCount] = useState(0)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [initialLoaded, setInitialLoaded] = useState(false)
+  const [isLive, setIsLive] = useState(false)
+  const [streamFailed, setStreamFailed] = useState(false)
   const pollingIntervalRef = useRef<number | null>(null)
   const isFetchingRef = useRef(false)
+  const lastEventIdRef = useRef<string | null>(null)
+  const notificationsRef = useRef<Notification[]>([])
+
+  const isActive = !!role && enabled
+  const canStream = stream && typeof window !== 'undefined' && 'EventSource' in window
+
+  // Keep a ref copy so stream handlers can read current state without re-subscribing
+  useEffect(() => {
+    notificationsRef.current = notifications
+  }, [notifications])
 
   const fetchNotifications = useCallback(async () => {
     if (!role || !enabled) return
@@ -80,24 +112,7 @@ export function useNotifications(
       setLoading(true)
       setError('')
 
-      let endpoint = ''
-      if (role === 'whs_control_center') {
-        endpoint = `${API_BASE_URL}/api/whs/notifications?limit=${limit}`
-      } else if (role === 'team_leader') {
-        endpoint = `${API_BASE_URL}/api/teams/notifications?limit=${limit}`
-      } else if (role === 'clinician') {
-        endpoint = `${API_BASE_URL}/api/clinician/notifications?limit=${limit}`
-      } else if (role === 'worker') {
-        endpoint = `${API_BASE_URL}/api/checkins/notifications?limit=${limit}`
-      } else if (role === 'supervisor') {
-        endpoint = `${API_BASE_URL}/api/supervisor/notifications?limit=${limit}`
-      } else {
-        // Unknown role, skip fetch
-        isFetchingRef.current = false
-        return
-      }
-
-      const response = await fetch(endpoint, {
+      const response = await fetch(`${NOTIFICATIONS_URL}?limit=${limit}`, {
         method: 'GET',
         credentials: 'include',
         headers: {
@@ -112,11 +127,15 @@ export function useNotifications(
       const data = await response.json()
       setNotifications(data.notifications || [])
       setUnreadCount(data.unreadCount || 0)
+      if (data.lastEventId) {
+        lastEventIdRef.current = data.lastEventId
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to load notifications')
       console.error('Error fetching notifications:', err)
     } finally {
       setLoading(false)
+      setInitialLoaded(true)
       isFetchingRef.current = false
     }
   }, [role, enabled, limit])
@@ -130,7 +149,95 @@ export function useNotifications(
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autoFetch, enabled, role, limit])
 
-  // Polling effect (only if pollInterval > 0) - uses ref to avoid dependency issues
+  // Live stream - opened after the initial fetch so Last-Event-ID replay covers the gap
+  useEffect(() => {
+    if (!autoFetch || !isActive || !canStream || streamFailed || !initialLoaded) {
+      return
+    }
+
+    const query = lastEventIdRef.current ? `?lastEventId=${encodeURIComponent(lastEventIdRef.current)}` : ''
+    const eventSource = new EventSource(`${NOTIFICATIONS_URL}/stream${query}`, { withCredentials: true })
+    let failures = 0
+    let hasDisconnected = false
+
+    eventSource.addEventListener('ready', () => {
+      // Replay needs an event id; if we never received one, resync the list after a reconnect
+      if (hasDisconnected && !lastEventIdRef.current) {
+        fetchNotifications()
+      }
+      failures = 0
+      hasDisconnected = false
+      setIsLive(true)
+    })
+
+    eventSource.addEventListener('notification', (event) => {
+      const messageEvent = event as MessageEvent
+      try {
+        const notification: Notification = JSON.parse(messageEvent.data)
+        if (messageEvent.lastEventId) {
+          lastEventIdRef.current = messageEvent.lastEventId
+        }
+        if (notificationsRef.current.some(n => n.id === notification.id)) return
+
+        setNotifications(prev => [notification, ...prev].slice(0, limit))
+        if (!notification.is_read) {
+          setUnreadCount(prev => prev + 1)
+        }
+      } catch (err) {
+        console.error('Error parsing notification event:', err)
+      }
+    })
+
+    // Read state changed in another tab/device
+    eventSource.addEventListener('read', (event) => {
+      try {
+        const { id, read_at } = JSON.parse((event as MessageEvent).data)
+        const target = notificationsRef.current.find(n => n.id === id)
+        if (!target || target.is_read) return
+
+        setNotifications(prev => prev.map(n => (n.id === id ? { ...n, is_read: true, read_at } : n)))
+        setUnreadCount(prev => Math.max(0, prev - 1))
+      } catch (err) {
+        console.error('Error parsing read event:', err)
+      }
+    })
+
+    eventSource.addEventListener('read_all', (event) => {
+      try {
+        const { read_at } = JSON.parse((event as MessageEvent).data)
+        setNotifications(prev => prev.map(n => (n.is_read ? n : { ...n, is_read: true, read_at })))
+        setUnreadCount(0)
+      } catch (err) {
+        console.error('Error parsing read_all event:', err)
+      }
+    })
+
+    eventSource.onerror = () => {
+      setIsLive(false)
+      hasDisconnected = true
+      failures++
+      // EventSource retries by itself while CONNECTING; CLOSED means the server refused (e.g. 401)
+      if (eventSource.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+        console.warn('Notification stream unavailable - falling back to polling')
+        eventSource.close()
+        setStreamFailed(true)
+      }
+    }
+
+    return () => {
+      eventSource.close()
+      setIsLive(false)
+    }
+  }, [autoFetch, isActive, canStream, streamFailed, initialLoaded, limit, fetchNotifications])
+
+  // After falling back to polling, try the stream again later
+  useEffect(() => {
+    if (!streamFailed) return
+    const timeout = window.setTimeout(() => setStreamFailed(false), STREAM_RETRY_DELAY)
+    return () => clearTimeout(timeout)
+  }, [streamFailed])
+
+  // Polling fallback (only if pollInterval > 0 and the stream is not in use) - uses ref to avoid dependency issues
   useEffect(() => {
     // Clear any existing interval first
     if (pollingIntervalRef.current) {
@@ -138,7 +245,8 @@ export function useNotifications(
       pollingIntervalRef.current = null
     }
 
-    if (!autoFetch || !enabled || !role || pollInterval <= 0) {
+    const streamInUse = canStream && !streamFailed
+    if (!autoFetch || !enabled || !role || pollInterval <= 0 || streamInUse) {
       return
     }
 
@@ -156,10 +264,10 @@ export function useNotifications(
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoFetch, enabled, role, pollInterval]) // Exclude fetchNotifications to prevent loop
+  }, [autoFetch, enabled, role, pollInterval, canStream, streamFailed]) // Exclude fetchNotifications to prevent loop
 
   const markAsRead = useCallback(async (notificationId: string) => {
-    if (!role || (role !== 'whs_control_center' && role !== 'team_leader' && role !== 'clinician' && role !== 'worker' && role !== 'supervisor')) return
+    if (!role) return
 
     // Optimistic update - update UI immediately
     const notification = notifications.find(n => n.id === notificationId)
@@ -172,22 +280,7 @@ export function useNotifications(
     setUnreadCount(prev => Math.max(0, prev - 1))
 
     try {
-      let baseUrl = ''
-      if (role === 'whs_control_center') {
-        baseUrl = `${API_BASE_URL}/api/whs/notifications`
-      } else if (role === 'team_leader') {
-        baseUrl = `${API_BASE_URL}/api/teams/notifications`
-      } else if (role === 'clinician') {
-        baseUrl = `${API_BASE_URL}/api/clinician/notifications`
-      } else if (role === 'worker') {
-        baseUrl = `${API_BASE_URL}/api/checkins/notifications`
-      } else if (role === 'supervisor') {
-        baseUrl = `${API_BASE_URL}/api/supervisor/notifications`
-      } else {
-        return
-      }
-      
-      const response = await fetch(`${baseUrl}/${notificationId}/read`, {
+      const response = await fetch(`${NOTIFICATIONS_URL}/${notificationId}/read`, {
         method: 'PATCH',
         credentials: 'include',
         headers: {
@@ -196,11 +289,6 @@ export function useNotifications(
       })
 
       if (!response.ok) {
-        // Revert optimistic update if request failed
-        setNotifications(prev => prev.map(n => 
-          n.id === notificationId ? notification : n
-        ))
-        setUnreadCount(prev => prev + 1)
         throw new Error('Failed to mark notification as read')
       }
     } catch (err) {
@@ -214,7 +302,7 @@ export function useNotifications(
   }, [role, notifications])
 
   const markAllAsRead = useCallback(async () => {
-    if (!role || (role !== 'whs_control_center' && role !== 'team_leader' && role !== 'clinician' && role !== 'worker' && role !== 'supervisor')) return
+    if (!role) return
 
     // Optimistic update - update UI immediately
     const unreadNotifications = notifications.filter(n => !n.is_read)
@@ -228,22 +316,7 @@ export function useNotifications(
     setUnreadCount(0)
 
     try {
-      let baseUrl = ''
-      if (role === 'whs_control_center') {
-        baseUrl = `${API_BASE_URL}/api/whs/notifications`
-      } else if (role === 'team_leader') {
-        baseUrl = `${API_BASE_URL}/api/teams/notifications`
-      } else if (role === 'clinician') {
-        baseUrl = `${API_BASE_URL}/api/clinician/notifications`
-      } else if (role === 'worker') {
-        baseUrl = `${API_BASE_URL}/api/checkins/notifications`
-      } else if (role === 'supervisor') {
-        baseUrl = `${API_BASE_URL}/api/supervisor/notifications`
-      } else {
-        return
-      }
-      
-      const response = await fetch(`${baseUrl}/read-all`, {
+      const response = await fetch(`${NOTIFICATIONS_URL}/read-all`, {
         method: 'PATCH',
         credentials: 'include',
         headers: {
@@ -252,9 +325,6 @@ export function useNotifications(
       })
 
       if (!response.ok) {
-        // Revert optimistic update if request failed
-        setNotifications(previousNotifications)
-        setUnreadCount(previousUnreadCount)
         throw new Error('Failed to mark all notifications as read')
       }
     } catch (err) {
@@ -271,9 +341,9 @@ export function useNotifications(
     unreadCount,
     loading,
     error,
+    isLive,
     fetchNotifications,
     markAsRead,
     markAllAsRead,
   }
 }
-
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  isOutboxSupported,
+  listOutbox,
+  removeFromOutbox,
+  requestOutboxSync,
+  type OutboxEntry,
+  type OutboxKind,
+  type OutboxMessage,
+} from '../utils/offlineOutbox'
+
+const RETRY_INTERVAL_MS = 60 * 1000
+
+interface UseOfflineOutboxOptions {
+  onSent?: (id: string) => void
+  onFailed?: (id: string, error: string) => void
+}
+
+interface UseOfflineOutboxReturn {
+  entries: OutboxEntry[]
+  supported: boolean
+  refresh: () => Promise<void>
+  flush: () => Promise<void>
+  discard: (id: string) => Promise<void>
+}
+
+/**
+ * The signed-in user's queued requests of one kind, kept in sync with the service worker
+ * Asks the service worker to flush on mount, when the browser comes back online and
+ * periodically while anything is pending (for browsers without Background Sync).
+ */
+export function useOfflineOutbox(kind: OutboxKind, options: UseOfflineOutboxOptions = {}): UseOfflineOutboxReturn {
+  const { onSent, onFailed } = options
+  const { user } = useAuth()
+  const userId = user?.id
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const supported = isOutboxSupported()
+
+  const refresh = useCallback(async () => {
+    if (!supported) return
+    if (!userId) {
+      setEntries([])
+      return
+    }
+    try {
+      setEntries(await listOutbox(userId, kind))
+    } catch (err) {
+      console.error('Error reading offline outbox:', err)
+    }
+  }, [kind, supported, userId])
+
+  const flush = useCallback(async () => {
+    try {
+      await requestOutboxSync()
+    } catch (err) {
+      console.error('Error requesting outbox sync:', err)
+    }
+  }, [])
+
+  const discard = useCallback(async (id: string) => {
+    await removeFromOutbox(id)
+    await refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!supported) return
+
+    refresh()
+    flush()
+
+    const handleMessage = (event: MessageEvent<OutboxMessage>) => {
+      const message = event.data
+      if (!message || !message.type?.startsWith('OUTBOX_')) return
+      if (message.kind && message.kind !== kind) return
+
+      if (message.type === 'OUTBOX_SENT' && message.id) {
+        onSent?.(message.id)
+      } else if (message.type === 'OUTBOX_FAILED' && message.id) {
+        onFailed?.(message.id, message.error || 'Request failed')
+      }
+      refresh()
+    }
+
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    window.addEventListener('online', flush)
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage)
+      window.removeEventListener('online', flush)
+    }
+  }, [kind, supported, refresh, flush, onSent, onFailed])
+
+  const hasPending = entries.some(entry => entry.status === 'pending')
+
+  useEffect(() => {
+    if (!hasPending) return
+    const interval = setInterval(flush, RETRY_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasPending, flush])
+
+  return { entries, supported, refresh, flush, discard }
+}
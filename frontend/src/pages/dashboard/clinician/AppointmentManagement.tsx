@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { CalendarFeeds } from '../../../components/CalendarFeeds'
+import { AvailabilityModal } from './AvailabilityModal'
+import { isJoinWindowOpen, resolveJoinUrl, type JoinWindow, type VisitMode } from '../../../utils/telehealth'
 import './AppointmentManagement.css'
 
 interface Appointment {
@@ -16,11 +19,18 @@ interface Appointment {
   appointmentDate: string
   appointmentTime: string
   durationMinutes: number
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'declined'
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'declined' | 'no_show'
   appointmentType: 'consultation' | 'follow_up' | 'assessment' | 'review' | 'other'
   location: string
   notes: string
   cancellationReason: string
+  bookedBy: 'clinician' | 'worker'
+  workerRescheduleCount: number
+  unconfirmedFlaggedAt: string | null
+  visitMode: VisitMode
+  joinWindow: JoinWindow | null
+  sessionStartedAt: string | null
+  sessionEndedAt: string | null
   createdAt: string
   updatedAt: string
 }
@@ -43,11 +53,16 @@ interface Summary {
   thisWeek: number
   completedThisMonth: number
   cancelledThisMonth: number
+  noShowsThisMonth: number
   confirmed: number
   pending: number
   declined: number
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  no_show: 'No-show',
+}
+
 const TYPE_LABELS: Record<string, string> = {
   consultation: 'Consultation',
   follow_up: 'Follow-up',
@@ -64,6 +79,7 @@ export function AppointmentManagement() {
     thisWeek: 0,
     completedThisMonth: 0,
     cancelledThisMonth: 0,
+    noShowsThisMonth: 0,
     confirmed: 0,
     pending: 0,
     declined: 0,
@@ -77,16 +93,26 @@ export function AppointmentManagement() {
   const [activeTab, setActiveTab] = useState<'today' | 'all' | 'week' | 'upcoming'>('all')
   const [statusFilter, setStatusFilter] = useState<'all' | 'confirmed' | 'pending' | 'declined'>('all')
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showAvailabilityModal, setShowAvailabilityModal] = useState(false)
   const [formData, setFormData] = useState({
     case_id: '',
     appointment_date: '',
     appointment_time: '',
     duration_minutes: 30,
     appointment_type: 'consultation',
+    visit_mode: 'in_person',
     location: '',
     notes: '',
   })
   const [submitting, setSubmitting] = useState(false)
+  const [joiningId, setJoiningId] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Re-evaluate join windows while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
 
   // Fetch appointments
   const fetchAppointments = useCallback(async () => {
@@ -118,6 +144,7 @@ export function AppointmentManagement() {
         thisWeek: 0,
         completedThisMonth: 0,
         cancelledThisMonth: 0,
+        noShowsThisMonth: 0,
         confirmed: 0,
         pending: 0,
         declined: 0,
@@ -184,7 +211,12 @@ export function AppointmentManagement() {
       const responseData = await response.json()
 
       if (!response.ok) {
-        throw new Error(responseData.error || responseData.details || 'Failed to create appointment')
+        // Calendar conflicts say what the time clashes with
+        throw new Error(
+          response.status === 409 && responseData.details
+            ? `${responseData.error}: ${responseData.details}`
+            : responseData.error || responseData.details || 'Failed to create appointment'
+        )
       }
 
       setShowCreateModal(false)
@@ -194,6 +226,7 @@ export function AppointmentManagement() {
         appointment_time: '',
         duration_minutes: 30,
         appointment_type: 'consultation',
+        visit_mode: 'in_person',
         location: '',
         notes: '',
       })
@@ -231,6 +264,68 @@ export function AppointmentManagement() {
     }
   }
 
+  const handleRecordNoShow = (appointmentId: string) => {
+    if (!confirm('Record this appointment as a no-show? The worker did not attend.')) {
+      return
+    }
+    handleUpdateStatus(appointmentId, 'no_show')
+  }
+
+  const handleJoin = async (appointmentId: string) => {
+    // Open the tab within the click so popup blockers allow it, then point it at the room
+    const videoTab = window.open('', '_blank')
+    try {
+      setJoiningId(appointmentId)
+      setError('')
+      const response = await fetch(`${API_BASE_URL}/api/telehealth/appointments/${appointmentId}/join`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      const data = await response.json().catch(() => ({ error: 'Failed to join video call' }))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join video call')
+      }
+
+      const joinUrl = resolveJoinUrl(data.joinUrl)
+      if (videoTab) {
+        videoTab.opener = null
+        videoTab.location.href = joinUrl
+      } else {
+        window.location.href = joinUrl
+      }
+      fetchAppointments()
+    } catch (err) {
+      videoTab?.close()
+      setError(err instanceof Error ? err.message : 'Failed to join video call')
+    } finally {
+      setJoiningId(null)
+    }
+  }
+
+  const handleEndSession = async (appointmentId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/telehealth/appointments/${appointmentId}/end`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to end session' }))
+        throw new Error(errorData.error || 'Failed to end session')
+      }
+
+      fetchAppointments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end session')
+    }
+  }
+
+  const formatSessionTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
   const handleDeleteAppointment = async (appointmentId: string) => {
     if (!confirm('Are you sure you want to delete this appointment?')) {
       return
@@ -265,6 +360,10 @@ export function AppointmentManagement() {
     return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`
   }
 
+  // No-shows are recorded once the appointment has started (the backend checks in the clinician's timezone)
+  const hasStarted = (appointment: Appointment) =>
+    new Date(`${appointment.appointmentDate}T${appointment.appointmentTime}`).getTime() <= Date.now()
+
   // Backend already filters, so we just use appointments directly
   const today = new Date().toISOString().split('T')[0]
   const todayAppointments = appointments.filter((apt) => apt.appointmentDate === today && apt.status === 'confirmed')
@@ -288,6 +387,13 @@ export function AppointmentManagement() {
             </h1>
           </div>
           <div className="header-right">
+            <button className="btn-export" onClick={() => setShowAvailabilityModal(true)}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="12" cy="12" r="10"></circle>
+                <polyline points="12 6 12 12 16 14"></polyline>
+              </svg>
+              Availability
+            </button>
             <button className="btn-export">
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
@@ -344,6 +450,12 @@ export function AppointmentManagement() {
               <div className="card-value">{summary.cancelledThisMonth} this month</div>
             </div>
           </div>
+          <div className="summary-card">
+            <div className="card-content">
+              <div className="card-label">No-shows</div>
+              <div className="card-value">{summary.noShowsThisMonth} this month</div>
+            </div>
+          </div>
         </div>
 
         {/* Filters */}
@@ -473,9 +585,39 @@ export function AppointmentManagement() {
                     </div>
                   </div>
                   <div className="appointment-actions">
+                    {appointment.visitMode === 'telehealth' && (
+                      <span className="visit-mode-badge">Video</span>
+                    )}
+                    {appointment.bookedBy === 'worker' && (
+                      <span className="booked-by-badge" title={appointment.workerRescheduleCount > 0 ? `Rescheduled ${appointment.workerRescheduleCount}×` : undefined}>
+                        Self-booked
+                      </span>
+                    )}
+                    {appointment.status === 'pending' && appointment.unconfirmedFlaggedAt && (
+                      <span className="unconfirmed-badge" title="The worker hasn't confirmed and the appointment is coming up soon">
+                        Not confirmed
+                      </span>
+                    )}
                     <span className={`status-badge status-${appointment.status}`}>
-                      {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+                      {STATUS_LABELS[appointment.status] || appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
                     </span>
+                    {isJoinWindowOpen(appointment.joinWindow, now) && (
+                      <button
+                        className="btn-sm btn-join"
+                        onClick={() => handleJoin(appointment.id)}
+                        disabled={joiningId === appointment.id}
+                      >
+                        {joiningId === appointment.id ? 'Joining...' : 'Join'}
+                      </button>
+                    )}
+                    {appointment.sessionStartedAt && !appointment.sessionEndedAt && (
+                      <button
+                        className="btn-sm btn-secondary"
+                        onClick={() => handleEndSession(appointment.id)}
+                      >
+                        End session
+                      </button>
+                    )}
                     {appointment.status === 'pending' && (
                       <button
                         className="btn-sm btn-success"
@@ -492,6 +634,14 @@ export function AppointmentManagement() {
                         Complete
                       </button>
                     )}
+                    {(appointment.status === 'pending' || appointment.status === 'confirmed') && hasStarted(appointment) && (
+                      <button
+                        className="btn-sm btn-warning"
+                        onClick={() => handleRecordNoShow(appointment.id)}
+                      >
+                        No-show
+                      </button>
+                    )}
                     <button
                       className="btn-sm btn-danger"
                       onClick={() => handleDeleteAppointment(appointment.id)}
@@ -509,12 +659,25 @@ export function AppointmentManagement() {
                     <span className="detail-label">Duration:</span>
                     <span>{appointment.durationMinutes} minutes</span>
                   </div>
-                  {appointment.location && (
+                  {appointment.visitMode === 'telehealth' ? (
+                    <div className="detail-item">
+                      <span className="detail-label">Location:</span>
+                      <span>Video call</span>
+                    </div>
+                  ) : appointment.location && (
                     <div className="detail-item">
                       <span className="detail-label">Location:</span>
                       <span>{appointment.location}</span>
                     </div>
                   )}
+                  {appointment.sessionStartedAt && (
+                    <div className="detail-item">
+                      <span className="detail-label">Session:</span>
+                      <span>
+                        {formatSessionTime(appointment.sessionStartedAt)} – {appointment.sessionEndedAt ? formatSessionTime(appointment.sessionEndedAt) : 'in progress'}
+                      </span>
+                    </div>
+                  )}
                   {appointment.notes && (
                     <div className="detail-item">
                       <span className="detail-label">Notes:</span>
@@ -581,6 +744,14 @@ export function AppointmentManagement() {
           </div>
         )}
 
+        {/* Calendar sync (.ics feed) */}
+        <div className="calendar-sync-section">
+          <h2>Sync to Your Calendar</h2>
+          <CalendarFeeds description="See your appointments in your phone or desktop calendar. Cancelled and declined appointments are removed automatically." />
+        </div>
+
+        {showAvailabilityModal && <AvailabilityModal onClose={() => setShowAvailabilityModal(false)} />}
+
         {/* Create Appointment Modal */}
         {showCreateModal && (
           <div className="modal-overlay" onClick={() => setShowCreateModal(false)}>
@@ -656,14 +827,32 @@ export function AppointmentManagement() {
                     </select>
                   </div>
                 </div>
-                <div className="form-group">
-                  <label>Location</label>
-                  <input
-                    type="text"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    placeholder="Appointment location"
-                  />
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Mode *</label>
+                    <select
+                      value={formData.visit_mode}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        visit_mode: e.target.value,
+                        location: e.target.value === 'telehealth' ? '' : formData.location,
+                      })}
+                      required
+                    >
+                      <option value="in_person">In person</option>
+                      <option value="telehealth">Telehealth (video call)</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label>Location</label>
+                    <input
+                      type="text"
+                      value={formData.location}
+                      onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                      placeholder={formData.visit_mode === 'telehealth' ? 'Video room link is sent at join time' : 'Appointment location'}
+                      disabled={formData.visit_mode === 'telehealth'}
+                    />
+                  </div>
                 </div>
                 <div className="form-group">
                   <label>Notes</label>
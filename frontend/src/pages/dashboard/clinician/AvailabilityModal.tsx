@@ -0,0 +1,353 @@
+import { useState, useEffect } from 'react'
+import { Loading } from '../../../components/Loading'
+import { API_BASE_URL } from '../../../config/api'
+import {
+  DAY_LABELS,
+  formatTime,
+  type AvailabilityBreak,
+  type BookingSettings,
+  type ClinicianLeave,
+  type WorkingHoursBlock,
+} from '../../../utils/clinicianAvailability'
+
+interface AvailabilityModalProps {
+  onClose: () => void
+}
+
+const EMPTY_LEAVE = { start_date: '', end_date: '', start_time: '', end_time: '', reason: '' }
+
+const RULE_FIELDS: Array<{ field: keyof BookingSettings; label: string; min: number; max: number }> = [
+  { field: 'slot_minutes', label: 'Appointment length (min)', min: 15, max: 240 },
+  { field: 'buffer_minutes', label: 'Gap between appointments (min)', min: 0, max: 120 },
+  { field: 'min_notice_hours', label: 'Minimum notice (hours)', min: 0, max: 336 },
+  { field: 'booking_window_days', label: 'Bookable ahead (days)', min: 1, max: 180 },
+  { field: 'reschedule_cutoff_hours', label: 'Reschedule cutoff (hours)', min: 0, max: 336 },
+  { field: 'max_worker_reschedules', label: 'Reschedules per appointment', min: 0, max: 10 },
+]
+
+// Working hours, breaks, leave and the rules workers self-book by
+export function AvailabilityModal({ onClose }: AvailabilityModalProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [settings, setSettings] = useState<BookingSettings | null>(null)
+  const [workingHours, setWorkingHours] = useState<WorkingHoursBlock[]>([])
+  const [breaks, setBreaks] = useState<AvailabilityBreak[]>([])
+  const [leave, setLeave] = useState<ClinicianLeave[]>([])
+  const [leaveForm, setLeaveForm] = useState(EMPTY_LEAVE)
+
+  useEffect(() => {
+    const fetchAvailability = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/clinician/availability`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        })
+        if (!response.ok) {
+          throw new Error('Failed to load availability')
+        }
+        const data = await response.json()
+        setSettings(data.settings)
+        setWorkingHours(data.workingHours || [])
+        setBreaks(data.breaks || [])
+        setLeave(data.leave || [])
+      } catch (err) {
+        console.error('Error fetching availability:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load availability')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAvailability()
+  }, [])
+
+  const updateBlock = (index: number, changes: Partial<WorkingHoursBlock>) => {
+    setWorkingHours(workingHours.map((block, i) => (i === index ? { ...block, ...changes } : block)))
+  }
+
+  const updateBreak = (index: number, changes: Partial<AvailabilityBreak>) => {
+    setBreaks(breaks.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const handleSave = async () => {
+    if (!settings) return
+    try {
+      setSaving(true)
+      setError('')
+      setNotice('')
+      const response = await fetch(`${API_BASE_URL}/api/clinician/availability`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings, working_hours: workingHours, breaks }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save availability')
+      }
+      setSettings(data.settings)
+      setWorkingHours(data.workingHours || [])
+      setBreaks(data.breaks || [])
+      setNotice('Availability saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save availability')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddLeave = async () => {
+    if (!leaveForm.start_date) {
+      setError('Pick the first day of leave')
+      return
+    }
+    try {
+      setSaving(true)
+      setError('')
+      setNotice('')
+      const response = await fetch(`${API_BASE_URL}/api/clinician/availability/leave`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          start_date: leaveForm.start_date,
+          end_date: leaveForm.end_date || leaveForm.start_date,
+          start_time: leaveForm.start_time || null,
+          end_time: leaveForm.end_time || null,
+          reason: leaveForm.reason,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add leave')
+      }
+      setLeave([...leave, data.leave].sort((a, b) => a.start_date.localeCompare(b.start_date)))
+      setLeaveForm(EMPTY_LEAVE)
+      const affected = data.affectedAppointments?.length || 0
+      setNotice(affected > 0
+        ? `Leave added. ${affected} appointment${affected === 1 ? '' : 's'} fall${affected === 1 ? 's' : ''} in it - reschedule or cancel ${affected === 1 ? 'it' : 'them'}.`
+        : 'Leave added')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add leave')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveLeave = async (leaveId: string) => {
+    try {
+      setError('')
+      const response = await fetch(`${API_BASE_URL}/api/clinician/availability/leave/${leaveId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({ error: 'Failed to remove leave' }))
+        throw new Error(data.error || 'Failed to remove leave')
+      }
+      setLeave(leave.filter(item => item.id !== leaveId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove leave')
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content availability-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>My Availability</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="alert alert-error">{error}</div>}
+          {notice && <div className="availability-notice">{notice}</div>}
+
+          {loading ? (
+            <Loading message="Loading availability..." />
+          ) : settings && (
+            <>
+              <h3 className="availability-section-title">Working Hours</h3>
+              {workingHours.length === 0 && (
+                <p className="availability-helper">No working hours yet - workers can't book until you add some.</p>
+              )}
+              {workingHours.map((block, index) => (
+                <div key={index} className="availability-row">
+                  <select value={block.day_of_week} onChange={(e) => updateBlock(index, { day_of_week: parseInt(e.target.value) })}>
+                    {DAY_LABELS.map((label, day) => (
+                      <option key={day} value={day}>{label}</option>
+                    ))}
+                  </select>
+                  <input type="time" value={block.start_time} onChange={(e) => updateBlock(index, { start_time: e.target.value })} />
+                  <input type="time" value={block.end_time} onChange={(e) => updateBlock(index, { end_time: e.target.value })} />
+                  <input
+                    type="text"
+                    value={block.location || ''}
+                    onChange={(e) => updateBlock(index, { location: e.target.value })}
+                    placeholder="Location"
+                  />
+                  <button type="button" className="btn-sm btn-danger" onClick={() => setWorkingHours(workingHours.filter((_, i) => i !== index))}>
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="btn-secondary availability-add-btn"
+                onClick={() => setWorkingHours([...workingHours, { day_of_week: 1, start_time: '09:00', end_time: '17:00', location: '' }])}
+              >
+                + Add Hours
+              </button>
+
+              <h3 className="availability-section-title">Breaks</h3>
+              {breaks.map((item, index) => (
+                <div key={index} className="availability-row">
+                  <select
+                    value={item.day_of_week === null ? '' : item.day_of_week}
+                    onChange={(e) => updateBreak(index, { day_of_week: e.target.value === '' ? null : parseInt(e.target.value) })}
+                  >
+                    <option value="">Every day</option>
+                    {DAY_LABELS.map((label, day) => (
+                      <option key={day} value={day}>{label}</option>
+                    ))}
+                  </select>
+                  <input type="time" value={item.start_time} onChange={(e) => updateBreak(index, { start_time: e.target.value })} />
+                  <input type="time" value={item.end_time} onChange={(e) => updateBreak(index, { end_time: e.target.value })} />
+                  <input
+                    type="text"
+                    value={item.label || ''}
+                    onChange={(e) => updateBreak(index, { label: e.target.value })}
+                    placeholder="e.g., Lunch"
+                  />
+                  <button type="button" className="btn-sm btn-danger" onClick={() => setBreaks(breaks.filter((_, i) => i !== index))}>
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="btn-secondary availability-add-btn"
+                onClick={() => setBreaks([...breaks, { day_of_week: null, start_time: '12:00', end_time: '13:00', label: 'Lunch' }])}
+              >
+                + Add Break
+              </button>
+
+              <h3 className="availability-section-title">Self-Booking Rules</h3>
+              <label className="availability-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.allow_worker_booking}
+                  onChange={(e) => setSettings({ ...settings, allow_worker_booking: e.target.checked })}
+                />
+                Workers can book free slots themselves
+              </label>
+              <label className="availability-checkbox">
+                <input
+                  type="checkbox"
+                  checked={settings.allow_worker_reschedule}
+                  onChange={(e) => setSettings({ ...settings, allow_worker_reschedule: e.target.checked })}
+                />
+                Workers can reschedule their appointments
+              </label>
+              <div className="availability-rules">
+                {RULE_FIELDS.map(({ field, label, min, max }) => (
+                  <div key={field} className="form-group">
+                    <label>{label}</label>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={Number(settings[field])}
+                      onChange={(e) => setSettings({ ...settings, [field]: parseInt(e.target.value) || min })}
+                    />
+                  </div>
+                ))}
+                <div className="form-group">
+                  <label>Timezone</label>
+                  <input
+                    type="text"
+                    value={settings.timezone}
+                    onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+                    placeholder="e.g., Australia/Perth"
+                  />
+                </div>
+              </div>
+
+              <div className="availability-save">
+                <button className="btn-primary" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Hours & Rules'}
+                </button>
+              </div>
+
+              <h3 className="availability-section-title">Leave</h3>
+              {leave.length === 0 ? (
+                <p className="availability-helper">No upcoming leave.</p>
+              ) : (
+                <ul className="availability-leave-list">
+                  {leave.map((item) => (
+                    <li key={item.id}>
+                      <span>
+                        {item.start_date === item.end_date ? item.start_date : `${item.start_date} – ${item.end_date}`}
+                        {item.start_time && item.end_time && ` (${formatTime(item.start_time)} – ${formatTime(item.end_time)})`}
+                        {item.reason && <span className="availability-leave-reason"> · {item.reason}</span>}
+                      </span>
+                      <button type="button" className="btn-sm btn-danger" onClick={() => handleRemoveLeave(item.id)}>
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="availability-row availability-leave-form">
+                <input
+                  type="date"
+                  value={leaveForm.start_date}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, start_date: e.target.value })}
+                  title="First day"
+                />
+                <input
+                  type="date"
+                  value={leaveForm.end_date}
+                  min={leaveForm.start_date}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, end_date: e.target.value })}
+                  title="Last day (optional)"
+                />
+                <input
+                  type="time"
+                  value={leaveForm.start_time}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, start_time: e.target.value })}
+                  title="From (part-day leave)"
+                />
+                <input
+                  type="time"
+                  value={leaveForm.end_time}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, end_time: e.target.value })}
+                  title="Until (part-day leave)"
+                />
+                <input
+                  type="text"
+                  value={leaveForm.reason}
+                  onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                  placeholder="Reason (optional)"
+                />
+                <button type="button" className="btn-sm btn-primary" onClick={handleAddLeave} disabled={saving}>
+                  Add
+                </button>
+              </div>
+              <p className="availability-helper">Leave the times empty for whole days. Part-day leave is a single date.</p>
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react'
 import { Loading } from '../../../components/Loading'
+import { CaseAttachments } from '../../../components/CaseAttachments'
 import { API_BASE_URL } from '../../../config/api'
+import { ExerciseFeedbackCharts } from './ExerciseFeedbackCharts'
+import type { ExerciseFeedbackSummary } from '../../../utils/rehabilitationSchedule'
 import './CaseDetailModal.css'
 
 interface CaseDetailModalProps {
@@ -11,6 +14,40 @@ interface CaseDetailModalProps {
 
 type CaseStatus = 'new' | 'triaged' | 'assessed' | 'in_rehab' | 'return_to_work' | 'closed'
 
+type TransitionField = 'return_to_work_duty_type' | 'return_to_work_date' | 'reason'
+
+// Status move allowed by the backend transition table
+interface AllowedTransition {
+  to: CaseStatus
+  requiredFields: TransitionField[]
+}
+
+interface StatusHistoryEntry {
+  id: string
+  fromStatus: CaseStatus | null
+  toStatus: CaseStatus
+  changedBy: string | null
+  changedByRole: string | null
+  reason: string | null
+  source: 'api' | 'backfill'
+  changedAt: string
+}
+
+interface CaseAppointment {
+  id: string
+  appointmentDate: string
+  appointmentTime: string
+  appointmentType: string
+  status: string
+  updatedAt: string
+}
+
+interface AttendanceSummary {
+  attended: number
+  noShows: number
+  noShowRate: number | null
+}
+
 interface CaseDetail {
   id: string
   caseNumber: string
@@ -47,6 +84,7 @@ interface CaseDetail {
     description: string
   }
   caseStatus: CaseStatus // Internal case status
+  allowedTransitions: AllowedTransition[]
   approvedBy?: string // Name of clinician who approved/closed the case
   approvedAt?: string // Date when case was approved/closed
 }
@@ -137,16 +175,22 @@ const getStatusColor = (status: CaseStatus): string => {
   }
 }
 
-// Helper to parse notes JSON safely
-const parseNotes = (notes: string | null | undefined): any => {
-  if (!notes) return null
-  try {
-    return JSON.parse(notes)
-  } catch {
-    return null
-  }
+const ROLE_LABELS: Record<string, string> = {
+  clinician: 'Clinician',
+  whs_control_center: 'WHS',
+}
+
+const APPOINTMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  completed: 'Attended',
+  cancelled: 'Cancelled',
+  declined: 'Declined',
+  no_show: 'No-show',
 }
 
+const EMPTY_TRANSITION_FORM = { reason: '', return_to_work_duty_type: '', return_to_work_date: '' }
+
 // Helper to format incident type
 const formatIncidentType = (type: string): string => {
   return type.charAt(0).toUpperCase() + type.slice(1).replace('_', ' ')
@@ -159,31 +203,92 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
   const [error, setError] = useState('')
   const [showUpdateModal, setShowUpdateModal] = useState(false)
   const [updateAlert, setUpdateAlert] = useState<string | null>(null)
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([])
+  const [caseAppointments, setCaseAppointments] = useState<CaseAppointment[]>([])
+  const [attendance, setAttendance] = useState<AttendanceSummary | null>(null)
+  const [rehabFeedback, setRehabFeedback] = useState<{
+    planName: string
+    exercises: Array<{ id: string; exercise_name: string }>
+    feedback: ExerciseFeedbackSummary[]
+  } | null>(null)
+  const [pendingStatus, setPendingStatus] = useState<CaseStatus | null>(null)
+  const [transitionForm, setTransitionForm] = useState(EMPTY_TRANSITION_FORM)
 
   useEffect(() => {
     if (caseId) {
       fetchCaseDetail()
+      fetchRehabFeedback()
     }
   }, [caseId])
 
-  const fetchCaseDetail = async () => {
+  // Worker feedback on the case's latest rehabilitation plan - informational, failures are ignored
+  const fetchRehabFeedback = async () => {
     if (!caseId) return
+    setRehabFeedback(null)
 
     try {
-      setLoading(true)
-      setError('')
+      const plansResponse = await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans?status=all&exception_id=${caseId}`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+      })
+      if (!plansResponse.ok) return
+
+      const plansData = await plansResponse.json()
+      const latestPlan = plansData.plans?.[0]
+      if (!latestPlan) return
 
-      // Fetch case details
-      const response = await fetch(`${API_BASE_URL}/api/clinician/cases?status=all&limit=500`, {
+      const progressResponse = await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans/${latestPlan.id}/progress`, {
         method: 'GET',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
       })
+      if (!progressResponse.ok) return
+
+      const progressData = await progressResponse.json()
+      setRehabFeedback({
+        planName: progressData.plan?.plan_name || latestPlan.plan_name,
+        exercises: progressData.exercises || [],
+        feedback: progressData.exerciseFeedback || [],
+      })
+    } catch (err) {
+      console.error('Error fetching rehabilitation feedback:', err)
+    }
+  }
+
+  const fetchCaseDetail = async () => {
+    if (!caseId) return
+
+    try {
+      setLoading(true)
+      setError('')
+
+      // Fetch case details and status history
+      const [response, historyResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/api/clinician/cases?status=all&limit=500`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        }),
+        fetch(`${API_BASE_URL}/api/clinician/cases/${caseId}/history`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        }),
+      ])
 
       if (!response.ok) {
         throw new Error('Failed to fetch case details')
       }
 
+      // History is informational - don't fail the modal if it can't be loaded
+      if (historyResponse.ok) {
+        const historyData = await historyResponse.json()
+        setHistory(historyData.history || [])
+        setCaseAppointments(historyData.appointments || [])
+        setAttendance(historyData.attendance || null)
+      }
+
       const data = await response.json()
       const caseItem = data.cases?.find((c: any) => c.id === caseId)
 
@@ -191,22 +296,15 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
         throw new Error('Case not found')
       }
 
-      // Parse notes once
-      const notesData = parseNotes(caseItem.notes)
-      
-      // Get case_status from API response (from notes field) or fallback
+      // Get case_status from API response or fallback
       let caseStatus: CaseStatus = 'new'
       
-      // Priority 1: Use caseStatus from API (already extracted from notes)
+      // Priority 1: Use caseStatus from API
       if ((caseItem as any).caseStatus) {
         caseStatus = (caseItem as any).caseStatus
       }
-      // Priority 2: Try to get from notes field
-      else if (notesData?.case_status) {
-        caseStatus = notesData.case_status
-      }
       
-      // Priority 3: Determine from status field if still not found
+      // Priority 2: Determine from status field if still not found
       if (caseStatus === 'new') {
         if (caseItem.status === 'CLOSED') {
           caseStatus = 'closed'
@@ -217,9 +315,8 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
         }
       }
 
-      // Get approval information from notes
-      const approvedBy = notesData?.approved_by
-      const approvedAt = notesData?.approved_at
+      const approvedBy = caseItem.approvedBy
+      const approvedAt = caseItem.approvedAt
 
       // Get the display status label
       const displayStatus = getStatusDisplayLabel(caseStatus)
@@ -261,6 +358,7 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
           description: caseItem.reason || 'No description provided',
         },
         caseStatus,
+        allowedTransitions: caseItem.allowedTransitions || [],
         approvedBy,
         approvedAt,
       }
@@ -274,19 +372,47 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
     }
   }
 
+  const openStatusForm = (status: CaseStatus | null) => {
+    setPendingStatus(status)
+    setTransitionForm(EMPTY_TRANSITION_FORM)
+    setShowUpdateModal(true)
+  }
+
+  const closeStatusModal = () => {
+    setShowUpdateModal(false)
+    setPendingStatus(null)
+  }
+
+  const getRequiredFields = (status: CaseStatus): TransitionField[] => {
+    return caseDetail?.allowedTransitions.find(t => t.to === status)?.requiredFields || []
+  }
+
+  const isTransitionFormComplete = (status: CaseStatus): boolean => {
+    return getRequiredFields(status).every(field => transitionForm[field].trim() !== '')
+  }
+
   const handleStatusUpdate = async (newStatus: CaseStatus) => {
     if (!caseId || !caseDetail || updating) return
 
     try {
       setUpdating(true)
       setError('')
-      setShowUpdateModal(false)
+      closeStatusModal()
+
+      const body: Record<string, string> = { status: newStatus }
+      if (transitionForm.reason.trim()) {
+        body.reason = transitionForm.reason.trim()
+      }
+      if (newStatus === 'return_to_work') {
+        body.return_to_work_duty_type = transitionForm.return_to_work_duty_type
+        body.return_to_work_date = transitionForm.return_to_work_date
+      }
 
       const response = await fetch(`${API_BASE_URL}/api/clinician/cases/${caseId}/status`, {
         method: 'PATCH',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(body),
       })
 
       if (!response.ok) {
@@ -330,7 +456,7 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
 
   const getAvailableNextStatuses = (): CaseStatus[] => {
     if (!caseDetail) return []
-    return STATUS_ORDER.filter(status => status !== caseDetail.caseStatus)
+    return caseDetail.allowedTransitions.map(t => t.to)
   }
   
   const getDisplayStatus = (): string => {
@@ -407,6 +533,16 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
     return caseDetail?.caseStatus === statusKey
   }
 
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: '2-digit',
+      day: '2-digit',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('en-US', { 
@@ -695,8 +831,8 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
             </button>
             <button 
               className="case-action-btn update-btn" 
-              onClick={() => setShowUpdateModal(true)}
-              disabled={updating}
+              onClick={() => openStatusForm(null)}
+              disabled={updating || getAvailableNextStatuses().length === 0}
             >
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <polyline points="22 12 18 12 15 21 9 3 6 12 2 12"></polyline>
@@ -705,8 +841,8 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
             </button>
             <button 
               className="case-action-btn close-btn" 
-              onClick={() => caseDetail && handleStatusUpdate('closed')}
-              disabled={updating || caseDetail?.caseStatus === 'closed'}
+              onClick={() => caseDetail && openStatusForm('closed')}
+              disabled={updating || !getAvailableNextStatuses().includes('closed')}
               title="Close Case"
             >
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -913,50 +1049,201 @@ export function CaseDetailModal({ caseId, onClose, onUpdate }: CaseDetailModalPr
               </div>
             </div>
 
+            {/* Status History */}
+            {history.length > 0 && (
+              <div className="case-progress-section">
+                <div className="case-progress-header">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10"></circle>
+                    <polyline points="12 6 12 12 16 14"></polyline>
+                  </svg>
+                  <h3 className="case-section-header">Status History</h3>
+                </div>
+                <div className="case-info-divider"></div>
+                <ul className="case-history-list">
+                  {history.map((entry) => (
+                    <li key={entry.id} className="case-history-item">
+                      <div className="case-history-transition">
+                        {entry.fromStatus ? getStatusDisplayLabel(entry.fromStatus) : '—'}
+                        {' → '}
+                        <span style={{ color: getStatusColor(entry.toStatus) }}>{getStatusDisplayLabel(entry.toStatus)}</span>
+                      </div>
+                      <div className="case-history-meta">
+                        {entry.source === 'backfill' ? 'Recorded before status history' : (entry.changedBy || 'Unknown')}
+                        {entry.changedByRole ? ` (${ROLE_LABELS[entry.changedByRole] || entry.changedByRole})` : ''}
+                        {' · '}
+                        {formatDateTime(entry.changedAt)}
+                      </div>
+                      {entry.reason && <div className="case-history-reason">{entry.reason}</div>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Appointments - attendance on the case timeline */}
+            {caseAppointments.length > 0 && (
+              <div className="case-progress-section">
+                <div className="case-progress-header">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect>
+                    <line x1="16" y1="2" x2="16" y2="6"></line>
+                    <line x1="8" y1="2" x2="8" y2="6"></line>
+                    <line x1="3" y1="10" x2="21" y2="10"></line>
+                  </svg>
+                  <h3 className="case-section-header">Appointments</h3>
+                </div>
+                <div className="case-info-divider"></div>
+                {attendance && (
+                  <p className="case-attendance-summary">
+                    {attendance.attended} attended · {attendance.noShows} no-show{attendance.noShows === 1 ? '' : 's'}
+                    {attendance.noShowRate !== null && (
+                      <span className={`case-attendance-rate ${attendance.noShowRate >= 25 ? 'high' : ''}`}>
+                        {attendance.noShowRate}% no-show rate
+                      </span>
+                    )}
+                  </p>
+                )}
+                <ul className="case-history-list">
+                  {caseAppointments.map((appointment) => (
+                    <li key={appointment.id} className={`case-history-item case-appointment-${appointment.status}`}>
+                      <div className="case-history-transition">
+                        {formatDateTime(`${appointment.appointmentDate}T${appointment.appointmentTime}`)}
+                        {' · '}
+                        {APPOINTMENT_STATUS_LABELS[appointment.status] || appointment.status}
+                      </div>
+                      <div className="case-history-meta">
+                        {formatIncidentType(appointment.appointmentType)}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Rehabilitation Feedback */}
+            {rehabFeedback && (
+              <div className="case-progress-section">
+                <div className="case-progress-header">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="22 12 18 12 15 21 9 3 6 12 2 12"></polyline>
+                  </svg>
+                  <h3 className="case-section-header">Rehabilitation Feedback</h3>
+                </div>
+                <div className="case-info-divider"></div>
+                <p className="case-rehab-feedback-plan">{rehabFeedback.planName}</p>
+                <ExerciseFeedbackCharts feedback={rehabFeedback.feedback} exercises={rehabFeedback.exercises} />
+              </div>
+            )}
+
+            {/* Attachments */}
+            <div className="case-progress-section">
+              <div className="case-progress-header">
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path>
+                </svg>
+                <h3 className="case-section-header">Attachments</h3>
+              </div>
+              <div className="case-info-divider"></div>
+              <CaseAttachments caseId={caseId} canUpload defaultCategory="medical_certificate" />
+            </div>
+
             {/* Update Status Modal */}
             {showUpdateModal && (
-              <div className="status-update-overlay" onClick={() => setShowUpdateModal(false)}>
+              <div className="status-update-overlay" onClick={closeStatusModal}>
                 <div className="status-update-modal" onClick={(e) => e.stopPropagation()}>
                   <div className="status-update-header">
                     <h3>Update Case Status</h3>
-                    <button className="status-update-close" onClick={() => setShowUpdateModal(false)}>
+                    <button className="status-update-close" onClick={closeStatusModal}>
                       <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                         <line x1="18" y1="6" x2="6" y2="18"></line>
                         <line x1="6" y1="6" x2="18" y2="18"></line>
                       </svg>
                     </button>
                   </div>
-                  <div className="status-update-content">
-                    <p className="status-update-instruction">Select new status for this case:</p>
-                    <div className="status-update-options">
-                      {getAvailableNextStatuses().map((status) => {
-                          const config = getStatusButtonConfig(status)
-                          return (
-                            <button
-                              key={status}
-                              className="status-option-btn"
-                              style={{
-                                color: config.color,
-                                borderColor: config.border,
-                                backgroundColor: config.bg,
-                              }}
-                              onClick={() => handleStatusUpdate(status)}
-                              disabled={updating}
-                            >
-                              {config.label}
-                            </button>
-                          )
-                        })}
+                  {pendingStatus ? (
+                    <div className="status-update-content">
+                      <p className="status-update-instruction">
+                        Change status to <strong>{getStatusDisplayLabel(pendingStatus)}</strong>
+                      </p>
+                      {getRequiredFields(pendingStatus).includes('return_to_work_duty_type') && (
+                        <label className="status-update-field">
+                          <span>Duty Type *</span>
+                          <select
+                            value={transitionForm.return_to_work_duty_type}
+                            onChange={(e) => setTransitionForm({ ...transitionForm, return_to_work_duty_type: e.target.value })}
+                          >
+                            <option value="">Select duty type</option>
+                            <option value="modified">Modified Duties</option>
+                            <option value="full">Full Duties</option>
+                          </select>
+                        </label>
+                      )}
+                      {getRequiredFields(pendingStatus).includes('return_to_work_date') && (
+                        <label className="status-update-field">
+                          <span>Return Date *</span>
+                          <input
+                            type="date"
+                            value={transitionForm.return_to_work_date}
+                            onChange={(e) => setTransitionForm({ ...transitionForm, return_to_work_date: e.target.value })}
+                          />
+                        </label>
+                      )}
+                      <label className="status-update-field">
+                        <span>Reason{getRequiredFields(pendingStatus).includes('reason') ? ' *' : ' (optional)'}</span>
+                        <textarea
+                          rows={3}
+                          maxLength={1000}
+                          value={transitionForm.reason}
+                          onChange={(e) => setTransitionForm({ ...transitionForm, reason: e.target.value })}
+                        />
+                      </label>
+                      <div className="status-update-footer">
+                        <button className="status-update-cancel" onClick={() => setPendingStatus(null)}>
+                          Back
+                        </button>
+                        <button
+                          className="status-update-confirm"
+                          onClick={() => handleStatusUpdate(pendingStatus)}
+                          disabled={updating || !isTransitionFormComplete(pendingStatus)}
+                        >
+                          Confirm
+                        </button>
+                      </div>
                     </div>
-                    <div className="status-update-footer">
-                      <button 
-                        className="status-update-cancel" 
-                        onClick={() => setShowUpdateModal(false)}
-                      >
-                        Cancel
-                      </button>
+                  ) : (
+                    <div className="status-update-content">
+                      <p className="status-update-instruction">Select new status for this case:</p>
+                      <div className="status-update-options">
+                        {getAvailableNextStatuses().map((status) => {
+                            const config = getStatusButtonConfig(status)
+                            return (
+                              <button
+                                key={status}
+                                className="status-option-btn"
+                                style={{
+                                  color: config.color,
+                                  borderColor: config.border,
+                                  backgroundColor: config.bg,
+                                }}
+                                onClick={() => openStatusForm(status)}
+                                disabled={updating}
+                              >
+                                {config.label}
+                              </button>
+                            )
+                          })}
+                      </div>
+                      <div className="status-update-footer">
+                        <button 
+                          className="status-update-cancel" 
+                          onClick={closeStatusModal}
+                        >
+                          Cancel
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
             )}
@@ -40,6 +40,15 @@ interface RehabilitationPlan {
   endDate: string
 }
 
+interface AppointmentOutcome {
+  id: string
+  caseId: string
+  workerId: string
+  workerName: string
+  appointmentDate: string
+  status: 'completed' | 'no_show'
+}
+
 interface AnalyticsData {
   summary: {
     totalCases: number
@@ -94,6 +103,17 @@ interface AnalyticsData {
     value: number
     color: string
   }>
+  attendance: {
+    attended: number
+    noShows: number
+    noShowRate: number | null
+    byWorker: Array<{
+      workerName: string
+      attended: number
+      noShows: number
+      noShowRate: number
+    }>
+  }
 }
 
 const COLORS = {
@@ -134,6 +154,7 @@ export function ClinicianAnalytics() {
   const [showDateFilter, setShowDateFilter] = useState(false)
   const [rawCases, setRawCases] = useState<Case[]>([])
   const [rawPlans, setRawPlans] = useState<RehabilitationPlan[]>([])
+  const [rawOutcomes, setRawOutcomes] = useState<AppointmentOutcome[]>([])
 
   const userName = first_name || full_name || user?.email?.split('@')[0] || 'Dr. Clinician'
 
@@ -167,11 +188,13 @@ export function ClinicianAnalytics() {
 
   const processAnalyticsData = useCallback((
     cases: Case[],
-    plans: RehabilitationPlan[]
+    plans: RehabilitationPlan[],
+    outcomes: AppointmentOutcome[]
   ): AnalyticsData => {
     // Filter by date range
     const filteredCases = filterByDateRange(cases, 'createdAt')
     const filteredPlans = filterByDateRange(plans, 'startDate')
+    const filteredOutcomes: AppointmentOutcome[] = filterByDateRange(outcomes, 'appointmentDate')
     // Summary statistics - single pass (optimized)
     let totalCases = 0
     let activeCases = 0
@@ -235,6 +258,7 @@ export function ClinicianAnalytics() {
         workerRecovery: [],
         typeDistribution: [],
         priorityDistribution: [],
+        attendance: { attended: 0, noShows: 0, noShowRate: null, byWorker: [] },
       }
     }
 
@@ -368,6 +392,32 @@ export function ClinicianAnalytics() {
       color: COLORS[name as keyof typeof COLORS] || '#64748B',
     }))
 
+    // Appointment attendance - no-show rate of appointments with an outcome
+    const attendanceByWorker = new Map<string, { attended: number; noShows: number }>()
+    let attended = 0
+    let noShows = 0
+    filteredOutcomes.forEach(outcome => {
+      const entry = attendanceByWorker.get(outcome.workerName) || { attended: 0, noShows: 0 }
+      if (outcome.status === 'no_show') {
+        noShows++
+        entry.noShows++
+      } else {
+        attended++
+        entry.attended++
+      }
+      attendanceByWorker.set(outcome.workerName, entry)
+    })
+
+    const attendanceWorkers = Array.from(attendanceByWorker.entries())
+      .filter(([, entry]) => entry.noShows > 0)
+      .map(([workerName, entry]) => ({
+        workerName,
+        attended: entry.attended,
+        noShows: entry.noShows,
+        noShowRate: Math.round((entry.noShows / (entry.attended + entry.noShows)) * 100),
+      }))
+      .sort((a, b) => b.noShows - a.noShows || b.noShowRate - a.noShowRate)
+
     return {
       summary: {
         totalCases,
@@ -398,6 +448,12 @@ export function ClinicianAnalytics() {
       workerRecovery,
       typeDistribution,
       priorityDistribution,
+      attendance: {
+        attended,
+        noShows,
+        noShowRate: attended + noShows > 0 ? Math.round((noShows / (attended + noShows)) * 100) : null,
+        byWorker: attendanceWorkers,
+      },
     }
   }, [dateRange, filterByDateRange])
 
@@ -406,7 +462,7 @@ export function ClinicianAnalytics() {
       setLoading(true)
       setError('')
 
-      const [casesRes, plansRes] = await Promise.all([
+      const [casesRes, plansRes, outcomesRes] = await Promise.all([
         fetch(`${API_BASE_URL}/api/clinician/cases?status=all&limit=1000`, {
           credentials: 'include',
           headers: { 'Content-Type': 'application/json' },
@@ -415,6 +471,10 @@ export function ClinicianAnalytics() {
           credentials: 'include',
           headers: { 'Content-Type': 'application/json' },
         }),
+        fetch(`${API_BASE_URL}/api/clinician/appointments/outcomes`, {
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+        }),
       ])
 
       if (!casesRes.ok || !plansRes.ok) {
@@ -426,10 +486,13 @@ export function ClinicianAnalytics() {
 
       const cases: Case[] = casesData.cases || []
       const plans: RehabilitationPlan[] = plansData.plans || []
+      // Attendance is secondary - show the rest of the analytics if it can't be loaded
+      const outcomesData = outcomesRes.ok ? await outcomesRes.json() : { outcomes: [] }
 
       // Store raw data for client-side filtering (optimization - no API call on date change)
       setRawCases(cases)
       setRawPlans(plans)
+      setRawOutcomes(outcomesData.outcomes || [])
     } catch (err: any) {
       console.error('Error fetching analytics:', err)
       setError(err.message || 'Failed to load analytics')
@@ -445,10 +508,10 @@ export function ClinicianAnalytics() {
   // Process analytics when raw data or date range changes (optimized - no API call needed)
   useEffect(() => {
     if (rawCases.length > 0 || rawPlans.length > 0 || dateRange) {
-      const processedData = processAnalyticsData(rawCases, rawPlans)
+      const processedData = processAnalyticsData(rawCases, rawPlans, rawOutcomes)
       setAnalyticsData(processedData)
     }
-  }, [rawCases, rawPlans, processAnalyticsData, dateRange])
+  }, [rawCases, rawPlans, rawOutcomes, processAnalyticsData, dateRange])
 
   // Close date filter on outside click
   useEffect(() => {
@@ -641,6 +704,16 @@ export function ClinicianAnalytics() {
             <div className="metric-label">Avg Duration</div>
             <div className="metric-subtitle">days per plan</div>
           </div>
+
+          <div className="clinician-analytics-metric-card danger">
+            <div className="metric-number">
+              {analyticsData.attendance.noShowRate !== null ? `${analyticsData.attendance.noShowRate}%` : '—'}
+            </div>
+            <div className="metric-label">No-show Rate</div>
+            <div className="metric-subtitle">
+              {analyticsData.attendance.noShows} missed • {analyticsData.attendance.attended} attended
+            </div>
+          </div>
         </div>
 
         {/* Main Charts - Clean & Focused */}
@@ -790,6 +863,38 @@ export function ClinicianAnalytics() {
             </div>
           </div>
         )}
+
+        {/* Appointment Attendance - workers with no-shows */}
+        {analyticsData.attendance.byWorker.length > 0 && (
+          <div className="clinician-analytics-recovery">
+            <div className="chart-header">
+              <h3>Appointment No-shows</h3>
+              <span className="chart-period">Workers who missed appointments</span>
+            </div>
+            <div className="recovery-list">
+              {analyticsData.attendance.byWorker.slice(0, 5).map((worker, index) => (
+                <div key={index} className="recovery-item">
+                  <div className="recovery-rank">{index + 1}</div>
+                  <div className="recovery-info">
+                    <div className="recovery-name">{worker.workerName}</div>
+                    <div className="recovery-stats">
+                      {worker.noShows} missed • {worker.attended} attended
+                    </div>
+                  </div>
+                  <div className="recovery-rate">
+                    <div className="recovery-rate-value">{worker.noShowRate}%</div>
+                    <div className="recovery-rate-bar">
+                      <div
+                        className={`recovery-rate-fill recovery-${worker.noShowRate >= 25 ? 'low' : worker.noShowRate >= 10 ? 'medium' : 'high'}`}
+                        style={{ width: `${worker.noShowRate}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </DashboardLayout>
   )
@@ -4,6 +4,21 @@ import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
 import { useAuth } from '../../../contexts/AuthContext'
 import { getStatusLabel, getStatusPriority, getStatusInlineStyle } from '../../../utils/caseStatus'
+import { ExerciseLibraryModal } from './ExerciseLibraryModal'
+import { PlanPhasesEditor } from './PlanPhasesEditor'
+import { ExerciseFeedbackCharts } from './ExerciseFeedbackCharts'
+import { EXERCISE_CATEGORY_LABELS, type LibraryExercise } from '../../../utils/exerciseLibrary'
+import {
+  RECOMMENDATION_LABELS,
+  createPhaseDraft,
+  formatPrescription,
+  phasesToDrafts,
+  phasesToPayload,
+  removeExerciseFromPhases,
+  type ExerciseFeedbackSummary,
+  type PhaseDraft,
+  type PlanPhase,
+} from '../../../utils/rehabilitationSchedule'
 import './ClinicianDashboard.css'
 
 interface Case {
@@ -55,6 +70,23 @@ interface RehabilitationPlan {
   updatedAt: string
 }
 
+interface PlanTemplateExercise {
+  library_exercise_id: string | null
+  exercise_name: string
+  repetitions: string | null
+  instructions: string | null
+  video_url: string | null
+}
+
+interface PlanTemplate {
+  id: string
+  version: number
+  name: string
+  description: string | null
+  duration_days: number
+  exercises: PlanTemplateExercise[]
+}
+
 interface Summary {
   total: number
   active: number
@@ -103,15 +135,26 @@ export function ClinicianDashboard() {
     repetitions: string
     instructions: string
     video_url: string
+    library_exercise_id: string // Set when picked from the exercise library
   }>>([
     {
       exercise_name: '',
       repetitions: '',
       instructions: '',
       video_url: '',
+      library_exercise_id: '',
     }
   ])
   const [creatingPlan, setCreatingPlan] = useState(false)
+  const [planTemplates, setPlanTemplates] = useState<PlanTemplate[]>([])
+  const [libraryExercises, setLibraryExercises] = useState<LibraryExercise[]>([])
+  const [selectedTemplate, setSelectedTemplate] = useState<PlanTemplate | null>(null)
+  const [templateEdited, setTemplateEdited] = useState(false) // Plan no longer matches the selected template
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [showLibraryModal, setShowLibraryModal] = useState(false)
+  const [planPhases, setPlanPhases] = useState<PhaseDraft[]>([])
+  const [editingPhases, setEditingPhases] = useState<PhaseDraft[] | null>(null)
+  const [savingPhases, setSavingPhases] = useState(false)
   const [showCaseSelection, setShowCaseSelection] = useState(true)
   const [selectedPlanForProgress, setSelectedPlanForProgress] = useState<RehabilitationPlan | null>(null)
   const [showProgressModal, setShowProgressModal] = useState(false)
@@ -168,33 +211,7 @@ export function ClinicianDashboard() {
         const plansData = await plansRes.json()
 
         if (isMounted) {
-          // Extract approval information from notes for each case
-          const casesWithApproval = (casesData.cases || []).map((caseItem: any) => {
-            let approvedBy: string | null = null
-            let approvedAt: string | null = null
-            
-            if (caseItem.notes) {
-              try {
-                const notesData = JSON.parse(caseItem.notes)
-                if (notesData.approved_by) {
-                  approvedBy = notesData.approved_by
-                }
-                if (notesData.approved_at) {
-                  approvedAt = notesData.approved_at
-                }
-              } catch {
-                // Notes is not JSON, ignore
-              }
-            }
-            
-            return {
-              ...caseItem,
-              approvedBy,
-              approvedAt,
-            }
-          })
-          
-          setCases(casesWithApproval)
+          setCases(casesData.cases || [])
           setRehabilitationPlans(plansData.plans || [])
           setSummary(casesData.summary || {
             total: 0,
@@ -270,8 +287,12 @@ export function ClinicianDashboard() {
         repetitions: '',
         instructions: '',
         video_url: '',
+        library_exercise_id: '',
       }
     ])
+    setSelectedTemplate(null)
+    setTemplateEdited(false)
+    setPlanPhases([])
   }
 
   const handleBackToSelection = () => {
@@ -289,8 +310,12 @@ export function ClinicianDashboard() {
         repetitions: '',
         instructions: '',
         video_url: '',
+        library_exercise_id: '',
       }
     ])
+    setSelectedTemplate(null)
+    setTemplateEdited(false)
+    setPlanPhases([])
   }
 
   const handleCloseCreatePlanModal = () => {
@@ -309,8 +334,12 @@ export function ClinicianDashboard() {
         repetitions: '',
         instructions: '',
         video_url: '',
+        library_exercise_id: '',
       }
     ])
+    setSelectedTemplate(null)
+    setTemplateEdited(false)
+    setPlanPhases([])
   }
 
   const handleAddExercise = () => {
@@ -319,12 +348,16 @@ export function ClinicianDashboard() {
       repetitions: '',
       instructions: '',
       video_url: '',
+      library_exercise_id: '',
     }])
+    setTemplateEdited(true)
   }
 
   const handleRemoveExercise = (index: number) => {
     if (exercises.length > 1) {
       setExercises(exercises.filter((_, i) => i !== index))
+      setPlanPhases(removeExerciseFromPhases(planPhases, index))
+      setTemplateEdited(true)
     }
   }
 
@@ -332,6 +365,130 @@ export function ClinicianDashboard() {
     const updatedExercises = [...exercises]
     updatedExercises[index] = { ...updatedExercises[index], [field]: value }
     setExercises(updatedExercises)
+    setTemplateEdited(true)
+  }
+
+  // Templates and library exercises for the plan builder
+  const fetchPlanBuilderData = useCallback(async () => {
+    try {
+      const [templatesResponse, libraryResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/api/clinician/rehabilitation-templates`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+        }),
+        fetch(`${API_BASE_URL}/api/clinician/exercise-library`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      ])
+
+      if (templatesResponse.ok) {
+        const data = await templatesResponse.json()
+        setPlanTemplates(data.templates || [])
+      }
+      if (libraryResponse.ok) {
+        const data = await libraryResponse.json()
+        setLibraryExercises(data.exercises || [])
+      }
+    } catch (err) {
+      console.error('Error fetching plan templates and exercise library:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (showCreatePlanModal) {
+      fetchPlanBuilderData()
+    }
+  }, [showCreatePlanModal, fetchPlanBuilderData])
+
+  // Fill the form from a template - submitting it unchanged creates the plan from the template
+  const handleSelectTemplate = (templateId: string) => {
+    const template = planTemplates.find(t => t.id === templateId) || null
+    setSelectedTemplate(template)
+    setTemplateEdited(false)
+    setPlanPhases([])
+    if (!template) return
+
+    setCreatePlanForm(prev => ({
+      ...prev,
+      plan_name: template.name,
+      plan_description: template.description || '',
+      duration_days: template.duration_days,
+    }))
+    setExercises(template.exercises.map(exercise => ({
+      exercise_name: exercise.exercise_name,
+      repetitions: exercise.repetitions || '',
+      instructions: exercise.instructions || '',
+      video_url: exercise.video_url || '',
+      library_exercise_id: exercise.library_exercise_id || '',
+    })))
+  }
+
+  const handleLibraryPick = (index: number, libraryExerciseId: string) => {
+    const libraryExercise = libraryExercises.find(e => e.id === libraryExerciseId)
+    const updatedExercises = [...exercises]
+    updatedExercises[index] = libraryExercise
+      ? {
+          exercise_name: libraryExercise.name,
+          repetitions: libraryExercise.default_repetitions || '',
+          instructions: libraryExercise.instructions || '',
+          video_url: libraryExercise.video_url || '',
+          library_exercise_id: libraryExercise.id,
+        }
+      : { ...updatedExercises[index], library_exercise_id: '' }
+    setExercises(updatedExercises)
+    setTemplateEdited(true)
+  }
+
+  // Save the form as a template - a new version when it was started from a template
+  const handleSaveTemplate = async () => {
+    const validExercises = exercises.filter(ex => ex.exercise_name?.trim())
+    if (!createPlanForm.plan_name?.trim() || validExercises.length === 0) {
+      setError('A template needs a name and at least one exercise')
+      return
+    }
+
+    try {
+      setSavingTemplate(true)
+      setError('')
+      const response = await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-templates`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: createPlanForm.plan_name.trim(),
+          description: createPlanForm.plan_description?.trim() || '',
+          duration_days: createPlanForm.duration_days,
+          previous_version_id: selectedTemplate?.id || null,
+          exercises: validExercises.map(ex => ({
+            exercise_name: ex.exercise_name.trim(),
+            repetitions: ex.repetitions?.trim() || '',
+            instructions: ex.instructions?.trim() || '',
+            video_url: ex.video_url?.trim() || '',
+            library_exercise_id: ex.library_exercise_id || null,
+          })),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template')
+      }
+
+      setSelectedTemplate({ ...data.template, exercises: data.template.exercises || [] })
+      setTemplateEdited(false)
+      setSuccessMessage(data.message || 'Template saved')
+      setTimeout(() => setSuccessMessage(''), 3000)
+      fetchPlanBuilderData()
+    } catch (err) {
+      console.error('Error saving template:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+      setTimeout(() => setError(''), 5000)
+    } finally {
+      setSavingTemplate(false)
+    }
   }
 
   const handleSubmitPlan = async () => {
@@ -413,7 +570,26 @@ export function ClinicianDashboard() {
         exercises_count: validExercises.length
       })
 
-      const response = await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans`, {
+      // Phases point at exercises by position - skip the empty exercises that are not submitted
+      const exerciseIndexMap = new Map<number, number>()
+      exercises.forEach((ex, i) => {
+        if (ex.exercise_name?.trim()) exerciseIndexMap.set(i, exerciseIndexMap.size)
+      })
+
+      // An unchanged template is instantiated server-side (plan records the template version)
+      const response = selectedTemplate && !templateEdited && planPhases.length === 0
+        ? await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans/from-template`, {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            template_id: selectedTemplate.id,
+            exception_id: selectedCaseForPlan.id,
+            duration_days: createPlanForm.duration_days,
+            start_date: startDateFormatted,
+          }),
+        })
+        : await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans`, {
         method: 'POST',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
@@ -428,7 +604,9 @@ export function ClinicianDashboard() {
             repetitions: ex.repetitions?.trim() || '',
             instructions: ex.instructions?.trim() || '',
             video_url: ex.video_url?.trim() || '',
+            library_exercise_id: ex.library_exercise_id || null,
           })),
+          ...(planPhases.length > 0 ? { phases: phasesToPayload(planPhases, exerciseIndexMap) } : {}),
         }),
       })
 
@@ -602,6 +780,7 @@ export function ClinicianDashboard() {
     setSelectedPlanForProgress(plan)
     setShowProgressModal(true)
     setLoadingProgress(true)
+    setEditingPhases(null)
     setError('')
     
     try {
@@ -632,6 +811,37 @@ export function ClinicianDashboard() {
     }
   }
 
+  // Replace the schedule of the plan shown in the progress modal
+  const handleSavePhases = async () => {
+    if (!selectedPlanForProgress || !editingPhases) return
+
+    try {
+      setSavingPhases(true)
+      setError('')
+      const response = await fetch(`${API_BASE_URL}/api/clinician/rehabilitation-plans/${selectedPlanForProgress.id}/phases`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phases: phasesToPayload(editingPhases) }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update plan schedule')
+      }
+
+      setSuccessMessage(data.message || 'Plan schedule updated')
+      setTimeout(() => setSuccessMessage(''), 3000)
+      await handleViewProgress(selectedPlanForProgress)
+    } catch (err) {
+      console.error('Error saving plan phases:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update plan schedule')
+      setTimeout(() => setError(''), 5000)
+    } finally {
+      setSavingPhases(false)
+    }
+  }
+
   // Status style is now imported from utils/caseStatus
   // Using getStatusStyle from utils for consistency
 
@@ -833,6 +1043,12 @@ export function ClinicianDashboard() {
                 </svg>
                 Create Plan
               </button>
+              <button
+                className="clinician-create-plan-btn"
+                onClick={() => setShowLibraryModal(true)}
+              >
+                Exercise Library
+              </button>
               <button className="clinician-refresh-btn" onClick={handleRefresh} title="Refresh">
                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                   <polyline points="23 4 23 10 17 10"></polyline>
@@ -1191,12 +1407,38 @@ export function ClinicianDashboard() {
                   {/* Plan Details Section */}
                   <div className="clinician-form-section">
                     <h3 className="clinician-form-section-title">Plan Details</h3>
+                    {planTemplates.length > 0 && (
+                      <div className="clinician-form-group">
+                        <label>Start from Template</label>
+                        <select
+                          value={selectedTemplate?.id || ''}
+                          onChange={(e) => handleSelectTemplate(e.target.value)}
+                        >
+                          <option value="">Blank plan</option>
+                          {planTemplates.map((template) => (
+                            <option key={template.id} value={template.id}>
+                              {template.name} (v{template.version}, {template.duration_days} days)
+                            </option>
+                          ))}
+                        </select>
+                        {selectedTemplate && (
+                          <small className="clinician-template-summary">
+                            {templateEdited
+                              ? 'Edited - the plan will be created from your changes'
+                              : `Using ${selectedTemplate.name} v${selectedTemplate.version}`}
+                          </small>
+                        )}
+                      </div>
+                    )}
                     <div className="clinician-form-group">
                       <label>Plan Name *</label>
                       <input 
                         type="text" 
                         value={createPlanForm.plan_name}
-                        onChange={(e) => setCreatePlanForm({ ...createPlanForm, plan_name: e.target.value })}
+                        onChange={(e) => {
+                          setCreatePlanForm({ ...createPlanForm, plan_name: e.target.value })
+                          setTemplateEdited(true)
+                        }}
                         placeholder="Recovery Plan"
                         required
                       />
@@ -1205,7 +1447,10 @@ export function ClinicianDashboard() {
                       <label>Plan Description</label>
                       <textarea 
                         value={createPlanForm.plan_description}
-                        onChange={(e) => setCreatePlanForm({ ...createPlanForm, plan_description: e.target.value })}
+                        onChange={(e) => {
+                          setCreatePlanForm({ ...createPlanForm, plan_description: e.target.value })
+                          setTemplateEdited(true)
+                        }}
                         rows={3}
                         placeholder="Daily recovery exercises and activities"
                       />
@@ -1262,6 +1507,32 @@ export function ClinicianDashboard() {
                             </button>
                           )}
                         </div>
+                        {libraryExercises.length > 0 && (
+                          <div className="clinician-form-group">
+                            <label>Pick from Library</label>
+                            <select
+                              value={exercise.library_exercise_id}
+                              onChange={(e) => handleLibraryPick(index, e.target.value)}
+                            >
+                              <option value="">Custom exercise</option>
+                              {Object.entries(EXERCISE_CATEGORY_LABELS).map(([category, label]) => {
+                                const options = libraryExercises.filter(e => e.category === category)
+                                return options.length > 0 ? (
+                                  <optgroup key={category} label={label}>
+                                    {options.map((libraryExercise) => (
+                                      <option key={libraryExercise.id} value={libraryExercise.id}>{libraryExercise.name}</option>
+                                    ))}
+                                  </optgroup>
+                                ) : null
+                              })}
+                            </select>
+                            {libraryExercises.find(e => e.id === exercise.library_exercise_id)?.contraindications && (
+                              <div className="clinician-library-warning">
+                                Contraindications: {libraryExercises.find(e => e.id === exercise.library_exercise_id)?.contraindications}
+                              </div>
+                            )}
+                          </div>
+                        )}
                         <div className="clinician-form-group">
                           <label>Exercise Name *</label>
                           <input 
@@ -1313,6 +1584,29 @@ export function ClinicianDashboard() {
                       Add Another Exercise
                     </button>
                   </div>
+
+                  {/* Phases Section */}
+                  <div className="clinician-form-section">
+                    <h3 className="clinician-form-section-title">Progression</h3>
+                    <label className="clinician-phase-toggle">
+                      <input
+                        type="checkbox"
+                        checked={planPhases.length > 0}
+                        onChange={(e) => setPlanPhases(e.target.checked
+                          ? [{ ...createPhaseDraft([], createPlanForm.duration_days, exercises.length), end_day: createPlanForm.duration_days }]
+                          : [])}
+                      />
+                      Split into phases (per-phase sets, reps, hold time and rest days)
+                    </label>
+                    {planPhases.length > 0 && (
+                      <PlanPhasesEditor
+                        phases={planPhases}
+                        onChange={setPlanPhases}
+                        exerciseNames={exercises.map(ex => ex.exercise_name.trim())}
+                        totalDays={createPlanForm.duration_days}
+                      />
+                    )}
+                  </div>
                 </>
               ) : null}
             </div>
@@ -1333,6 +1627,14 @@ export function ClinicianDashboard() {
                   >
                     Back
                   </button>
+                  <button
+                    className="clinician-modal-cancel-btn"
+                    onClick={handleSaveTemplate}
+                    disabled={savingTemplate || creatingPlan || !createPlanForm.plan_name || exercises.filter(ex => ex.exercise_name.trim()).length === 0}
+                    title={selectedTemplate ? `Save the form as a new version of ${selectedTemplate.name}` : 'Save the form as a reusable template'}
+                  >
+                    {savingTemplate ? 'Saving...' : selectedTemplate ? `Save as v${selectedTemplate.version + 1}` : 'Save as Template'}
+                  </button>
                   <button 
                     className="clinician-modal-submit-btn"
                     onClick={handleSubmitPlan}
@@ -1347,6 +1649,13 @@ export function ClinicianDashboard() {
         </div>
       )}
 
+      {showLibraryModal && (
+        <ExerciseLibraryModal
+          onClose={() => setShowLibraryModal(false)}
+          onChange={fetchPlanBuilderData}
+        />
+      )}
+
       {/* View Case Modal */}
       {showViewModal && selectedCase && (
         <div className="clinician-modal-overlay" onClick={() => setShowViewModal(false)}>
@@ -1568,6 +1877,115 @@ export function ClinicianDashboard() {
                     </div>
                   </div>
 
+                  {/* Worker feedback per exercise */}
+                  {progressData.exerciseFeedback?.length > 0 && (
+                    <div className="clinician-form-section">
+                      <h3 className="clinician-form-section-title">Exercise Feedback</h3>
+                      <table className="clinician-phase-table">
+                        <thead>
+                          <tr>
+                            <th>Exercise</th>
+                            <th>Done</th>
+                            <th>Recent pain</th>
+                            <th>Avg. pain change</th>
+                            <th>Recent difficulty</th>
+                            <th>Suggestion</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {(progressData.exerciseFeedback as ExerciseFeedbackSummary[]).map((feedback) => (
+                            <tr key={feedback.exercise_id}>
+                              <td>{progressData.exercises.find((ex: { id: string }) => ex.id === feedback.exercise_id)?.exercise_name}</td>
+                              <td>{feedback.completions}</td>
+                              <td>{feedback.recentPain !== null ? `${feedback.recentPain}/10` : '—'}</td>
+                              <td>
+                                {feedback.averagePainIncrease !== null
+                                  ? `${feedback.averagePainIncrease > 0 ? '+' : ''}${feedback.averagePainIncrease}`
+                                  : '—'}
+                              </td>
+                              <td>{feedback.recentDifficulty !== null ? `${feedback.recentDifficulty}/5` : '—'}</td>
+                              <td>
+                                {feedback.recommendation ? (
+                                  <span className={`clinician-recommendation ${feedback.recommendation}`}>
+                                    {RECOMMENDATION_LABELS[feedback.recommendation]}
+                                  </span>
+                                ) : (
+                                  <span className="clinician-form-helper">No reports yet</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div style={{ marginTop: '16px' }}>
+                        <ExerciseFeedbackCharts
+                          feedback={progressData.exerciseFeedback}
+                          exercises={progressData.exercises}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Plan phases */}
+                  <div className="clinician-form-section">
+                    <div className="clinician-phase-section-header">
+                      <h3 className="clinician-form-section-title">Schedule</h3>
+                      {!editingPhases && selectedPlanForProgress.status === 'active' && (
+                        <button
+                          type="button"
+                          className="clinician-modal-cancel-btn"
+                          onClick={() => {
+                            const exerciseIds = (progressData.exercises as Array<{ id: string }>).map(ex => ex.id)
+                            setEditingPhases(progressData.phases.length > 0
+                              ? phasesToDrafts(progressData.phases as PlanPhase[], exerciseIds)
+                              : [{ ...createPhaseDraft([], progressData.plan.duration, exerciseIds.length), end_day: progressData.plan.duration }])
+                          }}
+                        >
+                          {progressData.phases.length > 0 ? 'Adjust Schedule' : 'Split into Phases'}
+                        </button>
+                      )}
+                    </div>
+                    {editingPhases ? (
+                      <>
+                        <PlanPhasesEditor
+                          phases={editingPhases}
+                          onChange={setEditingPhases}
+                          exerciseNames={(progressData.exercises as Array<{ exercise_name: string }>).map(ex => ex.exercise_name)}
+                          totalDays={progressData.plan.duration}
+                        />
+                        <div className="clinician-phase-actions">
+                          <button type="button" className="clinician-modal-cancel-btn" onClick={() => setEditingPhases(null)} disabled={savingPhases}>
+                            Cancel
+                          </button>
+                          <button type="button" className="clinician-modal-cancel-btn" onClick={() => setEditingPhases([])} disabled={savingPhases}>
+                            Remove Phases
+                          </button>
+                          <button type="button" className="clinician-modal-submit-btn" onClick={handleSavePhases} disabled={savingPhases}>
+                            {savingPhases ? 'Saving...' : 'Save Schedule'}
+                          </button>
+                        </div>
+                      </>
+                    ) : progressData.phases.length > 0 ? (
+                      <ul className="clinician-phase-list">
+                        {(progressData.phases as PlanPhase[]).map((phase) => (
+                          <li key={phase.id}>
+                            <strong>{phase.name}</strong> · Days {phase.start_day}–{phase.end_day}
+                            {phase.rest_days.length > 0 && ` · Rest on day ${phase.rest_days.join(', ')}`}
+                            <div className="clinician-form-helper">
+                              {phase.prescriptions.map((prescription) => {
+                                const name = progressData.exercises.find((ex: { id: string }) => ex.id === prescription.exercise_id)?.exercise_name
+                                const dose = formatPrescription(prescription)
+                                return dose ? `${name} (${dose})` : name
+                              }).join(' · ')}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="clinician-form-helper">Every exercise, every day</p>
+                    )}
+                  </div>
+
                   {/* Daily Progress Timeline */}
                   <div>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '16px' }}>
@@ -1628,10 +2046,13 @@ export function ClinicianDashboard() {
                                   fontWeight: '500',
                                   color: isCompleted ? '#10B981' : isCurrent ? '#F59E0B' : '#64748B'
                                 }}>
-                                  {isCompleted ? 'Completed' : isCurrent ? 'Current' : 'Pending'}
+                                  {day.isRestDay ? 'Rest day' : isCompleted ? 'Completed' : isCurrent ? 'Current' : 'Pending'}
                                 </span>
                               </div>
-                              {isCompleted && (
+                              {day.phaseName && (
+                                <div style={{ fontSize: '12px', color: '#94A3B8' }}>{day.phaseName}</div>
+                              )}
+                              {isCompleted && !day.isRestDay && (
                                 <div style={{ fontSize: '13px', color: '#64748B' }}>
                                   {day.exercisesCompleted} of {day.totalExercises} exercise{day.totalExercises !== 1 ? 's' : ''} completed
                                 </div>
@@ -0,0 +1,78 @@
+import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, Legend } from 'recharts'
+import { RECOMMENDATION_LABELS, type ExerciseFeedbackSummary } from '../../../utils/rehabilitationSchedule'
+import './ExerciseFeedbackCharts.css'
+
+interface ExerciseFeedbackChartsProps {
+  feedback: ExerciseFeedbackSummary[]
+  exercises: Array<{ id: string; exercise_name: string }>
+}
+
+const tooltipStyle = {
+  backgroundColor: '#FFFFFF',
+  border: '1px solid #E2E8F0',
+  borderRadius: '8px',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+// Pain before/after and difficulty per completed exercise, with the worker's notes
+export function ExerciseFeedbackCharts({ feedback, exercises }: ExerciseFeedbackChartsProps) {
+  const reported = feedback.filter(item => item.history.length > 0)
+
+  if (reported.length === 0) {
+    return <p className="exercise-feedback-empty">No feedback reported yet.</p>
+  }
+
+  return (
+    <div className="exercise-feedback-charts">
+      {reported.map((item) => {
+        const exerciseName = exercises.find(ex => ex.id === item.exercise_id)?.exercise_name || 'Exercise'
+        const data = item.history.map(entry => ({ ...entry, day: formatDay(entry.completion_date) }))
+        const notes = item.history.filter(entry => entry.note).slice(-3).reverse()
+
+        return (
+          <div key={item.exercise_id} className="exercise-feedback-card">
+            <div className="exercise-feedback-header">
+              <span className="exercise-feedback-name">{exerciseName}</span>
+              {item.averagePainIncrease !== null && (
+                <span className="exercise-feedback-stat">
+                  Avg. pain change {item.averagePainIncrease > 0 ? '+' : ''}{item.averagePainIncrease}
+                </span>
+              )}
+              {item.recommendation && (
+                <span className={`exercise-feedback-recommendation ${item.recommendation}`}>
+                  {RECOMMENDATION_LABELS[item.recommendation]}
+                </span>
+              )}
+            </div>
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#F1F5F9" />
+                <XAxis dataKey="day" stroke="#94A3B8" fontSize={11} />
+                <YAxis yAxisId="pain" domain={[0, 10]} stroke="#94A3B8" fontSize={11} />
+                <YAxis yAxisId="difficulty" orientation="right" domain={[1, 5]} stroke="#94A3B8" fontSize={11} />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: '12px' }} />
+                <Line yAxisId="pain" type="monotone" dataKey="pain_before" name="Pain before" stroke="#94A3B8" strokeDasharray="4 4" connectNulls />
+                <Line yAxisId="pain" type="monotone" dataKey="pain_after" name="Pain after" stroke="#EF4444" connectNulls />
+                <Line yAxisId="difficulty" type="monotone" dataKey="difficulty" name="Difficulty (1-5)" stroke="#8B5CF6" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+            {notes.length > 0 && (
+              <ul className="exercise-feedback-notes">
+                {notes.map((entry) => (
+                  <li key={entry.completion_date}>
+                    <span className="exercise-feedback-note-date">{formatDay(entry.completion_date)}</span>
+                    {entry.note}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
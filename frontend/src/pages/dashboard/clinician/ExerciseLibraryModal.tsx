@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback } from 'react'
+import { API_BASE_URL } from '../../../config/api'
+import { useAuth } from '../../../contexts/AuthContext'
+import { BODY_REGION_LABELS, EXERCISE_CATEGORY_LABELS, type LibraryExercise } from '../../../utils/exerciseLibrary'
+
+const EMPTY_FORM = {
+  name: '',
+  category: 'mobility',
+  body_regions: [] as string[],
+  default_repetitions: '',
+  instructions: '',
+  contraindications: '',
+  video_url: '',
+  image_url: '',
+}
+
+interface ExerciseLibraryModalProps {
+  onClose: () => void
+  onChange: () => void // Library changed - reload pickers
+}
+
+// Browse and maintain the shared exercise library
+export function ExerciseLibraryModal({ onClose, onChange }: ExerciseLibraryModalProps) {
+  const { user } = useAuth()
+  const [exercises, setExercises] = useState<LibraryExercise[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [category, setCategory] = useState('')
+  const [bodyRegion, setBodyRegion] = useState('')
+  const [search, setSearch] = useState('')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchExercises = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams()
+      if (category) params.set('category', category)
+      if (bodyRegion) params.set('body_region', bodyRegion)
+      if (search.trim()) params.set('search', search.trim())
+
+      const response = await fetch(`${API_BASE_URL}/api/clinician/exercise-library?${params}`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      if (!response.ok) {
+        throw new Error('Failed to load exercise library')
+      }
+      const data = await response.json()
+      setExercises(data.exercises || [])
+      setError('')
+    } catch (err) {
+      console.error('Error fetching exercise library:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load exercise library')
+    } finally {
+      setLoading(false)
+    }
+  }, [category, bodyRegion, search])
+
+  useEffect(() => {
+    const timer = setTimeout(fetchExercises, 300) // Debounce search typing
+    return () => clearTimeout(timer)
+  }, [fetchExercises])
+
+  const handleEdit = (exercise: LibraryExercise) => {
+    setEditingId(exercise.id)
+    setForm({
+      name: exercise.name,
+      category: exercise.category,
+      body_regions: exercise.body_regions || [],
+      default_repetitions: exercise.default_repetitions || '',
+      instructions: exercise.instructions || '',
+      contraindications: exercise.contraindications || '',
+      video_url: exercise.video_url || '',
+      image_url: exercise.image_url || '',
+    })
+    setShowForm(true)
+  }
+
+  const handleCancelForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const toggleRegion = (region: string) => {
+    setForm(prev => ({
+      ...prev,
+      body_regions: prev.body_regions.includes(region)
+        ? prev.body_regions.filter(r => r !== region)
+        : [...prev.body_regions, region],
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Exercise name is required')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      const response = await fetch(
+        `${API_BASE_URL}/api/clinician/exercise-library${editingId ? `/${editingId}` : ''}`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form),
+        }
+      )
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save exercise')
+      }
+      handleCancelForm()
+      fetchExercises()
+      onChange()
+    } catch (err) {
+      console.error('Error saving library exercise:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save exercise')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleArchive = async (exercise: LibraryExercise) => {
+    if (!window.confirm(`Remove "${exercise.name}" from the library? Plans and templates that use it keep their copy.`)) return
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/clinician/exercise-library/${exercise.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to remove exercise')
+      }
+      setExercises(prev => prev.filter(e => e.id !== exercise.id))
+      onChange()
+    } catch (err) {
+      console.error('Error archiving library exercise:', err)
+      setError(err instanceof Error ? err.message : 'Failed to remove exercise')
+    }
+  }
+
+  return (
+    <div className="clinician-modal-overlay" onClick={onClose}>
+      <div className="clinician-modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="clinician-modal-header">
+          <h2 className="clinician-modal-title">Exercise Library</h2>
+          <button className="clinician-modal-close" onClick={onClose}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+        <div className="clinician-modal-body">
+          {error && <div className="clinician-library-error">{error}</div>}
+
+          {showForm ? (
+            <div className="clinician-form-section">
+              <h3 className="clinician-form-section-title">{editingId ? 'Edit Exercise' : 'New Exercise'}</h3>
+              <div className="clinician-form-group">
+                <label>Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Cat-Cow"
+                />
+              </div>
+              <div className="clinician-form-group">
+                <label>Category</label>
+                <select value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })}>
+                  {Object.entries(EXERCISE_CATEGORY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="clinician-form-group">
+                <label>Body Regions</label>
+                <div className="clinician-library-regions">
+                  {Object.entries(BODY_REGION_LABELS).map(([value, label]) => (
+                    <label key={value} className="clinician-library-region">
+                      <input
+                        type="checkbox"
+                        checked={form.body_regions.includes(value)}
+                        onChange={() => toggleRegion(value)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="clinician-form-group">
+                <label>Default Repetitions</label>
+                <input
+                  type="text"
+                  value={form.default_repetitions}
+                  onChange={(e) => setForm({ ...form, default_repetitions: e.target.value })}
+                  placeholder="e.g., 3 sets of 10"
+                />
+              </div>
+              <div className="clinician-form-group">
+                <label>Instructions</label>
+                <textarea
+                  value={form.instructions}
+                  onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="clinician-form-group">
+                <label>Contraindications</label>
+                <textarea
+                  value={form.contraindications}
+                  onChange={(e) => setForm({ ...form, contraindications: e.target.value })}
+                  rows={2}
+                  placeholder="e.g., Acute disc herniation, post-surgery < 6 weeks"
+                />
+              </div>
+              <div className="clinician-form-group">
+                <label>Video URL</label>
+                <input
+                  type="url"
+                  value={form.video_url}
+                  onChange={(e) => setForm({ ...form, video_url: e.target.value })}
+                />
+              </div>
+              <div className="clinician-form-group">
+                <label>Image URL</label>
+                <input
+                  type="url"
+                  value={form.image_url}
+                  onChange={(e) => setForm({ ...form, image_url: e.target.value })}
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="clinician-library-filters">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search exercises..."
+                />
+                <select value={category} onChange={(e) => setCategory(e.target.value)}>
+                  <option value="">All categories</option>
+                  {Object.entries(EXERCISE_CATEGORY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select value={bodyRegion} onChange={(e) => setBodyRegion(e.target.value)}>
+                  <option value="">All body regions</option>
+                  {Object.entries(BODY_REGION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {loading ? (
+                <p className="clinician-library-empty">Loading exercises...</p>
+              ) : exercises.length === 0 ? (
+                <p className="clinician-library-empty">No exercises found</p>
+              ) : (
+                <ul className="clinician-library-list">
+                  {exercises.map((exercise) => (
+                    <li key={exercise.id} className="clinician-library-item">
+                      <div className="clinician-library-info">
+                        <div className="clinician-library-name">{exercise.name}</div>
+                        <div className="clinician-library-meta">
+                          {EXERCISE_CATEGORY_LABELS[exercise.category] || exercise.category}
+                          {exercise.body_regions.length > 0 && ` · ${exercise.body_regions.map(r => BODY_REGION_LABELS[r] || r).join(', ')}`}
+                          {exercise.default_repetitions && ` · ${exercise.default_repetitions}`}
+                        </div>
+                        {exercise.contraindications && (
+                          <div className="clinician-library-warning">Contraindications: {exercise.contraindications}</div>
+                        )}
+                      </div>
+                      {exercise.created_by === user?.id && (
+                        <div className="clinician-library-actions">
+                          <button type="button" onClick={() => handleEdit(exercise)}>Edit</button>
+                          <button type="button" onClick={() => handleArchive(exercise)}>Remove</button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <div className="clinician-modal-footer">
+          {showForm ? (
+            <>
+              <button className="clinician-modal-cancel-btn" onClick={handleCancelForm} disabled={saving}>
+                Back
+              </button>
+              <button className="clinician-modal-submit-btn" onClick={handleSave} disabled={saving || !form.name.trim()}>
+                {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Add to Library'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button className="clinician-modal-cancel-btn" onClick={onClose}>
+                Close
+              </button>
+              <button className="clinician-modal-submit-btn" onClick={() => setShowForm(true)}>
+                New Exercise
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
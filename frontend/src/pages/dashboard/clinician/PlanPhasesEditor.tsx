@@ -0,0 +1,170 @@
+import {
+  EMPTY_PRESCRIPTION,
+  createPhaseDraft,
+  reflowPhases,
+  type PhaseDraft,
+  type PrescriptionDraft,
+} from '../../../utils/rehabilitationSchedule'
+
+interface PlanPhasesEditorProps {
+  phases: PhaseDraft[]
+  onChange: (phases: PhaseDraft[]) => void
+  exerciseNames: string[]
+  totalDays: number
+}
+
+const PRESCRIPTION_FIELDS: Array<{ field: keyof PrescriptionDraft; label: string; placeholder: string }> = [
+  { field: 'sets', label: 'Sets', placeholder: '3' },
+  { field: 'repetitions', label: 'Reps', placeholder: '10' },
+  { field: 'hold_seconds', label: 'Hold (s)', placeholder: '—' },
+  { field: 'weekly_rep_increase', label: '+Reps / week', placeholder: '0' },
+  { field: 'weekly_hold_increase', label: '+Hold / week', placeholder: '0' },
+]
+
+// Phases of a progressive plan: day ranges, rest days and what each exercise asks for
+export function PlanPhasesEditor({ phases, onChange, exerciseNames, totalDays }: PlanPhasesEditorProps) {
+  const updatePhase = (index: number, changes: Partial<PhaseDraft>) => {
+    onChange(reflowPhases(phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase))))
+  }
+
+  const toggleExercise = (phaseIndex: number, exerciseIndex: number) => {
+    const prescriptions = { ...phases[phaseIndex].prescriptions }
+    if (prescriptions[exerciseIndex]) {
+      delete prescriptions[exerciseIndex]
+    } else {
+      prescriptions[exerciseIndex] = { ...EMPTY_PRESCRIPTION }
+    }
+    updatePhase(phaseIndex, { prescriptions })
+  }
+
+  const updatePrescription = (phaseIndex: number, exerciseIndex: number, field: keyof PrescriptionDraft, value: string) => {
+    const prescriptions = { ...phases[phaseIndex].prescriptions }
+    prescriptions[exerciseIndex] = { ...prescriptions[exerciseIndex], [field]: value }
+    updatePhase(phaseIndex, { prescriptions })
+  }
+
+  const lastEndDay = phases.length > 0 ? phases[phases.length - 1].end_day : 0
+
+  return (
+    <div className="clinician-phases">
+      {phases.map((phase, phaseIndex) => (
+        <div key={phaseIndex} className="clinician-exercise-card">
+          <div className="clinician-exercise-header">
+            <span className="clinician-exercise-number">
+              Days {phase.start_day}–{phase.end_day}
+            </span>
+            {phases.length > 1 && (
+              <button
+                type="button"
+                className="clinician-exercise-remove"
+                onClick={() => onChange(reflowPhases(phases.filter((_, i) => i !== phaseIndex)))}
+                title="Remove phase"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                </svg>
+              </button>
+            )}
+          </div>
+          <div className="clinician-phase-row">
+            <div className="clinician-form-group">
+              <label>Phase Name *</label>
+              <input
+                type="text"
+                value={phase.name}
+                onChange={(e) => updatePhase(phaseIndex, { name: e.target.value })}
+                placeholder="e.g., Mobility"
+              />
+            </div>
+            <div className="clinician-form-group">
+              <label>Last Day *</label>
+              <input
+                type="number"
+                min={phase.start_day}
+                max={totalDays}
+                value={phase.end_day}
+                onChange={(e) => updatePhase(phaseIndex, { end_day: parseInt(e.target.value) || phase.start_day })}
+              />
+            </div>
+            <div className="clinician-form-group">
+              <label>Rest Days</label>
+              <input
+                type="text"
+                value={phase.rest_days}
+                onChange={(e) => updatePhase(phaseIndex, { rest_days: e.target.value })}
+                placeholder="e.g., 4, 7"
+              />
+            </div>
+          </div>
+          <div className="clinician-form-group">
+            <label>Notes</label>
+            <input
+              type="text"
+              value={phase.notes}
+              onChange={(e) => updatePhase(phaseIndex, { notes: e.target.value })}
+              placeholder="Goal of this phase (optional)"
+            />
+          </div>
+          <table className="clinician-phase-table">
+            <thead>
+              <tr>
+                <th>Exercise</th>
+                {PRESCRIPTION_FIELDS.map(({ field, label }) => (
+                  <th key={field}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {exerciseNames.map((exerciseName, exerciseIndex) => {
+                const prescription = phase.prescriptions[exerciseIndex]
+                return (
+                  <tr key={exerciseIndex} className={prescription ? '' : 'clinician-phase-excluded'}>
+                    <td>
+                      <label className="clinician-phase-exercise">
+                        <input
+                          type="checkbox"
+                          checked={!!prescription}
+                          onChange={() => toggleExercise(phaseIndex, exerciseIndex)}
+                        />
+                        {exerciseName || `Exercise ${exerciseIndex + 1}`}
+                      </label>
+                    </td>
+                    {PRESCRIPTION_FIELDS.map(({ field, placeholder }) => (
+                      <td key={field}>
+                        <input
+                          type="number"
+                          value={prescription ? prescription[field] : ''}
+                          onChange={(e) => updatePrescription(phaseIndex, exerciseIndex, field, e.target.value)}
+                          placeholder={placeholder}
+                          disabled={!prescription}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+      {lastEndDay < totalDays ? (
+        <button
+          type="button"
+          className="clinician-add-exercise-btn"
+          onClick={() => onChange([...phases, createPhaseDraft(phases, totalDays, exerciseNames.length)])}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="12" y1="5" x2="12" y2="19"></line>
+            <line x1="5" y1="12" x2="19" y2="12"></line>
+          </svg>
+          Add Phase (Day {lastEndDay + 1} onwards)
+        </button>
+      ) : null}
+      <small className="clinician-form-helper">
+        Rest days are plan days (Day 1 = start date). Reps and hold time grow by the weekly increase for each full week into a phase.
+        {lastEndDay < totalDays && lastEndDay > 0 && ` Days ${lastEndDay + 1}–${totalDays} continue the last phase.`}
+      </small>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { useAuth } from '../../../contexts/AuthContext'
-import { useNotifications } from '../../../hooks/useNotifications'
+import { useNotifications, isNotFitNotification } from '../../../hooks/useNotifications'
 import './Notifications.css'
 
 export function Notifications() {
@@ -119,8 +119,14 @@ export function Notifications() {
                   navigate('/dashboard/worker/appointments')
                 } else if (notification.type === 'incident_assigned') {
                   navigate('/dashboard/whs-control-center')
-                } else if (notification.type === 'case_assigned_to_clinician') {
+                } else if (notification.type === 'case_assigned_to_clinician' || notification.type === 'rehab_pain_increase') {
                   navigate('/dashboard/clinician')
+                } else if (notification.type === 'appointment_unconfirmed') {
+                  navigate('/dashboard/clinician/appointments')
+                } else if (notification.type === 'case_sla_breached') {
+                  navigate(role === 'supervisor'
+                    ? '/dashboard/supervisor/incidents'
+                    : role === 'clinician' ? '/dashboard/clinician' : '/dashboard/whs-control-center')
                 } else if (notification.type === 'case_closed') {
                   // For supervisors, go to incident management when case is closed
                   if (role === 'supervisor') {
@@ -167,7 +173,7 @@ export function Notifications() {
                     <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ color: '#10B981' }}>
                       <polyline points="20 6 9 17 4 12"></polyline>
                     </svg>
-                  ) : notification.type === 'worker_not_fit_to_work' ? (
+                  ) : isNotFitNotification(notification) ? (
                     <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ color: '#ef4444' }}>
                       <circle cx="12" cy="12" r="10"></circle>
                       <line x1="12" y1="8" x2="12" y2="12"></line>
@@ -196,7 +202,7 @@ export function Notifications() {
                   <p className="notification-message">{notification.message}</p>
                   
                   {/* Worker Not Fit to Work Details */}
-                  {notification.type === 'worker_not_fit_to_work' && notification.data && (
+                  {isNotFitNotification(notification) && notification.data && (
                     <div className="notification-details-panel">
                       {notification.data.worker_name && (
                         <div className="notification-detail">
@@ -411,12 +417,12 @@ export function Notifications() {
                       <strong>Case:</strong> {notification.data.case_number}
                     </div>
                   )}
-                  {notification.type !== 'worker_not_fit_to_work' && notification.type !== 'system' && notification.type !== 'case_closed' && notification.data?.worker_name && (
+                  {!isNotFitNotification(notification) && notification.type !== 'system' && notification.type !== 'case_closed' && notification.data?.worker_name && (
                     <div className="notification-detail">
                       <strong>Worker:</strong> {notification.data.worker_name}
                     </div>
                   )}
-                  {notification.type !== 'worker_not_fit_to_work' && notification.type !== 'system' && notification.type !== 'case_closed' && notification.data?.team_name && (
+                  {!isNotFitNotification(notification) && notification.type !== 'system' && notification.type !== 'case_closed' && notification.data?.team_name && (
                     <div className="notification-detail">
                       <strong>Team:</strong> {notification.data.team_name}
                     </div>
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { formatSlaCountdown, getSlaState, type SlaTimer } from '../../../utils/caseSla'
 import './IncidentManagement.css'
 
 interface Incident {
@@ -17,6 +18,7 @@ interface Incident {
   endDate: string | null
   isActive: boolean
   assignedToWhs: boolean
+  sla: SlaTimer | null // Most urgent WHS SLA timer (assigned cases only)
   clinicianId: string | null
   clinicianName: string | null
   clinicianEmail: string | null
@@ -58,6 +60,7 @@ export function IncidentManagement() {
   const [searchQuery, setSearchQuery] = useState('')
   const [filterType, setFilterType] = useState('all')
   const [showReportModal, setShowReportModal] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
   const [workers, setWorkers] = useState<Worker[]>([])
   const [reporting, setReporting] = useState(false)
   const [selectedCase, setSelectedCase] = useState<Incident | null>(null)
@@ -286,6 +289,12 @@ export function IncidentManagement() {
     setShowCaseDetails(true)
   }
 
+  // Keep SLA countdowns current while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
+
   // Render action buttons for incidents
   const renderActionButtons = (incident: Incident, isMobile = false) => (
     <div className="action-buttons">
@@ -315,6 +324,14 @@ export function IncidentManagement() {
           {isMobile ? 'Assigned - View Details' : 'Assigned'}
         </span>
       )}
+      {incident.isActive && incident.sla && (
+        <span
+          className={`sla-badge ${getSlaState(incident.sla, now)}`}
+          title={`${incident.sla.label} SLA (${incident.sla.targetHours}h target)`}
+        >
+          {formatSlaCountdown(incident.sla, now)}
+        </span>
+      )}
       {incident.isActive && (
         <button
           onClick={() => handleViewCaseDetails(incident)}
@@ -1061,6 +1078,21 @@ export function IncidentManagement() {
                         <span style={{ fontSize: '13px' }}>No clinician assigned yet</span>
                       </div>
                     )}
+                    {selectedCase.isActive && selectedCase.sla && (
+                      <div className="case-info-grid" style={{ marginTop: '12px' }}>
+                        <div className="case-info-item">
+                          <label>{selectedCase.sla.label} SLA</label>
+                          <div>
+                            <span className={`sla-badge ${getSlaState(selectedCase.sla, now)}`}>
+                              {formatSlaCountdown(selectedCase.sla, now)}
+                            </span>
+                          </div>
+                          <div style={{ fontSize: '12px', color: '#64748B', marginTop: '2px' }}>
+                            {selectedCase.sla.targetHours}h target, due {new Date(selectedCase.sla.dueAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
 
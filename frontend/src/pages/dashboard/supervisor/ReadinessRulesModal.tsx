@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react'
+import { Loading } from '../../../components/Loading'
+import { API_BASE_URL } from '../../../config/api'
+import './ReadinessRulesModal.css'
+
+interface ReadinessRules {
+  id: string | null
+  version: number
+  painWeight: number
+  fatigueWeight: number
+  stressWeight: number
+  sleepWeight: number
+  sleepTargetHours: number
+  greenMaxScore: number
+  yellowMaxScore: number
+  painRedFlag: number | null
+  fatigueRedFlag: number | null
+  stressRedFlag: number | null
+  minSleepHours: number | null
+}
+
+interface ReadinessRuleVersion {
+  id: string
+  version: number
+  is_active: boolean
+  notes: string | null
+  created_at: string
+}
+
+type RuleField = Exclude<keyof ReadinessRules, 'id' | 'version'>
+
+interface ReadinessRulesModalProps {
+  teamId: string
+  teamName: string
+  onClose: () => void
+}
+
+const SCORE_FIELDS: Array<{ field: RuleField; label: string; min: number; max: number; step: number }> = [
+  { field: 'painWeight', label: 'Pain weight', min: 0, max: 5, step: 0.1 },
+  { field: 'fatigueWeight', label: 'Fatigue weight', min: 0, max: 5, step: 0.1 },
+  { field: 'stressWeight', label: 'Stress weight', min: 0, max: 5, step: 0.1 },
+  { field: 'sleepWeight', label: 'Sleep weight', min: 0, max: 5, step: 0.1 },
+  { field: 'sleepTargetHours', label: 'Sleep target (hours)', min: 0.5, max: 12, step: 0.5 },
+  { field: 'greenMaxScore', label: 'Green up to score', min: 0, max: 200, step: 0.5 },
+  { field: 'yellowMaxScore', label: 'Yellow up to score', min: 0, max: 200, step: 0.5 },
+]
+
+// Any one of these forces Red - empty disables the flag
+const RED_FLAG_FIELDS: Array<{ field: RuleField; label: string; max: number }> = [
+  { field: 'painRedFlag', label: 'Pain at or above', max: 10 },
+  { field: 'fatigueRedFlag', label: 'Fatigue at or above', max: 10 },
+  { field: 'stressRedFlag', label: 'Stress at or above', max: 10 },
+  { field: 'minSleepHours', label: 'Sleep below (hours)', max: 12 },
+]
+
+const NULLABLE_FIELDS = RED_FLAG_FIELDS.map(({ field }) => field)
+
+const toFormValues = (rules: ReadinessRules): Record<RuleField, string> => {
+  const values = {} as Record<RuleField, string>
+  ;[...SCORE_FIELDS, ...RED_FLAG_FIELDS].forEach(({ field }) => {
+    values[field] = rules[field] === null ? '' : String(rules[field])
+  })
+  return values
+}
+
+// Readiness scoring rules for one team - saving publishes a new version
+export function ReadinessRulesModal({ teamId, teamName, onClose }: ReadinessRulesModalProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [isDefault, setIsDefault] = useState(false)
+  const [activeVersion, setActiveVersion] = useState(0)
+  const [values, setValues] = useState<Record<RuleField, string> | null>(null)
+  const [notes, setNotes] = useState('')
+  const [versions, setVersions] = useState<ReadinessRuleVersion[]>([])
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/supervisor/teams/${teamId}/readiness-rules`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load readiness rules')
+      }
+      setValues(toFormValues(data.rules))
+      setActiveVersion(data.rules.version)
+      setIsDefault(!!data.isDefault)
+      setVersions(data.versions || [])
+    } catch (err) {
+      console.error('Error fetching readiness rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load readiness rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRules()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamId])
+
+  const handleSave = async () => {
+    if (!values) return
+    try {
+      setSaving(true)
+      setError('')
+      setNotice('')
+      const payload: Record<string, number | string | null> = { notes: notes.trim() || null }
+      ;(Object.keys(values) as RuleField[]).forEach(field => {
+        const value = values[field].trim()
+        if (value === '') {
+          if (NULLABLE_FIELDS.includes(field)) payload[field] = null
+          return
+        }
+        payload[field] = Number(value)
+      })
+
+      const response = await fetch(`${API_BASE_URL}/api/supervisor/teams/${teamId}/readiness-rules`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save readiness rules')
+      }
+      setNotes('')
+      setNotice(`Published version ${data.rules.version}`)
+      await fetchRules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save readiness rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={() => !saving && onClose()}>
+      <div className="modal-content modal-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div>
+              <h2>Readiness Rules</h2>
+              <p className="modal-subtitle">
+                {teamName} · {isDefault ? 'Using the default rules' : `Version ${activeVersion}`}
+              </p>
+            </div>
+          </div>
+          <button className="modal-close-btn" onClick={onClose} disabled={saving}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="modal-error">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10"></circle>
+              <line x1="12" y1="8" x2="12" y2="12"></line>
+              <line x1="12" y1="16" x2="12.01" y2="16"></line>
+            </svg>
+            {error}
+          </div>
+        )}
+
+        <div className="modal-body">
+          {loading || !values ? (
+            <Loading message="Loading readiness rules..." size="small" />
+          ) : (
+            <>
+              {notice && <p className="readiness-rules-notice">{notice}</p>}
+              <p className="readiness-rules-help">
+                Score = pain, fatigue and stress (0-10) plus the sleep shortfall against the target (0-10), each times its weight.
+                Check-ins scoring up to the Green limit are Green, up to the Yellow limit Yellow, and above it Red.
+              </p>
+
+              <div className="readiness-rules-grid">
+                {SCORE_FIELDS.map(({ field, label, min, max, step }) => (
+                  <div className="form-group" key={field}>
+                    <label htmlFor={`readiness-${field}`}>{label}</label>
+                    <input
+                      id={`readiness-${field}`}
+                      type="number"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={values[field]}
+                      onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="section-title">Red flags</h3>
+              <p className="readiness-rules-help">Any one of these makes the check-in Red whatever the score. Leave empty to turn a flag off.</p>
+              <div className="readiness-rules-grid">
+                {RED_FLAG_FIELDS.map(({ field, label, max }) => (
+                  <div className="form-group" key={field}>
+                    <label htmlFor={`readiness-${field}`}>{label}</label>
+                    <input
+                      id={`readiness-${field}`}
+                      type="number"
+                      min={0}
+                      max={max}
+                      step={1}
+                      value={values[field]}
+                      placeholder="Off"
+                      onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="readiness-notes">Change notes (optional)</label>
+                <input
+                  id="readiness-notes"
+                  type="text"
+                  maxLength={500}
+                  value={notes}
+                  placeholder="Why the rules are changing"
+                  onChange={(e) => setNotes(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              {versions.length > 0 && (
+                <div className="form-group">
+                  <label>Version history</label>
+                  <ul className="readiness-rules-history">
+                    {versions.map((version) => (
+                      <li key={version.id}>
+                        <span>
+                          v{version.version} · {new Date(version.created_at).toLocaleString()}
+                          {version.notes && ` · ${version.notes}`}
+                        </span>
+                        {version.is_active && <span className="readiness-rules-active">Active</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} disabled={saving} className="btn-secondary">
+            Close
+          </button>
+          <button onClick={handleSave} disabled={loading || saving || !values} className="btn-primary">
+            {saving ? 'Publishing...' : 'Publish New Version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from '../../../utils/timezones'
+import { UserImportModal } from './UserImportModal'
+import { ReadinessRulesModal } from './ReadinessRulesModal'
+import { CheckInQuestionsModal } from '../../../components/CheckInQuestionsModal'
 import './SupervisorTeams.css'
 
 interface TeamLeader {
@@ -17,6 +21,7 @@ interface Team {
   id: string
   name: string
   siteLocation: string | null
+  timezone?: string
   teamLeader: TeamLeader | null
   memberCount: number
   activeMemberCount?: number
@@ -35,10 +40,13 @@ export function SupervisorTeams() {
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [createLoading, setCreateLoading] = useState(false)
   const [createError, setCreateError] = useState<string | null>(null)
   const [selectedTeam, setSelectedTeam] = useState<Team | null>(null)
   const [showTeamDetailsModal, setShowTeamDetailsModal] = useState(false)
+  const [showReadinessRulesModal, setShowReadinessRulesModal] = useState(false)
+  const [showQuestionsModal, setShowQuestionsModal] = useState(false)
   const [teamMembers, setTeamMembers] = useState<any[]>([])
   const [loadingMembers, setLoadingMembers] = useState(false)
   const [showDeleteModal, setShowDeleteModal] = useState(false)
@@ -54,6 +62,7 @@ export function SupervisorTeams() {
     last_name: '',
     team_name: '',
     site_location: '',
+    timezone: DEFAULT_TIMEZONE,
   })
 
   useEffect(() => {
@@ -115,6 +124,7 @@ export function SupervisorTeams() {
         last_name: '',
         team_name: '',
         site_location: '',
+        timezone: DEFAULT_TIMEZONE,
       })
       setShowCreateModal(false)
       
@@ -278,16 +288,31 @@ export function SupervisorTeams() {
             <h1 className="teams-title">All Teams</h1>
             <p className="teams-count">{teams.length} {teams.length === 1 ? 'team' : 'teams'}</p>
           </div>
-          <button 
-            onClick={() => setShowCreateModal(true)}
-            className="create-team-btn"
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <line x1="12" y1="5" x2="12" y2="19"></line>
-              <line x1="5" y1="12" x2="19" y2="12"></line>
-            </svg>
-            Create Team Leader
-          </button>
+          <div className="teams-header-actions">
+            {teams.length > 0 && (
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="create-team-btn-secondary"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="17 8 12 3 7 8"></polyline>
+                  <line x1="12" y1="3" x2="12" y2="15"></line>
+                </svg>
+                Import Workers
+              </button>
+            )}
+            <button 
+              onClick={() => setShowCreateModal(true)}
+              className="create-team-btn"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="12" y1="5" x2="12" y2="19"></line>
+                <line x1="5" y1="12" x2="19" y2="12"></line>
+              </svg>
+              Create Team Leader
+            </button>
+          </div>
         </div>
 
         {/* Search Bar */}
@@ -537,6 +562,19 @@ export function SupervisorTeams() {
                   placeholder="e.g., Pilbara Site A"
                 />
               </div>
+
+              <div className="form-group">
+                <label>Site Timezone</label>
+                <select
+                  value={teamLeaderForm.timezone}
+                  onChange={(e) => setTeamLeaderForm({ ...teamLeaderForm, timezone: e.target.value })}
+                  disabled={createLoading}
+                >
+                  {TIMEZONE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className="modal-footer">
@@ -566,6 +604,14 @@ export function SupervisorTeams() {
         </div>
       )}
 
+      {/* Import Workers Modal */}
+      {showImportModal && (
+        <UserImportModal
+          onClose={() => setShowImportModal(false)}
+          onImported={fetchTeams}
+        />
+      )}
+
       {/* Team Details Modal */}
       {showTeamDetailsModal && selectedTeam && (
         <div 
@@ -678,6 +724,15 @@ export function SupervisorTeams() {
                 </div>
               </div>
 
+              <div className="team-details-actions">
+                <button className="btn-secondary" onClick={() => setShowQuestionsModal(true)}>
+                  Check-in Questions
+                </button>
+                <button className="btn-secondary" onClick={() => setShowReadinessRulesModal(true)}>
+                  Readiness Rules
+                </button>
+              </div>
+
               {/* Team Members List */}
               <div className="team-members-section">
                 <h3 className="section-title">Team Members</h3>
@@ -789,6 +844,24 @@ export function SupervisorTeams() {
         </div>
       )}
 
+      {/* Readiness Rules Modal */}
+      {showReadinessRulesModal && selectedTeam && (
+        <ReadinessRulesModal
+          teamId={selectedTeam.id}
+          teamName={selectedTeam.name}
+          onClose={() => setShowReadinessRulesModal(false)}
+        />
+      )}
+
+      {/* Check-in Questions Modal */}
+      {showQuestionsModal && selectedTeam && (
+        <CheckInQuestionsModal
+          teamId={selectedTeam.id}
+          teamName={selectedTeam.name}
+          onClose={() => setShowQuestionsModal(false)}
+        />
+      )}
+
       {/* Delete Team Confirmation Modal */}
       {showDeleteModal && teamToDelete && (
         <div 
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from 'react'
+import * as XLSX from 'xlsx'
+import { API_BASE_URL } from '../../../config/api'
+import './UserImportModal.css'
+
+interface UserImportBatch {
+  id: string
+  file_name: string | null
+  status: 'pending' | 'processing' | 'completed' | 'partial'
+  total_rows: number
+  created_count: number
+  skipped_count: number
+  failed_count: number
+  created_at: string
+}
+
+interface UserImportRow {
+  id: string
+  row_number: number
+  email: string
+  first_name: string
+  last_name: string
+  team: string
+  status: 'pending' | 'created' | 'skipped' | 'failed'
+  error: string | null
+  credentials_delivered_at: string | null
+}
+
+interface UserImportCredential {
+  row_number: number
+  email: string
+  full_name: string
+  team_name: string
+  password: string
+  quick_login_code: string | null
+}
+
+interface UserImportResult {
+  batch: UserImportBatch
+  rows: UserImportRow[]
+  credentials?: UserImportCredential[]
+  remaining?: number
+}
+
+interface UserImportModalProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+const TEMPLATE_ROWS = [
+  { email: 'jane.smith@example.com', first_name: 'Jane', last_name: 'Smith', date_of_birth: '1990-04-21', gender: 'female', team: 'Team Alpha', phone: '', employee_id: 'EMP1042' },
+]
+
+const STATUS_LABELS: Record<UserImportRow['status'], string> = {
+  pending: 'Not processed',
+  created: 'Created',
+  skipped: 'Skipped',
+  failed: 'Failed',
+}
+
+// Spreadsheet date cells -> YYYY-MM-DD (what the import endpoint expects)
+const cellToText = (value: unknown): string => {
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  }
+  return value === null || value === undefined ? '' : String(value)
+}
+
+const readUserSheet = async (file: File): Promise<{ csv: string } | { rows: Record<string, string>[] }> => {
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    return { csv: await file.text() }
+  }
+
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) {
+    throw new Error('The spreadsheet has no sheets')
+  }
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { raw: true, defval: '' })
+  return {
+    rows: rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, cellToText(value)]))),
+  }
+}
+
+const downloadSheet = (rows: Record<string, unknown>[], sheetName: string, fileName: string) => {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheetName)
+  XLSX.writeFile(workbook, fileName)
+}
+
+const formatDate = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Onboard many workers at once from a CSV/XLSX sheet (resumable batches, see /api/user-imports)
+export function UserImportModal({ onClose, onImported }: UserImportModalProps) {
+  const [imports, setImports] = useState<UserImportBatch[]>([])
+  const [result, setResult] = useState<UserImportResult | null>(null)
+  const [credentials, setCredentials] = useState<UserImportCredential[]>([])
+  const [loading, setLoading] = useState(false)
+  const [progress, setProgress] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchImports = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/user-imports`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      if (!response.ok) {
+        throw new Error('Failed to load previous imports')
+      }
+      const data = await response.json()
+      setImports(data.imports || [])
+    } catch (err) {
+      console.error('Error fetching user imports:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchImports()
+  }, [fetchImports])
+
+  // Unconfirmed credentials are reissued when the import is resumed
+  const confirmCredentials = async (batchId: string, rowIds: string[]): Promise<boolean> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/user-imports/${batchId}/credentials-delivered`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rowIds }),
+      })
+      return response.ok
+    } catch (err) {
+      console.error('Error confirming import credentials:', err)
+      return false
+    }
+  }
+
+  // Credentials from every chunk of this session are kept - each chunk only returns the users it created
+  // (or reissued, which replace the earlier ones)
+  const applyResult = async (data: UserImportResult) => {
+    const newCredentials = data.credentials || []
+    if (newCredentials.length > 0) {
+      const rowNumbers = new Set(newCredentials.map(credential => credential.row_number))
+      setCredentials(prev => [...prev.filter(credential => !rowNumbers.has(credential.row_number)), ...newCredentials])
+      const rowIds = data.rows.filter(row => rowNumbers.has(row.row_number)).map(row => row.id)
+      if (await confirmCredentials(data.batch.id, rowIds)) {
+        const deliveredAt = new Date().toISOString()
+        data = {
+          ...data,
+          rows: data.rows.map(row => (rowNumbers.has(row.row_number) ? { ...row, credentials_delivered_at: deliveredAt } : row)),
+        }
+      }
+      onImported()
+    }
+    setResult(data)
+  }
+
+  // Each request creates one chunk of the sheet - keep going until no rows remain
+  const runImport = async (firstRequest: Promise<Response>) => {
+    let response = await firstRequest
+    let previousRemaining = Infinity
+    for (;;) {
+      const data: UserImportResult = await response.json()
+      if (!response.ok) {
+        throw new Error((data as { error?: string }).error || 'Failed to import users')
+      }
+      await applyResult(data)
+
+      const remaining = data.remaining ?? 0
+      // Stop if a chunk made no progress (e.g. the server keeps failing) - the batch can be resumed later
+      if (remaining === 0 || remaining >= previousRemaining) break
+      previousRemaining = remaining
+      setProgress(`${data.batch.total_rows - remaining} of ${data.batch.total_rows} rows processed...`)
+
+      response = await fetch(`${API_BASE_URL}/api/user-imports/${data.batch.id}/resume`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setError('')
+    setResult(null)
+    setProgress('')
+    setLoading(true)
+    try {
+      const body = await readUserSheet(file)
+      await runImport(fetch(`${API_BASE_URL}/api/user-imports`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, fileName: file.name }),
+      }))
+    } catch (err) {
+      console.error('Error importing users:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import users')
+    } finally {
+      setLoading(false)
+      fetchImports()
+    }
+  }
+
+  const handleResume = async (batchId: string, retryFailed: boolean) => {
+    setError('')
+    setProgress('')
+    setLoading(true)
+    try {
+      await runImport(fetch(`${API_BASE_URL}/api/user-imports/${batchId}/resume`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retryFailed }),
+      }))
+    } catch (err) {
+      console.error('Error resuming user import:', err)
+      setError(err instanceof Error ? err.message : 'Failed to resume import')
+    } finally {
+      setLoading(false)
+      fetchImports()
+    }
+  }
+
+  const handleViewReport = async (batchId: string) => {
+    setError('')
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/user-imports/${batchId}`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load import')
+      }
+      setResult(data)
+    } catch (err) {
+      console.error('Error fetching user import:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load import')
+    }
+  }
+
+  const handleDownloadCredentials = () => {
+    downloadSheet(
+      credentials.map(credential => ({
+        Name: credential.full_name,
+        Email: credential.email,
+        Team: credential.team_name,
+        'Temporary Password': credential.password,
+        'Quick Login PIN': credential.quick_login_code || '',
+      })),
+      'Credentials',
+      'worker-credentials.xlsx'
+    )
+  }
+
+  const handleDownloadErrors = () => {
+    if (!result) return
+    downloadSheet(
+      result.rows
+        .filter(row => row.status === 'failed' || row.status === 'pending')
+        .map(row => ({
+          Row: row.row_number,
+          Email: row.email,
+          Name: `${row.first_name} ${row.last_name}`.trim(),
+          Team: row.team,
+          Status: STATUS_LABELS[row.status],
+          Error: row.error || '',
+        })),
+      'Errors',
+      'import-errors.xlsx'
+    )
+  }
+
+  const handleClose = () => {
+    if (credentials.length > 0 && !window.confirm('Temporary passwords are not shown again. Close without downloading the credentials sheet?')) {
+      return
+    }
+    onClose()
+  }
+
+  const problemRows = result ? result.rows.filter(row => row.status === 'failed' || row.status === 'pending') : []
+  const undeliveredRows = result ? result.rows.filter(row => row.status === 'created' && !row.credentials_delivered_at) : []
+  const canResume = result && result.batch.status !== 'processing'
+
+  return (
+    <div className="modal-overlay" onClick={() => !loading && handleClose()}>
+      <div className="modal-content modal-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div className="modal-header-content">
+            <div>
+              <h2>Import Workers</h2>
+              <p className="modal-subtitle">Create worker accounts for your teams from a CSV or Excel sheet</p>
+            </div>
+          </div>
+          <button className="modal-close-btn" onClick={handleClose} disabled={loading}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="modal-error">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10"></circle>
+              <line x1="12" y1="8" x2="12" y2="12"></line>
+              <line x1="12" y1="16" x2="12.01" y2="16"></line>
+            </svg>
+            {error}
+          </div>
+        )}
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label>Worker sheet</label>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={loading}
+            />
+            <p className="user-import-help">
+              Columns: email, first_name, last_name, date_of_birth (YYYY-MM-DD or DD/MM/YYYY, 18+), team (name or ID).
+              Optional: gender, phone, employee_id. Workers already in their team are skipped, so a corrected sheet can be uploaded again.{' '}
+              <button
+                type="button"
+                className="user-import-link"
+                onClick={() => downloadSheet(TEMPLATE_ROWS, 'Workers', 'worker-import-template.xlsx')}
+              >
+                Download template
+              </button>
+            </p>
+          </div>
+
+          {loading && <p className="user-import-help">Creating accounts - {progress || 'large sheets can take a minute...'}</p>}
+
+          {credentials.length > 0 && (
+            <div className="user-import-credentials">
+              <div>
+                <strong>{credentials.length} account(s) created.</strong> Download the credentials sheet now - temporary passwords are not shown again.
+              </div>
+              <button type="button" className="btn-primary" onClick={handleDownloadCredentials}>
+                Download Credentials
+              </button>
+            </div>
+          )}
+
+          {result && (
+            <div className="form-group">
+              <label>{result.batch.file_name || 'Import'} - {formatDate(result.batch.created_at)}</label>
+              <div className="user-import-summary">
+                <span>{result.batch.created_count} created</span>
+                <span>{result.batch.skipped_count} skipped</span>
+                <span>{result.batch.failed_count} failed</span>
+                <span>{result.batch.total_rows} rows</span>
+              </div>
+
+              {problemRows.length > 0 && (
+                <>
+                  <table className="user-import-table">
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>Email</th>
+                        <th>Team</th>
+                        <th>Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {problemRows.map((row) => (
+                        <tr key={row.id}>
+                          <td>{row.row_number}</td>
+                          <td>{row.email || '—'}</td>
+                          <td>{row.team || '—'}</td>
+                          <td>{row.error || STATUS_LABELS[row.status]}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="user-import-actions">
+                    <button type="button" className="btn-secondary" onClick={handleDownloadErrors}>
+                      Download Error Report
+                    </button>
+                    {canResume && (
+                      <button type="button" className="btn-primary" onClick={() => handleResume(result.batch.id, true)} disabled={loading}>
+                        Retry Failed Rows
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {undeliveredRows.length > 0 && (
+                <div className="user-import-actions user-import-reissue">
+                  <span className="user-import-help">
+                    {undeliveredRows.length} created account(s) never received their credentials. Reissuing gives them a new temporary password and PIN.
+                  </span>
+                  {canResume && (
+                    <button type="button" className="btn-primary" onClick={() => handleResume(result.batch.id, false)} disabled={loading}>
+                      Reissue Credentials
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {imports.length > 0 && (
+            <div className="form-group">
+              <label>Recent imports</label>
+              <ul className="user-import-history">
+                {imports.map((batch) => (
+                  <li key={batch.id}>
+                    <span>
+                      {batch.file_name || 'Import'} · {formatDate(batch.created_at)} · {batch.created_count}/{batch.total_rows} created
+                      {batch.failed_count > 0 && ` · ${batch.failed_count} failed`}
+                    </span>
+                    <button type="button" className="user-import-link" onClick={() => handleViewReport(batch.id)}>
+                      View
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={handleClose} disabled={loading} className="btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
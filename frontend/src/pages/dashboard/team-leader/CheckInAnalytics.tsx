@@ -3,6 +3,7 @@ import { useAuth } from '../../../contexts/AuthContext'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { QUESTION_TYPE_LABELS, formatBodyRegion, type CustomQuestionSummary } from '../../../utils/checkInQuestions'
 import {
   LineChart,
   Line,
@@ -32,6 +33,7 @@ interface AnalyticsData {
     date: string
     completed: number
     pending: number
+    missed?: number
     green: number
     amber: number
     red: number
@@ -42,6 +44,8 @@ interface AnalyticsData {
     email: string
     totalCheckIns: number
     completionRate: number
+    missedCount?: number
+    lateCheckIns?: number
     greenCount: number
     amberCount: number
     redCount: number
@@ -54,6 +58,29 @@ interface AnalyticsData {
     amber: number
     red: number
   }>
+  customQuestions?: CustomQuestionSummary[]
+}
+
+// One-line summary of the answers to a custom question
+const summarizeCustomQuestion = (question: CustomQuestionSummary): string => {
+  if (question.responseCount === 0) return 'No answers in this period'
+  switch (question.type) {
+    case 'boolean':
+      return `${question.yesRate}% yes (${question.yesCount} of ${question.responseCount})`
+    case 'scale':
+    case 'number':
+      return `Average ${question.average} (range ${question.min}-${question.max})`
+    case 'single_choice':
+    case 'multi_choice':
+    case 'body_map':
+      return Object.entries(question.counts || {})
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([value, count]) => `${question.type === 'body_map' ? formatBodyRegion(value) : value} (${count})`)
+        .join(', ') || 'None selected'
+    default:
+      return `${question.responseCount} written answers`
+  }
 }
 
 const COLORS = {
@@ -279,7 +306,7 @@ export function CheckInAnalytics() {
   }, [])
 
   const lineChartFormatter = useCallback((value: any, name: string) => {
-    const displayName = name === 'completed' ? 'Completed' : 'Pending'
+    const displayName = name === 'completed' ? 'Completed' : name === 'missed' ? 'Missed' : 'Pending'
     return [value, displayName]
   }, [])
 
@@ -511,7 +538,7 @@ export function CheckInAnalytics() {
                 <div className="chart-header">
                   <div>
                     <h3 className="chart-title">Daily Completion Trend</h3>
-                    <span className="chart-subtitle">Shows completed vs pending check-ins each day (max 30 days shown)</span>
+                    <span className="chart-subtitle">Shows completed, pending and missed check-ins each day (max 30 days shown)</span>
                   </div>
                 </div>
                 <ResponsiveContainer width="100%" height={320} debounce={100}>
@@ -560,7 +587,7 @@ export function CheckInAnalytics() {
                       wrapperStyle={{ paddingTop: '20px' }}
                       iconType="line"
                       formatter={(value: string) => {
-                        return value === 'completed' ? 'Completed' : 'Pending'
+                        return value === 'completed' ? 'Completed' : value === 'missed' ? 'Missed' : 'Pending'
                       }}
                     />
                     <Line
@@ -582,6 +609,15 @@ export function CheckInAnalytics() {
                       dot={false}
                       activeDot={{ r: 6, fill: COLORS.pending, strokeWidth: 2, stroke: 'white' }}
                     />
+                    <Line
+                      type="monotone"
+                      dataKey="missed"
+                      stroke={COLORS.red}
+                      strokeWidth={2}
+                      name="missed"
+                      dot={false}
+                      activeDot={{ r: 6, fill: COLORS.red, strokeWidth: 2, stroke: 'white' }}
+                    />
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -762,6 +798,7 @@ export function CheckInAnalytics() {
                   <div className="table-col-name">Worker</div>
                   <div className="table-col-stat">Check-Ins</div>
                   <div className="table-col-stat">Completion</div>
+                  <div className="table-col-stat">Missed</div>
                   <div className="table-col-stat">Green</div>
                   <div className="table-col-stat">Amber</div>
                   <div className="table-col-stat">Red</div>
@@ -773,6 +810,9 @@ export function CheckInAnalytics() {
                         <div className="table-col-name">{worker.name}</div>
                         <div className="table-col-stat">{worker.totalCheckIns}</div>
                         <div className="table-col-stat">{worker.completionRate}%</div>
+                        <div className="table-col-stat" title={worker.lateCheckIns ? `${worker.lateCheckIns} checked in late` : undefined}>
+                          {worker.missedCount || 0}
+                        </div>
                         <div className="table-col-stat">{worker.greenCount}</div>
                         <div className="table-col-stat">{worker.amberCount}</div>
                         <div className="table-col-stat">{worker.redCount}</div>
@@ -788,6 +828,39 @@ export function CheckInAnalytics() {
                 </div>
               </div>
             </div>
+
+            {/* Custom Check-in Questions */}
+            {analyticsData.customQuestions && analyticsData.customQuestions.length > 0 && (
+              <div className="analytics-table-card">
+                <div className="chart-header">
+                  <div>
+                    <h3 className="chart-title">Custom Questions</h3>
+                    <span className="chart-subtitle">Answers to your team's extra check-in questions in this period</span>
+                  </div>
+                </div>
+                <div className="worker-performance-table custom-questions-table">
+                  <div className="table-header">
+                    <div className="table-col-name">Question</div>
+                    <div className="table-col-stat">Type</div>
+                    <div className="table-col-stat">Answers</div>
+                    <div className="table-col-summary">Summary</div>
+                  </div>
+                  <div className="table-body">
+                    {analyticsData.customQuestions.map((question) => (
+                      <div key={question.questionId} className="table-row">
+                        <div className="table-col-name">
+                          {question.label}
+                          {!question.isActive && <span className="custom-question-inactive"> (inactive)</span>}
+                        </div>
+                        <div className="table-col-stat">{QUESTION_TYPE_LABELS[question.type]}</div>
+                        <div className="table-col-stat">{question.responseCount}</div>
+                        <div className="table-col-summary">{summarizeCustomQuestion(question)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
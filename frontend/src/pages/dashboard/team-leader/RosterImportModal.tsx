@@ -0,0 +1,301 @@
+import { useState } from 'react'
+import * as XLSX from 'xlsx'
+import { API_BASE_URL } from '../../../config/api'
+
+interface RosterRow {
+  row: number
+  worker_name: string
+  scheduled_date: string
+  start_time: string
+  end_time: string
+  starts_next_day: boolean
+}
+
+interface RosterUpdate extends RosterRow {
+  id: string
+  changes: Record<string, { from: unknown; to: unknown }>
+}
+
+interface RosterConflict {
+  row: number
+  worker: string
+  date: string | null
+  reason: string
+}
+
+interface RosterImportPlan {
+  creates: RosterRow[]
+  updates: RosterUpdate[]
+  unchanged: RosterRow[]
+  conflicts: RosterConflict[]
+  summary: { rows: number; creates: number; updates: number; unchanged: number; conflicts: number }
+}
+
+interface RosterImportModalProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+const PREVIEW_LIMIT = 50
+
+const TEMPLATE_CSV = [
+  'email,employee_id,date,start_time,end_time,starts_next_day,requires_daily_checkin,daily_checkin_start_time,daily_checkin_end_time,notes',
+  'jane.smith@example.com,,2026-11-02,06:00,14:30,,yes,05:30,06:30,',
+  ',EMP1042,2026-11-02,22:00,06:00,,,,,Night crew',
+].join('\n')
+
+// Spreadsheet cells -> text the import endpoint understands (dates YYYY-MM-DD, times HH:MM)
+const cellToText = (value: unknown): string => {
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0')
+    // Time-only cells are dates on 1899-12-30
+    if (value.getFullYear() < 1901) {
+      return `${pad(value.getHours())}:${pad(value.getMinutes())}`
+    }
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  }
+  return value === null || value === undefined ? '' : String(value)
+}
+
+// CSV is sent as text (parsed by the backend); XLSX is converted to rows here
+const readRosterFile = async (file: File): Promise<{ csv: string } | { rows: Record<string, string>[] }> => {
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    return { csv: await file.text() }
+  }
+
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) {
+    throw new Error('The spreadsheet has no sheets')
+  }
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { raw: true, defval: '' })
+  return {
+    rows: rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, cellToText(value)]))),
+  }
+}
+
+const formatTimes = (row: RosterRow): string => {
+  const overnight = row.end_time <= row.start_time ? ' (overnight)' : ''
+  return `${row.start_time}-${row.end_time}${row.starts_next_day ? ' (next day)' : overnight}`
+}
+
+export function RosterImportModal({ onClose, onImported }: RosterImportModalProps) {
+  const [fileName, setFileName] = useState('')
+  const [roster, setRoster] = useState<{ csv: string } | { rows: Record<string, string>[] } | null>(null)
+  const [plan, setPlan] = useState<RosterImportPlan | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const postImport = async (body: object, dryRun: boolean) => {
+    const response = await fetch(`${API_BASE_URL}/api/schedules/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ ...body, dryRun }),
+    })
+    const result = await response.json()
+    // A rejected import still returns the diff (conflicts)
+    if (result.summary && result.conflicts) {
+      setPlan(result)
+    }
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to import roster')
+    }
+    return result
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow choosing the same file again after editing it
+    if (!file) return
+
+    setFileName(file.name)
+    setPlan(null)
+    setRoster(null)
+    setError('')
+    setLoading(true)
+    try {
+      const body = await readRosterFile(file)
+      setRoster(body)
+      await postImport(body, true)
+    } catch (err) {
+      console.error('Error checking roster:', err)
+      setError(err instanceof Error ? err.message : 'Failed to read roster')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!roster) return
+    setLoading(true)
+    setError('')
+    try {
+      const result = await postImport(roster, false)
+      alert(result.message || 'Roster imported')
+      onImported()
+      onClose()
+    } catch (err) {
+      console.error('Error importing roster:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import roster')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDownloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'roster-template.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const changeCount = plan ? plan.summary.creates + plan.summary.updates : 0
+
+  return (
+    <div className="modal-overlay" onClick={() => !loading && onClose()}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div>
+            <h2>Import Roster</h2>
+            <p className="modal-subtitle">CSV or Excel - one row per shift, workers matched by email or employee ID</p>
+          </div>
+          <button className="modal-close" onClick={onClose} disabled={loading}>
+            ×
+          </button>
+        </div>
+
+        <div className="schedule-form">
+          <div className="form-group">
+            <label>Roster file</label>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={loading}
+              className="form-input"
+            />
+            <small className="field-help">
+              Columns: email or employee_id, date (YYYY-MM-DD or DD/MM/YYYY), start_time, end_time. Optional: starts_next_day,
+              requires_daily_checkin, daily_checkin_start_time, daily_checkin_end_time, check_in_window_start, check_in_window_end, notes.
+              A row with the same worker, date and start time as an existing schedule updates it.{' '}
+              <button type="button" className="btn-text-small" onClick={handleDownloadTemplate}>
+                Download template
+              </button>
+            </small>
+          </div>
+
+          {loading && <p className="field-help">{plan ? 'Importing...' : `Checking ${fileName}...`}</p>}
+
+          {plan && (
+            <>
+              <div className="form-group">
+                <label>Preview ({fileName})</label>
+                <div className="selected-workers-tags">
+                  <span className="worker-tag">{plan.summary.creates} new</span>
+                  <span className="worker-tag">{plan.summary.updates} updated</span>
+                  <span className="worker-tag">{plan.summary.unchanged} unchanged</span>
+                  <span className="worker-tag">{plan.summary.conflicts} conflict(s)</span>
+                </div>
+              </div>
+
+              {plan.conflicts.length > 0 && (
+                <div className="form-group">
+                  <label>Conflicts - fix these in the file and upload it again</label>
+                  <table className="schedules-table">
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>Worker</th>
+                        <th>Date</th>
+                        <th>Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.conflicts.slice(0, PREVIEW_LIMIT).map((conflict) => (
+                        <tr key={`${conflict.row}-${conflict.reason}`}>
+                          <td>{conflict.row}</td>
+                          <td>{conflict.worker}</td>
+                          <td>{conflict.date || '—'}</td>
+                          <td>{conflict.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {changeCount > 0 && (
+                <div className="form-group">
+                  <label>Changes</label>
+                  <table className="schedules-table">
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>Worker</th>
+                        <th>Date</th>
+                        <th>Shift</th>
+                        <th>Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.creates.slice(0, PREVIEW_LIMIT).map((row) => (
+                        <tr key={`create-${row.row}`}>
+                          <td>{row.row}</td>
+                          <td>{row.worker_name}</td>
+                          <td>{row.scheduled_date}</td>
+                          <td>{formatTimes(row)}</td>
+                          <td>New schedule</td>
+                        </tr>
+                      ))}
+                      {plan.updates.slice(0, PREVIEW_LIMIT).map((row) => (
+                        <tr key={`update-${row.row}`}>
+                          <td>{row.row}</td>
+                          <td>{row.worker_name}</td>
+                          <td>{row.scheduled_date}</td>
+                          <td>{formatTimes(row)}</td>
+                          <td>
+                            {Object.entries(row.changes).map(([field, change]) => (
+                              <div key={field}>
+                                {field.replace(/_/g, ' ')}: {String(change.from ?? '—')} → {String(change.to ?? '—')}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {(plan.creates.length > PREVIEW_LIMIT || plan.updates.length > PREVIEW_LIMIT) && (
+                    <small className="field-help">Showing the first {PREVIEW_LIMIT} new and updated schedules</small>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <div className="form-error">{error}</div>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={loading}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleImport}
+              disabled={loading || !plan || plan.conflicts.length > 0 || changeCount === 0}
+            >
+              {plan && plan.conflicts.length === 0 && changeCount > 0
+                ? `Import ${changeCount} schedule(s)`
+                : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useAuth } from '../../../contexts/AuthContext'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from '../../../utils/timezones'
 import './TeamLeaderDashboard.css'
 
 interface TeamMember {
@@ -25,6 +26,7 @@ interface Team {
   id: string
   name: string
   site_location?: string
+  timezone?: string | null
   team_leader_id: string
 }
 
@@ -75,6 +77,7 @@ export function TeamLeaderDashboard() {
   const [teamSetupData, setTeamSetupData] = useState({
     name: '',
     site_location: '',
+    timezone: DEFAULT_TIMEZONE,
   })
   
   const [exceptionForm, setExceptionForm] = useState({
@@ -321,7 +324,7 @@ export function TeamLeaderDashboard() {
       }
 
       setShowTeamSetupModal(false)
-      setTeamSetupData({ name: '', site_location: '' })
+      setTeamSetupData({ name: '', site_location: '', timezone: DEFAULT_TIMEZONE })
       await fetchTeamData()
     } catch (err: any) {
       setError(err.message || 'Failed to setup team')
@@ -764,6 +767,17 @@ export function TeamLeaderDashboard() {
                       placeholder="e.g., Pilbara Site A"
                     />
                   </div>
+                  <div className="form-group">
+                    <label>Site Timezone</label>
+                    <select
+                      value={teamSetupData.timezone}
+                      onChange={(e) => setTeamSetupData({ ...teamSetupData, timezone: e.target.value })}
+                    >
+                      {TIMEZONE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="form-actions">
                     <button type="submit" className="submit-btn">
                       Create Team
@@ -1165,6 +1179,17 @@ export function TeamLeaderDashboard() {
                   placeholder="e.g., Pilbara Site A"
                 />
               </div>
+              <div className="form-group">
+                <label>Site Timezone</label>
+                <select
+                  value={teamSetupData.timezone}
+                  onChange={(e) => setTeamSetupData({ ...teamSetupData, timezone: e.target.value })}
+                >
+                  {TIMEZONE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
               <div className="form-actions">
                 <button type="submit" className="submit-btn">
                   Create Team
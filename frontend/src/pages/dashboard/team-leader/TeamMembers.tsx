@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { getTimezoneLabel } from '../../../utils/timezones'
+import { CheckInQuestionsModal } from '../../../components/CheckInQuestionsModal'
 import './TeamMembers.css'
 
 interface TeamMember {
@@ -26,6 +28,7 @@ interface TeamData {
   id: string
   name: string
   site_location: string | null
+  timezone?: string | null
   team_leader_id: string
   supervisor_id: string | null
 }
@@ -45,6 +48,7 @@ export function TeamMembers() {
   const [showViewModal, setShowViewModal] = useState(false)
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteModal, setShowDeleteModal] = useState(false)
+  const [showQuestionsModal, setShowQuestionsModal] = useState(false)
   const [deleting, setDeleting] = useState(false)
   const [updating, setUpdating] = useState(false)
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null)
@@ -332,6 +336,9 @@ export function TeamMembers() {
               {team ? `Manage members of ${team.name}` : 'View and manage your team members'}
             </p>
           </div>
+          <button className="team-members-questions-btn" onClick={() => setShowQuestionsModal(true)}>
+            Check-in Questions
+          </button>
         </div>
 
         {/* Toolbar */}
@@ -604,6 +611,10 @@ export function TeamMembers() {
                       <span className="team-members-detail-label">Site Location:</span>
                       <span className="team-members-detail-value">{team?.site_location || 'N/A'}</span>
                     </div>
+                    <div className="team-members-detail-item">
+                      <span className="team-members-detail-label">Site Timezone:</span>
+                      <span className="team-members-detail-value">{getTimezoneLabel(team?.timezone)}</span>
+                    </div>
                     <div className="team-members-detail-item">
                       <span className="team-members-detail-label">Member ID:</span>
                       <span className="team-members-detail-value">{selectedMember.user_id}</span>
@@ -793,6 +804,11 @@ export function TeamMembers() {
             </div>
           </div>
         )}
+
+        {/* Check-in Questions Modal */}
+        {showQuestionsModal && (
+          <CheckInQuestionsModal teamName={team?.name} onClose={() => setShowQuestionsModal(false)} />
+        )}
       </div>
     </DashboardLayout>
   )
@@ -2,6 +2,7 @@ import { useState, useEffect, Fragment } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { RosterImportModal } from './RosterImportModal'
 import './WorkerSchedules.css'
 
 interface Worker {
@@ -17,10 +18,13 @@ interface WorkerSchedule {
   worker_id: string
   scheduled_date?: string | null // NULL for recurring schedules
   day_of_week?: number | null // 0-6 for recurring schedules, NULL for single-date
+  recurrence_rule?: string | null // iCalendar RRULE (e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO) - starts on effective_date
+  exclusion_dates?: string[] | null // Dates a recurring schedule skips
   effective_date?: string | null // Start date for recurring schedules
   expiry_date?: string | null // End date for recurring schedules
   start_time: string
-  end_time: string
+  end_time: string // At or before start_time = overnight shift (ends the next day)
+  starts_next_day?: boolean // Segment starts after midnight of the shift date (split night shift)
   check_in_window_start?: string
   check_in_window_end?: string
   requires_daily_checkin?: boolean
@@ -33,6 +37,24 @@ interface WorkerSchedule {
   users?: Worker
 }
 
+// Extra segment of a split shift (the first segment is start_time/end_time)
+interface ShiftSegment {
+  start_time: string
+  end_time: string
+  starts_next_day: boolean
+}
+
+// How a recurring schedule repeats - everything except 'weekly' is sent as an RRULE
+type RepeatMode = 'weekly' | 'fortnightly' | 'four_on_four_off' | 'custom'
+
+interface SiteHoliday {
+  id: string
+  holiday_date: string
+  name: string
+}
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
 interface WorkerException {
   id: string
   user_id: string
@@ -49,10 +71,14 @@ export function WorkerSchedules() {
   const [exceptions, setExceptions] = useState<WorkerException[]>([]) // Track active exceptions
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [editingSchedule, setEditingSchedule] = useState<WorkerSchedule | null>(null)
   const [error, setError] = useState('')
   const [creating, setCreating] = useState(false)
-  const [activeTab, setActiveTab] = useState<'workers' | 'schedules'>('workers')
+  const [activeTab, setActiveTab] = useState<'workers' | 'schedules' | 'holidays'>('workers')
+  const [holidays, setHolidays] = useState<SiteHoliday[]>([])
+  const [holidayForm, setHolidayForm] = useState({ date: '', name: '' })
+  const [savingHolidays, setSavingHolidays] = useState(false)
   const today = new Date().toISOString().split('T')[0]
   
   const [useRange, setUseRange] = useState(false) // Toggle between single date and date range
@@ -67,6 +93,11 @@ export function WorkerSchedules() {
     days_of_week: [] as number[],
     start_time: '08:00',
     end_time: '17:00',
+    starts_next_day: false,
+    extra_segments: [] as ShiftSegment[],
+    repeat: 'weekly' as RepeatMode,
+    recurrence_rule: '',
+    exclusion_dates: '',
     check_in_window_start: '',
     check_in_window_end: '',
     requires_daily_checkin: false,
@@ -104,6 +135,7 @@ export function WorkerSchedules() {
     loadWorkers()
     loadSchedules()
     loadExceptions()
+    loadHolidays()
   }, [])
 
   const loadExceptions = async () => {
@@ -121,6 +153,75 @@ export function WorkerSchedules() {
     }
   }
 
+  const loadHolidays = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/schedules/holidays`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch holidays')
+      const data = await response.json()
+      setHolidays(data.holidays || [])
+    } catch (error) {
+      console.error('Error loading holidays:', error)
+      // Don't fail if holidays fail to load
+    }
+  }
+
+  // Save holidays - either { date, name } / { holidays } entries or an iCalendar file's text ({ ics })
+  const saveHolidays = async (body: Record<string, unknown>) => {
+    setSavingHolidays(true)
+    setError('')
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/schedules/holidays`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save holidays')
+      }
+      alert(result.message || 'Holidays saved')
+      setHolidayForm({ date: '', name: '' })
+      loadHolidays()
+    } catch (error) {
+      console.error('Error saving holidays:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save holidays')
+    } finally {
+      setSavingHolidays(false)
+    }
+  }
+
+  const handleImportHolidays = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow importing the same file again
+    if (!file) return
+    await saveHolidays({ ics: await file.text() })
+  }
+
+  const handleDeleteHoliday = async (holiday: SiteHoliday) => {
+    if (!confirm(`Remove ${holiday.name} (${holiday.holiday_date})? Check-ins will be required again on that date.`)) {
+      return
+    }
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/schedules/holidays/${holiday.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to remove holiday')
+      }
+      loadHolidays()
+    } catch (error) {
+      console.error('Error removing holiday:', error)
+      setError(error instanceof Error ? error.message : 'Failed to remove holiday')
+    }
+  }
+
   // Helper function to check if worker has active exception
   const hasActiveException = (workerId: string, scheduleDate?: string | null): boolean => {
     const activeException = exceptions.find(exc => exc.user_id === workerId && exc.is_active)
@@ -224,6 +325,11 @@ export function WorkerSchedules() {
       days_of_week: [],
       start_time: '08:00',
       end_time: '17:00',
+      starts_next_day: false,
+      extra_segments: [],
+      repeat: 'weekly',
+      recurrence_rule: '',
+      exclusion_dates: '',
       check_in_window_start: '',
       check_in_window_end: '',
       requires_daily_checkin: false,
@@ -261,8 +367,9 @@ export function WorkerSchedules() {
     
     // Check if this is a recurring schedule (has day_of_week) or single-date schedule
     const isRecurring = schedule.day_of_week !== null && schedule.day_of_week !== undefined
+    const isRule = !!schedule.recurrence_rule
     
-    setUseRange(isRecurring) // Set to true if recurring, false if single-date
+    setUseRange(isRecurring || isRule) // Set to true if recurring, false if single-date
     setSelectedDays(isRecurring ? [schedule.day_of_week!] : [])
     
     setFormData({
@@ -273,6 +380,11 @@ export function WorkerSchedules() {
       days_of_week: isRecurring ? [schedule.day_of_week!] : [],
       start_time: schedule.start_time,
       end_time: schedule.end_time,
+      starts_next_day: schedule.starts_next_day || false,
+      extra_segments: [],
+      repeat: isRule ? 'custom' : 'weekly',
+      recurrence_rule: schedule.recurrence_rule || '',
+      exclusion_dates: (schedule.exclusion_dates || []).join(', '),
       check_in_window_start: schedule.check_in_window_start || '',
       check_in_window_end: schedule.check_in_window_end || '',
       requires_daily_checkin: schedule.requires_daily_checkin || false,
@@ -342,6 +454,46 @@ export function WorkerSchedules() {
     return timeStr.split(':').slice(0, 2).join(':')
     }
 
+  // Helper function to check if a shift runs past midnight (end at or before start)
+  const isOvernight = (startTime: string, endTime: string): boolean => {
+    return !!startTime && !!endTime && normalizeTime(endTime) <= normalizeTime(startTime)
+  }
+
+  // Helper function to get a segment's hours as minutes from midnight of the shift date
+  const getSegmentRange = (segment: ShiftSegment): { start: number; end: number } => {
+    const toMinutes = (timeStr: string) => {
+      const [hours, minutes] = timeStr.split(':').map(Number)
+      return hours * 60 + minutes
+    }
+    const dayOffset = segment.starts_next_day ? 24 * 60 : 0
+    const start = toMinutes(segment.start_time) + dayOffset
+    let end = toMinutes(segment.end_time) + dayOffset
+    if (end <= start) end += 24 * 60
+    return { start, end }
+  }
+
+  // Helper function to validate shift segments (no zero-length or overlapping segments)
+  const validateSegments = (segments: ShiftSegment[]): string | null => {
+    if (segments.some(segment => !segment.start_time || !segment.end_time)) {
+      return 'Please fill in the start and end time of every shift segment'
+    }
+    if (segments.some(segment => normalizeTime(segment.start_time) === normalizeTime(segment.end_time))) {
+      return 'Shift start and end time cannot be the same'
+    }
+    const ranges = segments.map(getSegmentRange)
+    const overlaps = ranges.some((range, index) =>
+      ranges.slice(index + 1).some(other => range.start < other.end && other.start < range.end)
+    )
+    return overlaps ? 'Shift segments cannot overlap' : null
+  }
+
+  const updateExtraSegment = (index: number, changes: Partial<ShiftSegment>) => {
+    setFormData({
+      ...formData,
+      extra_segments: formData.extra_segments.map((segment, i) => i === index ? { ...segment, ...changes } : segment),
+    })
+  }
+
   // Helper function to add one hour to a time string (HH:MM format)
   const addOneHour = (timeStr: string): string => {
     const [hours, minutes] = timeStr.split(':').map(Number)
@@ -349,6 +501,74 @@ export function WorkerSchedules() {
     return `${newHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
   }
 
+  // Exclusion dates typed as a comma/space separated list (null if any entry isn't YYYY-MM-DD)
+  const parseExclusionDates = (text: string): string[] | null => {
+    const dates = text.split(/[\s,]+/).filter(Boolean)
+    return dates.every(date => /^\d{4}-\d{2}-\d{2}$/.test(date)) ? dates : null
+  }
+
+  // Recurrence rules to create for the selected repeat mode (start_date is each rule's DTSTART)
+  // 4-on-4-off is four rules repeating every 8 days from four consecutive start dates
+  const buildRecurrenceRules = (): Array<{ recurrence_rule: string; start_date: string }> => {
+    if (formData.repeat === 'fortnightly') {
+      const byDay = [...selectedDays].sort().map(day => RRULE_WEEKDAYS[day]).join(',')
+      return [{ recurrence_rule: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${byDay}`, start_date: formData.start_date }]
+    }
+    if (formData.repeat === 'four_on_four_off') {
+      return [0, 1, 2, 3].map(offset => {
+        const date = new Date(`${formData.start_date}T00:00:00Z`)
+        date.setUTCDate(date.getUTCDate() + offset)
+        return { recurrence_rule: 'FREQ=DAILY;INTERVAL=8', start_date: date.toISOString().split('T')[0] }
+      })
+    }
+    return [{ recurrence_rule: formData.recurrence_rule.trim(), start_date: formData.start_date }]
+  }
+
+  // Readable summary of an RRULE (falls back to the rule itself)
+  const describeRecurrenceRule = (rule: string): string => {
+    const parts = new Map(rule.split(';').map(part => part.split('=') as [string, string]))
+    const interval = Number(parts.get('INTERVAL') || 1)
+    const days = (parts.get('BYDAY') || '').split(',').filter(Boolean).map(code => {
+      const match = code.match(/^(-?\d+)?([A-Z]{2})$/)
+      const day = DAYS_OF_WEEK[RRULE_WEEKDAYS.indexOf(match?.[2] || '')]
+      if (!match || !day) return code
+      if (!match[1]) return day.short
+      const ordinal = Number(match[1])
+      return `${ordinal === -1 ? 'last' : ['1st', '2nd', '3rd', '4th', '5th'][ordinal - 1] || `${ordinal}th`} ${day.short}`
+    })
+    const onDays = days.length > 0 ? ` on ${days.join(', ')}` : ''
+
+    switch (parts.get('FREQ')) {
+      case 'DAILY':
+        return interval === 1 ? 'Every day' : `Every ${interval} days`
+      case 'WEEKLY':
+        return (interval === 1 ? 'Every week' : `Every ${interval} weeks`) + onDays
+      case 'MONTHLY':
+        return (interval === 1 ? 'Every month' : `Every ${interval} months`) +
+          (onDays || (parts.get('BYMONTHDAY') ? ` on day ${parts.get('BYMONTHDAY')}` : ''))
+      default:
+        return rule
+    }
+  }
+
+  // Copy a recurring schedule as iCalendar lines (DTSTART, RRULE, EXDATE) for other calendars
+  const handleExportRecurrence = async (schedule: WorkerSchedule) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/schedules/workers/${schedule.id}/recurrence`, {
+        credentials: 'include',
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to export recurrence')
+      }
+      await navigator.clipboard.writeText(result.recurrence)
+      alert(`Recurrence copied to clipboard:\n\n${result.recurrence}`)
+    } catch (error) {
+      console.error('Error exporting recurrence:', error)
+      alert(error instanceof Error ? error.message : 'Failed to export recurrence')
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -364,7 +584,12 @@ export function WorkerSchedules() {
       const isRecurringSchedule = editingSchedule?.day_of_week !== null && editingSchedule?.day_of_week !== undefined
       const isRecurringMode = useRange && selectedDays.length > 0
       
-      if (isRecurringSchedule || isRecurringMode) {
+      if (editingSchedule.recurrence_rule) {
+        if (!formData.start_date || !formData.recurrence_rule.trim()) {
+          setError('Start date and recurrence rule are required')
+          return
+        }
+      } else if (isRecurringSchedule || isRecurringMode) {
         // Recurring schedule: need start_date and at least one day selected
         if (!formData.start_date) {
           setError('Start date is required for recurring schedules')
@@ -387,16 +612,27 @@ export function WorkerSchedules() {
         setError('Daily check-in start and end times are required when daily check-in is enabled')
         return
       }
+
+      const exclusionDates = parseExclusionDates(formData.exclusion_dates)
+      if (!exclusionDates) {
+        setError('Skipped dates must be in YYYY-MM-DD format, separated by commas')
+        return
+      }
+      
+      const segmentError = validateSegments([{
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        starts_next_day: formData.starts_next_day,
+      }])
+      if (segmentError) {
+        setError(segmentError)
+        return
+      }
       
-      // Validate that daily check-in end time is after start time
+      // Validate daily check-in window (an end time before the start time runs past midnight)
       if (formData.requires_daily_checkin && formData.daily_checkin_start_time && formData.daily_checkin_end_time) {
-        const [startH, startM] = formData.daily_checkin_start_time.split(':').map(Number)
-        const [endH, endM] = formData.daily_checkin_end_time.split(':').map(Number)
-        const startMinutes = startH * 60 + startM
-        const endMinutes = endH * 60 + endM
-        
-        if (endMinutes <= startMinutes) {
-          setError('Daily check-in end time must be after start time. Please use 24-hour format (e.g., 08:00, 09:00, not 08:00 am)')
+        if (normalizeTime(formData.daily_checkin_end_time) === normalizeTime(formData.daily_checkin_start_time)) {
+          setError('Daily check-in start and end time cannot be the same. Please use 24-hour format (e.g., 08:00, 09:00, not 08:00 am)')
           return
         }
       }
@@ -407,6 +643,7 @@ export function WorkerSchedules() {
         const updateData: any = {
           start_time: normalizeTime(formData.start_time),
           end_time: normalizeTime(formData.end_time),
+          starts_next_day: formData.starts_next_day,
           check_in_window_start: normalizeTime(formData.check_in_window_start) || null,
           check_in_window_end: normalizeTime(formData.check_in_window_end) || null,
           requires_daily_checkin: formData.requires_daily_checkin,
@@ -422,8 +659,16 @@ export function WorkerSchedules() {
         const isRecurringEdit = editingSchedule?.day_of_week !== null && editingSchedule?.day_of_week !== undefined
         const isRecurringMode = useRange && selectedDays.length > 0
         
-        // Always ensure day_of_week is sent when editing recurring schedule
-        if (isRecurringEdit || isRecurringMode) {
+        if (editingSchedule.recurrence_rule) {
+          // Editing a recurrence rule schedule - rule, start (DTSTART), end and skipped dates
+          updateData.recurrence_rule = formData.recurrence_rule.trim()
+          updateData.scheduled_date = null
+          updateData.day_of_week = null
+          updateData.effective_date = formData.start_date
+          updateData.expiry_date = formData.end_date || null
+          updateData.exclusion_dates = exclusionDates
+        } else if (isRecurringEdit || isRecurringMode) {
+          // Always ensure day_of_week is sent when editing recurring schedule
           // Editing as recurring schedule - allow changing day_of_week
           // If user selected new days, use those; otherwise keep existing
           const newDayOfWeek = selectedDays.length > 0 ? selectedDays[0] : editingSchedule?.day_of_week
@@ -434,6 +679,7 @@ export function WorkerSchedules() {
           updateData.scheduled_date = null
           updateData.effective_date = formData.start_date || null
           updateData.expiry_date = formData.end_date || null
+          updateData.exclusion_dates = exclusionDates
         } else if (editingSchedule && editingSchedule.scheduled_date) {
           // Editing as single-date schedule
           updateData.scheduled_date = formData.scheduled_date
@@ -486,20 +732,51 @@ export function WorkerSchedules() {
         return
       }
 
-      if (useRange && (!formData.start_date || !formData.end_date || selectedDays.length === 0)) {
+      if (useRange && formData.repeat === 'weekly' && (!formData.start_date || !formData.end_date || selectedDays.length === 0)) {
         setError('Please select start date, end date, and at least one day of the week')
         return
       }
 
+      if (useRange && formData.repeat !== 'weekly') {
+        if (!formData.start_date) {
+          setError('Please select a start date')
+          return
+        }
+        if (formData.repeat === 'fortnightly' && selectedDays.length === 0) {
+          setError('Please select at least one day of the week')
+          return
+        }
+        if (formData.repeat === 'custom' && !formData.recurrence_rule.trim()) {
+          setError('Please enter a recurrence rule (e.g. FREQ=MONTHLY;BYDAY=2MO)')
+          return
+        }
+      }
+
+      const exclusionDates = parseExclusionDates(formData.exclusion_dates)
+      if (!exclusionDates) {
+        setError('Skipped dates must be in YYYY-MM-DD format, separated by commas')
+        return
+      }
+
       if (formData.requires_daily_checkin && (!formData.daily_checkin_start_time || !formData.daily_checkin_end_time)) {
         setError('Daily check-in start and end times are required when daily check-in is enabled')
         return
       }
 
-      // Validate that daily check-in end time is after start time
+      const segments: ShiftSegment[] = [
+        { start_time: formData.start_time, end_time: formData.end_time, starts_next_day: formData.starts_next_day },
+        ...formData.extra_segments,
+      ]
+      const segmentError = validateSegments(segments)
+      if (segmentError) {
+        setError(segmentError)
+        return
+      }
+
+      // Validate daily check-in window (an end time before the start time runs past midnight)
       if (formData.requires_daily_checkin && formData.daily_checkin_start_time && formData.daily_checkin_end_time) {
-        if (formData.daily_checkin_end_time <= formData.daily_checkin_start_time) {
-          setError('Daily check-in end time must be after start time. Please use 24-hour format (e.g., 08:00, 09:00, not 08:00 am)')
+        if (formData.daily_checkin_end_time === formData.daily_checkin_start_time) {
+          setError('Daily check-in start and end time cannot be the same. Please use 24-hour format (e.g., 08:00, 09:00, not 08:00 am)')
           return
         }
       }
@@ -519,6 +796,7 @@ export function WorkerSchedules() {
               worker_id: workerId,
               start_time: normalizeTime(formData.start_time),
               end_time: normalizeTime(formData.end_time),
+              starts_next_day: formData.starts_next_day,
               check_in_window_start: normalizeTime(formData.check_in_window_start) || null,
               check_in_window_end: normalizeTime(formData.check_in_window_end) || null,
               requires_daily_checkin: formData.requires_daily_checkin,
@@ -529,33 +807,54 @@ export function WorkerSchedules() {
               is_active: formData.is_active,
             }
 
-            // Add date selection based on mode
-            if (useRange) {
-              scheduleData.start_date = formData.start_date
-              scheduleData.end_date = formData.end_date
-              scheduleData.days_of_week = selectedDays
-            } else {
-              scheduleData.scheduled_date = formData.scheduled_date
+            // Split shift - send every segment (one schedule row per segment and day)
+            if (formData.extra_segments.length > 0) {
+              scheduleData.segments = segments.map(segment => ({
+                start_time: normalizeTime(segment.start_time),
+                end_time: normalizeTime(segment.end_time),
+                starts_next_day: segment.starts_next_day,
+              }))
             }
 
-            const response = await fetch(`${API_BASE_URL}/api/schedules/workers`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              credentials: 'include',
-              body: JSON.stringify(scheduleData),
-            })
-
-            if (!response.ok) {
-              const errorData = await response.json()
-              throw new Error(errorData.error || 'Failed to create schedule')
+            // Add date selection based on mode (a recurrence rule preset can need several rules)
+            const dateSelections: Array<Record<string, unknown>> = []
+            if (useRange && formData.repeat === 'weekly') {
+              dateSelections.push({
+                start_date: formData.start_date,
+                end_date: formData.end_date,
+                days_of_week: selectedDays,
+                exclusion_dates: exclusionDates,
+              })
+            } else if (useRange) {
+              buildRecurrenceRules().forEach(rule => dateSelections.push({
+                ...rule,
+                end_date: formData.end_date || undefined,
+                exclusion_dates: exclusionDates,
+              }))
+            } else {
+              dateSelections.push({ scheduled_date: formData.scheduled_date })
             }
 
-            const result = await response.json()
-            // If bulk creation, count the number of schedules created
-            const createdCount = result.count || 1
-            successCount += createdCount
+            for (const dateSelection of dateSelections) {
+              const response = await fetch(`${API_BASE_URL}/api/schedules/workers`, {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                credentials: 'include',
+                body: JSON.stringify({ ...scheduleData, ...dateSelection }),
+              })
+
+              if (!response.ok) {
+                const errorData = await response.json()
+                throw new Error(errorData.error || 'Failed to create schedule')
+              }
+
+              const result = await response.json()
+              // If bulk creation, count the number of schedules created
+              const createdCount = result.count || 1
+              successCount += createdCount
+            }
           } catch (error: any) {
             errorCount++
             const workerName = workers.find(w => w.id === workerId)?.full_name || workerId
@@ -605,6 +904,9 @@ export function WorkerSchedules() {
               <h1>Worker Schedules</h1>
               <p className="subtitle">Manage individual schedules for workers in your team</p>
             </div>
+            <button className="btn-secondary" onClick={() => setShowImportModal(true)}>
+              Import Roster
+            </button>
           </div>
         </div>
 
@@ -643,6 +945,20 @@ export function WorkerSchedules() {
                 <span className="tab-badge">{schedules.length}</span>
               )}
             </button>
+            <button
+              className={`tab-button ${activeTab === 'holidays' ? 'active' : ''}`}
+              onClick={() => setActiveTab('holidays')}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect>
+                <line x1="3" y1="10" x2="21" y2="10"></line>
+                <polyline points="9 15 11 17 15 13"></polyline>
+              </svg>
+              Site Holidays
+              {holidays.length > 0 && (
+                <span className="tab-badge">{holidays.length}</span>
+              )}
+            </button>
           </div>
 
           {/* Tab Content */}
@@ -902,6 +1218,20 @@ export function WorkerSchedules() {
                                           </span>
                                           <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>Single date</span>
                                         </div>
+                                      ) : schedule.recurrence_rule ? (
+                                        <div className="recurring-schedule-info">
+                                          <div className="recurring-day" title={schedule.recurrence_rule}>{describeRecurrenceRule(schedule.recurrence_rule)}</div>
+                                          <div className="recurring-dates">
+                                            <small>
+                                              {schedule.effective_date && `From ${new Date(schedule.effective_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                                              {schedule.expiry_date && ` to ${new Date(schedule.expiry_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                                              {schedule.exclusion_dates && schedule.exclusion_dates.length > 0 && ` · skips ${schedule.exclusion_dates.length} date(s)`}
+                                            </small>
+                                          </div>
+                                          <button type="button" className="btn-text-small" onClick={() => handleExportRecurrence(schedule)}>
+                                            Export RRULE
+                                          </button>
+                                        </div>
                                       ) : schedule.day_of_week !== null && schedule.day_of_week !== undefined ? (
                                         <div className="recurring-schedule-info">
                                           <div className="recurring-day">{DAYS_OF_WEEK.find(d => d.value === schedule.day_of_week)?.label || `Day ${schedule.day_of_week}`}</div>
@@ -923,7 +1253,11 @@ export function WorkerSchedules() {
                                 <span className="time-separator">→</span>
                                 <span className="time-end">{schedule.end_time}</span>
                               </div>
-                              <div style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.25rem' }}>Shift hours</div>
+                              <div style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.25rem' }}>
+                                {schedule.starts_next_day
+                                  ? 'Shift hours (starts after midnight)'
+                                  : isOvernight(schedule.start_time, schedule.end_time) ? 'Shift hours (overnight)' : 'Shift hours'}
+                              </div>
                             </td>
                             <td style={{ verticalAlign: 'middle' }}>
                               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
@@ -1074,6 +1408,91 @@ export function WorkerSchedules() {
                 )}
               </div>
             )}
+
+            {activeTab === 'holidays' && (
+              <div className="tab-panel">
+                <div className="schedules-table-container">
+                  <div className="schedules-header">
+                    <div>
+                      <h2>Site Holidays</h2>
+                      <p className="subtitle">Workers stay rostered on public holidays, but no check-in is required</p>
+                    </div>
+                  </div>
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label>Date</label>
+                      <input
+                        type="date"
+                        value={holidayForm.date}
+                        onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                        className="form-input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Name</label>
+                      <input
+                        type="text"
+                        value={holidayForm.name}
+                        onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                        placeholder="e.g. Labour Day"
+                        className="form-input"
+                      />
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <button
+                      type="button"
+                      className="btn-primary"
+                      disabled={savingHolidays || !holidayForm.date || !holidayForm.name.trim()}
+                      onClick={() => saveHolidays({ date: holidayForm.date, name: holidayForm.name })}
+                    >
+                      Add Holiday
+                    </button>
+                  </div>
+                  <div className="form-group">
+                    <label>Import calendar (.ics)</label>
+                    <input
+                      type="file"
+                      accept=".ics,text/calendar"
+                      onChange={handleImportHolidays}
+                      disabled={savingHolidays}
+                      className="form-input"
+                    />
+                    <small className="field-help">
+                      e.g. your state's public holiday calendar - existing dates are renamed, not duplicated
+                    </small>
+                  </div>
+                  {holidays.length === 0 ? (
+                    <p className="no-selection">No upcoming holidays</p>
+                  ) : (
+                    <table className="schedules-table">
+                      <thead>
+                        <tr>
+                          <th>Date</th>
+                          <th>Holiday</th>
+                          <th>Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {holidays.map((holiday) => (
+                          <tr key={holiday.id}>
+                            <td>
+                              {new Date(`${holiday.holiday_date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                            </td>
+                            <td>{holiday.name}</td>
+                            <td>
+                              <button type="button" className="btn-text-small" onClick={() => handleDeleteHoliday(holiday)}>
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -1171,7 +1590,11 @@ export function WorkerSchedules() {
                 {editingSchedule && (
                   <div className="form-group">
                     <div className="schedule-type-indicator">
-                      {editingSchedule.day_of_week !== null && editingSchedule.day_of_week !== undefined ? (
+                      {editingSchedule.recurrence_rule ? (
+                        <span className="schedule-badge recurring">
+                          🔁 {describeRecurrenceRule(editingSchedule.recurrence_rule)}
+                        </span>
+                      ) : editingSchedule.day_of_week !== null && editingSchedule.day_of_week !== undefined ? (
                         <span className="schedule-badge recurring">
                           📅 Recurring: {DAYS_OF_WEEK.find(d => d.value === editingSchedule.day_of_week)?.label} 
                           {editingSchedule.effective_date && editingSchedule.expiry_date && (
@@ -1215,14 +1638,44 @@ export function WorkerSchedules() {
                           type="date"
                           value={formData.end_date}
                           onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
-                          required={!editingSchedule}
+                          required={!editingSchedule && formData.repeat === 'weekly'}
                           className="form-input"
                         />
-                        {editingSchedule && (
+                        {(editingSchedule || formData.repeat !== 'weekly') && (
                           <small className="field-help">Leave empty for ongoing schedule</small>
                         )}
                       </div>
                     </div>
+                    {!editingSchedule && (
+                      <div className="form-group">
+                        <label>Repeat</label>
+                        <select
+                          value={formData.repeat}
+                          onChange={(e) => setFormData({ ...formData, repeat: e.target.value as RepeatMode })}
+                          className="form-input"
+                        >
+                          <option value="weekly">Every week on selected days</option>
+                          <option value="fortnightly">Every 2 weeks on selected days (fortnightly roster)</option>
+                          <option value="four_on_four_off">4 days on, 4 days off (from the start date)</option>
+                          <option value="custom">Custom recurrence rule (RRULE)</option>
+                        </select>
+                      </div>
+                    )}
+                    {formData.repeat === 'custom' ? (
+                      <div className="form-group">
+                        <label>Recurrence Rule *</label>
+                        <textarea
+                          value={formData.recurrence_rule}
+                          onChange={(e) => setFormData({ ...formData, recurrence_rule: e.target.value })}
+                          placeholder="FREQ=MONTHLY;BYDAY=2MO"
+                          rows={3}
+                          className="form-input"
+                        />
+                        <small className="field-help">
+                          iCalendar RRULE starting on the start date, e.g. FREQ=MONTHLY;BYDAY=2MO (every 2nd Monday). You can paste DTSTART/RRULE/EXDATE lines from another calendar.
+                        </small>
+                      </div>
+                    ) : formData.repeat !== 'four_on_four_off' && (
                     <div className="form-group">
                       <label>Days of Week *</label>
                       <div className="days-selector">
@@ -1246,6 +1699,20 @@ export function WorkerSchedules() {
                           : `Selected: ${selectedDays.map(d => DAYS_OF_WEEK.find(day => day.value === d)?.label).join(', ')}`}
                       </small>
                     </div>
+                    )}
+                    <div className="form-group">
+                      <label>Skipped Dates</label>
+                      <input
+                        type="text"
+                        value={formData.exclusion_dates}
+                        onChange={(e) => setFormData({ ...formData, exclusion_dates: e.target.value })}
+                        placeholder="2026-12-28, 2027-01-04"
+                        className="form-input"
+                      />
+                      <small className="field-help">
+                        Optional: dates (YYYY-MM-DD) this schedule doesn't run. Public holidays are handled on the Site Holidays tab.
+                      </small>
+                    </div>
                   </>
                 ) : null}
 
@@ -1270,9 +1737,89 @@ export function WorkerSchedules() {
                       required
                       className="form-input"
                     />
+                    {isOvernight(formData.start_time, formData.end_time) && (
+                      <small className="field-help">Overnight shift - ends the next day</small>
+                    )}
                   </div>
                 </div>
 
+                <div className="form-group">
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={formData.starts_next_day}
+                      onChange={(e) => setFormData({ ...formData, starts_next_day: e.target.checked })}
+                    />
+                    <span>Starts after midnight</span>
+                  </label>
+                  <small className="field-help">
+                    Tick for the later part of a split night shift (e.g. 01:00-05:00 after a 20:00-00:00 segment) - it still belongs to the shift date above
+                  </small>
+                </div>
+
+                {/* Split shift: extra segments on the same shift date (create only - each segment is its own schedule afterwards) */}
+                {!editingSchedule && (
+                  <div className="form-group">
+                    {formData.extra_segments.map((segment, index) => (
+                      <div key={index} className="form-row">
+                        <div className="form-group">
+                          <label>Segment {index + 2} Start *</label>
+                          <input
+                            type="time"
+                            value={segment.start_time}
+                            onChange={(e) => updateExtraSegment(index, { start_time: e.target.value })}
+                            required
+                            className="form-input"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label>Segment {index + 2} End *</label>
+                          <input
+                            type="time"
+                            value={segment.end_time}
+                            onChange={(e) => updateExtraSegment(index, { end_time: e.target.value })}
+                            required
+                            className="form-input"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label className="checkbox-label">
+                            <input
+                              type="checkbox"
+                              checked={segment.starts_next_day}
+                              onChange={(e) => updateExtraSegment(index, { starts_next_day: e.target.checked })}
+                            />
+                            <span>Starts after midnight</span>
+                          </label>
+                          <button
+                            type="button"
+                            className="btn-text-small"
+                            onClick={() => setFormData({
+                              ...formData,
+                              extra_segments: formData.extra_segments.filter((_, i) => i !== index),
+                            })}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn-text-small"
+                      onClick={() => setFormData({
+                        ...formData,
+                        extra_segments: [...formData.extra_segments, { start_time: '', end_time: '', starts_next_day: false }],
+                      })}
+                    >
+                      + Add Shift Segment
+                    </button>
+                    <small className="field-help">
+                      Split shift: add the later segments worked on the same shift date. The check-in window comes from the first segment.
+                    </small>
+                  </div>
+                )}
+
                 {/* Daily Check-In Requirement Section */}
                 <div className="form-group">
                   <label className="checkbox-label">
@@ -1311,8 +1858,8 @@ export function WorkerSchedules() {
                           setFormData({ 
                             ...formData, 
                             daily_checkin_start_time: newStart,
-                            // Auto-adjust end time if it's before or equal to start time
-                            daily_checkin_end_time: formData.daily_checkin_end_time && formData.daily_checkin_end_time <= newStart
+                            // Auto-adjust end time if it's equal to start time (an earlier end runs past midnight)
+                            daily_checkin_end_time: formData.daily_checkin_end_time && formData.daily_checkin_end_time === newStart
                               ? addOneHour(newStart)
                               : formData.daily_checkin_end_time
                           })
@@ -1338,7 +1885,7 @@ export function WorkerSchedules() {
                         required={formData.requires_daily_checkin}
                         className="form-input"
                       />
-                      <small className="field-help">When daily check-in window closes (must be after start time)</small>
+                      <small className="field-help">When daily check-in window closes (before the start time = closes the next day)</small>
                     </div>
                   </div>
                 ) : (
@@ -1430,6 +1977,13 @@ export function WorkerSchedules() {
             </div>
           </div>
         )}
+
+        {showImportModal && (
+          <RosterImportModal
+            onClose={() => setShowImportModal(false)}
+            onImported={loadSchedules}
+          />
+        )}
       </div>
     </DashboardLayout>
   )
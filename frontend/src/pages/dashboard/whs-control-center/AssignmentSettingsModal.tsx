@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react'
+import { Loading } from '../../../components/Loading'
+import { API_BASE_URL } from '../../../config/api'
+import {
+  ASSIGNMENT_POLICY_LABELS,
+  SPECIALTY_OPTIONS,
+  type AssignmentPolicy,
+  type ClinicianAssignmentProfile,
+} from '../../../utils/clinicianAssignment'
+
+interface AssignmentSettingsModalProps {
+  onClose: () => void
+}
+
+// Organization auto-assignment policy and each clinician's specialties / case load limit
+export function AssignmentSettingsModal({ onClose }: AssignmentSettingsModalProps) {
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [policy, setPolicy] = useState<AssignmentPolicy>('manual')
+  const [profiles, setProfiles] = useState<ClinicianAssignmentProfile[]>([])
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/whs/assignment-settings`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        })
+        if (!response.ok) {
+          throw new Error('Failed to load assignment settings')
+        }
+        const data = await response.json()
+        setPolicy(data.policy || 'manual')
+        setProfiles(data.clinicians || [])
+      } catch (err) {
+        console.error('Error fetching assignment settings:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load assignment settings')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const updateProfile = (id: string, changes: Partial<ClinicianAssignmentProfile>) => {
+    setProfiles(profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)))
+  }
+
+  const toggleSpecialty = (profile: ClinicianAssignmentProfile, specialty: string) => {
+    updateProfile(profile.id, {
+      specialties: profile.specialties.includes(specialty)
+        ? profile.specialties.filter(value => value !== specialty)
+        : [...profile.specialties, specialty],
+    })
+  }
+
+  const handleSavePolicy = async (nextPolicy: AssignmentPolicy) => {
+    const previous = policy
+    setPolicy(nextPolicy)
+    try {
+      setSavingId('policy')
+      setError('')
+      setNotice('')
+      const response = await fetch(`${API_BASE_URL}/api/whs/assignment-settings`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy: nextPolicy }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save assignment policy')
+      }
+      setNotice('Assignment policy saved')
+    } catch (err) {
+      setPolicy(previous)
+      setError(err instanceof Error ? err.message : 'Failed to save assignment policy')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleSaveProfile = async (profile: ClinicianAssignmentProfile) => {
+    try {
+      setSavingId(profile.id)
+      setError('')
+      setNotice('')
+      const response = await fetch(`${API_BASE_URL}/api/whs/clinicians/${profile.id}/assignment-profile`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          specialties: profile.specialties,
+          max_open_cases: profile.maxOpenCases,
+          accepting_new_cases: profile.acceptingNewCases,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save clinician profile')
+      }
+      setNotice(`Saved ${profile.name}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save clinician profile')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="whs-modal-overlay" onClick={onClose}>
+      <div className="whs-modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="whs-modal-header">
+          <div>
+            <h2 className="whs-modal-title">Clinician Assignment</h2>
+            <p className="whs-modal-subtitle">How new cases get a clinician and what recommendations consider</p>
+          </div>
+          <button className="whs-modal-close" onClick={onClose} aria-label="Close modal">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="whs-modal-body">
+          {error && <p className="whs-assignment-error">{error}</p>}
+          {notice && <p className="whs-assignment-notice">{notice}</p>}
+
+          {loading ? (
+            <Loading message="Loading assignment settings..." />
+          ) : (
+            <>
+              <h3 className="whs-detail-section-title">Policy for new cases</h3>
+              <select
+                className="whs-assignment-select"
+                value={policy}
+                onChange={(e) => handleSavePolicy(e.target.value as AssignmentPolicy)}
+                disabled={savingId === 'policy'}
+              >
+                {(Object.keys(ASSIGNMENT_POLICY_LABELS) as AssignmentPolicy[]).map(value => (
+                  <option key={value} value={value}>{ASSIGNMENT_POLICY_LABELS[value]}</option>
+                ))}
+              </select>
+              <p className="whs-assignment-helper">
+                Auto-assignment runs when a supervisor sends a case to WHS. Clinicians not accepting cases or at their limit are skipped.
+              </p>
+
+              <h3 className="whs-detail-section-title" style={{ marginTop: '24px' }}>Clinicians</h3>
+              {profiles.length === 0 ? (
+                <p className="whs-assignment-helper">No clinicians in your organization yet.</p>
+              ) : profiles.map(profile => (
+                <div key={profile.id} className="whs-assignment-profile">
+                  <div className="whs-assignment-profile-header">
+                    <div>
+                      <div className="whs-recommendation-name">{profile.name}</div>
+                      <div className="whs-recommendation-email">{profile.email}</div>
+                    </div>
+                    <label className="whs-assignment-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={profile.acceptingNewCases}
+                        onChange={(e) => updateProfile(profile.id, { acceptingNewCases: e.target.checked })}
+                      />
+                      Accepting new cases
+                    </label>
+                  </div>
+                  <div className="whs-assignment-profile-fields">
+                    <div className="whs-assignment-specialties">
+                      {SPECIALTY_OPTIONS.map(option => (
+                        <label key={option.value} className="whs-assignment-checkbox">
+                          <input
+                            type="checkbox"
+                            checked={profile.specialties.includes(option.value)}
+                            onChange={() => toggleSpecialty(profile, option.value)}
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                    </div>
+                    <label className="whs-assignment-limit">
+                      Max open cases
+                      <input
+                        type="number"
+                        min={1}
+                        max={500}
+                        value={profile.maxOpenCases ?? ''}
+                        placeholder="No limit"
+                        onChange={(e) => updateProfile(profile.id, { maxOpenCases: e.target.value ? parseInt(e.target.value) : null })}
+                      />
+                    </label>
+                    <button
+                      className="whs-modal-submit-btn"
+                      onClick={() => handleSaveProfile(profile)}
+                      disabled={savingId === profile.id}
+                    >
+                      {savingId === profile.id ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="whs-modal-footer">
+          <button className="whs-modal-close-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react'
+import { Loading } from '../../../components/Loading'
+import { API_BASE_URL } from '../../../config/api'
+import {
+  SLA_METRIC_OPTIONS,
+  SLA_SEVERITIES,
+  type SlaRule,
+  type SlaSeverity,
+} from '../../../utils/caseSla'
+
+interface SlaSettingsModalProps {
+  onClose: () => void
+  onSaved: () => void
+}
+
+const SEVERITY_COLUMN_LABELS: Record<SlaSeverity, string> = {
+  ANY: 'All cases',
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low',
+}
+
+const ruleKey = (metric: string, severity: string) => `${metric}|${severity}`
+
+// Organization SLA targets in hours - one row per clock, severity columns override "All cases"
+export function SlaSettingsModal({ onClose, onSaved }: SlaSettingsModalProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [isDefault, setIsDefault] = useState(false)
+  const [targets, setTargets] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/whs/sla-rules`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        })
+        if (!response.ok) {
+          throw new Error('Failed to load SLA targets')
+        }
+        const data = await response.json()
+        const rules: SlaRule[] = data.rules || []
+        const values: Record<string, string> = {}
+        rules.forEach(rule => {
+          values[ruleKey(rule.metric, rule.severity)] = rule.targetHours === null ? '' : String(rule.targetHours)
+        })
+        setTargets(values)
+        setIsDefault(!!data.isDefault)
+      } catch (err) {
+        console.error('Error fetching SLA rules:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load SLA targets')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchRules()
+  }, [])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      setNotice('')
+      const rules = SLA_METRIC_OPTIONS.flatMap(option =>
+        SLA_SEVERITIES.map(severity => ({
+          metric: option.value,
+          severity,
+          target_hours: targets[ruleKey(option.value, severity)] || null,
+        }))
+      )
+      const response = await fetch(`${API_BASE_URL}/api/whs/sla-rules`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save SLA targets')
+      }
+      setIsDefault(false)
+      setNotice('SLA targets saved')
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save SLA targets')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="whs-modal-overlay" onClick={onClose}>
+      <div className="whs-modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="whs-modal-header">
+          <div>
+            <h2 className="whs-modal-title">Case SLA Targets</h2>
+            <p className="whs-modal-subtitle">Hours allowed before a case is escalated as overdue</p>
+          </div>
+          <button className="whs-modal-close" onClick={onClose} aria-label="Close modal">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="whs-modal-body">
+          {error && <p className="whs-assignment-error">{error}</p>}
+          {notice && <p className="whs-assignment-notice">{notice}</p>}
+
+          {loading ? (
+            <Loading message="Loading SLA targets..." />
+          ) : (
+            <>
+              {isDefault && (
+                <p className="whs-assignment-helper">Your organization is using the default targets. Saving makes them your own.</p>
+              )}
+              <table className="whs-sla-rules-table">
+                <thead>
+                  <tr>
+                    <th>Clock</th>
+                    {SLA_SEVERITIES.map(severity => (
+                      <th key={severity}>{SEVERITY_COLUMN_LABELS[severity]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SLA_METRIC_OPTIONS.map(option => (
+                    <tr key={option.value}>
+                      <td>
+                        <div className="whs-recommendation-name">{option.label}</div>
+                        <div className="whs-recommendation-email">{option.description}</div>
+                      </td>
+                      {SLA_SEVERITIES.map(severity => (
+                        <td key={severity}>
+                          <input
+                            type="number"
+                            min={0.5}
+                            max={2160}
+                            step={0.5}
+                            value={targets[ruleKey(option.value, severity)] ?? ''}
+                            placeholder={severity === 'ANY' ? 'No SLA' : 'Same'}
+                            onChange={(e) => setTargets({ ...targets, [ruleKey(option.value, severity)]: e.target.value })}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="whs-assignment-helper">
+                Severity follows the incident type (injury and accident are High, medical leave Medium, other Low).
+                WHS, the team's supervisor and the assigned clinician are notified when a target is missed.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="whs-modal-footer">
+          <button className="whs-modal-close-btn" onClick={onClose}>
+            Close
+          </button>
+          <button className="whs-modal-submit-btn" onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save Targets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
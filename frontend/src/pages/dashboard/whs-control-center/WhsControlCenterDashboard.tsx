@@ -1,8 +1,13 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
+import { CaseAttachments } from '../../../components/CaseAttachments'
 import { API_BASE_URL } from '../../../config/api'
 import { useAuth } from '../../../contexts/AuthContext'
+import type { AssignmentPolicy, ClinicianRecommendation } from '../../../utils/clinicianAssignment'
+import { formatSlaCountdown, getSlaState, type SlaTimer } from '../../../utils/caseSla'
+import { AssignmentSettingsModal } from './AssignmentSettingsModal'
+import { SlaSettingsModal } from './SlaSettingsModal'
 import './WhsControlCenterDashboard.css'
 
 interface Case {
@@ -20,23 +25,35 @@ interface Case {
   teamLeaderName: string
   clinicianId: string | null
   clinicianName: string | null
+  clinicianAssignmentMethod?: 'manual' | 'round_robin' | 'best_match' | null
   type: string
   reason: string
   startDate: string
   endDate: string | null
   status: 'NEW CASE' | 'IN PROGRESS' | 'CLOSED' | 'IN REHAB' | 'RETURN TO WORK' | 'TRIAGED' | 'ASSESSED'
   severity: 'HIGH' | 'MEDIUM' | 'LOW'
+  sla?: SlaTimer | null // Most urgent running SLA timer
+  slaTimers?: SlaTimer[]
   isActive: boolean
   createdAt: string
   updatedAt: string
+  caseStatus?: string | null
+  allowedTransitions?: { to: string; requiredFields: string[] }[]
   approvedBy?: string | null
   approvedAt?: string | null
+  whsApprovedBy?: string | null
+  whsApprovedAt?: string | null
 }
 
-interface Clinician {
+interface StatusHistoryEntry {
   id: string
-  email: string
-  name: string
+  fromStatus: string | null
+  toStatus: string
+  changedBy: string | null
+  changedByRole: string | null
+  reason: string | null
+  source: 'api' | 'backfill'
+  changedAt: string
 }
 
 interface Summary {
@@ -48,6 +65,15 @@ interface Summary {
 }
 
 
+const CASE_STATUS_LABELS: Record<string, string> = {
+  new: 'New Case',
+  triaged: 'Triaged',
+  assessed: 'Assessed',
+  in_rehab: 'In Rehab',
+  return_to_work: 'Return to Work',
+  closed: 'Closed',
+}
+
 const TYPE_LABELS: Record<string, string> = {
   accident: 'Accident',
   injury: 'Injury',
@@ -77,10 +103,23 @@ export function WhsControlCenterDashboard() {
   const [selectedCase, setSelectedCase] = useState<Case | null>(null)
   const [showViewModal, setShowViewModal] = useState(false)
   const [showAssignModal, setShowAssignModal] = useState(false)
-  const [clinicians, setClinicians] = useState<Clinician[]>([])
+  const [recommendations, setRecommendations] = useState<ClinicianRecommendation[]>([])
+  const [assignmentPolicy, setAssignmentPolicy] = useState<AssignmentPolicy>('manual')
+  const [showAssignmentSettings, setShowAssignmentSettings] = useState(false)
+  const [showSlaSettings, setShowSlaSettings] = useState(false)
   const [selectedClinicianId, setSelectedClinicianId] = useState('')
   const [assigning, setAssigning] = useState(false)
   const [loadingClinicians, setLoadingClinicians] = useState(false)
+  const [caseHistory, setCaseHistory] = useState<StatusHistoryEntry[]>([])
+  const [signingOff, setSigningOff] = useState(false)
+
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep SLA countdowns current while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
 
   // Debounce search query to prevent excessive API calls
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState(searchQuery)
@@ -189,13 +228,14 @@ export function WhsControlCenterDashboard() {
     setRefreshKey(prev => prev + 1)
   }
 
-  // Fetch clinicians when assign modal opens
+  // Fetch ranked clinician recommendations when assign modal opens
+  const assignCaseId = showAssignModal ? selectedCase?.id : undefined
   useEffect(() => {
-    if (showAssignModal) {
-      const fetchClinicians = async () => {
+    if (assignCaseId) {
+      const fetchRecommendations = async () => {
         try {
           setLoadingClinicians(true)
-          const response = await fetch(`${API_BASE_URL}/api/whs/clinicians`, {
+          const response = await fetch(`${API_BASE_URL}/api/whs/cases/${assignCaseId}/clinician-recommendations`, {
             method: 'GET',
             credentials: 'include',
             headers: { 'Content-Type': 'application/json' },
@@ -206,18 +246,95 @@ export function WhsControlCenterDashboard() {
           }
 
           const data = await response.json()
-          setClinicians(data.clinicians || [])
-        } catch (err: any) {
+          const ranked: ClinicianRecommendation[] = data.recommendations || []
+          setRecommendations(ranked)
+          setAssignmentPolicy(data.policy || 'manual')
+          // Preselect the best available match
+          setSelectedClinicianId(ranked.find(recommendation => recommendation.available)?.clinicianId || '')
+        } catch (err) {
           console.error('Error fetching clinicians:', err)
-          alert(err.message || 'Failed to load clinicians')
+          alert(err instanceof Error ? err.message : 'Failed to load clinicians')
         } finally {
           setLoadingClinicians(false)
         }
       }
 
-      fetchClinicians()
+      fetchRecommendations()
+    }
+  }, [assignCaseId])
+
+  const topRecommendationId = recommendations.find(recommendation => recommendation.available)?.clinicianId
+
+  // Fetch status history when the view modal opens
+  useEffect(() => {
+    if (!showViewModal || !selectedCase) {
+      setCaseHistory([])
+      return
+    }
+
+    let isMounted = true
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/whs/cases/${selectedCase.id}/history`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch case history')
+        }
+
+        const data = await response.json()
+        if (isMounted) {
+          setCaseHistory(data.history || [])
+        }
+      } catch (err) {
+        console.error('Error fetching case history:', err)
+      }
+    }
+
+    fetchHistory()
+    return () => {
+      isMounted = false
+    }
+  }, [showViewModal, selectedCase])
+
+  const canSignOff = !!selectedCase?.allowedTransitions?.some(t => t.to === 'closed')
+
+  const handleSignOff = async () => {
+    if (!selectedCase || !canSignOff) {
+      return
+    }
+
+    if (!window.confirm(`Sign off and close case ${selectedCase.caseNumber}?`)) {
+      return
+    }
+
+    try {
+      setSigningOff(true)
+      const response = await fetch(`${API_BASE_URL}/api/whs/cases/${selectedCase.id}/status`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'closed' }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to close case')
+      }
+
+      setShowViewModal(false)
+      setSelectedCase(null)
+      handleRefresh()
+    } catch (err) {
+      console.error('Error closing case:', err)
+      alert(err instanceof Error ? err.message : 'Failed to close case')
+    } finally {
+      setSigningOff(false)
     }
-  }, [showAssignModal])
+  }
 
   const handleAssignToClinician = async () => {
     if (!selectedCase || !selectedClinicianId) {
@@ -294,11 +411,19 @@ export function WhsControlCenterDashboard() {
     <DashboardLayout>
       <div className="whs-dashboard">
         {/* Header */}
-        <div className="whs-header">
+        <div className="whs-header whs-header-with-actions">
           <div>
             <h1 className="whs-title">WHS Dashboard</h1>
             <p className="whs-subtitle">Welcome back, {first_name || user?.email?.split('@')[0] || 'Admin'}</p>
           </div>
+          <div className="whs-header-actions">
+            <button className="whs-action-btn" onClick={() => setShowSlaSettings(true)}>
+              SLA Targets
+            </button>
+            <button className="whs-action-btn" onClick={() => setShowAssignmentSettings(true)}>
+              Assignment Settings
+            </button>
+          </div>
         </div>
 
         {/* Summary Cards */}
@@ -497,6 +622,7 @@ export function WhsControlCenterDashboard() {
                     <th>Worker</th>
                     <th>Incident</th>
                     <th>Status</th>
+                    <th>SLA</th>
                     <th>Severity</th>
                     <th>Supervisor</th>
                     <th>Clinician</th>
@@ -531,6 +657,18 @@ export function WhsControlCenterDashboard() {
                             {caseItem.status}
                           </span>
                         </td>
+                        <td>
+                          {caseItem.sla ? (
+                            <div>
+                              <span className={`whs-sla-badge ${getSlaState(caseItem.sla, now)}`}>
+                                {formatSlaCountdown(caseItem.sla, now)}
+                              </span>
+                              <div className="whs-sla-label">{caseItem.sla.label}</div>
+                            </div>
+                          ) : (
+                            <span style={{ color: '#94A3B8' }}>—</span>
+                          )}
+                        </td>
                         <td>
                           <span className="whs-severity-badge" style={severityStyle}>
                             {caseItem.severity}
@@ -539,7 +677,14 @@ export function WhsControlCenterDashboard() {
                         <td className="whs-supervisor">{caseItem.supervisorName}</td>
                         <td className="whs-clinician">
                           {caseItem.clinicianName ? (
-                            <span style={{ color: '#10B981', fontWeight: 500 }}>{caseItem.clinicianName}</span>
+                            <span style={{ color: '#10B981', fontWeight: 500 }}>
+                              {caseItem.clinicianName}
+                              {caseItem.clinicianAssignmentMethod && caseItem.clinicianAssignmentMethod !== 'manual' && (
+                                <span className="whs-auto-assigned-badge" title={caseItem.clinicianAssignmentMethod === 'round_robin' ? 'Auto-assigned (round robin)' : 'Auto-assigned (best match)'}>
+                                  Auto
+                                </span>
+                              )}
+                            </span>
                           ) : (
                             <span style={{ color: '#94A3B8', fontStyle: 'italic' }}>Not assigned</span>
                           )}
@@ -666,6 +811,17 @@ export function WhsControlCenterDashboard() {
                     <span className="whs-detail-label">Incident Type:</span>
                     <span className="whs-detail-value">{TYPE_LABELS[selectedCase.type] || selectedCase.type}</span>
                   </div>
+                  {selectedCase.slaTimers?.map(timer => (
+                    <div key={timer.metric} className="whs-detail-item">
+                      <span className="whs-detail-label">{timer.label} SLA:</span>
+                      <span className="whs-detail-value">
+                        <span className={`whs-sla-badge ${getSlaState(timer, now)}`}>
+                          {formatSlaCountdown(timer, now)}
+                        </span>
+                        {' '}due {new Date(timer.dueAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} ({timer.targetHours}h target)
+                      </span>
+                    </div>
+                  ))}
                   <div className="whs-detail-item">
                     <span className="whs-detail-label">Created:</span>
                     <span className="whs-detail-value">{formatDate(selectedCase.createdAt)}</span>
@@ -684,6 +840,15 @@ export function WhsControlCenterDashboard() {
                       <span className="whs-detail-value">{formatDate(selectedCase.approvedAt)}</span>
                     </div>
                   )}
+                  {selectedCase.whsApprovedBy && (
+                    <div className="whs-detail-item">
+                      <span className="whs-detail-label">WHS sign-off:</span>
+                      <span className="whs-detail-value">
+                        {selectedCase.whsApprovedBy}
+                        {selectedCase.whsApprovedAt ? ` (${formatDate(selectedCase.whsApprovedAt)})` : ''}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="whs-detail-section">
@@ -738,6 +903,35 @@ export function WhsControlCenterDashboard() {
                   </div>
                 </div>
               </div>
+
+              {caseHistory.length > 0 && (
+                <div className="whs-detail-section whs-history-section">
+                  <h3 className="whs-detail-section-title">Status History</h3>
+                  <ul className="whs-history-list">
+                    {caseHistory.map((entry) => (
+                      <li key={entry.id} className="whs-history-item">
+                        <div className="whs-history-transition">
+                          {entry.fromStatus ? CASE_STATUS_LABELS[entry.fromStatus] || entry.fromStatus : '—'}
+                          {' → '}
+                          {CASE_STATUS_LABELS[entry.toStatus] || entry.toStatus}
+                        </div>
+                        <div className="whs-history-meta">
+                          {entry.source === 'backfill' ? 'Recorded before status history' : (entry.changedBy || 'Unknown')}
+                          {entry.changedByRole === 'whs_control_center' ? ' (WHS)' : entry.changedByRole === 'clinician' ? ' (Clinician)' : ''}
+                          {' · '}
+                          {new Date(entry.changedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </div>
+                        {entry.reason && <div className="whs-history-reason">{entry.reason}</div>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="whs-detail-section whs-history-section">
+                <h3 className="whs-detail-section-title">Attachments</h3>
+                <CaseAttachments caseId={selectedCase.id} />
+              </div>
             </div>
 
             <div className="whs-modal-footer">
@@ -747,6 +941,16 @@ export function WhsControlCenterDashboard() {
               >
                 Close
               </button>
+              {canSignOff && (
+                <button
+                  className="whs-modal-submit-btn"
+                  onClick={handleSignOff}
+                  disabled={signingOff}
+                  style={{ marginLeft: '12px' }}
+                >
+                  {signingOff ? 'Closing...' : 'Sign Off & Close Case'}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -791,32 +995,46 @@ export function WhsControlCenterDashboard() {
                 <label style={{ display: 'block', fontSize: '13px', fontWeight: 500, color: '#0F172A', marginBottom: '8px' }}>
                   Select Clinician *
                 </label>
+                <p className="whs-assignment-helper">
+                  Ranked by open case load, upcoming appointments, specialty and past time to return to work.
+                  {assignmentPolicy !== 'manual' && ' Auto-assignment only covers cases sent to WHS after it was switched on, and skips them when no clinician is available.'}
+                </p>
                 {loadingClinicians ? (
                   <p style={{ color: '#64748B', fontSize: '14px' }}>Loading clinicians...</p>
-                ) : clinicians.length === 0 ? (
+                ) : recommendations.length === 0 ? (
                   <p style={{ color: '#EF4444', fontSize: '14px' }}>No clinicians available</p>
                 ) : (
-                  <select
-                    value={selectedClinicianId}
-                    onChange={(e) => setSelectedClinicianId(e.target.value)}
-                    style={{
-                      width: '100%',
-                      padding: '10px 12px',
-                      background: '#FFFFFF',
-                      border: '1px solid #E2E8F0',
-                      borderRadius: '6px',
-                      fontSize: '14px',
-                      color: '#0F172A',
-                      cursor: 'pointer',
-                    }}
-                  >
-                    <option value="">-- Select a clinician --</option>
-                    {clinicians.map((clinician) => (
-                      <option key={clinician.id} value={clinician.id}>
-                        {clinician.name} ({clinician.email})
-                      </option>
+                  <div className="whs-recommendation-list">
+                    {recommendations.map((recommendation) => (
+                      <label
+                        key={recommendation.clinicianId}
+                        className={`whs-recommendation ${selectedClinicianId === recommendation.clinicianId ? 'selected' : ''} ${recommendation.available ? '' : 'unavailable'}`}
+                      >
+                        <input
+                          type="radio"
+                          name="clinician"
+                          value={recommendation.clinicianId}
+                          checked={selectedClinicianId === recommendation.clinicianId}
+                          onChange={() => setSelectedClinicianId(recommendation.clinicianId)}
+                        />
+                        <div className="whs-recommendation-main">
+                          <div className="whs-recommendation-header">
+                            <span className="whs-recommendation-name">{recommendation.name}</span>
+                            {recommendation.clinicianId === topRecommendationId && (
+                              <span className="whs-recommendation-top">Best match</span>
+                            )}
+                            <span className="whs-recommendation-score" title="Recommendation score (0-100)">{recommendation.score}</span>
+                          </div>
+                          <div className="whs-recommendation-email">{recommendation.email}</div>
+                          <ul className="whs-recommendation-reasons">
+                            {recommendation.reasons.map((reason) => (
+                              <li key={reason}>{reason}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </label>
                     ))}
-                  </select>
+                  </div>
                 )}
               </div>
             </div>
@@ -843,6 +1061,17 @@ export function WhsControlCenterDashboard() {
           </div>
         </div>
       )}
+
+      {showAssignmentSettings && (
+        <AssignmentSettingsModal onClose={() => setShowAssignmentSettings(false)} />
+      )}
+
+      {showSlaSettings && (
+        <SlaSettingsModal
+          onClose={() => setShowSlaSettings(false)}
+          onSaved={() => setRefreshKey(prev => prev + 1)}
+        />
+      )}
     </DashboardLayout>
   )
 }
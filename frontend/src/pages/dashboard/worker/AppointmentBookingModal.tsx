@@ -0,0 +1,236 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Loading } from '../../../components/Loading'
+import { API_BASE_URL } from '../../../config/api'
+import { formatTime, groupSlotsByDate, type AvailableSlot, type BookingOption } from '../../../utils/clinicianAvailability'
+
+interface AppointmentBookingModalProps {
+  options: BookingOption[] // cases whose clinician takes online bookings
+  reschedule?: {
+    appointmentId: string
+    clinicianName: string
+    appointmentDate: string
+    appointmentTime: string
+  }
+  onClose: () => void
+  onDone: (message: string) => void
+}
+
+const formatDay = (dateStr: string) =>
+  new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+
+// Pick a free slot of the clinician - a new booking for a case, or a new time for an appointment
+export function AppointmentBookingModal({ options, reschedule, onClose, onDone }: AppointmentBookingModalProps) {
+  const [caseId, setCaseId] = useState(options[0]?.caseId || '')
+  const [slots, setSlots] = useState<AvailableSlot[]>([])
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null)
+  const [loadingSlots, setLoadingSlots] = useState(true)
+  const [selectedDate, setSelectedDate] = useState('')
+  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null)
+  const [appointmentType, setAppointmentType] = useState('consultation')
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const selectedOption = options.find(option => option.caseId === caseId)
+  const rescheduleId = reschedule?.appointmentId
+  const days = useMemo(() => groupSlotsByDate(slots), [slots])
+
+  useEffect(() => {
+    if (!rescheduleId && !caseId) {
+      setLoadingSlots(false)
+      return
+    }
+
+    let mounted = true
+    const fetchSlots = async () => {
+      try {
+        setLoadingSlots(true)
+        setError('')
+        setSelectedSlot(null)
+        const query = rescheduleId ? `appointment_id=${rescheduleId}` : `case_id=${caseId}`
+        const response = await fetch(`${API_BASE_URL}/api/checkins/appointments/slots?${query}`, {
+          method: 'GET',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load free times')
+        }
+        if (!mounted) return
+        const freeSlots: AvailableSlot[] = data.slots || []
+        setSlots(freeSlots)
+        setDurationMinutes(data.durationMinutes || null)
+        setSelectedDate(freeSlots[0]?.date || '')
+      } catch (err) {
+        if (!mounted) return
+        setSlots([])
+        setError(err instanceof Error ? err.message : 'Failed to load free times')
+      } finally {
+        if (mounted) setLoadingSlots(false)
+      }
+    }
+    fetchSlots()
+
+    return () => {
+      mounted = false
+    }
+  }, [caseId, rescheduleId])
+
+  const handleSubmit = async () => {
+    if (!selectedSlot) {
+      setError('Pick a time')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError('')
+      const response = reschedule
+        ? await fetch(`${API_BASE_URL}/api/checkins/appointments/${reschedule.appointmentId}/reschedule`, {
+          method: 'PATCH',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ appointment_date: selectedSlot.date, appointment_time: selectedSlot.time }),
+        })
+        : await fetch(`${API_BASE_URL}/api/checkins/appointments/book`, {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            case_id: caseId,
+            appointment_date: selectedSlot.date,
+            appointment_time: selectedSlot.time,
+            appointment_type: appointmentType,
+            notes,
+          }),
+        })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save appointment')
+      }
+      onDone(data.message || 'Appointment saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save appointment')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const daySlots = days.find(day => day.date === selectedDate)?.slots || []
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content booking-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{reschedule ? 'Reschedule Appointment' : 'Book Appointment'}</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          {reschedule ? (
+            <p className="booking-helper">
+              Currently {formatDay(reschedule.appointmentDate)} at {formatTime(reschedule.appointmentTime)} with Dr. {reschedule.clinicianName}.
+            </p>
+          ) : (
+            <>
+              <div className="booking-field">
+                <label>Case</label>
+                <select value={caseId} onChange={(e) => setCaseId(e.target.value)}>
+                  {options.map(option => (
+                    <option key={option.caseId} value={option.caseId}>
+                      {option.caseNumber} - Dr. {option.clinicianName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selectedOption && (
+                <p className="booking-helper">
+                  Book at least {selectedOption.minNoticeHours} hours ahead, up to {selectedOption.bookingWindowDays} days out.
+                </p>
+              )}
+            </>
+          )}
+
+          {error && <div className="alert alert-error">{error}</div>}
+
+          {loadingSlots ? (
+            <Loading message="Loading free times..." />
+          ) : days.length === 0 ? (
+            !error && <p className="booking-helper">No free times right now - please contact your clinician.</p>
+          ) : (
+            <>
+              <div className="booking-days">
+                {days.map(day => (
+                  <button
+                    key={day.date}
+                    type="button"
+                    className={`booking-day ${day.date === selectedDate ? 'active' : ''}`}
+                    onClick={() => {
+                      setSelectedDate(day.date)
+                      setSelectedSlot(null)
+                    }}
+                  >
+                    {formatDay(day.date)}
+                    <span className="booking-day-count">{day.slots.length} free</span>
+                  </button>
+                ))}
+              </div>
+              <div className="booking-slots">
+                {daySlots.map(slot => (
+                  <button
+                    key={slot.time}
+                    type="button"
+                    className={`booking-slot ${selectedSlot?.date === slot.date && selectedSlot.time === slot.time ? 'active' : ''}`}
+                    onClick={() => setSelectedSlot(slot)}
+                  >
+                    {formatTime(slot.time)}
+                  </button>
+                ))}
+              </div>
+              {selectedSlot && (
+                <p className="booking-helper">
+                  {formatDay(selectedSlot.date)}, {formatTime(selectedSlot.time)} – {formatTime(selectedSlot.end_time)}
+                  {durationMinutes ? ` (${durationMinutes} minutes)` : ''}
+                  {selectedSlot.location ? ` · ${selectedSlot.location}` : ''}
+                </p>
+              )}
+            </>
+          )}
+
+          {!reschedule && (
+            <>
+              <div className="booking-field">
+                <label>Type</label>
+                <select value={appointmentType} onChange={(e) => setAppointmentType(e.target.value)}>
+                  <option value="consultation">Consultation</option>
+                  <option value="follow_up">Follow-up</option>
+                  <option value="review">Review</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+              <div className="booking-field">
+                <label>Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What would you like to discuss? (optional)"
+                  rows={3}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSubmit} disabled={submitting || !selectedSlot}>
+            {submitting ? 'Saving...' : reschedule ? 'Move Appointment' : 'Book Appointment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
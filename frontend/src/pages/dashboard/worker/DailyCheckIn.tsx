@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { API_BASE_URL } from '../../../config/api'
 import { PROTECTED_ROUTES } from '../../../config/routes'
+import { useAuth } from '../../../contexts/AuthContext'
+import { useOfflineOutbox } from '../../../hooks/useOfflineOutbox'
+import { enqueueRequest } from '../../../utils/offlineOutbox'
+import { cacheResponse, loadCachedResponse } from '../../../utils/offlineCache'
+import { computeReadiness, DEFAULT_READINESS_RULES, READINESS_COLORS, type ReadinessRules } from '../../../utils/readiness'
+import { scoreCustomAnswers, findMissingRequiredAnswer, formatBodyRegion, type CheckInQuestion, type CustomAnswerValue } from '../../../utils/checkInQuestions'
 import './DailyCheckIn.css'
 
 interface ShiftInfo {
@@ -23,10 +29,35 @@ interface ShiftInfo {
   date?: string
   dayName?: string
   formattedDate?: string
+  capturedOffline?: boolean
+}
+
+interface CheckInStatus {
+  hasCheckedIn: boolean
+  checkIn: { check_in_time?: string; predicted_readiness?: string } | null
+  hasActiveException: boolean
+  exception: {
+    exception_type?: string
+    reason?: string
+    start_date?: string
+    end_date?: string
+  } | null
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown): boolean => {
+  return err instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)
+}
+
+// Local date - cached status/shift info only applies to the day it was loaded
+const getLocalDateKey = (date: Date = new Date()): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
 }
 
 export function DailyCheckIn() {
   const navigate = useNavigate()
+  const { user } = useAuth()
+  const userId = user?.id
   const [painLevel, setPainLevel] = useState(0)
   const [fatigueLevel, setFatigueLevel] = useState(0)
   const [sleepQuality, setSleepQuality] = useState(7)
@@ -49,16 +80,45 @@ export function DailyCheckIn() {
   const [loadingNextShift, setLoadingNextShift] = useState(false)
   const [hasAssignedSchedule, setHasAssignedSchedule] = useState(false)
   const [validationError, setValidationError] = useState<string | null>(null)
+  const [readinessRules, setReadinessRules] = useState<ReadinessRules>(DEFAULT_READINESS_RULES)
+  const [customQuestions, setCustomQuestions] = useState<CheckInQuestion[]>([])
+  const [bodyMapRegions, setBodyMapRegions] = useState<string[]>([])
+  const [customAnswers, setCustomAnswers] = useState<Record<string, CustomAnswerValue>>({})
+  const [offlineSince, setOfflineSince] = useState<string | null>(null)
+  const [statusRefreshKey, setStatusRefreshKey] = useState(0)
+  const [queuedNotice, setQueuedNotice] = useState('')
+  const [submitting, setSubmitting] = useState(false)
 
-  // Calculate predicted readiness based on all factors
+  const handleQueuedSent = useCallback(() => {
+    setQueuedNotice('Your offline check-in has been sent.')
+    setStatusRefreshKey(key => key + 1)
+  }, [])
+
+  const handleQueuedFailed = useCallback((_id: string, message: string) => {
+    setQueuedNotice('')
+    setValidationError(`Your offline check-in could not be submitted: ${message}`)
+  }, [])
+
+  const {
+    entries: queuedCheckIns,
+    supported: outboxSupported,
+    refresh: refreshQueuedCheckIns,
+    flush: flushQueuedCheckIns,
+    discard: discardQueuedCheckIn,
+  } = useOfflineOutbox('checkin', {
+    onSent: handleQueuedSent,
+    onFailed: handleQueuedFailed,
+  })
+  // A check-in captured today that's still waiting for a connection counts as done
+  const queuedCheckIn = queuedCheckIns.find(entry => getLocalDateKey(new Date(entry.createdAt)) === getLocalDateKey())
+  const hasQueuedCheckIn = queuedCheckIn?.status === 'pending'
+
+  // Preview predicted readiness using the team's rules
+  // The backend recomputes this on submit - its result is what gets recorded
   const calculateReadiness = () => {
-    // Lower values = better readiness
-    // Sleep quality is inverted (higher hours = better)
-    const totalScore = painLevel + fatigueLevel + stressLevel + (10 - Math.min(sleepQuality / 8 * 10, 10))
-    
-    if (totalScore <= 10) return { level: 'Green', color: '#10b981' }
-    if (totalScore <= 20) return { level: 'Yellow', color: '#f59e0b' }
-    return { level: 'Red', color: '#ef4444' }
+    const custom = scoreCustomAnswers(customQuestions, customAnswers)
+    const { level } = computeReadiness({ painLevel, fatigueLevel, stressLevel, sleepQuality }, readinessRules, custom)
+    return { level, color: READINESS_COLORS[level] }
   }
 
   const readiness = calculateReadiness()
@@ -119,40 +179,24 @@ export function DailyCheckIn() {
 
         if (response.ok) {
           const data = await response.json()
-          if (data.hasCheckedIn && data.checkIn) {
-            if (isMounted) {
-              setHasAlreadyCheckedIn(true)
-              setCheckInTime(data.checkIn.check_in_time || null)
-              setPredictedReadiness(data.checkIn.predicted_readiness || null)
-              
-              // Load next shift info when already checked in
-              loadNextShiftInfo()
-            }
-          } else {
-            if (isMounted) {
-              setHasAlreadyCheckedIn(false)
-            }
-          }
-
-          if (data.hasActiveException && data.exception) {
-            if (isMounted) {
-              setHasActiveException(true)
-              setExceptionInfo(data.exception)
-            }
-          } else {
-            if (isMounted) {
-              setHasActiveException(false)
-              setExceptionInfo(null)
-            }
-          }
+          if (userId) cacheResponse(userId, `checkins/status:${getLocalDateKey()}`, data)
+          applyStatus(data)
         }
       } catch (error: any) {
         if (error.name === 'AbortError') return
         if (isMounted) {
           console.error('Error checking check-in status:', error)
-          // Reset state on error
-          setHasAlreadyCheckedIn(false)
-          setHasActiveException(false)
+          // Offline: fall back to today's last known status
+          const cached = userId && isNetworkError(error)
+            ? loadCachedResponse<CheckInStatus>(userId, `checkins/status:${getLocalDateKey()}`)
+            : null
+          if (cached) {
+            applyStatus(cached.data)
+          } else {
+            // Reset state on error
+            setHasAlreadyCheckedIn(false)
+            setHasActiveException(false)
+          }
         }
       } finally {
         if (isMounted) {
@@ -161,13 +205,132 @@ export function DailyCheckIn() {
       }
     }
 
+    const applyStatus = (data: CheckInStatus) => {
+      if (data.hasCheckedIn && data.checkIn) {
+        if (isMounted) {
+          setHasAlreadyCheckedIn(true)
+          setCheckInTime(data.checkIn.check_in_time || null)
+          setPredictedReadiness(data.checkIn.predicted_readiness || null)
+          
+          // Load next shift info when already checked in
+          loadNextShiftInfo()
+        }
+      } else {
+        if (isMounted) {
+          setHasAlreadyCheckedIn(false)
+        }
+      }
+
+      if (data.hasActiveException && data.exception) {
+        if (isMounted) {
+          setHasActiveException(true)
+          setExceptionInfo(data.exception)
+        }
+      } else {
+        if (isMounted) {
+          setHasActiveException(false)
+          setExceptionInfo(null)
+        }
+      }
+    }
+
     checkStatus()
 
     return () => {
       isMounted = false
       abortController.abort()
     }
-  }, [])
+  }, [userId, statusRefreshKey])
+
+  // Load team readiness rules (falls back to defaults if unavailable)
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    const loadReadinessRules = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/checkins/readiness-rules`, {
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          signal: abortController.signal,
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          if (data.rules) {
+            setReadinessRules(data.rules)
+            if (userId) cacheResponse(userId, 'checkins/readiness-rules', data.rules)
+          }
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return
+        console.error('Error loading readiness rules:', error)
+        const cached = userId ? loadCachedResponse<ReadinessRules>(userId, 'checkins/readiness-rules') : null
+        if (cached) {
+          setReadinessRules(cached.data)
+        }
+      }
+    }
+
+    loadReadinessRules()
+
+    return () => {
+      abortController.abort()
+    }
+  }, [userId])
+
+  // Load team's custom check-in questions
+  useEffect(() => {
+    const abortController = new AbortController()
+
+    const loadCustomQuestions = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/questionnaires/my-questions`, {
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          signal: abortController.signal,
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          if (userId) cacheResponse(userId, 'questionnaires/my-questions', data)
+          applyQuestions(data)
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return
+        console.error('Error loading check-in questions:', error)
+        const cached = userId
+          ? loadCachedResponse<{ questions?: CheckInQuestion[]; bodyMapRegions?: string[] }>(userId, 'questionnaires/my-questions')
+          : null
+        if (cached) {
+          applyQuestions(cached.data)
+        }
+      }
+    }
+
+    const applyQuestions = (data: { questions?: CheckInQuestion[]; bodyMapRegions?: string[] }) => {
+      const questions: CheckInQuestion[] = data.questions || []
+      setCustomQuestions(questions)
+      setBodyMapRegions(data.bodyMapRegions || [])
+
+      // Defaults: scales start at their minimum, multi-selects/body map start empty ("none")
+      const defaults: Record<string, CustomAnswerValue> = {}
+      questions.forEach(question => {
+        if (question.question_type === 'scale') defaults[question.question_key] = question.min_value ?? 0
+        if (question.question_type === 'multi_choice' || question.question_type === 'body_map') defaults[question.question_key] = []
+      })
+      setCustomAnswers(defaults)
+    }
+
+    loadCustomQuestions()
+
+    return () => {
+      abortController.abort()
+    }
+  }, [userId])
 
   // Load shift info on component mount
   useEffect(() => {
@@ -196,9 +359,11 @@ export function DailyCheckIn() {
           const data = await response.json()
           if (isMounted) {
             setShiftInfo(data)
+            setOfflineSince(null)
             // Check if worker has assigned schedule from team leader (only individual schedules, no fallback)
             const hasSchedule = data.scheduleSource === 'team_leader'
             setHasAssignedSchedule(hasSchedule)
+            if (userId) cacheResponse(userId, `checkins/shift-info:${getLocalDateKey()}`, data)
           }
         } else {
           const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
@@ -231,6 +396,17 @@ export function DailyCheckIn() {
         if (error.name === 'AbortError') return
         if (isMounted) {
           console.error('Error loading shift info:', error)
+          // Offline: use today's schedule as last loaded - the server re-checks the window
+          // against the capture time when the queued check-in is sent
+          const cached = userId && isNetworkError(error)
+            ? loadCachedResponse<ShiftInfo>(userId, `checkins/shift-info:${getLocalDateKey()}`)
+            : null
+          if (cached) {
+            setShiftInfo(cached.data)
+            setHasAssignedSchedule(cached.data.scheduleSource === 'team_leader')
+            setOfflineSince(cached.cachedAt)
+            return
+          }
           // Set default flexible schedule on error (no assigned schedule)
           setShiftInfo({
             hasShift: false,
@@ -261,7 +437,7 @@ export function DailyCheckIn() {
       isMounted = false
       abortController.abort()
     }
-  }, [])
+  }, [userId])
 
   // Get day name (today or yesterday for check-in windows)
   const getDayName = (offset: number = 0): string => {
@@ -335,49 +511,222 @@ export function DailyCheckIn() {
     return '#ef4444' // Red
   }
 
+  const setCustomAnswer = (key: string, value: CustomAnswerValue) => {
+    setCustomAnswers(prev => ({ ...prev, [key]: value }))
+  }
+
+  const toggleCustomAnswerItem = (key: string, item: string) => {
+    setCustomAnswers(prev => {
+      const current = Array.isArray(prev[key]) ? (prev[key] as string[]) : []
+      return {
+        ...prev,
+        [key]: current.includes(item) ? current.filter(i => i !== item) : [...current, item],
+      }
+    })
+  }
+
+  // Render a team-defined check-in question
+  const renderCustomQuestion = (question: CheckInQuestion) => {
+    const key = question.question_key
+    const value = customAnswers[key]
+
+    switch (question.question_type) {
+      case 'boolean':
+        return (
+          <div className="checkin-choice-row">
+            {[true, false].map(option => (
+              <button
+                key={String(option)}
+                type="button"
+                className={`checkin-choice-btn ${value === option ? 'selected' : ''}`}
+                onClick={() => setCustomAnswer(key, option)}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        )
+      case 'scale': {
+        const min = question.min_value ?? 0
+        const max = question.max_value ?? 10
+        const current = typeof value === 'number' ? value : min
+        return (
+          <div className="checkin-slider-wrapper">
+            <input
+              type="range"
+              min={min}
+              max={max}
+              value={current}
+              onChange={(e) => setCustomAnswer(key, Number(e.target.value))}
+              className="checkin-slider"
+              style={{
+                '--slider-color': getSliderColor(current - min, max - min),
+                '--slider-percentage': `${((current - min) / (max - min)) * 100}%`,
+              } as React.CSSProperties & { '--slider-color': string; '--slider-percentage': string }}
+            />
+          </div>
+        )
+      }
+      case 'number':
+        return (
+          <input
+            type="number"
+            className="checkin-number-input"
+            min={question.min_value ?? undefined}
+            max={question.max_value ?? undefined}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => {
+              if (e.target.value === '') {
+                setCustomAnswers(prev => {
+                  const next = { ...prev }
+                  delete next[key]
+                  return next
+                })
+              } else {
+                setCustomAnswer(key, Number(e.target.value))
+              }
+            }}
+          />
+        )
+      case 'single_choice':
+        return (
+          <div className="checkin-choice-row">
+            {question.options.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                className={`checkin-choice-btn ${value === option.value ? 'selected' : ''}`}
+                onClick={() => setCustomAnswer(key, option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )
+      case 'multi_choice':
+      case 'body_map': {
+        const items = question.question_type === 'body_map'
+          ? bodyMapRegions.map(region => ({ value: region, label: formatBodyRegion(region) }))
+          : question.options
+        const selected = Array.isArray(value) ? value : []
+        return (
+          <div className="checkin-choice-row">
+            {items.map(item => (
+              <button
+                key={item.value}
+                type="button"
+                className={`checkin-choice-btn ${selected.includes(item.value) ? 'selected' : ''}`}
+                onClick={() => toggleCustomAnswerItem(key, item.value)}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        )
+      }
+      case 'text':
+        return (
+          <textarea
+            className="checkin-textarea"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setCustomAnswer(key, e.target.value)}
+            maxLength={500}
+            rows={2}
+          />
+        )
+      default:
+        return null
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setValidationError(null)
     
+    const missingQuestion = findMissingRequiredAnswer(customQuestions, customAnswers)
+    if (missingQuestion) {
+      setValidationError(`Please answer "${missingQuestion}".`)
+      return
+    }
+
     // Validate: Additional notes are required when "Not fit to work" (Red)
     if (readiness.level === 'Red' && (!additionalNotes || additionalNotes.trim() === '')) {
       setValidationError('Additional notes are required when you are not fit to work. Please explain your condition so your team leader can understand your situation.')
       return
     }
     
-    try {
-      const checkInData = {
-        painLevel,
-        fatigueLevel,
-        sleepQuality,
-        stressLevel,
-        additionalNotes,
-        predictedReadiness: readiness.level,
+    if (hasQueuedCheckIn || submitting) return
+
+    // Capture time is sent with the check-in so a queued submission is judged against
+    // the window it was filled in, not the time it syncs
+    const url = `${API_BASE_URL}/api/checkins/submit`
+    const idempotencyKey = crypto.randomUUID()
+    const checkInData = {
+      painLevel,
+      fatigueLevel,
+      sleepQuality,
+      stressLevel,
+      additionalNotes,
+      predictedReadiness: readiness.level,
+      customAnswers,
+      capturedAt: new Date().toISOString(),
+    }
+
+    // Hand the check-in to the service worker to send once the connection is back
+    const queueCheckIn = async (): Promise<boolean> => {
+      if (!outboxSupported || !userId) return false
+      try {
+        await enqueueRequest({ id: idempotencyKey, userId, kind: 'checkin', url, method: 'POST', bodyType: 'json', fields: checkInData, files: {} })
+        await refreshQueuedCheckIns()
+        setQueuedNotice('You appear to be offline. Your check-in is saved with the time you completed it and will be sent automatically when you reconnect.')
+        return true
+      } catch (queueError) {
+        console.error('Error queueing check-in:', queueError)
+        return false
       }
+    }
 
-      const response = await fetch(`${API_BASE_URL}/api/checkins`, {
+    try {
+      setSubmitting(true)
+      setQueuedNotice('')
+
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
         },
         credentials: 'include',
         body: JSON.stringify(checkInData),
       })
 
-      const data = await response.json()
+      const data = await response.json().catch(() => ({}))
 
       if (!response.ok) {
+        // Server-side failures are worth retrying later; validation errors are not
+        if (response.status >= 500 && await queueCheckIn()) {
+          return
+        }
         alert(data.error || 'Failed to submit check-in. Please try again.')
         return
       }
 
       // Show success message and redirect
-      alert('Check-in submitted successfully!')
+      if (data.readiness?.mismatch) {
+        alert(`Check-in submitted successfully! Your readiness was recorded as ${data.readiness.computed} based on your team's current readiness rules.`)
+      } else {
+        alert('Check-in submitted successfully!')
+      }
       // Reload dashboard to update status
       window.location.href = '/dashboard/worker'
     } catch (error: any) {
       console.error('Check-in error:', error)
+      if (isNetworkError(error) && await queueCheckIn()) {
+        return
+      }
       alert('Failed to submit check-in. Please try again.')
+    } finally {
+      setSubmitting(false)
     }
   }
 
@@ -401,6 +750,41 @@ export function DailyCheckIn() {
           <p className="checkin-subtitle">Takes 15 seconds • Help us keep you safe</p>
         </div>
 
+        {offlineSince && (
+          <div className="checkin-offline-banner">
+            You're offline - showing your schedule as of {new Date(offlineSince).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+            You can still check in; it will be sent when you reconnect.
+          </div>
+        )}
+
+        {queuedNotice && (
+          <div className="checkin-queued-notice">{queuedNotice}</div>
+        )}
+
+        {/* Check-in waiting in the offline outbox */}
+        {!hasAlreadyCheckedIn && queuedCheckIn && (
+          <div className={`checkin-queued-card ${queuedCheckIn.status}`}>
+            <div className="checkin-queued-info">
+              <span className="checkin-queued-title">
+                {queuedCheckIn.status === 'failed' ? 'Offline check-in not submitted' : 'Check-in saved offline'}
+              </span>
+              <span className="checkin-queued-status">
+                {queuedCheckIn.status === 'failed'
+                  ? queuedCheckIn.lastError || 'Rejected by the server'
+                  : `Completed at ${new Date(queuedCheckIn.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - waiting for connection`}
+              </span>
+            </div>
+            <div className="checkin-queued-actions">
+              {queuedCheckIn.status === 'pending' && (
+                <button type="button" onClick={flushQueuedCheckIns}>Send Now</button>
+              )}
+              <button type="button" onClick={() => discardQueuedCheckIn(queuedCheckIn.id)}>
+                {queuedCheckIn.status === 'failed' ? 'Dismiss' : 'Discard'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Loading Check-in Status */}
         {loadingCheckInStatus && (
           <div style={{
@@ -849,7 +1233,7 @@ export function DailyCheckIn() {
           </div>
         )}
 
-        {!loadingCheckInStatus && !hasActiveException && !hasAlreadyCheckedIn && hasAssignedSchedule && (
+        {!loadingCheckInStatus && !hasActiveException && !hasAlreadyCheckedIn && !hasQueuedCheckIn && hasAssignedSchedule && (
         <form onSubmit={handleSubmit} className="checkin-form-card">
           <div className="checkin-section">
             <h2 className="checkin-section-title">How are you feeling today?</h2>
@@ -953,6 +1337,24 @@ export function DailyCheckIn() {
               </div>
             </div>
 
+            {/* Team Custom Questions */}
+            {customQuestions.map(question => (
+              <div key={question.id} className="checkin-slider-group">
+                <div className="checkin-slider-header">
+                  <label className="checkin-slider-label">
+                    {question.label}{question.is_required ? ' *' : ''}
+                  </label>
+                  {question.question_type === 'scale' && (
+                    <span className="checkin-slider-value">
+                      {String(customAnswers[question.question_key] ?? question.min_value ?? 0)}/{question.max_value ?? 10}
+                    </span>
+                  )}
+                </div>
+                {question.help_text && <p className="checkin-slider-desc">{question.help_text}</p>}
+                {renderCustomQuestion(question)}
+              </div>
+            ))}
+
             {/* Additional Notes */}
             <div className="checkin-textarea-group">
               <label className="checkin-textarea-label">
@@ -1009,13 +1411,13 @@ export function DailyCheckIn() {
           <button 
             type="submit" 
             className="checkin-submit-btn"
-            disabled={!hasAssignedSchedule}
+            disabled={!hasAssignedSchedule || submitting}
             style={{
-              opacity: hasAssignedSchedule ? 1 : 0.5,
-              cursor: hasAssignedSchedule ? 'pointer' : 'not-allowed',
+              opacity: hasAssignedSchedule && !submitting ? 1 : 0.5,
+              cursor: hasAssignedSchedule && !submitting ? 'pointer' : 'not-allowed',
             }}
           >
-            Submit Check-In
+            {submitting ? 'Submitting...' : 'Submit Check-In'}
           </button>
         </form>
         )}
@@ -3,6 +3,11 @@ import { useNavigate } from 'react-router-dom'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { useAuth } from '../../../contexts/AuthContext'
+import { useOfflineOutbox } from '../../../hooks/useOfflineOutbox'
+import { enqueueRequest, listOutbox } from '../../../utils/offlineOutbox'
+import { cacheResponse, loadCachedResponse } from '../../../utils/offlineCache'
+import { formatPrescription } from '../../../utils/rehabilitationSchedule'
 import './RecoveryPlan.css'
 
 interface Exercise {
@@ -12,6 +17,8 @@ interface Exercise {
   instructions: string | null
   video_url: string | null
   exercise_order: number
+  // Today's dose in a phased plan (null = plan without phases, use repetitions)
+  prescription?: { sets: number | null; repetitions: number | null; hold_seconds: number | null } | null
 }
 
 interface RehabilitationPlan {
@@ -26,11 +33,29 @@ interface RehabilitationPlan {
   daysCompleted: number
   totalDays: number
   exercises: Exercise[]
+  isRestDay?: boolean
+  currentPhase?: { id: string; name: string; phase_order: number } | null
   status: string
 }
 
+const PAIN_LEVELS = Array.from({ length: 11 }, (_, i) => i)
+const DIFFICULTY_LABELS: Record<number, string> = {
+  1: 'Very easy',
+  2: 'Easy',
+  3: 'Moderate',
+  4: 'Hard',
+  5: 'Very hard',
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown): boolean => {
+  return err instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)
+}
+
 export function RecoveryPlan() {
   const navigate = useNavigate()
+  const { user } = useAuth()
+  const userId = user?.id
   const [plan, setPlan] = useState<RehabilitationPlan | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -40,6 +65,15 @@ export function RecoveryPlan() {
   const [dayCompleted, setDayCompleted] = useState(false)
   const [nextAvailableTime, setNextAvailableTime] = useState<Date | null>(null)
   const [canProceed, setCanProceed] = useState(true)
+  const [offline, setOffline] = useState(false)
+  const [painBefore, setPainBefore] = useState('')
+  const [painLevel, setPainLevel] = useState('')
+  const [difficulty, setDifficulty] = useState('')
+  const [note, setNote] = useState('')
+
+  // Completions saved while offline - sent by the service worker when the connection is back
+  const { entries: queuedCompletions, supported: outboxSupported, refresh: refreshQueuedCompletions } = useOfflineOutbox('exercise_completion')
+  const pendingCompletions = queuedCompletions.filter(entry => entry.status === 'pending').length
 
   useEffect(() => {
     fetchPlan()
@@ -48,22 +82,47 @@ export function RecoveryPlan() {
   const fetchPlan = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`${API_BASE_URL}/api/checkins/rehabilitation-plan`, {
-        credentials: 'include',
-      })
+      let data: { plan?: RehabilitationPlan | null }
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/checkins/rehabilitation-plan`, {
+          credentials: 'include',
+        })
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch rehabilitation plan')
-      }
+        if (!response.ok) {
+          throw new Error('Failed to fetch rehabilitation plan')
+        }
 
-      const data = await response.json()
+        data = await response.json()
+        setOffline(false)
+        if (userId) cacheResponse(userId, 'checkins/rehabilitation-plan', data)
+      } catch (fetchError) {
+        // Offline: show the plan as last loaded so exercises can still be completed
+        const cached = userId && isNetworkError(fetchError)
+          ? loadCachedResponse<{ plan?: RehabilitationPlan | null }>(userId, 'checkins/rehabilitation-plan')
+          : null
+        if (!cached) throw fetchError
+        data = cached.data
+        setOffline(true)
+      }
       
       if (data.plan) {
         setPlan(data.plan)
         setCurrentExerciseIndex(0)
-        // Check which exercises are completed for the current day
-        // Only check for the current day that should be shown (considering 6 AM restriction)
-        await checkCompletedExercisesForCurrentDay(data.plan.id, data.plan.exercises.length, data.plan.currentDay, data.plan.startDate)
+        if (data.plan.isRestDay) {
+          // Nothing to do on a rest day - the next day opens at 6:00 AM like after a completed day
+          const startParts = data.plan.startDate.split('T')[0].split('-')
+          const nextDayDate = new Date(parseInt(startParts[0]), parseInt(startParts[1]) - 1, parseInt(startParts[2]))
+          nextDayDate.setDate(nextDayDate.getDate() + data.plan.currentDay)
+          nextDayDate.setHours(6, 0, 0, 0)
+          setCompletedExercisesToday(new Set())
+          setDayCompleted(true)
+          setNextAvailableTime(nextDayDate)
+          setCanProceed(new Date() >= nextDayDate)
+        } else {
+          // Check which exercises are completed for the current day
+          // Only check for the current day that should be shown (considering 6 AM restriction)
+          await checkCompletedExercisesForCurrentDay(data.plan.id, data.plan.exercises.length, data.plan.currentDay, data.plan.startDate)
+        }
       } else {
         setError('No active rehabilitation plan found')
       }
@@ -109,14 +168,29 @@ export function RecoveryPlan() {
         totalExercises
       })
       
-      const response = await fetch(
-        `${API_BASE_URL}/api/checkins/rehabilitation-plan/completions?plan_id=${planId}&date=${currentDayDateStr}`,
-        { credentials: 'include' }
-      )
-      
-      if (response.ok) {
-        const data = await response.json()
-        const completedSet = new Set(data.completed_exercise_ids || [])
+      const cacheKey = `checkins/rehabilitation-plan/completions:${planId}:${currentDayDateStr}`
+      let data: { completed_exercise_ids?: string[] } | null = null
+      try {
+        const response = await fetch(
+          `${API_BASE_URL}/api/checkins/rehabilitation-plan/completions?plan_id=${planId}&date=${currentDayDateStr}`,
+          { credentials: 'include' }
+        )
+        if (response.ok) {
+          data = await response.json()
+          if (userId) cacheResponse(userId, cacheKey, data)
+        }
+      } catch (fetchError) {
+        if (!userId || !isNetworkError(fetchError)) throw fetchError
+        data = loadCachedResponse<{ completed_exercise_ids?: string[] }>(userId, cacheKey)?.data ?? { completed_exercise_ids: [] }
+      }
+
+      if (data) {
+        // Completions still waiting in the outbox count as done
+        const queued = outboxSupported && userId ? await listOutbox(userId, 'exercise_completion') : []
+        const queuedIds = queued
+          .filter(entry => entry.status === 'pending' && entry.fields.plan_id === planId)
+          .map(entry => String(entry.fields.exercise_id))
+        const completedSet = new Set<string>([...(data.completed_exercise_ids || []), ...queuedIds])
         setCompletedExercisesToday(completedSet)
         
         console.log('[RecoveryPlan] Completions received:', {
@@ -174,22 +248,49 @@ export function RecoveryPlan() {
   const handleComplete = async () => {
     if (!plan || !plan.exercises[currentExerciseIndex] || dayCompleted) return
 
+    // Sent with its capture time so a completion synced later counts for the day it was done
+    const url = `${API_BASE_URL}/api/checkins/rehabilitation-plan/complete-exercise`
+    const idempotencyKey = crypto.randomUUID()
+    const completion = {
+      plan_id: plan.id,
+      exercise_id: plan.exercises[currentExerciseIndex].id,
+      capturedAt: new Date().toISOString(),
+      // How it felt - optional, reviewed by the clinician
+      ...(painBefore !== '' ? { pain_before: Number(painBefore) } : {}),
+      ...(painLevel !== '' ? { pain_level: Number(painLevel) } : {}),
+      ...(difficulty !== '' ? { difficulty: Number(difficulty) } : {}),
+      ...(note.trim() ? { note: note.trim() } : {}),
+    }
+
     try {
       setCompleting(true)
-      const response = await fetch(`${API_BASE_URL}/api/checkins/rehabilitation-plan/complete-exercise`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          plan_id: plan.id,
-          exercise_id: plan.exercises[currentExerciseIndex].id,
-        }),
-      })
+      let queued = false
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': idempotencyKey,
+          },
+          credentials: 'include',
+          body: JSON.stringify(completion),
+        })
 
-      if (!response.ok) {
-        throw new Error('Failed to mark exercise as completed')
+        if (!response.ok) {
+          throw new Error('Failed to mark exercise as completed')
+        }
+      } catch (sendError) {
+        if (!isNetworkError(sendError) || !outboxSupported || !userId) throw sendError
+        await enqueueRequest({ id: idempotencyKey, userId, kind: 'exercise_completion', url, method: 'POST', bodyType: 'json', fields: completion, files: {} })
+        await refreshQueuedCompletions()
+        queued = true
       }
 
+      setPainBefore('')
+      setPainLevel('')
+      setDifficulty('')
+      setNote('')
+
       // Immediately update the completed exercises state to disable the button
       const completedExerciseId = plan.exercises[currentExerciseIndex].id
       setCompletedExercisesToday(prev => new Set([...prev, completedExerciseId]))
@@ -229,7 +330,9 @@ export function RecoveryPlan() {
       }
 
       // Refresh plan to get updated progress (async, won't block UI update)
-      fetchPlan().catch(err => console.error('Error refreshing plan:', err))
+      if (!queued) {
+        fetchPlan().catch(err => console.error('Error refreshing plan:', err))
+      }
     } catch (err: any) {
       console.error('Error completing exercise:', err)
       alert(err.message || 'Failed to complete exercise')
@@ -341,6 +444,9 @@ export function RecoveryPlan() {
           <div>
             <h1 className="recovery-plan-title">{plan.plan_name}</h1>
             <p className="recovery-plan-subtitle">{plan.plan_description}</p>
+            {plan.currentPhase && (
+              <p className="recovery-plan-phase">{plan.currentPhase.name}</p>
+            )}
           </div>
           <div className="recovery-plan-day-badge">
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -351,6 +457,15 @@ export function RecoveryPlan() {
           </div>
         </div>
 
+        {(offline || pendingCompletions > 0) && (
+          <div className="recovery-plan-offline">
+            {offline ? "You're offline - showing your plan as last loaded. " : ''}
+            {pendingCompletions > 0
+              ? `${pendingCompletions} completed exercise${pendingCompletions === 1 ? '' : 's'} will be synced when you reconnect.`
+              : 'Completed exercises will be synced when you reconnect.'}
+          </div>
+        )}
+
         {/* Progress Bar */}
         <div className="recovery-plan-progress-section">
           <span className="recovery-plan-progress-label">Progress</span>
@@ -361,7 +476,7 @@ export function RecoveryPlan() {
             ></div>
           </div>
           <span className="recovery-plan-progress-count">
-            {currentExerciseIndex + 1} of {plan.exercises.length}
+            {plan.isRestDay ? 'Rest day' : `${currentExerciseIndex + 1} of ${plan.exercises.length}`}
           </span>
         </div>
 
@@ -372,7 +487,9 @@ export function RecoveryPlan() {
             <div className="recovery-plan-exercise-header">
               <div>
                 <h2 className="recovery-plan-exercise-name">{currentExercise.exercise_name}</h2>
-                {currentExercise.repetitions && (
+                {currentExercise.prescription && formatPrescription(currentExercise.prescription) ? (
+                  <p className="recovery-plan-exercise-reps">{formatPrescription(currentExercise.prescription)}</p>
+                ) : currentExercise.repetitions && (
                   <p className="recovery-plan-exercise-reps">{currentExercise.repetitions}</p>
                 )}
               </div>
@@ -426,6 +543,53 @@ export function RecoveryPlan() {
               </div>
             )}
 
+            {/* How it felt - sent with the completion */}
+            {!completedExercisesToday.has(currentExercise.id) && (
+              <div className="recovery-plan-feedback">
+                <label>
+                  Pain before
+                  <select value={painBefore} onChange={(e) => setPainBefore(e.target.value)}>
+                    <option value="">Not reported</option>
+                    {PAIN_LEVELS.map(level => (
+                      <option key={level} value={level}>
+                        {level}{level === 0 ? ' - no pain' : level === 10 ? ' - worst pain' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Pain after
+                  <select value={painLevel} onChange={(e) => setPainLevel(e.target.value)}>
+                    <option value="">Not reported</option>
+                    {PAIN_LEVELS.map(level => (
+                      <option key={level} value={level}>
+                        {level}{level === 0 ? ' - no pain' : level === 10 ? ' - worst pain' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Difficulty
+                  <select value={difficulty} onChange={(e) => setDifficulty(e.target.value)}>
+                    <option value="">Not reported</option>
+                    {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="recovery-plan-feedback-note">
+                  Note for your clinician
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    maxLength={1000}
+                    rows={2}
+                    placeholder="Anything you noticed (optional)"
+                  />
+                </label>
+              </div>
+            )}
+
             {/* Play Voiceover Button */}
             <button className="recovery-plan-voiceover-btn">
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -445,7 +609,8 @@ export function RecoveryPlan() {
                 <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path>
               </svg>
               <div>
-                <h3>Day {plan.currentDay} Completed!</h3>
+                <h3>{plan.isRestDay ? `Day ${plan.currentDay}: Rest Day` : `Day ${plan.currentDay} Completed!`}</h3>
+                {plan.isRestDay && <p>No exercises today - rest is part of your recovery.</p>}
                 {plan.currentDay < plan.totalDays ? (
                   <>
                     {canProceed ? (
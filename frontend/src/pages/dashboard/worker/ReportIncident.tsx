@@ -1,8 +1,10 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { API_BASE_URL } from '../../../config/api'
 import { useAuth } from '../../../contexts/AuthContext'
+import { useOfflineOutbox } from '../../../hooks/useOfflineOutbox'
+import { getDraftKey, saveDraft, loadDraft, clearDraft, enqueueRequest, removeFromOutbox, type OutboxEntry } from '../../../utils/offlineOutbox'
 import './ReportIncident.css'
 
 interface ReportFormData {
@@ -14,8 +16,37 @@ interface ReportFormData {
   severity: 'low' | 'medium' | 'high' | 'critical'
 }
 
+interface ReportDraft {
+  formData: ReportFormData
+  idempotencyKey: string
+  savedAt: string
+}
+
+const DRAFT_FORM = 'incident-report'
+const DRAFT_SAVE_DELAY_MS = 500
+
+const createEmptyForm = (): ReportFormData => ({
+  type: 'incident',
+  description: '',
+  date: new Date().toISOString().split('T')[0],
+  location: '',
+  photo: null,
+  severity: 'medium',
+})
+
+const isFormEmpty = (data: ReportFormData): boolean => {
+  return !data.description.trim() && !data.location.trim() && !data.photo
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown): boolean => {
+  return err instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)
+}
+
 export function ReportIncident() {
-  const { role } = useAuth()
+  const { role, user } = useAuth()
+  const userId = user?.id
+  const draftKey = userId ? getDraftKey(DRAFT_FORM, userId) : null
   const navigate = useNavigate()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
@@ -68,18 +99,16 @@ export function ReportIncident() {
     }
   }, [role, API_BASE_URL])
   
-  const [formData, setFormData] = useState<ReportFormData>({
-    type: 'incident',
-    description: '',
-    date: new Date().toISOString().split('T')[0],
-    location: '',
-    photo: null,
-    severity: 'medium',
-  })
+  const [formData, setFormData] = useState<ReportFormData>(createEmptyForm)
   const [photoPreview, setPhotoPreview] = useState<string | null>(null)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState(false)
+  const [queuedNotice, setQueuedNotice] = useState('')
+  // One key per report - reused on every retry so the server never creates a duplicate
+  const [idempotencyKey, setIdempotencyKey] = useState<string>(() => crypto.randomUUID())
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [draftRestored, setDraftRestored] = useState(false)
   const [analyzing, setAnalyzing] = useState(false)
   const [checkingStatus, setCheckingStatus] = useState(true)
   const [canReport, setCanReport] = useState(true)
@@ -97,6 +126,111 @@ export function ReportIncident() {
     advice: string
   } | null>(null)
 
+  const showPhotoPreview = (file: File | null) => {
+    if (!file) {
+      setPhotoPreview(null)
+      return
+    }
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      setPhotoPreview(reader.result as string)
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Restore a saved draft (typed text and photo survive failed requests and closed tabs)
+  useEffect(() => {
+    if (!draftKey) return
+    let cancelled = false
+    // Drafts from before they were keyed by user can't be attributed to anyone
+    clearDraft(DRAFT_FORM).catch(() => undefined)
+    loadDraft<ReportDraft>(draftKey)
+      .then((draft) => {
+        if (cancelled || !draft) return
+        setFormData(draft.formData)
+        setIdempotencyKey(draft.idempotencyKey)
+        showPhotoPreview(draft.formData.photo)
+        setDraftRestored(!isFormEmpty(draft.formData))
+      })
+      .catch((err) => console.error('Error loading incident draft:', err))
+      .finally(() => {
+        if (!cancelled) setDraftLoaded(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [draftKey])
+
+  // Save the draft as the worker types
+  useEffect(() => {
+    if (!draftLoaded || !draftKey) return
+    const timeout = setTimeout(() => {
+      const save = isFormEmpty(formData)
+        ? clearDraft(draftKey)
+        : saveDraft<ReportDraft>(draftKey, { formData, idempotencyKey, savedAt: new Date().toISOString() })
+      save.catch((err) => console.error('Error saving incident draft:', err))
+    }, DRAFT_SAVE_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [formData, idempotencyKey, draftLoaded, draftKey])
+
+  const handleQueuedSent = useCallback(() => {
+    setQueuedNotice('Your queued report has been sent. Your supervisor has been notified.')
+  }, [])
+
+  const handleQueuedFailed = useCallback((_id: string, message: string) => {
+    setQueuedNotice('')
+    setError(`Your queued report could not be submitted: ${message}`)
+  }, [])
+
+  const { entries: queuedReports, supported: outboxSupported, flush: flushQueuedReports } = useOfflineOutbox('incident_report', {
+    onSent: handleQueuedSent,
+    onFailed: handleQueuedFailed,
+  })
+  const hasPendingReport = queuedReports.some(entry => entry.status === 'pending')
+
+  const resetForm = () => {
+    setFormData(createEmptyForm())
+    setPhotoPreview(null)
+    setIdempotencyKey(crypto.randomUUID())
+    setDraftRestored(false)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    if (draftKey) {
+      clearDraft(draftKey).catch((err) => console.error('Error clearing incident draft:', err))
+    }
+  }
+
+  const discardDraft = () => {
+    resetForm()
+    setError('')
+  }
+
+  // Move a rejected queued report back into the form so the worker can fix and resend it
+  const editQueuedReport = async (entry: OutboxEntry) => {
+    const fields = entry.fields as Record<string, string>
+    const restored: ReportFormData = {
+      type: fields.type === 'near_miss' ? 'near_miss' : 'incident',
+      description: fields.description || '',
+      date: fields.incident_date || createEmptyForm().date,
+      location: fields.location || '',
+      photo: entry.files.photo || null,
+      severity: (fields.severity as ReportFormData['severity']) || 'medium',
+    }
+    setFormData(restored)
+    showPhotoPreview(restored.photo)
+    setIdempotencyKey(crypto.randomUUID())
+    setError('')
+    await removeFromOutbox(entry.id)
+    await flushQueuedReports()
+  }
+
+  const discardQueuedReport = async (entry: OutboxEntry) => {
+    if (!window.confirm('Discard this report? It will not be submitted.')) return
+    await removeFromOutbox(entry.id)
+    await flushQueuedReports()
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
@@ -119,13 +253,7 @@ export function ReportIncident() {
       }
 
       setFormData(prev => ({ ...prev, photo: file }))
-      
-      // Create preview
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setPhotoPreview(reader.result as string)
-      }
-      reader.readAsDataURL(file)
+      showPhotoPreview(file)
       setError('')
     }
   }
@@ -185,9 +313,13 @@ export function ReportIncident() {
       if (data.success && data.analysis) {
         setAnalysisResult(data.analysis)
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error analyzing incident report:', err)
-      setError(err.message || 'Failed to analyze incident report. Please try again.')
+      if (isNetworkError(err)) {
+        setError('AI analysis needs a connection. Your draft is saved - you can still submit the report.')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to analyze incident report. Please try again.')
+      }
     } finally {
       setAnalyzing(false)
     }
@@ -204,6 +336,11 @@ export function ReportIncident() {
       return
     }
 
+    if (hasPendingReport) {
+      setError('You already have a report waiting to be sent. It will be submitted automatically when you are back online.')
+      return
+    }
+
     // Validation
     if (!formData.description.trim()) {
       setError('Please provide a description')
@@ -215,57 +352,78 @@ export function ReportIncident() {
       return
     }
 
+    const url = `${API_BASE_URL}/api/worker/report-incident`
+    const fields: Record<string, string> = {
+      type: formData.type,
+      description: formData.description,
+      incident_date: formData.date,
+      location: formData.location,
+      severity: formData.severity,
+    }
+    const files: Record<string, File> = formData.photo ? { photo: formData.photo } : {}
+
+    // Hand the report to the service worker to send once the connection is back
+    const queueReport = async (): Promise<boolean> => {
+      if (!outboxSupported || !userId) return false
+      try {
+        await enqueueRequest({ id: idempotencyKey, userId, kind: 'incident_report', url, method: 'POST', bodyType: 'form', fields, files })
+        resetForm()
+        setQueuedNotice('You appear to be offline. Your report is saved and will be sent automatically when you reconnect.')
+        return true
+      } catch (queueError) {
+        console.error('Error queueing incident report:', queueError)
+        return false
+      }
+    }
+
     try {
       setSubmitting(true)
+      setQueuedNotice('')
 
       // Prepare form data
       const formDataToSend = new FormData()
-      formDataToSend.append('type', formData.type)
-      formDataToSend.append('description', formData.description)
-      formDataToSend.append('incident_date', formData.date)
-      formDataToSend.append('location', formData.location)
-      formDataToSend.append('severity', formData.severity)
-      
-      if (formData.photo) {
-        formDataToSend.append('photo', formData.photo)
+      Object.entries(fields).forEach(([name, value]) => formDataToSend.append(name, value))
+      if (files.photo) {
+        formDataToSend.append('photo', files.photo)
       }
 
-      const response = await fetch(`${API_BASE_URL}/api/worker/report-incident`, {
+      const response = await fetch(url, {
         method: 'POST',
         credentials: 'include',
+        headers: {
+          'Idempotency-Key': idempotencyKey,
+        },
         body: formDataToSend,
       })
 
-      const data = await response.json()
+      const data = await response.json().catch(() => ({}))
 
       if (!response.ok) {
+        // Server-side failures are worth retrying later; validation errors are not
+        if (response.status >= 500 && await queueReport()) {
+          return
+        }
         throw new Error(data.error || 'Failed to submit incident report')
       }
 
       setSuccess(true)
-      
-      // Reset form
-      setFormData({
-        type: 'incident',
-        description: '',
-        date: new Date().toISOString().split('T')[0],
-        location: '',
-        photo: null,
-        severity: 'medium',
-      })
-      setPhotoPreview(null)
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
-      }
+      resetForm()
 
       // Redirect after 2 seconds
       setTimeout(() => {
         navigate('/dashboard/worker')
       }, 2000)
 
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error submitting incident report:', err)
-      setError(err.message || 'Failed to submit incident report. Please try again.')
+      if (isNetworkError(err) && await queueReport()) {
+        return
+      }
+      if (isNetworkError(err)) {
+        setError('Could not reach the server. Your draft is saved - please try again when you have a connection.')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to submit incident report. Please try again.')
+      }
     } finally {
       setSubmitting(false)
     }
@@ -305,6 +463,58 @@ export function ReportIncident() {
           </div>
         )}
 
+        {queuedNotice && (
+          <div className="report-incident-queued">
+            <span>{queuedNotice}</span>
+          </div>
+        )}
+
+        {/* Reports waiting in the offline outbox */}
+        {queuedReports.length > 0 && (
+          <div className="report-incident-outbox">
+            <h3>Reports waiting to be sent</h3>
+            <ul className="report-incident-outbox-list">
+              {queuedReports.map((entry) => (
+                <li key={entry.id} className={`report-incident-outbox-item ${entry.status}`}>
+                  <div className="report-incident-outbox-info">
+                    <span className="report-incident-outbox-title">
+                      {entry.fields.type === 'near_miss' ? 'Near-Miss' : 'Incident'} - {String(entry.fields.location ?? '')}
+                    </span>
+                    <span className="report-incident-outbox-status">
+                      {entry.status === 'failed'
+                        ? `Not submitted: ${entry.lastError || 'rejected by the server'}`
+                        : `Saved ${new Date(entry.createdAt).toLocaleString()} - waiting for connection`}
+                    </span>
+                  </div>
+                  <div className="report-incident-outbox-actions">
+                    {entry.status === 'failed' ? (
+                      <button type="button" className="btn-secondary" onClick={() => editQueuedReport(entry)}>
+                        Edit
+                      </button>
+                    ) : (
+                      <button type="button" className="btn-secondary" onClick={flushQueuedReports}>
+                        Send Now
+                      </button>
+                    )}
+                    <button type="button" className="btn-secondary" onClick={() => discardQueuedReport(entry)}>
+                      Discard
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {draftRestored && (
+          <div className="report-incident-draft">
+            <span>Your unsent draft has been restored.</span>
+            <button type="button" className="report-incident-draft-discard" onClick={discardDraft}>
+              Discard draft
+            </button>
+          </div>
+        )}
+
         {/* Active Case Warning */}
         {!checkingStatus && !canReport && activeCaseInfo && (
           <div className="report-incident-active-case">
@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import type { BookingOption } from '../../../utils/clinicianAvailability'
+import { isJoinWindowOpen, resolveJoinUrl, type JoinWindow, type VisitMode } from '../../../utils/telehealth'
+import { AppointmentBookingModal } from './AppointmentBookingModal'
 import './WorkerAppointments.css'
 
 interface Appointment {
@@ -15,15 +18,25 @@ interface Appointment {
   appointmentDate: string
   appointmentTime: string
   durationMinutes: number
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'declined'
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'declined' | 'no_show'
   appointmentType: 'consultation' | 'follow_up' | 'assessment' | 'review' | 'other'
   location: string
   notes: string
   cancellationReason: string
+  bookedBy: 'clinician' | 'worker'
+  workerRescheduleCount: number
+  visitMode: VisitMode
+  joinWindow: JoinWindow | null
+  sessionStartedAt: string | null
+  sessionEndedAt: string | null
   createdAt: string
   updatedAt: string
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  no_show: 'Missed',
+}
+
 const TYPE_LABELS: Record<string, string> = {
   consultation: 'Consultation',
   follow_up: 'Follow-up',
@@ -44,6 +57,18 @@ export function WorkerAppointments() {
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null)
   const [showDetailModal, setShowDetailModal] = useState(false)
   const [updating, setUpdating] = useState(false)
+  const [success, setSuccess] = useState('')
+  const [bookingOptions, setBookingOptions] = useState<BookingOption[]>([])
+  const [showBookingModal, setShowBookingModal] = useState(false)
+  const [rescheduleAppointment, setRescheduleAppointment] = useState<Appointment | null>(null)
+  const [joiningId, setJoiningId] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Re-evaluate join windows while the page is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
 
   const fetchAppointments = useCallback(async () => {
     try {
@@ -81,6 +106,41 @@ export function WorkerAppointments() {
     fetchAppointments()
   }, [fetchAppointments])
 
+  // Cases with an assigned clinician and their booking rules
+  const fetchBookingOptions = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/checkins/appointments/booking-options`, {
+        method: 'GET',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      setBookingOptions(data.options || [])
+    } catch (err) {
+      console.error('Error fetching booking options:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBookingOptions()
+  }, [fetchBookingOptions])
+
+  const bookableOptions = bookingOptions.filter((option) => option.allowBooking)
+
+  const canReschedule = (appointment: Appointment) =>
+    (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+    bookingOptions.some((option) => option.caseId === appointment.caseId && option.allowReschedule)
+
+  const handleBookingDone = (message: string) => {
+    setShowBookingModal(false)
+    setRescheduleAppointment(null)
+    setShowDetailModal(false)
+    setError('')
+    setSuccess(message)
+    fetchAppointments()
+  }
+
   const handleApprove = async (appointmentId: string) => {
     try {
       setUpdating(true)
@@ -133,6 +193,38 @@ export function WorkerAppointments() {
     }
   }
 
+  const handleJoin = async (appointmentId: string) => {
+    // Open the tab within the click so popup blockers allow it, then point it at the room
+    const videoTab = window.open('', '_blank')
+    try {
+      setJoiningId(appointmentId)
+      setError('')
+      const response = await fetch(`${API_BASE_URL}/api/telehealth/appointments/${appointmentId}/join`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+      })
+
+      const data = await response.json().catch(() => ({ error: 'Failed to join video call' }))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to join video call')
+      }
+
+      const joinUrl = resolveJoinUrl(data.joinUrl)
+      if (videoTab) {
+        videoTab.opener = null
+        videoTab.location.href = joinUrl
+      } else {
+        window.location.href = joinUrl
+      }
+    } catch (err) {
+      videoTab?.close()
+      setError(err instanceof Error ? err.message : 'Failed to join video call')
+    } finally {
+      setJoiningId(null)
+    }
+  }
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
   }
@@ -162,8 +254,19 @@ export function WorkerAppointments() {
               My Appointments
             </h1>
           </div>
+          {bookableOptions.length > 0 && (
+            <button className="btn-primary" onClick={() => setShowBookingModal(true)}>
+              + Book Appointment
+            </button>
+          )}
         </div>
 
+        {success && (
+          <div className="alert alert-success">
+            {success}
+          </div>
+        )}
+
         {error && (
           <div className="alert alert-error">
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -229,7 +332,11 @@ export function WorkerAppointments() {
                       </div>
                       <div>
                         <div className="clinician-name">Dr. {appointment.clinicianName}</div>
-                        <div className="case-number">{appointment.caseNumber}</div>
+                        <div className="case-number">
+                          {appointment.caseNumber}
+                          {appointment.bookedBy === 'worker' && <span className="booked-by-badge">Self-booked</span>}
+                          {appointment.visitMode === 'telehealth' && <span className="visit-mode-badge">Video call</span>}
+                        </div>
                       </div>
                     </div>
                     <div className="appointment-time">
@@ -239,8 +346,17 @@ export function WorkerAppointments() {
                   </div>
                   <div className="appointment-actions">
                     <span className={`status-badge status-${appointment.status}`}>
-                      {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+                      {STATUS_LABELS[appointment.status] || appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
                     </span>
+                    {isJoinWindowOpen(appointment.joinWindow, now) && (
+                      <button
+                        className="btn-sm btn-join"
+                        onClick={() => handleJoin(appointment.id)}
+                        disabled={joiningId === appointment.id}
+                      >
+                        {joiningId === appointment.id ? 'Joining...' : 'Join Video Call'}
+                      </button>
+                    )}
                     {appointment.status === 'pending' && (
                       <>
                         <button
@@ -259,6 +375,15 @@ export function WorkerAppointments() {
                         </button>
                       </>
                     )}
+                    {canReschedule(appointment) && (
+                      <button
+                        className="btn-sm btn-secondary"
+                        onClick={() => setRescheduleAppointment(appointment)}
+                        disabled={updating}
+                      >
+                        Reschedule
+                      </button>
+                    )}
                     <button
                       className="btn-sm btn-primary"
                       onClick={() => {
@@ -279,7 +404,17 @@ export function WorkerAppointments() {
                     <span className="detail-label">Duration:</span>
                     <span>{appointment.durationMinutes} minutes</span>
                   </div>
-                  {appointment.location && (
+                  {appointment.visitMode === 'telehealth' ? (
+                    <div className="detail-item">
+                      <span className="detail-label">Location:</span>
+                      <span>
+                        Video call
+                        {appointment.joinWindow && !isJoinWindowOpen(appointment.joinWindow, now) &&
+                          now < new Date(appointment.joinWindow.opensAt).getTime() &&
+                          ` (opens ${new Date(appointment.joinWindow.opensAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })})`}
+                      </span>
+                    </div>
+                  ) : appointment.location && (
                     <div className="detail-item">
                       <span className="detail-label">Location:</span>
                       <span>{appointment.location}</span>
@@ -379,7 +514,12 @@ export function WorkerAppointments() {
                     <span className="detail-label">Type:</span>
                     <span>{TYPE_LABELS[selectedAppointment.appointmentType] || selectedAppointment.appointmentType}</span>
                   </div>
-                  {selectedAppointment.location && (
+                  {selectedAppointment.visitMode === 'telehealth' ? (
+                    <div className="detail-row">
+                      <span className="detail-label">Location:</span>
+                      <span>Video call - a join button appears here shortly before the start</span>
+                    </div>
+                  ) : selectedAppointment.location && (
                     <div className="detail-row">
                       <span className="detail-label">Location:</span>
                       <span>{selectedAppointment.location}</span>
@@ -394,7 +534,7 @@ export function WorkerAppointments() {
                   <div className="detail-row">
                     <span className="detail-label">Status:</span>
                     <span className={`status-badge status-${selectedAppointment.status}`}>
-                      {selectedAppointment.status.charAt(0).toUpperCase() + selectedAppointment.status.slice(1)}
+                      {STATUS_LABELS[selectedAppointment.status] || selectedAppointment.status.charAt(0).toUpperCase() + selectedAppointment.status.slice(1)}
                     </span>
                   </div>
                 </div>
@@ -418,10 +558,46 @@ export function WorkerAppointments() {
                     Close
                   </button>
                 )}
+                {canReschedule(selectedAppointment) && (
+                  <button className="btn-primary" onClick={() => setRescheduleAppointment(selectedAppointment)}>
+                    Reschedule
+                  </button>
+                )}
+                {isJoinWindowOpen(selectedAppointment.joinWindow, now) && (
+                  <button
+                    className="btn-primary"
+                    onClick={() => handleJoin(selectedAppointment.id)}
+                    disabled={joiningId === selectedAppointment.id}
+                  >
+                    {joiningId === selectedAppointment.id ? 'Joining...' : 'Join Video Call'}
+                  </button>
+                )}
               </div>
             </div>
           </div>
         )}
+
+        {showBookingModal && (
+          <AppointmentBookingModal
+            options={bookableOptions}
+            onClose={() => setShowBookingModal(false)}
+            onDone={handleBookingDone}
+          />
+        )}
+
+        {rescheduleAppointment && (
+          <AppointmentBookingModal
+            options={[]}
+            reschedule={{
+              appointmentId: rescheduleAppointment.id,
+              clinicianName: rescheduleAppointment.clinicianName,
+              appointmentDate: rescheduleAppointment.appointmentDate,
+              appointmentTime: rescheduleAppointment.appointmentTime,
+            }}
+            onClose={() => setRescheduleAppointment(null)}
+            onDone={handleBookingDone}
+          />
+        )}
       </div>
     </DashboardLayout>
   )
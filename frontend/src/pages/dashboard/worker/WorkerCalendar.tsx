@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { DashboardLayout } from '../../../components/DashboardLayout'
 import { Loading } from '../../../components/Loading'
 import { API_BASE_URL } from '../../../config/api'
+import { CalendarFeeds } from '../../../components/CalendarFeeds'
 import './WorkerCalendar.css'
 
 interface WorkerSchedule {
@@ -20,6 +21,7 @@ interface WorkerSchedule {
   effective_date?: string
   expiry_date?: string
   notes?: string
+  holiday?: string | null // Site public holiday - rostered, but no check-in required
 }
 
 const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
@@ -257,7 +259,12 @@ export function WorkerCalendar() {
                             <div className="schedule-time">
                               {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
                             </div>
-                            {schedule.requires_daily_checkin && (
+                            {schedule.holiday ? (
+                              <div className="daily-checkin-notice">
+                                <strong>{schedule.holiday}</strong>
+                                <div className="checkin-window">Public holiday - no check-in required</div>
+                              </div>
+                            ) : schedule.requires_daily_checkin && (
                               <div className="daily-checkin-notice">
                                 <strong>✓ Daily Check-In Required</strong>
                                 {schedule.daily_checkin_start_time && schedule.daily_checkin_end_time && (
@@ -306,6 +313,12 @@ export function WorkerCalendar() {
                 <span>Daily Check-In Required</span>
               </div>
             </div>
+
+            {/* Calendar sync (.ics feed) */}
+            <div className="calendar-sync">
+              <h3>Sync to Your Calendar</h3>
+              <CalendarFeeds description="See your shifts and appointments in your phone calendar. Changes sync automatically." />
+            </div>
           </>
         )}
       </div>
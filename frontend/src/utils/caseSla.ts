@@ -0,0 +1,58 @@
+/**
+ * Case SLA Types & Helpers
+ * SLA timers on WHS cases and the organization's targets (see backend/src/utils/caseSla.ts).
+ * Timers come with the case lists; the state is recomputed client-side so countdowns stay live.
+ */
+
+export type SlaMetric = 'new' | 'triaged' | 'assessed' | 'clinician_assignment' | 'first_appointment'
+export type SlaSeverity = 'ANY' | 'HIGH' | 'MEDIUM' | 'LOW'
+export type SlaState = 'on_track' | 'due_soon' | 'overdue'
+
+export interface SlaTimer {
+  metric: SlaMetric
+  label: string
+  startedAt: string // ISO
+  dueAt: string // ISO
+  targetHours: number
+  state: SlaState
+}
+
+export interface SlaRule {
+  metric: SlaMetric
+  severity: SlaSeverity
+  targetHours: number | null // null = no SLA
+}
+
+export const SLA_METRIC_OPTIONS: Array<{ value: SlaMetric; label: string; description: string }> = [
+  { value: 'new', label: 'Triage', description: 'Case reaches WHS until it is triaged' },
+  { value: 'triaged', label: 'Assessment', description: 'Time in Triaged status' },
+  { value: 'assessed', label: 'Rehab start', description: 'Time in Assessed status' },
+  { value: 'clinician_assignment', label: 'Clinician assignment', description: 'Case reaches WHS until a clinician is assigned' },
+  { value: 'first_appointment', label: 'First appointment', description: 'Clinician assigned until the first appointment is booked' },
+]
+
+export const SLA_SEVERITIES: SlaSeverity[] = ['ANY', 'HIGH', 'MEDIUM', 'LOW']
+
+const DUE_SOON_FRACTION = 0.25 // Same threshold as the backend
+
+/**
+ * State of a timer at the given time
+ */
+export function getSlaState(timer: SlaTimer, now: number): SlaState {
+  const remainingMs = new Date(timer.dueAt).getTime() - now
+  if (remainingMs <= 0) return 'overdue'
+  return remainingMs < timer.targetHours * 60 * 60 * 1000 * DUE_SOON_FRACTION ? 'due_soon' : 'on_track'
+}
+
+/**
+ * Countdown text, e.g. "5h 20m left" or "Overdue 1d 3h"
+ */
+export function formatSlaCountdown(timer: SlaTimer, now: number): string {
+  const remainingMs = new Date(timer.dueAt).getTime() - now
+  const totalMinutes = Math.floor(Math.abs(remainingMs) / 60000)
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  const duration = days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+  return remainingMs <= 0 ? `Overdue ${duration}` : `${duration} left`
+}
@@ -0,0 +1,136 @@
+/**
+ * Custom Check-in Question Utilities
+ * Types and preview scoring for per-team check-in questions.
+ * Mirrors backend/src/utils/checkinQuestionnaire.ts - the backend validates and scores on submit.
+ */
+
+export type QuestionType = 'boolean' | 'scale' | 'number' | 'single_choice' | 'multi_choice' | 'text' | 'body_map'
+
+export type CustomAnswerValue = boolean | number | string | string[]
+
+export interface QuestionOption {
+  value: string
+  label: string
+  score: number
+}
+
+export interface CheckInQuestion {
+  id: string
+  question_key: string
+  label: string
+  help_text: string | null
+  question_type: QuestionType
+  options: QuestionOption[]
+  min_value: number | null
+  max_value: number | null
+  is_required: boolean
+  scoring_weight: number
+  red_flag_threshold: number | null
+  sort_order: number
+  is_active: boolean
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  boolean: 'Yes / No',
+  scale: 'Scale',
+  number: 'Number',
+  single_choice: 'Single choice',
+  multi_choice: 'Multiple choice',
+  text: 'Text',
+  body_map: 'Body map',
+}
+
+// Per-question summary from the check-in analytics endpoint (aggregateCustomAnswers)
+export interface CustomQuestionSummary {
+  questionId: string
+  key: string
+  label: string
+  type: QuestionType
+  isActive: boolean
+  responseCount: number
+  yesCount?: number
+  noCount?: number
+  yesRate?: number
+  average?: number | null
+  min?: number | null
+  max?: number | null
+  counts?: Record<string, number>
+}
+
+/**
+ * Format body map region for display (left_knee -> Left knee)
+ */
+export function formatBodyRegion(region: string): string {
+  const text = region.replace(/_/g, ' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/**
+ * Numeric contribution of an answer before weighting (same rules as backend)
+ */
+function getAnswerContribution(question: CheckInQuestion, value: CustomAnswerValue | undefined): number {
+  if (value === undefined || value === null) return 0
+
+  switch (question.question_type) {
+    case 'boolean':
+      return value === true ? 1 : 0
+    case 'scale':
+    case 'number':
+      return Number(value) || 0
+    case 'single_choice':
+      return question.options.find(o => o.value === value)?.score || 0
+    case 'multi_choice':
+      return (value as string[]).reduce(
+        (sum, selected) => sum + (question.options.find(o => o.value === selected)?.score || 0),
+        0
+      )
+    case 'body_map':
+      return (value as string[]).length
+    default:
+      return 0
+  }
+}
+
+/**
+ * Preview score and red flags for the readiness indicator
+ * @param questions - Active team questions
+ * @param answers - Answers keyed by question_key
+ * @returns Weighted score and number of red flags triggered
+ */
+export function scoreCustomAnswers(
+  questions: CheckInQuestion[],
+  answers: Record<string, CustomAnswerValue>
+): { score: number; redFlagCount: number } {
+  let score = 0
+  let redFlagCount = 0
+
+  questions.forEach(question => {
+    const value = answers[question.question_key]
+    if (value === undefined) return
+    const contribution = getAnswerContribution(question, value)
+    score += contribution * question.scoring_weight
+    if (question.red_flag_threshold !== null && contribution >= question.red_flag_threshold) {
+      redFlagCount++
+    }
+  })
+
+  return { score, redFlagCount }
+}
+
+/**
+ * Find the first required question without an answer
+ * @returns Question label or null if all required questions are answered
+ */
+export function findMissingRequiredAnswer(
+  questions: CheckInQuestion[],
+  answers: Record<string, CustomAnswerValue>
+): string | null {
+  const missing = questions.find(question => {
+    if (!question.is_required) return false
+    const value = answers[question.question_key]
+    if (value === undefined || value === null) return true
+    if (question.question_type === 'text') return String(value).trim() === ''
+    return false
+  })
+  return missing ? missing.label : null
+}
@@ -0,0 +1,45 @@
+/**
+ * Clinician Assignment Types
+ * Shapes of the WHS assignment recommendation and settings endpoints
+ * (see backend/src/utils/clinicianAssignment.ts).
+ */
+
+export type AssignmentPolicy = 'manual' | 'round_robin' | 'best_match'
+
+export interface ClinicianRecommendation {
+  clinicianId: string
+  name: string
+  email: string
+  score: number // 0-100
+  available: boolean
+  openCases: number
+  maxOpenCases: number | null
+  upcomingAppointments: number
+  specialties: string[]
+  specialtyMatch: 'match' | 'generalist' | 'other'
+  avgDaysToRtw: number | null
+  rtwCases: number
+  reasons: string[]
+}
+
+export interface ClinicianAssignmentProfile {
+  id: string
+  name: string
+  email: string
+  specialties: string[]
+  maxOpenCases: number | null
+  acceptingNewCases: boolean
+}
+
+export const ASSIGNMENT_POLICY_LABELS: Record<AssignmentPolicy, string> = {
+  manual: 'Manual - WHS picks a clinician',
+  round_robin: 'Round robin - next available clinician in turn',
+  best_match: 'Best match - top recommendation',
+}
+
+export const SPECIALTY_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'accident', label: 'Accident' },
+  { value: 'injury', label: 'Injury' },
+  { value: 'medical_leave', label: 'Medical Leave' },
+  { value: 'other', label: 'Other' },
+]
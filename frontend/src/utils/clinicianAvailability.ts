@@ -0,0 +1,87 @@
+/**
+ * Clinician Availability Types & Helpers
+ * Shapes of GET /api/clinician/availability and the worker booking endpoints
+ * (see backend/src/utils/clinicianAvailability.ts). Times are the clinician's wall-clock time.
+ */
+
+export interface BookingSettings {
+  timezone: string
+  allow_worker_booking: boolean
+  allow_worker_reschedule: boolean
+  slot_minutes: number
+  buffer_minutes: number
+  min_notice_hours: number
+  booking_window_days: number
+  reschedule_cutoff_hours: number
+  max_worker_reschedules: number
+}
+
+export interface WorkingHoursBlock {
+  day_of_week: number
+  start_time: string
+  end_time: string
+  location: string | null
+}
+
+export interface AvailabilityBreak {
+  day_of_week: number | null // null = every day
+  start_time: string
+  end_time: string
+  label: string | null
+}
+
+export interface ClinicianLeave {
+  id: string
+  start_date: string
+  end_date: string
+  start_time: string | null
+  end_time: string | null
+  reason: string | null
+}
+
+export interface AvailableSlot {
+  date: string
+  time: string
+  end_time: string
+  location: string | null
+}
+
+// A case the worker can book for, with its clinician's rules (GET /api/checkins/appointments/booking-options)
+export interface BookingOption {
+  caseId: string
+  caseNumber: string
+  exceptionType: string
+  clinicianId: string
+  clinicianName: string
+  allowBooking: boolean
+  allowReschedule: boolean
+  slotMinutes: number
+  minNoticeHours: number
+  bookingWindowDays: number
+  rescheduleCutoffHours: number
+  maxReschedules: number
+  timezone: string
+}
+
+export const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// "09:30" -> "9:30 AM"
+export const formatTime = (time: string): string => {
+  const [hours, minutes] = time.split(':')
+  const hour = parseInt(hours)
+  return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`
+}
+
+// Slots (sorted by date and time) grouped per date
+export const groupSlotsByDate = (slots: AvailableSlot[]): Array<{ date: string; slots: AvailableSlot[] }> => {
+  const groups: Array<{ date: string; slots: AvailableSlot[] }> = []
+  for (const slot of slots) {
+    const last = groups[groups.length - 1]
+    if (last && last.date === slot.date) {
+      last.slots.push(slot)
+    } else {
+      groups.push({ date: slot.date, slots: [slot] })
+    }
+  }
+  return groups
+}
@@ -0,0 +1,42 @@
+/**
+ * Exercise Library Constants
+ * Labels must match EXERCISE_CATEGORIES / BODY_REGIONS in backend/src/utils/rehabilitationLibrary.ts
+ */
+
+export interface LibraryExercise {
+  id: string
+  name: string
+  category: string
+  body_regions: string[]
+  contraindications: string | null
+  default_repetitions: string | null
+  instructions: string | null
+  video_url: string | null
+  image_url: string | null
+  created_by: string | null
+}
+
+export const EXERCISE_CATEGORY_LABELS: Record<string, string> = {
+  mobility: 'Mobility',
+  strength: 'Strength',
+  stretching: 'Stretching',
+  balance: 'Balance',
+  cardio: 'Cardio',
+  breathing: 'Breathing',
+  posture: 'Posture',
+  other: 'Other',
+}
+
+export const BODY_REGION_LABELS: Record<string, string> = {
+  neck: 'Neck',
+  shoulder: 'Shoulder',
+  upper_back: 'Upper back',
+  lower_back: 'Lower back',
+  elbow: 'Elbow',
+  wrist_hand: 'Wrist / hand',
+  hip: 'Hip',
+  knee: 'Knee',
+  ankle_foot: 'Ankle / foot',
+  core: 'Core',
+  full_body: 'Full body',
+}
@@ -0,0 +1,79 @@
+/**
+ * Offline read cache (localStorage)
+ *
+ * Keeps the last good copy of the data the worker app needs to open without a connection:
+ * the signed-in profile (so the session survives an offline start) and the responses the
+ * daily check-in screen renders from. Entries are scoped to the user and cleared on sign-out
+ * together with the rest of localStorage (see AuthContext.signOut).
+ */
+
+const CACHE_PREFIX = 'offline_cache:'
+const PROFILE_KEY = `${CACHE_PREFIX}profile`
+
+export interface CachedProfile {
+  id: string
+  email: string
+  role: string | null
+  first_name?: string | null
+  last_name?: string | null
+  full_name?: string | null
+  phone?: string | null
+  business_name?: string | null
+  business_registration_number?: string | null
+}
+
+interface CachedEntry<T> {
+  data: T
+  cachedAt: string
+}
+
+function readEntry<T>(key: string): CachedEntry<T> | null {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as CachedEntry<T>) : null
+  } catch {
+    return null
+  }
+}
+
+function writeEntry<T>(key: string, data: T): void {
+  try {
+    const entry: CachedEntry<T> = { data, cachedAt: new Date().toISOString() }
+    localStorage.setItem(key, JSON.stringify(entry))
+  } catch (err) {
+    // Storage full or disabled - the app still works online
+    console.warn('[OfflineCache] Failed to cache data:', err)
+  }
+}
+
+// ============================================
+// Profile
+// ============================================
+
+export function cacheProfile(profile: CachedProfile): void {
+  writeEntry(PROFILE_KEY, profile)
+}
+
+export function loadCachedProfile(): CachedProfile | null {
+  return readEntry<CachedProfile>(PROFILE_KEY)?.data ?? null
+}
+
+// ============================================
+// Responses
+// ============================================
+
+/**
+ * Cache a response for the user
+ * @param userId - Owner of the data (another user signing in on the device never sees it)
+ * @param key - Name of the data, e.g. 'checkins/status:2026-10-19'
+ */
+export function cacheResponse<T>(userId: string, key: string, data: T): void {
+  writeEntry(`${CACHE_PREFIX}${userId}:${key}`, data)
+}
+
+/**
+ * Last cached copy of a response, or null if there is none
+ */
+export function loadCachedResponse<T>(userId: string, key: string): { data: T; cachedAt: string } | null {
+  return readEntry<T>(`${CACHE_PREFIX}${userId}:${key}`)
+}
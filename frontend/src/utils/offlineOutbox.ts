@@ -0,0 +1,183 @@
+/**
+ * Offline outbox and drafts (IndexedDB)
+ *
+ * Requests that can't reach the server are queued in the outbox and replayed by the
+ * service worker (public/sw.js) when connectivity returns - via Background Sync where the
+ * browser supports it, otherwise when the page asks it to flush (on reconnect / interval).
+ * Each entry carries an Idempotency-Key so a replay never creates a duplicate on the server.
+ * Entries belong to the user who queued them: the service worker only sends them while that
+ * user is signed in (shared site devices). Signing out keeps them - they are sent the next
+ * time their owner signs in on this device, so an offline report is never lost.
+ *
+ * Drafts are form contents (including File objects) saved as the user types, so nothing
+ * is lost if a request fails or the page is closed. Draft keys include the user ID.
+ *
+ * The database layout is shared with public/sw.js - keep OUTBOX_DB_NAME/VERSION and the store names in sync.
+ */
+
+const OUTBOX_DB_NAME = 'workreadines-offline'
+const OUTBOX_DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+const DRAFTS_STORE = 'drafts'
+
+export const OUTBOX_SYNC_TAG = 'outbox-sync'
+
+export type OutboxKind = 'incident_report' | 'checkin' | 'exercise_completion'
+
+export interface OutboxEntry {
+  id: string // Also sent as the Idempotency-Key header
+  userId: string // Who queued it - only sent while this user is signed in
+  kind: OutboxKind
+  url: string
+  method: 'POST'
+  bodyType: 'form' | 'json'
+  fields: Record<string, unknown> // Form fields are sent as strings; JSON bodies as-is
+  files: Record<string, File>
+  createdAt: string
+  attempts: number
+  status: 'pending' | 'failed'
+  lastError: string | null
+}
+
+// Messages posted by the service worker to open pages
+export interface OutboxMessage {
+  type: 'OUTBOX_SENT' | 'OUTBOX_FAILED' | 'OUTBOX_UPDATED'
+  id?: string
+  kind?: OutboxKind
+  error?: string
+}
+
+/**
+ * Whether this browser can queue requests for the service worker
+ */
+export function isOutboxSupported(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window && 'serviceWorker' in navigator
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// ============================================
+// Drafts
+// ============================================
+
+/**
+ * Draft key for a form, per user (so a shared device never shows someone else's draft)
+ */
+export function getDraftKey(form: string, userId: string): string {
+  return `${form}:${userId}`
+}
+
+export async function saveDraft<T>(key: string, draft: T): Promise<void> {
+  await runTransaction(DRAFTS_STORE, 'readwrite', store => store.put(draft, key))
+}
+
+export async function loadDraft<T>(key: string): Promise<T | null> {
+  const draft = await runTransaction<T | undefined>(DRAFTS_STORE, 'readonly', store => store.get(key))
+  return draft ?? null
+}
+
+export async function clearDraft(key: string): Promise<void> {
+  await runTransaction(DRAFTS_STORE, 'readwrite', store => store.delete(key))
+}
+
+// ============================================
+// Outbox
+// ============================================
+
+/**
+ * Queue a request for the service worker to send
+ */
+export async function enqueueRequest(
+  entry: Omit<OutboxEntry, 'createdAt' | 'attempts' | 'status' | 'lastError'>
+): Promise<void> {
+  const queued: OutboxEntry = {
+    ...entry,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    lastError: null,
+  }
+  await runTransaction(OUTBOX_STORE, 'readwrite', store => store.put(queued))
+  await requestOutboxSync()
+}
+
+/**
+ * A user's queued requests, oldest first
+ */
+export async function listOutbox(userId: string, kind?: OutboxKind): Promise<OutboxEntry[]> {
+  const entries = await runTransaction<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll())
+  return entries
+    .filter(entry => entry.userId === userId && (!kind || entry.kind === kind))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export async function removeFromOutbox(id: string): Promise<void> {
+  await runTransaction(OUTBOX_STORE, 'readwrite', store => store.delete(id))
+}
+
+/**
+ * Ask the service worker to send queued requests
+ * Registers a Background Sync where supported (fires once the device is back online),
+ * and also asks for an immediate flush in case we're already online.
+ */
+export async function requestOutboxSync(): Promise<void> {
+  if (!isOutboxSupported()) return
+
+  const registration = await navigator.serviceWorker.ready
+  const syncManager = (registration as ServiceWorkerRegistration & {
+    sync?: { register: (tag: string) => Promise<void> }
+  }).sync
+
+  if (syncManager) {
+    await syncManager.register(OUTBOX_SYNC_TAG).catch(() => undefined)
+  }
+
+  registration.active?.postMessage({ type: 'FLUSH_OUTBOX' })
+}
+
+/**
+ * Register the service worker (offline app shell + outbox replay, see public/sw.js)
+ */
+export function registerServiceWorker(): void {
+  if (!isOutboxSupported()) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err)
+    })
+  })
+}
@@ -0,0 +1,85 @@
+/**
+ * Readiness Scoring Utilities
+ * Preview-only mirror of backend/src/utils/readinessScoring.ts.
+ * The backend recomputes readiness on submit and its result is authoritative.
+ */
+
+export type ReadinessLevel = 'Green' | 'Yellow' | 'Red'
+
+export interface ReadinessRules {
+  id: string | null
+  version: number
+  painWeight: number
+  fatigueWeight: number
+  stressWeight: number
+  sleepWeight: number
+  sleepTargetHours: number
+  greenMaxScore: number
+  yellowMaxScore: number
+  painRedFlag: number | null
+  fatigueRedFlag: number | null
+  stressRedFlag: number | null
+  minSleepHours: number | null
+}
+
+// Must match backend DEFAULT_READINESS_RULES (used until the team's rules load)
+export const DEFAULT_READINESS_RULES: ReadinessRules = {
+  id: null,
+  version: 0,
+  painWeight: 1,
+  fatigueWeight: 1,
+  stressWeight: 1,
+  sleepWeight: 1,
+  sleepTargetHours: 8,
+  greenMaxScore: 10,
+  yellowMaxScore: 20,
+  painRedFlag: 8,
+  fatigueRedFlag: 9,
+  stressRedFlag: 9,
+  minSleepHours: 3,
+}
+
+export const READINESS_COLORS: Record<ReadinessLevel, string> = {
+  Green: '#10b981',
+  Yellow: '#f59e0b',
+  Red: '#ef4444',
+}
+
+/**
+ * Compute readiness level from check-in inputs
+ * @param inputs - Pain, fatigue, stress (0-10) and sleep hours (0-12)
+ * @param rules - Team readiness rules
+ * @param custom - Weighted score and red flag count from team custom questions
+ * @returns Level and weighted score
+ */
+export function computeReadiness(
+  inputs: { painLevel: number; fatigueLevel: number; stressLevel: number; sleepQuality: number },
+  rules: ReadinessRules = DEFAULT_READINESS_RULES,
+  custom: { score: number; redFlagCount: number } = { score: 0, redFlagCount: 0 }
+): { level: ReadinessLevel; score: number } {
+  const sleepTarget = rules.sleepTargetHours > 0 ? rules.sleepTargetHours : DEFAULT_READINESS_RULES.sleepTargetHours
+  const sleepDeficit = 10 - Math.min((inputs.sleepQuality / sleepTarget) * 10, 10)
+
+  const score =
+    inputs.painLevel * rules.painWeight +
+    inputs.fatigueLevel * rules.fatigueWeight +
+    inputs.stressLevel * rules.stressWeight +
+    sleepDeficit * rules.sleepWeight +
+    custom.score
+
+  const hasRedFlag =
+    custom.redFlagCount > 0 ||
+    (rules.painRedFlag !== null && inputs.painLevel >= rules.painRedFlag) ||
+    (rules.fatigueRedFlag !== null && inputs.fatigueLevel >= rules.fatigueRedFlag) ||
+    (rules.stressRedFlag !== null && inputs.stressLevel >= rules.stressRedFlag) ||
+    (rules.minSleepHours !== null && inputs.sleepQuality < rules.minSleepHours)
+
+  let level: ReadinessLevel = 'Green'
+  if (hasRedFlag || score > rules.yellowMaxScore) {
+    level = 'Red'
+  } else if (score > rules.greenMaxScore) {
+    level = 'Yellow'
+  }
+
+  return { level, score: Math.round(score * 100) / 100 }
+}
@@ -0,0 +1,186 @@
+/**
+ * Phased Rehabilitation Plan Helpers
+ * Form drafts for plan phases and conversion to/from the API shape
+ * (see backend/src/utils/rehabilitationSchedule.ts). Prescriptions point at plan exercises by position.
+ */
+
+export interface ExercisePrescription {
+  exercise_id: string
+  sets: number | null
+  repetitions: number | null
+  hold_seconds: number | null
+  weekly_rep_increase: number
+  weekly_hold_increase: number
+}
+
+export interface PlanPhase {
+  id: string
+  phase_order: number
+  name: string
+  start_day: number
+  end_day: number
+  rest_days: number[]
+  notes: string | null
+  prescriptions: ExercisePrescription[]
+}
+
+export type ProgressionRecommendation = 'step_up' | 'hold' | 'back_off'
+
+export interface ExerciseFeedbackSummary {
+  exercise_id: string
+  completions: number
+  reports: number
+  averagePain: number | null
+  averageDifficulty: number | null
+  averagePainIncrease: number | null
+  recentPain: number | null
+  recentDifficulty: number | null
+  lastReportDate: string | null
+  recommendation: ProgressionRecommendation | null
+  history: Array<{
+    completion_date: string
+    pain_before: number | null
+    pain_after: number | null
+    difficulty: number | null
+    note: string | null
+  }>
+}
+
+// Form values are kept as strings so inputs can be cleared while typing
+export interface PrescriptionDraft {
+  sets: string
+  repetitions: string
+  hold_seconds: string
+  weekly_rep_increase: string
+  weekly_hold_increase: string
+}
+
+export interface PhaseDraft {
+  name: string
+  start_day: number
+  end_day: number
+  rest_days: string
+  notes: string
+  prescriptions: Record<number, PrescriptionDraft> // keyed by exercise index
+}
+
+export const RECOMMENDATION_LABELS: Record<ProgressionRecommendation, string> = {
+  step_up: 'Ready to step up',
+  hold: 'Keep as is',
+  back_off: 'Back off',
+}
+
+export const EMPTY_PRESCRIPTION: PrescriptionDraft = {
+  sets: '',
+  repetitions: '',
+  hold_seconds: '',
+  weekly_rep_increase: '',
+  weekly_hold_increase: '',
+}
+
+// New phase after the existing ones, doing every exercise
+export const createPhaseDraft = (phases: PhaseDraft[], totalDays: number, exerciseCount: number): PhaseDraft => {
+  const startDay = phases.length > 0 ? phases[phases.length - 1].end_day + 1 : 1
+  return {
+    name: `Phase ${phases.length + 1}`,
+    start_day: startDay,
+    end_day: Math.max(startDay, Math.min(totalDays, startDay + 6)),
+    rest_days: '',
+    notes: '',
+    prescriptions: Object.fromEntries(Array.from({ length: exerciseCount }, (_, i) => [i, { ...EMPTY_PRESCRIPTION }])),
+  }
+}
+
+// Phases follow each other - each starts the day after the previous one ends
+export const reflowPhases = (phases: PhaseDraft[]): PhaseDraft[] => {
+  let startDay = 1
+  return phases.map(phase => {
+    const reflowed = { ...phase, start_day: startDay, end_day: Math.max(startDay, phase.end_day) }
+    startDay = reflowed.end_day + 1
+    return reflowed
+  })
+}
+
+// Keep prescriptions pointing at the right exercise after one is removed from the form
+export const removeExerciseFromPhases = (phases: PhaseDraft[], removedIndex: number): PhaseDraft[] => {
+  return phases.map(phase => ({
+    ...phase,
+    prescriptions: Object.fromEntries(
+      Object.entries(phase.prescriptions)
+        .filter(([index]) => Number(index) !== removedIndex)
+        .map(([index, prescription]) => [Number(index) > removedIndex ? Number(index) - 1 : Number(index), prescription])
+    ),
+  }))
+}
+
+const toNumber = (value: string): number | null => {
+  if (!value.trim()) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? Math.round(parsed) : null
+}
+
+/**
+ * Drafts -> request body for POST /rehabilitation-plans and PUT /rehabilitation-plans/:id/phases
+ * @param exerciseIndexMap - form index -> submitted index, when empty exercises are dropped before saving
+ */
+export const phasesToPayload = (phases: PhaseDraft[], exerciseIndexMap?: Map<number, number>) => {
+  return phases.map(phase => ({
+    name: phase.name.trim(),
+    start_day: phase.start_day,
+    end_day: phase.end_day,
+    rest_days: phase.rest_days
+      .split(/[\s,]+/)
+      .map(day => parseInt(day, 10))
+      .filter(day => !isNaN(day)),
+    notes: phase.notes.trim() || null,
+    prescriptions: Object.entries(phase.prescriptions)
+      .map(([index, prescription]) => ({
+        exercise_index: exerciseIndexMap ? exerciseIndexMap.get(Number(index)) : Number(index),
+        sets: toNumber(prescription.sets),
+        repetitions: toNumber(prescription.repetitions),
+        hold_seconds: toNumber(prescription.hold_seconds),
+        weekly_rep_increase: toNumber(prescription.weekly_rep_increase) || 0,
+        weekly_hold_increase: toNumber(prescription.weekly_hold_increase) || 0,
+      }))
+      .filter(prescription => prescription.exercise_index !== undefined),
+  }))
+}
+
+// Saved phases -> drafts for editing
+export const phasesToDrafts = (phases: PlanPhase[], exerciseIds: string[]): PhaseDraft[] => {
+  const text = (value: number | null) => (value === null || value === 0 ? '' : String(value))
+  return phases.map(phase => ({
+    name: phase.name,
+    start_day: phase.start_day,
+    end_day: phase.end_day,
+    rest_days: phase.rest_days.join(', '),
+    notes: phase.notes || '',
+    prescriptions: Object.fromEntries(
+      phase.prescriptions
+        .filter(prescription => exerciseIds.includes(prescription.exercise_id))
+        .map(prescription => [exerciseIds.indexOf(prescription.exercise_id), {
+          sets: text(prescription.sets),
+          repetitions: text(prescription.repetitions),
+          hold_seconds: text(prescription.hold_seconds),
+          weekly_rep_increase: text(prescription.weekly_rep_increase),
+          weekly_hold_increase: text(prescription.weekly_hold_increase),
+        }])
+    ),
+  }))
+}
+
+// "3 × 12 reps · hold 10s"
+export const formatPrescription = (prescription: { sets: number | null; repetitions: number | null; hold_seconds: number | null }): string => {
+  const parts: string[] = []
+  if (prescription.sets && prescription.repetitions) {
+    parts.push(`${prescription.sets} × ${prescription.repetitions} reps`)
+  } else if (prescription.repetitions) {
+    parts.push(`${prescription.repetitions} reps`)
+  } else if (prescription.sets) {
+    parts.push(`${prescription.sets} set${prescription.sets === 1 ? '' : 's'}`)
+  }
+  if (prescription.hold_seconds) {
+    parts.push(`hold ${prescription.hold_seconds}s`)
+  }
+  return parts.join(' · ')
+}
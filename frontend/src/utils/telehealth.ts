@@ -0,0 +1,29 @@
+/**
+ * Telehealth Types & Helpers
+ * Video appointments (see backend/src/utils/telehealth.ts). Join links are personal and expiring,
+ * so they're requested from POST /api/telehealth/appointments/:id/join at click time, never stored.
+ */
+
+import { API_BASE_URL } from '../config/api'
+
+export type VisitMode = 'in_person' | 'telehealth'
+
+export interface JoinWindow {
+  opensAt: string // ISO
+  closesAt: string // ISO
+}
+
+/**
+ * Whether the video room can be joined right now
+ */
+export function isJoinWindowOpen(joinWindow: JoinWindow | null | undefined, now: number): boolean {
+  if (!joinWindow) return false
+  return now >= new Date(joinWindow.opensAt).getTime() && now <= new Date(joinWindow.closesAt).getTime()
+}
+
+/**
+ * Join links from the local stub provider are relative to the API origin
+ */
+export function resolveJoinUrl(joinUrl: string): string {
+  return joinUrl.startsWith('/') ? `${API_BASE_URL}${joinUrl}` : joinUrl
+}
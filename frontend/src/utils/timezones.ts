@@ -0,0 +1,29 @@
+/**
+ * Site Timezone Options
+ * Teams carry an IANA timezone - schedule times, check-in windows and "today" are the site's
+ * local time. Default must match the backend DEFAULT_TIMEZONE.
+ */
+
+export const DEFAULT_TIMEZONE = 'Australia/Sydney'
+
+export const TIMEZONE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'Australia/Sydney', label: 'NSW / ACT (Sydney)' },
+  { value: 'Australia/Melbourne', label: 'Victoria (Melbourne)' },
+  { value: 'Australia/Brisbane', label: 'Queensland (Brisbane)' },
+  { value: 'Australia/Adelaide', label: 'South Australia (Adelaide)' },
+  { value: 'Australia/Darwin', label: 'Northern Territory (Darwin)' },
+  { value: 'Australia/Perth', label: 'Western Australia (Perth)' },
+  { value: 'Australia/Hobart', label: 'Tasmania (Hobart)' },
+  { value: 'Australia/Broken_Hill', label: 'Broken Hill' },
+  { value: 'Australia/Eucla', label: 'Eucla' },
+  { value: 'Australia/Lord_Howe', label: 'Lord Howe Island' },
+  { value: 'Pacific/Auckland', label: 'New Zealand (Auckland)' },
+]
+
+/**
+ * Label for a timezone (falls back to the IANA name)
+ */
+export function getTimezoneLabel(timezone: string | null | undefined): string {
+  const value = timezone || DEFAULT_TIMEZONE
+  return TIMEZONE_OPTIONS.find((option) => option.value === value)?.label || value
+}